@@ -0,0 +1,18 @@
+CREATE TABLE "smart_collections" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "filters" JSONB NOT NULL,
+    "lastVisitedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "smart_collections_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "smart_collections_userId_name_key" ON "smart_collections"("userId", "name");
+CREATE INDEX "smart_collections_userId_idx" ON "smart_collections"("userId");
+
+ALTER TABLE "smart_collections"
+  ADD CONSTRAINT "smart_collections_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "UserBA"("id") ON DELETE CASCADE ON UPDATE CASCADE;
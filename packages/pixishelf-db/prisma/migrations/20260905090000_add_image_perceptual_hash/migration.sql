@@ -0,0 +1,29 @@
+ALTER TYPE "ArtworkRelationType" ADD VALUE 'DUPLICATE_OF';
+
+ALTER TABLE "Image"
+  ADD COLUMN "perceptualHash" BIGINT,
+  ADD COLUMN "perceptualHashedAt" TIMESTAMP(3);
+
+CREATE INDEX "Image_perceptualHashedAt_idx" ON "Image"("perceptualHashedAt");
+
+CREATE TABLE "artwork_duplicate_dismissals" (
+    "id" SERIAL NOT NULL,
+    "artworkId" INTEGER NOT NULL,
+    "otherArtworkId" INTEGER NOT NULL,
+    "dismissedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "artwork_duplicate_dismissals_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "artwork_duplicate_dismissals_order_check" CHECK ("artworkId" < "otherArtworkId")
+);
+
+CREATE UNIQUE INDEX "artwork_duplicate_dismissals_artworkId_otherArtworkId_key"
+  ON "artwork_duplicate_dismissals"("artworkId", "otherArtworkId");
+CREATE INDEX "artwork_duplicate_dismissals_otherArtworkId_idx" ON "artwork_duplicate_dismissals"("otherArtworkId");
+
+ALTER TABLE "artwork_duplicate_dismissals"
+  ADD CONSTRAINT "artwork_duplicate_dismissals_artworkId_fkey"
+  FOREIGN KEY ("artworkId") REFERENCES "Artwork"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "artwork_duplicate_dismissals"
+  ADD CONSTRAINT "artwork_duplicate_dismissals_otherArtworkId_fkey"
+  FOREIGN KEY ("otherArtworkId") REFERENCES "Artwork"("id") ON DELETE CASCADE ON UPDATE CASCADE;
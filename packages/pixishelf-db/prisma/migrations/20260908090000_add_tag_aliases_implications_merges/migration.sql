@@ -0,0 +1,63 @@
+CREATE TABLE "tag_aliases" (
+    "id" SERIAL NOT NULL,
+    "namespace" VARCHAR(50) NOT NULL DEFAULT 'general',
+    "name" TEXT NOT NULL,
+    "tagId" INTEGER NOT NULL,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tag_aliases_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "tag_aliases_namespace_name_key" ON "tag_aliases"("namespace", "name");
+CREATE INDEX "tag_aliases_name_idx" ON "tag_aliases"("name");
+CREATE INDEX "tag_aliases_tagId_idx" ON "tag_aliases"("tagId");
+
+ALTER TABLE "tag_aliases"
+  ADD CONSTRAINT "tag_aliases_tagId_fkey"
+  FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "tag_implications" (
+    "id" SERIAL NOT NULL,
+    "tagId" INTEGER NOT NULL,
+    "impliedTagId" INTEGER NOT NULL,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tag_implications_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "tag_implications_not_self_check" CHECK ("tagId" <> "impliedTagId")
+);
+
+CREATE UNIQUE INDEX "tag_implications_tagId_impliedTagId_key" ON "tag_implications"("tagId", "impliedTagId");
+CREATE INDEX "tag_implications_impliedTagId_idx" ON "tag_implications"("impliedTagId");
+
+ALTER TABLE "tag_implications"
+  ADD CONSTRAINT "tag_implications_tagId_fkey"
+  FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "tag_implications"
+  ADD CONSTRAINT "tag_implications_impliedTagId_fkey"
+  FOREIGN KEY ("impliedTagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "tag_merges" (
+    "id" TEXT NOT NULL,
+    "sourceTagId" INTEGER NOT NULL,
+    "sourceNamespace" VARCHAR(50) NOT NULL,
+    "sourceName" TEXT NOT NULL,
+    "targetTagId" INTEGER,
+    "movedArtworkCount" INTEGER NOT NULL DEFAULT 0,
+    "snapshot" JSONB NOT NULL,
+    "mergedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoDeadline" TIMESTAMP(3) NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "undoneByUserId" TEXT,
+
+    CONSTRAINT "tag_merges_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "tag_merges_createdAt_idx" ON "tag_merges"("createdAt");
+CREATE INDEX "tag_merges_targetTagId_idx" ON "tag_merges"("targetTagId");
+
+ALTER TABLE "tag_merges"
+  ADD CONSTRAINT "tag_merges_targetTagId_fkey"
+  FOREIGN KEY ("targetTagId") REFERENCES "Tag"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+CREATE TABLE "archive_revision_restores" (
+    "id" TEXT NOT NULL,
+    "artworkId" INTEGER NOT NULL,
+    "fromRevisionId" TEXT,
+    "toRevisionId" TEXT NOT NULL,
+    "systemJobId" TEXT,
+    "requestedByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "archive_revision_restores_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "archive_revision_restores_systemJobId_key" ON "archive_revision_restores"("systemJobId");
+CREATE INDEX "archive_revision_restores_artworkId_createdAt_idx" ON "archive_revision_restores"("artworkId", "createdAt" DESC);
+
+ALTER TABLE "archive_revision_restores"
+  ADD CONSTRAINT "archive_revision_restores_artworkId_fkey"
+  FOREIGN KEY ("artworkId") REFERENCES "Artwork"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "archive_revision_restores"
+  ADD CONSTRAINT "archive_revision_restores_systemJobId_fkey"
+  FOREIGN KEY ("systemJobId") REFERENCES "system_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+CREATE TYPE "ArchiveUpdateCheckStatus" AS ENUM ('UNCHANGED', 'CHANGED', 'FAILED');
+
+CREATE TABLE "archive_update_checks" (
+    "id" TEXT NOT NULL,
+    "externalRefId" TEXT NOT NULL,
+    "systemJobId" TEXT,
+    "status" "ArchiveUpdateCheckStatus" NOT NULL,
+    "previousMetadataHash" TEXT,
+    "metadataHash" TEXT,
+    "diff" JSONB,
+    "archiveImportId" TEXT,
+    "replacementExternalId" TEXT,
+    "replacementCanonicalUrl" TEXT,
+    "replacementArchiveImportId" TEXT,
+    "errorCode" VARCHAR(50),
+    "errorMessage" TEXT,
+    "checkedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "archive_update_checks_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "archive_update_checks_externalRefId_checkedAt_idx" ON "archive_update_checks"("externalRefId", "checkedAt" DESC);
+CREATE INDEX "archive_update_checks_status_checkedAt_idx" ON "archive_update_checks"("status", "checkedAt");
+CREATE INDEX "archive_update_checks_systemJobId_idx" ON "archive_update_checks"("systemJobId");
+
+ALTER TABLE "archive_update_checks"
+  ADD CONSTRAINT "archive_update_checks_externalRefId_fkey"
+  FOREIGN KEY ("externalRefId") REFERENCES "artwork_external_refs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "archive_update_checks"
+  ADD CONSTRAINT "archive_update_checks_systemJobId_fkey"
+  FOREIGN KEY ("systemJobId") REFERENCES "system_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The scheduled update check shares the resolver lane with intake resolution.
+ALTER TABLE "system_jobs" DROP CONSTRAINT "system_jobs_type_execution_lane_check";
+ALTER TABLE "system_jobs"
+  ADD CONSTRAINT "system_jobs_type_execution_lane_check" CHECK (
+    (
+      "type" IN ('ARCHIVE_RESOLVE_ITEM', 'ARCHIVE_UPDATE_CHECK')
+      AND "executionLane" = 'ARCHIVE_RESOLVE'
+    )
+    OR (
+      "type" NOT IN ('ARCHIVE_RESOLVE_ITEM', 'ARCHIVE_UPDATE_CHECK')
+      AND "executionLane" = 'BACKGROUND_WRITER'
+    )
+  );
@@ -0,0 +1,20 @@
+CREATE TYPE "UserAccessTokenScope" AS ENUM ('FEED');
+
+CREATE TABLE "user_access_tokens" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "scope" "UserAccessTokenScope" NOT NULL,
+    "tokenHash" CHAR(64) NOT NULL,
+    "tokenPrefix" VARCHAR(16) NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_access_tokens_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "user_access_tokens_tokenHash_key" ON "user_access_tokens"("tokenHash");
+CREATE UNIQUE INDEX "user_access_tokens_userId_scope_key" ON "user_access_tokens"("userId", "scope");
+
+ALTER TABLE "user_access_tokens"
+  ADD CONSTRAINT "user_access_tokens_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "UserBA"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1 @@
+ALTER TYPE "UserAccessTokenScope" ADD VALUE 'INGEST';
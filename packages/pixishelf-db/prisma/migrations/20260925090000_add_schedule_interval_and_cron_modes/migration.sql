@@ -0,0 +1,13 @@
+ALTER TYPE "ScheduleMode" ADD VALUE 'INTERVAL';
+ALTER TYPE "ScheduleMode" ADD VALUE 'CRON';
+
+ALTER TABLE "scheduled_tasks"
+    ADD COLUMN "intervalMinutes" INTEGER,
+    ADD COLUMN "cronExpression" VARCHAR(120),
+    ADD COLUMN "lastMaterializedFor" TIMESTAMP(3),
+    ADD CONSTRAINT "scheduled_tasks_interval_minutes_check" CHECK ("intervalMinutes" IS NULL OR "intervalMinutes" > 0);
+
+ALTER TABLE "system_jobs" ADD COLUMN "scheduledFor" TIMESTAMP(3);
+
+CREATE UNIQUE INDEX "system_jobs_scheduledTaskId_scheduledFor_key"
+    ON "system_jobs"("scheduledTaskId", "scheduledFor");
@@ -0,0 +1,16 @@
+CREATE TABLE "system_job_dependencies" (
+    "jobId" TEXT NOT NULL,
+    "dependsOnJobId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "system_job_dependencies_pkey" PRIMARY KEY ("jobId", "dependsOnJobId"),
+    CONSTRAINT "system_job_dependencies_not_self_check" CHECK ("jobId" <> "dependsOnJobId")
+);
+
+CREATE INDEX "system_job_dependencies_dependsOnJobId_idx" ON "system_job_dependencies"("dependsOnJobId");
+
+ALTER TABLE "system_job_dependencies" ADD CONSTRAINT "system_job_dependencies_jobId_fkey"
+  FOREIGN KEY ("jobId") REFERENCES "system_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "system_job_dependencies" ADD CONSTRAINT "system_job_dependencies_dependsOnJobId_fkey"
+  FOREIGN KEY ("dependsOnJobId") REFERENCES "system_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,95 @@
+CREATE TYPE "NotificationChannelKind" AS ENUM ('WEBHOOK', 'NTFY', 'GOTIFY', 'SMTP');
+
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('PENDING', 'SENDING', 'RETRY_WAIT', 'DELIVERED', 'FAILED');
+
+CREATE TABLE "notification_channels" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(80) NOT NULL,
+    "kind" "NotificationChannelKind" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "config" JSONB NOT NULL,
+    "jobTypes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "levels" "JobEventLevel"[] NOT NULL DEFAULT ARRAY[]::"JobEventLevel"[],
+    "eventTypes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "notification_deliveries" (
+    "id" BIGSERIAL NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "eventId" BIGINT,
+    "eventType" VARCHAR(50) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempt" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "notification_deliveries_channelId_eventId_key" ON "notification_deliveries"("channelId", "eventId");
+
+CREATE INDEX "notification_deliveries_status_nextAttemptAt_idx" ON "notification_deliveries"("status", "nextAttemptAt");
+
+CREATE INDEX "notification_deliveries_channelId_id_idx" ON "notification_deliveries"("channelId", "id");
+
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_channelId_fkey"
+  FOREIGN KEY ("channelId") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_eventId_fkey"
+  FOREIGN KEY ("eventId") REFERENCES "system_job_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 事件写入与投递记录在同一事务内落库：事件提交即保证投递，回滚则一并撤销。
+-- 载荷在此刻快照，重试不依赖事件保留期；筛选列表为空表示不限制。
+CREATE OR REPLACE FUNCTION enqueue_notification_deliveries()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM "notification_channels" WHERE "enabled") THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO "notification_deliveries" ("channelId", "eventId", "eventType", "payload")
+    SELECT
+        channel."id",
+        NEW."id",
+        NEW."type",
+        jsonb_build_object(
+            'eventId', NEW."id"::TEXT,
+            'eventType', NEW."type",
+            'level', NEW."level"::TEXT,
+            'message', NEW."message",
+            'stage', NEW."stage",
+            'attempt', NEW."attempt",
+            'data', NEW."data",
+            'occurredAt', to_char(NEW."createdAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+            'job', jsonb_build_object(
+                'id', job."id",
+                'type', job."type",
+                'status', job."status"::TEXT,
+                'triggerSource', job."triggerSource"::TEXT,
+                'errorCode', job."errorCode",
+                'error', job."error"
+            )
+        )
+    FROM "notification_channels" channel
+    JOIN "system_jobs" job ON job."id" = NEW."jobId"
+    WHERE channel."enabled"
+      AND (cardinality(channel."jobTypes") = 0 OR job."type" = ANY(channel."jobTypes"))
+      AND (cardinality(channel."levels") = 0 OR NEW."level" = ANY(channel."levels"))
+      AND (cardinality(channel."eventTypes") = 0 OR NEW."type" = ANY(channel."eventTypes"))
+    ON CONFLICT ("channelId", "eventId") DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER system_job_events_notification_trigger
+AFTER INSERT ON "system_job_events"
+FOR EACH ROW EXECUTE FUNCTION enqueue_notification_deliveries();
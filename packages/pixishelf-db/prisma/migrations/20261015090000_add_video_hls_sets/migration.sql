@@ -0,0 +1,32 @@
+CREATE TYPE "VideoHlsSetStatus" AS ENUM ('STAGING', 'PUBLISHED', 'FAILED', 'CANCELLED');
+
+CREATE TABLE "MediaVideoHlsSet" (
+    "id" TEXT NOT NULL,
+    "imageId" INTEGER NOT NULL,
+    "systemJobId" TEXT,
+    "status" "VideoHlsSetStatus" NOT NULL DEFAULT 'STAGING',
+    "sourceSize" BIGINT NOT NULL,
+    "sourceMtimeMs" BIGINT NOT NULL,
+    "policyVersion" INTEGER NOT NULL,
+    "reasons" TEXT[],
+    "renditions" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaVideoHlsSet_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "MediaVideoHlsSet_systemJobId_key" ON "MediaVideoHlsSet"("systemJobId");
+
+CREATE INDEX "MediaVideoHlsSet_imageId_status_idx" ON "MediaVideoHlsSet"("imageId", "status");
+
+CREATE INDEX "MediaVideoHlsSet_status_updatedAt_idx" ON "MediaVideoHlsSet"("status", "updatedAt");
+
+-- At most one published generation per video; the publisher retires the previous one in the same transaction.
+CREATE UNIQUE INDEX "MediaVideoHlsSet_single_published_idx" ON "MediaVideoHlsSet"("imageId") WHERE "status" = 'PUBLISHED';
+
+ALTER TABLE "MediaVideoHlsSet" ADD CONSTRAINT "MediaVideoHlsSet_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "MediaVideoHlsSet" ADD CONSTRAINT "MediaVideoHlsSet_systemJobId_fkey" FOREIGN KEY ("systemJobId") REFERENCES "system_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+CREATE TYPE "VideoSubtitleSource" AS ENUM ('SIDECAR', 'EMBEDDED');
+
+CREATE TYPE "VideoSubtitleStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+CREATE TABLE "MediaVideoSubtitleTrack" (
+    "id" TEXT NOT NULL,
+    "imageId" INTEGER NOT NULL,
+    "source" "VideoSubtitleSource" NOT NULL,
+    "sourceKey" TEXT NOT NULL,
+    "format" VARCHAR(40) NOT NULL,
+    "language" VARCHAR(35),
+    "label" VARCHAR(200),
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "status" "VideoSubtitleStatus" NOT NULL DEFAULT 'PENDING',
+    "vttPath" TEXT,
+    "sourceSize" BIGINT,
+    "sourceMtimeMs" BIGINT,
+    "error" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaVideoSubtitleTrack_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "MediaVideoSubtitleTrack_imageId_source_sourceKey_key" ON "MediaVideoSubtitleTrack"("imageId", "source", "sourceKey");
+
+CREATE INDEX "MediaVideoSubtitleTrack_status_imageId_idx" ON "MediaVideoSubtitleTrack"("status", "imageId");
+
+ALTER TABLE "MediaVideoSubtitleTrack" ADD CONSTRAINT "MediaVideoSubtitleTrack_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
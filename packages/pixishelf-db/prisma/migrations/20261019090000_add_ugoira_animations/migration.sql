@@ -0,0 +1,25 @@
+CREATE TYPE "UgoiraConversionStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+CREATE TABLE "MediaUgoiraAnimation" (
+    "imageId" INTEGER NOT NULL,
+    "status" "UgoiraConversionStatus" NOT NULL DEFAULT 'PENDING',
+    "timingSource" VARCHAR(20),
+    "frameCount" INTEGER NOT NULL DEFAULT 0,
+    "frameDelays" INTEGER[],
+    "durationMs" INTEGER NOT NULL DEFAULT 0,
+    "width" INTEGER,
+    "height" INTEGER,
+    "outputPath" TEXT,
+    "sourceSize" BIGINT,
+    "sourceMtimeMs" BIGINT,
+    "error" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaUgoiraAnimation_pkey" PRIMARY KEY ("imageId")
+);
+
+CREATE INDEX "MediaUgoiraAnimation_status_imageId_idx" ON "MediaUgoiraAnimation"("status", "imageId");
+
+ALTER TABLE "MediaUgoiraAnimation" ADD CONSTRAINT "MediaUgoiraAnimation_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE CASCADE ON UPDATE CASCADE;
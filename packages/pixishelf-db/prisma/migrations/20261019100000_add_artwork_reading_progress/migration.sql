@@ -0,0 +1,25 @@
+CREATE TABLE "artwork_reading_progress" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "artworkId" INTEGER NOT NULL,
+    "mediaIndex" INTEGER NOT NULL DEFAULT 0,
+    "mediaCount" INTEGER NOT NULL DEFAULT 0,
+    "imageId" INTEGER,
+    "videoPositionSec" DOUBLE PRECISION,
+    "completed" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "artwork_reading_progress_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "artwork_reading_progress_userId_artworkId_key" ON "artwork_reading_progress"("userId", "artworkId");
+CREATE INDEX "artwork_reading_progress_userId_completed_updatedAt_idx" ON "artwork_reading_progress"("userId", "completed", "updatedAt" DESC);
+CREATE INDEX "artwork_reading_progress_artworkId_idx" ON "artwork_reading_progress"("artworkId");
+
+ALTER TABLE "artwork_reading_progress"
+  ADD CONSTRAINT "artwork_reading_progress_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "UserBA"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "artwork_reading_progress"
+  ADD CONSTRAINT "artwork_reading_progress_artworkId_fkey"
+  FOREIGN KEY ("artworkId") REFERENCES "Artwork"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+CREATE TABLE "artwork_view_history" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "artworkId" INTEGER NOT NULL,
+    "source" VARCHAR(16) NOT NULL DEFAULT 'artwork',
+    "mediaViewed" INTEGER NOT NULL DEFAULT 0,
+    "durationSec" INTEGER NOT NULL DEFAULT 0,
+    "videoWatchSec" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastActiveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "artwork_view_history_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "artwork_view_history_userId_lastActiveAt_idx" ON "artwork_view_history"("userId", "lastActiveAt" DESC);
+CREATE INDEX "artwork_view_history_userId_startedAt_idx" ON "artwork_view_history"("userId", "startedAt");
+CREATE INDEX "artwork_view_history_artworkId_idx" ON "artwork_view_history"("artworkId");
+
+ALTER TABLE "artwork_view_history"
+  ADD CONSTRAINT "artwork_view_history_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "UserBA"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "artwork_view_history"
+  ADD CONSTRAINT "artwork_view_history_artworkId_fkey"
+  FOREIGN KEY ("artworkId") REFERENCES "Artwork"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+CREATE TYPE "MediaIntegrityIssueKind" AS ENUM ('MISSING', 'MISMATCH', 'UNREADABLE');
+
+ALTER TABLE "Image"
+  ADD COLUMN "contentSha256" CHAR(64),
+  ADD COLUMN "contentSize" BIGINT,
+  ADD COLUMN "contentMtimeMs" BIGINT,
+  ADD COLUMN "contentHashedAt" TIMESTAMP(3),
+  ADD COLUMN "contentVerifiedAt" TIMESTAMP(3),
+  ADD COLUMN "contentCheckedAt" TIMESTAMP(3);
+
+CREATE INDEX "Image_contentCheckedAt_idx" ON "Image"("contentCheckedAt");
+
+CREATE TABLE "media_integrity_issues" (
+    "id" SERIAL NOT NULL,
+    "imageId" INTEGER,
+    "artworkId" INTEGER,
+    "path" TEXT NOT NULL,
+    "kind" "MediaIntegrityIssueKind" NOT NULL,
+    "expectedSha256" CHAR(64),
+    "actualSha256" CHAR(64),
+    "expectedSize" BIGINT,
+    "actualSize" BIGINT,
+    "lastVerifiedAt" TIMESTAMP(3),
+    "jobId" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolution" VARCHAR(20),
+
+    CONSTRAINT "media_integrity_issues_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "media_integrity_issues_resolvedAt_detectedAt_idx" ON "media_integrity_issues"("resolvedAt", "detectedAt");
+CREATE INDEX "media_integrity_issues_imageId_kind_resolvedAt_idx" ON "media_integrity_issues"("imageId", "kind", "resolvedAt");
+CREATE INDEX "media_integrity_issues_artworkId_idx" ON "media_integrity_issues"("artworkId");
+
+ALTER TABLE "media_integrity_issues"
+  ADD CONSTRAINT "media_integrity_issues_imageId_fkey"
+  FOREIGN KEY ("imageId") REFERENCES "Image"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "media_integrity_issues"
+  ADD CONSTRAINT "media_integrity_issues_artworkId_fkey"
+  FOREIGN KEY ("artworkId") REFERENCES "Artwork"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+CREATE TABLE "backup_checkpoints" (
+    "id" SERIAL NOT NULL,
+    "label" VARCHAR(200) NOT NULL,
+    "location" TEXT,
+    "takenAt" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "backup_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "backup_checkpoints_takenAt_idx" ON "backup_checkpoints"("takenAt");
@@ -0,0 +1,14 @@
+CREATE TABLE "maintenance_mode_control" (
+  "id" VARCHAR(40) NOT NULL DEFAULT 'maintenance',
+  "enabled" BOOLEAN NOT NULL DEFAULT false,
+  "enabledAt" TIMESTAMP(3),
+  "enabledBy" TEXT,
+  "reason" VARCHAR(200),
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "maintenance_mode_control_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "maintenance_mode_control_singleton_check" CHECK ("id" = 'maintenance')
+);
+
+INSERT INTO "maintenance_mode_control" ("id") VALUES ('maintenance');
+
+ALTER TABLE "backup_checkpoints" ADD COLUMN "manifestSha256" CHAR(64);
@@ -0,0 +1,32 @@
+CREATE TYPE "ArtworkExportStatus" AS ENUM ('PENDING', 'READY', 'FAILED');
+
+CREATE TABLE "artwork_exports" (
+    "id" TEXT NOT NULL,
+    "systemJobId" TEXT NOT NULL,
+    "format" VARCHAR(10) NOT NULL,
+    "selectionMode" VARCHAR(20) NOT NULL,
+    "label" VARCHAR(200) NOT NULL,
+    "status" "ArtworkExportStatus" NOT NULL DEFAULT 'PENDING',
+    "requestedCount" INTEGER NOT NULL,
+    "artworkCount" INTEGER NOT NULL DEFAULT 0,
+    "fileCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "relativePath" TEXT,
+    "fileName" VARCHAR(255),
+    "sizeBytes" BIGINT,
+    "error" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "artwork_exports_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "artwork_exports_systemJobId_key" ON "artwork_exports"("systemJobId");
+CREATE INDEX "artwork_exports_createdAt_idx" ON "artwork_exports"("createdAt");
+CREATE INDEX "artwork_exports_status_expiresAt_idx" ON "artwork_exports"("status", "expiresAt");
+
+ALTER TABLE "artwork_exports"
+  ADD CONSTRAINT "artwork_exports_systemJobId_fkey"
+  FOREIGN KEY ("systemJobId") REFERENCES "system_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Local directory import accepts CBZ/ZIP page archives as frozen work inputs
+ALTER TYPE "ScanRunLocalWorkInputKind" ADD VALUE IF NOT EXISTS 'MEDIA_ARCHIVE';
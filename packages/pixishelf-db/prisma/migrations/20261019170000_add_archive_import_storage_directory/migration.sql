@@ -0,0 +1,2 @@
+-- New URL archive works place revisions under the admin storage layout frozen at enqueue
+ALTER TABLE "archive_imports" ADD COLUMN "storageDirectory" TEXT;
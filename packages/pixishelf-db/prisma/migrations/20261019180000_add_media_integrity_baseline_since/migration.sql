@@ -0,0 +1,7 @@
+-- Lower bound for the last good backup: backups taken before the file entered the library cannot restore it
+ALTER TABLE "media_integrity_issues" ADD COLUMN "baselineSince" TIMESTAMP(3);
+
+UPDATE "media_integrity_issues" AS issue
+SET "baselineSince" = GREATEST(image."createdAt", to_timestamp(image."contentMtimeMs" / 1000.0) AT TIME ZONE 'UTC')
+FROM "Image" AS image
+WHERE issue."imageId" = image."id" AND image."contentMtimeMs" IS NOT NULL;
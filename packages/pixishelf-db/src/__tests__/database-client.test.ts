@@ -33,13 +33,19 @@ describe('database package', () => {
         { tableName: 'archive_resolve_queue_control' },
         { tableName: 'derived_media_gc_entries' },
         { tableName: 'job_resource_leases' },
+        { tableName: 'maintenance_mode_control' },
+        { tableName: 'notification_channels' },
+        { tableName: 'notification_deliveries' },
         { tableName: 'pixiv_metadata_inventory' },
         { tableName: 'pixiv_metadata_inventory_state' },
         { tableName: 'pixiv_source_audit_items' },
+        { tableName: 'system_job_dependencies' },
         { tableName: 'system_job_events' },
+        { tableName: 'tag_aliases' },
+        { tableName: 'tag_implications' },
         { tableName: 'worker_instances' }
       ],
-      [{ migrationName: '20260820210000_add_pixiv_source_audit_apply' }],
+      [{ migrationName: '20261019160000_add_local_import_media_archives' }],
       [expectedIndex]
     ])
 
@@ -50,11 +56,11 @@ describe('database package', () => {
     const client = createQueryClient([[], [], [], []])
 
     await expect(assertBackgroundQueueSchema(client)).rejects.toThrow(
-      'Background queue schema is not ready: missing system_jobs.definitionVersion, system_jobs.executionLane, archive_intake_items, archive_provider_request_leases, archive_provider_throttles, archive_resolve_queue_control, derived_media_gc_entries, job_resource_leases, pixiv_metadata_inventory, pixiv_metadata_inventory_state, pixiv_source_audit_items, system_job_events, worker_instances, migration:20260820210000_add_pixiv_source_audit_apply, index:system_jobs_single_executing_per_lane_idx'
+      'Background queue schema is not ready: missing system_jobs.definitionVersion, system_jobs.executionLane, archive_intake_items, archive_provider_request_leases, archive_provider_throttles, archive_resolve_queue_control, derived_media_gc_entries, job_resource_leases, maintenance_mode_control, notification_channels, notification_deliveries, pixiv_metadata_inventory, pixiv_metadata_inventory_state, pixiv_source_audit_items, system_job_dependencies, system_job_events, tag_aliases, tag_implications, worker_instances, migration:20261019160000_add_local_import_media_archives, index:system_jobs_single_executing_per_lane_idx'
     )
   })
 
-  it('rejects a database that has the read-only audit migration but not the apply migration', async () => {
+  it('rejects a database that has not applied the latest required migration', async () => {
     const client = createQueryClient([
       [{ columnName: 'definitionVersion' }, { columnName: 'executionLane' }],
       [
@@ -64,10 +70,16 @@ describe('database package', () => {
         { tableName: 'archive_resolve_queue_control' },
         { tableName: 'derived_media_gc_entries' },
         { tableName: 'job_resource_leases' },
+        { tableName: 'maintenance_mode_control' },
+        { tableName: 'notification_channels' },
+        { tableName: 'notification_deliveries' },
         { tableName: 'pixiv_metadata_inventory' },
         { tableName: 'pixiv_metadata_inventory_state' },
         { tableName: 'pixiv_source_audit_items' },
+        { tableName: 'system_job_dependencies' },
         { tableName: 'system_job_events' },
+        { tableName: 'tag_aliases' },
+        { tableName: 'tag_implications' },
         { tableName: 'worker_instances' }
       ],
       [{ migrationName: '20260820200000_add_pixiv_source_audit' }],
@@ -75,7 +87,7 @@ describe('database package', () => {
     ])
 
     await expect(assertBackgroundQueueSchema(client)).rejects.toThrow(
-      'Background queue schema is not ready: missing migration:20260820210000_add_pixiv_source_audit_apply'
+      'Background queue schema is not ready: missing migration:20261019160000_add_local_import_media_archives'
     )
   })
 
@@ -89,13 +101,19 @@ describe('database package', () => {
         { tableName: 'archive_resolve_queue_control' },
         { tableName: 'derived_media_gc_entries' },
         { tableName: 'job_resource_leases' },
+        { tableName: 'maintenance_mode_control' },
+        { tableName: 'notification_channels' },
+        { tableName: 'notification_deliveries' },
         { tableName: 'pixiv_metadata_inventory' },
         { tableName: 'pixiv_metadata_inventory_state' },
         { tableName: 'pixiv_source_audit_items' },
+        { tableName: 'system_job_dependencies' },
         { tableName: 'system_job_events' },
+        { tableName: 'tag_aliases' },
+        { tableName: 'tag_implications' },
         { tableName: 'worker_instances' }
       ],
-      [{ migrationName: '20260820210000_add_pixiv_source_audit_apply' }],
+      [{ migrationName: '20261019160000_add_local_import_media_archives' }],
       []
     ])
 
@@ -114,13 +132,19 @@ describe('database package', () => {
         { tableName: 'archive_resolve_queue_control' },
         { tableName: 'derived_media_gc_entries' },
         { tableName: 'job_resource_leases' },
+        { tableName: 'maintenance_mode_control' },
+        { tableName: 'notification_channels' },
+        { tableName: 'notification_deliveries' },
         { tableName: 'pixiv_metadata_inventory' },
         { tableName: 'pixiv_metadata_inventory_state' },
         { tableName: 'pixiv_source_audit_items' },
+        { tableName: 'system_job_dependencies' },
         { tableName: 'system_job_events' },
+        { tableName: 'tag_aliases' },
+        { tableName: 'tag_implications' },
         { tableName: 'worker_instances' }
       ],
-      [{ migrationName: '20260820210000_add_pixiv_source_audit_apply' }],
+      [{ migrationName: '20261019160000_add_local_import_media_archives' }],
       [
         {
           ...expectedIndex,
@@ -144,13 +168,19 @@ describe('database package', () => {
         { tableName: 'archive_resolve_queue_control' },
         { tableName: 'derived_media_gc_entries' },
         { tableName: 'job_resource_leases' },
+        { tableName: 'maintenance_mode_control' },
+        { tableName: 'notification_channels' },
+        { tableName: 'notification_deliveries' },
         { tableName: 'pixiv_metadata_inventory' },
         { tableName: 'pixiv_metadata_inventory_state' },
         { tableName: 'pixiv_source_audit_items' },
+        { tableName: 'system_job_dependencies' },
         { tableName: 'system_job_events' },
+        { tableName: 'tag_aliases' },
+        { tableName: 'tag_implications' },
         { tableName: 'worker_instances' }
       ],
-      [{ migrationName: '20260820210000_add_pixiv_source_audit_apply' }],
+      [{ migrationName: '20261019160000_add_local_import_media_archives' }],
       [{ ...expectedIndex, indexExpression: 'id' }]
     ])
 
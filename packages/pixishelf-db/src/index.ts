@@ -2,7 +2,7 @@ import { Prisma, PrismaClient } from '@prisma/client'
 
 export { Prisma, PrismaClient }
 
-const latestRequiredMigration = '20260820210000_add_pixiv_source_audit_apply'
+const latestRequiredMigration = '20261019160000_add_local_import_media_archives'
 
 const requiredQueueObjects = [
   'archive_intake_items',
@@ -11,10 +11,16 @@ const requiredQueueObjects = [
   'archive_resolve_queue_control',
   'derived_media_gc_entries',
   'job_resource_leases',
+  'maintenance_mode_control',
+  'notification_channels',
+  'notification_deliveries',
   'pixiv_metadata_inventory',
   'pixiv_metadata_inventory_state',
   'pixiv_source_audit_items',
+  'system_job_dependencies',
   'system_job_events',
+  'tag_aliases',
+  'tag_implications',
   'worker_instances'
 ] as const
 
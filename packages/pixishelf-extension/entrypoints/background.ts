@@ -5,16 +5,24 @@
  * 需要通过background script来处理文件下载
  */
 
-import type { DownloadMessage, DownloadResponse } from '../types/messages'
+import type { DownloadMessage, DownloadResponse, PixiShelfRequestMessage, PixiShelfResponse } from '../types/messages'
 
 export default defineBackground(() => {
   // 监听来自content script的消息
   chrome.runtime.onMessage.addListener(
-    (message: DownloadMessage, _sender, sendResponse: (response: DownloadResponse) => void) => {
+    (
+      message: DownloadMessage | PixiShelfRequestMessage,
+      _sender,
+      sendResponse: (response: DownloadResponse | PixiShelfResponse) => void
+    ) => {
       if (message.type === 'DOWNLOAD_FILE') {
         handleDownloadFile(message, sendResponse)
         return true // 保持消息通道开放以支持异步响应
       }
+      if (message.type === 'PIXISHELF_REQUEST') {
+        handlePixiShelfRequest(message, sendResponse)
+        return true
+      }
     }
   )
 
@@ -77,6 +85,47 @@ export default defineBackground(() => {
     }
   }
 
+  /**
+   * 转发 PixiShelf 服务端请求，令牌放在 Authorization 头中
+   */
+  async function handlePixiShelfRequest(
+    message: PixiShelfRequestMessage,
+    sendResponse: (response: PixiShelfResponse) => void
+  ) {
+    try {
+      const { serverUrl, token, path, method = 'POST', body } = message.data
+      const url = new URL(path, serverUrl.endsWith('/') ? serverUrl : `${serverUrl}/`)
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      })
+      const data: unknown = await response.json().catch(() => null)
+
+      if (!response.ok) {
+        const serverError =
+          typeof data === 'object' && data !== null && 'error' in data && typeof data.error === 'string'
+            ? data.error
+            : ''
+        sendResponse({
+          success: false,
+          status: response.status,
+          data,
+          error: serverError || `请求失败 (HTTP ${response.status})`
+        })
+        return
+      }
+      sendResponse({ success: true, status: response.status, data })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '请求失败'
+      sendResponse({ success: false, error: errorMessage })
+      console.error('❌ Background: PixiShelf 请求失败:', errorMessage)
+    }
+  }
+
   /**
    * 监听下载状态变化（可选，用于调试）
    */
@@ -7,6 +7,7 @@ import { useUIStore } from './stores/uiStore'
 import TagTaskContent from './components/tag-content'
 import UserContent from './components/user-content'
 import ArtworkContent from './components/artwork-content'
+import ArchiveContent from './components/archive-content'
 import { SettingContent } from './components/setting-content'
 import { useShallow } from 'zustand/shallow'
 
@@ -34,6 +35,8 @@ const App: React.FC = () => {
         return <UserContent />
       case 'artworks':
         return <ArtworkContent />
+      case 'archive':
+        return <ArchiveContent />
       case 'setting':
         return <SettingContent />
       default:
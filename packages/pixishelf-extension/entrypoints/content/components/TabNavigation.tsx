@@ -13,6 +13,7 @@ const tabs: Tab[] = [
   { id: 'tags', label: '标签', icon: '🏷️' },
   { id: 'users', label: '用户', icon: '👤' },
   { id: 'artworks', label: '作品', icon: '🎨' },
+  { id: 'archive', label: '归档', icon: '📥' },
   { id: 'setting', label: '设置', icon: '⚙️' }
 ]
 
@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import { BaseLogViewer } from '../BaseLogViewer'
+import { useLogger } from '../../hooks/useLogger'
+import { useArchiveInbox } from '../../hooks/useArchiveInbox'
+import { collectListingArtworks, getCurrentArtworkId, type ListingArtwork } from '../../utils/pixiv-page'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { ArchiveIntakeStatus } from '../../../../types/pixishelf'
+
+const STATUS_LABELS: Record<ArchiveIntakeStatus, string> = {
+  QUEUED: '等待解析',
+  RESOLVING: '解析中',
+  RETRY_WAIT: '等待重试',
+  READY: '已就绪',
+  STALE: '解析已过期',
+  FAILED: '失败',
+  ENQUEUED: '导入已排队',
+  CANCELLED: '已取消',
+  DUPLICATE: '重复'
+}
+
+const STATUS_STYLES: Partial<Record<ArchiveIntakeStatus, string>> = {
+  READY: 'bg-[#e8f5e9] text-[#2e7d32]',
+  ENQUEUED: 'bg-[#e3f2fd] text-[#0066cc]',
+  FAILED: 'bg-[#ffebee] text-[#c62828]',
+  STALE: 'bg-[#fff3e0] text-[#ef6c00]'
+}
+
+export default function ArchiveContent() {
+  const { logs, clear, warn } = useLogger('archive')
+  const { items, submit, refresh, clearFinished, isSubmitting } = useArchiveInbox()
+
+  // 列表页扫描到的作品与勾选状态
+  const [candidates, setCandidates] = useState<ListingArtwork[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  const handleArchiveCurrentPage = async () => {
+    const id = getCurrentArtworkId()
+    if (!id) {
+      warn('当前页面不是作品详情页')
+      return
+    }
+    await submit([{ id, title: document.title }])
+  }
+
+  const handleScanListing = () => {
+    const artworks = collectListingArtworks()
+    setCandidates(artworks)
+    setSelectedIds(new Set(artworks.map((artwork) => artwork.id)))
+    if (artworks.length === 0) warn('当前页面没有找到作品，请滚动加载后再扫描')
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleArchiveSelected = async () => {
+    await submit(candidates.filter((artwork) => selectedIds.has(artwork.id)))
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h3 className="font-bold text-2xl">归档收件箱</h3>
+
+      <div className="task-controller bg-white rounded-lg shadow space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleArchiveCurrentPage} disabled={isSubmitting}>
+            归档此页
+          </Button>
+          <Button variant="outline" onClick={handleScanListing} disabled={isSubmitting}>
+            扫描本页作品
+          </Button>
+          <Button
+            variant={selectedIds.size === 0 ? 'secondary' : 'default'}
+            onClick={handleArchiveSelected}
+            disabled={isSubmitting || selectedIds.size === 0}
+          >
+            {isSubmitting ? '提交中...' : `归档所选作品 (${selectedIds.size})`}
+          </Button>
+        </div>
+
+        {candidates.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-[#666]">
+              <span>
+                已选 {selectedIds.size} / {candidates.length}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  className="cursor-pointer hover:text-[#0066cc]"
+                  onClick={() => setSelectedIds(new Set(candidates.map((artwork) => artwork.id)))}
+                >
+                  全选
+                </button>
+                <button className="cursor-pointer hover:text-[#0066cc]" onClick={() => setSelectedIds(new Set())}>
+                  清空
+                </button>
+              </div>
+            </div>
+            <ul className="max-h-40 overflow-y-auto rounded border border-[#e0e0e0] text-sm">
+              {candidates.map((artwork) => (
+                <li key={artwork.id} className="border-b border-[#fafafa] px-2 py-1 last:border-b-0">
+                  <label className="flex cursor-pointer items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(artwork.id)}
+                      onChange={() => toggleSelected(artwork.id)}
+                    />
+                    <span className="font-mono text-xs text-[#999]">{artwork.id}</span>
+                    <span className="truncate">{artwork.title}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">已提交项目 ({items.length})</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={refresh} disabled={items.length === 0}>
+              刷新状态
+            </Button>
+            <Button variant="outline" size="sm" onClick={clearFinished} disabled={items.length === 0}>
+              清除已结束
+            </Button>
+          </div>
+        </div>
+        {items.length === 0 ? (
+          <p className="text-xs text-[#999]">还没有提交过归档。</p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto rounded border border-[#e0e0e0] text-sm">
+            {items.map((item) => (
+              <li key={item.itemId} className="border-b border-[#fafafa] px-2 py-1.5 last:border-b-0">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={cn(
+                      'shrink-0 rounded px-1.5 py-0.5 text-xs',
+                      STATUS_STYLES[item.status] ?? 'bg-[#f8f9fa] text-[#666]'
+                    )}
+                  >
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  <span className="truncate">{item.title || item.artworkId}</span>
+                </div>
+                {item.errorMessage && <p className="mt-1 text-xs text-[#c62828]">{item.errorMessage}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <BaseLogViewer logs={logs} onClear={clear} />
+    </div>
+  )
+}
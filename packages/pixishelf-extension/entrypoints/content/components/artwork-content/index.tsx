@@ -3,6 +3,7 @@ import { useArtworkTaskStore } from '../../stores/artworkTaskStore'
 import { BaseProgressDisplay } from '../BaseProgressDisplay'
 import { useLogger } from '../../hooks/useLogger'
 import { useArtworkCrawler } from '../../hooks/useArtworkCrawler'
+import { usePixiShelfIngest } from '../../hooks/usePixiShelfIngest'
 import { useShallow } from 'zustand/shallow'
 import { generateArtworkSql } from '../../utils/sql-helper'
 import { Button } from '@/components/ui/button'
@@ -36,6 +37,7 @@ export default function ArtworkContent() {
   }, []) || { total: 0, completed: 0, successful: 0, failed: 0, pending: 0 }
 
   const { startTask, stopTask } = useArtworkCrawler()
+  const { send, isSending } = usePixiShelfIngest('artwork')
 
   const handleStartTask = async () => {
     try {
@@ -83,6 +85,11 @@ export default function ArtworkContent() {
     }
   }
 
+  const handleSendToPixiShelf = async () => {
+    const successfulItems = await db.tasks.where('status').equals('fulfilled').toArray()
+    await send({ artworks: successfulItems.filter((item) => item.data).map((item) => item.data!) })
+  }
+
   const handleClear = async () => {
     if (!confirm('确定要清除所有作品数据吗？此操作不可恢复。')) return
 
@@ -174,6 +181,10 @@ export default function ArtworkContent() {
             生成SQL
           </Button>
 
+          <Button variant="outline" onClick={handleSendToPixiShelf} disabled={isRunning || isSending}>
+            {isSending ? '发送中...' : '发送到 PixiShelf'}
+          </Button>
+
           <Button variant="destructive" onClick={handleClear} disabled={isRunning}>
             清除所有数据
           </Button>
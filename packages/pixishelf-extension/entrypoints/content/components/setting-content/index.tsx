@@ -7,9 +7,19 @@ import { useSettingStore } from '../../stores/setting-store'
 import { ETagDownloadMode, MTagDownloadMode, OTagDownloadMode } from '@/enums/ETagDownloadMode'
 import { toast } from 'sonner'
 import { InputGroup, InputGroupAddon, InputGroupInput, InputGroupText } from '@/components/ui/input-group'
+import { Input } from '@/components/ui/input'
 
 export const SettingContent: React.FC = () => {
-  const { tagDownloadMode, customDirectory, updateTagDownloadMode, updateCustomDirectory } = useSettingStore()
+  const {
+    tagDownloadMode,
+    customDirectory,
+    serverUrl,
+    ingestToken,
+    updateTagDownloadMode,
+    updateCustomDirectory,
+    updateServerUrl,
+    updateIngestToken
+  } = useSettingStore()
 
   return (
     <TooltipProvider>
@@ -94,6 +104,66 @@ export const SettingContent: React.FC = () => {
             </div>
           </AccordionContent>
         </AccordionItem>
+        <AccordionItem value="pixishelf-settings">
+          <AccordionTrigger className="text-left">PixiShelf 连接</AccordionTrigger>
+          <AccordionContent>
+            <div className="space-y-6">
+              {/* 服务地址 */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="server-url" className="text-sm font-medium">
+                    服务地址
+                  </Label>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>PixiShelf 的访问地址，例如 http://192.168.1.10:3000</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+                <div className="md:col-span-2">
+                  <Input
+                    id="server-url"
+                    placeholder="http://localhost:3000"
+                    value={serverUrl}
+                    onChange={(e) => updateServerUrl((e.target.value ?? '').trim())}
+                    onBlur={() => toast.success('服务地址已更新')}
+                  />
+                </div>
+              </div>
+
+              {/* 扩展令牌 */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-center">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="ingest-token" className="text-sm font-medium">
+                    扩展令牌
+                  </Label>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="h-4 w-4 text-muted-foreground cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>在 PixiShelf 的“设置 → 浏览器扩展”中生成</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+                <div className="md:col-span-2">
+                  <Input
+                    id="ingest-token"
+                    type="password"
+                    placeholder="psf_..."
+                    autoComplete="off"
+                    value={ingestToken}
+                    onChange={(e) => updateIngestToken((e.target.value ?? '').trim())}
+                    onBlur={() => toast.success('扩展令牌已更新')}
+                  />
+                </div>
+              </div>
+            </div>
+          </AccordionContent>
+        </AccordionItem>
       </Accordion>
     </TooltipProvider>
   )
@@ -5,6 +5,7 @@ import { useSettingStore } from '../../stores/setting-store'
 import { MTagDownloadMode } from '@/enums/ETagDownloadMode'
 import { useTagCrawler } from '../../hooks/useTagCrawler'
 import { useLogger } from '../../hooks/useLogger'
+import { usePixiShelfIngest } from '../../hooks/usePixiShelfIngest'
 import { db, TagItem } from '../../services/db'
 
 export const TaskController: React.FC = () => {
@@ -12,6 +13,7 @@ export const TaskController: React.FC = () => {
 
   const { startTask, stopTask, downloadSqlFile, downloadTagImages } = useTagCrawler()
   const { success, warn, error: logError } = useLogger('tag')
+  const { send, isSending } = usePixiShelfIngest('tag')
   const tagDownloadMode = useSettingStore((state) => state.tagDownloadMode)
   const customDirectory = useSettingStore((state) => state.customDirectory)
 
@@ -35,6 +37,11 @@ export const TaskController: React.FC = () => {
     await downloadSqlFile()
   }
 
+  const handleSendToPixiShelf = async () => {
+    const successfulItems = await db.tags.where('status').equals('fulfilled').toArray()
+    await send({ tags: successfulItems.filter((item) => item.data).map((item) => item.data!) })
+  }
+
   const handleClear = async () => {
     if (!confirm('确定要清除所有标签数据吗？此操作不可恢复。')) return
 
@@ -147,6 +154,14 @@ export const TaskController: React.FC = () => {
         <Button variant="outline" onClick={handleGenerateSQL} disabled={isRunning} style={{ margin: '4px' }}>
           生成SQL
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleSendToPixiShelf}
+          disabled={isRunning || isSending}
+          style={{ margin: '4px' }}
+        >
+          {isSending ? '发送中...' : '发送到 PixiShelf'}
+        </Button>
         <Button onClick={handleDownloadImages} variant="outline" disabled={downloadProgress.isDownloading}>
           {downloadProgress.isDownloading
             ? `下载中 ${downloadProgress.current}/${downloadProgress.total}`
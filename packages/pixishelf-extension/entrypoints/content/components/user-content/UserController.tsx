@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
 import { useUserCrawler } from '../../hooks/useUserCrawler'
 import { useLogger } from '../../hooks/useLogger'
+import { usePixiShelfIngest } from '../../hooks/usePixiShelfIngest'
 import { db, UserItem } from '../../services/db'
 import { useLiveQuery } from 'dexie-react-hooks'
 
@@ -12,6 +13,7 @@ export const UserController: React.FC = () => {
 
   const { startTask, downloadUserSqlFile, downloadUserImages } = useUserCrawler()
   const { success, warn, error: logError } = useLogger('artist')
+  const { send, isSending } = usePixiShelfIngest('artist')
 
   // Live query for failed users to filter
   const failedUsersCount = useLiveQuery(() => db.users.where('status').equals('rejected').count()) || 0
@@ -34,6 +36,11 @@ export const UserController: React.FC = () => {
     await downloadUserSqlFile()
   }
 
+  const handleSendToPixiShelf = async () => {
+    const successfulItems = await db.users.where('status').equals('fulfilled').toArray()
+    await send({ users: successfulItems.filter((item) => item.data).map((item) => item.data!) })
+  }
+
   const handleDownloadImages = async () => {
     if (hasSuccessfulUsers === 0) {
       warn('没有成功的用户数据可下载图片')
@@ -141,6 +148,14 @@ export const UserController: React.FC = () => {
         <Button variant="outline" onClick={handleGenerateSQL} disabled={isRunning} style={{ margin: '4px' }}>
           生成SQL
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleSendToPixiShelf}
+          disabled={isRunning || isSending || hasSuccessfulUsers === 0}
+          style={{ margin: '4px' }}
+        >
+          {isSending ? '发送中...' : '发送到 PixiShelf'}
+        </Button>
 
         <Button
           onClick={handleDownloadImages}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useShallow } from 'zustand/shallow'
+import { useLogger } from './useLogger'
+import { ARCHIVE_BATCH_SIZE, fetchArchiveItems, submitArchiveUrls } from '../utils/pixishelf-api'
+import { artworkUrl, type ListingArtwork } from '../utils/pixiv-page'
+import { FINISHED_ARCHIVE_STATUSES, useArchiveInboxStore, type TrackedArchiveItem } from '../stores/archiveInboxStore'
+
+// 面板打开时轮询未结束项目的间隔
+const POLL_INTERVAL_MS = 10_000
+
+/**
+ * 提交作品到 PixiShelf 归档收件箱，并在面板打开期间轮询已提交项目的状态
+ */
+export const useArchiveInbox = () => {
+  const { log, success, warn, error } = useLogger('archive')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const { items, trackItems, applyStatuses, clearFinished } = useArchiveInboxStore(
+    useShallow((state) => ({
+      items: state.items,
+      trackItems: state.trackItems,
+      applyStatuses: state.applyStatuses,
+      clearFinished: state.clearFinished
+    }))
+  )
+
+  const refresh = useCallback(async () => {
+    const ids = useArchiveInboxStore
+      .getState()
+      .items.filter((item) => !FINISHED_ARCHIVE_STATUSES.includes(item.status))
+      .map((item) => item.itemId)
+    if (ids.length === 0) return
+    try {
+      applyStatuses(ids, await fetchArchiveItems(ids))
+    } catch (err) {
+      warn(`刷新归档状态失败: ${err instanceof Error ? err.message : err}`)
+    }
+  }, [applyStatuses, warn])
+
+  const submit = useCallback(
+    async (artworks: ListingArtwork[]) => {
+      if (artworks.length === 0) {
+        warn('没有可归档的作品')
+        return
+      }
+
+      setIsSubmitting(true)
+      log(`开始提交 ${artworks.length} 个作品到归档收件箱...`)
+      try {
+        for (let start = 0; start < artworks.length; start += ARCHIVE_BATCH_SIZE) {
+          const batch = artworks.slice(start, start + ARCHIVE_BATCH_SIZE)
+          const byUrl = new Map(batch.map((artwork) => [artworkUrl(artwork.id), artwork]))
+          const { submission, targets } = await submitArchiveUrls([...byUrl.keys()])
+
+          const tracked: TrackedArchiveItem[] = targets.flatMap(({ url, itemId }) => {
+            const artwork = byUrl.get(url)
+            if (!itemId || !artwork) return []
+            return [
+              {
+                itemId,
+                artworkId: artwork.id,
+                title: artwork.title,
+                status: 'QUEUED',
+                errorMessage: null,
+                updatedAt: Date.now()
+              }
+            ]
+          })
+          trackItems(tracked)
+
+          const message = `已提交 ${submission.rawCount} 个：新增 ${submission.acceptedCount}，已在收件箱 ${submission.duplicateCount}，无效 ${submission.invalidCount}，容量已满 ${submission.rejectedCount}`
+          if (submission.invalidCount > 0 || submission.rejectedCount > 0) warn(message)
+          else success(message)
+        }
+        await refresh()
+      } catch (err) {
+        error(`提交失败: ${err instanceof Error ? err.message : err}`)
+      } finally {
+        setIsSubmitting(false)
+      }
+    },
+    [log, success, warn, error, trackItems, refresh]
+  )
+
+  const hasPending = items.some((item) => !FINISHED_ARCHIVE_STATUSES.includes(item.status))
+  useEffect(() => {
+    if (!hasPending) return
+    const timer = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasPending, refresh])
+
+  return { items, submit, refresh, clearFinished, isSubmitting }
+}
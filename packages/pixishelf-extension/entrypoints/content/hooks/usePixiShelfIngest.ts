@@ -0,0 +1,70 @@
+import { useCallback, useState } from 'react'
+import { useLogger } from './useLogger'
+import { sendPixivIngest } from '../utils/pixishelf-api'
+import type { LogModule } from '../services/db'
+import type {
+  PixivIngestItemKind,
+  PixivIngestItemResult,
+  PixivIngestItemStatus,
+  PixivIngestPayload
+} from '../../../types/pixishelf'
+
+const KIND_LABELS: Record<PixivIngestItemKind, string> = {
+  artwork: '作品',
+  tag: '标签',
+  user: '用户'
+}
+
+const STATUS_LABELS: Record<PixivIngestItemStatus, string> = {
+  UPDATED: '已更新',
+  SKIPPED: '已跳过',
+  NOT_FOUND: '库中不存在',
+  FAILED: '写入失败'
+}
+
+/**
+ * 发送数据到 PixiShelf，并把每个条目的写入结果输出到对应模块的日志
+ * @param module 日志模块名称
+ */
+export const usePixiShelfIngest = (module: LogModule) => {
+  const { log, success, warn, error } = useLogger(module)
+  const [isSending, setIsSending] = useState(false)
+
+  const logResult = useCallback(
+    (result: PixivIngestItemResult) => {
+      const message = `${KIND_LABELS[result.kind]} ${result.key}: ${STATUS_LABELS[result.status]}${result.message ? ` (${result.message})` : ''}`
+      if (result.status === 'UPDATED') success(message)
+      else if (result.status === 'FAILED') error(message)
+      else warn(message)
+    },
+    [success, warn, error]
+  )
+
+  const send = useCallback(
+    async (payload: PixivIngestPayload) => {
+      const total = (payload.artworks?.length ?? 0) + (payload.tags?.length ?? 0) + (payload.users?.length ?? 0)
+      if (total === 0) {
+        warn('没有可发送的成功数据')
+        return
+      }
+
+      setIsSending(true)
+      log(`开始发送 ${total} 条数据到 PixiShelf...`)
+      try {
+        const results = await sendPixivIngest(payload, (batch) => batch.forEach(logResult))
+        const updated = results.filter((item) => item.status === 'UPDATED').length
+        const failed = results.filter((item) => item.status === 'FAILED').length
+        const message = `发送完成：更新 ${updated} 条，未更新 ${results.length - updated - failed} 条，失败 ${failed} 条`
+        if (failed > 0) warn(message)
+        else success(message)
+      } catch (err) {
+        error(`发送失败: ${err instanceof Error ? err.message : err}`)
+      } finally {
+        setIsSending(false)
+      }
+    },
+    [log, success, warn, error, logResult]
+  )
+
+  return { send, isSending }
+}
@@ -26,7 +26,7 @@ export interface UserItem {
 }
 
 export type LogLevel = 'info' | 'success' | 'warn' | 'error'
-export type LogModule = 'artwork' | 'artist' | 'tag' | 'system'
+export type LogModule = 'artwork' | 'artist' | 'tag' | 'archive' | 'system'
 
 export interface LogEntry {
   id?: number
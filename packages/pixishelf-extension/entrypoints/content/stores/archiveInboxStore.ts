@@ -0,0 +1,82 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import localforage from 'localforage'
+import type { ArchiveIntakeItem, ArchiveIntakeStatus } from '../../../types/pixishelf'
+
+export interface TrackedArchiveItem {
+  // 收件箱项目ID；提交重复链接时记录的是原项目
+  itemId: string
+  artworkId: string
+  title: string
+  status: ArchiveIntakeStatus
+  errorMessage: string | null
+  updatedAt: number
+}
+
+// 这些状态不会再变化，无需继续轮询
+export const FINISHED_ARCHIVE_STATUSES: ArchiveIntakeStatus[] = ['FAILED', 'ENQUEUED', 'CANCELLED']
+
+interface ArchiveInboxState {
+  items: TrackedArchiveItem[]
+  // 记录新提交的项目，已跟踪的项目移到最前并刷新状态
+  trackItems: (items: TrackedArchiveItem[]) => void
+  // 用服务端返回的状态更新记录；服务端已不存在的项目移除
+  applyStatuses: (requestedIds: string[], items: ArchiveIntakeItem[]) => void
+  clearFinished: () => void
+}
+
+// 配置 localforage 实例
+const archiveStorage = localforage.createInstance({
+  name: 'pixiv-extension',
+  storeName: 'archive-inbox-store'
+})
+
+export const useArchiveInboxStore = create<ArchiveInboxState>()(
+  persist(
+    (set) => ({
+      items: [],
+
+      trackItems: (items) => {
+        set((state) => {
+          const incoming = new Map(items.map((item) => [item.itemId, item]))
+          return {
+            items: [...incoming.values(), ...state.items.filter((item) => !incoming.has(item.itemId))]
+          }
+        })
+      },
+
+      applyStatuses: (requestedIds, items) => {
+        const requested = new Set(requestedIds)
+        const latest = new Map(items.map((item) => [item.id, item]))
+        set((state) => ({
+          items: state.items.flatMap((item) => {
+            if (!requested.has(item.itemId)) return [item]
+            const current = latest.get(item.itemId)
+            if (!current) return []
+            return [
+              {
+                ...item,
+                title: current.resolvedTitle || item.title,
+                status: current.status,
+                errorMessage: current.errorMessage,
+                updatedAt: new Date(current.updatedAt).getTime()
+              }
+            ]
+          })
+        }))
+      },
+
+      clearFinished: () => {
+        set((state) => ({
+          items: state.items.filter((item) => !FINISHED_ARCHIVE_STATUSES.includes(item.status))
+        }))
+      }
+    }),
+    {
+      name: 'pixiv-archive-inbox-store',
+      storage: archiveStorage,
+      // 只持久化数据状态，排除方法函数
+      partialize: (state) => ({ items: state.items })
+    }
+  )
+)
@@ -8,10 +8,17 @@ interface SettingState {
   tagDownloadMode: ETagDownloadMode
   // 自定义目录
   customDirectory: string
+  // PixiShelf 服务地址
+  serverUrl: string
+  // PixiShelf 扩展令牌
+  ingestToken: string
   // 更新下载模式
   updateTagDownloadMode: (mode: ETagDownloadMode) => void
   // 更新自定义目录
   updateCustomDirectory: (dir: string) => void
+  // 更新 PixiShelf 连接
+  updateServerUrl: (url: string) => void
+  updateIngestToken: (token: string) => void
 }
 
 // 配置 localforage 实例
@@ -25,8 +32,12 @@ export const useSettingStore = create<SettingState>()(
     (set) => ({
       tagDownloadMode: ETagDownloadMode.individual,
       customDirectory: '',
+      serverUrl: '',
+      ingestToken: '',
       updateTagDownloadMode: (mode: ETagDownloadMode) => set({ tagDownloadMode: mode }),
-      updateCustomDirectory: (dir: string) => set({ customDirectory: dir })
+      updateCustomDirectory: (dir: string) => set({ customDirectory: dir }),
+      updateServerUrl: (url: string) => set({ serverUrl: url }),
+      updateIngestToken: (token: string) => set({ ingestToken: token })
     }),
     {
       name: 'pixiv-setting-store',
@@ -34,7 +45,9 @@ export const useSettingStore = create<SettingState>()(
       // 只持久化数据状态，排除方法函数
       partialize: (state) => ({
         tagDownloadMode: state.tagDownloadMode,
-        customDirectory: state.customDirectory
+        customDirectory: state.customDirectory,
+        serverUrl: state.serverUrl,
+        ingestToken: state.ingestToken
       })
     }
   )
@@ -0,0 +1,97 @@
+import type { PixiShelfRequestMessage, PixiShelfResponse } from '../../../types/messages'
+import type {
+  ArchiveIntakeItem,
+  ArchiveIntakeItemsResponse,
+  ArchiveIntakeSubmissionResponse,
+  PixivIngestItemResult,
+  PixivIngestPayload,
+  PixivIngestResponse
+} from '../../../types/pixishelf'
+import { useSettingStore } from '../stores/setting-store'
+
+// 与服务端单次请求上限保持一致
+const INGEST_BATCH_SIZE = {
+  artworks: 100,
+  tags: 500,
+  users: 200
+} as const
+// 归档收件箱单次提交与查询的上限
+export const ARCHIVE_BATCH_SIZE = 100
+
+/**
+ * 通过 background 向 PixiShelf 发起请求
+ * @param path 相对服务地址的接口路径，例如 api/extension/pixiv
+ * @param body 请求体，省略时发送 GET
+ */
+export async function requestPixiShelf<T>(path: string, body?: unknown): Promise<T> {
+  const { serverUrl, ingestToken } = useSettingStore.getState()
+  if (!serverUrl || !ingestToken) {
+    throw new Error('请先在设置中填写 PixiShelf 服务地址和扩展令牌')
+  }
+
+  const message: PixiShelfRequestMessage = {
+    type: 'PIXISHELF_REQUEST',
+    data: { serverUrl, token: ingestToken, path, method: body === undefined ? 'GET' : 'POST', body }
+  }
+  const response = await new Promise<PixiShelfResponse>((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (result: PixiShelfResponse) => {
+      if (chrome.runtime.lastError) reject(new Error(chrome.runtime.lastError.message))
+      else resolve(result)
+    })
+  })
+
+  if (!response.success) {
+    throw new Error(response.status === 401 ? '扩展令牌无效或已撤销' : response.error || '请求失败')
+  }
+  return response.data as T
+}
+
+/**
+ * 分批发送作品、标签与用户数据，返回全部条目的写入结果
+ * @param onBatch 每批完成后回调，用于实时输出结果
+ */
+export async function sendPixivIngest(
+  payload: PixivIngestPayload,
+  onBatch?: (results: PixivIngestItemResult[]) => void
+): Promise<PixivIngestItemResult[]> {
+  const results: PixivIngestItemResult[] = []
+
+  for (const kind of ['artworks', 'tags', 'users'] as const) {
+    const items = payload[kind] ?? []
+    const size = INGEST_BATCH_SIZE[kind]
+    for (let start = 0; start < items.length; start += size) {
+      const response = await requestPixiShelf<PixivIngestResponse>('api/extension/pixiv', {
+        [kind]: items.slice(start, start + size)
+      })
+      results.push(...response.results)
+      onBatch?.(response.results)
+    }
+  }
+
+  return results
+}
+
+/**
+ * 提交链接到归档收件箱；同一链接已在收件箱中时不会重复入队，返回的项目ID指向原项目
+ */
+export async function submitArchiveUrls(urls: string[]) {
+  return requestPixiShelf<ArchiveIntakeSubmissionResponse>('api/extension/archive-inbox', {
+    idempotencyKey: `extension:${crypto.randomUUID()}`,
+    urls
+  })
+}
+
+/**
+ * 查询收件箱项目的当前状态，已被清理的项目不会出现在结果中
+ */
+export async function fetchArchiveItems(itemIds: string[]): Promise<ArchiveIntakeItem[]> {
+  const items: ArchiveIntakeItem[] = []
+  for (let start = 0; start < itemIds.length; start += ARCHIVE_BATCH_SIZE) {
+    const ids = itemIds.slice(start, start + ARCHIVE_BATCH_SIZE)
+    const response = await requestPixiShelf<ArchiveIntakeItemsResponse>(
+      `api/extension/archive-inbox?ids=${ids.map(encodeURIComponent).join(',')}`
+    )
+    items.push(...response.items)
+  }
+  return items
+}
@@ -0,0 +1,43 @@
+// 当前 Pixiv 页面中的作品识别
+
+const ARTWORK_PATH_PATTERN = /^\/(?:[a-z]{2}\/)?artworks\/(\d+)/
+
+export interface ListingArtwork {
+  id: string
+  title: string
+}
+
+/**
+ * 作品的标准链接，与服务端 Pixiv 归档 Provider 识别的入口一致
+ */
+export const artworkUrl = (id: string) => `https://www.pixiv.net/artworks/${id}`
+
+/**
+ * 当前页面是作品详情页时返回作品ID
+ */
+export const getCurrentArtworkId = (): string | null => {
+  return window.location.pathname.match(ARTWORK_PATH_PATTERN)?.[1] ?? null
+}
+
+/**
+ * 收集当前列表页（搜索、标签、用户作品、收藏等）上展示的作品
+ * Pixiv 列表是动态加载的，只能拿到已经渲染出来的作品；面板位于 Shadow DOM 中，不会被扫描到
+ */
+export const collectListingArtworks = (): ListingArtwork[] => {
+  const currentId = getCurrentArtworkId()
+  const artworks = new Map<string, ListingArtwork>()
+
+  document.querySelectorAll<HTMLAnchorElement>('a[href*="/artworks/"]').forEach((anchor) => {
+    const id = new URL(anchor.href, window.location.origin).pathname.match(ARTWORK_PATH_PATTERN)?.[1]
+    if (!id || id === currentId) return
+
+    // 同一作品通常有缩略图和标题两个链接，优先保留有文字的标题
+    const title = anchor.textContent?.trim() || anchor.querySelector('img')?.alt?.trim() || ''
+    const existing = artworks.get(id)
+    if (!existing || (!existing.title && title)) {
+      artworks.set(id, { id, title })
+    }
+  })
+
+  return [...artworks.values()]
+}
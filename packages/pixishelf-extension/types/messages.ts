@@ -58,6 +58,28 @@ export interface DownloadResponse {
   error?: string
 }
 
+// PixiShelf 服务端请求相关类型
+// 由 background 发起，避免 https 页面访问内网 http 服务时的混合内容拦截
+export interface PixiShelfRequestData {
+  serverUrl: string
+  token: string
+  path: string
+  method?: 'GET' | 'POST'
+  body?: unknown
+}
+
+export interface PixiShelfRequestMessage {
+  type: 'PIXISHELF_REQUEST'
+  data: PixiShelfRequestData
+}
+
+export interface PixiShelfResponse {
+  success: boolean
+  status?: number
+  data?: unknown
+  error?: string
+}
+
 // 扩展消息类型
-export type ExtensionMessage = DownloadImageRequest | DownloadImagesRequest | DownloadMessage
-export type ExtensionResponse = DownloadImageResponse | DownloadImagesResponse | DownloadResponse
+export type ExtensionMessage = DownloadImageRequest | DownloadImagesRequest | DownloadMessage | PixiShelfRequestMessage
+export type ExtensionResponse = DownloadImageResponse | DownloadImagesResponse | DownloadResponse | PixiShelfResponse
@@ -0,0 +1,67 @@
+// PixiShelf 服务端接口相关类型定义
+
+import type { PixivArtworkData, PixivTagData, PixivUserData } from './pixiv'
+
+export interface PixivIngestPayload {
+  artworks?: PixivArtworkData[]
+  tags?: PixivTagData[]
+  users?: PixivUserData[]
+}
+
+export type PixivIngestItemKind = 'artwork' | 'tag' | 'user'
+
+// UPDATED: 已写入; SKIPPED: 本地修改优先或无可更新字段; NOT_FOUND: 库中不存在; FAILED: 写入出错
+export type PixivIngestItemStatus = 'UPDATED' | 'SKIPPED' | 'NOT_FOUND' | 'FAILED'
+
+export interface PixivIngestItemResult {
+  kind: PixivIngestItemKind
+  key: string
+  status: PixivIngestItemStatus
+  message?: string
+}
+
+export interface PixivIngestResponse {
+  success: true
+  results: PixivIngestItemResult[]
+  summary: Record<PixivIngestItemStatus, number>
+}
+
+// 归档收件箱项目状态，与服务端 ArchiveIntakeItem.status 一致（READY 过期后返回 STALE）
+export type ArchiveIntakeStatus =
+  | 'QUEUED'
+  | 'RESOLVING'
+  | 'RETRY_WAIT'
+  | 'READY'
+  | 'STALE'
+  | 'FAILED'
+  | 'ENQUEUED'
+  | 'CANCELLED'
+  | 'DUPLICATE'
+
+export interface ArchiveIntakeItem {
+  id: string
+  submittedUrl: string
+  status: ArchiveIntakeStatus
+  resolvedTitle: string | null
+  errorMessage: string | null
+  updatedAt: string
+}
+
+export interface ArchiveIntakeSubmissionResponse {
+  success: true
+  submission: {
+    id: string
+    rawCount: number
+    acceptedCount: number
+    invalidCount: number
+    duplicateCount: number
+    rejectedCount: number
+  }
+  // 每个提交链接对应的收件箱项目；重复链接对应原项目，无效或超出容量时为 null
+  targets: Array<{ url: string; itemId: string | null }>
+}
+
+export interface ArchiveIntakeItemsResponse {
+  success: true
+  items: ArchiveIntakeItem[]
+}
@@ -8,13 +8,19 @@ import {
   SCAN_DEFINITION_VERSION,
   JOB_PAYLOAD_SCHEMAS,
   JOB_TYPE_VALUES,
+  LOCAL_IMPORT_ARCHIVE_EXTENSIONS,
   MEDIA_FILE_EXTENSIONS,
   TERMINAL_JOB_STATUSES,
+  UGOIRA_ARCHIVE_EXTENSIONS,
   VIDEO_FILE_EXTENSIONS,
   bigintStringSchema,
   canonicalizeAuditApplyInputs,
+  LEGACY_MIGRATION_LAYOUT_TEMPLATE,
   jobEventDtoSchema,
+  notificationChannelConfigSchema,
+  notificationFiltersSchema,
   parseJobPayload,
+  parseStorageLayoutTemplate,
   scanV2PayloadSchema,
   scanV3PayloadSchema,
   relativePathSchema,
@@ -45,6 +51,7 @@ describe('job wire contracts', () => {
     expect(SCAN_DEFINITION_VERSION).toBe(2)
     expect(SCAN_AUDIT_APPLY_DEFINITION_VERSION).toBe(3)
     expect(executionLaneForJobType('ARCHIVE_RESOLVE_ITEM')).toBe('ARCHIVE_RESOLVE')
+    expect(executionLaneForJobType('ARCHIVE_UPDATE_CHECK')).toBe('ARCHIVE_RESOLVE')
     expect(executionLaneForJobType('ARCHIVE_IMPORT')).toBe('BACKGROUND_WRITER')
     expect(executionLaneForJobType('ARCHIVE_MAINTENANCE')).toBe('BACKGROUND_WRITER')
     expect(executionLaneForJobType('ARCHIVE_INTAKE_RETENTION_CLEANUP')).toBe('BACKGROUND_WRITER')
@@ -53,6 +60,38 @@ describe('job wire contracts', () => {
     expect(parseJobPayload('ARCHIVE_RESOLVE_ITEM', { intakeItemId: 'intake-1' })).toEqual({
       intakeItemId: 'intake-1'
     })
+    expect(parseJobPayload('ARCHIVE_UPDATE_CHECK', {})).toEqual({
+      batchSize: 10,
+      minIntervalHours: 168,
+      autoEnqueue: false
+    })
+    expect(() => parseJobPayload('ARCHIVE_UPDATE_CHECK', { batchSize: 500 })).toThrow()
+    expect(executionLaneForJobType('UGOIRA_CONVERSION')).toBe('BACKGROUND_WRITER')
+    expect(parseJobPayload('UGOIRA_CONVERSION', {})).toEqual({ force: false })
+    expect(parseJobPayload('UGOIRA_CONVERSION', { force: true, imageId: 7 })).toEqual({ force: true, imageId: 7 })
+    expect(executionLaneForJobType('MEDIA_INTEGRITY_SCRUB')).toBe('BACKGROUND_WRITER')
+    expect(parseJobPayload('MEDIA_INTEGRITY_SCRUB', {})).toEqual({
+      maxFiles: 2_000,
+      maxBytes: 16 * 1024 ** 3,
+      reverifyAfterDays: 90
+    })
+    expect(() => parseJobPayload('MEDIA_INTEGRITY_SCRUB', { maxFiles: 0 })).toThrow()
+    expect(() => parseJobPayload('MEDIA_INTEGRITY_SCRUB', { path: 'a.jpg' })).toThrow()
+    expect(executionLaneForJobType('ARTWORK_EXPORT')).toBe('BACKGROUND_WRITER')
+    expect(parseJobPayload('ARTWORK_EXPORT', { selection: { mode: 'SERIES', seriesId: 3 } })).toEqual({
+      selection: { mode: 'SERIES', seriesId: 3 },
+      format: 'CBZ',
+      retentionHours: 72
+    })
+    expect(
+      parseJobPayload('ARTWORK_EXPORT', { selection: { mode: 'ARTWORK_IDS', artworkIds: [1, 2] }, format: 'ZIP' })
+    ).toMatchObject({ format: 'ZIP' })
+    expect(() =>
+      parseJobPayload('ARTWORK_EXPORT', { selection: { mode: 'FAILED_FROM_JOB', sourceJobId: 'job-1' } })
+    ).toThrow()
+    expect(() =>
+      parseJobPayload('ARTWORK_EXPORT', { selection: { mode: 'SERIES', seriesId: 3 }, retentionHours: 0 })
+    ).toThrow()
     expect(parseJobPayload('ARCHIVE_MAINTENANCE', { action: 'CLEAN_STAGING', archiveImportId: 'import-1' })).toEqual({
       action: 'CLEAN_STAGING',
       archiveImportId: 'import-1'
@@ -66,6 +105,10 @@ describe('job wire contracts', () => {
       artworkId: 7
     })
     expect(parseJobPayload('ARCHIVE_MAINTENANCE', { action: 'RECONCILE' })).toEqual({ action: 'RECONCILE' })
+    expect(
+      parseJobPayload('ARCHIVE_MAINTENANCE', { action: 'RESTORE_REVISION', artworkId: 7, restoreId: 'restore-1' })
+    ).toEqual({ action: 'RESTORE_REVISION', artworkId: 7, restoreId: 'restore-1' })
+    expect(() => parseJobPayload('ARCHIVE_MAINTENANCE', { action: 'RESTORE_REVISION', artworkId: 7 })).toThrow()
     expect(() => parseJobPayload('ARCHIVE_MAINTENANCE', { action: 'RECONCILE', artworkId: 7 })).toThrow()
     expect(() =>
       parseJobPayload('ARCHIVE_MAINTENANCE', {
@@ -80,6 +123,8 @@ describe('job wire contracts', () => {
     expect(MEDIA_FILE_EXTENSIONS).toEqual(expect.arrayContaining([...VIDEO_FILE_EXTENSIONS]))
     expect(Object.isFrozen(VIDEO_FILE_EXTENSIONS)).toBe(true)
     expect(Object.isFrozen(MEDIA_FILE_EXTENSIONS)).toBe(true)
+    expect(MEDIA_FILE_EXTENSIONS).not.toEqual(expect.arrayContaining([...UGOIRA_ARCHIVE_EXTENSIONS]))
+    expect(MEDIA_FILE_EXTENSIONS).not.toEqual(expect.arrayContaining([...LOCAL_IMPORT_ARCHIVE_EXTENSIONS]))
   })
 
   it('rejects absolute and traversing payload paths', () => {
@@ -247,6 +292,40 @@ describe('job wire contracts', () => {
     ).toThrow()
   })
 
+  it('freezes a validated storage layout template into migration payloads', () => {
+    const selection = { mode: 'ARTWORK_IDS', artworkIds: [1] }
+    expect(parseJobPayload('MIGRATION', { selection })).toMatchObject({
+      layout: { template: LEGACY_MIGRATION_LAYOUT_TEMPLATE }
+    })
+    expect(LEGACY_MIGRATION_LAYOUT_TEMPLATE).toBe('{creatorId}/{externalId}')
+    expect(
+      parseJobPayload('MIGRATION', { selection, layout: { template: ' {provider}/{creator}/{externalId}-{title} ' } })
+    ).toMatchObject({ layout: { template: '{provider}/{creator}/{externalId}-{title}' } })
+    expect(parseStorageLayoutTemplate('works/{externalId} ({title})')).toEqual([
+      [{ kind: 'literal', value: 'works' }],
+      [
+        { kind: 'variable', name: 'externalId' },
+        { kind: 'literal', value: ' (' },
+        { kind: 'variable', name: 'title' },
+        { kind: 'literal', value: ')' }
+      ]
+    ])
+    for (const template of [
+      '{creator}/{title}',
+      '{creator}//{externalId}',
+      '/{externalId}',
+      '../{externalId}',
+      '.hidden/{externalId}',
+      '{externalId}.',
+      'a:b/{externalId}',
+      '{externalId}/{unknown}',
+      '{externalId}/{title',
+      'a/b/c/d/{externalId}'
+    ]) {
+      expect(() => parseJobPayload('MIGRATION', { selection, layout: { template } }), template).toThrow()
+    }
+  })
+
   it('validates frozen migration query bounds, media vocabulary, and calendar dates', () => {
     expect(
       parseJobPayload('MIGRATION', {
@@ -358,4 +437,24 @@ describe('job wire contracts', () => {
     ).toThrow()
     expect(() => workerHealthDtoSchema.parse({ ...worker, lastError: 'x'.repeat(2049) })).toThrow()
   })
+  it('validates notification channel transports and filter vocabularies', () => {
+    const webhook = { kind: 'WEBHOOK', config: { url: 'https://hooks.example.test/pixishelf', secret: 'k' } }
+    expect(notificationChannelConfigSchema.parse(webhook)).toEqual(webhook)
+    expect(() =>
+      notificationChannelConfigSchema.parse({ kind: 'WEBHOOK', config: { url: 'ftp://hooks.example.test' } })
+    ).toThrow()
+    expect(() =>
+      notificationChannelConfigSchema.parse({ kind: 'GOTIFY', config: { url: 'https://gotify.example.test' } })
+    ).toThrow()
+    expect(() =>
+      notificationChannelConfigSchema.parse({
+        kind: 'SMTP',
+        config: { host: 'smtp.example.test', port: 587, security: 'STARTTLS', from: 'a@example.test', to: [] }
+      })
+    ).toThrow()
+    expect(
+      notificationFiltersSchema.parse({ jobTypes: ['ARCHIVE_IMPORT'], levels: ['ERROR'], eventTypes: ['job.failed'] })
+    ).toEqual({ jobTypes: ['ARCHIVE_IMPORT'], levels: ['ERROR'], eventTypes: ['job.failed'] })
+    expect(() => notificationFiltersSchema.parse({ jobTypes: [], levels: ['FATAL'], eventTypes: [] })).toThrow()
+  })
 })
@@ -68,6 +68,23 @@ export const jobEventDtoSchema = z.object({
 })
 export type JobEventDto = z.infer<typeof jobEventDtoSchema>
 
+export const jobDependencyNodeDtoSchema = z.object({
+  id: z.string().min(1),
+  type: jobTypeSchema,
+  status: jobStatusSchema,
+  skipReason: jobSkipReasonSchema.nullable(),
+  dependsOnJobIds: z.array(z.string().min(1))
+})
+export type JobDependencyNodeDto = z.infer<typeof jobDependencyNodeDtoSchema>
+
+export const jobDependencyGraphDtoSchema = z.object({
+  jobId: z.string().min(1),
+  // Prerequisites before dependents, so a chain reads in execution order.
+  nodes: z.array(jobDependencyNodeDtoSchema),
+  truncated: z.boolean()
+})
+export type JobDependencyGraphDto = z.infer<typeof jobDependencyGraphDtoSchema>
+
 export const WORKER_PRESENCE_STATUS_VALUES = ['STARTING', 'READY', 'DEGRADED', 'STOPPING'] as const
 export const workerPresenceStatusSchema = z.enum(WORKER_PRESENCE_STATUS_VALUES)
 export type WorkerPresenceStatus = z.infer<typeof workerPresenceStatusSchema>
@@ -3,4 +3,6 @@ export * from './dtos.ts'
 export * from './error-codes.ts'
 export * from './job-types.ts'
 export * from './media-types.ts'
+export * from './notifications.ts'
 export * from './payloads.ts'
+export * from './storage-layout.ts'
@@ -2,7 +2,7 @@ import { z } from 'zod'
 
 export const JOB_DEFINITION_VERSION = 1 as const
 
-// SCAN evolves independently so the other nineteen durable job contracts remain on v1.
+// SCAN evolves independently so the other twenty-five durable job contracts remain on v1.
 export const SCAN_DEFINITION_VERSION = 2 as const
 
 // AUDIT_APPLY is isolated from the Stage 3A SCAN@v2 release so an older Worker
@@ -27,13 +27,19 @@ export const JOB_TYPE_VALUES = [
   'VIDEO_STREAMING_OPTIMIZATION',
   'VIDEO_KEYFRAME_DISCOVERY',
   'VIDEO_KEYFRAME_GENERATION',
+  'VIDEO_HLS_TRANSCODE',
   'ARCHIVE_RESOLVE_ITEM',
   'ARCHIVE_IMPORT',
   'ARCHIVE_MAINTENANCE',
   'ARCHIVE_INTAKE_RETENTION_CLEANUP',
   'SCAN_RUN_RETENTION_CLEANUP',
   'TRIGGER_LOG_RETENTION_CLEANUP',
-  'DERIVED_MEDIA_GC'
+  'DERIVED_MEDIA_GC',
+  'IMAGE_PERCEPTUAL_HASH',
+  'ARCHIVE_UPDATE_CHECK',
+  'UGOIRA_CONVERSION',
+  'MEDIA_INTEGRITY_SCRUB',
+  'ARTWORK_EXPORT'
 ] as const
 
 export const jobTypeSchema = z.enum(JOB_TYPE_VALUES)
@@ -57,7 +63,9 @@ export const JOB_EXECUTION_LANE = Object.freeze(
   Object.fromEntries(
     JOB_TYPE_VALUES.map((jobType) => [
       jobType,
-      jobType === 'ARCHIVE_RESOLVE_ITEM' ? EXECUTION_LANES.ARCHIVE_RESOLVE : EXECUTION_LANES.BACKGROUND_WRITER
+      jobType === 'ARCHIVE_RESOLVE_ITEM' || jobType === 'ARCHIVE_UPDATE_CHECK'
+        ? EXECUTION_LANES.ARCHIVE_RESOLVE
+        : EXECUTION_LANES.BACKGROUND_WRITER
     ])
   ) as { [K in JobType]: ExecutionLane }
 )
@@ -98,6 +106,9 @@ export const ACTIVE_JOB_STATUSES = new Set<JobStatus>([
 export const EXECUTING_JOB_STATUSES = new Set<JobStatus>(['RUNNING', 'PAUSING', 'CANCELLING'])
 export const TERMINAL_JOB_STATUSES = new Set<JobStatus>(['COMPLETED', 'FAILED', 'CANCELLED', 'SKIPPED'])
 
+/** Upper bound on declared prerequisites per job, keeping the claim-time dependency probe cheap. */
+export const MAX_JOB_DEPENDENCIES = 20
+
 export const JOB_TRIGGER_SOURCE_VALUES = ['MANUAL', 'SCHEDULE', 'SYSTEM', 'RETRY', 'LEGACY'] as const
 export const jobTriggerSourceSchema = z.enum(JOB_TRIGGER_SOURCE_VALUES)
 export type JobTriggerSource = z.infer<typeof jobTriggerSourceSchema>
@@ -23,3 +23,16 @@ export const VIDEO_FILE_EXTENSIONS = Object.freeze([
 ] as const)
 
 export const MEDIA_FILE_EXTENSIONS = Object.freeze([...IMAGE_FILE_EXTENSIONS, ...VIDEO_FILE_EXTENSIONS] as const)
+
+/**
+ * Pixiv ugoira frame archives. They are not media by extension alone: discovery only
+ * publishes a zip whose frame timing can be read from the archive or a sidecar.
+ */
+export const UGOIRA_ARCHIVE_EXTENSIONS = Object.freeze(['.zip'] as const)
+
+/**
+ * Page archives accepted by local directory import. A `.zip` that is a playable ugoira
+ * stays media of its directory; every other one is imported as its own artwork. `.7z`
+ * is read through the configured 7-Zip executable.
+ */
+export const LOCAL_IMPORT_ARCHIVE_EXTENSIONS = Object.freeze(['.cbz', '.zip', '.7z'] as const)
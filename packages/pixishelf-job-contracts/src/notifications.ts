@@ -0,0 +1,125 @@
+import { z } from 'zod'
+import { isoDateTimeSchema } from './dtos.ts'
+import { jobEventLevelSchema, jobEventTypeSchema, jobTypeSchema } from './job-types.ts'
+import { jsonValueSchema } from './payloads.ts'
+
+export const NOTIFICATION_CHANNEL_KIND_VALUES = ['WEBHOOK', 'NTFY', 'GOTIFY', 'SMTP'] as const
+export const notificationChannelKindSchema = z.enum(NOTIFICATION_CHANNEL_KIND_VALUES)
+export type NotificationChannelKind = z.infer<typeof notificationChannelKindSchema>
+
+export const NOTIFICATION_DELIVERY_STATUS_VALUES = ['PENDING', 'SENDING', 'RETRY_WAIT', 'DELIVERED', 'FAILED'] as const
+export const notificationDeliveryStatusSchema = z.enum(NOTIFICATION_DELIVERY_STATUS_VALUES)
+export type NotificationDeliveryStatus = z.infer<typeof notificationDeliveryStatusSchema>
+
+/** Event type of the synthetic delivery queued by the admin "send test" action. */
+export const NOTIFICATION_TEST_EVENT_TYPE = 'notification.test'
+/** Attempts before a delivery is marked FAILED; retries back off exponentially between them. */
+export const NOTIFICATION_MAX_ATTEMPTS = 8
+/** Hex HMAC-SHA256 of `${timestamp}.${body}`, sent as `sha256=<hex>` next to the timestamp header. */
+export const NOTIFICATION_SIGNATURE_HEADER = 'X-PixiShelf-Signature'
+export const NOTIFICATION_TIMESTAMP_HEADER = 'X-PixiShelf-Timestamp'
+export const NOTIFICATION_DELIVERY_HEADER = 'X-PixiShelf-Delivery'
+
+const httpUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(500)
+  .refine((value) => /^https?:\/\//i.test(value), { message: 'URL must use http or https' })
+const secretSchema = z.string().max(500)
+const emailAddressSchema = z.string().trim().email().max(254)
+
+export const webhookChannelConfigSchema = z.object({
+  url: httpUrlSchema,
+  secret: secretSchema.optional()
+})
+
+/** `url` is the full topic URL, e.g. `https://ntfy.sh/pixishelf-alerts`. */
+export const ntfyChannelConfigSchema = z.object({
+  url: httpUrlSchema,
+  token: secretSchema.optional()
+})
+
+/** `url` is the Gotify server root; messages are posted to `<url>/message`. */
+export const gotifyChannelConfigSchema = z.object({
+  url: httpUrlSchema,
+  token: secretSchema.min(1)
+})
+
+export const SMTP_SECURITY_VALUES = ['NONE', 'STARTTLS', 'TLS'] as const
+
+export const smtpChannelConfigSchema = z.object({
+  host: z.string().trim().min(1).max(255),
+  port: z.number().int().min(1).max(65_535),
+  security: z.enum(SMTP_SECURITY_VALUES),
+  username: z.string().max(255).optional(),
+  password: secretSchema.optional(),
+  from: emailAddressSchema,
+  to: z.array(emailAddressSchema).min(1).max(10)
+})
+
+export const notificationChannelConfigSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('WEBHOOK'), config: webhookChannelConfigSchema }),
+  z.object({ kind: z.literal('NTFY'), config: ntfyChannelConfigSchema }),
+  z.object({ kind: z.literal('GOTIFY'), config: gotifyChannelConfigSchema }),
+  z.object({ kind: z.literal('SMTP'), config: smtpChannelConfigSchema })
+])
+export type NotificationChannelConfig = z.infer<typeof notificationChannelConfigSchema>
+
+/** Config fields that are never sent back to the browser once stored. */
+export const NOTIFICATION_SECRET_FIELDS = ['secret', 'token', 'password'] as const
+
+/** Empty filter lists match everything; non-empty lists must all match. */
+export const notificationFiltersSchema = z.object({
+  jobTypes: z.array(jobTypeSchema).max(50),
+  levels: z.array(jobEventLevelSchema).max(3),
+  eventTypes: z.array(jobEventTypeSchema).max(20)
+})
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>
+
+/** Snapshot written next to each delivery so retries do not depend on event retention. */
+export const notificationPayloadSchema = z.object({
+  eventId: z.string().nullable(),
+  eventType: z.string().min(1),
+  level: jobEventLevelSchema,
+  message: z.string().nullable(),
+  stage: z.string().nullable(),
+  attempt: z.number().int().nonnegative(),
+  data: jsonValueSchema.nullable(),
+  occurredAt: isoDateTimeSchema,
+  job: z
+    .object({
+      id: z.string().min(1),
+      type: z.string().min(1),
+      status: z.string().min(1),
+      triggerSource: z.string().min(1),
+      errorCode: z.string().nullable(),
+      error: z.string().nullable()
+    })
+    .nullable()
+})
+export type NotificationPayload = z.infer<typeof notificationPayloadSchema>
+
+export const notificationChannelDtoSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: notificationChannelKindSchema,
+  enabled: z.boolean(),
+  /** Stored config with secret fields removed; `secretFields` lists the ones that are set. */
+  config: z.record(z.string(), jsonValueSchema),
+  secretFields: z.array(z.enum(NOTIFICATION_SECRET_FIELDS)),
+  filters: notificationFiltersSchema,
+  pendingDeliveries: z.number().int().nonnegative(),
+  lastDelivery: z
+    .object({
+      status: notificationDeliveryStatusSchema,
+      eventType: z.string(),
+      attempt: z.number().int().nonnegative(),
+      lastError: z.string().nullable(),
+      updatedAt: isoDateTimeSchema
+    })
+    .nullable(),
+  createdAt: isoDateTimeSchema,
+  updatedAt: isoDateTimeSchema
+})
+export type NotificationChannelDto = z.infer<typeof notificationChannelDtoSchema>
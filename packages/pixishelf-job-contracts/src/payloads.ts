@@ -1,6 +1,7 @@
 import { z } from 'zod'
 import { JOB_DEFINITION_VERSION, type JobType } from './job-types.ts'
 import { MEDIA_FILE_EXTENSIONS } from './media-types.ts'
+import { LEGACY_MIGRATION_LAYOUT_TEMPLATE, storageLayoutTemplateSchema } from './storage-layout.ts'
 
 export type JsonPrimitive = string | number | boolean | null
 export type JsonValue = JsonPrimitive | JsonValue[] | { [key: string]: JsonValue }
@@ -163,6 +164,12 @@ export const migrationSafetySchema = z
   })
   .strict()
 
+/**
+ * Target directory layout frozen at enqueue time. Payloads created before layouts existed ran with the legacy
+ * layout, so parsing them (for example when retrying) carries that layout instead of the current setting.
+ */
+export const migrationLayoutSchema = z.object({ template: storageLayoutTemplateSchema }).strict()
+
 export const migrationPayloadSchema = z
   .object({
     selection: migrationSelectionSchema,
@@ -170,11 +177,43 @@ export const migrationPayloadSchema = z
       transferMode: 'move',
       verifyAfterCopy: true,
       cleanupSource: true
-    })
+    }),
+    layout: migrationLayoutSchema.default({ template: LEGACY_MIGRATION_LAYOUT_TEMPLATE })
   })
   .strict()
 export type MigrationPayload = z.infer<typeof migrationPayloadSchema>
 
+const artworkExportSeriesSelectionSchema = z
+  .object({ mode: z.literal('SERIES'), seriesId: z.number().int().positive() })
+  .strict()
+
+// Exports reuse the MIGRATION selection shapes; a Series export keeps the series reading order.
+export const artworkExportSelectionSchema = z.discriminatedUnion('mode', [
+  migrationArtworkIdsSelectionSchema,
+  migrationQuerySelectionSchema,
+  artworkExportSeriesSelectionSchema
+])
+export type ArtworkExportSelection = z.infer<typeof artworkExportSelectionSchema>
+
+export const ARTWORK_EXPORT_FORMAT_VALUES = ['CBZ', 'ZIP'] as const
+export const artworkExportFormatSchema = z.enum(ARTWORK_EXPORT_FORMAT_VALUES)
+export type ArtworkExportFormat = z.infer<typeof artworkExportFormatSchema>
+
+export const artworkExportPayloadSchema = z
+  .object({
+    selection: artworkExportSelectionSchema,
+    format: artworkExportFormatSchema.default('CBZ'),
+    // The finished file stays downloadable this long; DERIVED_MEDIA_GC removes it afterwards.
+    retentionHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(24 * 30)
+      .default(72)
+  })
+  .strict()
+export type ArtworkExportPayload = z.infer<typeof artworkExportPayloadSchema>
+
 const pendingReplaceDiscoverPayloadSchema = z
   .object({ mode: z.literal('DISCOVER'), batchId: boundedIdSchema, sourceRoot: z.literal('pending-replaces') })
   .strict()
@@ -252,6 +291,18 @@ export const videoKeyframeGenerationPayloadSchema = targetImagePayloadSchema.ext
   mode: z.enum(['AUTO_INCREMENTAL', 'MANUAL_INCREMENTAL', 'MANUAL_FORCE'])
 })
 
+export const videoHlsTranscodePayloadSchema = targetImagePayloadSchema.extend({
+  // force re-encodes even when the source already passes the browser compatibility policy.
+  force: z.boolean().default(false)
+})
+
+// Without imageId the job sweeps every pending ugoira; force also retries conversions that failed before.
+export const ugoiraConversionPayloadSchema = z.object({
+  force: z.boolean().default(false),
+  imageId: z.number().int().positive().optional()
+})
+export type UgoiraConversionPayload = z.infer<typeof ugoiraConversionPayloadSchema>
+
 export const archiveImportPayloadSchema = z.object({
   archiveImportId: z.string().min(1)
 })
@@ -275,11 +326,20 @@ const purgeArchivePayloadSchema = z
 
 const reconcileArchiveMaintenancePayloadSchema = z.object({ action: z.literal('RECONCILE') }).strict()
 
+const restoreArchiveRevisionPayloadSchema = z
+  .object({
+    action: z.literal('RESTORE_REVISION'),
+    artworkId: z.number().int().positive(),
+    restoreId: boundedIdSchema
+  })
+  .strict()
+
 export const archiveMaintenancePayloadSchema = z.discriminatedUnion('action', [
   cleanArchiveStagingPayloadSchema,
   archiveArtworkMaintenancePayloadSchema,
   purgeArchivePayloadSchema,
-  reconcileArchiveMaintenancePayloadSchema
+  reconcileArchiveMaintenancePayloadSchema,
+  restoreArchiveRevisionPayloadSchema
 ])
 export type ArchiveMaintenancePayload = z.infer<typeof archiveMaintenancePayloadSchema>
 
@@ -290,6 +350,38 @@ export const archiveResolveItemPayloadSchema = z
   .strict()
 export type ArchiveResolveItemPayload = z.infer<typeof archiveResolveItemPayloadSchema>
 
+export const archiveUpdateCheckPayloadSchema = z
+  .object({
+    // Each remote resolve (including a followed replacement) consumes one unit of the budget.
+    batchSize: z.number().int().min(1).max(50).default(10),
+    // Refs fetched more recently than this are not re-resolved.
+    minIntervalHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(24 * 365)
+      .default(24 * 7),
+    autoEnqueue: z.boolean().default(false)
+  })
+  .strict()
+export type ArchiveUpdateCheckPayload = z.infer<typeof archiveUpdateCheckPayloadSchema>
+
+export const mediaIntegrityScrubPayloadSchema = z
+  .object({
+    // A run stops after whichever budget is reached first; the rest of the queue waits for the next run.
+    maxFiles: z.number().int().min(1).max(100_000).default(2_000),
+    maxBytes: z
+      .number()
+      .int()
+      .min(1)
+      .max(1024 ** 4)
+      .default(16 * 1024 ** 3),
+    // Files verified more recently than this are not read again.
+    reverifyAfterDays: z.number().int().min(1).max(3_650).default(90)
+  })
+  .strict()
+export type MediaIntegrityScrubPayload = z.infer<typeof mediaIntegrityScrubPayloadSchema>
+
 export const derivedMediaGcPayloadSchema = z.object({
   entryIds: z.array(z.string().min(1)).max(1_000).optional(),
   dryRun: z.boolean().default(false),
@@ -310,13 +402,19 @@ export const JOB_PAYLOAD_SCHEMAS = {
   VIDEO_STREAMING_OPTIMIZATION: videoStreamingOptimizationPayloadSchema,
   VIDEO_KEYFRAME_DISCOVERY: videoKeyframeDiscoveryPayloadSchema,
   VIDEO_KEYFRAME_GENERATION: videoKeyframeGenerationPayloadSchema,
+  VIDEO_HLS_TRANSCODE: videoHlsTranscodePayloadSchema,
   ARCHIVE_RESOLVE_ITEM: archiveResolveItemPayloadSchema,
   ARCHIVE_IMPORT: archiveImportPayloadSchema,
   ARCHIVE_MAINTENANCE: archiveMaintenancePayloadSchema,
   ARCHIVE_INTAKE_RETENTION_CLEANUP: emptyJobPayloadSchema,
   SCAN_RUN_RETENTION_CLEANUP: emptyJobPayloadSchema,
   TRIGGER_LOG_RETENTION_CLEANUP: emptyJobPayloadSchema,
-  DERIVED_MEDIA_GC: derivedMediaGcPayloadSchema
+  DERIVED_MEDIA_GC: derivedMediaGcPayloadSchema,
+  IMAGE_PERCEPTUAL_HASH: emptyJobPayloadSchema,
+  ARCHIVE_UPDATE_CHECK: archiveUpdateCheckPayloadSchema,
+  UGOIRA_CONVERSION: ugoiraConversionPayloadSchema,
+  MEDIA_INTEGRITY_SCRUB: mediaIntegrityScrubPayloadSchema,
+  ARTWORK_EXPORT: artworkExportPayloadSchema
 } satisfies Record<JobType, z.ZodType>
 
 export function parseJobPayload(type: JobType, payload: unknown) {
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+
+/**
+ * Variables an admin storage layout template may reference. `externalId`, `creatorId` and
+ * `artworkId` are identities and are rendered verbatim; `provider`, `creator` and `title`
+ * are free text and are sanitized into a single path segment when rendered.
+ */
+export const STORAGE_LAYOUT_VARIABLES = Object.freeze([
+  'provider',
+  'creator',
+  'creatorId',
+  'externalId',
+  'title',
+  'artworkId'
+] as const)
+export type StorageLayoutVariable = (typeof STORAGE_LAYOUT_VARIABLES)[number]
+
+/**
+ * The layout every MIGRATION used before templates were configurable: `<artist.userId>/<artwork.externalId>`.
+ * It is pinned independently of the admin default because persisted plans of those jobs point at it.
+ */
+export const LEGACY_MIGRATION_LAYOUT_TEMPLATE = '{creatorId}/{externalId}'
+
+/** Layout used until an admin configures one; it reproduces the legacy layout. */
+export const DEFAULT_STORAGE_LAYOUT_TEMPLATE = LEGACY_MIGRATION_LAYOUT_TEMPLATE
+
+/** Setting row holding the admin layout; archive enqueue reads it inside its own transaction. */
+export const STORAGE_LAYOUT_TEMPLATE_SETTING_KEY = 'storageLayoutTemplate'
+
+export const MAX_STORAGE_LAYOUT_TEMPLATE_LENGTH = 200
+export const MAX_STORAGE_LAYOUT_SEGMENTS = 4
+
+export type StorageLayoutPart = { kind: 'literal'; value: string } | { kind: 'variable'; name: StorageLayoutVariable }
+
+const layoutVariables = new Set<string>(STORAGE_LAYOUT_VARIABLES)
+const UNSAFE_LITERAL_CHARACTER = /[<>:"\\|?*]/
+
+/**
+ * Splits a template into directory segments of literal and variable parts. Every artwork
+ * directory must stay unique, so the template has to reference `{externalId}`; literal text
+ * may not introduce hidden, traversal or platform-reserved names.
+ */
+export function parseStorageLayoutTemplate(template: string): StorageLayoutPart[][] {
+  if (template.length === 0 || template.length > MAX_STORAGE_LAYOUT_TEMPLATE_LENGTH) {
+    throw new Error(`Storage layout template must contain 1 to ${MAX_STORAGE_LAYOUT_TEMPLATE_LENGTH} characters`)
+  }
+  const rawSegments = template.split('/')
+  if (rawSegments.length > MAX_STORAGE_LAYOUT_SEGMENTS) {
+    throw new Error(`Storage layout template may contain at most ${MAX_STORAGE_LAYOUT_SEGMENTS} directory levels`)
+  }
+  const segments = rawSegments.map(parseSegment)
+  if (!segments.some((parts) => parts.some((part) => part.kind === 'variable' && part.name === 'externalId'))) {
+    throw new Error('Storage layout template must reference {externalId}')
+  }
+  return segments
+}
+
+function parseSegment(segment: string): StorageLayoutPart[] {
+  if (segment.length === 0) throw new Error('Storage layout template contains an empty directory level')
+  const parts: StorageLayoutPart[] = []
+  let literal = ''
+  for (let index = 0; index < segment.length; index += 1) {
+    const character = segment[index]!
+    if (character === '}') throw new Error('Storage layout template contains an unmatched "}"')
+    if (character !== '{') {
+      literal += character
+      continue
+    }
+    const end = segment.indexOf('}', index + 1)
+    if (end === -1) throw new Error('Storage layout template contains an unmatched "{"')
+    const name = segment.slice(index + 1, end)
+    if (!layoutVariables.has(name)) throw new Error(`Unknown storage layout variable: {${name}}`)
+    if (literal) parts.push({ kind: 'literal', value: literal })
+    parts.push({ kind: 'variable', name: name as StorageLayoutVariable })
+    literal = ''
+    index = end
+  }
+  if (literal) parts.push({ kind: 'literal', value: literal })
+  const literalText = parts.flatMap((part) => (part.kind === 'literal' ? [part.value] : [])).join('')
+  if (UNSAFE_LITERAL_CHARACTER.test(literalText) || [...literalText].some((value) => value.charCodeAt(0) <= 0x1f)) {
+    throw new Error('Storage layout template literal text contains a reserved path character')
+  }
+  const first = parts[0]!
+  if (first.kind === 'literal' && first.value.startsWith('.')) {
+    throw new Error('Storage layout directory levels may not start with "."')
+  }
+  const last = parts.at(-1)!
+  if (last.kind === 'literal' && /[. ]$/.test(last.value)) {
+    throw new Error('Storage layout directory levels may not end with "." or a space')
+  }
+  return parts
+}
+
+export const storageLayoutTemplateSchema = z
+  .string()
+  .trim()
+  .superRefine((template, context) => {
+    try {
+      parseStorageLayoutTemplate(template)
+    } catch (error) {
+      context.addIssue({ code: 'custom', message: error instanceof Error ? error.message : String(error) })
+    }
+  })
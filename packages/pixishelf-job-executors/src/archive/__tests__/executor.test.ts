@@ -12,6 +12,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 const { publishMock, storageMocks } = vi.hoisted(() => ({
   publishMock: vi.fn(),
   storageMocks: {
+    archiveMediaType: vi.fn((mimeType: string | null) => (mimeType === 'application/zip' ? 'ANIMATION' : 'IMAGE')),
     buildArchiveStoragePaths: vi.fn(() => ({
       scanRootAbsolutePath: 'D:/archive',
       stagingRelativePath: '.archive-staging/import-1',
@@ -149,6 +150,11 @@ describe('archive executor', () => {
       expect.any(Date)
     )
     expect(context.finalizeInTransaction).toHaveBeenCalledOnce()
+    expect(context.enqueueChild).toHaveBeenCalledWith({
+      type: 'IMAGE_PERCEPTUAL_HASH',
+      payload: {},
+      idempotencyKey: 'image-perceptual-hash:job-1'
+    })
   })
 
   it('reconciles stale aggregate counts from durable item checkpoints before execution', async () => {
@@ -174,6 +180,27 @@ describe('archive executor', () => {
     )
   })
 
+  it('queues ugoira conversion after publishing a Pixiv animation zip', async () => {
+    const transaction = createTransaction()
+    const ugoiraItem = { ...completedArchiveItem, stagedPath: 'media/0001-42_ugoira.zip', mimeType: 'application/zip' }
+    transaction.archiveImport.findUnique.mockResolvedValue({
+      ...archiveImport,
+      totalItems: 1,
+      completedItems: 1,
+      items: [ugoiraItem]
+    })
+    transaction.archiveImportItem.groupBy.mockResolvedValue([{ status: 'COMPLETED', _count: { _all: 1 } }])
+    transaction.archiveImportItem.findMany.mockResolvedValue([ugoiraItem])
+    const context = createContext(transaction)
+
+    await executeArchiveImport(context, dependencies(transaction))
+
+    expect(vi.mocked(context.enqueueChild).mock.calls.map(([request]) => request.type)).toEqual([
+      'IMAGE_PERCEPTUAL_HASH',
+      'UGOIRA_CONVERSION'
+    ])
+  })
+
   it('increments the live aggregate in the same transaction as an item completion', async () => {
     const transaction = createTransaction()
     transaction.archiveImport.findUnique.mockResolvedValue({
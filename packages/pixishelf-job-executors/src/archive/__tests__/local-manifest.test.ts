@@ -0,0 +1,219 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import sharp from 'sharp'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { archiveMediaProviderKey, DefaultArchiveMediaProviderRegistry } from '../provider-registry.js'
+import { LocalManifestProvider } from '../providers/local-manifest.js'
+import { readResponseBuffer, type SafeHttpResponse } from '../safe-http.js'
+
+async function png() {
+  return sharp({ create: { width: 2, height: 2, channels: 3, background: '#336699' } })
+    .png()
+    .toBuffer()
+}
+
+/**
+ * 按 gallery-dl 默认输出布局准备目录：Pixiv 把画师全部作品放在 {user[id]} {user[name]}/ 下，
+ * 每个文件一个 {filename}.{ext}.json；E-Hentai 额外写 info.json。
+ */
+async function createLibrary(root: string) {
+  const image = await png()
+  const pixiv = path.join(root, 'pixiv', '4242 しおり')
+  await mkdir(pixiv, { recursive: true })
+  const works = [
+    { id: 118000002, pages: [0, 1, 2], title: '夏の記録' },
+    { id: 118000003, pages: [0], title: '冬の記録' }
+  ]
+  for (const work of works) {
+    for (const num of work.pages) {
+      const name = `${work.id}_p${num}.png`
+      await writeFile(path.join(pixiv, name), image)
+      await writeFile(
+        path.join(pixiv, `${name}.json`),
+        JSON.stringify({
+          category: 'pixiv',
+          subcategory: 'artworks',
+          id: work.id,
+          num,
+          title: work.title,
+          caption: '三ページ漫画',
+          type: 'manga',
+          date: '2024-06-10 00:00:00',
+          tags: ['オリジナル', 'Re:ゼロ'],
+          user: { id: 4242, name: 'しおり', account: 'shiori_art' },
+          illust_ai_type: 1,
+          x_restrict: 1,
+          series: { id: 77001, title: '海辺の記録' }
+        })
+      )
+    }
+  }
+  const pixivWork = path.join(pixiv, '118000002_p1.png.json')
+
+  const gallery = path.join(root, 'exhentai', '2800001 Sample Gallery')
+  await mkdir(gallery, { recursive: true })
+  for (const name of ['10.png', '2.png', '1.png']) await writeFile(path.join(gallery, name), image)
+  await writeFile(path.join(gallery, 'notes.txt'), 'not media')
+  await writeFile(
+    path.join(gallery, 'info.json'),
+    JSON.stringify({
+      category: 'exhentai',
+      subcategory: 'gallery',
+      gid: 2800001,
+      token: 'abcdef0123',
+      title: 'Sample Gallery',
+      title_jpn: 'サンプル',
+      eh_category: 'Doujinshi',
+      uploader: 'uploader-1',
+      date: '2024-02-03 04:05:06',
+      tags: ['artist:circle artist', 'female:glasses', 'other:full color']
+    })
+  )
+
+  const orphan = path.join(root, 'orphan')
+  await mkdir(orphan, { recursive: true })
+  await writeFile(path.join(orphan, '1.png'), image)
+  return { pixiv, pixivWork, gallery, orphan }
+}
+
+describe('LocalManifestProvider', () => {
+  let temporary = ''
+  let root = ''
+  let library: Awaited<ReturnType<typeof createLibrary>>
+
+  beforeAll(async () => {
+    temporary = await mkdtemp(path.join(os.tmpdir(), 'pixishelf-manifest-'))
+    root = path.join(temporary, 'manifests')
+    library = await createLibrary(root)
+    await writeFile(path.join(temporary, 'outside.json'), JSON.stringify({ category: 'pixiv', id: 1 }))
+    await symlink(temporary, path.join(root, 'escape'))
+  })
+
+  afterAll(async () => {
+    await rm(temporary, { recursive: true, force: true })
+  })
+
+  it('accepts only file URLs inside the configured root', () => {
+    const provider = new LocalManifestProvider(root)
+
+    expect(provider.accepts(pathToFileURL(library.gallery))).toBe(true)
+    expect(provider.accepts(pathToFileURL(path.join(temporary, 'outside.json')))).toBe(false)
+    expect(provider.accepts(new URL('https://e-hentai.org/g/1/token/'))).toBe(false)
+    expect(new LocalManifestProvider(null).accepts(pathToFileURL(library.gallery))).toBe(false)
+  })
+
+  it('maps per-file pixiv sidecars to the real pixiv identity with artist, series and rating', async () => {
+    const resolved = await new LocalManifestProvider(root).resolve(pathToFileURL(library.pixivWork).href)
+
+    expect(resolved).toMatchObject({
+      providerKey: 'pixiv',
+      externalId: '118000002',
+      canonicalUrl: 'https://www.pixiv.net/artworks/118000002',
+      locator: { mediaProviderKey: 'local-manifest', directory: 'pixiv/4242 しおり' },
+      title: '夏の記録',
+      description: '三ページ漫画',
+      category: 'manga',
+      uploader: 'しおり',
+      creatorBucket: 'artist--しおり',
+      postedAt: new Date('2024-06-10T00:00:00.000Z'),
+      warnings: []
+    })
+    expect(resolved.tags).toEqual([
+      { namespace: 'general', name: 'オリジナル' },
+      { namespace: 'general', name: 'Re:ゼロ' }
+    ])
+    expect(resolved.normalizedMetadata).toMatchObject({
+      artist: { name: 'しおり', userId: '4242', account: 'shiori_art' },
+      aiGenerated: false,
+      xRestrict: 'R-18',
+      series: { source: 'PIXIV', externalId: '77001', title: '海辺の記録', order: null }
+    })
+    expect(resolved.media.map((item) => item.locator.path)).toEqual([
+      'pixiv/4242 しおり/118000002_p0.png',
+      'pixiv/4242 しおり/118000002_p1.png',
+      'pixiv/4242 しおり/118000002_p2.png'
+    ])
+    expect(resolved.media[0]!.expectedFilename).toBe('118000002_p0')
+  })
+
+  it('keeps only the chosen work from an artist folder and rejects the folder itself', async () => {
+    const provider = new LocalManifestProvider(root)
+    const single = await provider.resolve(pathToFileURL(path.join(library.pixiv, '118000003_p0.png.json')).href)
+
+    expect(single).toMatchObject({ externalId: '118000003', title: '冬の記録' })
+    expect(single.media.map((item) => item.locator.path)).toEqual(['pixiv/4242 しおり/118000003_p0.png'])
+    await expect(provider.resolve(pathToFileURL(library.pixiv).href)).rejects.toMatchObject({
+      code: 'REMOTE_RESPONSE_INVALID'
+    })
+  })
+
+  it('reads a gallery-level info.json and orders media by natural filename', async () => {
+    const resolved = await new LocalManifestProvider(root).resolve(
+      pathToFileURL(path.join(library.gallery, 'info.json')).href
+    )
+
+    expect(resolved).toMatchObject({
+      providerKey: 'e-hentai',
+      externalId: '2800001',
+      canonicalUrl: 'https://e-hentai.org/g/2800001/abcdef0123/',
+      title: 'サンプル',
+      titleAliases: ['Sample Gallery'],
+      category: 'Doujinshi',
+      uploader: 'uploader-1',
+      creatorBucket: 'artist--circle-artist'
+    })
+    expect(resolved.tags).toEqual([
+      { namespace: 'artist', name: 'circle artist' },
+      { namespace: 'female', name: 'glasses' },
+      { namespace: 'other', name: 'full color' }
+    ])
+    expect(resolved.media.map((item) => item.expectedFilename)).toEqual(['1', '2', '10'])
+    expect(resolved.warnings).toHaveLength(1)
+  })
+
+  it('rejects directories without a sidecar and paths that escape the root through a symlink', async () => {
+    const provider = new LocalManifestProvider(root)
+
+    await expect(provider.resolve(pathToFileURL(library.orphan).href)).rejects.toMatchObject({
+      code: 'REMOTE_RESPONSE_INVALID'
+    })
+    await expect(provider.resolve(pathToFileURL(path.join(root, 'escape', 'outside.json')).href)).rejects.toMatchObject(
+      { code: 'INVALID_URL' }
+    )
+    await expect(provider.resolve(pathToFileURL(path.join(root, 'missing')).href)).rejects.toMatchObject({
+      code: 'REMOTE_NOT_FOUND'
+    })
+  })
+
+  it('routes media reads to the manifest provider while keeping the source identity', async () => {
+    const provider = new LocalManifestProvider(root)
+    const resolved = await provider.resolve(pathToFileURL(library.pixivWork).href)
+    const registry = new DefaultArchiveMediaProviderRegistry([provider])
+    let streamRequests = 0
+
+    expect(registry.get(archiveMediaProviderKey(resolved))).toBe(provider)
+    const media = await provider.openMedia(resolved.media[1]!, {
+      quality: 'ORIGINAL',
+      runDownloadStreamRequest: (operation) => {
+        streamRequests += 1
+        return operation()
+      }
+    })
+    const body = await readResponseBuffer(
+      { status: 200, headers: {}, stream: media.stream as SafeHttpResponse['stream'], url: '' },
+      4096
+    )
+
+    expect(archiveMediaProviderKey({ providerKey: 'pixiv', locator: { illustId: '1' } })).toBe('pixiv')
+    expect(media).toMatchObject({
+      mimeType: 'image/png',
+      contentLength: body.length,
+      originalFilename: '118000002_p1.png',
+      quality: 'ORIGINAL',
+      remoteHost: null
+    })
+    expect(streamRequests).toBe(1)
+  })
+})
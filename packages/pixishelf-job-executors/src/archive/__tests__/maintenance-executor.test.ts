@@ -1,3 +1,4 @@
+import { createHash } from 'node:crypto'
 import { mkdtemp, mkdir, readFile, rm, symlink, writeFile } from 'node:fs/promises'
 import os from 'node:os'
 import path from 'node:path'
@@ -191,14 +192,11 @@ describe('archive maintenance executor', () => {
     const transaction = purgeTransaction()
 
     await expect(
-      executeArchiveMaintenance(
-        executionContext({ action: 'PURGE_ARCHIVE', artworkId: 7 }, transaction, true),
-        {
-          database: {} as never,
-          config: { scanRoot: root },
-          now: () => new Date('2026-08-19T00:00:00.000Z')
-        }
-      )
+      executeArchiveMaintenance(executionContext({ action: 'PURGE_ARCHIVE', artworkId: 7 }, transaction, true), {
+        database: {} as never,
+        config: { scanRoot: root },
+        now: () => new Date('2026-08-19T00:00:00.000Z')
+      })
     ).rejects.toThrow('crash after filesystem mutation')
     await expect(readFile(path.join(root, '.trash/archive/7/rev-1/media/file.jpg'))).rejects.toMatchObject({
       code: 'ENOENT'
@@ -272,6 +270,64 @@ describe('archive maintenance executor', () => {
     })
   })
 
+  it('restores a verified earlier revision as current and completes its audit row in the fenced transaction', async () => {
+    const root = await temporaryRoot()
+    await writeFixture(root, 'sources/test/rev-1/0001.jpg')
+    const transaction = revisionRestoreTransaction(sha256('fixture'))
+    const context = executionContext({ action: 'RESTORE_REVISION', artworkId: 7, restoreId: 'restore-1' }, transaction)
+
+    await expect(
+      executeArchiveMaintenance(context, {
+        database: {} as never,
+        config: { scanRoot: root },
+        now: () => new Date('2026-09-12T00:00:00.000Z')
+      })
+    ).resolves.toEqual(TRANSACTIONALLY_FINALIZED_EXECUTION_OUTCOME)
+
+    expect(transaction.image.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ artworkId: 7, path: 'sources/test/rev-1/0001.jpg', size: 7n, sortOrder: 0 })]
+    })
+    expect(transaction.artwork.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ title: 'Earlier title', storagePath: 'sources/test/rev-1' })
+      })
+    )
+    expect(transaction.artworkRelation.upsert).toHaveBeenCalledWith({
+      where: { fromArtworkId_toArtworkId_type: { fromArtworkId: 7, toArtworkId: 41, type: 'REPLACES' } },
+      create: { fromArtworkId: 7, toArtworkId: 41, type: 'REPLACES', providerKey: 'test' },
+      update: { providerKey: 'test' }
+    })
+    expect(transaction.artworkRelation.deleteMany).toHaveBeenCalledTimes(1)
+    expect(transaction.artworkRelation.deleteMany).toHaveBeenCalledWith({
+      where: { fromArtworkId: 40, toArtworkId: 7, type: 'REPLACES', providerKey: 'test' }
+    })
+    expect(transaction.archiveRevision.update).toHaveBeenCalledWith({
+      where: { id: 'rev-1' },
+      data: { isCurrent: true }
+    })
+    expect(transaction.archiveRevisionRestore.updateMany).toHaveBeenCalledWith({
+      where: { id: 'restore-1', completedAt: null },
+      data: { fromRevisionId: 'rev-2', completedAt: new Date('2026-09-12T00:00:00.000Z') }
+    })
+    expect(context.__scope.complete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        result: { action: 'RESTORE_REVISION', artworkId: 7, revisionId: 'rev-1', previousRevisionId: 'rev-2' }
+      })
+    )
+  })
+
+  it('refuses to restore a revision whose stored media no longer matches its snapshot digest', async () => {
+    const root = await temporaryRoot()
+    await writeFixture(root, 'sources/test/rev-1/0001.jpg')
+    const transaction = revisionRestoreTransaction(sha256('changed'))
+    const context = executionContext({ action: 'RESTORE_REVISION', artworkId: 7, restoreId: 'restore-1' }, transaction)
+
+    await expect(
+      executeArchiveMaintenance(context, { database: {} as never, config: { scanRoot: root } })
+    ).rejects.toMatchObject({ code: 'MEDIA_INVALID' })
+    expect(context.finalizeInTransaction).not.toHaveBeenCalled()
+  })
+
   it('fails reconciliation when candidate discovery has an unexpected database error', async () => {
     const transaction = reconcileTransaction()
     transaction.archiveImport.findMany.mockRejectedValueOnce(new Error('database unavailable'))
@@ -366,6 +422,105 @@ function purgeTransaction(overrides: { trashPath?: string } = {}) {
   }
 }
 
+function revisionRestoreTransaction(digest: string) {
+  const artwork = {
+    id: 7,
+    createdVia: 'URL_ARCHIVE',
+    archiveLifecycleState: 'ACTIVE',
+    deletedAt: null,
+    titleOverridden: false,
+    descriptionOverridden: true
+  }
+  const revision = {
+    id: 'rev-1',
+    artworkId: 7,
+    externalRefId: 'ref-1',
+    archivePath: 'sources/test/rev-1',
+    metadataHash: 'hash-1',
+    trashPath: null,
+    mediaSnapshot: [
+      { index: 0, path: '0001.jpg', size: '7', width: 2, height: 2, sha256: digest, mimeType: 'image/jpeg' }
+    ]
+  }
+  return {
+    $queryRawUnsafe: vi.fn().mockResolvedValue([]),
+    $executeRaw: vi.fn().mockResolvedValue(0),
+    archiveRevisionRestore: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue({ id: 'restore-1', artworkId: 7, toRevisionId: 'rev-1', completedAt: null }),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 })
+    },
+    artwork: {
+      findUnique: vi.fn().mockResolvedValue(artwork),
+      update: vi.fn().mockResolvedValue(artwork)
+    },
+    archiveRevision: {
+      findUnique: vi
+        .fn()
+        .mockImplementation(({ include }: { include?: unknown }) =>
+          Promise.resolve(
+            include ? { ...revision, artwork, externalRef: { externalId: '42', providerKey: 'test' } } : revision
+          )
+        ),
+      findFirst: vi.fn().mockResolvedValue({ id: 'rev-2', externalRefId: 'ref-1', metadataHash: 'hash-2' }),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      update: vi.fn().mockResolvedValue(revision)
+    },
+    artworkSourceSnapshot: {
+      findUnique: vi
+        .fn()
+        .mockImplementation(({ where }: { where: { externalRefId_metadataHash: { metadataHash: string } } }) =>
+          Promise.resolve(
+            where.externalRefId_metadataHash.metadataHash === 'hash-1'
+              ? {
+                  normalizedMetadata: {
+                    titles: { display: 'Earlier title' },
+                    description: 'Earlier',
+                    tags: [],
+                    relationships: [
+                      { type: 'REPLACES', direction: 'OUTBOUND', providerKey: 'test', externalId: '41' },
+                      { type: 'REPLACES', direction: 'INBOUND', providerKey: 'test', externalId: '39' }
+                    ]
+                  },
+                  rawMetadata: { title: 'Earlier title' }
+                }
+              : {
+                  normalizedMetadata: {
+                    relationships: [
+                      { type: 'REPLACES', direction: 'INBOUND', providerKey: 'test', externalId: '40' },
+                      { type: 'REPLACES', direction: 'INBOUND', providerKey: 'test', externalId: '39' }
+                    ]
+                  }
+                }
+          )
+        )
+    },
+    artworkExternalRef: {
+      update: vi.fn().mockResolvedValue({}),
+      findUnique: vi
+        .fn()
+        .mockImplementation(({ where }: { where: { providerKey_externalId: { externalId: string } } }) =>
+          Promise.resolve({ artworkId: Number(where.providerKey_externalId.externalId) })
+        )
+    },
+    artworkRelation: {
+      upsert: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 1 })
+    },
+    artworkRawMetadata: { upsert: vi.fn().mockResolvedValue({}) },
+    artworkTag: { deleteMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    image: {
+      deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
+      createMany: vi.fn().mockResolvedValue({ count: 1 })
+    }
+  }
+}
+
+function sha256(value: string) {
+  return createHash('sha256').update(value).digest('hex')
+}
+
 function reconcileTransaction() {
   const expired = {
     id: 'expired-import',
@@ -411,15 +566,19 @@ function reconcileTransaction() {
         { id: lifecycle.id, archiveLifecycleState: lifecycle.archiveLifecycleState },
         { id: purge.id, archiveLifecycleState: purge.archiveLifecycleState }
       ]),
-      findUnique: vi.fn().mockImplementation(({ where }: { where: { id: number } }) =>
-        Promise.resolve(where.id === lifecycle.id ? lifecycle : purge)
-      ),
+      findUnique: vi
+        .fn()
+        .mockImplementation(({ where }: { where: { id: number } }) =>
+          Promise.resolve(where.id === lifecycle.id ? lifecycle : purge)
+        ),
       updateMany: vi.fn().mockResolvedValue({ count: 1 })
     },
     systemJob: {
-      findFirst: vi.fn().mockImplementation(({ where }: { where: { payload: { equals: { action: string } } } }) =>
-        Promise.resolve(where.payload.equals.action === 'TRASH_ARCHIVE' ? { id: 'active-trash' } : null)
-      )
+      findFirst: vi
+        .fn()
+        .mockImplementation(({ where }: { where: { payload: { equals: { action: string } } } }) =>
+          Promise.resolve(where.payload.equals.action === 'TRASH_ARCHIVE' ? { id: 'active-trash' } : null)
+        )
     }
   }
 }
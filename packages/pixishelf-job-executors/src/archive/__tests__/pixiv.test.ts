@@ -0,0 +1,304 @@
+import { readFile } from 'node:fs/promises'
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { PixivProvider, type PixivHttpClient } from '../providers/pixiv.js'
+import { assertSuccessStatus, readResponseBuffer, type SafeHttpResponse } from '../safe-http.js'
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'pixiv')
+
+interface RecordedRequest {
+  url: string
+  headers: Record<string, string>
+}
+
+/**
+ * 以 /{host}/{path} 形式回放录制的 Pixiv 响应；图片只在带站点 referer 时返回，展示图固定返回 429。
+ */
+function createFixtureServer() {
+  return http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://fixture.local')
+    const [, host, ...rest] = url.pathname.split('/')
+    const pathname = `/${rest.join('/')}`
+    const ajax = host === 'www.pixiv.net' ? pathname.match(/^\/ajax\/illust\/(\d+)(\/pages|\/ugoira_meta)?$/) : null
+    if (ajax) {
+      const prefix = ajax[2] === '/pages' ? 'pages' : ajax[2] === '/ugoira_meta' ? 'ugoira-meta' : 'illust'
+      try {
+        const body = await readFile(path.join(FIXTURES, `${prefix}-${ajax[1]}.json`))
+        const status = JSON.parse(body.toString('utf8')).error ? 404 : 200
+        response.writeHead(status, { 'content-type': 'application/json; charset=utf-8' }).end(body)
+      } catch {
+        response.writeHead(404).end()
+      }
+      return
+    }
+    if (host === 'i.pximg.net' && pathname.startsWith('/img-master/')) {
+      response.writeHead(429, { 'retry-after': '60' }).end()
+      return
+    }
+    if (host === 'i.pximg.net' && pathname.startsWith('/img-zip-ugoira/')) {
+      const archive = Buffer.from('PK ugoira frames')
+      response.writeHead(200, { 'content-type': 'application/zip', 'content-length': String(archive.length) })
+      response.end(archive)
+      return
+    }
+    if (host === 'i.pximg.net' && pathname.startsWith('/img-original/')) {
+      if (request.headers.referer !== 'https://www.pixiv.net/') {
+        response.writeHead(403).end()
+        return
+      }
+      const image = await readFile(path.join(FIXTURES, '118000001_p0.png'))
+      response.writeHead(200, { 'content-type': 'image/png', 'content-length': String(image.length) }).end(image)
+      return
+    }
+    response.writeHead(404).end()
+  })
+}
+
+/**
+ * 把 https 远端地址改写到本地回放服务，其余行为与 SafeHttpClient 的公开接口一致
+ */
+function createFixtureHttp(origin: string): PixivHttpClient & { requests: RecordedRequest[] } {
+  const requests: RecordedRequest[] = []
+  const request: PixivHttpClient['request'] = (url, options = {}) =>
+    new Promise<SafeHttpResponse>((resolve, reject) => {
+      const target = new URL(url)
+      requests.push({ url, headers: options.headers ?? {} })
+      const outgoing = http.request(
+        `${origin}/${target.hostname}${target.pathname}${target.search}`,
+        {
+          method: options.method ?? 'GET',
+          headers: options.headers ?? {},
+          ...(options.signal ? { signal: options.signal } : {})
+        },
+        (incoming) => resolve({ status: incoming.statusCode ?? 0, headers: incoming.headers, stream: incoming, url })
+      )
+      outgoing.on('error', reject)
+      outgoing.end(options.body)
+    })
+  const text: PixivHttpClient['text'] = async (url, options = {}) => {
+    const response = await request(url, options)
+    assertSuccessStatus(response)
+    return (await readResponseBuffer(response, options.maxBytes ?? 1024 * 1024)).toString('utf8')
+  }
+  return {
+    requests,
+    request,
+    text,
+    json: async <T>(url: string, options = {}) => JSON.parse(await text(url, options)) as T
+  }
+}
+
+function governedContext() {
+  const calls = { resolve: 0, downloadStream: 0 }
+  return {
+    calls,
+    runResolveRequest: <T>(operation: () => Promise<T>) => {
+      calls.resolve += 1
+      return operation()
+    },
+    runDownloadStreamRequest: <T>(operation: () => Promise<T>) => {
+      calls.downloadStream += 1
+      return operation()
+    }
+  }
+}
+
+describe('PixivProvider', () => {
+  const server = createFixtureServer()
+  let origin = ''
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  })
+
+  it('accepts artwork URLs in every supported form and rejects other pixiv pages', () => {
+    const provider = new PixivProvider(createFixtureHttp(origin), {})
+
+    for (const url of [
+      'https://www.pixiv.net/artworks/118000001',
+      'https://www.pixiv.net/en/artworks/118000001',
+      'https://pixiv.net/i/118000001',
+      'https://www.pixiv.net/member_illust.php?mode=medium&illust_id=118000001'
+    ]) {
+      expect(provider.accepts(new URL(url)), url).toBe(true)
+    }
+    for (const url of [
+      'http://www.pixiv.net/artworks/118000001',
+      'https://www.pixiv.net/users/4242',
+      'https://www.pixiv.net/novel/show.php?id=1',
+      'https://i.pximg.net/img-original/img/2024/05/01/21/00/00/118000001_p0.png'
+    ]) {
+      expect(provider.accepts(new URL(url)), url).toBe(false)
+    }
+  })
+
+  it('maps a single illustration with tags, series and the AI flag through governed requests', async () => {
+    const fixtureHttp = createFixtureHttp(origin)
+    const context = governedContext()
+
+    const resolved = await new PixivProvider(fixtureHttp, {}).resolve(
+      'https://www.pixiv.net/en/artworks/118000001',
+      context
+    )
+
+    expect(resolved).toMatchObject({
+      providerKey: 'pixiv',
+      externalId: '118000001',
+      canonicalUrl: 'https://www.pixiv.net/artworks/118000001',
+      title: '夏の海辺',
+      description: '海辺のスケッチです。<br />シリーズ第2話。',
+      category: 'illust',
+      uploader: 'しおり',
+      creatorBucket: 'artist--しおり',
+      postedAt: new Date('2024-05-01T12:00:00.000Z')
+    })
+    expect(resolved.tags).toEqual([
+      { namespace: 'general', name: 'オリジナル' },
+      { namespace: 'general', name: '海' },
+      { namespace: 'general', name: 'AIイラスト' }
+    ])
+    expect(resolved.normalizedMetadata).toMatchObject({
+      aiGenerated: true,
+      pixivAiType: 2,
+      xRestrict: 'AllAges',
+      artist: { name: 'しおり', userId: '4242', account: 'shiori_art' },
+      series: { source: 'PIXIV', externalId: '77001', title: '海辺の記録', order: 2 },
+      tagTranslations: { オリジナル: 'original', 海: 'sea' }
+    })
+    // 收藏数随时变化，只留在原始元数据中，避免更新检查把它当成内容变化
+    expect(resolved.normalizedMetadata).not.toHaveProperty('bookmarkCount')
+    expect(resolved.rawMetadata).toMatchObject({ illust: { bookmarkCount: 321 } })
+    expect(resolved.media).toEqual([
+      {
+        index: 0,
+        sourcePageUrl: 'https://www.pixiv.net/artworks/118000001',
+        locator: {
+          illustId: '118000001',
+          pageIndex: 0,
+          originalUrl: 'https://i.pximg.net/img-original/img/2024/05/01/21/00/00/118000001_p0.png',
+          displayUrl: 'https://i.pximg.net/img-master/img/2024/05/01/21/00/00/118000001_p0_master1200.jpg'
+        },
+        expectedFilename: '118000001_p0'
+      }
+    ])
+    expect(context.calls.resolve).toBe(fixtureHttp.requests.length)
+    expect(fixtureHttp.requests).toHaveLength(1)
+    expect(fixtureHttp.requests[0]!.headers).toEqual({
+      accept: 'application/json',
+      referer: 'https://www.pixiv.net/artworks/118000001'
+    })
+  })
+
+  it('expands manga pages in order and sends the configured session cookie', async () => {
+    const fixtureHttp = createFixtureHttp(origin)
+    const context = governedContext()
+
+    const resolved = await new PixivProvider(fixtureHttp, { PIXIV_ARCHIVE_SESSION: 'session-value' }).resolve(
+      'https://www.pixiv.net/member_illust.php?mode=medium&illust_id=118000002',
+      context
+    )
+
+    expect(resolved.category).toBe('manga')
+    expect(resolved.media.map((item) => item.locator.originalUrl)).toEqual([
+      'https://i.pximg.net/img-original/img/2024/06/10/09/00/00/118000002_p0.jpg',
+      'https://i.pximg.net/img-original/img/2024/06/10/09/00/00/118000002_p1.png',
+      'https://i.pximg.net/img-original/img/2024/06/10/09/00/00/118000002_p2.jpg'
+    ])
+    expect(resolved.normalizedMetadata).toMatchObject({ aiGenerated: false, xRestrict: 'R-18', series: null })
+    expect(context.calls.resolve).toBe(2)
+    expect(fixtureHttp.requests.every((request) => request.headers.cookie === 'PHPSESSID=session-value')).toBe(true)
+  })
+
+  it('archives the ugoira frame zip together with its frame delays', async () => {
+    const context = governedContext()
+    const provider = new PixivProvider(createFixtureHttp(origin), {})
+
+    const resolved = await provider.resolve('https://www.pixiv.net/artworks/118000003', context)
+
+    const frames = [
+      { file: '000000.jpg', delay: 80 },
+      { file: '000001.jpg', delay: 80 },
+      { file: '000002.jpg', delay: 120 }
+    ]
+    expect(resolved.media).toHaveLength(1)
+    expect(resolved.media[0]).toMatchObject({
+      expectedFilename: '118000003_ugoira',
+      locator: {
+        originalUrl: 'https://i.pximg.net/img-zip-ugoira/img/2024/07/01/00/00/00/118000003_ugoira1920x1080.zip',
+        displayUrl: 'https://i.pximg.net/img-zip-ugoira/img/2024/07/01/00/00/00/118000003_ugoira600x600.zip',
+        ugoiraFrames: frames
+      }
+    })
+    expect(resolved.normalizedMetadata.ugoira).toEqual({
+      mimeType: 'image/jpeg',
+      zipUrl: 'https://i.pximg.net/img-zip-ugoira/img/2024/07/01/00/00/00/118000003_ugoira1920x1080.zip',
+      frameCount: 3,
+      frames: [
+        { file: '000000.jpg', delay: 80 },
+        { file: '000001.jpg', delay: 80 },
+        { file: '000002.jpg', delay: 120 }
+      ]
+    })
+    expect(resolved.normalizedMetadata.aiGenerated).toBeNull()
+    expect(resolved.warnings).toEqual([])
+    expect(context.calls.resolve).toBe(2)
+
+    const media = await provider.openMedia(resolved.media[0]!, { quality: 'DISPLAY' })
+    media.stream.resume()
+    expect(media).toMatchObject({
+      mimeType: 'application/zip',
+      originalFilename: '118000003_ugoira600x600.zip',
+      ugoiraFrames: frames
+    })
+  })
+
+  it('classifies a deleted artwork as not found', async () => {
+    await expect(
+      new PixivProvider(createFixtureHttp(origin), {}).resolve('https://www.pixiv.net/artworks/118000009')
+    ).rejects.toMatchObject({ code: 'REMOTE_NOT_FOUND' })
+  })
+
+  it('streams original media with the site referer inside the download permit', async () => {
+    const fixtureHttp = createFixtureHttp(origin)
+    const provider = new PixivProvider(fixtureHttp, {})
+    const [item] = (await provider.resolve('https://www.pixiv.net/artworks/118000001')).media
+    const context = governedContext()
+
+    const media = await provider.openMedia(item!, { ...context, quality: 'ORIGINAL' })
+    const body = await readResponseBuffer(
+      { status: 200, headers: {}, stream: media.stream as SafeHttpResponse['stream'], url: '' },
+      1024
+    )
+
+    expect(media).toMatchObject({
+      mimeType: 'image/png',
+      contentLength: body.length,
+      originalFilename: '118000001_p0.png',
+      quality: 'ORIGINAL',
+      remoteHost: 'i.pximg.net:443'
+    })
+    expect(body.subarray(1, 4).toString('ascii')).toBe('PNG')
+    expect(context.calls.downloadStream).toBe(1)
+    expect(fixtureHttp.requests.at(-1)!.headers).toEqual({ referer: 'https://www.pixiv.net/' })
+  })
+
+  it('surfaces rate limiting so the provider governor can pause the host', async () => {
+    const provider = new PixivProvider(createFixtureHttp(origin), {})
+    const [item] = (await provider.resolve('https://www.pixiv.net/artworks/118000001')).media
+
+    await expect(provider.openMedia(item!, { quality: 'DISPLAY' })).rejects.toMatchObject({
+      code: 'REMOTE_RATE_LIMITED',
+      pause: true,
+      retryAfterMs: 60_000,
+      stage: 'MEDIA_REQUEST'
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest'
+import { resolveArchiveStorageDirectory } from '../storage-layout.js'
+
+function createTransaction(template: string | null, owner: { id: string } | null = null) {
+  return {
+    archiveImport: { findFirst: vi.fn().mockResolvedValue(owner) },
+    archiveRevision: { findFirst: vi.fn().mockResolvedValue(null) },
+    setting: { findUnique: vi.fn().mockResolvedValue(template === null ? null : { value: template }) }
+  }
+}
+
+const source = {
+  providerKey: 'e-hentai',
+  externalId: '42',
+  creatorBucket: 'artist--shiori',
+  title: 'Gallery: Vol/1',
+  tags: [{ namespace: 'artist', name: 'Shiori' }],
+  externalRefId: null
+}
+
+describe('archive storage layout directory', () => {
+  it('renders the configured layout for a new artwork and checks other sources for ownership', async () => {
+    const transaction = createTransaction('{creator}/{externalId} {title}')
+
+    await expect(resolveArchiveStorageDirectory(transaction as never, source)).resolves.toBe('Shiori/42 Gallery_ Vol_1')
+    expect(transaction.archiveImport.findFirst).toHaveBeenCalledWith({
+      where: {
+        storageDirectory: { equals: 'Shiori/42 Gallery_ Vol_1', mode: 'insensitive' },
+        NOT: { providerKey: 'e-hentai', externalId: '42' }
+      },
+      select: { id: true }
+    })
+  })
+
+  it('keeps the historical directory when the layout cannot give the artwork its own directory', async () => {
+    for (const template of [null, '{creatorId}/{externalId}', '{provider}/{artworkId}-{externalId}']) {
+      await expect(resolveArchiveStorageDirectory(createTransaction(template) as never, source)).resolves.toBeNull()
+    }
+    await expect(
+      resolveArchiveStorageDirectory(createTransaction('{provider}/{externalId}') as never, {
+        ...source,
+        externalId: '../42'
+      })
+    ).resolves.toBeNull()
+    await expect(
+      resolveArchiveStorageDirectory(
+        createTransaction('{provider}/{externalId}', { id: 'other-import' }) as never,
+        source
+      )
+    ).resolves.toBeNull()
+  })
+})
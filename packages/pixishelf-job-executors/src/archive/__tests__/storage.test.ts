@@ -1,12 +1,16 @@
-import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import path from 'node:path'
+import { Readable } from 'node:stream'
+import sharp from 'sharp'
 import { afterEach, describe, expect, it } from 'vitest'
+import { buildZipFixture } from '../../shared/__tests__/zip-fixture.js'
 import {
   buildArchiveStoragePaths,
   pathExists,
   prepareArchiveRevisionDirectory,
-  prepareArchiveStagingDirectory
+  prepareArchiveStagingDirectory,
+  storeArchiveRemoteMedia
 } from '../storage.js'
 
 const temporaryDirectories: string[] = []
@@ -31,6 +35,28 @@ describe('archive executor storage safety', () => {
     expect(path.relative(path.resolve('D:/archive'), paths.finalAbsolutePath)).not.toMatch(/^\.\./)
   })
 
+  it('places revisions under a frozen layout directory and rejects tampered ones', () => {
+    const input = {
+      scanRoot: 'D:/archive',
+      archiveImportId: 'import-1',
+      providerKey: 'e-hentai',
+      creatorBucket: 'shiori',
+      externalId: '42'
+    }
+
+    expect(buildArchiveStoragePaths({ ...input, storageDirectory: 'shiori/42 - Gallery' }).finalRelativePath).toBe(
+      'sources/shiori/42 - Gallery/revisions/import-1'
+    )
+    expect(buildArchiveStoragePaths({ ...input, storageDirectory: null }).finalRelativePath).toBe(
+      'sources/e-hentai/shiori/42/revisions/import-1'
+    )
+    for (const storageDirectory of ['../escape/42', 'shiori//42', 'shiori\\42', '.hidden/42']) {
+      expect(() => buildArchiveStoragePaths({ ...input, storageDirectory })).toThrow(
+        'Invalid archive storage directory'
+      )
+    }
+  })
+
   it('rejects a stored staging path that escapes the configured root', async () => {
     const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-archive-storage-'))
     temporaryDirectories.push(root)
@@ -62,6 +88,63 @@ describe('archive executor storage safety', () => {
     expect(await pathExists(paths.stagingAbsolutePath)).toBe(false)
   })
 
+  it('stores a Pixiv ugoira zip beside its frame timing and rejects a zip missing a timed frame', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-archive-storage-'))
+    temporaryDirectories.push(root)
+    const stagingDirectory = await prepareArchiveStagingDirectory(root, '.archive-staging/import-1')
+    const frame = await sharp({ create: { width: 6, height: 4, channels: 3, background: '#336699' } })
+      .jpeg()
+      .toBuffer()
+    const frames = [
+      { file: '000000.jpg', delay: 80 },
+      { file: '000001.jpg', delay: 120 }
+    ]
+    const store = (archive: Buffer, partialKey: string) =>
+      storeArchiveRemoteMedia({
+        remote: {
+          stream: Readable.from([archive]),
+          mimeType: 'application/zip',
+          contentLength: archive.length,
+          originalFilename: '118000003_ugoira600x600.zip',
+          quality: 'DISPLAY',
+          remoteHost: 'i.pximg.net:443',
+          ugoiraFrames: frames
+        },
+        stagingDirectory,
+        index: 0,
+        expectedFilename: '118000003_ugoira',
+        signal: new AbortController().signal,
+        partialKey
+      })
+
+    await expect(
+      store(
+        buildZipFixture([
+          { name: '000000.jpg', content: frame },
+          { name: '000001.jpg', content: frame }
+        ]),
+        'complete'
+      )
+    ).resolves.toMatchObject({
+      relativePath: 'media/0001-118000003_ugoira600x600.zip',
+      mimeType: 'application/zip',
+      width: 6,
+      height: 4
+    })
+    expect(
+      JSON.parse(await readFile(path.join(stagingDirectory, 'media', '0001-118000003_ugoira600x600.json'), 'utf8'))
+    ).toEqual({ frames })
+
+    await expect(store(buildZipFixture([{ name: '000000.jpg', content: frame }]), 'truncated')).rejects.toMatchObject({
+      code: 'MEDIA_INVALID',
+      message: 'Archive media is not a playable ugoira zip'
+    })
+    expect((await readdir(path.join(stagingDirectory, 'media'))).sort()).toEqual([
+      '0001-118000003_ugoira600x600.json',
+      '0001-118000003_ugoira600x600.zip'
+    ])
+  })
+
   it('rejects a tampered final revision path that escapes the scan root', async () => {
     const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-archive-storage-'))
     temporaryDirectories.push(root)
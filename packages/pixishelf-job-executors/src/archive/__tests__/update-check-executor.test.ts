@@ -0,0 +1,312 @@
+import type { ArchiveUpdateCheckPayload } from '@pixishelf/job-contracts'
+import type { EnqueuedChildJob, ExecutionContext } from '@pixishelf/job-runtime'
+import { describe, expect, it, vi } from 'vitest'
+import { ArchiveExecutorError } from '../errors.js'
+import { hashResolvedMetadata } from '../providers/e-hentai.js'
+import { diffArchiveSourceSnapshots, executeArchiveUpdateCheck } from '../update-check-executor.js'
+import type { ResolvedArchive } from '../types.js'
+
+const publishedMetadata = {
+  titles: { display: 'Gallery' },
+  category: 'Manga',
+  tags: [{ namespace: 'artist', name: 'shiori' }],
+  mediaPlan: [{ index: 0 }]
+}
+
+function resolvedArchive(overrides: Partial<ResolvedArchive> = {}): ResolvedArchive {
+  return {
+    providerKey: 'e-hentai',
+    externalId: '100',
+    canonicalUrl: 'https://e-hentai.org/g/100/token/',
+    locator: { gid: '100', token: 'token' },
+    title: 'Gallery',
+    titleAliases: [],
+    description: null,
+    category: 'Manga',
+    uploader: null,
+    thumbnailUrl: null,
+    postedAt: null,
+    tags: [],
+    relationships: [],
+    media: [{ index: 0, sourcePageUrl: 'https://e-hentai.org/s/a/100-1', locator: {}, expectedFilename: '0001' }],
+    normalizedMetadata: publishedMetadata,
+    rawMetadata: { gid: 100 },
+    warnings: [],
+    creatorBucket: 'shiori',
+    ...overrides
+  }
+}
+
+describe('archive update check executor', () => {
+  it('records an unchanged check and advances fetchedAt without enqueueing', async () => {
+    const fixture = createFixture({ resolve: vi.fn(async () => resolvedArchive()) })
+
+    const outcome = await executeArchiveUpdateCheck(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ kind: 'completed', result: { checked: 1, unchanged: 1, enqueued: 0 } })
+    expect(fixture.transaction.artworkExternalRef.update).toHaveBeenCalledWith({
+      where: { id: 'ref-1' },
+      data: { fetchedAt: fixture.checkedAt }
+    })
+    expect(fixture.transaction.archiveUpdateCheck.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'UNCHANGED', metadataHash: publishedHash(), archiveImportId: null })
+    })
+    expect(fixture.transaction.systemJob.create).not.toHaveBeenCalled()
+  })
+
+  it('leaves out references whose current revision came from a local gallery-dl folder', async () => {
+    const fixture = createFixture({ resolve: vi.fn(async () => resolvedArchive()) })
+
+    await executeArchiveUpdateCheck(fixture.context, fixture.dependencies)
+
+    expect(fixture.database.artworkExternalRef.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          NOT: {
+            archiveRevisions: {
+              some: {
+                isCurrent: true,
+                archiveImport: { locator: { path: ['mediaProviderKey'], equals: 'local-manifest' } }
+              }
+            }
+          }
+        })
+      })
+    )
+  })
+
+  it('stores a snapshot diff and enqueues a new revision import when the hash changed', async () => {
+    const changedMetadata = {
+      ...publishedMetadata,
+      titles: { display: 'Gallery (updated)' },
+      tags: [{ namespace: 'female', name: 'glasses' }],
+      mediaPlan: [{ index: 0 }, { index: 1 }]
+    }
+    const fixture = createFixture({
+      payload: { autoEnqueue: true },
+      resolve: vi.fn(async () => resolvedArchive({ normalizedMetadata: changedMetadata })),
+      storageLayoutTemplate: '{provider}/{externalId}',
+      currentStorageDirectory: 'e-hentai/shiori/100'
+    })
+
+    const outcome = await executeArchiveUpdateCheck(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ result: { changed: 1, enqueued: 1 } })
+    expect(fixture.transaction.artworkSourceSnapshot.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          externalRefId_metadataHash: { externalRefId: 'ref-1', metadataHash: hashResolvedMetadata(changedMetadata) }
+        }
+      })
+    )
+    expect(fixture.transaction.systemJob.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'ARCHIVE_IMPORT',
+        executionLane: 'BACKGROUND_WRITER',
+        triggerSource: 'SYSTEM',
+        parentJobId: 'update-check-job'
+      })
+    })
+    expect(fixture.transaction.archiveImport.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        providerKey: 'e-hentai',
+        externalId: '100',
+        selectedQuality: 'DISPLAY',
+        metadataHash: hashResolvedMetadata(changedMetadata),
+        storageDirectory: 'e-hentai/shiori/100',
+        stagingPath: expect.stringMatching(/^\.archive-staging\//)
+      })
+    })
+    // 已有作品的新修订沿用当前修订目录，不按修改后的布局重新渲染
+    expect(fixture.transaction.setting.findUnique).not.toHaveBeenCalled()
+    expect(fixture.transaction.archiveUpdateCheck.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: 'CHANGED',
+        previousMetadataHash: publishedHash(),
+        archiveImportId: expect.any(String),
+        diff: {
+          fields: ['titles'],
+          tagsAdded: ['female:glasses'],
+          tagsRemoved: ['artist:shiori'],
+          pageCount: { before: 1, after: 2 }
+        }
+      })
+    })
+  })
+
+  it('follows an inbound REPLACES relationship and enqueues the replacement gallery', async () => {
+    const replacement = resolvedArchive({
+      externalId: '200',
+      canonicalUrl: 'https://e-hentai.org/g/200/newer/',
+      normalizedMetadata: { ...publishedMetadata, gid: '200' }
+    })
+    const resolve = vi.fn(async (url: string) =>
+      url === replacement.canonicalUrl
+        ? replacement
+        : resolvedArchive({
+            relationships: [
+              {
+                type: 'REPLACES',
+                direction: 'INBOUND',
+                providerKey: 'e-hentai',
+                externalId: '200',
+                canonicalUrl: replacement.canonicalUrl,
+                locator: { gid: '200', token: 'newer' }
+              }
+            ]
+          })
+    )
+    const fixture = createFixture({
+      payload: { autoEnqueue: true },
+      resolve,
+      storageLayoutTemplate: '{provider}/{creator}/{externalId}-{title}'
+    })
+
+    const outcome = await executeArchiveUpdateCheck(fixture.context, fixture.dependencies)
+
+    expect(resolve).toHaveBeenCalledTimes(2)
+    expect(outcome).toMatchObject({ result: { replacementsFound: 1, replacementsEnqueued: 1, enqueued: 0 } })
+    expect(fixture.transaction.archiveImport.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        externalId: '200',
+        canonicalUrl: replacement.canonicalUrl,
+        storageDirectory: 'e-hentai/shiori/200-Gallery'
+      })
+    })
+    expect(fixture.transaction.archiveUpdateCheck.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        replacementExternalId: '200',
+        replacementArchiveImportId: expect.any(String)
+      })
+    })
+  })
+
+  it('stops at a provider throttle without recording the remaining references', async () => {
+    const fixture = createFixture({
+      references: [reference('ref-1'), reference('ref-2')],
+      resolve: vi.fn(async () => {
+        throw new ArchiveExecutorError('REMOTE_RATE_LIMITED', 'slow down', { recoverable: true })
+      })
+    })
+
+    const outcome = await executeArchiveUpdateCheck(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ result: { checked: 0, deferredByProvider: true } })
+    expect(fixture.providers.getForUrl).toHaveBeenCalledOnce()
+    expect(fixture.transaction.archiveUpdateCheck.create).not.toHaveBeenCalled()
+    expect(fixture.transaction.artworkExternalRef.update).not.toHaveBeenCalled()
+  })
+
+  it('records other resolution failures and moves on to the next reference', async () => {
+    const resolve = vi
+      .fn()
+      .mockRejectedValueOnce(new ArchiveExecutorError('REMOTE_NOT_FOUND', 'Gallery removed'))
+      .mockResolvedValueOnce(resolvedArchive())
+    const fixture = createFixture({ references: [reference('ref-1'), reference('ref-2')], resolve })
+
+    const outcome = await executeArchiveUpdateCheck(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ result: { checked: 2, failed: 1, unchanged: 1 } })
+    expect(fixture.transaction.archiveUpdateCheck.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ externalRefId: 'ref-1', status: 'FAILED', errorCode: 'REMOTE_NOT_FOUND' })
+    })
+  })
+
+  it('summarizes field, tag and page count changes between snapshots', () => {
+    expect(
+      diffArchiveSourceSnapshots(
+        { titles: { display: 'A' }, rating: '4.5', tags: [{ namespace: 'artist', name: 'x' }], mediaPlan: [1] },
+        { titles: { display: 'A' }, rating: '4.7', tags: [{ namespace: 'artist', name: 'x' }], mediaPlan: [1] }
+      )
+    ).toEqual({ fields: ['rating'], tagsAdded: [], tagsRemoved: [], pageCount: { before: 1, after: 1 } })
+  })
+})
+
+function publishedHash() {
+  return hashResolvedMetadata(publishedMetadata)
+}
+
+function reference(id: string) {
+  return {
+    id,
+    providerKey: 'e-hentai',
+    externalId: '100',
+    canonicalUrl: 'https://e-hentai.org/g/100/token/',
+    metadataHash: publishedHash()
+  }
+}
+
+function createFixture(options: {
+  payload?: Partial<ArchiveUpdateCheckPayload>
+  references?: ReturnType<typeof reference>[]
+  resolve: (url: string) => Promise<ResolvedArchive>
+  storageLayoutTemplate?: string
+  currentStorageDirectory?: string | null
+}) {
+  const checkedAt = new Date('2026-09-15T00:00:00.000Z')
+  const references = options.references ?? [reference('ref-1')]
+  const transaction = {
+    $queryRawUnsafe: vi.fn().mockResolvedValue([]),
+    artworkExternalRef: {
+      findUnique: vi.fn(async ({ where }: { where: { id?: string } }) =>
+        where.id
+          ? {
+              id: where.id,
+              metadataHash: publishedHash(),
+              artwork: { archiveLifecycleState: 'ACTIVE', deletedAt: null }
+            }
+          : null
+      ),
+      update: vi.fn().mockResolvedValue({})
+    },
+    artworkSourceSnapshot: {
+      findUnique: vi.fn().mockResolvedValue({ normalizedMetadata: publishedMetadata }),
+      upsert: vi.fn().mockResolvedValue({})
+    },
+    archiveImport: {
+      findFirst: vi.fn(async ({ where }: { where: { status: unknown } }) =>
+        where.status === 'COMPLETED' ? { selectedQuality: 'DISPLAY' } : null
+      ),
+      create: vi.fn().mockResolvedValue({})
+    },
+    archiveRevision: {
+      findFirst: vi.fn().mockResolvedValue({
+        archiveImport: { storageDirectory: options.currentStorageDirectory ?? null }
+      })
+    },
+    setting: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue(options.storageLayoutTemplate ? { value: options.storageLayoutTemplate } : null)
+    },
+    archiveUpdateCheck: { create: vi.fn().mockResolvedValue({}) },
+    systemJob: { create: vi.fn().mockResolvedValue({}) },
+    systemJobEvent: { create: vi.fn().mockResolvedValue({}) }
+  }
+  const database = {
+    artworkExternalRef: {
+      findMany: vi.fn().mockResolvedValue(references),
+      findUnique: vi.fn().mockResolvedValue(null)
+    },
+    archiveImport: { findFirst: vi.fn().mockResolvedValue(null) }
+  }
+  const provider = { key: 'e-hentai', resolve: vi.fn(options.resolve), openMedia: vi.fn() }
+  const context = {
+    job: { id: 'update-check-job', attempt: 1, maxAttempts: 3 },
+    payload: { batchSize: 10, minIntervalHours: 168, autoEnqueue: false, ...options.payload },
+    signal: new AbortController().signal,
+    progress: vi.fn().mockResolvedValue(undefined),
+    enqueueChild: vi.fn(),
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    mutateInTransaction: vi.fn(async (operation: (tx: unknown) => Promise<unknown>) => operation(transaction)),
+    finalizeInTransaction: vi.fn()
+  } as unknown as ExecutionContext<ArchiveUpdateCheckPayload, EnqueuedChildJob>
+  const providers = { getForUrl: vi.fn(() => provider), getByKey: vi.fn() }
+  const dependencies = {
+    database: database as never,
+    providers: providers as never,
+    config: { scanRoot: '/archive' },
+    now: () => checkedAt
+  }
+  return { context, dependencies, database, providers, transaction, checkedAt }
+}
@@ -8,9 +8,13 @@ import type {
   FencedExecutionTransaction,
   JobExecutionOutcome
 } from '@pixishelf/job-runtime'
+import { enqueueImagePerceptualHashFollowUp } from '../maintenance/image-perceptual-hash.ts'
+import { enqueueUgoiraConversionFollowUp } from '../ugoira/conversion.ts'
 import { ArchiveExecutorError, toArchiveExecutorError } from './errors.ts'
+import { archiveMediaProviderKey } from './provider-registry.ts'
 import { publishArchiveImportInTransaction } from './publisher.ts'
 import {
+  archiveMediaType,
   buildArchiveStoragePaths,
   pathExists,
   prepareArchiveRevisionDirectory,
@@ -85,7 +89,8 @@ export async function executeArchiveImport(
       archiveImportId,
       providerKey: archiveImport.providerKey,
       creatorBucket: archiveImport.creatorBucket,
-      externalId: archiveImport.externalId
+      externalId: archiveImport.externalId,
+      storageDirectory: archiveImport.storageDirectory
     })
     if (normalizeStoredPath(archiveImport.stagingPath) !== normalizeStoredPath(paths.stagingRelativePath)) {
       throw new ArchiveExecutorError(
@@ -96,7 +101,7 @@ export async function executeArchiveImport(
     const stagingDirectory = (await pathExists(paths.finalAbsolutePath))
       ? paths.finalAbsolutePath
       : await prepareArchiveStagingDirectory(dependencies.config.scanRoot, archiveImport.stagingPath)
-    const provider = dependencies.providers.get(archiveImport.providerKey)
+    const provider = dependencies.providers.get(archiveMediaProviderKey(archiveImport))
     const controller = linkedAbortController(context.signal)
 
     try {
@@ -176,6 +181,10 @@ export async function executeArchiveImport(
     throwIfAborted(context.signal)
     await prepareArchiveRevisionDirectory(paths)
     throwIfAborted(context.signal)
+    await enqueueImagePerceptualHashFollowUp(context)
+    if (completed.some((item) => archiveMediaType(item.mimeType) === 'ANIMATION')) {
+      await enqueueUgoiraConversionFollowUp(context)
+    }
 
     finalizationStarted = true
     return context.finalizeInTransaction<ArchiveTransaction>(async (scope) => {
@@ -4,5 +4,9 @@ export * from './maintenance-executor.ts'
 export * from './provider-registry.ts'
 export * from './provider-governor.ts'
 export * from './resolver-executor.ts'
+export * from './storage-layout.ts'
+export * from './update-check-executor.ts'
 export * from './providers/e-hentai.ts'
+export * from './providers/local-manifest.ts'
+export * from './providers/pixiv.ts'
 export * from './types.ts'
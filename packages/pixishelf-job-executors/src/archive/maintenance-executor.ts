@@ -13,12 +13,16 @@ import type {
   FencedExecutionTransaction,
   JobExecutionOutcome
 } from '@pixishelf/job-runtime'
+import { enqueueUgoiraConversionFollowUp } from '../ugoira/conversion.ts'
 import { ArchiveExecutorError } from './errors.ts'
+import { restoreArchiveRevisionInTransaction, type ArchiveRevisionMediaSnapshotItem } from './publisher.ts'
 import {
+  archiveMediaType,
   buildArchiveStoragePaths,
   pathExists,
   resolveCreatablePathWithinRoot,
-  resolveExistingPathWithinRoot
+  resolveExistingPathWithinRoot,
+  validateArchiveStoredMedia
 } from './storage.ts'
 import type { ArchiveTransaction } from './types.ts'
 
@@ -30,6 +34,7 @@ type ArchiveMaintenanceResult =
   | { action: 'TRASH_ARCHIVE' | 'RESTORE_ARCHIVE'; artworkId: number }
   | { action: 'PURGE_ARCHIVE'; artworkId: number }
   | { action: 'RECONCILE'; discovered: number; materialized: number; reused: number; skipped: number }
+  | { action: 'RESTORE_REVISION'; artworkId: number; revisionId: string; previousRevisionId: string | null }
 
 const ACTIVE_MAINTENANCE_JOB_STATUSES = [
   'PENDING',
@@ -77,6 +82,9 @@ export async function executeArchiveMaintenance(
   if (context.payload.action === 'PURGE_ARCHIVE') {
     return executeArchivePurge(context, context.payload, dependencies)
   }
+  if (context.payload.action === 'RESTORE_REVISION') {
+    return executeRevisionRestore(context, context.payload, dependencies)
+  }
   return executeArtworkMaintenance(context, context.payload, dependencies)
 }
 
@@ -383,6 +391,90 @@ async function executeArchivePurge(
   })
 }
 
+async function executeRevisionRestore(
+  context: ArchiveMaintenanceContext,
+  payload: Extract<ArchiveMaintenancePayload, { action: 'RESTORE_REVISION' }>,
+  dependencies: ArchiveMaintenanceExecutorDependencies
+) {
+  const prepared = await context.mutateInTransaction<
+    ArchiveTransaction,
+    { revisionId: string; archivePath: string; media: ArchiveRevisionMediaSnapshotItem[] }
+  >(async (transaction) => {
+    const restore = await transaction.archiveRevisionRestore.findUnique({ where: { id: payload.restoreId } })
+    if (!restore || restore.artworkId !== payload.artworkId || restore.completedAt) {
+      throw stateChanged('Archive revision restore intent no longer exists')
+    }
+    return loadRestorableRevision(transaction, payload.artworkId, restore.toRevisionId)
+  })
+
+  // 逐页按修订快照里的 SHA-256 重新校验目录内容，被改动或丢失的历史文件不能回滚成当前版本。
+  throwIfAborted(context.signal)
+  const directory = await resolveExistingPathWithinRoot(dependencies.config.scanRoot, prepared.archivePath)
+  await validateArchiveStoredMedia(
+    directory,
+    prepared.media.map((item) => ({
+      stagedPath: item.path,
+      sha256: item.sha256,
+      byteCount: item.size === null ? null : BigInt(item.size)
+    }))
+  )
+  await context.progress({ progress: 80, stage: 'RESTORE_REVISION', message: 'Archive revision media verified' })
+  // 回滚会重建图片行，动图的转换结果随旧行一起失效，需要重新转换。
+  if (prepared.media.some((item) => archiveMediaType(item.mimeType) === 'ANIMATION')) {
+    await enqueueUgoiraConversionFollowUp(context)
+  }
+
+  throwIfAborted(context.signal)
+  const now = (dependencies.now ?? (() => new Date()))()
+  return context.finalizeInTransaction<ArchiveTransaction>(async (scope) => {
+    // 与发布共用同一把锁：校验期间若有新版本发布或作品进入回收站，按最新状态重新判定。
+    await lockArchivePublication(scope.transaction)
+    await loadRestorableRevision(scope.transaction, payload.artworkId, prepared.revisionId)
+    const { previousRevisionId } = await restoreArchiveRevisionInTransaction(scope.transaction, {
+      artworkId: payload.artworkId,
+      revisionId: prepared.revisionId
+    })
+    const changed = await scope.transaction.archiveRevisionRestore.updateMany({
+      where: { id: payload.restoreId, completedAt: null },
+      data: { fromRevisionId: previousRevisionId, completedAt: now }
+    })
+    if (changed.count !== 1) throw stateChanged('Archive revision restore changed before finalization')
+    await scope.complete({
+      result: {
+        action: 'RESTORE_REVISION',
+        artworkId: payload.artworkId,
+        revisionId: prepared.revisionId,
+        previousRevisionId
+      },
+      message: 'Archive revision restored as current'
+    })
+  })
+}
+
+async function loadRestorableRevision(transaction: ArchiveTransaction, artworkId: number, revisionId: string) {
+  const artwork = await transaction.artwork.findUnique({ where: { id: artworkId } })
+  if (
+    !artwork ||
+    artwork.createdVia !== 'URL_ARCHIVE' ||
+    artwork.archiveLifecycleState !== 'ACTIVE' ||
+    artwork.deletedAt
+  ) {
+    throw stateChanged('Archive artwork is not active')
+  }
+  const revision = await transaction.archiveRevision.findUnique({ where: { id: revisionId } })
+  if (!revision || revision.artworkId !== artworkId || revision.trashPath) {
+    throw stateChanged('Archive revision is not restorable')
+  }
+  if (!Array.isArray(revision.mediaSnapshot) || revision.mediaSnapshot.length === 0) {
+    throw new ArchiveExecutorError('MEDIA_INVALID', 'Archive revision has no media snapshot')
+  }
+  return {
+    revisionId: revision.id,
+    archivePath: revision.archivePath,
+    media: revision.mediaSnapshot as unknown as ArchiveRevisionMediaSnapshotItem[]
+  }
+}
+
 async function executeStagingCleanup(
   context: ArchiveMaintenanceContext,
   payload: Extract<ArchiveMaintenancePayload, { action: 'CLEAN_STAGING' }>,
@@ -390,7 +482,14 @@ async function executeStagingCleanup(
 ) {
   const archiveImport = await context.mutateInTransaction<
     ArchiveTransaction,
-    { id: string; stagingPath: string; providerKey: string; creatorBucket: string; externalId: string }
+    {
+      id: string
+      stagingPath: string
+      providerKey: string
+      creatorBucket: string
+      externalId: string
+      storageDirectory: string | null
+    }
   >(async (transaction) => {
     const current = await transaction.archiveImport.findUnique({ where: { id: payload.archiveImportId } })
     if (!current || !current.cleanupRequestedAt) {
@@ -410,7 +509,8 @@ async function executeStagingCleanup(
     archiveImportId: archiveImport.id,
     providerKey: archiveImport.providerKey,
     creatorBucket: archiveImport.creatorBucket,
-    externalId: archiveImport.externalId
+    externalId: archiveImport.externalId,
+    storageDirectory: archiveImport.storageDirectory
   })
 
   throwIfAborted(context.signal)
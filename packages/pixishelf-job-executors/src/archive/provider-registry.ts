@@ -1,5 +1,7 @@
 import { ArchiveExecutorError } from './errors.ts'
 import { EHentaiProvider } from './providers/e-hentai.ts'
+import { LocalManifestProvider } from './providers/local-manifest.ts'
+import { PixivProvider } from './providers/pixiv.ts'
 import type { ArchiveMediaProvider, ArchiveProvider, ArchiveProviderRegistry } from './types.ts'
 
 export class DefaultArchiveMediaProviderRegistry implements ArchiveProviderRegistry {
@@ -39,8 +41,27 @@ export class DefaultArchiveMediaProviderRegistry implements ArchiveProviderRegis
   }
 }
 
-export function createDefaultArchiveMediaProviderRegistry(): ArchiveProviderRegistry {
-  return new DefaultArchiveMediaProviderRegistry([new EHentaiProvider()])
+export function createDefaultArchiveMediaProviderRegistry(
+  options: { manifestRoot?: string | null } = {}
+): ArchiveProviderRegistry {
+  return new DefaultArchiveMediaProviderRegistry([
+    new EHentaiProvider(),
+    new PixivProvider(),
+    new LocalManifestProvider(options.manifestRoot ?? null)
+  ])
+}
+
+/**
+ * Imports resolved from a local manifest keep the real source identity as
+ * providerKey; their locator names the provider that can actually read media.
+ */
+export function archiveMediaProviderKey(archiveImport: { providerKey: string; locator: unknown }): string {
+  const locator = archiveImport.locator
+  if (locator && typeof locator === 'object' && !Array.isArray(locator)) {
+    const mediaProviderKey = (locator as Record<string, unknown>).mediaProviderKey
+    if (typeof mediaProviderKey === 'string' && mediaProviderKey) return mediaProviderKey
+  }
+  return archiveImport.providerKey
 }
 
 function isArchiveProvider(provider: ArchiveMediaProvider): provider is ArchiveProvider {
@@ -0,0 +1,463 @@
+import { createReadStream } from 'node:fs'
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import type { Readable } from 'node:stream'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { ArchiveError, withArchiveErrorContext } from '../errors.ts'
+import { resolveExistingPathWithinRoot } from '../storage.ts'
+import type {
+  ArchiveDownloadContext,
+  ArchiveProvider,
+  RemoteMedia,
+  ResolvedArchive,
+  ResolvedMedia,
+  SourceTagValue
+} from '../types.ts'
+import { chooseCreatorBucket } from './e-hentai.ts'
+
+export const LOCAL_MANIFEST_PROVIDER_KEY = 'local-manifest'
+
+const GALLERY_MANIFEST_NAME = 'info.json'
+const MAX_MANIFEST_BYTES = 4 * 1024 * 1024
+const MAX_MEDIA_FILES = 2_000
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.avif': 'image/avif',
+  '.bmp': 'image/bmp',
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+}
+// gallery-dl 的 category 与站内已有 Provider 的对应关系；其余站点沿用 category 作为来源标识。
+const CATEGORY_PROVIDER_KEYS: Record<string, string> = {
+  pixiv: 'pixiv',
+  exhentai: 'e-hentai',
+  'e-hentai': 'e-hentai'
+}
+const X_RESTRICT_LABELS: Record<number, string> = { 0: 'AllAges', 1: 'R-18', 2: 'R-18G' }
+
+type GalleryDlManifest = Record<string, unknown>
+
+interface LocalMediaFile {
+  name: string
+  relativePath: string
+  bytes: number
+  sidecar: GalleryDlManifest | null
+}
+
+/**
+ * 本地 gallery-dl 下载目录
+ * @description 接收 ARCHIVE_MANIFEST_ROOT 内目录或 sidecar 的 file:// 地址，把 sidecar 映射为真实来源身份；
+ * 媒体从本地读取，但仍走归档任务的校验、发布与去重流程。
+ */
+export class LocalManifestProvider implements ArchiveProvider {
+  readonly key = LOCAL_MANIFEST_PROVIDER_KEY
+  readonly requestGovernance = 'PER_REQUEST' as const
+  private readonly root: string | null
+
+  constructor(root: string | null | undefined = process.env.ARCHIVE_MANIFEST_ROOT) {
+    this.root = root?.trim() ? path.resolve(root.trim()) : null
+  }
+
+  accepts(url: URL): boolean {
+    if (url.protocol !== 'file:' || url.hostname || !this.root) return false
+    const relative = path.relative(this.root, fileURLToPath(url))
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+  }
+
+  async resolve(input: string): Promise<ResolvedArchive> {
+    // 只读取本机文件，不经过 runResolveRequest：本地目录没有远端速率限制。
+    const root = this.requireRoot()
+    const target = await this.resolveTarget(input)
+    const targetStat = await stat(target)
+    const directory = targetStat.isDirectory() ? target : path.dirname(target)
+    const directoryFiles = await listMediaFiles(root, directory)
+    let galleryManifest: GalleryDlManifest | null
+    // 身份来自逐文件 sidecar 时只收同一作品的文件：gallery-dl 的 Pixiv 默认布局把画师全部作品放在同一目录。
+    let identityFromSidecars: boolean
+    if (targetStat.isFile()) {
+      galleryManifest = await readManifest(target)
+      identityFromSidecars = path.basename(target) !== GALLERY_MANIFEST_NAME
+    } else {
+      galleryManifest = await readOptionalManifest(directory, GALLERY_MANIFEST_NAME)
+      identityFromSidecars = !galleryManifest
+      galleryManifest ??= singleSidecarManifest(directoryFiles)
+    }
+    if (!galleryManifest) {
+      throw new ArchiveError(
+        'REMOTE_RESPONSE_INVALID',
+        '目录中没有 gallery-dl 元数据文件（info.json 或 *.json sidecar）'
+      )
+    }
+    const identityKey = manifestIdentityKey(galleryManifest)
+    const files = identityFromSidecars
+      ? directoryFiles.filter((file) => file.sidecar && manifestIdentityKey(file.sidecar) === identityKey)
+      : directoryFiles
+    if (files.length === 0) throw new ArchiveError('REMOTE_NOT_FOUND', '目录中没有可归档的图片文件')
+    if (files.length > MAX_MEDIA_FILES) {
+      throw new ArchiveError('REMOTE_RESPONSE_INVALID', `作品包含超过 ${MAX_MEDIA_FILES} 个图片文件`)
+    }
+
+    const category = cleanText(galleryManifest.category).toLowerCase()
+    const providerKey = toProviderKey(category)
+    const identity = resolveIdentity(providerKey, galleryManifest, directory)
+    const mapped = providerKey === 'pixiv' ? mapPixivManifest(galleryManifest) : mapGalleryManifest(galleryManifest)
+    const title = mapped.title || path.basename(directory)
+    const aliases = mapped.aliases.filter((value) => value !== title)
+    const postedAt = parseGalleryDlDate(galleryManifest.date)
+    const directoryPath = path.relative(root, directory).split(path.sep).join('/')
+    const creatorBucket = chooseCreatorBucket(
+      mapped.artist ? [{ namespace: 'artist', name: mapped.artist.name }] : mapped.tags
+    )
+    const normalizedMetadata = {
+      schemaVersion: 1,
+      source: { kind: 'LOCAL_MANIFEST', format: 'gallery-dl', category, directory: directoryPath },
+      externalId: identity.externalId,
+      titles: { display: title, aliases },
+      description: mapped.description,
+      category: mapped.category,
+      uploader: mapped.uploader,
+      artist: mapped.artist,
+      postedAt: postedAt?.toISOString() ?? null,
+      pageCount: files.length,
+      aiGenerated: mapped.aiGenerated,
+      xRestrict: mapped.xRestrict,
+      series: mapped.series,
+      tags: mapped.tags,
+      relationships: [],
+      mediaPlan: files.map((file, index) => ({ index, path: file.relativePath, bytes: file.bytes }))
+    }
+    const warnings: string[] = []
+    const missingSidecars = files.filter((file) => !file.sidecar).length
+    if (missingSidecars > 0 && files.length > 1)
+      warnings.push(`${missingSidecars} 个文件没有独立 sidecar，按文件名排序`)
+
+    return {
+      providerKey,
+      externalId: identity.externalId,
+      canonicalUrl: identity.canonicalUrl,
+      locator: { mediaProviderKey: LOCAL_MANIFEST_PROVIDER_KEY, directory: directoryPath },
+      title,
+      titleAliases: aliases,
+      description: mapped.description,
+      category: mapped.category,
+      uploader: mapped.uploader,
+      thumbnailUrl: null,
+      postedAt,
+      tags: mapped.tags,
+      relationships: [],
+      media: files.map((file, index) => ({
+        index,
+        sourcePageUrl: pathToFileURL(path.join(root, file.relativePath)).href,
+        locator: { path: file.relativePath },
+        expectedFilename: path.parse(file.name).name
+      })),
+      normalizedMetadata,
+      rawMetadata: galleryManifest,
+      warnings,
+      creatorBucket
+    }
+  }
+
+  async openMedia(item: ResolvedMedia, context: ArchiveDownloadContext): Promise<RemoteMedia> {
+    const root = this.requireRoot()
+    const relativePath = typeof item.locator.path === 'string' ? item.locator.path : null
+    if (!relativePath) {
+      throw new ArchiveError('REMOTE_RESPONSE_INVALID', '本地媒体定位信息缺失，请重新解析目录', {
+        stage: 'MEDIA_REQUEST'
+      })
+    }
+    try {
+      // 受治理的注册表要求媒体流经过下载许可；本地文件同样走这条路径，避免绕过任务级的并发上限。
+      const opened = await runDownloadStreamRequest(context, async () => {
+        const absolutePath = await resolveExistingPathWithinRoot(root, relativePath)
+        const fileStat = await stat(absolutePath)
+        return { stream: createReadStream(absolutePath), bytes: fileStat.size }
+      })
+      return {
+        stream: opened.stream,
+        mimeType: IMAGE_MIME_TYPES[path.extname(relativePath).toLowerCase()] ?? null,
+        contentLength: opened.bytes,
+        originalFilename: path.posix.basename(relativePath),
+        quality: 'ORIGINAL',
+        remoteHost: null
+      }
+    } catch (error) {
+      throw withArchiveErrorContext(toLocalFileError(error), { stage: 'MEDIA_REQUEST' })
+    }
+  }
+
+  private requireRoot(): string {
+    if (!this.root) throw new ArchiveError('UNSUPPORTED_PROVIDER', '未配置 ARCHIVE_MANIFEST_ROOT，无法导入本地目录')
+    return this.root
+  }
+
+  private async resolveTarget(input: string): Promise<string> {
+    let url: URL
+    try {
+      url = new URL(input)
+    } catch (error) {
+      throw new ArchiveError('INVALID_URL', '本地目录地址格式无效', { cause: error })
+    }
+    if (!this.accepts(url)) throw new ArchiveError('INVALID_URL', '仅支持 ARCHIVE_MANIFEST_ROOT 内的 file:// 地址')
+    try {
+      return await resolveExistingPathWithinRoot(this.requireRoot(), fileURLToPath(url))
+    } catch (error) {
+      throw toLocalFileError(error)
+    }
+  }
+}
+
+function runDownloadStreamRequest<T extends { stream: Readable }>(
+  context: ArchiveDownloadContext,
+  operation: () => Promise<T>
+): Promise<T> {
+  return context.runDownloadStreamRequest ? context.runDownloadStreamRequest(operation) : operation()
+}
+
+async function listMediaFiles(root: string, directory: string): Promise<LocalMediaFile[]> {
+  const entries = await readdir(directory, { withFileTypes: true })
+  const names = new Set(entries.filter((entry) => entry.isFile()).map((entry) => entry.name))
+  const images = Array.from(names).filter((name) => IMAGE_MIME_TYPES[path.extname(name).toLowerCase()])
+  const files: LocalMediaFile[] = []
+  for (const name of images) {
+    // gallery-dl --write-metadata 默认写 {filename}.{extension}.json，部分配置只写 {filename}.json。
+    const sidecarName = [`${name}.json`, `${path.parse(name).name}.json`].find((candidate) => names.has(candidate))
+    const fileStat = await stat(path.join(directory, name))
+    files.push({
+      name,
+      relativePath: path.relative(root, path.join(directory, name)).split(path.sep).join('/'),
+      bytes: fileStat.size,
+      sidecar: sidecarName ? await readManifest(path.join(directory, sidecarName)) : null
+    })
+  }
+  return files.sort(compareMediaFiles)
+}
+
+/**
+ * 目录没有 info.json 时以 sidecar 作为作品元数据；sidecar 指向多个作品时必须指定其中一个 sidecar。
+ */
+function singleSidecarManifest(files: LocalMediaFile[]): GalleryDlManifest | null {
+  const manifests = new Map<string | null, GalleryDlManifest>()
+  for (const file of files) {
+    if (file.sidecar && !manifests.has(manifestIdentityKey(file.sidecar))) {
+      manifests.set(manifestIdentityKey(file.sidecar), file.sidecar)
+    }
+  }
+  if (manifests.size > 1) {
+    throw new ArchiveError(
+      'REMOTE_RESPONSE_INVALID',
+      `目录包含 ${manifests.size} 个作品的 sidecar，请指定其中一个作品的 .json 元数据文件`
+    )
+  }
+  return manifests.values().next().value ?? null
+}
+
+/** 与 resolveIdentity 取同一字段，用于判断 sidecar 是否属于同一作品 */
+function manifestIdentityKey(manifest: GalleryDlManifest): string | null {
+  const category = cleanText(manifest.category).toLowerCase()
+  const providerKey = CATEGORY_PROVIDER_KEYS[category] ?? category
+  const id =
+    providerKey === 'pixiv'
+      ? numericId(manifest.id)
+      : providerKey === 'e-hentai'
+        ? numericId(manifest.gid)
+        : cleanText(String(manifest.gallery_id ?? manifest.id ?? ''))
+  return id ? `${providerKey}:${id}` : null
+}
+
+function compareMediaFiles(left: LocalMediaFile, right: LocalMediaFile) {
+  const leftNumber = integerOrNull(left.sidecar?.num)
+  const rightNumber = integerOrNull(right.sidecar?.num)
+  if (leftNumber !== null && rightNumber !== null && leftNumber !== rightNumber) return leftNumber - rightNumber
+  return left.name.localeCompare(right.name, undefined, { numeric: true })
+}
+
+async function readOptionalManifest(directory: string, name: string): Promise<GalleryDlManifest | null> {
+  try {
+    return await readManifest(path.join(directory, name))
+  } catch (error) {
+    if (error instanceof ArchiveError && error.code === 'REMOTE_NOT_FOUND') return null
+    throw error
+  }
+}
+
+async function readManifest(file: string): Promise<GalleryDlManifest> {
+  if (path.extname(file).toLowerCase() !== '.json') {
+    throw new ArchiveError('INVALID_URL', '请提供目录或 gallery-dl 的 .json 元数据文件')
+  }
+  let raw: Buffer
+  try {
+    if ((await stat(file)).size > MAX_MANIFEST_BYTES) {
+      throw new ArchiveError(
+        'REMOTE_RESPONSE_INVALID',
+        `元数据文件超过 ${MAX_MANIFEST_BYTES} 字节: ${path.basename(file)}`
+      )
+    }
+    raw = await readFile(file)
+  } catch (error) {
+    throw toLocalFileError(error)
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw.toString('utf8'))
+  } catch (error) {
+    throw new ArchiveError('REMOTE_RESPONSE_INVALID', `元数据文件不是有效 JSON: ${path.basename(file)}`, {
+      cause: error
+    })
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ArchiveError('REMOTE_RESPONSE_INVALID', `元数据文件格式无效: ${path.basename(file)}`)
+  }
+  return parsed as GalleryDlManifest
+}
+
+function toProviderKey(category: string): string {
+  const mapped = CATEGORY_PROVIDER_KEYS[category]
+  if (mapped) return mapped
+  if (!/^[a-z0-9][a-z0-9-]{0,49}$/.test(category) || category === LOCAL_MANIFEST_PROVIDER_KEY) {
+    throw new ArchiveError('REMOTE_RESPONSE_INVALID', '元数据缺少有效的 category，无法确定来源站点')
+  }
+  return category
+}
+
+function resolveIdentity(providerKey: string, manifest: GalleryDlManifest, directory: string) {
+  if (providerKey === 'pixiv') {
+    const illustId = numericId(manifest.id)
+    if (!illustId) throw new ArchiveError('REMOTE_RESPONSE_INVALID', 'Pixiv 元数据缺少作品 id')
+    return { externalId: illustId, canonicalUrl: `https://www.pixiv.net/artworks/${illustId}` }
+  }
+  if (providerKey === 'e-hentai') {
+    const gid = numericId(manifest.gid)
+    const token = cleanText(manifest.token)
+    if (!gid) throw new ArchiveError('REMOTE_RESPONSE_INVALID', 'E-Hentai 元数据缺少 gid')
+    return {
+      externalId: gid,
+      canonicalUrl: token ? `https://e-hentai.org/g/${gid}/${token}/` : pathToFileURL(directory).href
+    }
+  }
+  const externalId = cleanText(String(manifest.gallery_id ?? manifest.id ?? ''))
+  if (!externalId || externalId.length > 200) {
+    throw new ArchiveError('REMOTE_RESPONSE_INVALID', '元数据缺少 gallery_id 或 id，无法确定来源作品')
+  }
+  const galleryUrl = cleanText(manifest.gallery_url) || cleanText(manifest.post_url)
+  return {
+    externalId,
+    canonicalUrl: /^https:\/\//i.test(galleryUrl) ? galleryUrl : pathToFileURL(directory).href
+  }
+}
+
+function mapPixivManifest(manifest: GalleryDlManifest) {
+  const user = objectOrNull(manifest.user)
+  const userName = cleanText(user?.name)
+  const userId = numericId(user?.id)
+  const series = objectOrNull(manifest.series)
+  const seriesId = numericId(series?.id)
+  const aiType = integerOrNull(manifest.illust_ai_type)
+  const title = cleanText(manifest.title)
+  return {
+    title,
+    aliases: [],
+    description: cleanText(manifest.caption) || null,
+    category: cleanText(manifest.type) || null,
+    uploader: userName || null,
+    artist: userName && userId ? { name: userName, userId, account: cleanText(user?.account) || null } : null,
+    aiGenerated: aiType === 2 ? true : aiType === 1 ? false : null,
+    xRestrict: X_RESTRICT_LABELS[Number(manifest.x_restrict)] ?? null,
+    series: seriesId
+      ? {
+          source: 'PIXIV',
+          externalId: seriesId,
+          title: cleanText(series?.title) || `Pixiv series ${seriesId}`,
+          order: null
+        }
+      : null,
+    // Pixiv 标签本身可能含冒号（如 Re:ゼロ），不拆命名空间。
+    tags: uniqueTags(stringList(manifest.tags).map((name) => ({ namespace: 'general', name })))
+  }
+}
+
+function mapGalleryManifest(manifest: GalleryDlManifest) {
+  const title = cleanText(manifest.title_jpn) || cleanText(manifest.title) || cleanText(manifest.gallery_title)
+  const tags = stringList(manifest.tags).map(parseNamespacedTag)
+  // gallery-dl 的 tags=true 选项会额外输出 tags_{namespace} 列表。
+  for (const [key, value] of Object.entries(manifest)) {
+    const namespace = key.match(/^tags_([a-z]+)$/)?.[1]
+    if (namespace) tags.push(...stringList(value).map((name) => ({ namespace, name })))
+  }
+  return {
+    title,
+    aliases: Array.from(new Set([cleanText(manifest.title), cleanText(manifest.title_jpn)].filter(Boolean))),
+    description: cleanText(manifest.description) || null,
+    category: cleanText(manifest.eh_category) || cleanText(manifest.subcategory) || null,
+    uploader: cleanText(manifest.uploader) || null,
+    artist: null,
+    aiGenerated: null,
+    xRestrict: null,
+    series: null,
+    tags: uniqueTags(tags)
+  }
+}
+
+function parseNamespacedTag(raw: string): SourceTagValue {
+  const match = raw.match(/^([a-z]+):(.+)$/)
+  return match ? { namespace: match[1]!, name: cleanText(match[2]) } : { namespace: 'general', name: raw }
+}
+
+function uniqueTags(tags: SourceTagValue[]): SourceTagValue[] {
+  const unique = new Map<string, SourceTagValue>()
+  for (const tag of tags) {
+    if (tag.name) unique.set(`${tag.namespace}:${tag.name}`, tag)
+  }
+  return Array.from(unique.values())
+}
+
+function toLocalFileError(error: unknown) {
+  if (error instanceof ArchiveError && error.code !== 'MEDIA_INVALID') return error
+  if (error instanceof ArchiveError) {
+    return new ArchiveError('INVALID_URL', '本地路径超出 ARCHIVE_MANIFEST_ROOT', { cause: error })
+  }
+  const code = (error as NodeJS.ErrnoException | undefined)?.code
+  if (code === 'ENOENT' || code === 'ENOTDIR') {
+    return new ArchiveError('REMOTE_NOT_FOUND', '本地目录或文件不存在', { cause: error })
+  }
+  if (code === 'EACCES' || code === 'EPERM') {
+    return new ArchiveError('REMOTE_FORBIDDEN', '没有读取本地目录的权限', { cause: error })
+  }
+  return error
+}
+
+/** gallery-dl 的 date 字段是不带时区的 UTC 时间，如 2024-05-01 12:00:00 */
+function parseGalleryDlDate(value: unknown): Date | null {
+  const text = cleanText(value)
+  if (!text) return null
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text) ? `${text.replace(' ', 'T')}Z` : text)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((entry) => {
+    const text = cleanText(typeof entry === 'object' && entry ? (entry as { name?: unknown }).name : entry)
+    return text ? [text] : []
+  })
+}
+
+function objectOrNull(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+}
+
+function numericId(value: unknown): string | null {
+  const text = typeof value === 'number' ? String(value) : cleanText(value)
+  return /^\d+$/.test(text) ? text : null
+}
+
+function cleanText(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : ''
+}
+
+function integerOrNull(value: unknown): number | null {
+  const number = Number(value)
+  return value !== null && value !== undefined && value !== '' && Number.isSafeInteger(number) ? number : null
+}
@@ -0,0 +1,424 @@
+import path from 'node:path'
+import type { Readable } from 'node:stream'
+import { parseUgoiraFrames } from '../../ugoira/manifest.ts'
+import { ArchiveError, withArchiveErrorContext } from '../errors.ts'
+import { SafeHttpClient, assertSuccessStatus, remoteHostForUrl, type ArchiveProxyEnvironment } from '../safe-http.ts'
+import type {
+  ArchiveDownloadContext,
+  ArchiveProvider,
+  ArchiveProviderContext,
+  RemoteMedia,
+  ResolvedArchive,
+  ResolvedMedia,
+  SourceTagValue
+} from '../types.ts'
+import { chooseCreatorBucket } from './e-hentai.ts'
+
+const PROVIDER_KEY = 'pixiv'
+const SITE_HOSTS = ['www.pixiv.net', 'pixiv.net']
+const SITE_ORIGIN = 'https://www.pixiv.net'
+const MEDIA_HOST_SUFFIX = 'pximg.net'
+const MAX_PAGES = 200
+const ILLUST_TYPES: Record<number, PixivIllustType> = { 0: 'illust', 1: 'manga', 2: 'ugoira' }
+const X_RESTRICT_LABELS: Record<number, string> = { 0: 'AllAges', 1: 'R-18', 2: 'R-18G' }
+
+export type PixivIllustType = 'illust' | 'manga' | 'ugoira'
+
+export type PixivHttpClient = Pick<SafeHttpClient, 'request' | 'text' | 'json'>
+
+interface PixivAjaxResponse<T> {
+  error?: boolean
+  message?: string
+  body?: T
+}
+
+interface PixivImageUrls {
+  original?: string | null
+  regular?: string | null
+  small?: string | null
+  thumb?: string | null
+  thumb_mini?: string | null
+}
+
+interface PixivIllustBody {
+  illustId: string
+  illustTitle?: string
+  illustComment?: string
+  illustType?: number
+  createDate?: string
+  uploadDate?: string
+  userId?: string
+  userName?: string
+  userAccount?: string
+  pageCount?: number
+  width?: number
+  height?: number
+  aiType?: number
+  xRestrict?: number
+  sl?: number
+  bookmarkCount?: number
+  urls?: PixivImageUrls
+  tags?: { tags?: Array<{ tag?: string; translation?: { en?: string } }> }
+  seriesNavData?: { seriesType?: string; seriesId?: string | number; title?: string; order?: number } | null
+  [key: string]: unknown
+}
+
+interface PixivPageBody {
+  urls?: PixivImageUrls
+  width?: number
+  height?: number
+}
+
+interface PixivUgoiraMetaBody {
+  src?: string
+  originalSrc?: string
+  mime_type?: string
+  frames?: Array<{ file?: string; delay?: number }>
+}
+
+/**
+ * Pixiv 插画、漫画与动图作品
+ * @description 元数据来自站点公开的 ajax 接口；R-18 作品需要通过 PIXIV_ARCHIVE_SESSION 提供登录会话。
+ * 动图归档完整的帧压缩包，帧延迟随页面下载一并保存，发布后由 UGOIRA_CONVERSION 转为可播放的动画。
+ */
+export class PixivProvider implements ArchiveProvider {
+  readonly key = PROVIDER_KEY
+  readonly requestGovernance = 'PER_REQUEST' as const
+
+  constructor(
+    private readonly http: PixivHttpClient = new SafeHttpClient(['pixiv.net', MEDIA_HOST_SUFFIX], process.env),
+    private readonly environment: ArchiveProxyEnvironment = process.env
+  ) {}
+
+  accepts(url: URL): boolean {
+    return url.protocol === 'https:' && SITE_HOSTS.includes(url.hostname.toLowerCase()) && parseIllustId(url) !== null
+  }
+
+  async resolve(input: string, context: ArchiveProviderContext = {}): Promise<ResolvedArchive> {
+    const illustId = parseSupportedUrl(input)
+    const canonicalUrl = `${SITE_ORIGIN}/artworks/${illustId}`
+    const illust = await this.fetchAjax<PixivIllustBody>(`/ajax/illust/${illustId}?lang=ja`, canonicalUrl, context)
+    if (String(illust.illustId) !== illustId) {
+      throw new ArchiveError('REMOTE_NOT_FOUND', 'Pixiv 接口未返回目标作品')
+    }
+    const illustType = ILLUST_TYPES[Number(illust.illustType)] ?? 'illust'
+    const ugoira =
+      illustType === 'ugoira'
+        ? await this.fetchAjax<PixivUgoiraMetaBody>(`/ajax/illust/${illustId}/ugoira_meta`, canonicalUrl, context)
+        : null
+    const ugoiraFrames = ugoira ? parseUgoiraFrames(ugoira) : null
+    if (ugoira && !ugoiraFrames) {
+      throw new ArchiveError('REMOTE_RESPONSE_INVALID', 'Pixiv 动图缺少有效的帧延迟信息；未创建不完整任务', {
+        recoverable: true
+      })
+    }
+    const pages = ugoira ? [this.toUgoiraPage(ugoira)] : await this.fetchPages(illustId, illust, canonicalUrl, context)
+
+    const title = cleanText(illust.illustTitle) || `Pixiv ${illustId}`
+    const description = typeof illust.illustComment === 'string' ? illust.illustComment.trim() || null : null
+    const userName = cleanText(illust.userName) || null
+    const userId = cleanText(illust.userId) || null
+    const { tags, translations } = normalizeTags(illust.tags?.tags ?? [])
+    const postedAt = parseDate(illust.createDate)
+    const series = normalizeSeries(illust.seriesNavData)
+    const aiGenerated = normalizeAiType(illust.aiType)
+    const xRestrict = X_RESTRICT_LABELS[Number(illust.xRestrict)] ?? null
+    const thumbnailUrl = cleanText(illust.urls?.thumb) || cleanText(illust.urls?.small) || null
+    const normalizedMetadata = {
+      schemaVersion: 1,
+      illustId,
+      illustType,
+      titles: { display: title, aliases: [] },
+      description,
+      category: illustType,
+      uploader: userName,
+      artist: userName && userId ? { name: userName, userId, account: cleanText(illust.userAccount) || null } : null,
+      thumbnailUrl,
+      postedAt: postedAt?.toISOString() ?? null,
+      uploadedAt: parseDate(illust.uploadDate)?.toISOString() ?? null,
+      pageCount: pages.length,
+      aiGenerated,
+      pixivAiType: integerOrNull(illust.aiType),
+      xRestrict,
+      sanityLevel: integerOrNull(illust.sl),
+      series,
+      tags,
+      tagTranslations: translations,
+      relationships: [],
+      ugoira: ugoira ? normalizeUgoira(ugoira) : null,
+      mediaPlan: pages.map((page, index) => ({ index, originalUrl: page.originalUrl, displayUrl: page.displayUrl }))
+    }
+    const warnings: string[] = []
+    if (pages.some((page) => !page.originalUrl)) warnings.push('部分页面没有原图地址，只能以展示质量归档')
+
+    return {
+      providerKey: PROVIDER_KEY,
+      externalId: illustId,
+      canonicalUrl,
+      locator: { illustId },
+      title,
+      titleAliases: [],
+      description,
+      category: illustType,
+      uploader: userName,
+      thumbnailUrl,
+      postedAt,
+      tags,
+      relationships: [],
+      media: pages.map((page, index) => ({
+        index,
+        sourcePageUrl: canonicalUrl,
+        locator: {
+          illustId,
+          pageIndex: index,
+          originalUrl: page.originalUrl,
+          displayUrl: page.displayUrl,
+          ...(ugoiraFrames ? { ugoiraFrames } : {})
+        },
+        expectedFilename: ugoiraFrames ? `${illustId}_ugoira` : `${illustId}_p${index}`
+      })),
+      normalizedMetadata,
+      rawMetadata: { illust, ...(ugoira ? { ugoira } : {}) },
+      warnings,
+      creatorBucket: chooseCreatorBucket(userName ? [{ namespace: 'artist', name: userName }] : [])
+    }
+  }
+
+  async openMedia(item: ResolvedMedia, context: ArchiveDownloadContext): Promise<RemoteMedia> {
+    const originalUrl = typeof item.locator.originalUrl === 'string' ? item.locator.originalUrl : null
+    const displayUrl = typeof item.locator.displayUrl === 'string' ? item.locator.displayUrl : null
+    const selectedUrl = context.quality === 'ORIGINAL' ? originalUrl : displayUrl
+    const ugoiraFrames = item.locator.ugoiraFrames === undefined ? null : parseUgoiraFrames(item.locator.ugoiraFrames)
+    if (item.locator.ugoiraFrames !== undefined && !ugoiraFrames) {
+      throw new ArchiveError('REMOTE_RESPONSE_INVALID', 'Pixiv 动图帧延迟信息无效，请重新解析作品', {
+        stage: 'MEDIA_REQUEST'
+      })
+    }
+    if (!selectedUrl) {
+      if (context.quality === 'ORIGINAL' && displayUrl) {
+        throw new ArchiveError('ORIGINAL_UNAVAILABLE', 'Pixiv 未提供该页原图；请明确选择展示质量后继续', {
+          recoverable: true,
+          pause: true,
+          decisionCode: 'USE_DISPLAY_QUALITY',
+          stage: 'MEDIA_REQUEST'
+        })
+      }
+      throw new ArchiveError('REMOTE_RESPONSE_INVALID', 'Pixiv 媒体定位信息缺失，请重新解析作品', {
+        stage: 'MEDIA_REQUEST'
+      })
+    }
+
+    try {
+      const response = await runDownloadStreamRequest(context, async () => {
+        const opened = await this.http.request(selectedUrl, {
+          ...(context.signal ? { signal: context.signal } : {}),
+          headers: { referer: `${SITE_ORIGIN}/` }
+        })
+        assertSuccessStatus(opened)
+        return opened
+      })
+      return {
+        stream: response.stream,
+        mimeType: headerValue(response.headers['content-type'])?.split(';')[0]?.trim() || null,
+        contentLength: parseContentLength(response.headers['content-length']),
+        originalFilename: filenameFromUrl(selectedUrl),
+        quality: context.quality,
+        remoteHost: remoteHostForUrl(new URL(response.url)),
+        ...(ugoiraFrames ? { ugoiraFrames } : {})
+      }
+    } catch (error) {
+      throw withArchiveErrorContext(error, {
+        stage: 'MEDIA_REQUEST',
+        remoteHost: remoteHostForUrl(new URL(selectedUrl))
+      })
+    }
+  }
+
+  private async fetchPages(
+    illustId: string,
+    illust: PixivIllustBody,
+    canonicalUrl: string,
+    context: ArchiveProviderContext
+  ): Promise<Array<{ originalUrl: string | null; displayUrl: string | null }>> {
+    const pageCount = Number(illust.pageCount ?? 1)
+    if (!Number.isSafeInteger(pageCount) || pageCount <= 0 || pageCount > MAX_PAGES) {
+      throw new ArchiveError('REMOTE_RESPONSE_INVALID', `Pixiv 作品页数无效: ${String(illust.pageCount)}`)
+    }
+    // 单页作品直接使用作品详情中的地址，避免多一次远端请求。
+    if (pageCount === 1) {
+      const page = toPageUrls(illust.urls)
+      if (!page.originalUrl && !page.displayUrl) throw restrictedWorkError(this.hasSession())
+      return [page]
+    }
+    const pages = await this.fetchAjax<PixivPageBody[]>(`/ajax/illust/${illustId}/pages?lang=ja`, canonicalUrl, context)
+    if (!Array.isArray(pages) || pages.length !== pageCount) {
+      throw new ArchiveError(
+        'REMOTE_RESPONSE_INVALID',
+        `作品声明有 ${pageCount} 页，但接口返回 ${Array.isArray(pages) ? pages.length : 0} 页；未创建不完整任务`,
+        { recoverable: true }
+      )
+    }
+    return pages.map((page) => toPageUrls(page.urls))
+  }
+
+  /** 动图只有一个页面：原图质量对应 originalSrc 的大尺寸帧包，展示质量对应 src 的小尺寸帧包 */
+  private toUgoiraPage(ugoira: PixivUgoiraMetaBody) {
+    const page = { originalUrl: cleanText(ugoira.originalSrc) || null, displayUrl: cleanText(ugoira.src) || null }
+    if (!page.originalUrl && !page.displayUrl) throw restrictedWorkError(this.hasSession())
+    return page
+  }
+
+  private async fetchAjax<T>(pathname: string, referer: string, context: ArchiveProviderContext): Promise<T> {
+    const headers: Record<string, string> = { accept: 'application/json', referer }
+    const session = this.environment.PIXIV_ARCHIVE_SESSION?.trim()
+    if (session) headers.cookie = `PHPSESSID=${session}`
+    const response = await runResolveRequest(context, () =>
+      this.http.json<PixivAjaxResponse<T>>(`${SITE_ORIGIN}${pathname}`, {
+        ...(context.signal ? { signal: context.signal } : {}),
+        headers,
+        maxBytes: 4 * 1024 * 1024
+      })
+    )
+    if (response.error || response.body === undefined || response.body === null) {
+      throw new ArchiveError('REMOTE_NOT_FOUND', `Pixiv 接口: ${cleanText(response.message) || '作品不存在或不可见'}`)
+    }
+    return response.body
+  }
+
+  private hasSession() {
+    return Boolean(this.environment.PIXIV_ARCHIVE_SESSION?.trim())
+  }
+}
+
+async function runResolveRequest<T>(context: ArchiveProviderContext, operation: () => Promise<T>): Promise<T> {
+  try {
+    return await (context.runResolveRequest ? context.runResolveRequest(operation) : operation())
+  } catch (error) {
+    if (error instanceof ArchiveError) throw error
+    if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+      throw new ArchiveError('CANCELLED', 'Pixiv 解析已取消', { cause: error, recoverable: true })
+    }
+    throw error
+  }
+}
+
+function runDownloadStreamRequest<T extends { stream: Readable }>(
+  context: ArchiveDownloadContext,
+  operation: () => Promise<T>
+): Promise<T> {
+  return context.runDownloadStreamRequest ? context.runDownloadStreamRequest(operation) : operation()
+}
+
+function parseSupportedUrl(input: string): string {
+  let url: URL
+  try {
+    url = new URL(input)
+  } catch (error) {
+    throw new ArchiveError('INVALID_URL', 'Pixiv 链接格式无效', { cause: error })
+  }
+  if (url.protocol !== 'https:' || !SITE_HOSTS.includes(url.hostname.toLowerCase()) || url.username || url.password) {
+    throw new ArchiveError('INVALID_URL', '仅支持 https://www.pixiv.net 的作品链接')
+  }
+  const illustId = parseIllustId(url)
+  if (!illustId) throw new ArchiveError('INVALID_URL', '仅支持 /artworks/{id} 或 illust_id 作品链接')
+  return illustId
+}
+
+/**
+ * 支持 /artworks/{id}、带语言前缀的 /en/artworks/{id}、/i/{id} 与旧版 member_illust.php
+ */
+export function parseIllustId(url: URL): string | null {
+  const match = url.pathname.match(/^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:artworks|i)\/(\d+)\/?$/i)
+  if (match) return match[1]!
+  if (/^\/member_illust\.php$/i.test(url.pathname)) {
+    const id = url.searchParams.get('illust_id')
+    return id && /^\d+$/.test(id) ? id : null
+  }
+  return null
+}
+
+function restrictedWorkError(hasSession: boolean) {
+  return new ArchiveError(
+    'REMOTE_FORBIDDEN',
+    hasSession ? 'Pixiv 会话无权访问该作品的图片' : '该作品需要登录后访问；请配置 PIXIV_ARCHIVE_SESSION',
+    { stage: 'SOURCE_PAGE' }
+  )
+}
+
+function toPageUrls(urls: PixivImageUrls | undefined) {
+  return { originalUrl: cleanText(urls?.original) || null, displayUrl: cleanText(urls?.regular) || null }
+}
+
+function normalizeTags(values: Array<{ tag?: string; translation?: { en?: string } }>) {
+  const tags = new Map<string, SourceTagValue>()
+  const translations: Record<string, string> = {}
+  for (const value of values) {
+    const name = cleanText(value.tag)
+    if (!name) continue
+    tags.set(name, { namespace: 'general', name })
+    const translated = cleanText(value.translation?.en)
+    if (translated) translations[name] = translated
+  }
+  return { tags: Array.from(tags.values()), translations }
+}
+
+function normalizeSeries(value: PixivIllustBody['seriesNavData']) {
+  const seriesId = cleanText(value?.seriesId === undefined ? '' : String(value.seriesId))
+  if (!value || !/^\d+$/.test(seriesId)) return null
+  return {
+    source: 'PIXIV',
+    externalId: seriesId,
+    title: cleanText(value.title) || `Pixiv series ${seriesId}`,
+    order: integerOrNull(value.order)
+  }
+}
+
+function normalizeUgoira(value: PixivUgoiraMetaBody) {
+  const frames = (value.frames ?? []).flatMap((frame) =>
+    frame.file && typeof frame.delay === 'number' ? [{ file: frame.file, delay: frame.delay }] : []
+  )
+  return {
+    mimeType: cleanText(value.mime_type) || null,
+    zipUrl: cleanText(value.originalSrc) || cleanText(value.src) || null,
+    frameCount: frames.length,
+    frames
+  }
+}
+
+/** Pixiv aiType：0 未声明，1 非 AI，2 AI 生成 */
+function normalizeAiType(value: unknown): boolean | null {
+  if (value === 2) return true
+  if (value === 1) return false
+  return null
+}
+
+function filenameFromUrl(value: string): string | null {
+  const base = path.posix.basename(new URL(value).pathname)
+  return base && base !== '/' ? base : null
+}
+
+function cleanText(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : ''
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function integerOrNull(value: unknown): number | null {
+  const number = Number(value)
+  return value !== null && value !== undefined && Number.isSafeInteger(number) ? number : null
+}
+
+function parseContentLength(value: string | string[] | undefined): number | null {
+  const raw = headerValue(value)
+  if (!raw) return null
+  const length = Number(raw)
+  return Number.isSafeInteger(length) && length >= 0 ? length : null
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value
+}
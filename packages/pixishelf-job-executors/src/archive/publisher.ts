@@ -1,8 +1,9 @@
 import path from 'node:path'
 import { Prisma } from '@pixishelf/db'
 import { ArchiveExecutorError } from './errors.ts'
-import { normalizeRelativePath, type ArchiveStoragePaths } from './storage.ts'
+import { archiveMediaType, normalizeRelativePath, type ArchiveStoragePaths } from './storage.ts'
 import type { ArchiveTransaction } from './types.ts'
+import { resolveIngestTagIds, syncArtworkImpliedTags, type IngestTagReference } from '../shared/tag-rules.ts'
 
 const ARCHIVE_PUBLISH_ADVISORY_LOCK_ID = 7_341_902_117
 
@@ -54,6 +55,11 @@ export async function publishArchiveImportInTransaction(
       recoverable: true
     })
   }
+  if (existingRef && existingRef.artwork.createdVia !== 'URL_ARCHIVE') {
+    // The same provider identity may already belong to a scanned library artwork; replacing its images would
+    // detach it from the files the scanner owns.
+    throw new ArchiveExecutorError('STATE_CONFLICT', 'Source identity already belongs to a non-archive artwork')
+  }
 
   const metadata = archiveImport.normalizedMetadata as Prisma.JsonObject
   const title = nestedString(metadata, ['titles', 'display']) ?? `Archive ${archiveImport.externalId}`
@@ -131,6 +137,7 @@ export async function publishArchiveImportInTransaction(
   })
 
   await replaceSourceTags(transaction, artwork.id, externalRef.id, metadata)
+  await syncSourceAttribution(transaction, artwork.id, metadata)
   await syncArtworkRelationships(transaction, artwork.id, archiveImport.providerKey, metadata.relationships)
   await transaction.image.deleteMany({ where: { artworkId: artwork.id } })
   await transaction.image.createMany({
@@ -141,7 +148,7 @@ export async function publishArchiveImportInTransaction(
       height: item.height,
       size: item.byteCount,
       sortOrder: item.pageIndex,
-      mediaType: 'IMAGE' as const
+      mediaType: archiveMediaType(item.mimeType)
     }))
   })
 
@@ -191,6 +198,109 @@ export async function publishArchiveImportInTransaction(
   return { artworkId: artwork.id, revisionId: revision.id, archivePath: paths.finalRelativePath }
 }
 
+export interface ArchiveRevisionMediaSnapshotItem {
+  index: number
+  path: string
+  size: string | null
+  width: number | null
+  height: number | null
+  sha256: string | null
+  mimeType: string | null
+}
+
+/**
+ * Makes an earlier revision current again from its immutable directory and the source snapshot stored under its
+ * metadata hash. Like publication this only touches database state; the caller verifies media and finalizes.
+ */
+export async function restoreArchiveRevisionInTransaction(
+  transaction: ArchiveTransaction,
+  input: { artworkId: number; revisionId: string }
+): Promise<{ previousRevisionId: string | null }> {
+  const revision = await transaction.archiveRevision.findUnique({
+    where: { id: input.revisionId },
+    include: { externalRef: true, artwork: true }
+  })
+  if (!revision || revision.artworkId !== input.artworkId) {
+    throw new ArchiveExecutorError('STATE_CONFLICT', 'Archive revision no longer belongs to the artwork')
+  }
+  const snapshot = await transaction.artworkSourceSnapshot.findUnique({
+    where: {
+      externalRefId_metadataHash: { externalRefId: revision.externalRefId, metadataHash: revision.metadataHash }
+    }
+  })
+  if (!snapshot) throw new ArchiveExecutorError('STATE_CONFLICT', 'Archive revision has no source snapshot')
+
+  const metadata = snapshot.normalizedMetadata as Prisma.JsonObject
+  const title = nestedString(metadata, ['titles', 'display']) ?? `Archive ${revision.externalRef.externalId}`
+  const postedAtText = nullableString(metadata.postedAt)
+  await transaction.artwork.update({
+    where: { id: revision.artworkId },
+    data: {
+      ...(revision.artwork.titleOverridden ? {} : { title }),
+      ...(revision.artwork.descriptionOverridden ? {} : { description: nullableString(metadata.description) }),
+      sourceDate: postedAtText ? new Date(postedAtText) : null,
+      storagePath: revision.archivePath
+    }
+  })
+  await transaction.artworkExternalRef.update({
+    where: { id: revision.externalRefId },
+    data: { metadataHash: revision.metadataHash }
+  })
+  await transaction.artworkRawMetadata.upsert({
+    where: { artworkId: revision.artworkId },
+    create: { artworkId: revision.artworkId, rawMetadataJson: toInputJson(snapshot.rawMetadata) },
+    update: { rawMetadataJson: toInputJson(snapshot.rawMetadata) }
+  })
+  await replaceSourceTags(transaction, revision.artworkId, revision.externalRefId, metadata)
+  await syncSourceAttribution(transaction, revision.artworkId, metadata)
+
+  const previous = await transaction.archiveRevision.findFirst({
+    where: { artworkId: revision.artworkId, isCurrent: true },
+    select: { id: true, externalRefId: true, metadataHash: true }
+  })
+  // Relations only the replaced revision declared are withdrawn, so the restored state matches its own publication.
+  if (previous && previous.id !== revision.id) {
+    const previousSnapshot = await transaction.artworkSourceSnapshot.findUnique({
+      where: {
+        externalRefId_metadataHash: { externalRefId: previous.externalRefId, metadataHash: previous.metadataHash }
+      },
+      select: { normalizedMetadata: true }
+    })
+    const restored = new Set(parseReplacesRelationships(metadata.relationships).map(relationshipKey))
+    const withdrawn = parseReplacesRelationships(
+      (previousSnapshot?.normalizedMetadata as Prisma.JsonObject | undefined)?.relationships
+    ).filter((relationship) => !restored.has(relationshipKey(relationship)))
+    await removeArtworkRelationships(transaction, revision.artworkId, revision.externalRef.providerKey, withdrawn)
+  }
+  await syncArtworkRelationships(
+    transaction,
+    revision.artworkId,
+    revision.externalRef.providerKey,
+    metadata.relationships
+  )
+
+  const media = revision.mediaSnapshot as unknown as ArchiveRevisionMediaSnapshotItem[]
+  await transaction.image.deleteMany({ where: { artworkId: revision.artworkId } })
+  await transaction.image.createMany({
+    data: media.map((item) => ({
+      artworkId: revision.artworkId,
+      path: normalizeRelativePath(path.join(revision.archivePath, item.path)),
+      width: item.width,
+      height: item.height,
+      size: item.size === null ? null : BigInt(item.size),
+      sortOrder: item.index,
+      mediaType: archiveMediaType(item.mimeType)
+    }))
+  })
+
+  await transaction.archiveRevision.updateMany({
+    where: { artworkId: revision.artworkId, isCurrent: true, id: { not: revision.id } },
+    data: { isCurrent: false }
+  })
+  await transaction.archiveRevision.update({ where: { id: revision.id }, data: { isCurrent: true } })
+  return { previousRevisionId: previous?.id ?? null }
+}
+
 async function replaceSourceTags(
   transaction: ArchiveTransaction,
   artworkId: number,
@@ -198,20 +308,15 @@ async function replaceSourceTags(
   metadata: Prisma.JsonObject
 ) {
   const values = Array.isArray(metadata.tags) ? metadata.tags : []
-  const tagIds: number[] = []
+  const references: IngestTagReference[] = []
   for (const value of values) {
     if (!value || typeof value !== 'object' || Array.isArray(value)) continue
     const namespace = nullableString((value as Prisma.JsonObject).namespace)
     const name = nullableString((value as Prisma.JsonObject).name)
     if (!namespace || !name) continue
-    const tag = await transaction.tag.upsert({
-      where: { namespace_name: { namespace, name } },
-      create: { namespace, name },
-      update: {},
-      select: { id: true }
-    })
-    tagIds.push(tag.id)
+    references.push({ namespace, name })
   }
+  const tagIds = await resolveIngestTagIds(transaction, references)
   await transaction.artworkTag.deleteMany({ where: { artworkId, provenance: 'SOURCE', sourceRefId } })
   if (tagIds.length > 0) {
     await transaction.artworkTag.createMany({
@@ -219,47 +324,142 @@ async function replaceSourceTags(
       skipDuplicates: true
     })
   }
+  await syncArtworkImpliedTags(transaction, artworkId)
 }
 
-async function syncArtworkRelationships(
-  transaction: ArchiveTransaction,
-  artworkId: number,
-  providerKey: string,
-  rawRelationships: unknown
-) {
-  if (!Array.isArray(rawRelationships)) return
+/**
+ * Applies optional provider attribution: AI flag, age restriction, artist and series. Providers that do not
+ * report a field leave the current artwork value untouched.
+ */
+async function syncSourceAttribution(transaction: ArchiveTransaction, artworkId: number, metadata: Prisma.JsonObject) {
+  const data: Prisma.ArtworkUncheckedUpdateInput = {}
+  if (typeof metadata.aiGenerated === 'boolean') data.isAiGenerated = metadata.aiGenerated
+  const xRestrict = nullableString(metadata.xRestrict)
+  if (xRestrict) data.xRestrict = xRestrict
+
+  const artistName = nestedString(metadata, ['artist', 'name'])
+  const artistUserId = nestedString(metadata, ['artist', 'userId'])
+  if (artistName && artistUserId) {
+    const artist = await transaction.artist.upsert({
+      where: { unique_username_userid: { username: artistName, userId: artistUserId } },
+      create: { name: artistName, username: artistName, userId: artistUserId },
+      update: {},
+      select: { id: true }
+    })
+    data.artistId = artist.id
+  }
+
+  const seriesSource = nestedString(metadata, ['series', 'source'])
+  const seriesExternalId = nestedString(metadata, ['series', 'externalId'])
+  if (seriesSource && seriesExternalId) {
+    const series = await transaction.series.upsert({
+      where: { source_externalId: { source: seriesSource, externalId: seriesExternalId } },
+      create: {
+        source: seriesSource,
+        externalId: seriesExternalId,
+        title: nestedString(metadata, ['series', 'title']) ?? seriesExternalId
+      },
+      update: {},
+      select: { id: true }
+    })
+    const order = (metadata.series as Prisma.JsonObject).order
+    const sortOrder = typeof order === 'number' && Number.isSafeInteger(order) ? order : 0
+    await transaction.seriesArtwork.upsert({
+      where: { seriesId_artworkId: { seriesId: series.id, artworkId } },
+      create: { seriesId: series.id, artworkId, sortOrder },
+      update: { sortOrder }
+    })
+    data.seriesId = series.id
+  }
+
+  if (Object.keys(data).length > 0) await transaction.artwork.update({ where: { id: artworkId }, data })
+}
+
+interface ReplacesRelationship {
+  direction: 'OUTBOUND' | 'INBOUND'
+  providerKey: string
+  externalId: string
+}
+
+function parseReplacesRelationships(rawRelationships: unknown): ReplacesRelationship[] {
+  if (!Array.isArray(rawRelationships)) return []
+  const relationships: ReplacesRelationship[] = []
   for (const raw of rawRelationships) {
     if (!raw || typeof raw !== 'object' || Array.isArray(raw)) continue
     const relationship = raw as Record<string, unknown>
     if (
       relationship.type !== 'REPLACES' ||
-      !['OUTBOUND', 'INBOUND'].includes(String(relationship.direction)) ||
+      (relationship.direction !== 'OUTBOUND' && relationship.direction !== 'INBOUND') ||
       typeof relationship.providerKey !== 'string' ||
       typeof relationship.externalId !== 'string'
     ) {
       continue
     }
-    const target = await transaction.artworkExternalRef.findUnique({
-      where: {
-        providerKey_externalId: {
-          providerKey: relationship.providerKey,
-          externalId: relationship.externalId
-        }
-      },
-      select: { artworkId: true }
+    relationships.push({
+      direction: relationship.direction,
+      providerKey: relationship.providerKey,
+      externalId: relationship.externalId
     })
-    if (!target || target.artworkId === artworkId) continue
-    const outbound = relationship.direction === 'OUTBOUND'
-    const fromArtworkId = outbound ? artworkId : target.artworkId
-    const toArtworkId = outbound ? target.artworkId : artworkId
+  }
+  return relationships
+}
+
+function relationshipKey(relationship: ReplacesRelationship) {
+  return `${relationship.direction}:${relationship.providerKey}:${relationship.externalId}`
+}
+
+async function resolveRelationshipPair(
+  transaction: ArchiveTransaction,
+  artworkId: number,
+  relationship: ReplacesRelationship
+) {
+  const target = await transaction.artworkExternalRef.findUnique({
+    where: {
+      providerKey_externalId: {
+        providerKey: relationship.providerKey,
+        externalId: relationship.externalId
+      }
+    },
+    select: { artworkId: true }
+  })
+  if (!target || target.artworkId === artworkId) return null
+  const outbound = relationship.direction === 'OUTBOUND'
+  return {
+    fromArtworkId: outbound ? artworkId : target.artworkId,
+    toArtworkId: outbound ? target.artworkId : artworkId
+  }
+}
+
+async function syncArtworkRelationships(
+  transaction: ArchiveTransaction,
+  artworkId: number,
+  providerKey: string,
+  rawRelationships: unknown
+) {
+  for (const relationship of parseReplacesRelationships(rawRelationships)) {
+    const pair = await resolveRelationshipPair(transaction, artworkId, relationship)
+    if (!pair) continue
     await transaction.artworkRelation.upsert({
-      where: { fromArtworkId_toArtworkId_type: { fromArtworkId, toArtworkId, type: 'REPLACES' } },
-      create: { fromArtworkId, toArtworkId, type: 'REPLACES', providerKey },
+      where: { fromArtworkId_toArtworkId_type: { ...pair, type: 'REPLACES' } },
+      create: { ...pair, type: 'REPLACES', providerKey },
       update: { providerKey }
     })
   }
 }
 
+async function removeArtworkRelationships(
+  transaction: ArchiveTransaction,
+  artworkId: number,
+  providerKey: string,
+  relationships: ReplacesRelationship[]
+) {
+  for (const relationship of relationships) {
+    const pair = await resolveRelationshipPair(transaction, artworkId, relationship)
+    if (!pair) continue
+    await transaction.artworkRelation.deleteMany({ where: { ...pair, type: 'REPLACES', providerKey } })
+  }
+}
+
 function nullableString(value: unknown): string | null {
   return typeof value === 'string' && value.trim() ? value.trim() : null
 }
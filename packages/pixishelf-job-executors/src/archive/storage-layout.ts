@@ -0,0 +1,70 @@
+import {
+  DEFAULT_STORAGE_LAYOUT_TEMPLATE,
+  parseStorageLayoutTemplate,
+  STORAGE_LAYOUT_TEMPLATE_SETTING_KEY
+} from '@pixishelf/job-contracts'
+import type { Prisma } from '@pixishelf/db'
+import { renderStorageLayoutDirectory } from '../migration/layout.ts'
+import type { SourceTagValue } from './types.ts'
+
+type StorageDirectoryTransaction = Pick<Prisma.TransactionClient, 'archiveImport' | 'archiveRevision' | 'setting'>
+
+export interface ArchiveStorageDirectoryInput {
+  providerKey: string
+  externalId: string
+  creatorBucket: string
+  title: string
+  tags: SourceTagValue[]
+  /** ExternalRef the import will update; null when the source has no artwork yet. */
+  externalRefId: string | null
+}
+
+/**
+ * Chooses the artwork directory below `sources/` that an archive import freezes at enqueue.
+ * A known source keeps the directory of its current revision, so only new artworks adopt the
+ * admin storage layout. `null` is the historical `<provider>/<creatorBucket>/<externalId>`
+ * directory: it stays in use under the default layout, for templates that need `{artworkId}`
+ * (assigned at publish), for sources the template cannot render, and when another source
+ * already owns the rendered directory. Revision directories are import-scoped either way.
+ */
+export async function resolveArchiveStorageDirectory(
+  transaction: StorageDirectoryTransaction,
+  input: ArchiveStorageDirectoryInput
+): Promise<string | null> {
+  if (input.externalRefId) {
+    const current = await transaction.archiveRevision.findFirst({
+      where: { externalRefId: input.externalRefId, isCurrent: true },
+      select: { archiveImport: { select: { storageDirectory: true } } }
+    })
+    return current?.archiveImport?.storageDirectory ?? null
+  }
+
+  const setting = await transaction.setting.findUnique({ where: { key: STORAGE_LAYOUT_TEMPLATE_SETTING_KEY } })
+  const template = setting?.value || DEFAULT_STORAGE_LAYOUT_TEMPLATE
+  if (template === DEFAULT_STORAGE_LAYOUT_TEMPLATE) return null
+  let directory: string
+  try {
+    const parts = parseStorageLayoutTemplate(template).flat()
+    if (parts.some((part) => part.kind === 'variable' && part.name === 'artworkId')) return null
+    const artists = input.tags.filter((tag) => tag.namespace === 'artist')
+    directory = renderStorageLayoutDirectory(template, {
+      artworkId: 0,
+      externalId: input.externalId,
+      creatorId: input.creatorBucket,
+      creator: artists.length === 1 ? artists[0]!.name : null,
+      title: input.title,
+      provider: input.providerKey
+    })
+  } catch {
+    return null
+  }
+
+  const owner = await transaction.archiveImport.findFirst({
+    where: {
+      storageDirectory: { equals: directory, mode: 'insensitive' },
+      NOT: { providerKey: input.providerKey, externalId: input.externalId }
+    },
+    select: { id: true }
+  })
+  return owner ? null : directory
+}
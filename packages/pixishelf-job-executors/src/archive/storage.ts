@@ -2,10 +2,17 @@ import { createHash } from 'node:crypto'
 import { lstat, mkdir, open, readFile, realpath, rename, rm, stat, writeFile } from 'node:fs/promises'
 import path from 'node:path'
 import sharp from 'sharp'
+import { readZipDirectory, readZipEntry } from '../shared/zip-archive.ts'
+import { UGOIRA_MAX_FRAMES, ugoiraSidecarNames } from '../ugoira/manifest.ts'
+import type { UgoiraFrame } from '../ugoira/types.ts'
 import { ArchiveExecutorError, toArchiveExecutorError, withArchiveExecutorErrorContext } from './errors.ts'
 import type { ArchiveRemoteMedia } from './types.ts'
 
 const DEFAULT_MAX_MEDIA_BYTES = 512 * 1024 * 1024
+const MAX_UGOIRA_FRAME_BYTES = 64 * 1024 * 1024
+
+/** Pixiv ugoira pages are stored as their frame zip and published as animations. */
+export const ARCHIVE_UGOIRA_MIME_TYPE = 'application/zip'
 
 export interface ArchiveStoragePaths {
   scanRootAbsolutePath: string
@@ -30,14 +37,15 @@ export function buildArchiveStoragePaths(input: {
   providerKey: string
   creatorBucket: string
   externalId: string
+  storageDirectory?: string | null
 }): ArchiveStoragePaths {
-  const provider = safePathSegment(input.providerKey)
-  const bucket = safePathSegment(input.creatorBucket)
-  const externalId = safePathSegment(input.externalId)
   const archiveImportId = safePathSegment(input.archiveImportId)
+  const artworkDirectory = input.storageDirectory
+    ? storageDirectorySegments(input.storageDirectory)
+    : [safePathSegment(input.providerKey), safePathSegment(input.creatorBucket), safePathSegment(input.externalId)]
   const stagingRelativePath = normalizeRelativePath(path.join('.archive-staging', archiveImportId))
   const finalRelativePath = normalizeRelativePath(
-    path.join('sources', provider, bucket, externalId, 'revisions', archiveImportId)
+    path.join('sources', ...artworkDirectory, 'revisions', archiveImportId)
   )
   return {
     scanRootAbsolutePath: path.resolve(input.scanRoot),
@@ -81,7 +89,7 @@ export async function storeArchiveRemoteMedia(input: {
   const filename = buildStoredFilename(
     input.index,
     input.remote.originalFilename ?? input.expectedFilename,
-    input.remote.mimeType
+    input.remote.ugoiraFrames ? ARCHIVE_UGOIRA_MIME_TYPE : input.remote.mimeType
   )
   const mediaDirectory = await resolveCreatablePathWithinRoot(input.stagingDirectory, 'media')
   const target = await resolveCreatablePathWithinRoot(mediaDirectory, filename)
@@ -139,27 +147,10 @@ export async function storeArchiveRemoteMedia(input: {
     })
   }
 
-  const mimeType = normalizeImageMimeType(input.remote.mimeType, filename)
-  if (!mimeType.startsWith('image/')) {
-    await rm(partial, { force: true })
-    throw new ArchiveExecutorError('MEDIA_INVALID', `Unsupported archive media type: ${mimeType}`, {
-      stage: 'MEDIA_VALIDATION',
-      remoteHost: input.remote.remoteHost
-    })
-  }
-  let metadata: sharp.Metadata
-  try {
-    metadata = await sharp(partial, { animated: true }).metadata()
-  } catch (error) {
-    await rm(partial, { force: true })
-    throw new ArchiveExecutorError('MEDIA_INVALID', 'Archive media is not a decodable image', {
-      cause: error,
-      recoverable: true,
-      stage: 'MEDIA_VALIDATION',
-      remoteHost: input.remote.remoteHost
-    })
-  }
-  if (!metadata.width || !metadata.height) {
+  const inspected = input.remote.ugoiraFrames
+    ? await inspectUgoiraMedia(partial, input.remote.ugoiraFrames, input.remote.remoteHost)
+    : await inspectImageMedia(partial, normalizeImageMimeType(input.remote.mimeType, filename), input.remote.remoteHost)
+  if (!inspected) {
     await rm(partial, { force: true })
     throw new ArchiveExecutorError('MEDIA_INVALID', 'Archive media has no valid dimensions', {
       recoverable: true,
@@ -170,6 +161,11 @@ export async function storeArchiveRemoteMedia(input: {
 
   throwIfAborted(input.signal)
   try {
+    // The timing sidecar lands first, so a published ugoira zip always has its frame delays beside it.
+    if (input.remote.ugoiraFrames) {
+      const sidecar = await resolveCreatablePathWithinRoot(mediaDirectory, ugoiraSidecarNames(filename)[0]!)
+      await writeFile(sidecar, `${JSON.stringify({ frames: input.remote.ugoiraFrames })}\n`, 'utf8')
+    }
     await rm(target, { force: true })
     await rename(partial, target)
   } catch (error) {
@@ -178,13 +174,64 @@ export async function storeArchiveRemoteMedia(input: {
   return {
     relativePath: normalizeRelativePath(path.join('media', filename)),
     byteCount: BigInt(byteCount),
-    mimeType,
-    width: metadata.width,
-    height: metadata.height,
+    mimeType: inspected.mimeType,
+    width: inspected.width,
+    height: inspected.height,
     sha256: hash.digest('hex')
   }
 }
 
+export function archiveMediaType(mimeType: string | null): 'IMAGE' | 'ANIMATION' {
+  return mimeType === ARCHIVE_UGOIRA_MIME_TYPE ? 'ANIMATION' : 'IMAGE'
+}
+
+async function inspectImageMedia(partial: string, mimeType: string, remoteHost: string | null) {
+  if (!mimeType.startsWith('image/')) {
+    await rm(partial, { force: true })
+    throw new ArchiveExecutorError('MEDIA_INVALID', `Unsupported archive media type: ${mimeType}`, {
+      stage: 'MEDIA_VALIDATION',
+      remoteHost
+    })
+  }
+  try {
+    const metadata = await sharp(partial, { animated: true }).metadata()
+    return metadata.width && metadata.height ? { mimeType, width: metadata.width, height: metadata.height } : null
+  } catch (error) {
+    await rm(partial, { force: true })
+    throw new ArchiveExecutorError('MEDIA_INVALID', 'Archive media is not a decodable image', {
+      cause: error,
+      recoverable: true,
+      stage: 'MEDIA_VALIDATION',
+      remoteHost
+    })
+  }
+}
+
+/** An ugoira zip must hold every timed frame; its first frame gives the animation its size. */
+async function inspectUgoiraMedia(partial: string, frames: readonly UgoiraFrame[], remoteHost: string | null) {
+  try {
+    const entries = new Map(
+      (await readZipDirectory(partial, { maxEntries: UGOIRA_MAX_FRAMES + 16 })).map((entry) => [entry.name, entry])
+    )
+    const [first] = frames
+    const missing = frames.find((frame) => entries.get(frame.file)?.isDirectory !== false)
+    if (!first || missing) throw new Error(`Ugoira frame is missing: ${missing?.file ?? 'first frame'}`)
+    const firstFrame = await readZipEntry(partial, entries.get(first.file)!, { maxBytes: MAX_UGOIRA_FRAME_BYTES })
+    const metadata = await sharp(firstFrame).metadata()
+    return metadata.width && metadata.height
+      ? { mimeType: ARCHIVE_UGOIRA_MIME_TYPE, width: metadata.width, height: metadata.height }
+      : null
+  } catch (error) {
+    await rm(partial, { force: true })
+    throw new ArchiveExecutorError('MEDIA_INVALID', 'Archive media is not a playable ugoira zip', {
+      cause: error,
+      recoverable: true,
+      stage: 'MEDIA_VALIDATION',
+      remoteHost
+    })
+  }
+}
+
 export async function validateArchiveStoredMedia(
   stagingDirectory: string,
   items: Array<{ stagedPath: string | null; sha256: string | null; byteCount: bigint | null }>
@@ -309,6 +356,23 @@ function safePathSegment(value: string): string {
   return safe
 }
 
+/** A frozen layout directory was rendered from sanitized segments; anything else is rejected, never rewritten. */
+function storageDirectorySegments(value: string): string[] {
+  const segments = value.split('/')
+  for (const segment of segments) {
+    if (
+      !segment ||
+      segment.startsWith('.') ||
+      /[. ]$/.test(segment) ||
+      // oxlint-disable-next-line no-control-regex -- filesystem segments must reject C0 controls
+      /[<>:"\\|?*\u0000-\u001f]/.test(segment)
+    ) {
+      throw new ArchiveExecutorError('MEDIA_INVALID', 'Invalid archive storage directory')
+    }
+  }
+  return segments
+}
+
 function safeExtension(value: string): string {
   const normalized = value.toLowerCase()
   return /^\.[a-z0-9]{1,8}$/.test(normalized) ? normalized : ''
@@ -323,7 +387,8 @@ function extensionForMimeType(mimeType: string | null): string {
         'image/gif': '.gif',
         'image/webp': '.webp',
         'image/avif': '.avif',
-        'image/bmp': '.bmp'
+        'image/bmp': '.bmp',
+        [ARCHIVE_UGOIRA_MIME_TYPE]: '.zip'
       } as Record<string, string>
     )[mimeType?.split(';')[0]?.trim().toLowerCase() ?? ''] ?? ''
   )
@@ -1,6 +1,7 @@
 import type { Readable } from 'node:stream'
 import type { Prisma, PrismaClient } from '@pixishelf/db'
 import type { ExecutionLogger } from '@pixishelf/job-runtime'
+import type { UgoiraFrame } from '../ugoira/types.ts'
 
 export type ArchiveQuality = 'ORIGINAL' | 'DISPLAY'
 
@@ -49,6 +50,8 @@ export interface ArchiveRemoteMedia {
   originalFilename: string | null
   quality: ArchiveQuality
   remoteHost: string | null
+  /** Frame timing of a Pixiv ugoira zip; storage keeps it beside the zip for UGOIRA_CONVERSION. */
+  ugoiraFrames?: readonly UgoiraFrame[] | undefined
 }
 
 export interface ResolvedArchive {
@@ -0,0 +1,555 @@
+import { randomUUID } from 'node:crypto'
+import {
+  archiveImportPayloadSchema,
+  archiveUpdateCheckPayloadSchema,
+  JOB_DEFINITION_VERSION,
+  type ArchiveUpdateCheckPayload
+} from '@pixishelf/job-contracts'
+import type { Prisma, PrismaClient } from '@pixishelf/db'
+import type {
+  EnqueuedChildJob,
+  ExecutionContext,
+  ExecutorDefinition,
+  JobExecutionOutcome,
+  QueueSqlExecutor
+} from '@pixishelf/job-runtime'
+import { ArchiveExecutorError, toArchiveExecutorError } from './errors.ts'
+import { hashResolvedMetadata } from './providers/e-hentai.ts'
+import { LOCAL_MANIFEST_PROVIDER_KEY } from './providers/local-manifest.ts'
+import { buildArchiveStoragePaths } from './storage.ts'
+import { resolveArchiveStorageDirectory } from './storage-layout.ts'
+import type { ArchiveProviderRegistry, ArchiveQuality, ArchiveTransaction, ResolvedArchive } from './types.ts'
+
+const ARCHIVE_PUBLISH_ADVISORY_LOCK_ID = 7_341_902_117
+const ACTIVE_IMPORT_STATUSES = ['PENDING', 'RUNNING', 'PAUSED', 'CANCELLING'] as const
+const AUTO_IMPORT_QUEUE_PRIORITY = 100
+const HOUR_MS = 60 * 60 * 1_000
+const MAX_ERROR_MESSAGE_LENGTH = 1_000
+
+type UpdateCheckContext = ExecutionContext<ArchiveUpdateCheckPayload, EnqueuedChildJob>
+type UpdateCheckTransaction = ArchiveTransaction & QueueSqlExecutor
+
+export interface ArchiveUpdateCheckResult {
+  candidates: number
+  checked: number
+  unchanged: number
+  changed: number
+  failed: number
+  enqueued: number
+  replacementsFound: number
+  replacementsEnqueued: number
+  skippedActive: number
+  deferredByProvider: boolean
+}
+
+export interface ArchiveSourceSnapshotDiff {
+  fields: string[]
+  tagsAdded: string[]
+  tagsRemoved: string[]
+  pageCount: { before: number | null; after: number | null }
+}
+
+export interface ArchiveUpdateCheckExecutorDependencies {
+  database: PrismaClient
+  providers: ArchiveProviderRegistry
+  config: { scanRoot: string }
+  now?: () => Date
+}
+
+interface UpdateCheckCandidate {
+  id: string
+  providerKey: string
+  externalId: string
+  canonicalUrl: string
+  metadataHash: string | null
+}
+
+type ReferenceOutcome =
+  | { kind: 'DEFERRED' }
+  | { kind: 'SKIPPED' }
+  | { kind: 'FAILED'; resolves: number }
+  | {
+      kind: 'CHECKED'
+      resolves: number
+      changed: boolean
+      enqueued: boolean
+      replacementFound: boolean
+      replacementEnqueued: boolean
+    }
+
+export function createArchiveUpdateCheckExecutorRegistrations(
+  dependencies: ArchiveUpdateCheckExecutorDependencies
+): ExecutorDefinition<ArchiveUpdateCheckPayload, ArchiveUpdateCheckResult>[] {
+  if (!dependencies.config.scanRoot.trim()) throw new Error('Archive update check scanRoot is required')
+  return [
+    {
+      jobType: 'ARCHIVE_UPDATE_CHECK',
+      executionLane: 'ARCHIVE_RESOLVE',
+      definitionVersion: JOB_DEFINITION_VERSION,
+      parsePayload: (payload) => archiveUpdateCheckPayloadSchema.parse(payload),
+      execute: (context) => executeArchiveUpdateCheck(context, dependencies)
+    }
+  ]
+}
+
+/**
+ * Re-resolves published archive sources with the oldest fetchedAt. Every
+ * remote resolve, including a followed REPLACES target, consumes one unit of
+ * batchSize so a scheduled run stays a small, bounded guest on the resolver
+ * lane. Each reference commits independently: the observed Source Snapshot,
+ * the check audit row and an optional ARCHIVE_IMPORT are written together,
+ * and a provider throttle ends the run early without touching the remaining
+ * references so they stay at the head of the next run.
+ *
+ * References whose current revision was read from a local gallery-dl folder
+ * are left out: the remote provider hashes a different metadata shape, and
+ * categories without a remote provider would fail on every pass.
+ */
+export async function executeArchiveUpdateCheck(
+  context: UpdateCheckContext,
+  dependencies: ArchiveUpdateCheckExecutorDependencies
+): Promise<JobExecutionOutcome<ArchiveUpdateCheckResult>> {
+  const now = dependencies.now ?? (() => new Date())
+  const { batchSize, minIntervalHours } = context.payload
+  const dueBefore = new Date(now().getTime() - minIntervalHours * HOUR_MS)
+  const candidates = await dependencies.database.artworkExternalRef.findMany({
+    where: {
+      artwork: { createdVia: 'URL_ARCHIVE', archiveLifecycleState: 'ACTIVE', deletedAt: null },
+      OR: [{ fetchedAt: null }, { fetchedAt: { lte: dueBefore } }],
+      NOT: {
+        archiveRevisions: {
+          some: {
+            isCurrent: true,
+            archiveImport: { locator: { path: ['mediaProviderKey'], equals: LOCAL_MANIFEST_PROVIDER_KEY } }
+          }
+        }
+      }
+    },
+    orderBy: [{ fetchedAt: { sort: 'asc', nulls: 'first' } }, { id: 'asc' }],
+    take: batchSize,
+    select: { id: true, providerKey: true, externalId: true, canonicalUrl: true, metadataHash: true }
+  })
+
+  const result: ArchiveUpdateCheckResult = {
+    candidates: candidates.length,
+    checked: 0,
+    unchanged: 0,
+    changed: 0,
+    failed: 0,
+    enqueued: 0,
+    replacementsFound: 0,
+    replacementsEnqueued: 0,
+    skippedActive: 0,
+    deferredByProvider: false
+  }
+  await context.progress({
+    progress: candidates.length === 0 ? 100 : 5,
+    stage: 'CHECKING',
+    message: candidates.length === 0 ? 'No archive sources are due for an update check' : 'Checking archive sources',
+    data: { candidates: candidates.length }
+  })
+
+  let budget = batchSize
+  for (const [position, candidate] of candidates.entries()) {
+    if (budget <= 0) break
+    throwIfAborted(context.signal)
+    const outcome = await checkReference(context, dependencies, candidate, budget, now)
+    if (outcome.kind === 'DEFERRED') {
+      result.deferredByProvider = true
+      break
+    }
+    if (outcome.kind === 'SKIPPED') {
+      result.skippedActive += 1
+    } else if (outcome.kind === 'FAILED') {
+      budget -= outcome.resolves
+      result.checked += 1
+      result.failed += 1
+    } else {
+      budget -= outcome.resolves
+      result.checked += 1
+      result[outcome.changed ? 'changed' : 'unchanged'] += 1
+      if (outcome.enqueued) result.enqueued += 1
+      if (outcome.replacementFound) result.replacementsFound += 1
+      if (outcome.replacementEnqueued) result.replacementsEnqueued += 1
+    }
+    await context.progress({
+      progress: Math.min(95, 5 + Math.round(((position + 1) / candidates.length) * 90)),
+      stage: 'CHECKING',
+      message: `Checked archive source ${position + 1}/${candidates.length}`
+    })
+  }
+
+  return {
+    kind: 'completed',
+    result,
+    message: result.deferredByProvider
+      ? 'Archive update check stopped early because the provider is throttled'
+      : 'Archive update check completed'
+  }
+}
+
+async function checkReference(
+  context: UpdateCheckContext,
+  dependencies: ArchiveUpdateCheckExecutorDependencies,
+  candidate: UpdateCheckCandidate,
+  budget: number,
+  now: () => Date
+): Promise<ReferenceOutcome> {
+  const activeImport = await dependencies.database.archiveImport.findFirst({
+    where: {
+      providerKey: candidate.providerKey,
+      externalId: candidate.externalId,
+      status: { in: [...ACTIVE_IMPORT_STATUSES] }
+    },
+    select: { id: true }
+  })
+  // 正在导入的来源会在发布时刷新 fetchedAt，这里不重复解析
+  if (activeImport) return { kind: 'SKIPPED' }
+
+  let resolved: ResolvedArchive
+  try {
+    // 远端解析始终在事务外执行，避免慢请求持有行锁
+    resolved = await dependencies.providers
+      .getForUrl(candidate.canonicalUrl)
+      .resolve(candidate.canonicalUrl, { signal: context.signal })
+    if (resolved.providerKey !== candidate.providerKey || resolved.externalId !== candidate.externalId) {
+      throw new ArchiveExecutorError('STATE_CONFLICT', 'Archive source resolved to a different identity')
+    }
+  } catch (error) {
+    if (context.signal.aborted) throw error
+    const classified = toArchiveExecutorError(error)
+    if (isProviderThrottle(classified)) return { kind: 'DEFERRED' }
+    await context.mutateInTransaction<UpdateCheckTransaction>(async (transaction) => {
+      const checkedAt = now()
+      await transaction.artworkExternalRef.update({ where: { id: candidate.id }, data: { fetchedAt: checkedAt } })
+      await transaction.archiveUpdateCheck.create({
+        data: {
+          externalRefId: candidate.id,
+          systemJobId: context.job.id,
+          status: 'FAILED',
+          previousMetadataHash: candidate.metadataHash,
+          errorCode: classified.code,
+          errorMessage: classified.message.slice(0, MAX_ERROR_MESSAGE_LENGTH),
+          checkedAt
+        }
+      })
+    })
+    return { kind: 'FAILED', resolves: 1 }
+  }
+
+  const metadataHash = hashResolvedMetadata(resolved.normalizedMetadata)
+  const replacement =
+    resolved.relationships.find(
+      (relationship) => relationship.type === 'REPLACES' && relationship.direction === 'INBOUND'
+    ) ?? null
+  let resolves = 1
+  let replacementResolved: ResolvedArchive | null = null
+  if (replacement && context.payload.autoEnqueue && budget > 1) {
+    const known = await dependencies.database.artworkExternalRef.findUnique({
+      where: {
+        providerKey_externalId: { providerKey: replacement.providerKey, externalId: replacement.externalId }
+      },
+      select: { id: true }
+    })
+    if (!known) {
+      resolves += 1
+      replacementResolved = await resolveReplacement(context, dependencies, replacement.canonicalUrl)
+    }
+  }
+
+  return context.mutateInTransaction<UpdateCheckTransaction, ReferenceOutcome>(async (transaction) => {
+    const checkedAt = now()
+    const reference = await transaction.artworkExternalRef.findUnique({
+      where: { id: candidate.id },
+      select: {
+        id: true,
+        metadataHash: true,
+        artwork: { select: { archiveLifecycleState: true, deletedAt: true } }
+      }
+    })
+    if (!reference) return { kind: 'SKIPPED' }
+
+    const previousSnapshot = reference.metadataHash
+      ? await transaction.artworkSourceSnapshot.findUnique({
+          where: { externalRefId_metadataHash: { externalRefId: reference.id, metadataHash: reference.metadataHash } },
+          select: { normalizedMetadata: true }
+        })
+      : null
+    await transaction.artworkSourceSnapshot.upsert({
+      where: { externalRefId_metadataHash: { externalRefId: reference.id, metadataHash } },
+      create: {
+        externalRefId: reference.id,
+        providerSchemaVersion: 1,
+        normalizedMetadata: toInputJson(resolved.normalizedMetadata),
+        rawMetadata: toInputJson(resolved.rawMetadata),
+        metadataHash,
+        fetchedAt: checkedAt
+      },
+      update: { fetchedAt: checkedAt }
+    })
+    await transaction.artworkExternalRef.update({ where: { id: reference.id }, data: { fetchedAt: checkedAt } })
+
+    const changed = reference.metadataHash !== metadataHash
+    const publishable = reference.artwork.archiveLifecycleState === 'ACTIVE' && !reference.artwork.deletedAt
+    let archiveImportId: string | null = null
+    let replacementArchiveImportId: string | null = null
+    if (context.payload.autoEnqueue && publishable && (changed || replacementResolved)) {
+      // 与收件入队、回收站和发布使用同一把锁，保证同一来源不会并发出现两个活动导入
+      await transaction.$queryRawUnsafe('SELECT pg_advisory_xact_lock($1)::text', ARCHIVE_PUBLISH_ADVISORY_LOCK_ID)
+      const quality = await previousQuality(transaction, reference.id)
+      if (changed) {
+        archiveImportId = await enqueueArchiveImport(transaction, context, dependencies, {
+          resolved,
+          metadataHash,
+          quality,
+          queuedAt: checkedAt,
+          externalRefId: reference.id
+        })
+      }
+      if (replacementResolved) {
+        const replacementKnown = await transaction.artworkExternalRef.findUnique({
+          where: {
+            providerKey_externalId: {
+              providerKey: replacementResolved.providerKey,
+              externalId: replacementResolved.externalId
+            }
+          },
+          select: { id: true }
+        })
+        if (!replacementKnown) {
+          replacementArchiveImportId = await enqueueArchiveImport(transaction, context, dependencies, {
+            resolved: replacementResolved,
+            metadataHash: hashResolvedMetadata(replacementResolved.normalizedMetadata),
+            quality,
+            queuedAt: checkedAt,
+            externalRefId: null
+          })
+        }
+      }
+    }
+
+    await transaction.archiveUpdateCheck.create({
+      data: {
+        externalRefId: reference.id,
+        systemJobId: context.job.id,
+        status: changed ? 'CHANGED' : 'UNCHANGED',
+        previousMetadataHash: reference.metadataHash,
+        metadataHash,
+        ...(changed
+          ? {
+              diff: toInputJson(
+                diffArchiveSourceSnapshots(asRecord(previousSnapshot?.normalizedMetadata), resolved.normalizedMetadata)
+              )
+            }
+          : {}),
+        archiveImportId,
+        replacementExternalId: replacement?.externalId ?? null,
+        replacementCanonicalUrl: replacement?.canonicalUrl ?? null,
+        replacementArchiveImportId,
+        checkedAt
+      }
+    })
+    return {
+      kind: 'CHECKED',
+      resolves,
+      changed,
+      enqueued: archiveImportId !== null,
+      replacementFound: replacement !== null,
+      replacementEnqueued: replacementArchiveImportId !== null
+    }
+  })
+}
+
+async function resolveReplacement(
+  context: UpdateCheckContext,
+  dependencies: ArchiveUpdateCheckExecutorDependencies,
+  canonicalUrl: string
+): Promise<ResolvedArchive | null> {
+  try {
+    return await dependencies.providers.getForUrl(canonicalUrl).resolve(canonicalUrl, { signal: context.signal })
+  } catch (error) {
+    if (context.signal.aborted) throw error
+    // 替代画廊解析失败不影响原来源的检查结果；替代关系仍会记录，下次检查时再跟进
+    const classified = toArchiveExecutorError(error)
+    context.logger.warn('archive.update_check.replacement_unresolved', {
+      code: classified.code,
+      message: classified.message
+    })
+    return null
+  }
+}
+
+/**
+ * Creates the SystemJob and its ArchiveImport in the caller's transaction,
+ * mirroring the intake enqueue path. ARCHIVE_IMPORT claims require the import
+ * row to reference the job, so runtime enqueueChild cannot be used here.
+ */
+async function enqueueArchiveImport(
+  transaction: UpdateCheckTransaction,
+  context: UpdateCheckContext,
+  dependencies: ArchiveUpdateCheckExecutorDependencies,
+  input: {
+    resolved: ResolvedArchive
+    metadataHash: string
+    quality: ArchiveQuality
+    queuedAt: Date
+    externalRefId: string | null
+  }
+): Promise<string | null> {
+  const { resolved, metadataHash, quality, queuedAt, externalRefId } = input
+  const active = await transaction.archiveImport.findFirst({
+    where: {
+      providerKey: resolved.providerKey,
+      externalId: resolved.externalId,
+      status: { in: [...ACTIVE_IMPORT_STATUSES] }
+    },
+    select: { id: true }
+  })
+  if (active) return null
+
+  const importId = randomUUID()
+  const jobId = randomUUID()
+  const storageDirectory = await resolveArchiveStorageDirectory(transaction, {
+    providerKey: resolved.providerKey,
+    externalId: resolved.externalId,
+    creatorBucket: resolved.creatorBucket,
+    title: resolved.title,
+    tags: resolved.tags,
+    externalRefId
+  })
+  const paths = buildArchiveStoragePaths({
+    scanRoot: dependencies.config.scanRoot,
+    archiveImportId: importId,
+    providerKey: resolved.providerKey,
+    creatorBucket: resolved.creatorBucket,
+    externalId: resolved.externalId,
+    storageDirectory
+  })
+  await transaction.systemJob.create({
+    data: {
+      id: jobId,
+      type: 'ARCHIVE_IMPORT',
+      executionLane: 'BACKGROUND_WRITER',
+      definitionVersion: JOB_DEFINITION_VERSION,
+      status: 'PENDING',
+      triggerSource: 'SYSTEM',
+      parentJobId: context.job.id,
+      payload: archiveImportPayloadSchema.parse({ archiveImportId: importId }),
+      queuePriority: AUTO_IMPORT_QUEUE_PRIORITY,
+      effectivePriority: AUTO_IMPORT_QUEUE_PRIORITY,
+      availableAt: queuedAt,
+      maxAttempts: 3,
+      progress: 0,
+      message: '等待中央 Worker...'
+    }
+  })
+  await transaction.archiveImport.create({
+    data: {
+      id: importId,
+      systemJobId: jobId,
+      providerKey: resolved.providerKey,
+      externalId: resolved.externalId,
+      submittedUrl: resolved.canonicalUrl,
+      canonicalUrl: resolved.canonicalUrl,
+      locator: toInputJson(resolved.locator),
+      requestedQuality: quality,
+      selectedQuality: quality,
+      normalizedMetadata: toInputJson(resolved.normalizedMetadata),
+      rawMetadata: toInputJson(resolved.rawMetadata),
+      metadataHash,
+      creatorBucket: resolved.creatorBucket,
+      storageDirectory,
+      stagingPath: paths.stagingRelativePath,
+      totalItems: resolved.media.length,
+      warning: resolved.warnings.join('\n') || null,
+      items: {
+        create: resolved.media.map((media) => ({
+          pageIndex: media.index,
+          sourcePageUrl: media.sourcePageUrl,
+          locator: toInputJson(media.locator),
+          expectedFilename: media.expectedFilename
+        }))
+      }
+    }
+  })
+  await transaction.systemJobEvent.create({
+    data: {
+      jobId,
+      type: 'job.queued',
+      attempt: 0,
+      message: 'Archive import queued by scheduled update check',
+      data: { archiveImportId: importId, parentJobId: context.job.id, priority: AUTO_IMPORT_QUEUE_PRIORITY }
+    }
+  })
+  return importId
+}
+
+async function previousQuality(transaction: UpdateCheckTransaction, externalRefId: string): Promise<ArchiveQuality> {
+  const published = await transaction.archiveImport.findFirst({
+    where: { externalRefId, status: 'COMPLETED' },
+    orderBy: { finishedAt: 'desc' },
+    select: { selectedQuality: true }
+  })
+  return published?.selectedQuality ?? 'ORIGINAL'
+}
+
+/**
+ * Summarizes what changed between the published Source Snapshot and the
+ * newly resolved metadata. Only field names are kept; both snapshots stay
+ * queryable by hash when the full values are needed.
+ */
+export function diffArchiveSourceSnapshots(
+  previous: Record<string, unknown> | null,
+  current: Record<string, unknown>
+): ArchiveSourceSnapshotDiff {
+  const base = previous ?? {}
+  const keys = [...new Set([...Object.keys(base), ...Object.keys(current)])]
+    .filter((key) => key !== 'tags' && key !== 'mediaPlan')
+    .sort()
+  const fields = keys.filter(
+    (key) =>
+      hashResolvedMetadata({ value: base[key] ?? null }) !== hashResolvedMetadata({ value: current[key] ?? null })
+  )
+  const previousTags = new Set(readTags(base))
+  const currentTags = new Set(readTags(current))
+  return {
+    fields,
+    tagsAdded: [...currentTags].filter((tag) => !previousTags.has(tag)),
+    tagsRemoved: [...previousTags].filter((tag) => !currentTags.has(tag)),
+    pageCount: { before: previous ? readPageCount(previous) : null, after: readPageCount(current) }
+  }
+}
+
+function readTags(metadata: Record<string, unknown>): string[] {
+  if (!Array.isArray(metadata.tags)) return []
+  return metadata.tags.flatMap((value) => {
+    const tag = asRecord(value)
+    if (!tag || typeof tag.name !== 'string') return []
+    return [typeof tag.namespace === 'string' ? `${tag.namespace}:${tag.name}` : tag.name]
+  })
+}
+
+function readPageCount(metadata: Record<string, unknown>): number | null {
+  return Array.isArray(metadata.mediaPlan) ? metadata.mediaPlan.length : null
+}
+
+function isProviderThrottle(error: ArchiveExecutorError): boolean {
+  return error.code === 'REMOTE_RATE_LIMITED' || error.code === 'REMOTE_QUOTA_EXCEEDED'
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+}
+
+function toInputJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
+
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw (
+      signal.reason ??
+      new ArchiveExecutorError('CANCELLED', 'Archive update check was cancelled', { recoverable: true })
+    )
+  }
+}
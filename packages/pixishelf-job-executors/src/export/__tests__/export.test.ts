@@ -0,0 +1,317 @@
+import { mkdir, mkdtemp, readdir, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { readZipDirectory, readZipEntry } from '../../shared/zip-archive.js'
+import { buildComicInfoXml } from '../comic-info.js'
+import { runArtworkExport, sanitizeDownloadName } from '../export.js'
+import { ArtworkExportError, type ArtworkExportSource } from '../types.js'
+
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+function artwork(id: number, overrides: Partial<ArtworkExportSource> = {}): ArtworkExportSource {
+  return {
+    id,
+    title: `Work ${id}`,
+    description: null,
+    externalId: String(1000 + id),
+    sourceDate: new Date('2026-03-04T10:00:00.000Z'),
+    sourceUrl: `https://www.pixiv.net/artworks/${1000 + id}`,
+    originalUrl: null,
+    xRestrict: '0',
+    artist: { name: 'Artist', userId: '42' },
+    artworkTags: [],
+    externalRefs: [],
+    images: [],
+    ...overrides
+  }
+}
+
+async function fixture(options: {
+  artworks: ArtworkExportSource[]
+  series?: { title: string; artworkIds: number[] }
+  label?: string
+}) {
+  const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-export-'))
+  roots.push(root)
+  const scanRoot = path.join(root, 'scan')
+  const storageRoot = path.join(root, 'exports')
+  await mkdir(path.join(scanRoot, 'artist'), { recursive: true })
+  const exportUpdate = vi.fn().mockResolvedValue(undefined)
+  const exportUpdateMany = vi.fn().mockResolvedValue({ count: 1 })
+  const gcUpsert = vi.fn().mockResolvedValue(undefined)
+  const transaction = {
+    artworkExport: { update: exportUpdate, updateMany: exportUpdateMany },
+    derivedMediaGcEntry: { upsert: gcUpsert }
+  }
+  const byId = new Map(options.artworks.map((item) => [item.id, item]))
+  const artworkFindMany = vi.fn(async (query: { where: { id: { in?: number[] } }; select: { title?: boolean } }) => {
+    if (query.select.title) {
+      // Details are requested in batches; return them shuffled to prove the selection order wins.
+      return [...(query.where.id.in ?? [])].reverse().flatMap((id) => (byId.has(id) ? [byId.get(id)!] : []))
+    }
+    return options.artworks.map((item) => ({ id: item.id }))
+  })
+  const seriesFindMany = vi.fn(async () =>
+    (options.series?.artworkIds ?? []).map((artworkId) => ({ artworkId, series: { title: options.series!.title } }))
+  )
+  const database = {
+    artworkExport: {
+      findUnique: vi.fn().mockResolvedValue({ id: 'cexport1', label: options.label ?? '导出: 作品/合集' })
+    },
+    artwork: { findMany: artworkFindMany },
+    seriesArtwork: { findMany: seriesFindMany }
+  }
+  return {
+    scanRoot,
+    storageRoot,
+    exportUpdate,
+    exportUpdateMany,
+    gcUpsert,
+    artworkFindMany,
+    seriesFindMany,
+    async writeMedia(relativePath: string, content: string) {
+      await mkdir(path.dirname(path.join(scanRoot, relativePath)), { recursive: true })
+      await writeFile(path.join(scanRoot, relativePath), content)
+    },
+    input: (payload: Record<string, unknown>, config: { maxArtworks?: number } = {}) => ({
+      jobId: 'job-1',
+      payload: { format: 'CBZ', retentionHours: 72, ...payload } as never,
+      database: database as never,
+      config: { scanRoot, storageRoot, ...config },
+      signal: new AbortController().signal,
+      mutate: (async (operation: (client: never) => Promise<unknown>) => operation(transaction as never)) as never,
+      progress: vi.fn().mockResolvedValue(undefined),
+      now: () => new Date('2026-10-19T00:00:00.000Z')
+    })
+  }
+}
+
+async function readEntries(filePath: string) {
+  const entries = await readZipDirectory(filePath)
+  return Promise.all(
+    entries.map(async (entry) => [entry.name, (await readZipEntry(filePath, entry, { maxBytes: 1 << 20 })).toString()])
+  )
+}
+
+describe('artwork export', () => {
+  it('writes a single artwork as a CBZ with ComicInfo.xml and pages in image order', async () => {
+    const context = await fixture({
+      artworks: [
+        artwork(7, {
+          images: [
+            { id: 12, path: '/artist/p2.PNG', sortOrder: 2 },
+            { id: 10, path: '/artist/p0.jpg', sortOrder: 0 },
+            { id: 11, path: '/artist/p1.jpg', sortOrder: 1 }
+          ]
+        })
+      ],
+      label: '导出: 作品/合集'
+    })
+    await context.writeMedia('artist/p0.jpg', 'page-0')
+    await context.writeMedia('artist/p1.jpg', 'page-1')
+    await context.writeMedia('artist/p2.PNG', 'page-2')
+
+    const result = await runArtworkExport(context.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [7] } }))
+
+    expect(result).toMatchObject({
+      exportId: 'cexport1',
+      artworkCount: 1,
+      fileCount: 3,
+      skippedCount: 0,
+      relativePath: 'cexport1.cbz'
+    })
+    const entries = await readEntries(path.join(context.storageRoot, 'cexport1.cbz'))
+    expect(entries.map(([name]) => name)).toEqual(['ComicInfo.xml', '001.jpg', '002.jpg', '003.png'])
+    expect(entries.slice(1).map(([, content]) => content)).toEqual(['page-0', 'page-1', 'page-2'])
+    expect(entries[0]![1]).toContain('<PageCount>3</PageCount>')
+    expect(await readdir(path.join(context.storageRoot, '.staging'))).toEqual([])
+    expect(context.exportUpdate).toHaveBeenCalledWith({
+      where: { id: 'cexport1' },
+      data: expect.objectContaining({
+        status: 'READY',
+        relativePath: 'cexport1.cbz',
+        fileName: '导出_ 作品_合集.cbz',
+        sizeBytes: BigInt(result.sizeBytes),
+        expiresAt: new Date('2026-10-22T00:00:00.000Z')
+      })
+    })
+    expect(context.gcUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          mediaKind: 'ARTWORK_EXPORT',
+          relativePath: 'cexport1.cbz',
+          referenceType: 'ARTWORK_EXPORT',
+          referenceId: 'cexport1',
+          notBefore: new Date('2026-10-22T00:00:00.000Z')
+        })
+      })
+    )
+  })
+
+  it('bundles a series in reading order and skips artworks whose files are gone', async () => {
+    const context = await fixture({
+      artworks: [
+        artwork(3, { images: [{ id: 30, path: 'artist/c3.jpg', sortOrder: 0 }] }),
+        artwork(1, { images: [{ id: 10, path: 'artist/c1.jpg', sortOrder: 0 }] }),
+        artwork(2, { images: [{ id: 20, path: 'artist/missing.jpg', sortOrder: 0 }] })
+      ],
+      series: { title: 'Saga', artworkIds: [3, 1, 2] }
+    })
+    await context.writeMedia('artist/c1.jpg', 'one')
+    await context.writeMedia('artist/c3.jpg', 'three')
+
+    const result = await runArtworkExport(context.input({ selection: { mode: 'SERIES', seriesId: 5 } }))
+
+    expect(result).toMatchObject({
+      artworkCount: 2,
+      skippedCount: 1,
+      skippedPageCount: 1,
+      fileCount: 2,
+      relativePath: 'cexport1.zip'
+    })
+    expect(result.skippedSamples).toEqual([
+      { artworkId: 2, path: 'artist/missing.jpg', error: 'Media file was not found' }
+    ])
+    const outerPath = path.join(context.storageRoot, 'cexport1.zip')
+    const outer = await readZipDirectory(outerPath)
+    expect(outer.map((entry) => entry.name)).toEqual(['001 Artist - Work 3.cbz', '002 Artist - Work 1.cbz'])
+    const innerPath = path.join(context.storageRoot, 'inner.cbz')
+    await writeFile(innerPath, await readZipEntry(outerPath, outer[0]!, { maxBytes: 1 << 20 }))
+    const inner = await readEntries(innerPath)
+    expect(inner[0]![1]).toContain('<Series>Saga</Series>\n  <Number>1</Number>\n  <Count>3</Count>')
+    expect(inner[1]).toEqual(['001.jpg', 'three'])
+  })
+
+  it('counts missing pages of an exported artwork in the result and the job progress', async () => {
+    const context = await fixture({
+      artworks: [
+        artwork(7, {
+          images: [
+            { id: 10, path: 'artist/p0.jpg', sortOrder: 0 },
+            { id: 11, path: 'artist/p1.jpg', sortOrder: 1 },
+            { id: 12, path: 'artist/p2.jpg', sortOrder: 2 }
+          ]
+        })
+      ]
+    })
+    await context.writeMedia('artist/p0.jpg', 'page-0')
+    await context.writeMedia('artist/p2.jpg', 'page-2')
+    const input = context.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [7] } })
+
+    const result = await runArtworkExport(input)
+
+    expect(result).toMatchObject({ artworkCount: 1, fileCount: 2, skippedCount: 0, skippedPageCount: 1 })
+    expect(result.skippedSamples).toEqual([{ artworkId: 7, path: 'artist/p1.jpg', error: 'Media file was not found' }])
+    const entries = await readEntries(path.join(context.storageRoot, 'cexport1.cbz'))
+    expect(entries.map(([name]) => name)).toEqual(['ComicInfo.xml', '001.jpg', '002.jpg'])
+    expect(input.progress).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'PACKING', data: { total: 1, packed: 1, skipped: 0, skippedPages: 1 } })
+    )
+    expect(input.progress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ stage: 'COMPLETED', message: '导出完成：1 个作品，跳过 0 个作品、1 页' })
+    )
+  })
+
+  it('writes one folder per artwork for the ZIP format', async () => {
+    const context = await fixture({
+      artworks: [
+        artwork(1, { images: [{ id: 10, path: 'artist/a.jpg', sortOrder: 0 }] }),
+        artwork(2, { images: [{ id: 20, path: 'artist/b.jpg', sortOrder: 0 }] })
+      ]
+    })
+    await context.writeMedia('artist/a.jpg', 'a')
+    await context.writeMedia('artist/b.jpg', 'b')
+
+    await runArtworkExport(context.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [1, 2] }, format: 'ZIP' }))
+
+    const entries = await readEntries(path.join(context.storageRoot, 'cexport1.zip'))
+    expect(entries.map(([name]) => name)).toEqual([
+      '001 Artist - Work 1/ComicInfo.xml',
+      '001 Artist - Work 1/001.jpg',
+      '002 Artist - Work 2/ComicInfo.xml',
+      '002 Artist - Work 2/001.jpg'
+    ])
+  })
+
+  it('fails permanently for empty or oversized selections and leaves no file behind', async () => {
+    const empty = await fixture({ artworks: [] })
+    await expect(
+      runArtworkExport(empty.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [9] } }))
+    ).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' })
+
+    const large = await fixture({ artworks: [artwork(1), artwork(2), artwork(3)] })
+    await expect(
+      runArtworkExport(large.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [1, 2, 3] } }, { maxArtworks: 2 }))
+    ).rejects.toThrow('exceeds 2 artworks')
+
+    const missing = await fixture({
+      artworks: [artwork(1, { images: [{ id: 1, path: 'artist/gone.jpg', sortOrder: 0 }] })]
+    })
+    await expect(
+      runArtworkExport(missing.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [1] } }))
+    ).rejects.toBeInstanceOf(ArtworkExportError)
+    await expect(stat(path.join(missing.storageRoot, 'cexport1.cbz'))).rejects.toMatchObject({ code: 'ENOENT' })
+    expect(missing.exportUpdate).not.toHaveBeenCalled()
+  })
+
+  it('refuses media paths that escape the scan root', async () => {
+    const context = await fixture({
+      artworks: [artwork(1, { images: [{ id: 1, path: '../outside.jpg', sortOrder: 0 }] })]
+    })
+    await writeFile(path.join(path.dirname(context.scanRoot), 'outside.jpg'), 'secret')
+
+    await expect(
+      runArtworkExport(context.input({ selection: { mode: 'ARTWORK_IDS', artworkIds: [1] } }))
+    ).rejects.toMatchObject({ code: 'PATH_OUTSIDE_ALLOWED_ROOT' })
+  })
+})
+
+describe('ComicInfo.xml', () => {
+  it('maps metadata in schema order and escapes text', () => {
+    const xml = buildComicInfoXml(
+      artwork(1, {
+        title: 'A & B <C>',
+        description: 'line\u0001 "quoted"',
+        xRestrict: 'R-18',
+        originalUrl: 'https://i.pximg.net/img/1.jpg',
+        externalRefs: [{ canonicalUrl: 'https://www.pixiv.net/artworks/1001' }, { canonicalUrl: 'bad url' }],
+        artworkTags: [
+          { tag: { name: 'landscape', namespace: 'general' } },
+          { tag: { name: 'Rem', namespace: 'character' } },
+          { tag: { name: 'a,b', namespace: 'general' } }
+        ]
+      }),
+      4
+    )
+
+    expect(xml).toBe(
+      [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+        '  <Title>A &amp; B &lt;C&gt;</Title>',
+        '  <Summary>line &quot;quoted&quot;</Summary>',
+        '  <Notes>PixiShelf artwork 1; source id 1001</Notes>',
+        '  <Year>2026</Year>',
+        '  <Month>3</Month>',
+        '  <Day>4</Day>',
+        '  <Writer>Artist</Writer>',
+        '  <Tags>landscape, character:Rem, a b</Tags>',
+        '  <Web>https://www.pixiv.net/artworks/1001 https://i.pximg.net/img/1.jpg</Web>',
+        '  <PageCount>4</PageCount>',
+        '  <AgeRating>Adults Only 18+</AgeRating>',
+        '</ComicInfo>',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('sanitizes download names without breaking multi-byte characters', () => {
+    expect(sanitizeDownloadName('  ..a/b\\c:d*e?f"g<h>i|j\u0007  ')).toBe('a_b_c_d_e_f_g_h_i_j_')
+    expect(sanitizeDownloadName('作品'.repeat(100), 5)).toBe('作品作品作')
+  })
+})
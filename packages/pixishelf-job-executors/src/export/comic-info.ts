@@ -0,0 +1,80 @@
+import type { ArtworkExportSeriesContext, ArtworkExportSource } from './types.ts'
+
+export const COMIC_INFO_FILE_NAME = 'ComicInfo.xml'
+
+// Pixiv stores xRestrict as 0/1/2; sidecar metadata may carry the display labels instead.
+const AGE_RATINGS: Record<string, string> = {
+  '0': 'Everyone',
+  'all-ages': 'Everyone',
+  '1': 'Adults Only 18+',
+  'r-18': 'Adults Only 18+',
+  r18: 'Adults Only 18+',
+  '2': 'X18+',
+  'r-18g': 'X18+',
+  r18g: 'X18+'
+}
+
+/**
+ * Builds ComicInfo.xml (Anansi schema v2.0) for one artwork. Elements are written in
+ * schema order because the XSD declares a sequence and strict readers reject reordering.
+ */
+export function buildComicInfoXml(
+  artwork: ArtworkExportSource,
+  pageCount: number,
+  series: ArtworkExportSeriesContext | null = null
+): string {
+  const elements: Array<[string, string | number | null | undefined]> = [
+    ['Title', artwork.title],
+    ['Series', series?.title],
+    ['Number', series?.number],
+    ['Count', series?.count],
+    ['Summary', artwork.description],
+    ['Notes', artwork.externalId ? `PixiShelf artwork ${artwork.id}; source id ${artwork.externalId}` : null],
+    ['Year', artwork.sourceDate?.getUTCFullYear()],
+    ['Month', artwork.sourceDate ? artwork.sourceDate.getUTCMonth() + 1 : null],
+    ['Day', artwork.sourceDate?.getUTCDate()],
+    ['Writer', artwork.artist?.name],
+    ['Tags', formatTags(artwork.artworkTags)],
+    ['Web', formatWebLinks(artwork)],
+    ['PageCount', pageCount],
+    ['AgeRating', artwork.xRestrict ? AGE_RATINGS[artwork.xRestrict.trim().toLowerCase()] : null]
+  ]
+  const body = elements
+    .filter((element): element is [string, string | number] => element[1] !== null && element[1] !== undefined)
+    .filter(([, value]) => String(value).trim() !== '')
+    .map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`)
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    ...body,
+    '</ComicInfo>',
+    ''
+  ].join('\n')
+}
+
+function formatTags(artworkTags: ArtworkExportSource['artworkTags']) {
+  const tags = artworkTags.map(({ tag }) => (tag.namespace === 'general' ? tag.name : `${tag.namespace}:${tag.name}`))
+  // ComicInfo separates tags with commas, so a comma inside a tag name would split it.
+  return [...new Set(tags.map((tag) => tag.replace(/,/g, ' ').trim()).filter(Boolean))].join(', ')
+}
+
+function formatWebLinks(artwork: ArtworkExportSource) {
+  const links = [artwork.sourceUrl, artwork.originalUrl, ...artwork.externalRefs.map((ref) => ref.canonicalUrl)]
+  // Web is space separated; anything with whitespace is not a usable URL.
+  return [
+    ...new Set(links.filter((link): link is string => typeof link === 'string' && link !== '' && !/\s/.test(link)))
+  ].join(' ')
+}
+
+function escapeXml(value: string) {
+  return (
+    value
+      // oxlint-disable-next-line no-control-regex -- XML 1.0 forbids these characters even when escaped
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  )
+}
@@ -0,0 +1,82 @@
+import { artworkExportPayloadSchema, JOB_DEFINITION_VERSION, type ArtworkExportPayload } from '@pixishelf/job-contracts'
+import type { ExecutorDefinition, QueueSqlExecutor } from '@pixishelf/job-runtime'
+import { markArtworkExportFailed, runArtworkExport } from './export.ts'
+import {
+  ArtworkExportError,
+  type ArtworkExportDatabase,
+  type ArtworkExportResult,
+  type ArtworkExportRuntimeConfig,
+  type ArtworkExportTransaction
+} from './types.ts'
+
+export interface ArtworkExportExecutorDependencies {
+  database: ArtworkExportDatabase
+  config: ArtworkExportRuntimeConfig
+  now?: () => Date
+}
+
+export function createArtworkExportExecutorRegistrations(
+  dependencies: ArtworkExportExecutorDependencies
+): ExecutorDefinition[] {
+  assertConfig(dependencies.config)
+  const now = dependencies.now ?? (() => new Date())
+  const exportDefinition: ExecutorDefinition<ArtworkExportPayload, ArtworkExportResult> = {
+    jobType: 'ARTWORK_EXPORT',
+    executionLane: 'BACKGROUND_WRITER',
+    definitionVersion: JOB_DEFINITION_VERSION,
+    parsePayload: (payload) => artworkExportPayloadSchema.parse(payload),
+    execute: async (context) => {
+      const mutate = <T>(operation: (transaction: ArtworkExportTransaction) => Promise<T>) =>
+        context.mutateInTransaction<ArtworkExportTransaction & QueueSqlExecutor, T>((transaction) =>
+          operation(transaction)
+        )
+      try {
+        const result = await runArtworkExport({
+          jobId: context.job.id,
+          payload: context.payload,
+          database: dependencies.database,
+          config: dependencies.config,
+          signal: context.signal,
+          mutate,
+          progress: (update) =>
+            context.progress({
+              progress: update.percentage,
+              stage: update.stage,
+              message: update.message,
+              ...(update.data ? { data: update.data } : {})
+            }),
+          now
+        })
+        return {
+          kind: 'completed',
+          result,
+          message:
+            result.skippedPageCount > 0
+              ? `作品导出完成，跳过 ${result.skippedCount} 个作品、${result.skippedPageCount} 个缺失页面`
+              : '作品导出完成'
+        }
+      } catch (error) {
+        if (context.signal.aborted) throw error
+        // Filesystem hiccups are retried by the runtime; only the last attempt marks the export failed.
+        if (!(error instanceof ArtworkExportError) && context.job.attempt < context.job.maxAttempts) throw error
+        const message = error instanceof Error ? error.message : 'Unknown artwork export failure'
+        await markArtworkExportFailed({ jobId: context.job.id, mutate, now }, message)
+        return {
+          kind: 'failed',
+          errorCode: error instanceof ArtworkExportError ? error.code : 'INTERNAL_ERROR',
+          error: message,
+          message: '作品导出失败'
+        }
+      }
+    }
+  }
+  return [exportDefinition as ExecutorDefinition]
+}
+
+function assertConfig(config: ArtworkExportRuntimeConfig) {
+  if (!config.scanRoot.trim()) throw new Error('Artwork export scanRoot is required')
+  if (!config.storageRoot.trim()) throw new Error('Artwork export storageRoot is required')
+  if (config.maxArtworks !== undefined && (!Number.isInteger(config.maxArtworks) || config.maxArtworks < 1)) {
+    throw new Error('Artwork export maxArtworks must be a positive integer')
+  }
+}
@@ -0,0 +1,389 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import type { ArtworkExportPayload } from '@pixishelf/job-contracts'
+import { buildMigrationArtworkWhere } from '../migration/prisma-database.ts'
+import { createZipArchiveWriter, ZipArchiveError, type ZipArchiveWriter } from '../shared/zip-archive.ts'
+import { throwIfAborted } from '../video-processing/process-runner.ts'
+import { buildComicInfoXml, COMIC_INFO_FILE_NAME } from './comic-info.ts'
+import {
+  ArtworkExportError,
+  type ArtworkExportDatabase,
+  type ArtworkExportResult,
+  type ArtworkExportRuntimeConfig,
+  type ArtworkExportSeriesContext,
+  type ArtworkExportSource,
+  type RunFencedArtworkExportMutation
+} from './types.ts'
+
+export const DEFAULT_MAX_EXPORT_ARTWORKS = 500
+const ARTWORK_EXPORT_BATCH_SIZE = 50
+const SKIPPED_SAMPLE_LIMIT = 20
+const DOWNLOAD_NAME_MAX_LENGTH = 150
+const STAGING_DIRECTORY = '.staging'
+
+const ARTWORK_EXPORT_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  externalId: true,
+  sourceDate: true,
+  sourceUrl: true,
+  originalUrl: true,
+  xRestrict: true,
+  artist: { select: { name: true, userId: true } },
+  artworkTags: { select: { tag: { select: { name: true, namespace: true } } }, orderBy: { id: 'asc' as const } },
+  externalRefs: { select: { canonicalUrl: true }, orderBy: { createdAt: 'asc' as const } },
+  images: { select: { id: true, path: true, sortOrder: true } }
+}
+
+export interface ArtworkExportInput {
+  jobId: string
+  payload: ArtworkExportPayload
+  database: ArtworkExportDatabase
+  config: ArtworkExportRuntimeConfig
+  signal: AbortSignal
+  mutate: RunFencedArtworkExportMutation
+  progress: (update: {
+    percentage: number
+    stage: string
+    message: string
+    data?: Record<string, unknown>
+  }) => Promise<void>
+  now: () => Date
+}
+
+interface ExportEntry {
+  artwork: ArtworkExportSource
+  series: ArtworkExportSeriesContext | null
+}
+
+/**
+ * Packs the selected artworks into one downloadable archive. CBZ writes one comic per artwork with
+ * ComicInfo.xml and bundles several into an outer zip; ZIP writes a folder per artwork. Pages keep the
+ * artwork's image order. Everything is built under the staging directory and renamed into place, so the
+ * exports root only ever holds complete files.
+ */
+export async function runArtworkExport(input: ArtworkExportInput): Promise<ArtworkExportResult> {
+  const record = await input.database.artworkExport.findUnique({
+    where: { systemJobId: input.jobId },
+    select: { id: true, label: true }
+  })
+  if (!record) throw new ArtworkExportError('SOURCE_NOT_FOUND', 'Artwork export record was not found')
+
+  await input.progress({ percentage: 2, stage: 'SELECTING', message: '正在解析导出范围' })
+  const selected = await selectArtworkIds(input)
+  const maxArtworks = input.config.maxArtworks ?? DEFAULT_MAX_EXPORT_ARTWORKS
+  if (selected.artworkIds.length === 0) {
+    throw new ArtworkExportError('PRECONDITION_FAILED', 'The export selection does not match any artwork')
+  }
+  if (selected.artworkIds.length > maxArtworks) {
+    throw new ArtworkExportError('PRECONDITION_FAILED', `The export selection exceeds ${maxArtworks} artworks`)
+  }
+
+  const storageRoot = path.resolve(input.config.storageRoot)
+  const stagingDirectory = path.join(storageRoot, STAGING_DIRECTORY, record.id)
+  await fs.rm(stagingDirectory, { recursive: true, force: true })
+  await fs.mkdir(stagingDirectory, { recursive: true })
+  const bundled = input.payload.format === 'ZIP' || selected.artworkIds.length > 1
+  const extension = bundled ? 'zip' : 'cbz'
+  const relativePath = `${record.id}.${extension}`
+  const result: ArtworkExportResult = {
+    exportId: record.id,
+    format: input.payload.format,
+    artworkCount: 0,
+    fileCount: 0,
+    skippedCount: 0,
+    skippedPageCount: 0,
+    sizeBytes: 0,
+    relativePath,
+    skippedSamples: []
+  }
+  try {
+    const archivePath = path.join(stagingDirectory, relativePath)
+    const archive = await createZipArchiveWriter(archivePath, { modifiedAt: input.now() })
+    try {
+      const total = selected.artworkIds.length
+      for (let offset = 0; offset < total; offset += ARTWORK_EXPORT_BATCH_SIZE) {
+        const batch = await loadArtworks(
+          input.database,
+          selected.artworkIds.slice(offset, offset + ARTWORK_EXPORT_BATCH_SIZE)
+        )
+        for (const [index, artwork] of batch.entries()) {
+          throwIfAborted(input.signal)
+          const position = offset + index + 1
+          const series = selected.seriesTitle ? { title: selected.seriesTitle, number: position, count: total } : null
+          const written = await writeArtwork(
+            input,
+            archive,
+            stagingDirectory,
+            { artwork, series },
+            {
+              position,
+              total,
+              single: !bundled,
+              result
+            }
+          )
+          if (written) result.artworkCount += 1
+          else result.skippedCount += 1
+          await input.progress({
+            percentage: Math.min(95, 5 + Math.floor((position / total) * 90)),
+            stage: 'PACKING',
+            message: `已打包作品 ${position}/${total}`,
+            data: {
+              total,
+              packed: result.artworkCount,
+              skipped: result.skippedCount,
+              skippedPages: result.skippedPageCount
+            }
+          })
+        }
+      }
+      if (result.artworkCount === 0) {
+        throw new ArtworkExportError('SOURCE_NOT_FOUND', 'None of the selected artworks has a readable media file')
+      }
+      result.sizeBytes = await archive.close()
+    } catch (error) {
+      await archive.abort()
+      if (error instanceof ZipArchiveError) throw new ArtworkExportError('PRECONDITION_FAILED', error.message)
+      throw error
+    }
+
+    throwIfAborted(input.signal)
+    const finalPath = path.join(storageRoot, relativePath)
+    await fs.rename(archivePath, finalPath)
+    const completedAt = input.now()
+    const expiresAt = new Date(completedAt.getTime() + input.payload.retentionHours * 60 * 60_000)
+    try {
+      await publishExport(input, record, result, { extension, expiresAt, completedAt })
+    } catch (error) {
+      // Without the committed row and GC entry nothing would ever clean the file up.
+      await fs.rm(finalPath, { force: true }).catch(() => undefined)
+      throw error
+    }
+    await input.progress({
+      percentage: 100,
+      stage: 'COMPLETED',
+      message: `导出完成：${result.artworkCount} 个作品，跳过 ${result.skippedCount} 个作品、${result.skippedPageCount} 页`,
+      data: { packed: result.artworkCount, skipped: result.skippedCount, skippedPages: result.skippedPageCount }
+    })
+    return result
+  } finally {
+    await fs.rm(stagingDirectory, { recursive: true, force: true }).catch(() => undefined)
+  }
+}
+
+/** Records a permanent failure on the export row so the admin list can show why no file was produced. */
+export async function markArtworkExportFailed(
+  input: Pick<ArtworkExportInput, 'jobId' | 'mutate' | 'now'>,
+  message: string
+): Promise<void> {
+  await input.mutate(async (transaction) => {
+    await transaction.artworkExport.updateMany({
+      where: { systemJobId: input.jobId, status: 'PENDING' },
+      data: { status: 'FAILED', error: message.slice(0, 2_000), completedAt: input.now() }
+    })
+  })
+}
+
+/**
+ * Keeps only characters that are safe in a file name on every common OS. The result is used
+ * for the suggested download name and for entry names inside the archive.
+ */
+export function sanitizeDownloadName(value: string, maxLength = DOWNLOAD_NAME_MAX_LENGTH): string {
+  const cleaned = value
+    // oxlint-disable-next-line no-control-regex -- file names must not contain control characters
+    .replace(/[\\/:*?"<>|\u0000-\u001f\u007f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+  return Array.from(cleaned)
+    .slice(0, maxLength)
+    .join('')
+    .replace(/[ .]+$/, '')
+}
+
+async function publishExport(
+  input: ArtworkExportInput,
+  record: { id: string; label: string },
+  result: ArtworkExportResult,
+  options: { extension: string; expiresAt: Date; completedAt: Date }
+) {
+  const { extension, expiresAt, completedAt } = options
+  const relativePath = result.relativePath
+  await input.mutate(async (transaction) => {
+    await transaction.artworkExport.update({
+      where: { id: record.id },
+      data: {
+        status: 'READY',
+        artworkCount: result.artworkCount,
+        fileCount: result.fileCount,
+        skippedCount: result.skippedCount,
+        relativePath,
+        fileName: `${sanitizeDownloadName(record.label) || 'pixishelf-export'}.${extension}`,
+        sizeBytes: BigInt(result.sizeBytes),
+        error: null,
+        expiresAt,
+        completedAt
+      }
+    })
+    // Registered up front so expiry needs no sweep: GC finds the row expired and deletes the file.
+    await transaction.derivedMediaGcEntry.upsert({
+      where: { mediaKind_relativePath: { mediaKind: 'ARTWORK_EXPORT', relativePath } },
+      create: {
+        mediaKind: 'ARTWORK_EXPORT',
+        relativePath,
+        referenceType: 'ARTWORK_EXPORT',
+        referenceId: record.id,
+        reason: 'ARTWORK_EXPORT_EXPIRED',
+        status: 'PENDING',
+        notBefore: expiresAt
+      },
+      update: {
+        referenceType: 'ARTWORK_EXPORT',
+        referenceId: record.id,
+        reason: 'ARTWORK_EXPORT_EXPIRED',
+        status: 'PENDING',
+        notBefore: expiresAt,
+        attempt: 0,
+        error: null,
+        deletedAt: null
+      }
+    })
+  })
+}
+
+async function selectArtworkIds(
+  input: ArtworkExportInput
+): Promise<{ artworkIds: number[]; seriesTitle: string | null }> {
+  const selection = input.payload.selection
+  const limit = (input.config.maxArtworks ?? DEFAULT_MAX_EXPORT_ARTWORKS) + 1
+  if (selection.mode === 'SERIES') {
+    const members = await input.database.seriesArtwork.findMany({
+      where: { seriesId: selection.seriesId, artwork: { deletedAt: null } },
+      orderBy: [{ sortOrder: 'asc' }, { artworkId: 'asc' }],
+      take: limit,
+      select: { artworkId: true, series: { select: { title: true } } }
+    })
+    return { artworkIds: members.map((member) => member.artworkId), seriesTitle: members[0]?.series.title ?? null }
+  }
+  const artworks = await input.database.artwork.findMany({
+    where: buildMigrationArtworkWhere(selection, 0),
+    orderBy: { id: 'asc' },
+    take: limit,
+    select: { id: true }
+  })
+  return { artworkIds: artworks.map((artwork) => artwork.id), seriesTitle: null }
+}
+
+async function loadArtworks(database: ArtworkExportDatabase, artworkIds: number[]): Promise<ArtworkExportSource[]> {
+  const rows = await database.artwork.findMany({
+    where: { id: { in: artworkIds }, deletedAt: null },
+    select: ARTWORK_EXPORT_SELECT
+  })
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  // findMany with `in` has no defined order; the selection order is the reading order.
+  return artworkIds.flatMap((id) => {
+    const row = byId.get(id)
+    return row ? [row] : []
+  })
+}
+
+async function writeArtwork(
+  input: ArtworkExportInput,
+  archive: ZipArchiveWriter,
+  stagingDirectory: string,
+  entry: ExportEntry,
+  options: { position: number; total: number; single: boolean; result: ArtworkExportResult }
+): Promise<boolean> {
+  const { artwork } = entry
+  const images = [...artwork.images].sort((left, right) => left.sortOrder - right.sortOrder || left.id - right.id)
+  const pages: Array<{ sourcePath: string; extension: string }> = []
+  for (const image of images) {
+    try {
+      pages.push({
+        sourcePath: await resolveExportSource(input.config.scanRoot, image.path),
+        extension: path.extname(image.path).toLowerCase()
+      })
+    } catch (error) {
+      if (error instanceof ArtworkExportError && error.code === 'PATH_OUTSIDE_ALLOWED_ROOT') throw error
+      recordSkipped(options.result, artwork.id, image.path, error)
+    }
+  }
+  if (pages.length === 0) return false
+
+  const width = Math.max(3, String(pages.length).length)
+  const pageName = (index: number) => `${String(index + 1).padStart(width, '0')}${pages[index]!.extension}`
+  const comicInfo = Buffer.from(buildComicInfoXml(artwork, pages.length, entry.series))
+  const title = artworkEntryName(artwork, options.position, options.total)
+
+  if (input.payload.format === 'ZIP') {
+    // Bundles keep each artwork in its own folder; a single-artwork ZIP has the pages at the root.
+    const prefix = options.total > 1 ? `${title}/` : ''
+    await archive.addBuffer(`${prefix}${COMIC_INFO_FILE_NAME}`, comicInfo)
+    for (const [index, page] of pages.entries()) {
+      await archive.addFile(`${prefix}${pageName(index)}`, page.sourcePath, { signal: input.signal })
+    }
+  } else {
+    const target = options.single
+      ? archive
+      : await createZipArchiveWriter(path.join(stagingDirectory, `${artwork.id}.cbz`))
+    try {
+      await target.addBuffer(COMIC_INFO_FILE_NAME, comicInfo)
+      for (const [index, page] of pages.entries()) {
+        await target.addFile(pageName(index), page.sourcePath, { signal: input.signal })
+      }
+      if (target !== archive) {
+        await target.close()
+        const comicPath = path.join(stagingDirectory, `${artwork.id}.cbz`)
+        try {
+          await archive.addFile(`${title}.cbz`, comicPath, { signal: input.signal })
+        } finally {
+          await fs.rm(comicPath, { force: true })
+        }
+      }
+    } catch (error) {
+      if (target !== archive) await target.abort()
+      throw error
+    }
+  }
+  options.result.fileCount += pages.length
+  return true
+}
+
+function artworkEntryName(artwork: ArtworkExportSource, position: number, total: number) {
+  const width = Math.max(3, String(total).length)
+  const artist = artwork.artist?.name ? `${artwork.artist.name} - ` : ''
+  const name = sanitizeDownloadName(`${artist}${artwork.title}`, 100) || `artwork-${artwork.id}`
+  // The position prefix keeps names unique and makes file managers list them in reading order.
+  return `${String(position).padStart(width, '0')} ${name}`
+}
+
+async function resolveExportSource(scanRoot: string, relativePath: string) {
+  const root = await fs.realpath(scanRoot)
+  const candidate = path.resolve(root, relativePath.replace(/^[/\\]+/, ''))
+  assertWithinRoot(root, candidate)
+  const resolved = await fs.realpath(candidate)
+  assertWithinRoot(root, resolved)
+  const stat = await fs.stat(resolved)
+  if (!stat.isFile()) throw new ArtworkExportError('SOURCE_NOT_FOUND', 'Media path is not a file')
+  return resolved
+}
+
+function assertWithinRoot(root: string, candidate: string) {
+  const relative = path.relative(root, candidate)
+  if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) return
+  throw new ArtworkExportError('PATH_OUTSIDE_ALLOWED_ROOT', 'Media path is outside the configured scan root')
+}
+
+function recordSkipped(result: ArtworkExportResult, artworkId: number, filePath: string, error: unknown) {
+  result.skippedPageCount += 1
+  if (result.skippedSamples.length >= SKIPPED_SAMPLE_LIMIT) return
+  const message =
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? 'Media file was not found'
+      : error instanceof Error
+        ? error.message
+        : 'Media file cannot be read'
+  result.skippedSamples.push({ artworkId, path: filePath.slice(0, 240), error: message })
+}
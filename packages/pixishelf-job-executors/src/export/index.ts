@@ -0,0 +1,4 @@
+export * from './comic-info.ts'
+export * from './executors.ts'
+export * from './export.ts'
+export * from './types.ts'
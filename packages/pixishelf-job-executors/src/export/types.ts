@@ -0,0 +1,64 @@
+import type { Prisma, PrismaClient } from '@pixishelf/db'
+
+export type ArtworkExportDatabase = Pick<PrismaClient, 'artwork' | 'seriesArtwork' | 'artworkExport'>
+
+export type ArtworkExportTransaction = Prisma.TransactionClient
+
+export interface ArtworkExportRuntimeConfig {
+  scanRoot: string
+  /** Finished archives; staging lives under `.staging` inside it so the final rename stays on one filesystem. */
+  storageRoot: string
+  /** Upper bound on artworks per export, enforced again here in case a payload bypassed the app precheck. */
+  maxArtworks?: number
+}
+
+export interface ArtworkExportResult {
+  exportId: string
+  format: 'CBZ' | 'ZIP'
+  artworkCount: number
+  fileCount: number
+  /** Artworks left out because none of their pages could be read. */
+  skippedCount: number
+  /** Pages left out because their file is missing or unreadable, including every page of a skipped artwork. */
+  skippedPageCount: number
+  sizeBytes: number
+  relativePath: string
+  skippedSamples: Array<{ artworkId: number; path: string; error: string }>
+}
+
+/** Metadata loaded for one artwork; mapped into ComicInfo.xml. */
+export interface ArtworkExportSource {
+  id: number
+  title: string
+  description: string | null
+  externalId: string | null
+  sourceDate: Date | null
+  sourceUrl: string | null
+  originalUrl: string | null
+  xRestrict: string | null
+  artist: { name: string; userId: string | null } | null
+  artworkTags: Array<{ tag: { name: string; namespace: string } }>
+  externalRefs: Array<{ canonicalUrl: string }>
+  images: Array<{ id: number; path: string; sortOrder: number }>
+}
+
+export interface ArtworkExportSeriesContext {
+  title: string
+  /** 1-based position inside the series. */
+  number: number
+  count: number
+}
+
+export type RunFencedArtworkExportMutation = <T>(
+  operation: (transaction: ArtworkExportTransaction) => Promise<T>
+) => Promise<T>
+
+export class ArtworkExportError extends Error {
+  constructor(
+    readonly code: 'SOURCE_NOT_FOUND' | 'PRECONDITION_FAILED' | 'PATH_OUTSIDE_ALLOWED_ROOT',
+    message: string
+  ) {
+    super(message)
+    this.name = 'ArtworkExportError'
+  }
+}
@@ -1,9 +1,12 @@
 export * from './archive/index.ts'
+export * from './export/index.ts'
 export * from './maintenance/index.ts'
 export * from './migration/index.ts'
 export * from './pending-replace/index.ts'
 export * from './scan/index.ts'
 export * from './shared/index.ts'
+export * from './ugoira/index.ts'
+export * from './video-hls/index.ts'
 export * from './video-keyframe/index.ts'
 export * from './video-media/index.ts'
 export * from './video-processing/index.ts'
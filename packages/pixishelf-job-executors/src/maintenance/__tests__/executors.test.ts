@@ -2,7 +2,7 @@ import { describe, expect, it } from 'vitest'
 import { createMaintenanceExecutorRegistrations } from '../executors.js'
 
 describe('maintenance executor registrations', () => {
-  it('registers exactly the six v1 empty-payload maintenance definitions', () => {
+  it('registers the seven v1 empty-payload maintenance definitions and the budgeted integrity scrub', () => {
     const definitions = createMaintenanceExecutorRegistrations({ database: {} as never, scanRoot: '/scan' })
     expect(definitions.map(({ jobType, definitionVersion }) => ({ jobType, definitionVersion }))).toEqual([
       { jobType: 'ARCHIVE_INTAKE_RETENTION_CLEANUP', definitionVersion: 1 },
@@ -10,11 +10,19 @@ describe('maintenance executor registrations', () => {
       { jobType: 'SCAN_RUN_RETENTION_CLEANUP', definitionVersion: 1 },
       { jobType: 'REFILL_META_SOURCE', definitionVersion: 1 },
       { jobType: 'MEDIA_DERIVED_TAG_SYNC', definitionVersion: 1 },
-      { jobType: 'WEBP_ANIMATION_SCAN', definitionVersion: 1 }
+      { jobType: 'WEBP_ANIMATION_SCAN', definitionVersion: 1 },
+      { jobType: 'IMAGE_PERCEPTUAL_HASH', definitionVersion: 1 },
+      { jobType: 'MEDIA_INTEGRITY_SCRUB', definitionVersion: 1 }
     ])
     for (const definition of definitions) {
-      expect(definition.parsePayload?.({})).toEqual({})
       expect(() => definition.parsePayload?.({ unexpected: true })).toThrow()
+      if (definition.jobType === 'MEDIA_INTEGRITY_SCRUB') continue
+      expect(definition.parsePayload?.({})).toEqual({})
     }
+    expect(definitions.at(-1)?.parsePayload?.({ maxFiles: 10 })).toEqual({
+      maxFiles: 10,
+      maxBytes: 16 * 1024 ** 3,
+      reverifyAfterDays: 90
+    })
   })
 })
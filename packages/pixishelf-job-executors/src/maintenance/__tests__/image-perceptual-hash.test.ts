@@ -0,0 +1,133 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  computeDifferenceHash,
+  differenceHashFromGreyscale,
+  hashImagePerceptually,
+  ImagePerceptualHashConfigurationError,
+  PERCEPTUAL_HASH_BATCH_SIZE
+} from '../image-perceptual-hash.js'
+import type { RunMaintenanceMutation } from '../types.js'
+
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+function landscape(width: number, height: number): Buffer {
+  const pixels = Buffer.alloc(width * height)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      pixels[y * width + x] = Math.round(128 + 60 * Math.sin((x / width) * 5) + 50 * Math.cos((y / height) * 4 + x / width))
+    }
+  }
+  return pixels
+}
+
+function hammingDistance(left: bigint, right: bigint): number {
+  let value = BigInt.asUintN(64, left ^ right)
+  let count = 0
+  while (value > 0n) {
+    count += Number(value & 1n)
+    value >>= 1n
+  }
+  return count
+}
+
+describe('image perceptual hash maintenance', () => {
+  it('packs brighter-than-right comparisons into a signed 64-bit value', () => {
+    const descending = Uint8Array.from({ length: 72 }, (_, index) => 200 - (index % 9) * 10)
+    const ascending = Uint8Array.from({ length: 72 }, (_, index) => (index % 9) * 10)
+
+    expect(differenceHashFromGreyscale(descending)).toBe(-1n)
+    expect(differenceHashFromGreyscale(ascending)).toBe(0n)
+    expect(() => differenceHashFromGreyscale(new Uint8Array(10))).toThrow('Expected a 9x8 greyscale grid')
+  })
+
+  it('keeps resized re-encodes of the same picture within a small Hamming distance', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-phash-'))
+    roots.push(root)
+    const raw = { raw: { width: 180, height: 120, channels: 1 as const } }
+    await sharp(landscape(180, 120), raw).png().toFile(path.join(root, 'original.png'))
+    await sharp(landscape(180, 120), raw).resize(90, 60).jpeg({ quality: 70 }).toFile(path.join(root, 'small.jpg'))
+    await sharp(landscape(180, 120), raw).flop().png().toFile(path.join(root, 'mirrored.png'))
+
+    const original = await computeDifferenceHash(path.join(root, 'original.png'))
+    const small = await computeDifferenceHash(path.join(root, 'small.jpg'))
+    const mirrored = await computeDifferenceHash(path.join(root, 'mirrored.png'))
+
+    expect(hammingDistance(original, small)).toBeLessThanOrEqual(4)
+    expect(hammingDistance(original, mirrored)).toBeGreaterThan(16)
+  })
+
+  it('wraps an unavailable scan root without exposing its absolute path', async () => {
+    const parent = await mkdtemp(path.join(tmpdir(), 'pixishelf-private-phash-root-'))
+    roots.push(parent)
+    const unavailableRoot = path.join(parent, 'does-not-exist')
+
+    const failure = hashImagePerceptually({
+      database: {} as never,
+      mutate: vi.fn() as never,
+      signal: new AbortController().signal,
+      progress: vi.fn(),
+      scanRoot: unavailableRoot
+    })
+
+    await expect(failure).rejects.toBeInstanceOf(ImagePerceptualHashConfigurationError)
+    await failure.catch((error: Error) => {
+      expect(error.message).not.toContain(unavailableRoot)
+    })
+  })
+
+  it('persists hashes and decode failures but leaves missing files pending', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-phash-'))
+    roots.push(root)
+    await writeFile(path.join(root, 'good.png'), 'fixture')
+    await writeFile(path.join(root, 'broken.jpg'), 'fixture')
+    let scanned = false
+    const findMany = vi.fn(async () => {
+      if (scanned) return []
+      scanned = true
+      return [
+        { id: 1, path: 'good.png' },
+        { id: 2, path: 'broken.jpg' },
+        { id: 3, path: 'missing.webp' }
+      ]
+    })
+    const updateMany = vi.fn(async () => ({ count: 1 }))
+    const hashedAt = new Date('2026-09-05T00:00:00.000Z')
+
+    const result = await hashImagePerceptually({
+      database: { image: { findMany, count: vi.fn().mockResolvedValueOnce(3).mockResolvedValueOnce(1) } } as never,
+      mutate: (async (operation) => operation({ image: { updateMany } } as never)) satisfies RunMaintenanceMutation,
+      signal: new AbortController().signal,
+      progress: vi.fn(),
+      scanRoot: root,
+      now: () => hashedAt,
+      computeHash: vi.fn(async (absolutePath: string) => {
+        if (absolutePath.endsWith('broken.jpg')) throw new Error('VipsJpeg: premature end of input')
+        return -42n
+      })
+    })
+
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ take: PERCEPTUAL_HASH_BATCH_SIZE }))
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 1, perceptualHashedAt: null },
+      data: { perceptualHash: -42n, perceptualHashedAt: hashedAt }
+    })
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [2] }, perceptualHashedAt: null },
+      data: { perceptualHash: null, perceptualHashedAt: hashedAt }
+    })
+    expect(updateMany).toHaveBeenCalledTimes(2)
+    expect(result).toMatchObject({ processed: 2, hashed: 1, failed: 2, remainingPending: 1 })
+    expect(result.failedSamples.map(({ errorCode }) => errorCode)).toEqual([
+      'PERCEPTUAL_HASH_FAILED',
+      'MEDIA_FILE_NOT_FOUND'
+    ])
+  })
+})
@@ -0,0 +1,267 @@
+import { mkdtemp, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  computeFileSha256,
+  MediaIntegrityScrubConfigurationError,
+  scrubMediaIntegrity
+} from '../media-integrity-scrub.js'
+import type { RunMaintenanceMutation } from '../types.js'
+
+const roots: string[] = []
+const DEFAULT_PAYLOAD = { maxFiles: 2_000, maxBytes: 16 * 1024 ** 3, reverifyAfterDays: 90 }
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+interface FakeImage {
+  id: number
+  path: string
+  artworkId: number | null
+  contentSha256: string | null
+  contentSize: bigint | null
+  contentMtimeMs: bigint | null
+  contentHashedAt: Date | null
+  contentVerifiedAt: Date | null
+  contentCheckedAt: Date | null
+  createdAt: Date
+}
+
+interface FakeIssue {
+  id: number
+  imageId: number
+  kind: string
+  resolvedAt: Date | null
+  resolution?: string
+  [key: string]: unknown
+}
+
+function image(id: number, mediaPath: string): FakeImage {
+  return {
+    id,
+    path: mediaPath,
+    artworkId: 100 + id,
+    contentSha256: null,
+    contentSize: null,
+    contentMtimeMs: null,
+    contentHashedAt: null,
+    contentVerifiedAt: null,
+    contentCheckedAt: null,
+    createdAt: new Date('2026-04-01T00:00:00.000Z')
+  }
+}
+
+interface DueWhere {
+  OR: [unknown, { contentCheckedAt: { lt: Date } }]
+}
+
+// Applies just enough of the due predicate and ordering for the scrub to walk its queue.
+function fakeLibrary(images: FakeImage[]) {
+  const issues: FakeIssue[] = []
+  const isDue = (row: FakeImage, where: DueWhere) => {
+    const cutoff = where.OR[1].contentCheckedAt.lt
+    return row.artworkId !== null && (row.contentCheckedAt === null || row.contentCheckedAt < cutoff)
+  }
+  const database = {
+    image: {
+      count: vi.fn(async ({ where }: { where: DueWhere }) => images.filter((row) => isDue(row, where)).length),
+      findMany: vi.fn(async ({ where, take }: { where: DueWhere; take: number }) =>
+        images
+          .filter((row) => isDue(row, where))
+          .sort(
+            (left, right) =>
+              (left.contentCheckedAt?.getTime() ?? -1) - (right.contentCheckedAt?.getTime() ?? -1) || left.id - right.id
+          )
+          .slice(0, take)
+          .map((row) => ({ ...row }))
+      )
+    }
+  }
+  const transaction = {
+    image: {
+      updateMany: vi.fn(async ({ where, data }: { where: { id: number }; data: Partial<FakeImage> }) => {
+        const row = images.find((candidate) => candidate.id === where.id)
+        if (row) Object.assign(row, data)
+        return { count: row ? 1 : 0 }
+      })
+    },
+    mediaIntegrityIssue: {
+      updateMany: vi.fn(
+        async ({ where, data }: { where: { imageId: number; kind?: { not: string } }; data: Partial<FakeIssue> }) => {
+          const matched = issues.filter(
+            (issue) =>
+              issue.imageId === where.imageId &&
+              issue.resolvedAt === null &&
+              (!where.kind || issue.kind !== where.kind.not)
+          )
+          for (const issue of matched) Object.assign(issue, data)
+          return { count: matched.length }
+        }
+      ),
+      findFirst: vi.fn(
+        async ({ where }: { where: { imageId: number; kind: string } }) =>
+          issues.find(
+            (issue) => issue.imageId === where.imageId && issue.kind === where.kind && issue.resolvedAt === null
+          ) ?? null
+      ),
+      update: vi.fn(async ({ where, data }: { where: { id: number }; data: Partial<FakeIssue> }) =>
+        Object.assign(issues.find((issue) => issue.id === where.id)!, data)
+      ),
+      create: vi.fn(async ({ data }: { data: { imageId: number; kind: string; [key: string]: unknown } }) => {
+        const issue = { id: issues.length + 1, resolvedAt: null, ...data }
+        issues.push(issue)
+        return issue
+      })
+    }
+  }
+  const mutate = (async (operation) => operation(transaction as never)) satisfies RunMaintenanceMutation
+  return { database: database as never, mutate, issues, transaction }
+}
+
+async function scrub(
+  root: string,
+  library: ReturnType<typeof fakeLibrary>,
+  at: string,
+  payload: Partial<typeof DEFAULT_PAYLOAD> = {}
+) {
+  return scrubMediaIntegrity({
+    database: library.database,
+    mutate: library.mutate,
+    signal: new AbortController().signal,
+    progress: vi.fn(),
+    scanRoot: root,
+    payload: { ...DEFAULT_PAYLOAD, ...payload },
+    jobId: 'job-1',
+    now: () => new Date(at)
+  })
+}
+
+describe('media integrity scrub', () => {
+  it('wraps an unavailable scan root without exposing its absolute path', async () => {
+    const parent = await mkdtemp(path.join(tmpdir(), 'pixishelf-private-scrub-root-'))
+    roots.push(parent)
+    const unavailableRoot = path.join(parent, 'does-not-exist')
+
+    const failure = scrub(unavailableRoot, fakeLibrary([]), '2026-10-19T00:00:00.000Z')
+
+    await expect(failure).rejects.toBeInstanceOf(MediaIntegrityScrubConfigurationError)
+    await failure.catch((error: Error) => expect(error.message).not.toContain(unavailableRoot))
+  })
+
+  it('backfills baselines, then tells silent corruption apart from a replaced file', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-scrub-'))
+    roots.push(root)
+    await writeFile(path.join(root, 'rot.png'), 'original pixels')
+    await writeFile(path.join(root, 'replaced.png'), 'first upload')
+    // Whole seconds survive the utimes float round-trip; sub-millisecond mtimes can truncate to a different ms.
+    await utimes(path.join(root, 'rot.png'), new Date('2026-05-01'), new Date('2026-05-01'))
+    const images = [image(1, 'rot.png'), image(2, 'replaced.png'), image(3, 'gone.mp4')]
+    const library = fakeLibrary(images)
+
+    const first = await scrub(root, library, '2026-06-01T00:00:00.000Z')
+
+    expect(first).toMatchObject({ checked: 3, hashed: 2, missing: 1, remainingDue: 0, budgetExhausted: false })
+    expect(images[0]).toMatchObject({
+      contentSha256: await computeFileSha256(path.join(root, 'rot.png')),
+      contentSize: 15n,
+      contentHashedAt: new Date('2026-06-01T00:00:00.000Z'),
+      contentVerifiedAt: new Date('2026-06-01T00:00:00.000Z')
+    })
+    expect(library.issues).toEqual([
+      expect.objectContaining({
+        imageId: 3,
+        artworkId: 103,
+        kind: 'MISSING',
+        expectedSha256: null,
+        baselineSince: null,
+        jobId: 'job-1'
+      })
+    ])
+
+    // Bit rot keeps the timestamp; a writer replacing the file does not.
+    await writeFile(path.join(root, 'rot.png'), 'original pixelz')
+    await utimes(path.join(root, 'rot.png'), new Date('2026-05-01'), new Date('2026-05-01'))
+    await writeFile(path.join(root, 'replaced.png'), 'second upload')
+    await utimes(path.join(root, 'replaced.png'), new Date('2026-07-01'), new Date('2026-07-01'))
+
+    const second = await scrub(root, library, '2026-10-19T00:00:00.000Z')
+
+    expect(second).toMatchObject({ checked: 3, mismatched: 1, rebaselined: 1, missing: 1 })
+    expect(library.issues).toHaveLength(2)
+    expect(library.issues[0]).toMatchObject({ kind: 'MISSING', lastSeenAt: new Date('2026-10-19T00:00:00.000Z') })
+    expect(library.issues[1]).toMatchObject({
+      imageId: 1,
+      kind: 'MISMATCH',
+      expectedSha256: images[0]!.contentSha256,
+      actualSha256: await computeFileSha256(path.join(root, 'rot.png')),
+      lastVerifiedAt: new Date('2026-06-01T00:00:00.000Z'),
+      baselineSince: new Date('2026-05-01T00:00:00.000Z'),
+      resolvedAt: null
+    })
+    expect(images[1]!.contentSha256).toBe(await computeFileSha256(path.join(root, 'replaced.png')))
+    expect(images[0]!.contentVerifiedAt).toEqual(new Date('2026-06-01T00:00:00.000Z'))
+  })
+
+  it('keeps detecting corruption after a verified file is touched', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-scrub-'))
+    roots.push(root)
+    await writeFile(path.join(root, 'copied.png'), 'original pixels')
+    await utimes(path.join(root, 'copied.png'), new Date('2026-05-01'), new Date('2026-05-01'))
+    const images = [image(1, 'copied.png')]
+    const library = fakeLibrary(images)
+    await scrub(root, library, '2026-06-01T00:00:00.000Z')
+
+    // A touch or restore keeps the bytes but moves the mtime; the verify pass must adopt it.
+    await utimes(path.join(root, 'copied.png'), new Date('2026-07-01'), new Date('2026-07-01'))
+    const touched = await scrub(root, library, '2026-09-01T00:00:00.000Z')
+    expect(touched).toMatchObject({ checked: 1, verified: 1 })
+    expect(images[0]!.contentMtimeMs).toBe(BigInt(new Date('2026-07-01').getTime()))
+
+    await writeFile(path.join(root, 'copied.png'), 'original pixelz')
+    await utimes(path.join(root, 'copied.png'), new Date('2026-07-01'), new Date('2026-07-01'))
+    const rotted = await scrub(root, library, '2026-12-01T00:00:00.000Z')
+
+    expect(rotted).toMatchObject({ checked: 1, mismatched: 1, rebaselined: 0 })
+    expect(library.issues).toEqual([
+      expect.objectContaining({ imageId: 1, kind: 'MISMATCH', lastVerifiedAt: new Date('2026-09-01T00:00:00.000Z') })
+    ])
+  })
+
+  it('resolves an open issue once the file verifies again', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-scrub-'))
+    roots.push(root)
+    const images = [image(1, 'restored.jpg')]
+    const library = fakeLibrary(images)
+    await scrub(root, library, '2026-06-01T00:00:00.000Z')
+    await writeFile(path.join(root, 'restored.jpg'), 'from backup')
+
+    const result = await scrub(root, library, '2026-10-19T00:00:00.000Z')
+
+    expect(result).toMatchObject({ hashed: 1, resolved: 1 })
+    expect(library.issues[0]).toMatchObject({
+      kind: 'MISSING',
+      resolvedAt: new Date('2026-10-19T00:00:00.000Z'),
+      resolution: 'VERIFIED'
+    })
+  })
+
+  it('stops at the file or byte budget and leaves the rest due for the next run', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-scrub-'))
+    roots.push(root)
+    await writeFile(path.join(root, 'a.png'), '1234567890')
+    await writeFile(path.join(root, 'b.png'), '1234567890')
+    await writeFile(path.join(root, 'c.png'), '1234567890')
+    const library = fakeLibrary([image(1, 'a.png'), image(2, 'b.png'), image(3, 'c.png')])
+
+    const byFiles = await scrub(root, library, '2026-06-01T00:00:00.000Z', { maxFiles: 1 })
+    expect(byFiles).toMatchObject({ checked: 1, budgetExhausted: true, remainingDue: 2 })
+
+    const byBytes = await scrub(root, library, '2026-06-01T00:00:00.000Z', { maxBytes: 15 })
+    expect(byBytes).toMatchObject({ checked: 1, bytesRead: 10, budgetExhausted: true, remainingDue: 1 })
+
+    const rest = await scrub(root, library, '2026-06-01T00:00:00.000Z')
+    expect(rest).toMatchObject({ checked: 1, hashed: 1, budgetExhausted: false, remainingDue: 0 })
+  })
+})
@@ -1,6 +1,13 @@
-import { emptyJobPayloadSchema, JOB_DEFINITION_VERSION } from '@pixishelf/job-contracts'
+import {
+  emptyJobPayloadSchema,
+  JOB_DEFINITION_VERSION,
+  mediaIntegrityScrubPayloadSchema,
+  type MediaIntegrityScrubPayload
+} from '@pixishelf/job-contracts'
 import type { EnqueuedChildJob, ExecutionContext, ExecutorDefinition, QueueSqlExecutor } from '@pixishelf/job-runtime'
 import { cleanupArchiveIntakeHistory } from './archive-intake-retention-cleanup.ts'
+import { hashImagePerceptually } from './image-perceptual-hash.ts'
+import { scrubMediaIntegrity } from './media-integrity-scrub.ts'
 import { syncAllMediaDerivedTags } from './media-derived-tag-sync.ts'
 import { refillMetaSource } from './refill-meta-source.ts'
 import { cleanupScanRunHistory } from './scan-run-cleanup.ts'
@@ -53,10 +60,40 @@ export function createMaintenanceExecutorRegistrations(
         ...operationInput(context, dependencies.database),
         scanRoot: dependencies.scanRoot
       })
-    ) as ExecutorDefinition
+    ) as ExecutorDefinition,
+    definition('IMAGE_PERCEPTUAL_HASH', (context) =>
+      hashImagePerceptually({
+        ...operationInput(context, dependencies.database),
+        scanRoot: dependencies.scanRoot,
+        ...(dependencies.now ? { now: dependencies.now } : {})
+      })
+    ) as ExecutorDefinition,
+    mediaIntegrityScrubDefinition(dependencies) as ExecutorDefinition
   ]
 }
 
+function mediaIntegrityScrubDefinition(
+  dependencies: MaintenanceExecutorDependencies
+): ExecutorDefinition<MediaIntegrityScrubPayload, Awaited<ReturnType<typeof scrubMediaIntegrity>>> {
+  return {
+    jobType: 'MEDIA_INTEGRITY_SCRUB',
+    executionLane: 'BACKGROUND_WRITER',
+    definitionVersion: JOB_DEFINITION_VERSION,
+    parsePayload: (payload) => mediaIntegrityScrubPayloadSchema.parse(payload),
+    execute: async (context) => ({
+      kind: 'completed',
+      result: await scrubMediaIntegrity({
+        ...operationInput(context, dependencies.database),
+        scanRoot: dependencies.scanRoot,
+        payload: context.payload,
+        jobId: context.job.id,
+        ...(dependencies.now ? { now: dependencies.now } : {})
+      }),
+      message: 'MEDIA_INTEGRITY_SCRUB completed'
+    })
+  }
+}
+
 function definition<TResult>(
   jobType:
     | 'ARCHIVE_INTAKE_RETENTION_CLEANUP'
@@ -64,7 +101,8 @@ function definition<TResult>(
     | 'SCAN_RUN_RETENTION_CLEANUP'
     | 'REFILL_META_SOURCE'
     | 'MEDIA_DERIVED_TAG_SYNC'
-    | 'WEBP_ANIMATION_SCAN',
+    | 'WEBP_ANIMATION_SCAN'
+    | 'IMAGE_PERCEPTUAL_HASH',
   run: (context: ExecutionContext<EmptyPayload, EnqueuedChildJob>) => Promise<TResult>
 ): ExecutorDefinition<EmptyPayload, TResult> {
   return {
@@ -80,7 +118,10 @@ function definition<TResult>(
   }
 }
 
-function operationInput(context: ExecutionContext<EmptyPayload, EnqueuedChildJob>, database: MaintenanceDatabase) {
+function operationInput<TPayload>(
+  context: ExecutionContext<TPayload, EnqueuedChildJob>,
+  database: MaintenanceDatabase
+) {
   const mutate: RunMaintenanceMutation = <T>(operation: (transaction: MaintenanceTransaction) => Promise<T>) =>
     context.mutateInTransaction<MaintenanceTransaction & QueueSqlExecutor, T>((transaction) => operation(transaction))
   return {
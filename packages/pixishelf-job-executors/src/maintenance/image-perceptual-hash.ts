@@ -0,0 +1,251 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import type { EnqueuedChildJob, ExecutionContext } from '@pixishelf/job-runtime'
+import sharp from 'sharp'
+import type { MaintenanceOperationInput } from './types.ts'
+import { throwIfMaintenanceAborted } from './types.ts'
+
+export const PERCEPTUAL_HASH_BATCH_SIZE = 50
+const FAILED_SAMPLE_LIMIT = 20
+const DHASH_WIDTH = 8
+const DHASH_HEIGHT = 8
+const PERCEPTUAL_HASH_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.apng', '.webp', '.gif', '.avif', '.tif', '.tiff']
+const PATH_FILTERS = PERCEPTUAL_HASH_EXTENSIONS.map((extension) => ({
+  path: { endsWith: extension, mode: 'insensitive' as const }
+}))
+const SHARP_INPUT_PIXEL_LIMIT = 268_402_689
+
+export interface ImagePerceptualHashResult {
+  processed: number
+  hashed: number
+  failed: number
+  remainingPending: number
+  failedSamples: Array<{ id: number; path: string; errorCode: ImagePerceptualHashFailureCode; error: string }>
+}
+
+export type ImagePerceptualHashFailureCode =
+  | 'PATH_OUTSIDE_SCAN_ROOT'
+  | 'MEDIA_FILE_NOT_FOUND'
+  | 'MEDIA_FILE_UNREADABLE'
+  | 'PERCEPTUAL_HASH_FAILED'
+
+export class ImagePerceptualHashConfigurationError extends Error {
+  readonly code = 'SCAN_ROOT_UNAVAILABLE'
+
+  constructor() {
+    super('Configured perceptual hash scan root is unavailable')
+    this.name = 'ImagePerceptualHashConfigurationError'
+  }
+}
+
+/**
+ * Hashes every still or animated image that has never been hashed. SCAN and
+ * ARCHIVE_IMPORT enqueue this as a follow-up child, so the pending predicate is
+ * the incremental boundary: only decode failures are persisted as attempted,
+ * while filesystem failures stay pending for the next run.
+ */
+export async function hashImagePerceptually(
+  input: MaintenanceOperationInput & {
+    scanRoot: string
+    computeHash?: (absolutePath: string) => Promise<bigint>
+    now?: () => Date
+  }
+): Promise<ImagePerceptualHashResult> {
+  const canonicalRoot = await resolveCanonicalScanRoot(input.scanRoot)
+  const compute = input.computeHash ?? computeDifferenceHash
+  const now = input.now ?? (() => new Date())
+  const pendingWhere = {
+    perceptualHashedAt: null,
+    artworkId: { not: null },
+    mediaType: { in: ['IMAGE' as const, 'ANIMATION' as const, 'UNKNOWN' as const] },
+    OR: PATH_FILTERS
+  }
+  const totalPending = await input.database.image.count({ where: pendingWhere })
+  const result: ImagePerceptualHashResult = {
+    processed: 0,
+    hashed: 0,
+    failed: 0,
+    remainingPending: totalPending,
+    failedSamples: []
+  }
+  let cursor = 0
+  await input.progress({
+    percentage: totalPending === 0 ? 100 : 5,
+    stage: 'HASHING',
+    message: totalPending === 0 ? '没有待计算指纹的图片' : `待计算指纹图片 ${totalPending} 个`,
+    data: { totalPending }
+  })
+
+  while (true) {
+    throwIfMaintenanceAborted(input.signal)
+    const batch = await input.database.image.findMany({
+      where: { ...pendingWhere, id: { gt: cursor } },
+      orderBy: { id: 'asc' },
+      take: PERCEPTUAL_HASH_BATCH_SIZE,
+      select: { id: true, path: true }
+    })
+    if (batch.length === 0) break
+    cursor = batch.at(-1)!.id
+    const hashes: Array<{ id: number; hash: bigint }> = []
+    const undecodableIds: number[] = []
+    for (const image of batch) {
+      throwIfMaintenanceAborted(input.signal)
+      try {
+        const absolutePath = await resolveExistingPathWithinRoot(canonicalRoot, image.path)
+        hashes.push({ id: image.id, hash: await compute(absolutePath) })
+      } catch (error) {
+        throwIfMaintenanceAborted(input.signal)
+        const failure = classifyPerceptualHashFailure(error)
+        if (failure.code === 'PERCEPTUAL_HASH_FAILED') undecodableIds.push(image.id)
+        result.failed += 1
+        if (result.failedSamples.length < FAILED_SAMPLE_LIMIT) {
+          result.failedSamples.push({
+            id: image.id,
+            path: safeMediaReference(image.path, image.id),
+            errorCode: failure.code,
+            error: failure.summary
+          })
+        }
+      }
+    }
+    throwIfMaintenanceAborted(input.signal)
+    const hashedAt = now()
+    await input.mutate(async (transaction) => {
+      for (const { id, hash } of hashes) {
+        await transaction.image.updateMany({
+          where: { id, perceptualHashedAt: null },
+          data: { perceptualHash: hash, perceptualHashedAt: hashedAt }
+        })
+      }
+      if (undecodableIds.length > 0) {
+        await transaction.image.updateMany({
+          where: { id: { in: undecodableIds }, perceptualHashedAt: null },
+          data: { perceptualHash: null, perceptualHashedAt: hashedAt }
+        })
+      }
+    })
+    result.hashed += hashes.length
+    result.processed += hashes.length + undecodableIds.length
+    const attempts = result.hashed + result.failed
+    await input.progress({
+      percentage: Math.min(99, 5 + Math.floor((attempts / Math.max(1, totalPending)) * 94)),
+      stage: 'HASHING',
+      message: `已计算 ${result.hashed} 个，失败 ${result.failed} 个`,
+      data: {
+        totalPending,
+        processed: result.processed,
+        hashed: result.hashed,
+        failed: result.failed,
+        remainingPending: Math.max(0, totalPending - attempts)
+      }
+    })
+  }
+
+  throwIfMaintenanceAborted(input.signal)
+  result.remainingPending = await input.database.image.count({ where: pendingWhere })
+  await input.progress({
+    percentage: 100,
+    stage: 'COMPLETED',
+    message: `图片指纹计算完成：成功 ${result.hashed} 个，失败 ${result.failed} 个`
+  })
+  return result
+}
+
+/**
+ * Queues the incremental hash pass after a job that created media. The child
+ * shares the serialized writer lane with its parent, so it is claimed only
+ * after the parent's publication transaction has committed; the idempotency
+ * key keeps parent retries from queueing duplicates.
+ */
+export function enqueueImagePerceptualHashFollowUp(
+  context: Pick<ExecutionContext<unknown, EnqueuedChildJob>, 'job' | 'enqueueChild'>
+): Promise<EnqueuedChildJob> {
+  return context.enqueueChild({
+    type: 'IMAGE_PERCEPTUAL_HASH',
+    payload: {},
+    idempotencyKey: `image-perceptual-hash:${context.job.id}`
+  })
+}
+
+/**
+ * 64-bit difference hash: the first frame is flattened onto white, reduced to
+ * a 9x8 greyscale grid, and each bit records whether a pixel is brighter than
+ * its right neighbour. The value is returned as a signed 64-bit integer so it
+ * round-trips through PostgreSQL BIGINT unchanged.
+ */
+export async function computeDifferenceHash(absolutePath: string): Promise<bigint> {
+  const { data, info } = await sharp(absolutePath, {
+    failOn: 'error',
+    limitInputPixels: SHARP_INPUT_PIXEL_LIMIT,
+    sequentialRead: true
+  })
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(DHASH_WIDTH + 1, DHASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return differenceHashFromGreyscale(data, info.channels)
+}
+
+export function differenceHashFromGreyscale(pixels: Uint8Array, channels = 1): bigint {
+  const rowWidth = DHASH_WIDTH + 1
+  if (pixels.length !== rowWidth * DHASH_HEIGHT * channels) {
+    throw new Error(`Expected a ${rowWidth}x${DHASH_HEIGHT} greyscale grid`)
+  }
+  let hash = 0n
+  for (let y = 0; y < DHASH_HEIGHT; y += 1) {
+    for (let x = 0; x < DHASH_WIDTH; x += 1) {
+      const left = pixels[(y * rowWidth + x) * channels]!
+      const right = pixels[(y * rowWidth + x + 1) * channels]!
+      hash = (hash << 1n) | (left > right ? 1n : 0n)
+    }
+  }
+  return BigInt.asIntN(64, hash)
+}
+
+async function resolveCanonicalScanRoot(scanRoot: string): Promise<string> {
+  try {
+    return await fs.realpath(scanRoot)
+  } catch {
+    throw new ImagePerceptualHashConfigurationError()
+  }
+}
+
+async function resolveExistingPathWithinRoot(canonicalRoot: string, relativePath: string): Promise<string> {
+  const candidate = path.resolve(canonicalRoot, relativePath.replace(/^[/\\]+/, ''))
+  assertWithinRoot(canonicalRoot, candidate)
+  const canonicalCandidate = await fs.realpath(candidate)
+  assertWithinRoot(canonicalRoot, canonicalCandidate)
+  const stat = await fs.stat(canonicalCandidate)
+  if (!stat.isFile()) throw Object.assign(new Error('Perceptual hash path is not a file'), { code: 'ENOENT' })
+  return canonicalCandidate
+}
+
+function assertWithinRoot(root: string, candidate: string): void {
+  const relative = path.relative(root, candidate)
+  if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) return
+  throw new Error('Perceptual hash path is outside the configured scan root')
+}
+
+function safeMediaReference(mediaPath: string, imageId: number): string {
+  const source = mediaPath.replace(/\\/g, '/')
+  const normalized = source.replace(/^\/+/, '')
+  if (source.startsWith('//') || /^[a-z]:\//i.test(source) || normalized.split('/').includes('..')) {
+    return `image:${imageId}`
+  }
+  return normalized.slice(0, 240) || `image:${imageId}`
+}
+
+function classifyPerceptualHashFailure(error: unknown): { code: ImagePerceptualHashFailureCode; summary: string } {
+  const code =
+    typeof error === 'object' && error !== null && 'code' in error && typeof error.code === 'string' ? error.code : null
+  const message = error instanceof Error ? error.message : ''
+  if (message.includes('outside the configured scan root')) {
+    return { code: 'PATH_OUTSIDE_SCAN_ROOT', summary: 'Media path is outside the configured scan root' }
+  }
+  if (code === 'ENOENT') return { code: 'MEDIA_FILE_NOT_FOUND', summary: 'Media file was not found' }
+  if (code === 'EACCES' || code === 'EPERM') {
+    return { code: 'MEDIA_FILE_UNREADABLE', summary: 'Media file could not be read' }
+  }
+  return { code: 'PERCEPTUAL_HASH_FAILED', summary: 'Media file could not be decoded for hashing' }
+}
@@ -1,6 +1,8 @@
 export * from './executors.ts'
 export * from './archive-intake-retention-cleanup.ts'
+export * from './image-perceptual-hash.ts'
 export * from './media-derived-tag-sync.ts'
+export * from './media-integrity-scrub.ts'
 export * from './refill-meta-source.ts'
 export * from './scan-run-cleanup.ts'
 export * from './trigger-log-cleanup.ts'
@@ -0,0 +1,378 @@
+import { createHash } from 'node:crypto'
+import { createReadStream } from 'node:fs'
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import type { MediaIntegrityScrubPayload } from '@pixishelf/job-contracts'
+import type { MaintenanceOperationInput, MaintenanceTransaction } from './types.ts'
+import { throwIfMaintenanceAborted } from './types.ts'
+
+export const MEDIA_INTEGRITY_SCRUB_BATCH_SIZE = 50
+const FAILED_SAMPLE_LIMIT = 20
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type MediaIntegrityIssueKind = 'MISSING' | 'MISMATCH' | 'UNREADABLE'
+
+/**
+ * VERIFIED: the file matched its baseline again. REPLACED: a writer replaced the
+ * file and a new baseline was taken. SUPERSEDED: a different kind of issue was
+ * recorded for the same image.
+ */
+export type MediaIntegrityResolution = 'VERIFIED' | 'REPLACED' | 'SUPERSEDED'
+
+export interface MediaIntegrityScrubResult {
+  checked: number
+  hashed: number
+  verified: number
+  rebaselined: number
+  missing: number
+  mismatched: number
+  unreadable: number
+  resolved: number
+  bytesRead: number
+  budgetExhausted: boolean
+  remainingDue: number
+  failedSamples: Array<{ id: number; path: string; errorCode: MediaIntegrityFailureCode; error: string }>
+}
+
+export type MediaIntegrityFailureCode = 'PATH_OUTSIDE_SCAN_ROOT' | 'MEDIA_FILE_NOT_FOUND' | 'MEDIA_FILE_UNREADABLE'
+
+export class MediaIntegrityScrubConfigurationError extends Error {
+  readonly code = 'SCAN_ROOT_UNAVAILABLE'
+
+  constructor() {
+    super('Configured media integrity scan root is unavailable')
+    this.name = 'MediaIntegrityScrubConfigurationError'
+  }
+}
+
+interface ScrubCandidate {
+  id: number
+  path: string
+  artworkId: number | null
+  contentSha256: string | null
+  contentSize: bigint | null
+  contentMtimeMs: bigint | null
+  contentHashedAt: Date | null
+  contentVerifiedAt: Date | null
+  createdAt: Date
+}
+
+type ScrubOutcome =
+  | { kind: 'baseline'; image: ScrubCandidate; sha256: string; size: bigint; mtimeMs: bigint; replaced: boolean }
+  | { kind: 'verified'; image: ScrubCandidate; size: bigint; mtimeMs: bigint }
+  | { kind: 'issue'; image: ScrubCandidate; issue: MediaIntegrityIssueKind; sha256?: string; size?: bigint }
+  | { kind: 'skipped'; image: ScrubCandidate }
+
+/**
+ * Takes and re-checks SHA-256 baselines for every original media file. The due
+ * queue is ordered by contentCheckedAt with never-checked rows first, so one
+ * job both backfills missing baselines and rotates re-verification through the
+ * library; each run stops at its file or byte budget and the next run resumes
+ * from the rows that are still due.
+ *
+ * A content change with an unchanged mtime is recorded as MISMATCH (silent
+ * corruption). A change with a new mtime means a writer replaced the file, so
+ * the baseline is retaken instead of raising an issue.
+ */
+export async function scrubMediaIntegrity(
+  input: MaintenanceOperationInput & {
+    scanRoot: string
+    payload: MediaIntegrityScrubPayload
+    jobId?: string
+    hashFile?: (absolutePath: string) => Promise<string>
+    now?: () => Date
+  }
+): Promise<MediaIntegrityScrubResult> {
+  const canonicalRoot = await resolveCanonicalScanRoot(input.scanRoot)
+  const hashFile = input.hashFile ?? computeFileSha256
+  const now = input.now ?? (() => new Date())
+  const cutoff = new Date(now().getTime() - input.payload.reverifyAfterDays * DAY_MS)
+  const dueWhere = {
+    artworkId: { not: null },
+    OR: [{ contentCheckedAt: null }, { contentCheckedAt: { lt: cutoff } }]
+  }
+  const totalDue = await input.database.image.count({ where: dueWhere })
+  const target = Math.min(totalDue, input.payload.maxFiles)
+  const result: MediaIntegrityScrubResult = {
+    checked: 0,
+    hashed: 0,
+    verified: 0,
+    rebaselined: 0,
+    missing: 0,
+    mismatched: 0,
+    unreadable: 0,
+    resolved: 0,
+    bytesRead: 0,
+    budgetExhausted: false,
+    remainingDue: totalDue,
+    failedSamples: []
+  }
+  await input.progress({
+    percentage: totalDue === 0 ? 100 : 5,
+    stage: 'VERIFYING',
+    message: totalDue === 0 ? '没有需要校验的媒体文件' : `待校验媒体文件 ${totalDue} 个，本次最多 ${target} 个`,
+    data: { totalDue, maxFiles: input.payload.maxFiles, maxBytes: input.payload.maxBytes }
+  })
+
+  while (!result.budgetExhausted) {
+    throwIfMaintenanceAborted(input.signal)
+    const take = Math.min(MEDIA_INTEGRITY_SCRUB_BATCH_SIZE, input.payload.maxFiles - result.checked)
+    if (take <= 0) {
+      result.budgetExhausted = true
+      break
+    }
+    // Every processed row gets a fresh contentCheckedAt and leaves the due set, so no cursor is needed.
+    const batch: ScrubCandidate[] = await input.database.image.findMany({
+      where: dueWhere,
+      orderBy: [{ contentCheckedAt: { sort: 'asc', nulls: 'first' } }, { id: 'asc' }],
+      take,
+      select: {
+        id: true,
+        path: true,
+        artworkId: true,
+        contentSha256: true,
+        contentSize: true,
+        contentMtimeMs: true,
+        contentHashedAt: true,
+        contentVerifiedAt: true,
+        createdAt: true
+      }
+    })
+    if (batch.length === 0) break
+    const outcomes: ScrubOutcome[] = []
+    for (const image of batch) {
+      throwIfMaintenanceAborted(input.signal)
+      let absolutePath: string
+      let stat: { size: number; mtimeMs: number }
+      try {
+        absolutePath = await resolveExistingPathWithinRoot(canonicalRoot, image.path)
+        stat = await fs.stat(absolutePath)
+      } catch (error) {
+        throwIfMaintenanceAborted(input.signal)
+        outcomes.push(failureOutcome(image, error, result))
+        continue
+      }
+      if (result.bytesRead > 0 && result.bytesRead + stat.size > input.payload.maxBytes) {
+        result.budgetExhausted = true
+        break
+      }
+      let sha256: string
+      try {
+        sha256 = await hashFile(absolutePath)
+      } catch (error) {
+        throwIfMaintenanceAborted(input.signal)
+        outcomes.push(failureOutcome(image, error, result))
+        continue
+      }
+      result.bytesRead += stat.size
+      const size = BigInt(stat.size)
+      const mtimeMs = BigInt(Math.trunc(stat.mtimeMs))
+      if (image.contentSha256 === null) {
+        outcomes.push({ kind: 'baseline', image, sha256, size, mtimeMs, replaced: false })
+      } else if (image.contentSha256 === sha256) {
+        outcomes.push({ kind: 'verified', image, size, mtimeMs })
+      } else if (image.contentMtimeMs !== mtimeMs) {
+        outcomes.push({ kind: 'baseline', image, sha256, size, mtimeMs, replaced: true })
+      } else {
+        outcomes.push({ kind: 'issue', image, issue: 'MISMATCH', sha256, size })
+      }
+    }
+    if (outcomes.length === 0) break
+
+    throwIfMaintenanceAborted(input.signal)
+    const checkedAt = now()
+    result.resolved += await input.mutate((transaction) =>
+      applyScrubOutcomes(transaction, outcomes, checkedAt, input.jobId ?? null)
+    )
+    result.checked += outcomes.length
+    for (const outcome of outcomes) {
+      if (outcome.kind === 'baseline') {
+        if (outcome.replaced) result.rebaselined += 1
+        else result.hashed += 1
+      } else if (outcome.kind === 'verified') {
+        result.verified += 1
+      } else if (outcome.kind === 'issue') {
+        if (outcome.issue === 'MISSING') result.missing += 1
+        else if (outcome.issue === 'MISMATCH') result.mismatched += 1
+        else result.unreadable += 1
+      }
+    }
+    await input.progress({
+      percentage: Math.min(99, 5 + Math.floor((result.checked / Math.max(1, target)) * 94)),
+      stage: 'VERIFYING',
+      message: `已校验 ${result.checked} 个，发现问题 ${result.missing + result.mismatched + result.unreadable} 个`,
+      data: {
+        totalDue,
+        checked: result.checked,
+        hashed: result.hashed,
+        verified: result.verified,
+        missing: result.missing,
+        mismatched: result.mismatched,
+        bytesRead: result.bytesRead
+      }
+    })
+  }
+
+  throwIfMaintenanceAborted(input.signal)
+  result.remainingDue = await input.database.image.count({ where: dueWhere })
+  result.budgetExhausted = result.budgetExhausted && result.remainingDue > 0
+  await input.progress({
+    percentage: 100,
+    stage: 'COMPLETED',
+    message: result.budgetExhausted
+      ? `已用完本次校验预算，剩余 ${result.remainingDue} 个待下次继续`
+      : `媒体完整性校验完成：缺失 ${result.missing} 个，内容不一致 ${result.mismatched} 个`
+  })
+  return result
+}
+
+async function applyScrubOutcomes(
+  transaction: MaintenanceTransaction,
+  outcomes: ScrubOutcome[],
+  checkedAt: Date,
+  jobId: string | null
+): Promise<number> {
+  let resolved = 0
+  const resolveOpenIssues = async (
+    imageId: number,
+    resolution: MediaIntegrityResolution,
+    exceptKind?: MediaIntegrityIssueKind
+  ) => {
+    const { count } = await transaction.mediaIntegrityIssue.updateMany({
+      where: { imageId, resolvedAt: null, ...(exceptKind ? { kind: { not: exceptKind } } : {}) },
+      data: { resolvedAt: checkedAt, resolution }
+    })
+    if (resolution !== 'SUPERSEDED') resolved += count
+  }
+
+  for (const outcome of outcomes) {
+    const { image } = outcome
+    if (outcome.kind === 'baseline') {
+      await transaction.image.updateMany({
+        where: { id: image.id },
+        data: {
+          contentSha256: outcome.sha256,
+          contentSize: outcome.size,
+          contentMtimeMs: outcome.mtimeMs,
+          contentHashedAt: checkedAt,
+          contentVerifiedAt: checkedAt,
+          contentCheckedAt: checkedAt
+        }
+      })
+      await resolveOpenIssues(image.id, outcome.replaced ? 'REPLACED' : 'VERIFIED')
+    } else if (outcome.kind === 'verified') {
+      await transaction.image.updateMany({
+        where: { id: image.id },
+        // Refresh the observed mtime so a touch or restore does not turn later corruption into a replacement.
+        data: {
+          contentSize: outcome.size,
+          contentMtimeMs: outcome.mtimeMs,
+          contentVerifiedAt: checkedAt,
+          contentCheckedAt: checkedAt
+        }
+      })
+      await resolveOpenIssues(image.id, 'VERIFIED')
+    } else {
+      await transaction.image.updateMany({ where: { id: image.id }, data: { contentCheckedAt: checkedAt } })
+      if (outcome.kind === 'skipped') continue
+      await resolveOpenIssues(image.id, 'SUPERSEDED', outcome.issue)
+      const open = await transaction.mediaIntegrityIssue.findFirst({
+        where: { imageId: image.id, kind: outcome.issue, resolvedAt: null },
+        select: { id: true }
+      })
+      const observed = { actualSha256: outcome.sha256 ?? null, actualSize: outcome.size ?? null, lastSeenAt: checkedAt }
+      if (open) {
+        await transaction.mediaIntegrityIssue.update({ where: { id: open.id }, data: observed })
+      } else {
+        await transaction.mediaIntegrityIssue.create({
+          data: {
+            imageId: image.id,
+            artworkId: image.artworkId,
+            path: image.path,
+            kind: outcome.issue,
+            expectedSha256: image.contentSha256,
+            expectedSize: image.contentSize,
+            lastVerifiedAt: image.contentVerifiedAt ?? image.contentHashedAt,
+            baselineSince: baselineSince(image),
+            jobId,
+            detectedAt: checkedAt,
+            ...observed
+          }
+        })
+      }
+    }
+  }
+  return resolved
+}
+
+function baselineSince(image: ScrubCandidate): Date | null {
+  if (image.contentMtimeMs === null) return null
+  return new Date(Math.max(image.createdAt.getTime(), Number(image.contentMtimeMs)))
+}
+
+function failureOutcome(image: ScrubCandidate, error: unknown, result: MediaIntegrityScrubResult): ScrubOutcome {
+  const failure = classifyMediaIntegrityFailure(error)
+  if (result.failedSamples.length < FAILED_SAMPLE_LIMIT) {
+    result.failedSamples.push({
+      id: image.id,
+      path: safeMediaReference(image.path, image.id),
+      errorCode: failure.code,
+      error: failure.summary
+    })
+  }
+  // A path outside the scan root is a configuration problem, not damage to the file.
+  if (failure.code === 'PATH_OUTSIDE_SCAN_ROOT') return { kind: 'skipped', image }
+  return { kind: 'issue', image, issue: failure.code === 'MEDIA_FILE_NOT_FOUND' ? 'MISSING' : 'UNREADABLE' }
+}
+
+export async function computeFileSha256(absolutePath: string): Promise<string> {
+  const hash = createHash('sha256')
+  const stream = createReadStream(absolutePath, { highWaterMark: 1024 * 1024 })
+  for await (const chunk of stream) hash.update(chunk)
+  return hash.digest('hex')
+}
+
+async function resolveCanonicalScanRoot(scanRoot: string): Promise<string> {
+  try {
+    return await fs.realpath(scanRoot)
+  } catch {
+    throw new MediaIntegrityScrubConfigurationError()
+  }
+}
+
+async function resolveExistingPathWithinRoot(canonicalRoot: string, relativePath: string): Promise<string> {
+  const candidate = path.resolve(canonicalRoot, relativePath.replace(/^[/\\]+/, ''))
+  assertWithinRoot(canonicalRoot, candidate)
+  const canonicalCandidate = await fs.realpath(candidate)
+  assertWithinRoot(canonicalRoot, canonicalCandidate)
+  const stat = await fs.stat(canonicalCandidate)
+  if (!stat.isFile()) throw Object.assign(new Error('Media integrity path is not a file'), { code: 'ENOENT' })
+  return canonicalCandidate
+}
+
+function assertWithinRoot(root: string, candidate: string): void {
+  const relative = path.relative(root, candidate)
+  if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) return
+  throw new Error('Media integrity path is outside the configured scan root')
+}
+
+function safeMediaReference(mediaPath: string, imageId: number): string {
+  const source = mediaPath.replace(/\\/g, '/')
+  const normalized = source.replace(/^\/+/, '')
+  if (source.startsWith('//') || /^[a-z]:\//i.test(source) || normalized.split('/').includes('..')) {
+    return `image:${imageId}`
+  }
+  return normalized.slice(0, 240) || `image:${imageId}`
+}
+
+function classifyMediaIntegrityFailure(error: unknown): { code: MediaIntegrityFailureCode; summary: string } {
+  const code =
+    typeof error === 'object' && error !== null && 'code' in error && typeof error.code === 'string' ? error.code : null
+  const message = error instanceof Error ? error.message : ''
+  if (message.includes('outside the configured scan root')) {
+    return { code: 'PATH_OUTSIDE_SCAN_ROOT', summary: 'Media path is outside the configured scan root' }
+  }
+  if (code === 'ENOENT' || code === 'ENOTDIR')
+    return { code: 'MEDIA_FILE_NOT_FOUND', summary: 'Media file was not found' }
+  return { code: 'MEDIA_FILE_UNREADABLE', summary: 'Media file could not be read' }
+}
@@ -6,6 +6,7 @@ import type {
   FencedExecutionTransaction,
   QueueSqlExecutor
 } from '@pixishelf/job-runtime'
+import { DEFAULT_STORAGE_LAYOUT_TEMPLATE } from '@pixishelf/job-contracts'
 import { describe, expect, it, vi } from 'vitest'
 import { executeMigration } from '../executor.js'
 import type {
@@ -492,6 +493,47 @@ describe('migration executor', () => {
     )
   })
 
+  it('plans the frozen layout template with sanitized text and a deterministic collision fallback', async () => {
+    const fixture = executorFixture({
+      selection: { mode: 'ARTWORK_IDS', artworkIds: [1] },
+      pages: [[{ id: 1, deletedAt: null }], []],
+      artwork: { ...sourceArtwork(1), artistName: 'A/B: C', title: ' ..Sky?  Night. ' }
+    })
+    fixture.context.payload.layout = { template: '{provider}/{creator}/{externalId}-{title}' }
+    vi.mocked(fixture.database.findStoragePathOwner).mockResolvedValueOnce(7)
+
+    await executeMigration(fixture.context, fixture.dependencies)
+
+    expect(fixture.database.findStoragePathOwner).toHaveBeenNthCalledWith(1, 'pixiv/A_B_ C/123-Sky_ Night', 1)
+    expect(fixture.database.findStoragePathOwner).toHaveBeenNthCalledWith(2, 'pixiv/A_B_ C/123-Sky_ Night~1', 1)
+    const planInput = vi.mocked(fixture.database.createOrLoadPlan).mock.calls[0]![1]
+    expect(planInput).toMatchObject({
+      targetDirectory: 'pixiv/A_B_ C/123-Sky_ Night~1',
+      files: [expect.objectContaining({ targetStoredPath: '/pixiv/A_B_ C/123-Sky_ Night~1/123_p0.jpg' })]
+    })
+    expect(fixture.database.publishArtwork).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ layoutTemplate: '{provider}/{creator}/{externalId}-{title}' })
+    )
+  })
+
+  it('requires action instead of sharing a directory when the collision fallback is also owned', async () => {
+    const fixture = executorFixture({
+      selection: { mode: 'ARTWORK_IDS', artworkIds: [1] },
+      pages: [[{ id: 1, deletedAt: null }]],
+      artwork: sourceArtwork(1)
+    })
+    vi.mocked(fixture.database.findStoragePathOwner).mockResolvedValue(7)
+
+    await executeMigration(fixture.context, fixture.dependencies)
+
+    expect(fixture.database.createOrLoadPlan).not.toHaveBeenCalled()
+    expect(fixture.database.recordUnplannableItem).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ status: 'ACTION_REQUIRED', errorCode: 'TARGET_CONFLICT' })
+    )
+  })
+
   it('rejects too many image rows before enumerating or creating a partial plan', async () => {
     const fixture = executorFixture({
       selection: { mode: 'ARTWORK_IDS', artworkIds: [1] },
@@ -617,6 +659,7 @@ function executorFixture(options: {
       selectPage
     },
     loadArtwork: vi.fn().mockImplementation(async (id) => options.artwork ?? canonicalArtwork(id)),
+    findStoragePathOwner: vi.fn().mockResolvedValue(null),
     loadPlan: vi.fn().mockImplementation(async (_jobId, artworkId) => plans.get(artworkId) ?? null),
     recordUnplannableItem: vi.fn(async (_transaction, input) => {
       const item: MigrationArtworkPlan = {
@@ -665,7 +708,8 @@ function executorFixture(options: {
   const controller = new AbortController()
   const payload: MigrationPayloadV1 = {
     selection: options.selection,
-    safety: { transferMode: 'move', verifyAfterCopy: true, cleanupSource: true }
+    safety: { transferMode: 'move', verifyAfterCopy: true, cleanupSource: true },
+    layout: { template: DEFAULT_STORAGE_LAYOUT_TEMPLATE }
   }
   const context = {
     job: {
@@ -742,6 +786,9 @@ function canonicalArtwork(id: number): MigrationArtworkSnapshot {
     deletedAt: null,
     externalId: String(id),
     artistUserId: 'artist',
+    artistName: 'Artist',
+    title: 'Sky',
+    provider: 'pixiv',
     metaSource: null,
     storagePath: null,
     images: [{ id: id * 10, path: `/artist/${id}/${id}_p0.jpg`, chaptersPath: null }]
@@ -754,6 +801,9 @@ function sourceArtwork(id: number): MigrationArtworkSnapshot {
     deletedAt: null,
     externalId: '123',
     artistUserId: 'artist',
+    artistName: 'Artist',
+    title: 'Sky',
+    provider: 'pixiv',
     metaSource: null,
     storagePath: null,
     images: [{ id: 11, path: '/source/123_p0.jpg', chaptersPath: null }]
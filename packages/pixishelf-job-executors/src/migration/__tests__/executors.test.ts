@@ -18,7 +18,8 @@ describe('migration executor registration', () => {
       })
     ).toEqual({
       selection: { mode: 'ARTWORK_IDS', artworkIds: [1, 2] },
-      safety: { transferMode: 'move', verifyAfterCopy: true, cleanupSource: true }
+      safety: { transferMode: 'move', verifyAfterCopy: true, cleanupSource: true },
+      layout: { template: '{creatorId}/{externalId}' }
     })
     expect(() =>
       migrationPayloadSchema.parse({ selection: { mode: 'QUERY', filters: {}, upperArtworkId: 1 }, extra: true })
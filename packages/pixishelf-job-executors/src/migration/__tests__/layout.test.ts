@@ -0,0 +1,55 @@
+import { DEFAULT_STORAGE_LAYOUT_TEMPLATE } from '@pixishelf/job-contracts'
+import { describe, expect, it } from 'vitest'
+import {
+  renderStorageLayoutDirectory,
+  sanitizeStorageLayoutText,
+  storageLayoutCollisionDirectory,
+  storageLayoutProvider
+} from '../layout.js'
+import { buildCanonicalTargetDirectory } from '../paths.js'
+
+const values = {
+  artworkId: 42,
+  externalId: '123',
+  creatorId: '9001',
+  creator: 'Artist',
+  title: 'Sky',
+  provider: 'pixiv'
+}
+
+describe('migration storage layout', () => {
+  it('renders the default template exactly like the historical canonical directory', () => {
+    expect(renderStorageLayoutDirectory(DEFAULT_STORAGE_LAYOUT_TEMPLATE, values)).toBe(
+      buildCanonicalTargetDirectory('9001', '123')
+    )
+    expect(renderStorageLayoutDirectory('{provider}/{creator}/{externalId}-{title}', values)).toBe(
+      'pixiv/Artist/123-Sky'
+    )
+    expect(storageLayoutCollisionDirectory('pixiv/Artist/123-Sky', 42)).toBe('pixiv/Artist/123-Sky~42')
+    expect(storageLayoutProvider('URL_ARCHIVE', 'e-hentai')).toBe('e-hentai')
+    expect(storageLayoutProvider('LOCAL_IMPORT', null)).toBe('local')
+  })
+
+  it('sanitizes free text into one safe level but never rewrites identities', () => {
+    expect(sanitizeStorageLayoutText(' ..a/b\\c:d\t e?. ', 'untitled')).toBe('a_b_c_d_ e_')
+    expect(sanitizeStorageLayoutText('...', 'untitled')).toBe('untitled')
+    expect(Buffer.byteLength(sanitizeStorageLayoutText('空'.repeat(100), 'untitled'))).toBe(120)
+    expect(renderStorageLayoutDirectory('{creator}/{externalId}', { ...values, creator: 'sources' })).toBe(
+      '_sources/123'
+    )
+    expect(renderStorageLayoutDirectory('{title}/{externalId}', { ...values, title: '.trash' })).toBe('trash/123')
+    expect(renderStorageLayoutDirectory('{title}/{externalId}', { ...values, title: 'CON' })).toBe('_CON/123')
+    expect(renderStorageLayoutDirectory('{creator}/{externalId}', { ...values, creator: null })).toBe('9001/123')
+    expect(() => renderStorageLayoutDirectory('{externalId}', { ...values, externalId: '../123' })).toThrow(
+      'artwork.externalId is not a safe path segment'
+    )
+    expect(() =>
+      renderStorageLayoutDirectory('{externalId}-{title}-{creator}-{provider}', {
+        ...values,
+        title: '空'.repeat(40),
+        creator: '空'.repeat(40),
+        provider: 'p'.repeat(120)
+      })
+    ).toThrow('exceeds 255 bytes')
+  })
+})
@@ -1,3 +1,4 @@
+import { DEFAULT_STORAGE_LAYOUT_TEMPLATE } from '@pixishelf/job-contracts'
 import { describe, expect, it, vi } from 'vitest'
 import {
   buildMigrationArtworkWhere,
@@ -62,7 +63,10 @@ describe('Prisma migration database adapter', () => {
       id: 1,
       deletedAt: null,
       externalId: '123',
-      artist: { userId: 'artist' },
+      title: 'Sky',
+      source: 'PIXIV_IMPORTED',
+      artist: { userId: 'artist', name: 'Artist' },
+      externalRefs: [],
       images: []
     })
     const planFindUnique = vi.fn().mockResolvedValue(null)
@@ -123,6 +127,43 @@ describe('Prisma migration database adapter', () => {
     })
   })
 
+  it('re-renders the frozen layout template and accepts only its target or collision fallback', async () => {
+    const adapter = createPrismaMigrationDatabase(databaseMock())
+    const layoutTemplate = '{provider}/{creator}/{externalId}-{title}'
+    const targetArtwork = publicationArtwork({ imagePath: '/pixiv/Artist/123-Sky~1/page.jpg' })
+    const files = [persistedFile({ targetRelativePath: '/pixiv/Artist/123-Sky~1/page.jpg' })]
+    const publication = { ...publicationInput(files), targetDirectory: 'pixiv/Artist/123-Sky~1', layoutTemplate }
+
+    await expect(
+      adapter.publishArtwork(publicationTransaction(targetArtwork, files) as never, publication)
+    ).resolves.toBeUndefined()
+
+    const renamed = publicationTransaction(publicationArtwork({ title: 'Renamed' }), files)
+    await expect(adapter.publishArtwork(renamed as never, publication)).rejects.toMatchObject({
+      code: 'DATABASE_PATH_CONFLICT'
+    })
+    expect(renamed.image.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('looks up storage path owners case-insensitively in both stored path forms', async () => {
+    const findFirst = vi.fn().mockResolvedValue({ id: 9 })
+    const adapter = createPrismaMigrationDatabase(
+      databaseMock({ artwork: { count: vi.fn(), findMany: vi.fn(), findUnique: vi.fn(), findFirst } })
+    )
+
+    await expect(adapter.findStoragePathOwner('/pixiv/Artist/123', 1)).resolves.toBe(9)
+    expect(findFirst).toHaveBeenCalledWith({
+      where: {
+        id: { not: 1 },
+        OR: [
+          { storagePath: { equals: 'pixiv/Artist/123', mode: 'insensitive' } },
+          { storagePath: { equals: '/pixiv/Artist/123', mode: 'insensitive' } }
+        ]
+      },
+      select: { id: true }
+    })
+  })
+
   it('CAS-updates chaptersPath, metaSource, and storagePath and rechecks their final values', async () => {
     const adapter = createPrismaMigrationDatabase(databaseMock())
     const sourceArtwork = publicationArtwork({
@@ -323,6 +364,7 @@ function publicationInput(files = [persistedFile()]) {
     itemId: 'item-1',
     artworkId: 1,
     targetDirectory: 'artist/123',
+    layoutTemplate: DEFAULT_STORAGE_LAYOUT_TEMPLATE,
     plannedImageIds: [11],
     attempt: 2,
     files: files.map((file) => ({
@@ -338,6 +380,7 @@ function publicationInput(files = [persistedFile()]) {
 function publicationArtwork(
   overrides: Partial<{
     externalId: string
+    title: string
     imagePath: string
     chaptersPath: string | null
     metaSource: string | null
@@ -354,9 +397,12 @@ function publicationArtwork(
     artistId: 7,
     deletedAt: null,
     externalId: overrides.externalId ?? '123',
+    title: overrides.title ?? 'Sky',
+    source: 'PIXIV_IMPORTED',
     metaSource: overrides.metaSource ?? null,
     storagePath: overrides.storagePath ?? null,
-    artist: { userId: 'artist' },
+    artist: { userId: 'artist', name: 'Artist' },
+    externalRefs: [],
     images: overrides.extraImage ? [image, { id: 12, path: '/old/page-2.jpg', chaptersPath: null }] : [image]
   }
 }
@@ -6,8 +6,8 @@ import type {
   JobExecutionOutcome,
   QueueSqlExecutor
 } from '@pixishelf/job-runtime'
+import { renderStorageLayoutDirectory, storageLayoutCollisionDirectory } from './layout.ts'
 import {
-  buildCanonicalTargetDirectory,
   buildCanonicalTargetPath,
   buildStagedRelativePath,
   caseFoldPath,
@@ -266,7 +266,7 @@ async function buildPlanInput<TTransaction extends QueueSqlExecutor>(
   artwork: MigrationArtworkSnapshot,
   selectionOrdinal: number
 ): Promise<CreateMigrationPlanInput> {
-  const targetDirectory = buildCanonicalTargetDirectory(artwork.artistUserId!, artwork.externalId!)
+  const targetDirectory = await resolveLayoutTargetDirectory(context, dependencies, artwork)
   const targetPaths = new Set<string>()
   const sourcePaths = new Set<string>()
   const sourceDirectories = new Set<string>()
@@ -401,6 +401,28 @@ async function buildPlanInput<TTransaction extends QueueSqlExecutor>(
   }
 }
 
+async function resolveLayoutTargetDirectory<TTransaction extends QueueSqlExecutor>(
+  context: MigrationContext,
+  dependencies: MigrationExecutorDependencies<TTransaction>,
+  artwork: MigrationArtworkSnapshot
+) {
+  const rendered = renderStorageLayoutDirectory(context.payload.layout.template, {
+    artworkId: artwork.id,
+    externalId: artwork.externalId!,
+    creatorId: artwork.artistUserId!,
+    creator: artwork.artistName,
+    title: artwork.title,
+    provider: artwork.provider
+  })
+  if ((await dependencies.database.findStoragePathOwner(rendered, artwork.id)) === null) return rendered
+  const fallback = storageLayoutCollisionDirectory(rendered, artwork.id)
+  if ((await dependencies.database.findStoragePathOwner(fallback, artwork.id)) === null) return fallback
+  throw new MigrationActionRequiredError(
+    'TARGET_CONFLICT',
+    'Storage layout target directory already belongs to another artwork'
+  )
+}
+
 async function processArtworkPlan<TTransaction extends QueueSqlExecutor>(
   context: MigrationContext,
   dependencies: MigrationExecutorDependencies<TTransaction>,
@@ -413,6 +435,7 @@ async function processArtworkPlan<TTransaction extends QueueSqlExecutor>(
         itemId: plan.id,
         artworkId: plan.artworkId,
         targetDirectory: plan.targetDirectory!,
+        layoutTemplate: context.payload.layout.template,
         plannedImageIds: plan.files.flatMap((file) => (file.imageId === null ? [] : [file.imageId])),
         attempt: context.job.attempt,
         terminalStatus: 'SKIPPED',
@@ -479,6 +502,7 @@ async function processArtworkPlan<TTransaction extends QueueSqlExecutor>(
         itemId: plan.id,
         artworkId: plan.artworkId,
         targetDirectory: plan.targetDirectory!,
+        layoutTemplate: context.payload.layout.template,
         plannedImageIds: plan.files.flatMap((file) => (file.imageId === null ? [] : [file.imageId])),
         attempt: context.job.attempt,
         files: plan.files.map((file) => ({
@@ -1,6 +1,7 @@
 export * from './executor.ts'
 export * from './executors.ts'
 export * from './file-system.ts'
+export * from './layout.ts'
 export * from './paths.ts'
 export * from './prisma-database.ts'
 export * from './transfer.ts'
@@ -0,0 +1,104 @@
+import { parseStorageLayoutTemplate, type StorageLayoutVariable } from '@pixishelf/job-contracts'
+import { DEFAULT_SCAN_DISCOVERY_EXCLUDED_ROOT_DIRECTORIES } from '../scan/types.ts'
+import { assertSafePathSegment, WINDOWS_RESERVED_SEGMENT } from './paths.ts'
+import { MigrationPermanentError } from './types.ts'
+
+/** Free-text values are cut well below the 255-byte segment limit so literals and ids still fit. */
+const MAX_TEXT_VALUE_BYTES = 120
+const MAX_SEGMENT_BYTES = 255
+const RESERVED_ROOT_SEGMENTS = new Set<string>(DEFAULT_SCAN_DISCOVERY_EXCLUDED_ROOT_DIRECTORIES)
+const UNSAFE_TEXT_CHARACTER = /[<>:"/\\|?*]/
+
+const PROVIDER_BY_SOURCE: Readonly<Record<string, string>> = {
+  PIXIV_IMPORTED: 'pixiv',
+  LOCAL_IMPORT: 'local',
+  LOCAL_CREATED: 'local',
+  URL_ARCHIVE: 'archive'
+}
+
+export interface StorageLayoutValues {
+  artworkId: number
+  externalId: string
+  creatorId: string
+  creator: string | null
+  title: string
+  provider: string
+}
+
+/** The first external reference names the provider; artworks without one fall back to their source. */
+export function storageLayoutProvider(source: string, externalProviderKey: string | null): string {
+  return externalProviderKey ?? PROVIDER_BY_SOURCE[source] ?? 'unknown'
+}
+
+/**
+ * Renders the scan-root-relative artwork directory for a validated template. Identity values
+ * must already be safe segments and are never rewritten, so the default template yields the
+ * same directory as the historical canonical layout; free text is sanitized instead.
+ */
+export function renderStorageLayoutDirectory(template: string, values: StorageLayoutValues): string {
+  const segments = parseStorageLayoutTemplate(template).map((parts) =>
+    parts.map((part) => (part.kind === 'literal' ? part.value : layoutValue(part.name, values))).join('')
+  )
+  return segments.map((segment, index) => finalizeSegment(segment, index === 0)).join('/')
+}
+
+/**
+ * Deterministic fallback when another artwork already owns the rendered directory: the
+ * artwork id is appended to the last level, so the same artwork always lands in the same place.
+ */
+export function storageLayoutCollisionDirectory(directory: string, artworkId: number): string {
+  const segments = directory.split('/')
+  segments[segments.length - 1] = `${segments.at(-1)}~${artworkId}`
+  return segments.map((segment, index) => finalizeSegment(segment, index === 0)).join('/')
+}
+
+export function sanitizeStorageLayoutText(value: string, fallback: string): string {
+  const replaced = [...value.normalize('NFC')]
+    .map((character) => (character.charCodeAt(0) <= 0x1f || UNSAFE_TEXT_CHARACTER.test(character) ? '_' : character))
+    .join('')
+    .replace(/\s+/g, ' ')
+  const text = truncateUtf8(replaced.trim(), MAX_TEXT_VALUE_BYTES)
+    .replace(/^[. ]+/, '')
+    .replace(/[. ]+$/, '')
+  return text || fallback
+}
+
+function layoutValue(name: StorageLayoutVariable, values: StorageLayoutValues) {
+  switch (name) {
+    case 'externalId':
+      return assertSafePathSegment(values.externalId, 'artwork.externalId')
+    case 'creatorId':
+      return assertSafePathSegment(values.creatorId, 'artist.userId')
+    case 'artworkId':
+      return String(values.artworkId)
+    case 'provider':
+      return sanitizeStorageLayoutText(values.provider, 'unknown')
+    case 'creator':
+      return sanitizeStorageLayoutText(values.creator ?? values.creatorId, 'unknown')
+    case 'title':
+      return sanitizeStorageLayoutText(values.title, 'untitled')
+  }
+}
+
+function finalizeSegment(segment: string, isRoot: boolean) {
+  // Free text must not land a work inside hidden, import or archive roots, nor on a DOS device name.
+  const reserved =
+    WINDOWS_RESERVED_SEGMENT.test(segment) ||
+    (isRoot && (segment.startsWith('.') || RESERVED_ROOT_SEGMENTS.has(segment.toLocaleLowerCase('en-US'))))
+  const value = reserved ? `_${segment}` : segment
+  if (Buffer.byteLength(value) > MAX_SEGMENT_BYTES) {
+    throw new MigrationPermanentError('INVALID_PATH_SEGMENT', 'Storage layout directory level exceeds 255 bytes')
+  }
+  return assertSafePathSegment(value, 'storage layout directory level')
+}
+
+function truncateUtf8(value: string, maxBytes: number) {
+  let bytes = 0
+  let result = ''
+  for (const character of value) {
+    bytes += Buffer.byteLength(character)
+    if (bytes > maxBytes) break
+    result += character
+  }
+  return result
+}
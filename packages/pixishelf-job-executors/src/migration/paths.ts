@@ -3,7 +3,7 @@ import path from 'node:path'
 import type { MigrationFileSystemPort } from './types.ts'
 import { MigrationPermanentError } from './types.ts'
 
-const WINDOWS_RESERVED_SEGMENT = /^(?:con|prn|aux|nul|com[1-9]|lpt[1-9])(?:\..*)?$/i
+export const WINDOWS_RESERVED_SEGMENT = /^(?:con|prn|aux|nul|com[1-9]|lpt[1-9])(?:\..*)?$/i
 
 export function assertSafePathSegment(value: string, label: string): string {
   if (
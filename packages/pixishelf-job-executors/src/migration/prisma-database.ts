@@ -2,7 +2,8 @@ import { createHash } from 'node:crypto'
 import path from 'node:path'
 import { Prisma, type PrismaClient } from '@pixishelf/db'
 import type { QueueSqlExecutor } from '@pixishelf/job-runtime'
-import { buildCanonicalTargetDirectory, normalizeStoredRelativePath } from './paths.ts'
+import { renderStorageLayoutDirectory, storageLayoutCollisionDirectory, storageLayoutProvider } from './layout.ts'
+import { normalizeStoredRelativePath } from './paths.ts'
 import { migrationPublicErrorCode, migrationPublicSummary } from './diagnostics.ts'
 import type {
   CreateMigrationPlanInput,
@@ -27,19 +28,29 @@ interface MigrationPublicationInput {
   itemId: string
   artworkId: number
   targetDirectory: string
+  layoutTemplate: string
   plannedImageIds: number[]
   attempt: number
   files: MigrationPublishFile[]
   terminalStatus?: 'SKIPPED'
 }
 
+const firstExternalRefSelect = {
+  select: { providerKey: true },
+  orderBy: [{ createdAt: 'asc' as const }, { id: 'asc' as const }],
+  take: 1
+}
+
 const publicationArtworkSelect = {
   artistId: true,
   deletedAt: true,
   externalId: true,
+  title: true,
+  source: true,
   metaSource: true,
   storagePath: true,
-  artist: { select: { userId: true } },
+  artist: { select: { userId: true, name: true } },
+  externalRefs: firstExternalRefSelect,
   images: {
     select: { id: true, path: true, chaptersPath: true },
     orderBy: { id: 'asc' as const }
@@ -79,9 +90,12 @@ export function createPrismaMigrationDatabase(
           id: true,
           deletedAt: true,
           externalId: true,
+          title: true,
+          source: true,
           metaSource: true,
           storagePath: true,
-          artist: { select: { userId: true } },
+          artist: { select: { userId: true, name: true } },
+          externalRefs: firstExternalRefSelect,
           images: {
             select: { id: true, path: true, chaptersPath: true },
             orderBy: { id: 'asc' },
@@ -95,11 +109,27 @@ export function createPrismaMigrationDatabase(
         deletedAt: artwork.deletedAt,
         externalId: artwork.externalId,
         artistUserId: artwork.artist?.userId ?? null,
+        artistName: artwork.artist?.name ?? null,
+        title: artwork.title,
+        provider: storageLayoutProvider(artwork.source, artwork.externalRefs[0]?.providerKey ?? null),
         metaSource: artwork.metaSource,
         storagePath: artwork.storagePath,
         images: artwork.images
       }
     },
+    async findStoragePathOwner(storagePath, excludeArtworkId) {
+      const relativePath = normalizeStoredRelativePath(storagePath)
+      const owner = await database.artwork.findFirst({
+        where: {
+          id: { not: excludeArtworkId },
+          OR: [relativePath, `/${relativePath}`].map((value) => ({
+            storagePath: { equals: value, mode: 'insensitive' as const }
+          }))
+        },
+        select: { id: true }
+      })
+      return owner?.id ?? null
+    },
     async loadPlan(systemJobId, artworkId, fileLimit) {
       const item = await database.migrationJobItem.findUnique({
         where: { systemJobId_artworkIdSnapshot: { systemJobId, artworkIdSnapshot: artworkId } },
@@ -670,14 +700,10 @@ function assertPublicationSnapshot(
 ): PublicationState {
   const plannedImageIds = sortedUniqueIds(input.plannedImageIds)
   const currentImageIds = artwork?.images.map((image) => image.id) ?? []
-  const currentTargetDirectory =
-    artwork?.externalId && artwork.artist?.userId
-      ? tryBuildTargetDirectory(artwork.artist.userId, artwork.externalId)
-      : null
   if (
     !artwork ||
     artwork.deletedAt !== null ||
-    currentTargetDirectory !== input.targetDirectory ||
+    !matchesLayoutTargetDirectory(artwork, input) ||
     currentImageIds.length !== plannedImageIds.length ||
     currentImageIds.some((imageId, index) => imageId !== plannedImageIds[index])
   ) {
@@ -726,14 +752,10 @@ function assertPublishedSnapshot(
   input: MigrationPublicationInput,
   expected: PublicationState
 ) {
-  const currentTargetDirectory =
-    artwork?.externalId && artwork.artist?.userId
-      ? tryBuildTargetDirectory(artwork.artist.userId, artwork.externalId)
-      : null
   if (
     !artwork ||
     artwork.deletedAt !== null ||
-    currentTargetDirectory !== input.targetDirectory ||
+    !matchesLayoutTargetDirectory(artwork, input) ||
     artwork.metaSource !== expected.targetMetaSource ||
     artwork.storagePath !== expected.targetStoragePath ||
     artwork.images.length !== expected.images.length
@@ -805,11 +827,27 @@ function publicationConflict(message: string, fileId?: string): never {
   throw new MigrationActionRequiredError('DATABASE_PATH_CONFLICT', message, fileId)
 }
 
-function tryBuildTargetDirectory(artistUserId: string, externalId: string) {
+/**
+ * The planned directory must still be what the frozen layout renders for the current artwork
+ * (or its collision fallback); a renamed title or re-linked artist is treated as identity drift.
+ */
+function matchesLayoutTargetDirectory(artwork: PublicationArtwork, input: MigrationPublicationInput) {
+  if (!artwork.externalId || !artwork.artist?.userId) return false
   try {
-    return buildCanonicalTargetDirectory(artistUserId, externalId)
+    const rendered = renderStorageLayoutDirectory(input.layoutTemplate, {
+      artworkId: input.artworkId,
+      externalId: artwork.externalId,
+      creatorId: artwork.artist.userId,
+      creator: artwork.artist.name,
+      title: artwork.title,
+      provider: storageLayoutProvider(artwork.source, artwork.externalRefs[0]?.providerKey ?? null)
+    })
+    return (
+      input.targetDirectory === rendered ||
+      input.targetDirectory === storageLayoutCollisionDirectory(rendered, input.artworkId)
+    )
   } catch {
-    return null
+    return false
   }
 }
 
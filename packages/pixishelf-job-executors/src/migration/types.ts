@@ -54,6 +54,10 @@ export interface MigrationArtworkSnapshot {
   deletedAt: Date | null
   externalId: string | null
   artistUserId: string | null
+  artistName: string | null
+  title: string
+  /** Provider key rendered as `{provider}`; see storageLayoutProvider. */
+  provider: string
   metaSource: string | null
   storagePath: string | null
   images: MigrationImageSnapshot[]
@@ -186,6 +190,8 @@ export interface MigrationSelectionPrecheck {
 export interface MigrationDatabasePort<TTransaction extends QueueSqlExecutor = QueueSqlExecutor> {
   selection: MigrationSelectionPort
   loadArtwork(artworkId: number, imageLimit: number): Promise<MigrationArtworkSnapshot | null>
+  /** Another artwork (deleted ones included) whose storagePath equals the directory case-insensitively. */
+  findStoragePathOwner(storagePath: string, excludeArtworkId: number): Promise<number | null>
   loadPlan(systemJobId: string, artworkId: number, fileLimit: number): Promise<MigrationArtworkPlan | null>
   recordUnplannableItem(
     transaction: TTransaction,
@@ -212,6 +218,7 @@ export interface MigrationDatabasePort<TTransaction extends QueueSqlExecutor = Q
       itemId: string
       artworkId: number
       targetDirectory: string
+      layoutTemplate: string
       plannedImageIds: number[]
       attempt: number
       files: MigrationPublishFile[]
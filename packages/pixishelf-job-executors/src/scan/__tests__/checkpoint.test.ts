@@ -104,7 +104,8 @@ describe('scan item checkpoints', () => {
       tag: { findMany: vi.fn(async () => [{ id: 3 }, { id: 4 }]) },
       image: { createMany: vi.fn(async () => ({ count: 1 })) },
       artworkTag: { createMany: vi.fn(async () => ({ count: 2 })) },
-      scanRun: { updateMany: vi.fn(async () => ({ count: 1 })) }
+      scanRun: { updateMany: vi.fn(async () => ({ count: 1 })) },
+      $executeRaw: vi.fn(async () => 0)
     } as unknown as ScanTransaction & {
       artworkTag: { createMany: ReturnType<typeof vi.fn> }
       scanRunItem: { upsert: ReturnType<typeof vi.fn> }
@@ -131,7 +132,8 @@ describe('scan item checkpoints', () => {
             chaptersPath: 'local-imports/Artist/Work/1.chapters.json',
             chaptersCount: 2,
             chaptersDuration: 20,
-            chaptersHash: 'chapter-hash'
+            chaptersHash: 'chapter-hash',
+            subtitles: []
           }
         ],
         mediaDerivedTagIds,
@@ -170,6 +172,44 @@ describe('scan item checkpoints', () => {
     expect(transaction.scanRunItem.upsert).toHaveBeenCalledOnce()
   })
 
+  it('keeps the frozen artist mapping and records ComicInfo writers as artist tags', async () => {
+    const fixture = await publishComicInfoWork(['Alice'])
+
+    expect(fixture.transaction.artwork.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ artistId: 7 }),
+      select: { id: true }
+    })
+    expect(fixture.transaction.tag.upsert).toHaveBeenCalledWith({
+      where: { namespace_name: { namespace: 'artist', name: 'Alice' } },
+      create: { namespace: 'artist', name: 'Alice' },
+      update: {},
+      select: { id: true }
+    })
+    expect(fixture.transaction.artworkTag.createMany).toHaveBeenCalledWith({
+      data: [{ artworkId: 9, tagId: 30, provenance: 'SOURCE' }],
+      skipDuplicates: true
+    })
+  })
+
+  it('maps an aliased ComicInfo writer onto the merged artist tag', async () => {
+    const fixture = await publishComicInfoWork(['alice'], [{ namespace: 'artist', name: 'alice', tagId: 31 }])
+
+    expect(fixture.transaction.tag.upsert).not.toHaveBeenCalled()
+    expect(fixture.transaction.artworkTag.createMany).toHaveBeenCalledWith({
+      data: [{ artworkId: 9, tagId: 31, provenance: 'SOURCE' }],
+      skipDuplicates: true
+    })
+  })
+
+  it('adds no artist tags when ComicInfo names no writer', async () => {
+    const fixture = await publishComicInfoWork([])
+
+    expect(fixture.transaction.tagAlias.findMany).not.toHaveBeenCalled()
+    expect(fixture.transaction.artworkTag.createMany).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: [expect.objectContaining({ provenance: 'SOURCE' })] })
+    )
+  })
+
   it('publishes Pixiv chapter summaries when creating a new image', async () => {
     const fixture = pixivTransaction([])
     await publishPixivArtwork({
@@ -302,6 +342,30 @@ describe('scan item checkpoints', () => {
     expect(fixture.artworkTagUpsert).toHaveBeenCalledTimes(6)
   })
 
+  it('resolves aliased Pixiv source tags to their canonical tag and re-syncs implications', async () => {
+    const fixture = existingPixivTransaction({
+      tagIdsByName: new Map([['canonical', 2]]),
+      aliases: new Map([['old-spelling', 2]])
+    })
+
+    await publishPixivArtwork({
+      transaction: fixture.transaction,
+      runId: 'run-1',
+      checkpointOrdinal: 0,
+      checkpointKey: 'metadata:0:aliases',
+      metadataRelativePath: '11/42/42-meta.json',
+      metadataContentHash: 'a'.repeat(64),
+      metadata: { ...pixivMetadata(), tags: ['old-spelling', 'canonical'] },
+      media: [],
+      existingPolicy: 'REFRESH',
+      now
+    })
+
+    expect(fixture.tags).toEqual([{ tagId: 2, provenance: 'SOURCE', sourceRefId: 'ref-pixiv' }])
+    expect(fixture.artworkTagUpsert).toHaveBeenCalledTimes(1)
+    expect(fixture.implicationSync).toHaveBeenCalledTimes(1)
+  })
+
   it('honors local overrides and preserves artist and existing media order during refresh', async () => {
     const fixture = existingPixivTransaction({
       titleOverridden: true,
@@ -530,6 +594,67 @@ describe('scan item checkpoints', () => {
   })
 })
 
+async function publishComicInfoWork(
+  writers: string[],
+  aliases: Array<{ namespace: string; name: string; tagId: number }> = []
+) {
+  const transaction = {
+    scanRunItem: { findUnique: vi.fn(async () => null), upsert: vi.fn(async () => ({})) },
+    artwork: {
+      findUnique: vi.fn(async () => null),
+      create: vi.fn(async () => ({ id: 9 })),
+      update: vi.fn(async () => ({}))
+    },
+    artist: { findUnique: vi.fn(async () => ({ id: 7 })) },
+    tag: { findMany: vi.fn(async () => []), upsert: vi.fn(async () => ({ id: 30 })) },
+    tagAlias: { findMany: vi.fn(async () => aliases) },
+    image: { createMany: vi.fn(async () => ({ count: 1 })) },
+    artworkTag: { createMany: vi.fn(async () => ({ count: 0 })) },
+    scanRun: { updateMany: vi.fn(async () => ({ count: 1 })) },
+    $executeRaw: vi.fn(async () => 0)
+  }
+
+  await publishLocalMediaWork({
+    transaction: transaction as unknown as ScanTransaction,
+    runId: 'run-1',
+    work: localWork(),
+    title: 'Book',
+    now,
+    artistId: 7,
+    storagePath: 'local-imports/Artist/Book',
+    comicInfo: {
+      title: 'Book',
+      series: null,
+      number: null,
+      summary: null,
+      writers,
+      tags: [],
+      publishedAt: null,
+      xRestrict: null
+    },
+    media: [
+      {
+        relativePath: 'local-imports/Artist/Book/001.jpg',
+        width: 10,
+        height: 10,
+        modifiedAt: mediaModifiedAt,
+        size: 5n,
+        sortOrder: 0,
+        mediaType: 'IMAGE',
+        webpAnimationStatus: null,
+        chaptersPath: null,
+        chaptersCount: 0,
+        chaptersDuration: null,
+        chaptersHash: null,
+        subtitles: []
+      }
+    ],
+    mediaDerivedTagIds,
+    defaultTagIds: []
+  })
+  return { transaction }
+}
+
 function localWork(): Prisma.ScanRunLocalWorkInputGetPayload<Record<string, never>> {
   return {
     id: 'work-1',
@@ -576,7 +701,8 @@ function pixivMedia(relativePath: string) {
     chaptersPath: '11/42/42_p0.chapters.json',
     chaptersCount: 2,
     chaptersDuration: 20,
-    chaptersHash: 'chapter-hash'
+    chaptersHash: 'chapter-hash',
+    subtitles: []
   }
 }
 
@@ -595,6 +721,7 @@ function pixivTransaction(existingImages: Array<{ id: number; path: string; sort
   }))
   const transaction = {
     $queryRaw: queryRaw,
+    $executeRaw: vi.fn(async () => 0),
     scanRunItem: { findUnique: vi.fn(async () => null), upsert: vi.fn(async () => ({})) },
     artworkExternalRef: {
       findUnique: vi.fn(async () => null),
@@ -605,6 +732,7 @@ function pixivTransaction(existingImages: Array<{ id: number; path: string; sort
     artwork: { findUnique: vi.fn(async () => null), create: artworkCreate },
     artist: { upsert: vi.fn(async () => ({ id: 7 })) },
     artworkTag: { deleteMany: vi.fn(async () => ({ count: 0 })), upsert: vi.fn(async () => ({})) },
+    mediaVideoSubtitleTrack: { findMany: vi.fn(async () => []) },
     image: {
       findMany: vi.fn(async () => existingImages),
       create: imageCreate,
@@ -634,6 +762,7 @@ function existingPixivTransaction(
     existingImages?: Array<{ id: number; path: string; sortOrder: number }>
     tags?: Array<{ tagId: number; provenance: TagProvenance; sourceRefId: string | null }>
     tagIdsByName?: Map<string, number>
+    aliases?: Map<string, number>
   } = {}
 ) {
   const tags = options.tags ? [...options.tags] : []
@@ -669,6 +798,7 @@ function existingPixivTransaction(
   const imageCreate = vi.fn(async (_input: { data: Record<string, unknown> }) => ({}))
   const imageDeleteMany = vi.fn(async () => ({ count: 0 }))
   const artworkSourceSnapshotUpsert = vi.fn(async () => ({}))
+  const implicationSync = vi.fn(async () => 0)
   const artworkTagUpsert = vi.fn(async ({ where, create, update }) => {
     const existing = tags.find((row) => row.tagId === where.artworkId_tagId.tagId)
     if (!existing) tags.push({ tagId: create.tagId, provenance: create.provenance, sourceRefId: create.sourceRefId })
@@ -707,6 +837,16 @@ function existingPixivTransaction(
     artwork: { update: artworkUpdate, updateMany: artworkUpdateMany },
     artist: { upsert: artistUpsert },
     artworkRawMetadata: { upsert: vi.fn(async () => ({})) },
+    $executeRaw: implicationSync,
+    tagAlias: {
+      findMany: vi.fn(async () =>
+        [...(options.aliases ?? new Map<string, number>())].map(([name, tagId]) => ({
+          namespace: 'general',
+          name,
+          tagId
+        }))
+      )
+    },
     tag: {
       upsert: vi.fn(async ({ where }) => {
         const name = where.namespace_name.name as string
@@ -716,6 +856,7 @@ function existingPixivTransaction(
       })
     },
     artworkTag: { deleteMany: artworkTagDeleteMany, upsert: artworkTagUpsert },
+    mediaVideoSubtitleTrack: { findMany: vi.fn(async () => []) },
     image: {
       findMany: vi.fn(async () => options.existingImages ?? []),
       create: imageCreate,
@@ -733,6 +874,7 @@ function existingPixivTransaction(
     artistUpsert,
     artworkSourceSnapshotUpsert,
     artworkTagUpsert,
+    implicationSync,
     imageUpdate,
     imageCreate,
     imageDeleteMany
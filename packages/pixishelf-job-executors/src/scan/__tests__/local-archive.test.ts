@@ -0,0 +1,198 @@
+import * as fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { parseComicInfoXml } from '../comic-info.js'
+import {
+  extractLocalArchive,
+  inspectLocalArchive,
+  LOCAL_ARCHIVE_MARKER_FILE,
+  localArchiveTargetPath
+} from '../local-archive.js'
+import { resolveSafeScanRoot } from '../paths.js'
+import {
+  buildSevenZipFixture,
+  writeFakeSevenZip,
+  type SevenZipFixtureEntry
+} from '../../shared/__tests__/seven-zip-fixture.js'
+import { buildZipFixture } from '../../shared/__tests__/zip-fixture.js'
+
+const roots: string[] = []
+const limits = { maxEntries: 100, maxMediaPerArtwork: 10, maxArchiveMediaBytes: 1024 * 1024 }
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => fs.rm(root, { recursive: true, force: true })))
+})
+
+async function fixtureRoot() {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'pixishelf-local-archive-'))
+  roots.push(root)
+  await fs.mkdir(path.join(root, 'local-imports', 'artist'), { recursive: true })
+  return root
+}
+
+async function writeArchive(root: string, name: string, entries: Parameters<typeof buildZipFixture>[0]) {
+  await fs.writeFile(path.join(root, 'local-imports', 'artist', name), buildZipFixture(entries))
+  return `local-imports/artist/${name}`
+}
+
+async function writeSevenZipArchive(root: string, name: string, entries: SevenZipFixtureEntry[]) {
+  await fs.writeFile(path.join(root, 'local-imports', 'artist', name), buildSevenZipFixture(entries))
+  return `local-imports/artist/${name}`
+}
+
+const COMIC_INFO = `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <Title>Volume &amp; One</Title>
+  <Series>Saga</Series>
+  <Number>3</Number>
+  <Summary><![CDATA[<b>Intro</b>]]></Summary>
+  <Writer>Alice, Bob</Writer>
+  <Tags>landscape; night</Tags>
+  <Genre>Fantasy,night</Genre>
+  <Year>2024</Year>
+  <Month>2</Month>
+  <Day>29</Day>
+  <AgeRating>R18+</AgeRating>
+</ComicInfo>`
+
+describe('local archive import', () => {
+  it('parses the ComicInfo fields that map onto an artwork', () => {
+    expect(parseComicInfoXml(COMIC_INFO)).toEqual({
+      title: 'Volume & One',
+      series: 'Saga',
+      number: 3,
+      summary: '<b>Intro</b>',
+      writers: ['Alice', 'Bob'],
+      tags: ['landscape', 'night', 'Fantasy'],
+      publishedAt: new Date('2024-02-29T00:00:00.000Z'),
+      xRestrict: '1'
+    })
+    expect(parseComicInfoXml('<ComicInfo><Year>2023</Year><Month>2</Month><Day>31</Day></ComicInfo>')).toMatchObject({
+      publishedAt: null,
+      title: null,
+      writers: []
+    })
+    expect(parseComicInfoXml('<Metadata />')).toBeNull()
+  })
+
+  it('extracts pages in natural order next to the archive and reuses the directory on retry', async () => {
+    const root = await fixtureRoot()
+    const relativePath = await writeArchive(root, 'Book.cbz', [
+      { name: 'pages/', content: '' },
+      { name: 'pages/page10.jpg', content: 'ten', deflate: true },
+      { name: 'pages/page2.jpg', content: 'two' },
+      { name: 'pages/page1.png', content: 'one' },
+      { name: '__MACOSX/pages/._page1.png', content: 'resource fork' },
+      { name: 'notes.txt', content: 'ignored' },
+      { name: 'ComicInfo.xml', content: COMIC_INFO }
+    ])
+    const scanRoot = await resolveSafeScanRoot(root)
+    const signal = new AbortController().signal
+
+    await expect(inspectLocalArchive(path.join(root, relativePath), limits)).resolves.toEqual({
+      pageCount: 3,
+      hasComicInfo: true
+    })
+    const extracted = await extractLocalArchive({ root: scanRoot, relativePath, limits, signal })
+
+    expect(extracted).toMatchObject({ relativeDirectory: 'local-imports/artist/Book', pageCount: 3, reused: false })
+    expect(extracted.comicInfo?.title).toBe('Volume & One')
+    const directory = path.join(root, 'local-imports', 'artist', 'Book')
+    expect((await fs.readdir(directory)).sort()).toEqual([LOCAL_ARCHIVE_MARKER_FILE, '001.png', '002.jpg', '003.jpg'])
+    await expect(fs.readFile(path.join(directory, '003.jpg'), 'utf8')).resolves.toBe('ten')
+    expect((await fs.readdir(path.join(root, 'local-imports', 'artist'))).sort()).toEqual(['Book', 'Book.cbz'])
+
+    const retried = await extractLocalArchive({ root: scanRoot, relativePath, limits, signal })
+    expect(retried).toMatchObject({ relativeDirectory: 'local-imports/artist/Book', pageCount: 3, reused: true })
+    expect(retried.comicInfo?.publishedAt).toEqual(new Date('2024-02-29T00:00:00.000Z'))
+  })
+
+  it('refuses zip-slip entries, size bombs and foreign target directories without leaving files behind', async () => {
+    const root = await fixtureRoot()
+    const scanRoot = await resolveSafeScanRoot(root)
+    const signal = new AbortController().signal
+    const artistDirectory = path.join(root, 'local-imports', 'artist')
+
+    const slip = await writeArchive(root, 'slip.zip', [
+      { name: 'page1.jpg', content: 'one' },
+      { name: '../escape.jpg', content: 'evil' }
+    ])
+    await expect(extractLocalArchive({ root: scanRoot, relativePath: slip, limits, signal })).rejects.toMatchObject({
+      code: 'PATH_OUTSIDE_SCAN_ROOT'
+    })
+
+    const bomb = await writeArchive(root, 'bomb.cbz', [
+      { name: 'page1.jpg', content: Buffer.alloc(4096), deflate: true }
+    ])
+    await expect(
+      extractLocalArchive({ root: scanRoot, relativePath: bomb, limits: { ...limits, maxEntryBytes: 1024 }, signal })
+    ).rejects.toThrow('Archive page exceeds the extracted size limit')
+
+    const taken = await writeArchive(root, 'taken.cbz', [{ name: 'page1.jpg', content: 'one' }])
+    await fs.mkdir(path.join(artistDirectory, 'taken'))
+    await expect(extractLocalArchive({ root: scanRoot, relativePath: taken, limits, signal })).rejects.toMatchObject({
+      code: 'STATE_CONFLICT'
+    })
+
+    expect((await fs.readdir(artistDirectory)).sort()).toEqual(['bomb.cbz', 'slip.zip', 'taken', 'taken.cbz'])
+    expect(() => localArchiveTargetPath('local-imports/artist/.cbz')).toThrow()
+    expect(() => localArchiveTargetPath('local-imports/artist/book.rar')).toThrow()
+  })
+
+  it('extracts 7z archives through the configured executable in one pass', async () => {
+    const root = await fixtureRoot()
+    const sevenZipPath = await writeFakeSevenZip(root)
+    const relativePath = await writeSevenZipArchive(root, 'Book.7z', [
+      { name: 'pages', directory: true },
+      { name: 'ComicInfo.xml', content: COMIC_INFO },
+      { name: 'pages/page10.jpg', content: 'ten' },
+      { name: 'notes.txt', content: 'ignored' },
+      { name: 'pages/page2.jpg', content: 'two' },
+      { name: 'pages/page1.png', content: 'one' }
+    ])
+    const scanRoot = await resolveSafeScanRoot(root)
+    const signal = new AbortController().signal
+
+    await expect(inspectLocalArchive(path.join(root, relativePath), limits, { sevenZipPath })).resolves.toEqual({
+      pageCount: 3,
+      hasComicInfo: true
+    })
+    const extracted = await extractLocalArchive({ root: scanRoot, relativePath, limits, signal, sevenZipPath })
+
+    expect(extracted).toMatchObject({ relativeDirectory: 'local-imports/artist/Book', pageCount: 3, reused: false })
+    expect(extracted.comicInfo?.writers).toEqual(['Alice', 'Bob'])
+    const directory = path.join(root, 'local-imports', 'artist', 'Book')
+    expect((await fs.readdir(directory)).sort()).toEqual([LOCAL_ARCHIVE_MARKER_FILE, '001.png', '002.jpg', '003.jpg'])
+    await expect(fs.readFile(path.join(directory, '001.png'), 'utf8')).resolves.toBe('one')
+    await expect(fs.readFile(path.join(directory, '003.jpg'), 'utf8')).resolves.toBe('ten')
+  })
+
+  it('reports 7z link entries and a missing 7-Zip executable per archive without leaving files behind', async () => {
+    const root = await fixtureRoot()
+    const sevenZipPath = await writeFakeSevenZip(root)
+    const scanRoot = await resolveSafeScanRoot(root)
+    const signal = new AbortController().signal
+
+    const linked = await writeSevenZipArchive(root, 'linked.7z', [
+      { name: 'page1.jpg', content: 'one' },
+      { name: 'page2.jpg', content: '/etc/passwd', unixMode: 'lrwxrwxrwx' }
+    ])
+    await expect(
+      extractLocalArchive({ root: scanRoot, relativePath: linked, limits, signal, sevenZipPath })
+    ).rejects.toMatchObject({ code: 'SYMLINK_NOT_ALLOWED' })
+
+    const book = await writeSevenZipArchive(root, 'Book.7z', [{ name: 'page1.jpg', content: 'one' }])
+    const missing = path.join(root, 'no-such-7z')
+    await expect(inspectLocalArchive(path.join(root, book), limits, { sevenZipPath: missing })).rejects.toMatchObject({
+      code: 'INPUT_SNAPSHOT_INVALID',
+      message: `Archive cannot be extracted: 7z executable is not available: ${missing}`
+    })
+    await expect(
+      extractLocalArchive({ root: scanRoot, relativePath: book, limits, signal, sevenZipPath: missing })
+    ).rejects.toMatchObject({ code: 'INPUT_SNAPSHOT_INVALID' })
+
+    expect((await fs.readdir(path.join(root, 'local-imports', 'artist'))).sort()).toEqual(['Book.7z', 'linked.7z'])
+    expect(localArchiveTargetPath('local-imports/artist/Book.7z')).toBe('local-imports/artist/Book')
+  })
+})
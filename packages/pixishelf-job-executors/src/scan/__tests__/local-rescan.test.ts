@@ -6,6 +6,7 @@ const now = new Date('2026-08-16T00:00:00.000Z')
 describe('reconcileLocalArtworkImages', () => {
   it('retains matching image ids and derived relations while deleting missing and creating new paths', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn().mockResolvedValue([
           { id: 11, path: 'local/a/keep.mp4', size: 20n, sortOrder: 0, mediaType: 'VIDEO', webpAnimationStatus: null },
@@ -50,6 +51,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('rejects case-fold collisions before any database read or write', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn(),
         update: vi.fn(),
@@ -78,6 +80,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('performs no writes when every retained media row is already current', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi
           .fn()
@@ -108,6 +111,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('retains the image id and derived relations when canonicalizing a legacy leading-slash path', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn().mockResolvedValue([
           {
@@ -147,6 +151,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('rejects case-fold collisions already present in the database without mutating them', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn().mockResolvedValue([
           { id: 11, path: 'local/a/A.jpg' },
@@ -177,6 +182,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('rejects canonically equivalent Unicode paths before any database access', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn(),
         update: vi.fn(),
@@ -205,6 +211,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('persists a discovered chapter summary on retained and newly created local videos', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn().mockResolvedValue([
           {
@@ -265,6 +272,7 @@ describe('reconcileLocalArtworkImages', () => {
 
   it('clears a retained video chapter summary when its manifest has been removed', async () => {
     const transaction = {
+      mediaVideoSubtitleTrack: { findMany: vi.fn().mockResolvedValue([]) },
       image: {
         findMany: vi.fn().mockResolvedValue([
           {
@@ -330,6 +338,7 @@ function discoveredMedia(overrides: {
     chaptersCount: 0,
     chaptersDuration: null,
     chaptersHash: null,
+    subtitles: [],
     ...overrides
   }
 }
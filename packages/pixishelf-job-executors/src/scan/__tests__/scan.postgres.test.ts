@@ -10,7 +10,7 @@ import type {
   ScanV2Payload,
   WorkerCapability
 } from '@pixishelf/job-contracts'
-import { canonicalizeAuditApplyInputs } from '@pixishelf/job-contracts'
+import { canonicalizeAuditApplyInputs, jobTypeSchema } from '@pixishelf/job-contracts'
 import { Prisma, PrismaClient } from '@pixishelf/db'
 import {
   type FencedExecutionTransaction,
@@ -305,6 +305,44 @@ describePostgres('scan executor PostgreSQL integration', () => {
     expect(await client().scanRunItem.count({ where: { scanRunId: pendingUnchanged.id } })).toBe(0)
   })
 
+  it('queues keyframe discovery behind the video probe and skips it when the probe fails', async () => {
+    const root = await fixtureRoot()
+    const directory = path.join(root, 'pixiv')
+    const externalId = nextNumericId()
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(path.join(directory, `${externalId}-meta.json`), JSON.stringify(metadataDocument(externalId)))
+    await fs.writeFile(path.join(directory, `${externalId}_p0.jpg`), 'image')
+    const payload: ScanPayload = { mode: 'INCREMENTAL' }
+    const jobId = await seedJob('SCAN', payload, 1)
+    const repository = queue()
+    await executeScan(context(repository, await claim(repository, 'video-chain'), payload), dependencies(root))
+
+    const children = await client().systemJob.findMany({
+      where: { parentJobId: jobId },
+      select: { id: true, type: true, dependencies: { select: { dependsOnJobId: true } } }
+    })
+    const probe = children.find((child) => child.type === 'VIDEO_MEDIA_PROBE')
+    const discovery = children.find((child) => child.type === 'VIDEO_KEYFRAME_DISCOVERY')
+    expect(probe?.dependencies).toEqual([])
+    expect(discovery?.dependencies).toEqual([{ dependsOnJobId: probe!.id }])
+
+    const videoCapabilities: WorkerCapability[] = [
+      { jobType: 'VIDEO_MEDIA_PROBE', executionLane: 'BACKGROUND_WRITER', definitionVersions: [1] },
+      { jobType: 'VIDEO_KEYFRAME_DISCOVERY', executionLane: 'BACKGROUND_WRITER', definitionVersions: [1] }
+    ]
+    const claimedProbe = await repository.claim(`${testPrefix}-video-chain-probe`, videoCapabilities)
+    expect(claimedProbe?.id).toBe(probe!.id)
+    await repository.fail({ ...fence(claimedProbe!), errorCode: 'INTERNAL_ERROR', error: 'ffprobe failed' })
+
+    expect(await repository.claim(`${testPrefix}-video-chain-probe`, videoCapabilities)).toBeNull()
+    expect(
+      await client().systemJob.findUniqueOrThrow({
+        where: { id: discovery!.id },
+        select: { status: true, skipReason: true }
+      })
+    ).toEqual({ status: 'SKIPPED', skipReason: 'PRECONDITION_NOT_MET' })
+  })
+
   it('replays a permanent failed checkpoint without parsing it or incrementing metrics again', async () => {
     const root = await fixtureRoot()
     const directory = path.join(root, 'pixiv')
@@ -3170,9 +3208,9 @@ function context<TPayload extends ScanPayload | ScanV2Payload | ScanAuditApplyPa
     payload,
     signal,
     progress: vi.fn(async () => undefined),
-    enqueueChild: vi.fn(async () => {
-      throw new Error('not used')
-    }),
+    enqueueChild: vi.fn((request) =>
+      repository.enqueueChild(ownedFence, { ...request, type: jobTypeSchema.parse(request.type) })
+    ),
     mutateInTransaction: (operation) => repository.withFencedMutationTransaction(ownedFence, operation),
     finalizeInTransaction: async (operation) => {
       await repository.withFencedExecutionTransaction(ownedFence, operation)
@@ -3263,7 +3301,8 @@ function media(relativePath: string, sortOrder: number) {
     chaptersPath: null,
     chaptersCount: 0,
     chaptersDuration: null,
-    chaptersHash: null
+    chaptersHash: null,
+    subtitles: []
   }
 }
 
@@ -3294,6 +3333,7 @@ async function cleanup() {
   await prisma.pixivMetadataInventoryState.deleteMany()
   await prisma.scanRun.deleteMany({ where: { systemJobId: { startsWith: testPrefix } } })
   await prisma.jobResourceLease.deleteMany({ where: { ownerJobId: { startsWith: testPrefix } } })
+  await prisma.systemJob.deleteMany({ where: { parentJobId: { startsWith: testPrefix } } })
   await prisma.systemJob.deleteMany({ where: { id: { startsWith: testPrefix } } })
   await prisma.artwork.deleteMany({ where: { title: { startsWith: testPrefix } } })
   await prisma.artist.deleteMany({ where: { name: { startsWith: testPrefix } } })
@@ -0,0 +1,99 @@
+/** Fields of ComicInfo.xml that local import maps onto the created artwork. */
+export interface ComicInfoMetadata {
+  title: string | null
+  series: string | null
+  /** Integer position inside the series; fractional or missing numbers leave it null. */
+  number: number | null
+  summary: string | null
+  writers: string[]
+  tags: string[]
+  publishedAt: Date | null
+  /** Pixiv-style xRestrict value derived from AgeRating. */
+  xRestrict: string | null
+}
+
+export const MAX_COMIC_INFO_BYTES = 1024 * 1024
+
+const MAX_TEXT_LENGTH = 10_000
+const MAX_NAME_LENGTH = 200
+const MAX_TAGS = 100
+
+const X_RESTRICT_BY_AGE_RATING: Record<string, string> = {
+  everyone: '0',
+  g: '0',
+  'adults only 18+': '1',
+  'r18+': '1',
+  'x18+': '2'
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+/**
+ * Reads the flat Anansi ComicInfo schema. Only direct children of the root are
+ * considered and unknown elements are ignored, so readers written for v1 and v2
+ * files both work. Returns null when the document has no ComicInfo root.
+ */
+export function parseComicInfoXml(xml: string): ComicInfoMetadata | null {
+  const root = /<ComicInfo\b[^>]*>([\s\S]*)<\/ComicInfo\s*>/.exec(xml.replace(/<!--[\s\S]*?-->/g, ''))
+  if (!root) return null
+  const fields = new Map<string, string>()
+  for (const match of root[1]!.matchAll(/<([A-Za-z][\w.-]*)\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1\s*>)/g)) {
+    const value = decodeXmlText(match[2] ?? '').trim()
+    if (value && !fields.has(match[1]!)) fields.set(match[1]!, value)
+  }
+  return {
+    title: limitText(fields.get('Title'), MAX_NAME_LENGTH),
+    series: limitText(fields.get('Series'), MAX_NAME_LENGTH),
+    number: parseSeriesNumber(fields.get('Number')),
+    summary: limitText(fields.get('Summary'), MAX_TEXT_LENGTH),
+    writers: splitList(fields.get('Writer')),
+    tags: [...new Set([...splitList(fields.get('Tags')), ...splitList(fields.get('Genre'))])].slice(0, MAX_TAGS),
+    publishedAt: parsePublishedAt(fields.get('Year'), fields.get('Month'), fields.get('Day')),
+    xRestrict: X_RESTRICT_BY_AGE_RATING[fields.get('AgeRating')?.toLowerCase() ?? ''] ?? null
+  }
+}
+
+function decodeXmlText(value: string) {
+  const text = value.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+  if (text !== value) return text
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isInteger(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : entity
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function limitText(value: string | undefined, maxLength: number) {
+  return value ? value.slice(0, maxLength) : null
+}
+
+function splitList(value: string | undefined) {
+  if (!value) return []
+  return [
+    ...new Set(
+      value
+        .split(/[,;]/)
+        .map((item) => item.trim().slice(0, MAX_NAME_LENGTH))
+        .filter(Boolean)
+    )
+  ]
+}
+
+function parseSeriesNumber(value: string | undefined) {
+  if (!value || !/^\d{1,9}$/.test(value)) return null
+  return Number(value)
+}
+
+function parsePublishedAt(year: string | undefined, month: string | undefined, day: string | undefined) {
+  if (!year || !/^\d{4}$/.test(year)) return null
+  const monthNumber = month && /^\d{1,2}$/.test(month) ? Number(month) : 1
+  const dayNumber = day && /^\d{1,2}$/.test(day) ? Number(day) : 1
+  if (monthNumber < 1 || monthNumber > 12 || dayNumber < 1 || dayNumber > 31) return null
+  const date = new Date(Date.UTC(Number(year), monthNumber - 1, dayNumber))
+  // Date.UTC rolls 31 February over into March; treat that as an invalid date instead.
+  return date.getUTCMonth() === monthNumber - 1 ? date : null
+}
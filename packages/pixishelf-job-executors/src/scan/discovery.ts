@@ -1,6 +1,6 @@
 import * as fs from 'node:fs/promises'
 import path from 'node:path'
-import { MEDIA_FILE_EXTENSIONS, VIDEO_FILE_EXTENSIONS } from '@pixishelf/job-contracts'
+import { MEDIA_FILE_EXTENSIONS, UGOIRA_ARCHIVE_EXTENSIONS, VIDEO_FILE_EXTENSIONS } from '@pixishelf/job-contracts'
 import sharp from 'sharp'
 import { mapBounded, throwIfAborted } from './bounded.ts'
 import { hashStableFile, statStableFile, type StableFileState } from './content-reader.ts'
@@ -17,12 +17,18 @@ import { metadataCandidateFromPath, selectPreferredMetadataCandidates, type Meta
 import { compareCodePoints, compareNaturalCodePoints } from './stable-order.ts'
 import { createChapterManifestHash, readChapterManifest } from '../video-processing/chapter-manifest.ts'
 import { VideoProcessingPermanentError } from '../video-processing/types.ts'
+import { ZipArchiveError } from '../shared/zip-archive.ts'
+import { inspectUgoiraArchive } from '../ugoira/manifest.ts'
+import { SUBTITLE_SIDECAR_EXTENSIONS, matchSidecarSubtitle } from '../video-media/subtitle-format.ts'
+import type { DiscoveredSubtitleSidecar } from '../video-media/subtitles.ts'
 
 const metadataSuffix = /-meta\.(?:json|txt)$/i
 const mediaExtensions = new Set<string>(MEDIA_FILE_EXTENSIONS)
 const videoExtensions = new Set<string>(VIDEO_FILE_EXTENSIONS)
 const animationExtensions = new Set(['.gif', '.apng'])
 const contentScannedAnimationExtensions = new Set(['.webp', '.gif', '.png', '.apng'])
+const subtitleExtensions = new Set<string>(SUBTITLE_SIDECAR_EXTENSIONS)
+const ugoiraExtensions = new Set<string>(UGOIRA_ARCHIVE_EXTENSIONS)
 
 export interface ScanDiscoveryLimits {
   pageSize: number
@@ -59,6 +65,8 @@ export interface DiscoveredMediaFile {
   chaptersCount: number
   chaptersDuration: number | null
   chaptersHash: string | null
+  /** Sidecar subtitles next to a video; always empty for other media types. */
+  subtitles: DiscoveredSubtitleSidecar[]
 }
 
 export interface DiscoveredLocalMediaFile extends DiscoveredMediaFile {
@@ -181,6 +189,7 @@ export async function collectArtworkMedia(
   const directory = path.dirname(candidate.absolutePath)
   const handle = await fs.opendir(directory)
   const media: Array<DiscoveredMediaFile & { filename: string }> = []
+  const subtitleNames: string[] = []
   let entries = 0
   try {
     for await (const entry of handle) {
@@ -190,8 +199,12 @@ export async function collectArtworkMedia(
         throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Artwork directory exceeds the configured entry limit')
       }
       const extension = path.extname(entry.name).toLowerCase()
-      if (!mediaExtensions.has(extension)) continue
-      const pageIndex = mediaPageIndex(entry.name, candidate.artworkId, extension)
+      if (subtitleExtensions.has(extension)) subtitleNames.push(entry.name)
+      const isUgoira = ugoiraExtensions.has(extension)
+      if (!mediaExtensions.has(extension) && !isUgoira) continue
+      const pageIndex = isUgoira
+        ? ugoiraPageIndex(entry.name, candidate.artworkId)
+        : mediaPageIndex(entry.name, candidate.artworkId, extension)
       if (pageIndex === null) continue
       const absolutePath = path.join(directory, entry.name)
       const metadata = await fs.lstat(absolutePath)
@@ -199,16 +212,18 @@ export async function collectArtworkMedia(
         throw new ScanExecutorError('SYMLINK_NOT_ALLOWED', 'Artwork media must not be a symbolic link')
       }
       if (!metadata.isFile()) continue
+      if (isUgoira && !(await isPlayableUgoira(absolutePath))) continue
       media.push({
         relativePath: relativeFromRoot(root, await fs.realpath(absolutePath)),
         size: BigInt(metadata.size),
         sortOrder: pageIndex,
-        mediaType: inferMediaType(extension),
+        mediaType: isUgoira ? 'ANIMATION' : inferMediaType(extension),
         webpAnimationStatus: contentScannedAnimationExtensions.has(extension) ? 0 : null,
         chaptersPath: null,
         chaptersCount: 0,
         chaptersDuration: null,
         chaptersHash: null,
+        subtitles: [],
         filename: entry.name
       })
       if (media.length > limits.maxMediaPerArtwork) {
@@ -218,6 +233,7 @@ export async function collectArtworkMedia(
   } finally {
     await handle.close().catch(() => undefined)
   }
+  await attachSubtitleSidecars(root, directory, media, subtitleNames, signal)
   const ordered = media
     .sort((left, right) => left.sortOrder - right.sortOrder || compareCodePoints(left.filename, right.filename))
     .map((item, sortOrder) => withoutFilename(item, sortOrder))
@@ -233,6 +249,7 @@ export async function collectLocalMedia(
   const directory = await resolveSafeExistingPath(root, relativeDirectory, 'directory')
   const handle = await fs.opendir(directory.absolutePath)
   const media: Array<DiscoveredMediaFile & { absolutePath: string; filename: string; modifiedAt: Date }> = []
+  const subtitleNames: string[] = []
   let entries = 0
   try {
     for await (const entry of handle) {
@@ -242,23 +259,27 @@ export async function collectLocalMedia(
         throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Local work exceeds the configured entry limit')
       }
       const extension = path.extname(entry.name).toLowerCase()
-      if (!mediaExtensions.has(extension)) continue
+      if (subtitleExtensions.has(extension)) subtitleNames.push(entry.name)
+      const isUgoira = ugoiraExtensions.has(extension)
+      if (!mediaExtensions.has(extension) && !isUgoira) continue
       const absolutePath = path.join(directory.absolutePath, entry.name)
       const metadata = await fs.lstat(absolutePath)
       if (metadata.isSymbolicLink()) {
         throw new ScanExecutorError('SYMLINK_NOT_ALLOWED', 'Local media is a symbolic link')
       }
       if (!metadata.isFile()) continue
+      if (isUgoira && !(await isPlayableUgoira(absolutePath))) continue
       media.push({
         relativePath: relativeFromRoot(root, await fs.realpath(absolutePath)),
         size: BigInt(metadata.size),
         sortOrder: 0,
-        mediaType: inferMediaType(extension),
+        mediaType: isUgoira ? 'ANIMATION' : inferMediaType(extension),
         webpAnimationStatus: contentScannedAnimationExtensions.has(extension) ? 0 : null,
         chaptersPath: null,
         chaptersCount: 0,
         chaptersDuration: null,
         chaptersHash: null,
+        subtitles: [],
         absolutePath,
         modifiedAt: metadata.mtime,
         filename: entry.name
@@ -270,6 +291,7 @@ export async function collectLocalMedia(
   } finally {
     await handle.close().catch(() => undefined)
   }
+  await attachSubtitleSidecars(root, directory.absolutePath, media, subtitleNames, signal)
   const ordered = await mapBounded(
     media.sort((left, right) => naturalNameCompare(left.filename, right.filename)),
     limits.concurrency ?? 1,
@@ -322,6 +344,23 @@ function mediaPageIndex(filename: string, artworkId: string, extension: string):
   return Number.isSafeInteger(page) && page >= 0 ? page : null
 }
 
+/** Pixiv downloaders name the frame archive `<id>.zip`, `<id>_p0.zip` or `<id>_ugoira<size>.zip`. */
+function ugoiraPageIndex(filename: string, artworkId: string): number | null {
+  const pageIndex = mediaPageIndex(filename, artworkId, path.extname(filename).toLowerCase())
+  if (pageIndex !== null) return pageIndex
+  return filename.toLowerCase().startsWith(`${artworkId}_ugoira`.toLowerCase()) ? 0 : null
+}
+
+async function isPlayableUgoira(absolutePath: string): Promise<boolean> {
+  try {
+    return (await inspectUgoiraArchive(absolutePath)) !== null
+  } catch (error) {
+    // Other zips (source bundles, PSD packs) are not media; only unreadable files fail the work.
+    if (error instanceof ZipArchiveError) return false
+    throw error
+  }
+}
+
 function inferMediaType(extension: string): 'IMAGE' | 'ANIMATION' | 'VIDEO' {
   if (videoExtensions.has(extension)) return 'VIDEO'
   if (animationExtensions.has(extension)) return 'ANIMATION'
@@ -342,7 +381,8 @@ function withoutFilename(item: DiscoveredMediaFile & { filename: string }, sortO
     chaptersPath: item.chaptersPath,
     chaptersCount: item.chaptersCount,
     chaptersDuration: item.chaptersDuration,
-    chaptersHash: item.chaptersHash
+    chaptersHash: item.chaptersHash,
+    subtitles: item.subtitles
   }
 }
 
@@ -396,11 +436,40 @@ async function attachChapterManifest<T extends DiscoveredMediaFile>(root: SafeSc
   return media
 }
 
+async function attachSubtitleSidecars(
+  root: SafeScanRoot,
+  directory: string,
+  media: Array<DiscoveredMediaFile & { filename: string }>,
+  subtitleNames: readonly string[],
+  signal: AbortSignal
+) {
+  if (subtitleNames.length === 0) return
+  const sortedNames = [...subtitleNames].sort(compareCodePoints)
+  for (const item of media) {
+    if (item.mediaType !== 'VIDEO') continue
+    for (const name of sortedNames) {
+      throwIfAborted(signal)
+      const match = matchSidecarSubtitle(item.filename, name)
+      if (!match) continue
+      const absolutePath = path.join(directory, name)
+      const metadata = await fs.lstat(absolutePath)
+      // Subtitles are optional companions: skip links and odd entries instead of rejecting the work.
+      if (metadata.isSymbolicLink() || !metadata.isFile()) continue
+      item.subtitles.push({
+        relativePath: relativeFromRoot(root, await fs.realpath(absolutePath)),
+        ...match,
+        size: BigInt(metadata.size),
+        mtimeMs: BigInt(Math.round(metadata.mtimeMs))
+      })
+    }
+  }
+}
+
 async function readLocalMediaDimensions(
   absolutePath: string,
   mediaType: DiscoveredMediaFile['mediaType']
 ): Promise<{ width: number; height: number }> {
-  if (mediaType === 'VIDEO') return { width: 0, height: 0 }
+  if (mediaType === 'VIDEO' || path.extname(absolutePath).toLowerCase() === '.zip') return { width: 0, height: 0 }
   try {
     const metadata = await sharp(absolutePath).metadata()
     return { width: metadata.width ?? 0, height: metadata.height ?? 0 }
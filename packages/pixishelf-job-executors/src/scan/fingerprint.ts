@@ -1,14 +1,15 @@
 import { createHash } from 'node:crypto'
 import * as fs from 'node:fs/promises'
 import path from 'node:path'
-import { MEDIA_FILE_EXTENSIONS, VIDEO_FILE_EXTENSIONS } from '@pixishelf/job-contracts'
+import { MEDIA_FILE_EXTENSIONS, UGOIRA_ARCHIVE_EXTENSIONS, VIDEO_FILE_EXTENSIONS } from '@pixishelf/job-contracts'
 import { throwIfAborted } from './bounded.ts'
 import { hashStableFile } from './content-reader.ts'
 import { ScanExecutorError } from './errors.ts'
 import { resolveSafeExistingPath, resolveSafeScanRoot, type SafeScanRoot } from './paths.ts'
 import { compareCodePoints } from './stable-order.ts'
 
-const mediaExtensions = new Set<string>(MEDIA_FILE_EXTENSIONS)
+// Ugoira zips are fingerprinted as candidates; discovery decides later whether each one is playable.
+const mediaExtensions = new Set<string>([...MEDIA_FILE_EXTENSIONS, ...UGOIRA_ARCHIVE_EXTENSIONS])
 const videoExtensions = new Set<string>(VIDEO_FILE_EXTENSIONS)
 const maxChapterManifestBytes = 5 * 1024 * 1024
 
@@ -12,3 +12,5 @@ export { ScanExecutorError } from './errors.ts'
 export type { ScanDiscoveryLimits } from './discovery.ts'
 export { DEFAULT_SCAN_DISCOVERY_EXCLUDED_ROOT_DIRECTORIES } from './types.ts'
 export type { ScanExecutorConfig, ScanExecutorDependencies, ScanExecutionResult } from './types.ts'
+export { inspectLocalArchive, LOCAL_ARCHIVE_MARKER_FILE, localArchiveTargetPath } from './local-archive.ts'
+export { parseComicInfoXml, type ComicInfoMetadata } from './comic-info.ts'
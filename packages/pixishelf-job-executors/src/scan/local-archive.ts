@@ -0,0 +1,384 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import { LOCAL_IMPORT_ARCHIVE_EXTENSIONS, MEDIA_FILE_EXTENSIONS } from '@pixishelf/job-contracts'
+import { throwIfAborted } from './bounded.ts'
+import { MAX_COMIC_INFO_BYTES, parseComicInfoXml, type ComicInfoMetadata } from './comic-info.ts'
+import { hashStableFile } from './content-reader.ts'
+import { ScanExecutorError } from './errors.ts'
+import { normalizeRelativeScanPath, resolveSafeExistingPath, type SafeScanRoot } from './paths.ts'
+import { compareCodePoints, compareNaturalCodePoints } from './stable-order.ts'
+import { DEFAULT_SCAN_LIMITS } from './types.ts'
+import {
+  extractSevenZipEntries,
+  readSevenZipDirectory,
+  SevenZipArchiveError,
+  type SevenZipEntry,
+  type SevenZipEntrySink
+} from '../shared/seven-zip-archive.ts'
+import {
+  extractZipEntryToFile,
+  isSafeZipEntryName,
+  readZipDirectory,
+  readZipEntry,
+  ZipArchiveError,
+  type ZipEntry
+} from '../shared/zip-archive.ts'
+import { inspectUgoiraArchive } from '../ugoira/manifest.ts'
+
+/** Written into every extracted directory; a rerun reuses the directory only when the archive digest matches. */
+export const LOCAL_ARCHIVE_MARKER_FILE = '.pixishelf-archive.json'
+/** A single page above this size is treated as a decompression bomb even when the archive total fits. */
+export const LOCAL_ARCHIVE_MAX_ENTRY_BYTES = 512 * 1024 * 1024
+/** 7z archives are decoded by the 7-Zip executable; callers pass the configured path. */
+export const LOCAL_ARCHIVE_DEFAULT_SEVEN_ZIP_PATH = '7z'
+
+const MARKER_FORMAT = 'pixishelf-local-archive'
+const MARKER_VERSION = 1
+const archiveExtensions = new Set<string>(LOCAL_IMPORT_ARCHIVE_EXTENSIONS)
+const mediaExtensions = new Set<string>(MEDIA_FILE_EXTENSIONS)
+
+export interface LocalArchiveLimits {
+  maxEntries: number
+  maxMediaPerArtwork: number
+  maxArchiveMediaBytes: number
+  maxEntryBytes?: number
+}
+
+export interface ExtractedLocalArchive {
+  /** Canonical scan-relative directory the pages were published into. */
+  relativeDirectory: string
+  comicInfo: ComicInfoMetadata | null
+  pageCount: number
+  reused: boolean
+}
+
+export interface LocalArchiveOptions {
+  sevenZipPath?: string | undefined
+}
+
+type ArchiveListing =
+  | { format: 'zip'; entries: ZipEntry[] }
+  | { format: '7z'; command: string; entries: SevenZipEntry[] }
+
+interface LocalArchiveMarker {
+  format: typeof MARKER_FORMAT
+  version: typeof MARKER_VERSION
+  archive: string
+  sha256: string
+  pageCount: number
+  comicInfo: (Omit<ComicInfoMetadata, 'publishedAt'> & { publishedAt: string | null }) | null
+}
+
+/** Pages are extracted next to the archive into a directory named after it without the extension. */
+export function localArchiveTargetPath(relativePath: string): string {
+  const normalized = normalizeRelativeScanPath(relativePath)
+  const extension = path.posix.extname(normalized).toLowerCase()
+  if (!archiveExtensions.has(extension)) {
+    throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Local archive work must be a CBZ, ZIP or 7z file')
+  }
+  const target = normalized.slice(0, -extension.length)
+  const name = path.posix.basename(target)
+  if (!name || name.startsWith('.')) {
+    throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Local archive name cannot be used as a directory name')
+  }
+  return target
+}
+
+/**
+ * Extracts the media pages of a CBZ/ZIP/7z archive into its target directory. Entries are
+ * renumbered in natural order so the published sort order survives filesystem listing,
+ * and nothing becomes visible until the staging directory is renamed into place.
+ */
+export async function extractLocalArchive(input: {
+  root: SafeScanRoot
+  relativePath: string
+  limits: LocalArchiveLimits
+  signal: AbortSignal
+  sevenZipPath?: string | undefined
+}): Promise<ExtractedLocalArchive> {
+  throwIfAborted(input.signal)
+  const relativeDirectory = localArchiveTargetPath(input.relativePath)
+  const archive = await resolveSafeExistingPath(input.root, input.relativePath, 'file')
+  const parent = path.dirname(archive.absolutePath)
+  const targetName = path.posix.basename(relativeDirectory)
+  const target = path.join(parent, targetName)
+  const hashed = await hashStableFile({
+    absolutePath: archive.absolutePath,
+    maxBytes: input.limits.maxArchiveMediaBytes,
+    signal: input.signal
+  })
+
+  const reused = await readExistingExtraction(target, hashed.sha256)
+  if (reused) return { relativeDirectory, comicInfo: reused.comicInfo, pageCount: reused.pageCount, reused: true }
+
+  const inspected = await readArchivePages(archive.absolutePath, input.limits, input)
+  if (!inspected) {
+    throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Archive is a ugoira animation, not a page archive')
+  }
+
+  const staging = path.join(parent, `.${targetName}.extracting`)
+  await fs.rm(staging, { recursive: true, force: true })
+  await fs.mkdir(staging)
+  try {
+    const modifiedAt = new Date(Number(hashed.state.mtimeMs))
+    const width = Math.max(3, String(inspected.pages.length).length)
+    const pageFiles = inspected.pages.map((entry, index) =>
+      path.join(staging, `${String(index + 1).padStart(width, '0')}${path.posix.extname(entry.name).toLowerCase()}`)
+    )
+    let comicInfo: ComicInfoMetadata | null
+    if (inspected.format === 'zip') {
+      const maxEntryBytes = input.limits.maxEntryBytes ?? LOCAL_ARCHIVE_MAX_ENTRY_BYTES
+      for (const [index, entry] of inspected.pages.entries()) {
+        throwIfAborted(input.signal)
+        await extractZipPage(archive.absolutePath, entry, pageFiles[index]!, maxEntryBytes, input.signal)
+      }
+      comicInfo = inspected.comicInfoEntry ? await readComicInfo(archive.absolutePath, inspected.comicInfoEntry) : null
+    } else {
+      comicInfo = await extractSevenZipPages(archive.absolutePath, inspected, {
+        pageFiles: new Map(inspected.pages.map((entry, index) => [entry, pageFiles[index]!])),
+        signal: input.signal
+      })
+    }
+    for (const filePath of pageFiles) await fs.utimes(filePath, modifiedAt, modifiedAt)
+    const marker: LocalArchiveMarker = {
+      format: MARKER_FORMAT,
+      version: MARKER_VERSION,
+      archive: path.posix.basename(archive.relativePath),
+      sha256: hashed.sha256,
+      pageCount: inspected.pages.length,
+      comicInfo: comicInfo && { ...comicInfo, publishedAt: comicInfo.publishedAt?.toISOString() ?? null }
+    }
+    await fs.writeFile(path.join(staging, LOCAL_ARCHIVE_MARKER_FILE), `${JSON.stringify(marker, null, 2)}\n`, {
+      flag: 'wx'
+    })
+    if (await pathExists(target)) {
+      throw new ScanExecutorError('STATE_CONFLICT', 'A directory with the archive name appeared during extraction')
+    }
+    await fs.rename(staging, target)
+    return { relativeDirectory, comicInfo, pageCount: inspected.pages.length, reused: false }
+  } catch (error) {
+    await fs.rm(staging, { recursive: true, force: true }).catch(() => undefined)
+    throw error
+  }
+}
+
+/**
+ * Discovery-side preview of what extraction would publish. Returns null for a ZIP that is a
+ * playable ugoira, which stays media of its directory; invalid archives throw the same errors
+ * the worker would record.
+ */
+export async function inspectLocalArchive(
+  absolutePath: string,
+  limits: LocalArchiveLimits = DEFAULT_SCAN_LIMITS,
+  options: LocalArchiveOptions = {}
+): Promise<{ pageCount: number; hasComicInfo: boolean } | null> {
+  const inspected = await readArchivePages(absolutePath, limits, options)
+  return inspected && { pageCount: inspected.pages.length, hasComicInfo: inspected.comicInfoEntry !== null }
+}
+
+async function readArchivePages(absolutePath: string, limits: LocalArchiveLimits, options: LocalArchiveOptions) {
+  const listing = await readArchiveDirectory(absolutePath, limits.maxEntries, options)
+  // CBZ is always a page archive; a plain ZIP stays ugoira media when it carries frame timing.
+  if (absolutePath.toLowerCase().endsWith('.zip') && (await isPlayableUgoira(absolutePath))) return null
+  return listing.format === 'zip'
+    ? { ...listing, ...selectArchivePages(listing.entries, limits) }
+    : { ...listing, ...selectArchivePages(listing.entries, limits) }
+}
+
+function selectArchivePages<TEntry extends ZipEntry | SevenZipEntry>(
+  entries: readonly TEntry[],
+  limits: LocalArchiveLimits
+) {
+  const maxEntryBytes = limits.maxEntryBytes ?? LOCAL_ARCHIVE_MAX_ENTRY_BYTES
+  const pages: TEntry[] = []
+  let comicInfoEntry: TEntry | null = null
+  for (const entry of entries) {
+    if (!isSafeZipEntryName(entry.name)) {
+      throw new ScanExecutorError('PATH_OUTSIDE_SCAN_ROOT', 'Archive contains an entry outside its root')
+    }
+    if (entry.isDirectory || isIgnoredArchiveEntry(entry.name)) continue
+    if ('isRegularFile' in entry && !entry.isRegularFile) {
+      throw new ScanExecutorError('SYMLINK_NOT_ALLOWED', 'Archive contains a link entry')
+    }
+    if (entry.name.toLowerCase() === 'comicinfo.xml') {
+      comicInfoEntry = entry
+      continue
+    }
+    if (!mediaExtensions.has(path.posix.extname(entry.name).toLowerCase())) continue
+    if (entry.uncompressedSize > maxEntryBytes) {
+      throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Archive page exceeds the extracted size limit')
+    }
+    pages.push(entry)
+  }
+  if (pages.length === 0) throw new ScanExecutorError('MEDIA_NOT_FOUND', 'Archive has no supported media')
+  if (pages.length > limits.maxMediaPerArtwork) {
+    throw new ScanExecutorError(
+      'INPUT_SNAPSHOT_INVALID',
+      `Archive exceeds the media-per-artwork limit (${limits.maxMediaPerArtwork})`
+    )
+  }
+  const totalBytes = pages.reduce((sum, entry) => sum + entry.uncompressedSize, 0)
+  if (totalBytes > limits.maxArchiveMediaBytes) {
+    throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Archive exceeds the extracted size limit')
+  }
+  pages.sort(
+    (left, right) => compareNaturalCodePoints(left.name, right.name) || compareCodePoints(left.name, right.name)
+  )
+  return { pages, comicInfoEntry }
+}
+
+function isIgnoredArchiveEntry(name: string) {
+  return name.split('/').some((segment) => segment.startsWith('.') || segment === '__MACOSX' || segment === 'Thumbs.db')
+}
+
+async function readExistingExtraction(target: string, sha256: string) {
+  let metadata: Awaited<ReturnType<typeof fs.lstat>>
+  try {
+    metadata = await fs.lstat(target)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw new ScanExecutorError('SOURCE_NOT_READABLE', 'Archive target directory cannot be inspected')
+  }
+  if (metadata.isSymbolicLink()) {
+    throw new ScanExecutorError('SYMLINK_NOT_ALLOWED', 'Archive target directory must not be a symbolic link')
+  }
+  const marker = metadata.isDirectory() ? await readMarker(path.join(target, LOCAL_ARCHIVE_MARKER_FILE)) : null
+  if (!marker || marker.sha256 !== sha256) {
+    throw new ScanExecutorError('STATE_CONFLICT', 'A directory with the archive name already exists')
+  }
+  return {
+    pageCount: marker.pageCount,
+    comicInfo: marker.comicInfo && {
+      ...marker.comicInfo,
+      publishedAt: marker.comicInfo.publishedAt ? new Date(marker.comicInfo.publishedAt) : null
+    }
+  }
+}
+
+async function readMarker(markerPath: string): Promise<LocalArchiveMarker | null> {
+  try {
+    const value = JSON.parse(await fs.readFile(markerPath, 'utf8')) as Partial<LocalArchiveMarker> | null
+    if (value?.format !== MARKER_FORMAT || value.version !== MARKER_VERSION || typeof value.sha256 !== 'string') {
+      return null
+    }
+    return value as LocalArchiveMarker
+  } catch {
+    return null
+  }
+}
+
+async function readArchiveDirectory(
+  absolutePath: string,
+  maxEntries: number,
+  options: LocalArchiveOptions
+): Promise<ArchiveListing> {
+  try {
+    if (path.extname(absolutePath).toLowerCase() !== '.7z') {
+      return { format: 'zip', entries: await readZipDirectory(absolutePath, { maxEntries }) }
+    }
+    const command = options.sevenZipPath || LOCAL_ARCHIVE_DEFAULT_SEVEN_ZIP_PATH
+    return { format: '7z', command, entries: await readSevenZipDirectory(command, absolutePath, { maxEntries }) }
+  } catch (error) {
+    throw archiveError(error)
+  }
+}
+
+async function extractZipPage(
+  absolutePath: string,
+  entry: ZipEntry,
+  filePath: string,
+  maxBytes: number,
+  signal: AbortSignal
+) {
+  try {
+    await extractZipEntryToFile(absolutePath, entry, filePath, { maxBytes, signal })
+  } catch (error) {
+    throw archiveError(error)
+  }
+}
+
+/**
+ * 7z archives are decoded in one pass, so the pages and ComicInfo.xml are taken from the same
+ * stream. ComicInfo.xml stays optional here too: an oversized or malformed file yields null.
+ */
+async function extractSevenZipPages(
+  absolutePath: string,
+  archive: { command: string; entries: SevenZipEntry[]; comicInfoEntry: SevenZipEntry | null },
+  input: { pageFiles: ReadonlyMap<SevenZipEntry, string>; signal: AbortSignal }
+): Promise<ComicInfoMetadata | null> {
+  const comicInfoEntry =
+    archive.comicInfoEntry && archive.comicInfoEntry.uncompressedSize <= MAX_COMIC_INFO_BYTES
+      ? archive.comicInfoEntry
+      : null
+  const comicInfoChunks: Buffer[] = []
+  const handles = new Set<fs.FileHandle>()
+  const openSink = async (entry: SevenZipEntry): Promise<SevenZipEntrySink | null> => {
+    throwIfAborted(input.signal)
+    if (entry === comicInfoEntry) {
+      return {
+        write: async (chunk) => {
+          comicInfoChunks.push(chunk)
+        },
+        close: async () => undefined
+      }
+    }
+    const filePath = input.pageFiles.get(entry)
+    if (!filePath) return null
+    const handle = await fs.open(filePath, 'wx')
+    handles.add(handle)
+    return {
+      write: async (chunk) => {
+        await handle.write(chunk)
+      },
+      close: async () => {
+        handles.delete(handle)
+        await handle.close()
+      }
+    }
+  }
+  try {
+    await extractSevenZipEntries(archive.command, absolutePath, archive.entries, openSink, { signal: input.signal })
+  } catch (error) {
+    throw archiveError(error)
+  } finally {
+    await Promise.all([...handles].map((handle) => handle.close().catch(() => undefined)))
+  }
+  return comicInfoEntry ? parseComicInfoXml(Buffer.concat(comicInfoChunks).toString('utf8')) : null
+}
+
+async function readComicInfo(absolutePath: string, entry: ZipEntry) {
+  // Metadata is optional: an oversized or malformed ComicInfo.xml never blocks the pages.
+  if (entry.uncompressedSize > MAX_COMIC_INFO_BYTES) return null
+  try {
+    const content = await readZipEntry(absolutePath, entry, { maxBytes: MAX_COMIC_INFO_BYTES })
+    return parseComicInfoXml(content.toString('utf8'))
+  } catch (error) {
+    if (error instanceof ZipArchiveError) return null
+    throw error
+  }
+}
+
+async function isPlayableUgoira(absolutePath: string) {
+  try {
+    return (await inspectUgoiraArchive(absolutePath)) !== null
+  } catch (error) {
+    if (error instanceof ZipArchiveError) return false
+    throw error
+  }
+}
+
+async function pathExists(absolutePath: string) {
+  try {
+    await fs.lstat(absolutePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function archiveError(error: unknown) {
+  if (error instanceof ZipArchiveError || error instanceof SevenZipArchiveError) {
+    return new ScanExecutorError('INPUT_SNAPSHOT_INVALID', `Archive cannot be extracted: ${error.message}`)
+  }
+  return error
+}
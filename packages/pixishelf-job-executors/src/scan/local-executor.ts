@@ -4,12 +4,15 @@ import type { EnqueuedChildJob, ExecutionContext, JobExecutionOutcome, QueueSqlE
 import { mapBounded, throwIfAborted } from './bounded.ts'
 import { collectLocalMedia } from './discovery.ts'
 import { ScanExecutorError } from './errors.ts'
+import { extractLocalArchive } from './local-archive.ts'
 import { finalizeScanError, finalizeScanSuccess } from './lifecycle.ts'
 import { localCheckpointKey, publishLocalMediaWork, type LocalWorkRow } from './local-publisher.ts'
 import { assertCanonicalRelativeScanPath, normalizeRelativeScanPath, resolveSafeScanRoot } from './paths.ts'
 import { reportScanPageProgress } from './progress.ts'
 import { iterateFrozenLocalWorkPages, startOrResumeScanRun, verifyFrozenLocalSnapshot } from './run-store.ts'
 import { getOrCreateMediaDerivedTags, type MediaDerivedTagIds } from '../maintenance/media-derived-tag-sync.ts'
+import { enqueueUgoiraConversionFollowUp } from '../ugoira/conversion.ts'
+import { enqueueVideoMediaFollowUps } from '../video-media/probe.ts'
 import {
   DEFAULT_SCAN_LIMITS,
   type ScanExecutionResult,
@@ -97,6 +100,10 @@ export async function executeLocalDirectoryImport(
       )
     }
     throwIfAborted(context.signal)
+    if (result.newImages > 0) {
+      await enqueueUgoiraConversionFollowUp(context)
+      await enqueueVideoMediaFollowUps(context)
+    }
     context.logger.info('local-import.finalize.start', { inputCount: snapshot.workCount })
     return finalizeScanSuccess({ context, runId: run.id, result, startedAt: run.startedAt, now: now() })
   } catch (error) {
@@ -131,17 +138,30 @@ async function processLocalWork(input: {
   if (checkpoint?.status === 'SUCCESS' || checkpoint?.status === 'SKIPPED') {
     return { status: checkpoint.status, newImages: checkpoint.newImageCount }
   }
-  if (input.work.kind !== 'MEDIA_DIRECTORY') {
+  if (input.work.kind !== 'MEDIA_DIRECTORY' && input.work.kind !== 'MEDIA_ARCHIVE') {
     throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Frozen local work kind is no longer supported')
   }
   const localDirectory = normalizeRelativeScanPath(input.dependencies.config.localImportDirectory ?? 'local-imports')
   const artistDirectory = artistDirectoryFor(input.work.relativePath, localDirectory)
-  const title = path.posix.basename(input.work.relativePath)
   const artistId = input.mapping.get(artistDirectory)
   if (!artistId) throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Local work has no frozen artist mapping')
+  // Archives are extracted next to themselves first; the extracted directory then goes through
+  // the same media collection and publish path as a plain work directory.
+  const archive =
+    input.work.kind === 'MEDIA_ARCHIVE'
+      ? await extractLocalArchive({
+          root: input.root,
+          relativePath: input.work.relativePath,
+          limits: input.limits,
+          signal: input.context.signal,
+          sevenZipPath: input.dependencies.config.sevenZipPath
+        })
+      : null
+  const storagePath = archive?.relativeDirectory ?? input.work.relativePath
+  const title = archive?.comicInfo?.title ?? path.posix.basename(storagePath)
   const media = await collectLocalMedia(
     input.root,
-    input.work.relativePath,
+    storagePath,
     {
       maxEntries: input.limits.maxEntries,
       maxMediaPerArtwork: input.limits.maxMediaPerArtwork,
@@ -167,7 +187,9 @@ async function processLocalWork(input: {
       artistId,
       media,
       mediaDerivedTagIds,
-      defaultTagIds: input.context.payload.defaultTagIds
+      defaultTagIds: input.context.payload.defaultTagIds,
+      storagePath,
+      comicInfo: archive?.comicInfo ?? null
     })
   )
 }
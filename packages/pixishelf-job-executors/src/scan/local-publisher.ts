@@ -1,9 +1,15 @@
 import { createHash } from 'node:crypto'
 import type { Prisma } from '@pixishelf/db'
+import type { ComicInfoMetadata } from './comic-info.ts'
 import { ScanExecutorError } from './errors.ts'
 import type { DiscoveredLocalMediaFile } from './discovery.ts'
 import { selectMediaDerivedTagIds, type MediaDerivedTagIds } from '../maintenance/media-derived-tag-sync.ts'
+import { syncCreatedSubtitleSidecars } from './subtitle-sidecars.ts'
 import type { ScanTransaction } from './types.ts'
+import { resolveIngestTagIds, syncArtworkImpliedTags } from '../shared/tag-rules.ts'
+
+/** Series created from embedded ComicInfo.xml are keyed by their title under this source. */
+export const COMIC_INFO_SERIES_SOURCE = 'COMIC_INFO'
 
 export interface LocalPublishBase {
   transaction: ScanTransaction
@@ -19,12 +25,16 @@ export async function publishLocalMediaWork(
     media: readonly DiscoveredLocalMediaFile[]
     mediaDerivedTagIds: MediaDerivedTagIds
     defaultTagIds: readonly number[]
+    /** Directory that holds the media; archive works publish their extraction directory. */
+    storagePath?: string
+    comicInfo?: ComicInfoMetadata | null
   }
 ) {
   const checkpoint = await completedCheckpoint(input)
   if (checkpoint) return checkpoint
+  const storagePath = input.storagePath ?? input.work.relativePath
   const existing = await input.transaction.artwork.findUnique({
-    where: { storagePath: input.work.relativePath },
+    where: { storagePath },
     select: { id: true }
   })
   if (existing) {
@@ -46,18 +56,22 @@ export async function publishLocalMediaWork(
   if (tags.length !== input.defaultTagIds.length) {
     throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'A frozen default tag no longer exists')
   }
+  const comicInfo = input.comicInfo ?? null
   const artwork = await input.transaction.artwork.create({
     data: {
       title: input.title,
       artistId: input.artistId,
       source: 'LOCAL_IMPORT',
       createdVia: 'LOCAL_DIRECTORY',
-      storagePath: input.work.relativePath,
-      sourceDate: earliestModifiedAt(input.media)
+      storagePath,
+      sourceDate: comicInfo?.publishedAt ?? earliestModifiedAt(input.media),
+      description: comicInfo?.summary ?? null,
+      descriptionLength: comicInfo?.summary?.length ?? 0,
+      xRestrict: comicInfo?.xRestrict ?? null
     },
     select: { id: true }
   })
-  const storageKey = localStorageKey(artwork.id, input.work.relativePath)
+  const storageKey = localStorageKey(artwork.id, storagePath)
   await input.transaction.artwork.update({ where: { id: artwork.id }, data: { storageKey } })
   await input.transaction.image.createMany({
     data: input.media.map((item) => ({
@@ -76,6 +90,7 @@ export async function publishLocalMediaWork(
       chaptersHash: item.chaptersHash
     }))
   })
+  await syncCreatedSubtitleSidecars(input.transaction, { artworkId: artwork.id, media: input.media, now: input.now })
   const derivedTagIds = selectMediaDerivedTagIds(
     input.mediaDerivedTagIds,
     input.media.map((item) => item.relativePath)
@@ -90,6 +105,8 @@ export async function publishLocalMediaWork(
       skipDuplicates: true
     })
   }
+  if (comicInfo) await applyComicInfo(input.transaction, artwork.id, comicInfo)
+  await syncArtworkImpliedTags(input.transaction, artwork.id)
   await writeLocalItem(input, {
     externalId: storageKey,
     status: 'SUCCESS',
@@ -100,6 +117,37 @@ export async function publishLocalMediaWork(
   return { status: 'SUCCESS' as const, newImages: input.media.length, artworkId: artwork.id }
 }
 
+/**
+ * Writers become `artist` tags instead of replacing the operator-confirmed directory mapping, so
+ * the credited names stay searchable without letting a file decide which artist owns the work.
+ */
+async function applyComicInfo(transaction: ScanTransaction, artworkId: number, comicInfo: ComicInfoMetadata) {
+  const tagIds = await resolveIngestTagIds(transaction, [
+    ...comicInfo.tags.map((name) => ({ namespace: 'general', name })),
+    ...comicInfo.writers.map((name) => ({ namespace: 'artist', name }))
+  ])
+  if (tagIds.length > 0) {
+    await transaction.artworkTag.createMany({
+      data: tagIds.map((tagId) => ({ artworkId, tagId, provenance: 'SOURCE' as const })),
+      skipDuplicates: true
+    })
+  }
+  if (!comicInfo.series) return
+  const series = await transaction.series.upsert({
+    where: { source_externalId: { source: COMIC_INFO_SERIES_SOURCE, externalId: comicInfo.series } },
+    create: { source: COMIC_INFO_SERIES_SOURCE, externalId: comicInfo.series, title: comicInfo.series },
+    update: {},
+    select: { id: true }
+  })
+  const sortOrder = comicInfo.number ?? 0
+  await transaction.seriesArtwork.upsert({
+    where: { seriesId_artworkId: { seriesId: series.id, artworkId } },
+    create: { seriesId: series.id, artworkId, sortOrder },
+    update: { sortOrder }
+  })
+  await transaction.artwork.update({ where: { id: artworkId }, data: { seriesId: series.id } })
+}
+
 function earliestModifiedAt(media: readonly DiscoveredLocalMediaFile[]): Date {
   if (media.length === 0) throw new ScanExecutorError('MEDIA_NOT_FOUND', 'Local work has no supported media')
   return media.reduce(
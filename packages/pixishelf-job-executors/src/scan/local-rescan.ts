@@ -3,6 +3,7 @@ import type { EnqueuedChildJob, ExecutionContext, QueueSqlExecutor } from '@pixi
 import type { ScanPayload } from '@pixishelf/job-contracts'
 import { collectLocalMedia, verifyLocalWorkFingerprint } from './discovery.ts'
 import { ScanExecutorError } from './errors.ts'
+import { syncCreatedSubtitleSidecars, syncScannedSubtitleSidecars } from './subtitle-sidecars.ts'
 import { localWorkInputDigest } from './digests.ts'
 import type { LocalWorkInputRow, ScanRunRecord } from './run-store.ts'
 import type { ScanExecutorDependencies, ScanExecutorLimits, ScanTransaction } from './types.ts'
@@ -178,6 +179,7 @@ export async function reconcileLocalArtworkImages(
       ) {
         await transaction.image.update({ where: { id: previous.id }, data })
       }
+      await syncScannedSubtitleSidecars(transaction, { imageId: previous.id, media: item, now })
     } else {
       additions.push({ artworkId, ...data })
     }
@@ -187,7 +189,14 @@ export async function reconcileLocalArtworkImages(
   if (removedIds.length > 0) {
     await transaction.image.deleteMany({ where: { artworkId, id: { in: removedIds } } })
   }
-  if (additions.length > 0) await transaction.image.createMany({ data: additions })
+  if (additions.length > 0) {
+    await transaction.image.createMany({ data: additions })
+    await syncCreatedSubtitleSidecars(transaction, {
+      artworkId,
+      media: ordered.filter((item) => !existingByPath.has(normalizePath(item.relativePath))),
+      now
+    })
+  }
   return ordered
 }
 
@@ -217,12 +226,7 @@ async function loadFrozenWork(
 }
 
 function normalizePath(value: string) {
-  return value
-    .replace(/\\/g, '/')
-    .replace(/\/+/g, '/')
-    .replace(/^\/+/, '')
-    .normalize('NFC')
-    .toLocaleLowerCase('und')
+  return value.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/+/, '').normalize('NFC').toLocaleLowerCase('und')
 }
 
 function localRescanCheckpointKey(artworkId: number, relativePath: string) {
@@ -2,7 +2,9 @@ import { Prisma } from '@pixishelf/db'
 import { ScanExecutorError } from './errors.ts'
 import type { DiscoveredMediaFile } from './discovery.ts'
 import type { ScanMetadata } from './metadata.ts'
+import { syncCreatedSubtitleSidecars, syncScannedSubtitleSidecars } from './subtitle-sidecars.ts'
 import type { ScanTransaction } from './types.ts'
+import { resolveIngestTagIds, syncArtworkImpliedTags } from '../shared/tag-rules.ts'
 
 export type ExistingArtworkPolicy = 'SKIP' | 'REFRESH'
 
@@ -216,6 +218,7 @@ export async function publishPixivArtwork(input: PixivPublishInput) {
 
   // 新增图片要接在当前最大 sortOrder 之后；复用路径则只更新元数据，不触发删除、重排或插队，保证本地手工追加/本地文件更新不会被扫描改乱顺序。
   let nextSortOrder = existingImages.reduce((maximum, image) => Math.max(maximum, image.sortOrder), -1) + 1
+  const createdMedia: DiscoveredMediaFile[] = []
   for (const item of input.media) {
     const sourceMediaData = {
       size: item.size,
@@ -230,6 +233,7 @@ export async function publishPixivArtwork(input: PixivPublishInput) {
     const existing = existingByIdentity.get(normalizeMediaIdentity(item.relativePath))
     if (existing) {
       await transaction.image.update({ where: { id: existing.id }, data: sourceMediaData })
+      await syncScannedSubtitleSidecars(transaction, { imageId: existing.id, media: item, now: input.now })
     } else {
       await transaction.image.create({
         data: {
@@ -241,8 +245,10 @@ export async function publishPixivArtwork(input: PixivPublishInput) {
       })
       nextSortOrder += 1
       newImageCount += 1
+      createdMedia.push(item)
     }
   }
+  await syncCreatedSubtitleSidecars(transaction, { artworkId, media: createdMedia, now: input.now })
   if (input.manageCheckpoint !== false) {
     await writeItem(input, {
       artworkId,
@@ -369,16 +375,10 @@ async function replaceSourceTags(
   sourceRefId: string,
   names: string[]
 ) {
-  const tagIds: number[] = []
-  for (const name of new Set(names)) {
-    const tag = await transaction.tag.upsert({
-      where: { namespace_name: { namespace: 'general', name } },
-      create: { namespace: 'general', name },
-      update: {},
-      select: { id: true }
-    })
-    tagIds.push(tag.id)
-  }
+  const tagIds = await resolveIngestTagIds(
+    transaction,
+    names.map((name) => ({ namespace: 'general', name }))
+  )
 
   // ArtworkTag 使用 (artworkId, tagId) 唯一约束，且一条关系有 provenance/sourceRefId 两个维度。
   // 刷新时仅清理当前 provider/sourceRef 标记的 SOURCE 标签，避免误删 MANUAL/DERIVED/LEGACY（以及其他来源）归属。
@@ -397,6 +397,7 @@ async function replaceSourceTags(
       update: {}
     })
   }
+  await syncArtworkImpliedTags(transaction, artworkId)
 }
 
 async function writeItem(
@@ -183,7 +183,7 @@ export async function verifyFrozenLocalSnapshot(input: {
     for (const row of page) {
       assertDenseOrdinal(row.ordinal, workCount)
       assertCanonicalRelativeScanPath(row.relativePath)
-      if (row.kind !== 'MEDIA_DIRECTORY') {
+      if (row.kind !== 'MEDIA_DIRECTORY' && row.kind !== 'MEDIA_ARCHIVE') {
         throw new ScanExecutorError('INPUT_SNAPSHOT_INVALID', 'Frozen local work kind is no longer supported')
       }
       if (row.fingerprint !== null) {
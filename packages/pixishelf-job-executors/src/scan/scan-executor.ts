@@ -6,6 +6,9 @@ import type { EnqueuedChildJob, ExecutionContext, JobExecutionOutcome, QueueSqlE
 import { mapBounded, throwIfAborted } from './bounded.ts'
 import { readStableFileContent, type StableFileState } from './content-reader.ts'
 import { collectArtworkMedia, discoverMetadataCandidatePages } from './discovery.ts'
+import { enqueueImagePerceptualHashFollowUp } from '../maintenance/image-perceptual-hash.ts'
+import { enqueueUgoiraConversionFollowUp } from '../ugoira/conversion.ts'
+import { enqueueVideoMediaFollowUps } from '../video-media/probe.ts'
 import { ScanExecutorError } from './errors.ts'
 import {
   ensurePixivInventoryRootIdentity,
@@ -78,6 +81,11 @@ export async function executeScan(
         now: now()
       })
       const result = summarize(run.id, 1, [localResult])
+      if (result.newImages > 0) {
+        await enqueueImagePerceptualHashFollowUp(context)
+        await enqueueUgoiraConversionFollowUp(context)
+        await enqueueVideoMediaFollowUps(context)
+      }
       return finalizeScanSuccess({ context, runId: run.id, result, startedAt: run.startedAt, now: now() })
     }
     const inventoryRootPathHash = hashScanRootIdentity(root.absolutePath)
@@ -172,6 +180,11 @@ export async function executeScan(
       )
     }
     throwIfAborted(context.signal)
+    if (result.newImages > 0) {
+      await enqueueImagePerceptualHashFollowUp(context)
+      await enqueueUgoiraConversionFollowUp(context)
+      await enqueueVideoMediaFollowUps(context)
+    }
     context.logger.info('scan.finalize.start', { mode: context.payload.mode, inputCount: snapshot.count })
     return finalizeScanSuccess({
       context,
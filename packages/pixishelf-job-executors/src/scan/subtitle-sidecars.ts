@@ -0,0 +1,38 @@
+import type { DiscoveredMediaFile } from './discovery.ts'
+import type { ScanTransaction } from './types.ts'
+import { sidecarSubtitleTrackInputs, syncVideoSubtitleTracks } from '../video-media/subtitles.ts'
+
+/**
+ * Records the sidecar subtitles found next to a published video. Conversion to WebVTT happens later in
+ * VIDEO_MEDIA_PROBE, so scan transactions never write derived files.
+ */
+export async function syncScannedSubtitleSidecars(
+  transaction: ScanTransaction,
+  input: { imageId: number; media: Pick<DiscoveredMediaFile, 'mediaType' | 'subtitles'>; now: Date }
+) {
+  if (input.media.mediaType !== 'VIDEO') return
+  await syncVideoSubtitleTracks(transaction, {
+    imageId: input.imageId,
+    source: 'SIDECAR',
+    tracks: sidecarSubtitleTrackInputs(input.media.subtitles),
+    now: input.now
+  })
+}
+
+/** Same as {@link syncScannedSubtitleSidecars} for rows inserted with createMany, which returns no ids. */
+export async function syncCreatedSubtitleSidecars(
+  transaction: ScanTransaction,
+  input: { artworkId: number; media: readonly DiscoveredMediaFile[]; now: Date }
+) {
+  const subtitled = input.media.filter((item) => item.mediaType === 'VIDEO' && item.subtitles.length > 0)
+  if (subtitled.length === 0) return
+  const images = await transaction.image.findMany({
+    where: { artworkId: input.artworkId, path: { in: subtitled.map((item) => item.relativePath) } },
+    select: { id: true, path: true }
+  })
+  const imageIdByPath = new Map(images.map((image) => [image.path, image.id]))
+  for (const item of subtitled) {
+    const imageId = imageIdByPath.get(item.relativePath)
+    if (imageId !== undefined) await syncScannedSubtitleSidecars(transaction, { imageId, media: item, now: input.now })
+  }
+}
@@ -17,6 +17,8 @@ export interface ScanExecutorConfig {
   scanRoot: string
   localImportDirectory?: string
   discoveryExcludedRootDirectories?: readonly string[]
+  /** 7-Zip executable used to list and extract `.7z` local imports; defaults to `7z` on PATH. */
+  sevenZipPath?: string
   limits?: Partial<ScanExecutorLimits>
   retryDelayMs?: number
 }
@@ -0,0 +1,116 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  extractSevenZipEntries,
+  readSevenZipDirectory,
+  SevenZipArchiveError,
+  type SevenZipEntry
+} from '../seven-zip-archive.js'
+import {
+  buildFailingSevenZipFixture,
+  buildSevenZipFixture,
+  writeFakeSevenZip,
+  type SevenZipFixtureEntry
+} from './seven-zip-fixture.js'
+
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+async function setup(manifest: string) {
+  const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-7z-'))
+  roots.push(root)
+  const filePath = path.join(root, 'archive.7z')
+  await writeFile(filePath, manifest)
+  return { command: await writeFakeSevenZip(root), filePath }
+}
+
+async function extractAll(command: string, filePath: string, entries: SevenZipEntry[]) {
+  const contents = new Map<string, string>()
+  await extractSevenZipEntries(command, filePath, entries, async (entry) => {
+    if (entry.name.endsWith('.txt')) return null
+    const chunks: Buffer[] = []
+    return {
+      write: async (chunk) => {
+        chunks.push(chunk)
+      },
+      close: async () => {
+        contents.set(entry.name, Buffer.concat(chunks).toString('utf8'))
+      }
+    }
+  })
+  return contents
+}
+
+const ENTRIES: SevenZipFixtureEntry[] = [
+  { name: 'pages', directory: true },
+  { name: 'pages/1.jpg', content: 'first page' },
+  { name: 'pages/empty.png', content: '' },
+  { name: 'notes.txt', content: 'discarded' },
+  { name: 'pages/2.jpg', content: 'x'.repeat(200_000) },
+  { name: 'link.jpg', content: 'pages/1.jpg', unixMode: 'lrwxrwxrwx' }
+]
+
+describe('7z archive reader', () => {
+  it('lists entries and splits the single extraction stream by the listed sizes', async () => {
+    const { command, filePath } = await setup(buildSevenZipFixture(ENTRIES))
+
+    const entries = await readSevenZipDirectory(command, filePath)
+
+    expect(
+      entries.map((entry) => [entry.name, entry.uncompressedSize, entry.isDirectory, entry.isRegularFile])
+    ).toEqual([
+      ['pages', 0, true, false],
+      ['pages/1.jpg', 10, false, true],
+      ['pages/empty.png', 0, false, true],
+      ['notes.txt', 9, false, true],
+      ['pages/2.jpg', 200_000, false, true],
+      ['link.jpg', 11, false, false]
+    ])
+    const contents = await extractAll(command, filePath, entries)
+    expect([...contents.keys()]).toEqual(['pages/1.jpg', 'pages/empty.png', 'pages/2.jpg', 'link.jpg'])
+    expect(contents.get('pages/1.jpg')).toBe('first page')
+    expect(contents.get('pages/empty.png')).toBe('')
+    expect(contents.get('pages/2.jpg')).toBe('x'.repeat(200_000))
+  })
+
+  it('rejects encrypted entries, entry limits and output that does not match the listing', async () => {
+    const encrypted = await setup(buildSevenZipFixture([{ name: '1.jpg', content: 'a', encrypted: true }]))
+    await expect(readSevenZipDirectory(encrypted.command, encrypted.filePath)).rejects.toThrow(
+      'Encrypted 7z entries are not supported'
+    )
+
+    const archive = await setup(buildSevenZipFixture(ENTRIES.slice(0, 3)))
+    await expect(readSevenZipDirectory(archive.command, archive.filePath, { maxEntries: 2 })).rejects.toThrow(
+      'entry limit'
+    )
+
+    const overflowing = await setup(buildSevenZipFixture(ENTRIES.slice(0, 2), { trailing: 'more' }))
+    const listed = await readSevenZipDirectory(overflowing.command, overflowing.filePath)
+    await expect(extractAll(overflowing.command, overflowing.filePath, listed)).rejects.toThrow(
+      'more data than it lists'
+    )
+    await expect(
+      extractAll(overflowing.command, overflowing.filePath, [
+        ...listed,
+        { name: 'missing.jpg', uncompressedSize: 100, isDirectory: false, isRegularFile: true }
+      ])
+    ).rejects.toThrow('less data than it lists')
+  })
+
+  it('reports 7-Zip failures and a missing executable as archive errors', async () => {
+    const broken = await setup(buildFailingSevenZipFixture('Headers Error'))
+    await expect(readSevenZipDirectory(broken.command, broken.filePath)).rejects.toThrow(
+      '7z exited with code 2: ERROR: Headers Error'
+    )
+
+    const missing = path.join(path.dirname(broken.filePath), 'no-such-7z')
+    const error = await readSevenZipDirectory(missing, broken.filePath).catch((caught: unknown) => caught)
+    expect(error).toBeInstanceOf(SevenZipArchiveError)
+    expect((error as Error).message).toBe(`7z executable is not available: ${missing}`)
+  })
+})
@@ -0,0 +1,64 @@
+import { chmod, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+export interface SevenZipFixtureEntry {
+  name: string
+  content?: Buffer | string
+  directory?: boolean
+  /** Unix mode column of the listing, e.g. `lrwxrwxrwx` for a symbolic link. */
+  unixMode?: string
+  encrypted?: boolean
+}
+
+/**
+ * Writes a stand-in for the 7-Zip executable. The "archive" it reads is a JSON manifest from
+ * buildSevenZipFixture, and it prints the same `l -slt` listing and `e -so` stream 7-Zip does,
+ * so tests need neither the binary nor checked-in 7z files.
+ */
+export async function writeFakeSevenZip(directory: string): Promise<string> {
+  const command = path.join(directory, 'fake-7z')
+  await writeFile(
+    command,
+    `#!/usr/bin/env node
+const fs = require('node:fs')
+const args = process.argv.slice(2)
+const manifest = JSON.parse(fs.readFileSync(args[args.length - 1], 'utf8'))
+if (manifest.error) {
+  process.stderr.write('ERROR: ' + manifest.error + '\\n')
+  process.exit(2)
+}
+if (args[0] === 'l') {
+  const blocks = manifest.entries.map((entry) => {
+    const size = entry.directory ? 0 : Buffer.from(entry.content, 'base64').length
+    const attributes = entry.directory ? 'D_ drwxr-xr-x' : 'A_ ' + (entry.unixMode || '-rw-r--r--')
+    return ['Path = ' + entry.name, 'Folder = ' + (entry.directory ? '+' : '-'), 'Size = ' + size,
+      'Attributes = ' + attributes, 'Encrypted = ' + (entry.encrypted ? '+' : '-')].join('\\n')
+  })
+  process.stdout.write('7-Zip (fake)\\n\\n--\\nPath = ' + args[args.length - 1] + '\\nType = 7z\\n\\n----------\\n' + blocks.join('\\n\\n') + '\\n\\n')
+} else if (args[0] === 'e') {
+  for (const entry of manifest.entries) {
+    if (!entry.directory) process.stdout.write(Buffer.from(entry.content, 'base64'))
+  }
+  if (manifest.trailing) process.stdout.write(manifest.trailing)
+} else {
+  process.exit(7)
+}
+`
+  )
+  await chmod(command, 0o755)
+  return command
+}
+
+export function buildSevenZipFixture(entries: SevenZipFixtureEntry[], options: { trailing?: string } = {}): string {
+  return JSON.stringify({
+    entries: entries.map((entry) => ({
+      ...entry,
+      content: Buffer.from(entry.content ?? '').toString('base64')
+    })),
+    ...options
+  })
+}
+
+export function buildFailingSevenZipFixture(error: string): string {
+  return JSON.stringify({ error })
+}
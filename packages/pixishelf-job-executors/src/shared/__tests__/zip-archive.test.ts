@@ -0,0 +1,155 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  createZipArchiveWriter,
+  crc32,
+  extractZipEntryToFile,
+  readZipDirectory,
+  readZipEntry,
+  ZipArchiveError
+} from '../zip-archive.js'
+import { buildZipFixture } from './zip-fixture.js'
+
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+async function tempRoot() {
+  const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-zip-'))
+  roots.push(root)
+  return root
+}
+
+async function writeArchive(content: Buffer) {
+  const filePath = path.join(await tempRoot(), 'archive.zip')
+  await writeFile(filePath, content)
+  return filePath
+}
+
+describe('zip archive reader', () => {
+  it('lists entries and reads stored and deflated content', async () => {
+    const filePath = await writeArchive(
+      buildZipFixture([
+        { name: 'frames/', content: '' },
+        { name: '000000.jpg', content: 'first frame' },
+        { name: 'animation.json', content: JSON.stringify({ frames: [] }).repeat(20), deflate: true }
+      ])
+    )
+
+    const entries = await readZipDirectory(filePath)
+
+    expect(entries.map((entry) => [entry.name, entry.isDirectory])).toEqual([
+      ['frames/', true],
+      ['000000.jpg', false],
+      ['animation.json', false]
+    ])
+    await expect(readZipEntry(filePath, entries[1]!, { maxBytes: 1024 })).resolves.toEqual(Buffer.from('first frame'))
+    await expect(readZipEntry(filePath, entries[2]!, { maxBytes: 1024 })).resolves.toEqual(
+      Buffer.from(JSON.stringify({ frames: [] }).repeat(20))
+    )
+  })
+
+  it('rejects oversized entries, corrupted data and non-zip files', async () => {
+    const archive = buildZipFixture([{ name: 'a.txt', content: 'abcdef' }])
+    const filePath = await writeArchive(archive)
+    const [entry] = await readZipDirectory(filePath)
+
+    await expect(readZipEntry(filePath, entry!, { maxBytes: 3 })).rejects.toThrow('exceeds the size limit')
+
+    archive[30 + 'a.txt'.length] = 'X'.charCodeAt(0)
+    const corrupted = await writeArchive(archive)
+    await expect(readZipEntry(corrupted, entry!, { maxBytes: 1024 })).rejects.toThrow('checksum mismatch')
+
+    const notZip = await writeArchive(Buffer.from('definitely not a zip archive'))
+    await expect(readZipDirectory(notZip)).rejects.toBeInstanceOf(ZipArchiveError)
+    await expect(readZipDirectory(filePath, { maxEntries: 0 })).rejects.toThrow('entry limit')
+  })
+
+  it('streams entries into new files and stops inflating past the declared size', async () => {
+    const page = Buffer.alloc(256 * 1024, 0x5a)
+    const archive = buildZipFixture([
+      { name: 'page.jpg', content: page, deflate: true },
+      { name: 'empty.png', content: '' }
+    ])
+    const filePath = await writeArchive(archive)
+    const root = path.dirname(filePath)
+    const [entry, empty] = await readZipDirectory(filePath)
+
+    await extractZipEntryToFile(filePath, entry!, path.join(root, 'page.jpg'), { maxBytes: page.length })
+    await extractZipEntryToFile(filePath, empty!, path.join(root, 'empty.png'), { maxBytes: 0 })
+    expect((await readFile(path.join(root, 'page.jpg'))).equals(page)).toBe(true)
+    expect((await stat(path.join(root, 'empty.png'))).size).toBe(0)
+    await expect(
+      extractZipEntryToFile(filePath, entry!, path.join(root, 'page.jpg'), { maxBytes: page.length })
+    ).rejects.toMatchObject({ code: 'EEXIST' })
+    await expect(
+      extractZipEntryToFile(filePath, entry!, path.join(root, 'limited.jpg'), { maxBytes: 1024 })
+    ).rejects.toThrow('exceeds the size limit')
+
+    // A directory that understates the size must not let the inflater write the real page.
+    const understated = { ...entry!, uncompressedSize: 1024 }
+    await expect(
+      extractZipEntryToFile(filePath, understated, path.join(root, 'bomb.jpg'), { maxBytes: 1024 })
+    ).rejects.toThrow('exceeds its declared size')
+    expect((await stat(path.join(root, 'bomb.jpg'))).size).toBeLessThanOrEqual(1024)
+
+    const dataOffset = 30 + 'page.jpg'.length
+    archive.writeUInt8(archive.readUInt8(dataOffset + 4) ^ 0xff, dataOffset + 4)
+    const corrupted = await writeArchive(archive)
+    await expect(
+      extractZipEntryToFile(corrupted, entry!, path.join(root, 'corrupted.jpg'), { maxBytes: page.length })
+    ).rejects.toBeInstanceOf(ZipArchiveError)
+  })
+
+  it('computes the standard CRC-32, also across chunks', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926)
+    expect(crc32(Buffer.from('6789'), crc32(Buffer.from('12345')))).toBe(0xcbf43926)
+  })
+})
+
+describe('zip archive writer', () => {
+  it('writes stored entries that the reader round-trips', async () => {
+    const root = await tempRoot()
+    const sourcePath = path.join(root, 'page.jpg')
+    const page = Buffer.alloc(3 * 1024 * 1024 + 7, 0xab)
+    await writeFile(sourcePath, page)
+    const filePath = path.join(root, 'book.cbz')
+
+    const writer = await createZipArchiveWriter(filePath, { modifiedAt: new Date(2026, 9, 19, 12, 30, 10) })
+    await writer.addBuffer('ComicInfo.xml', Buffer.from('<ComicInfo />'))
+    await writer.addFile('0001.jpg', sourcePath)
+    await writer.addBuffer('章节/说明.txt', Buffer.from('utf-8 名称'))
+    const size = await writer.close()
+
+    expect(size).toBe((await stat(filePath)).size)
+    const entries = await readZipDirectory(filePath)
+    expect(entries.map((entry) => [entry.name, entry.method, entry.uncompressedSize])).toEqual([
+      ['ComicInfo.xml', 0, 13],
+      ['0001.jpg', 0, page.length],
+      ['章节/说明.txt', 0, Buffer.byteLength('utf-8 名称')]
+    ])
+    expect((await readZipEntry(filePath, entries[1]!, { maxBytes: page.length })).equals(page)).toBe(true)
+    await expect(readZipEntry(filePath, entries[2]!, { maxBytes: 1024 })).resolves.toEqual(Buffer.from('utf-8 名称'))
+  })
+
+  it('refuses unsafe or duplicate names and removes the file on abort', async () => {
+    const root = await tempRoot()
+    const filePath = path.join(root, 'unsafe.zip')
+    const writer = await createZipArchiveWriter(filePath)
+
+    for (const name of ['../escape.jpg', '/abs.jpg', 'a\\b.jpg', 'a//b.jpg', 'C:/x.jpg', '']) {
+      await expect(writer.addBuffer(name, Buffer.from('x'))).rejects.toThrow('Unsafe zip entry name')
+    }
+    await writer.addBuffer('a.jpg', Buffer.from('x'))
+    await expect(writer.addBuffer('a.jpg', Buffer.from('y'))).rejects.toThrow('Duplicate zip entry name')
+    await writer.abort()
+
+    await expect(stat(filePath)).rejects.toMatchObject({ code: 'ENOENT' })
+    await writeFile(filePath, 'existing')
+    await expect(createZipArchiveWriter(filePath)).rejects.toMatchObject({ code: 'EEXIST' })
+  })
+})
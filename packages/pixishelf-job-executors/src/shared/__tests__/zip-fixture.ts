@@ -0,0 +1,46 @@
+import { deflateRawSync } from 'node:zlib'
+import { crc32 } from '../zip-archive.js'
+
+/** Builds a minimal classic zip in memory; tests use it instead of checked-in binary fixtures. */
+export function buildZipFixture(entries: Array<{ name: string; content: Buffer | string; deflate?: boolean }>): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+  for (const entry of entries) {
+    const content = Buffer.isBuffer(entry.content) ? entry.content : Buffer.from(entry.content)
+    const data = entry.deflate ? deflateRawSync(content) : content
+    const name = Buffer.from(entry.name, 'utf8')
+    const checksum = crc32(content)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x800, 6)
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x800, 8)
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    localParts.push(local, name, data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + data.length
+  }
+  const directory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...localParts, directory, end])
+}
@@ -1 +1,2 @@
-export {}
+export * from './tag-rules.ts'
+export * from './zip-archive.ts'
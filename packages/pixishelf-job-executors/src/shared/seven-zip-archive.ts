@@ -0,0 +1,171 @@
+import { spawn } from 'node:child_process'
+
+const LISTING_SEPARATOR = '----------'
+const MAX_LISTING_BYTES = 64 * 1024 * 1024
+const MAX_STDERR_BYTES = 16 * 1024
+
+export interface SevenZipEntry {
+  name: string
+  uncompressedSize: number
+  isDirectory: boolean
+  /** Links and other non-regular entries would extract as their target text, so callers skip them. */
+  isRegularFile: boolean
+}
+
+/** Receives the bytes of one extracted entry; returning null from the opener discards the entry. */
+export interface SevenZipEntrySink {
+  write(chunk: Buffer): Promise<void>
+  close(): Promise<void>
+}
+
+export class SevenZipArchiveError extends Error {
+  readonly code = 'SEVEN_ZIP_ARCHIVE_INVALID'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'SevenZipArchiveError'
+  }
+}
+
+/**
+ * Lists a 7z archive through the configured 7-Zip executable. The type is pinned to 7z so
+ * the executable never falls back to other formats it can open, and encrypted entries fail.
+ */
+export async function readSevenZipDirectory(
+  command: string,
+  filePath: string,
+  options: { maxEntries?: number; signal?: AbortSignal } = {}
+): Promise<SevenZipEntry[]> {
+  const chunks: Buffer[] = []
+  let listed = 0
+  await runSevenZip(command, ['l', '-slt', '-t7z', '--', filePath], options.signal, async (chunk) => {
+    listed += chunk.length
+    if (listed > MAX_LISTING_BYTES) throw new SevenZipArchiveError('7z archive listing is too large')
+    chunks.push(chunk)
+  })
+  const output = Buffer.concat(chunks).toString('utf8').replace(/\r\n/g, '\n')
+  const separator = output.indexOf(`\n${LISTING_SEPARATOR}\n`)
+  if (separator === -1) throw new SevenZipArchiveError('7z archive listing is invalid')
+  const entries: SevenZipEntry[] = []
+  for (const block of output.slice(separator + LISTING_SEPARATOR.length + 2).split(/\n\n+/)) {
+    const fields = new Map<string, string>()
+    for (const line of block.split('\n')) {
+      const divider = line.indexOf(' = ')
+      if (divider > 0) fields.set(line.slice(0, divider), line.slice(divider + 3))
+    }
+    const name = fields.get('Path')
+    if (name === undefined) continue
+    if (fields.get('Encrypted') === '+') throw new SevenZipArchiveError('Encrypted 7z entries are not supported')
+    const size = Number(fields.get('Size') || '0')
+    if (!Number.isSafeInteger(size) || size < 0) throw new SevenZipArchiveError(`7z entry size is invalid: ${name}`)
+    // Attributes look like "A_ -rw-r--r--": Windows flags, then the Unix mode when one was stored.
+    const [windowsAttributes = '', unixMode = ''] = (fields.get('Attributes') ?? '').split(' ')
+    const isDirectory = windowsAttributes.includes('D') || fields.get('Folder') === '+'
+    entries.push({
+      name,
+      uncompressedSize: size,
+      isDirectory,
+      isRegularFile: !isDirectory && (unixMode === '' || unixMode.startsWith('-'))
+    })
+    if (options.maxEntries !== undefined && entries.length > options.maxEntries) {
+      throw new SevenZipArchiveError('7z archive exceeds the configured entry limit')
+    }
+  }
+  return entries
+}
+
+/**
+ * Decodes the whole archive once and splits the concatenated output by the listed sizes, so
+ * a solid archive is not decompressed again for every page. `entries` must be the unmodified
+ * result of readSevenZipDirectory; 7-Zip verifies every CRC and the exit status is checked
+ * before this resolves, so a sink may only be trusted after it returns.
+ */
+export async function extractSevenZipEntries(
+  command: string,
+  filePath: string,
+  entries: readonly SevenZipEntry[],
+  openSink: (entry: SevenZipEntry, index: number) => Promise<SevenZipEntrySink | null>,
+  options: { signal?: AbortSignal } = {}
+): Promise<void> {
+  const files = entries.flatMap((entry, index) => (entry.isDirectory ? [] : [{ entry, index }]))
+  let position = 0
+  let current: { sink: SevenZipEntrySink | null; remaining: number } | null = null
+
+  const advance = async () => {
+    while (!current && position < files.length) {
+      const { entry, index } = files[position]!
+      position += 1
+      current = { sink: await openSink(entry, index), remaining: entry.uncompressedSize }
+      if (current.remaining === 0) {
+        await current.sink?.close()
+        current = null
+      }
+    }
+  }
+
+  await advance()
+  await runSevenZip(command, ['e', '-so', '-spd', '-t7z', '--', filePath], options.signal, async (chunk) => {
+    let offset = 0
+    while (offset < chunk.length) {
+      if (!current) throw new SevenZipArchiveError('7z archive produced more data than it lists')
+      const active: { sink: SevenZipEntrySink | null; remaining: number } = current
+      const part = chunk.subarray(offset, offset + Math.min(active.remaining, chunk.length - offset))
+      await active.sink?.write(part)
+      active.remaining -= part.length
+      offset += part.length
+      if (active.remaining === 0) {
+        await active.sink?.close()
+        current = null
+        await advance()
+      }
+    }
+  })
+  if (current || position < files.length) throw new SevenZipArchiveError('7z archive produced less data than it lists')
+}
+
+async function runSevenZip(
+  command: string,
+  args: readonly string[],
+  signal: AbortSignal | undefined,
+  onStdout: (chunk: Buffer) => Promise<void>
+) {
+  signal?.throwIfAborted()
+  // stdin is closed so a header-encrypted archive fails instead of waiting for a password.
+  const child = spawn(command, [...args], {
+    stdio: ['ignore', 'pipe', 'pipe'],
+    windowsHide: true,
+    env: { ...process.env, LANG: 'C.UTF-8', LC_ALL: 'C.UTF-8' }
+  })
+  let stderr = ''
+  child.stderr.setEncoding('utf8')
+  child.stderr.on('data', (chunk: string) => {
+    if (stderr.length < MAX_STDERR_BYTES) stderr += chunk
+  })
+  const abort = () => child.kill('SIGKILL')
+  signal?.addEventListener('abort', abort, { once: true })
+  const exited = new Promise<{ code: number | null; error: NodeJS.ErrnoException | null }>((resolve) => {
+    child.once('error', (error: NodeJS.ErrnoException) => resolve({ code: null, error }))
+    child.once('close', (code) => resolve({ code, error: null }))
+  })
+  try {
+    try {
+      for await (const chunk of child.stdout as AsyncIterable<Buffer>) await onStdout(chunk)
+    } catch (error) {
+      child.kill('SIGKILL')
+      await exited
+      throw error
+    }
+    const { code, error } = await exited
+    signal?.throwIfAborted()
+    if (error?.code === 'ENOENT') {
+      throw new SevenZipArchiveError(`7z executable is not available: ${command}`)
+    }
+    if (error) throw error
+    if (code !== 0) {
+      const reason = stderr.trim().split('\n').at(-1)?.trim()
+      throw new SevenZipArchiveError(`7z exited with code ${code}${reason ? `: ${reason}` : ''}`)
+    }
+  } finally {
+    signal?.removeEventListener('abort', abort)
+  }
+}
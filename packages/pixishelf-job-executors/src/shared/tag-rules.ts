@@ -0,0 +1,83 @@
+import { Prisma } from '@pixishelf/db'
+
+export interface IngestTagReference {
+  namespace: string
+  name: string
+}
+
+/**
+ * Maps incoming provider tags to tag ids. A TagAlias for the same
+ * (namespace, name) wins over creating or reusing a tag with that spelling,
+ * so merged duplicates do not reappear on the next refresh.
+ */
+export async function resolveIngestTagIds(
+  transaction: Prisma.TransactionClient,
+  references: readonly IngestTagReference[]
+): Promise<number[]> {
+  const unique = new Map<string, IngestTagReference>()
+  for (const reference of references) unique.set(`${reference.namespace}\u0000${reference.name}`, reference)
+  if (unique.size === 0) return []
+
+  const aliases = await transaction.tagAlias.findMany({
+    where: { OR: [...unique.values()].map(({ namespace, name }) => ({ namespace, name })) },
+    select: { namespace: true, name: true, tagId: true }
+  })
+  const aliasTagIds = new Map(aliases.map((alias) => [`${alias.namespace}\u0000${alias.name}`, alias.tagId]))
+
+  const tagIds = new Set<number>()
+  for (const [key, { namespace, name }] of unique) {
+    const aliasTagId = aliasTagIds.get(key)
+    if (aliasTagId !== undefined) {
+      tagIds.add(aliasTagId)
+      continue
+    }
+    const tag = await transaction.tag.upsert({
+      where: { namespace_name: { namespace, name } },
+      create: { namespace, name },
+      update: {},
+      select: { id: true }
+    })
+    tagIds.add(tag.id)
+  }
+  return [...tagIds]
+}
+
+/**
+ * Reconciles implication-derived tags for one artwork. The closure starts from
+ * the artwork's own tags (anything except DERIVED rows of non-system tags), so
+ * an implied tag disappears again once the tag that implied it is removed.
+ * System tags are never implication targets and keep their DERIVED rows.
+ */
+export async function syncArtworkImpliedTags(
+  transaction: Pick<Prisma.TransactionClient, '$executeRaw'>,
+  artworkId: number
+): Promise<void> {
+  await transaction.$executeRaw(Prisma.sql`
+    WITH RECURSIVE implied(tag_id) AS (
+      SELECT ti."impliedTagId"
+      FROM "ArtworkTag" at
+      JOIN "Tag" t ON t.id = at."tagId"
+      JOIN tag_implications ti ON ti."tagId" = at."tagId"
+      WHERE at."artworkId" = ${artworkId}
+        AND (at.provenance <> 'DERIVED' OR t."isSystem")
+      UNION
+      SELECT ti."impliedTagId"
+      FROM implied i
+      JOIN tag_implications ti ON ti."tagId" = i.tag_id
+    ),
+    removed AS (
+      DELETE FROM "ArtworkTag" at
+      USING "Tag" t
+      WHERE t.id = at."tagId"
+        AND at."artworkId" = ${artworkId}
+        AND at.provenance = 'DERIVED'
+        AND NOT t."isSystem"
+        AND at."tagId" NOT IN (SELECT tag_id FROM implied)
+      RETURNING at.id
+    )
+    INSERT INTO "ArtworkTag" ("artworkId", "tagId", provenance)
+    SELECT ${artworkId}, tag_id, 'DERIVED'::"ArtworkTagProvenance"
+    FROM implied
+    ON CONFLICT ("artworkId", "tagId") DO NOTHING
+  `)
+}
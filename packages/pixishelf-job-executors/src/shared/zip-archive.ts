@@ -0,0 +1,399 @@
+import { createReadStream, createWriteStream } from 'node:fs'
+import * as fs from 'node:fs/promises'
+import { Readable, Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import { createInflateRaw, inflateRawSync } from 'node:zlib'
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const MAX_COMMENT_SIZE = 0xffff
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+const UTF8_NAME_FLAG = 0x800
+const ZIP_VERSION = 20
+const MAX_CLASSIC_VALUE = 0xffffffff
+const MAX_CLASSIC_ENTRIES = 0xffff
+const COPY_CHUNK_SIZE = 1024 * 1024
+
+export interface ZipEntry {
+  name: string
+  method: number
+  crc32: number
+  compressedSize: number
+  uncompressedSize: number
+  localHeaderOffset: number
+  isDirectory: boolean
+}
+
+export class ZipArchiveError extends Error {
+  readonly code = 'ZIP_ARCHIVE_INVALID'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipArchiveError'
+  }
+}
+
+/**
+ * Reads the central directory of a classic (non-ZIP64, unencrypted) archive.
+ * Only the directory is loaded; entry data stays on disk until readZipEntry.
+ */
+export async function readZipDirectory(filePath: string, options: { maxEntries?: number } = {}): Promise<ZipEntry[]> {
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const { size } = await handle.stat()
+    if (size < END_OF_CENTRAL_DIRECTORY_SIZE) throw new ZipArchiveError('File is too small to be a zip archive')
+    const tailLength = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_SIZE)
+    const tail = await readExactly(handle, size - tailLength, tailLength)
+    const eocd = findEndOfCentralDirectory(tail)
+    const entryCount = tail.readUInt16LE(eocd + 10)
+    const directorySize = tail.readUInt32LE(eocd + 12)
+    const directoryOffset = tail.readUInt32LE(eocd + 16)
+    if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+      throw new ZipArchiveError('ZIP64 archives are not supported')
+    }
+    if (options.maxEntries !== undefined && entryCount > options.maxEntries) {
+      throw new ZipArchiveError('Zip archive exceeds the configured entry limit')
+    }
+    if (directoryOffset + directorySize > size) throw new ZipArchiveError('Zip central directory is truncated')
+    const directory = await readExactly(handle, directoryOffset, directorySize)
+    const entries: ZipEntry[] = []
+    let offset = 0
+    for (let index = 0; index < entryCount; index += 1) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new ZipArchiveError('Zip central directory entry is invalid')
+      }
+      const flags = directory.readUInt16LE(offset + 8)
+      const nameLength = directory.readUInt16LE(offset + 28)
+      const extraLength = directory.readUInt16LE(offset + 30)
+      const commentLength = directory.readUInt16LE(offset + 32)
+      const nameEnd = offset + 46 + nameLength
+      if (nameEnd > directory.length) throw new ZipArchiveError('Zip entry name is truncated')
+      if ((flags & 0x1) !== 0) throw new ZipArchiveError('Encrypted zip entries are not supported')
+      // Bit 11 marks UTF-8 names; older tools write CP437, which is ASCII-compatible for typical frame names.
+      const name = directory.toString((flags & 0x800) !== 0 ? 'utf8' : 'latin1', offset + 46, nameEnd)
+      entries.push({
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        crc32: directory.readUInt32LE(offset + 16),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        uncompressedSize: directory.readUInt32LE(offset + 24),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+        isDirectory: name.endsWith('/')
+      })
+      offset = nameEnd + extraLength + commentLength
+    }
+    return entries
+  } finally {
+    await handle.close().catch(() => undefined)
+  }
+}
+
+/** Reads and verifies one stored or deflated entry. */
+export async function readZipEntry(filePath: string, entry: ZipEntry, options: { maxBytes: number }): Promise<Buffer> {
+  assertReadableEntry(entry, options.maxBytes)
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const dataOffset = await readEntryDataOffset(handle, entry)
+    const compressed = await readExactly(handle, dataOffset, entry.compressedSize)
+    let content: Buffer
+    try {
+      content =
+        entry.method === METHOD_STORED
+          ? compressed
+          : inflateRawSync(compressed, { maxOutputLength: Math.max(1, entry.uncompressedSize) })
+    } catch {
+      throw new ZipArchiveError(`Zip entry cannot be inflated: ${entry.name}`)
+    }
+    if (content.length !== entry.uncompressedSize || crc32(content) !== entry.crc32) {
+      throw new ZipArchiveError(`Zip entry checksum mismatch: ${entry.name}`)
+    }
+    return content
+  } finally {
+    await handle.close().catch(() => undefined)
+  }
+}
+
+/**
+ * Streams one stored or deflated entry into a new file (`wx`), so a page never sits in memory.
+ * Inflation stops as soon as the output passes the declared size, which the caller has already
+ * bounded by `maxBytes`; the length and checksum are verified once the stream ends. A partial
+ * target is left for the caller to discard with its staging directory.
+ */
+export async function extractZipEntryToFile(
+  filePath: string,
+  entry: ZipEntry,
+  targetPath: string,
+  options: { maxBytes: number; signal?: AbortSignal }
+): Promise<void> {
+  assertReadableEntry(entry, options.maxBytes)
+  const handle = await fs.open(filePath, 'r')
+  let dataOffset: number
+  try {
+    dataOffset = await readEntryDataOffset(handle, entry)
+  } finally {
+    await handle.close().catch(() => undefined)
+  }
+  let written = 0
+  let checksum = 0
+  const verify = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length
+      if (written > entry.uncompressedSize) {
+        callback(new ZipArchiveError(`Zip entry exceeds its declared size: ${entry.name}`))
+        return
+      }
+      checksum = crc32(chunk, checksum)
+      callback(null, chunk)
+    }
+  })
+  const source =
+    entry.compressedSize === 0
+      ? Readable.from([])
+      : createReadStream(filePath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 })
+  const stages = entry.method === METHOD_STORED ? [verify] : [createInflateRaw(), verify]
+  try {
+    await pipeline([source, ...stages, createWriteStream(targetPath, { flags: 'wx' })], { signal: options.signal })
+  } catch (error) {
+    if (isZlibError(error)) throw new ZipArchiveError(`Zip entry cannot be inflated: ${entry.name}`)
+    throw error
+  }
+  if (written !== entry.uncompressedSize || checksum !== entry.crc32) {
+    throw new ZipArchiveError(`Zip entry checksum mismatch: ${entry.name}`)
+  }
+}
+
+function assertReadableEntry(entry: ZipEntry, maxBytes: number) {
+  if (entry.uncompressedSize > maxBytes) {
+    throw new ZipArchiveError(`Zip entry exceeds the size limit: ${entry.name}`)
+  }
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+    throw new ZipArchiveError(`Unsupported zip compression method ${entry.method}: ${entry.name}`)
+  }
+}
+
+async function readEntryDataOffset(handle: fs.FileHandle, entry: ZipEntry) {
+  const header = await readExactly(handle, entry.localHeaderOffset, 30)
+  if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE) {
+    throw new ZipArchiveError(`Zip local header is invalid: ${entry.name}`)
+  }
+  return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+}
+
+function isZlibError(error: unknown) {
+  return (error as NodeJS.ErrnoException | null)?.code?.startsWith('Z_') === true
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let index = 0; index < 256; index += 1) {
+    let value = index
+    for (let bit = 0; bit < 8; bit += 1) value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+    table[index] = value >>> 0
+  }
+  return table
+})()
+
+/** Pass the previous result to continue a checksum over consecutive chunks. */
+export function crc32(content: Uint8Array, previous = 0): number {
+  let value = (previous ^ 0xffffffff) >>> 0
+  for (let index = 0; index < content.length; index += 1) {
+    value = CRC32_TABLE[(value ^ content[index]!) & 0xff]! ^ (value >>> 8)
+  }
+  return (value ^ 0xffffffff) >>> 0
+}
+
+export interface ZipArchiveWriter {
+  addBuffer(name: string, content: Buffer): Promise<void>
+  /** Streams a file into the archive without loading it into memory. */
+  addFile(name: string, sourcePath: string, options?: { signal?: AbortSignal }): Promise<void>
+  /** Writes the central directory and returns the archive size in bytes. */
+  close(): Promise<number>
+  /** Closes and removes a partially written archive. */
+  abort(): Promise<void>
+}
+
+interface WrittenEntry {
+  name: Buffer
+  crc32: number
+  size: number
+  localHeaderOffset: number
+}
+
+/**
+ * Creates a classic (non-ZIP64) archive whose entries are all stored. The target file must not exist yet.
+ * Entry data is streamed and the local header checksum is patched afterwards, so large media never sits in memory.
+ */
+export async function createZipArchiveWriter(
+  filePath: string,
+  options: { modifiedAt?: Date } = {}
+): Promise<ZipArchiveWriter> {
+  const handle = await fs.open(filePath, 'wx')
+  const { time, date } = toDosDateTime(options.modifiedAt ?? new Date())
+  const entries: WrittenEntry[] = []
+  const names = new Set<string>()
+  let offset = 0
+  let closed = false
+
+  const append = async (content: Buffer) => {
+    await handle.write(content, 0, content.length, offset)
+    offset += content.length
+  }
+
+  const beginEntry = async (name: string, size: number) => {
+    if (closed) throw new ZipArchiveError('Zip archive writer is already closed')
+    assertSafeEntryName(name)
+    if (names.has(name)) throw new ZipArchiveError(`Duplicate zip entry name: ${name}`)
+    if (entries.length >= MAX_CLASSIC_ENTRIES) throw new ZipArchiveError('ZIP64 archives are not supported')
+    if (size > MAX_CLASSIC_VALUE || offset > MAX_CLASSIC_VALUE) {
+      throw new ZipArchiveError('ZIP64 archives are not supported')
+    }
+    names.add(name)
+    const entry: WrittenEntry = { name: Buffer.from(name, 'utf8'), crc32: 0, size, localHeaderOffset: offset }
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+    header.writeUInt16LE(ZIP_VERSION, 4)
+    header.writeUInt16LE(UTF8_NAME_FLAG, 6)
+    header.writeUInt16LE(METHOD_STORED, 8)
+    header.writeUInt16LE(time, 10)
+    header.writeUInt16LE(date, 12)
+    header.writeUInt32LE(size, 18)
+    header.writeUInt32LE(size, 22)
+    header.writeUInt16LE(entry.name.length, 26)
+    await append(Buffer.concat([header, entry.name]))
+    return entry
+  }
+
+  const finishEntry = async (entry: WrittenEntry, checksum: number) => {
+    entry.crc32 = checksum
+    const field = Buffer.alloc(4)
+    field.writeUInt32LE(checksum, 0)
+    await handle.write(field, 0, field.length, entry.localHeaderOffset + 14)
+    entries.push(entry)
+  }
+
+  return {
+    async addBuffer(name, content) {
+      const entry = await beginEntry(name, content.length)
+      await append(content)
+      await finishEntry(entry, crc32(content))
+    },
+
+    async addFile(name, sourcePath, fileOptions = {}) {
+      const source = await fs.open(sourcePath, 'r')
+      try {
+        const { size } = await source.stat()
+        const entry = await beginEntry(name, size)
+        const chunk = Buffer.alloc(Math.min(COPY_CHUNK_SIZE, Math.max(1, size)))
+        let checksum = 0
+        let copied = 0
+        while (copied < size) {
+          fileOptions.signal?.throwIfAborted()
+          const { bytesRead } = await source.read(chunk, 0, Math.min(chunk.length, size - copied), copied)
+          if (bytesRead === 0) break
+          const part = chunk.subarray(0, bytesRead)
+          checksum = crc32(part, checksum)
+          await append(part)
+          copied += bytesRead
+        }
+        if (copied !== size) throw new ZipArchiveError(`Source file changed while it was archived: ${name}`)
+        await finishEntry(entry, checksum)
+      } finally {
+        await source.close().catch(() => undefined)
+      }
+    },
+
+    async close() {
+      if (closed) throw new ZipArchiveError('Zip archive writer is already closed')
+      const directoryOffset = offset
+      const parts: Buffer[] = []
+      for (const entry of entries) {
+        const central = Buffer.alloc(46)
+        central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+        central.writeUInt16LE(ZIP_VERSION, 4)
+        central.writeUInt16LE(ZIP_VERSION, 6)
+        central.writeUInt16LE(UTF8_NAME_FLAG, 8)
+        central.writeUInt16LE(METHOD_STORED, 10)
+        central.writeUInt16LE(time, 12)
+        central.writeUInt16LE(date, 14)
+        central.writeUInt32LE(entry.crc32, 16)
+        central.writeUInt32LE(entry.size, 20)
+        central.writeUInt32LE(entry.size, 24)
+        central.writeUInt16LE(entry.name.length, 28)
+        central.writeUInt32LE(entry.localHeaderOffset, 42)
+        parts.push(central, entry.name)
+      }
+      const directory = Buffer.concat(parts)
+      if (directoryOffset + directory.length > MAX_CLASSIC_VALUE) {
+        throw new ZipArchiveError('ZIP64 archives are not supported')
+      }
+      const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE)
+      end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+      end.writeUInt16LE(entries.length, 8)
+      end.writeUInt16LE(entries.length, 10)
+      end.writeUInt32LE(directory.length, 12)
+      end.writeUInt32LE(directoryOffset, 16)
+      await append(Buffer.concat([directory, end]))
+      closed = true
+      await handle.sync()
+      await handle.close()
+      return offset
+    },
+
+    async abort() {
+      if (!closed) {
+        closed = true
+        await handle.close().catch(() => undefined)
+      }
+      await fs.rm(filePath, { force: true })
+    }
+  }
+}
+
+function assertSafeEntryName(name: string) {
+  if (!isSafeZipEntryName(name) || name.endsWith('/') || Buffer.byteLength(name, 'utf8') > 0xffff) {
+    throw new ZipArchiveError(`Unsafe zip entry name: ${name}`)
+  }
+}
+
+/**
+ * Zip-slip guard shared by the writer and by extraction: names must stay relative and must not
+ * climb out of the target directory. A single trailing slash (directory entry) is allowed.
+ */
+export function isSafeZipEntryName(name: string): boolean {
+  return (
+    name.length > 0 &&
+    !name.includes('\\') &&
+    !name.includes('\0') &&
+    !name.startsWith('/') &&
+    !/^[A-Za-z]:/.test(name) &&
+    name
+      .replace(/\/$/, '')
+      .split('/')
+      .every((segment) => segment !== '..' && segment !== '.' && segment !== '')
+  )
+}
+
+function toDosDateTime(value: Date) {
+  const year = Math.min(Math.max(value.getFullYear(), 1980), 2107)
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  }
+}
+
+function findEndOfCentralDirectory(tail: Buffer): number {
+  for (let offset = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= 0; offset -= 1) {
+    if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return offset
+  }
+  throw new ZipArchiveError('Zip end of central directory was not found')
+}
+
+async function readExactly(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  if (bytesRead !== length) throw new ZipArchiveError('Zip archive is truncated')
+  return buffer
+}
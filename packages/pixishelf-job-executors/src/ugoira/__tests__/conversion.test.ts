@@ -0,0 +1,195 @@
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import sharp from 'sharp'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { buildZipFixture } from '../../shared/__tests__/zip-fixture.js'
+import { VideoProcessingProcessError } from '../../video-processing/types.js'
+import type { ProcessRunRequest } from '../../video-processing/types.js'
+import { buildUgoiraConcatList, convertPendingUgoiraAnimations } from '../conversion.js'
+
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+async function frame(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .jpeg()
+    .toBuffer()
+}
+
+async function fixture(options: { images: Array<{ id: number; path: string; ugoiraAnimation?: { outputPath: string } }> }) {
+  const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-ugoira-convert-'))
+  roots.push(root)
+  const scanRoot = path.join(root, 'scan')
+  const storageRoot = path.join(root, 'derived')
+  await mkdir(path.join(scanRoot, 'artist'), { recursive: true })
+  const upsert = vi.fn().mockResolvedValue(undefined)
+  const imageUpdate = vi.fn().mockResolvedValue(undefined)
+  const gcUpsert = vi.fn().mockResolvedValue(undefined)
+  const transaction = {
+    mediaUgoiraAnimation: { upsert },
+    image: { update: imageUpdate },
+    derivedMediaGcEntry: { upsert: gcUpsert }
+  }
+  const findMany = vi.fn(async (query: { where: { id: { gt: number } } }) =>
+    options.images
+      .filter((image) => image.id > query.where.id.gt)
+      .map((image) => ({ width: null, height: null, ugoiraAnimation: null, ...image }))
+  )
+  const requests: ProcessRunRequest[] = []
+  const processRunner = vi.fn(async (request: ProcessRunRequest) => {
+    requests.push(request)
+    const listPath = request.args[request.args.indexOf('-i') + 1]!
+    const list = await readFile(listPath, 'utf8')
+    const staged = await readdir(path.dirname(listPath))
+    await writeFile(request.args.at(-1)!, `webm from ${staged.filter((name) => name.startsWith('frame-')).length} frames`)
+    return { stdout: '', stderr: list }
+  })
+  return {
+    scanRoot,
+    storageRoot,
+    upsert,
+    imageUpdate,
+    gcUpsert,
+    findMany,
+    requests,
+    processRunner,
+    input: (payload: { force: boolean; imageId?: number } = { force: false }) => ({
+      jobId: 'job-1',
+      payload,
+      database: { image: { count: vi.fn().mockResolvedValue(options.images.length), findMany } } as never,
+      config: { scanRoot, storageRoot, ffmpegThreads: 2 },
+      processRunner,
+      signal: new AbortController().signal,
+      mutate: (async (operation: (client: never) => Promise<unknown>) => operation(transaction as never)) as never,
+      progress: vi.fn().mockResolvedValue(undefined),
+      now: () => new Date('2026-10-19T00:00:00.000Z')
+    })
+  }
+}
+
+describe('ugoira conversion', () => {
+  it('lists every frame with its own duration and repeats the last frame', () => {
+    expect(buildUgoiraConcatList(['frame-00000.jpg', 'frame-00001.jpg'], [80, 1250])).toBe(
+      [
+        'ffconcat version 1.0',
+        "file 'frame-00000.jpg'",
+        'duration 0.080',
+        "file 'frame-00001.jpg'",
+        'duration 1.250',
+        "file 'frame-00001.jpg'",
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('converts a pending zip into a VFR WebM and records its timing and size', async () => {
+    const context = await fixture({ images: [{ id: 7, path: 'artist/118000003.zip' }] })
+    await writeFile(
+      path.join(context.scanRoot, 'artist/118000003.zip'),
+      buildZipFixture([
+        { name: '000000.jpg', content: await frame(5, 3) },
+        { name: '000001.jpg', content: await frame(5, 3) },
+        {
+          name: 'animation.json',
+          content: JSON.stringify({
+            frames: [
+              { file: '000000.jpg', delay: 80 },
+              { file: '000001.jpg', delay: 150 }
+            ]
+          })
+        }
+      ])
+    )
+
+    const result = await convertPendingUgoiraAnimations(context.input())
+
+    expect(result).toEqual({ total: 1, converted: 1, failed: 0, failedSamples: [] })
+    const [request] = context.requests
+    expect(request?.args).toEqual(
+      expect.arrayContaining(['-f', 'concat', '-fps_mode', 'vfr', '-c:v', 'libvpx-vp9', '-threads', '2'])
+    )
+    const upsert = context.upsert.mock.calls[0]![0]
+    expect(upsert.create).toMatchObject({
+      imageId: 7,
+      status: 'COMPLETED',
+      timingSource: 'ARCHIVE',
+      frameCount: 2,
+      frameDelays: [80, 150],
+      durationMs: 230,
+      width: 5,
+      height: 3
+    })
+    expect(upsert.create.outputPath).toMatch(/^7\/\d+-\d+\.webm$/)
+    await expect(readFile(path.join(context.storageRoot, upsert.create.outputPath), 'utf8')).resolves.toBe(
+      'webm from 2 frames'
+    )
+    expect(context.imageUpdate).toHaveBeenCalledWith({ where: { id: 7 }, data: { width: 5, height: 3 } })
+    await expect(readdir(path.join(context.storageRoot, '.staging'))).resolves.toEqual([])
+    expect(context.gcUpsert).not.toHaveBeenCalled()
+  })
+
+  it('retires the previous output when a forced run rebuilds a changed zip', async () => {
+    const context = await fixture({
+      images: [{ id: 7, path: 'artist/loop.zip', ugoiraAnimation: { outputPath: '7/1-1.webm' } }]
+    })
+    await writeFile(
+      path.join(context.scanRoot, 'artist/loop.zip'),
+      buildZipFixture([{ name: '1.jpg', content: await frame(4, 4) }])
+    )
+    await writeFile(path.join(context.scanRoot, 'artist/loop.json'), JSON.stringify([{ file: '1.jpg', delay: 40 }]))
+
+    await convertPendingUgoiraAnimations(context.input({ force: true, imageId: 7 }))
+
+    expect(context.upsert.mock.calls[0]![0].update).toMatchObject({ status: 'COMPLETED', timingSource: 'SIDECAR' })
+    expect(context.gcUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { mediaKind_relativePath: { mediaKind: 'UGOIRA_ANIMATION', relativePath: '7/1-1.webm' } },
+        create: expect.objectContaining({ referenceType: 'MEDIA_UGOIRA_ANIMATION', referenceId: '7' })
+      })
+    )
+    expect(context.findMany.mock.calls[0]![0]).toMatchObject({
+      where: {
+        id: { gt: 0 },
+        OR: [
+          { ugoiraAnimation: { is: null } },
+          { ugoiraAnimation: { is: { status: { in: ['PENDING', 'FAILED', 'COMPLETED'] } } } }
+        ]
+      }
+    })
+  })
+
+  it('persists encoder failures but leaves missing files pending', async () => {
+    const context = await fixture({
+      images: [
+        { id: 7, path: 'artist/broken.zip' },
+        { id: 8, path: 'artist/missing.zip' }
+      ]
+    })
+    await writeFile(
+      path.join(context.scanRoot, 'artist/broken.zip'),
+      buildZipFixture([
+        { name: '1.jpg', content: await frame(4, 4) },
+        { name: 'animation.json', content: JSON.stringify({ frames: [{ file: '1.jpg', delay: 100 }] }) }
+      ])
+    )
+    context.processRunner.mockRejectedValueOnce(
+      new VideoProcessingProcessError('EXTERNAL_PROCESS_FAILED', 'Unknown encoder libvpx-vp9')
+    )
+
+    const result = await convertPendingUgoiraAnimations(context.input())
+
+    expect(result).toMatchObject({ total: 2, converted: 0, failed: 2 })
+    expect(context.upsert).toHaveBeenCalledTimes(1)
+    expect(context.upsert.mock.calls[0]![0].create).toMatchObject({
+      imageId: 7,
+      status: 'FAILED',
+      error: 'Unknown encoder libvpx-vp9',
+      frameDelays: [100]
+    })
+    expect(result.failedSamples.map((sample) => sample.imageId)).toEqual([7, 8])
+  })
+})
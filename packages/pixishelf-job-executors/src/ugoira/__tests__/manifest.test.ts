@@ -0,0 +1,85 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { buildZipFixture } from '../../shared/__tests__/zip-fixture.js'
+import { inspectUgoiraArchive, parseUgoiraFrames, ugoiraSidecarNames } from '../manifest.js'
+
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+async function createRoot() {
+  const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-ugoira-'))
+  roots.push(root)
+  return root
+}
+
+const frames = [
+  { file: '000000.jpg', delay: 80 },
+  { file: '000001.jpg', delay: 120.4 }
+]
+
+describe('ugoira manifest', () => {
+  it('reads frame lists from Pixiv API, metadata dumps and plain arrays', () => {
+    expect(parseUgoiraFrames({ body: { frames } })).toEqual([
+      { file: '000000.jpg', delay: 80 },
+      { file: '000001.jpg', delay: 120 }
+    ])
+    expect(parseUgoiraFrames({ body: { illust_details: { ugoira_meta: { frames } } } })).toHaveLength(2)
+    expect(parseUgoiraFrames({ normalizedMetadata: { ugoira: { frames } } })).toHaveLength(2)
+    expect(parseUgoiraFrames(frames)).toHaveLength(2)
+    expect(parseUgoiraFrames({ frames: [{ file: 'a.jpg', delay: 0 }] })).toBeNull()
+    expect(parseUgoiraFrames({ frames: [{ file: 'a.jpg' }] })).toBeNull()
+    expect(parseUgoiraFrames({ title: 'not an animation' })).toBeNull()
+  })
+
+  it('looks for a sidecar named after the zip and the Pixiv metadata file', () => {
+    expect(ugoiraSidecarNames('118000003_ugoira600x600.zip')).toEqual([
+      '118000003_ugoira600x600.json',
+      '118000003_ugoira600x600-meta.json',
+      '118000003_ugoira600x600-meta.txt',
+      '118000003.json',
+      '118000003-meta.json',
+      '118000003-meta.txt'
+    ])
+    expect(ugoiraSidecarNames('loop.zip')).toEqual(['loop.json', 'loop-meta.json', 'loop-meta.txt'])
+  })
+
+  it('prefers sidecar timing and falls back to animation.json inside the archive', async () => {
+    const root = await createRoot()
+    const archive = buildZipFixture([
+      { name: '000000.jpg', content: 'a' },
+      { name: '000001.jpg', content: 'b' },
+      { name: 'animation.json', content: JSON.stringify({ frames: [...frames].reverse() }), deflate: true }
+    ])
+    await writeFile(path.join(root, '118000003.zip'), archive)
+
+    await expect(inspectUgoiraArchive(path.join(root, '118000003.zip'))).resolves.toMatchObject({
+      timingSource: 'ARCHIVE',
+      frames: [
+        { file: '000001.jpg', delay: 120 },
+        { file: '000000.jpg', delay: 80 }
+      ]
+    })
+
+    await writeFile(path.join(root, '118000003-meta.txt'), JSON.stringify({ body: { frames } }))
+    await expect(inspectUgoiraArchive(path.join(root, '118000003.zip'))).resolves.toMatchObject({
+      timingSource: 'SIDECAR',
+      frames: [
+        { file: '000000.jpg', delay: 80 },
+        { file: '000001.jpg', delay: 120 }
+      ]
+    })
+  })
+
+  it('ignores timing that names frames missing from the archive', async () => {
+    const root = await createRoot()
+    await writeFile(path.join(root, 'loop.zip'), buildZipFixture([{ name: '000000.jpg', content: 'a' }]))
+    await writeFile(path.join(root, 'loop.json'), JSON.stringify({ frames }))
+
+    await expect(inspectUgoiraArchive(path.join(root, 'loop.zip'))).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,333 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import type { UgoiraConversionPayload } from '@pixishelf/job-contracts'
+import type { EnqueuedChildJob, ExecutionContext } from '@pixishelf/job-runtime'
+import sharp from 'sharp'
+import { readZipEntry, ZipArchiveError } from '../shared/zip-archive.ts'
+import { resolvePosterOutput } from '../video-media/paths.ts'
+import { throwIfAborted } from '../video-processing/process-runner.ts'
+import type { VideoProcessRunner } from '../video-processing/types.ts'
+import { VideoProcessingProcessError } from '../video-processing/types.ts'
+import { inspectUgoiraArchive, ugoiraFrameExtension } from './manifest.ts'
+import {
+  UgoiraConversionError,
+  type RunFencedUgoiraMutation,
+  type UgoiraConversionResult,
+  type UgoiraDatabase,
+  type UgoiraManifest,
+  type UgoiraRuntimeConfig,
+  type UgoiraTransaction
+} from './types.ts'
+
+export const UGOIRA_BATCH_SIZE = 20
+const FAILED_SAMPLE_LIMIT = 20
+const MAX_FRAME_BYTES = 64 * 1024 * 1024
+const REPLACED_OUTPUT_GC_DELAY_MS = 60 * 60_000
+const DEFAULT_CONVERSION_TIMEOUT_MS = 10 * 60_000
+
+export interface UgoiraConversionInput {
+  jobId: string
+  payload: UgoiraConversionPayload
+  database: UgoiraDatabase
+  config: UgoiraRuntimeConfig
+  processRunner: VideoProcessRunner
+  signal: AbortSignal
+  mutate: RunFencedUgoiraMutation
+  progress: (update: { percentage: number; stage: string; message: string; data?: Record<string, unknown> }) => Promise<void>
+  now: () => Date
+}
+
+/**
+ * Converts ugoira zips published by SCAN or local import into VFR WebM. A zip
+ * is pending until its first attempt: conversion failures are persisted and
+ * only retried by a forced run, while filesystem failures stay pending.
+ */
+export async function convertPendingUgoiraAnimations(input: UgoiraConversionInput): Promise<UgoiraConversionResult> {
+  const statuses = input.payload.force
+    ? input.payload.imageId
+      ? (['PENDING', 'FAILED', 'COMPLETED'] as const)
+      : (['PENDING', 'FAILED'] as const)
+    : (['PENDING'] as const)
+  const where = {
+    artworkId: { not: null },
+    mediaType: 'ANIMATION' as const,
+    path: { endsWith: '.zip', mode: 'insensitive' as const },
+    ...(input.payload.imageId ? { id: input.payload.imageId } : {}),
+    OR: [{ ugoiraAnimation: { is: null } }, { ugoiraAnimation: { is: { status: { in: [...statuses] } } } }]
+  }
+  const result: UgoiraConversionResult = { total: 0, converted: 0, failed: 0, failedSamples: [] }
+  result.total = await input.database.image.count({ where })
+  await input.progress({
+    percentage: result.total === 0 ? 100 : 5,
+    stage: 'CONVERTING',
+    message: result.total === 0 ? '没有待转换的动图' : `待转换动图 ${result.total} 个`,
+    data: { total: result.total }
+  })
+  let cursor = 0
+  while (true) {
+    throwIfAborted(input.signal)
+    const batch = await input.database.image.findMany({
+      where: { ...where, id: { gt: cursor } },
+      orderBy: { id: 'asc' },
+      take: UGOIRA_BATCH_SIZE,
+      select: { id: true, path: true, width: true, height: true, ugoiraAnimation: { select: { outputPath: true } } }
+    })
+    if (batch.length === 0) break
+    cursor = batch.at(-1)!.id
+    for (const image of batch) {
+      throwIfAborted(input.signal)
+      const attempt: { fingerprint?: { size: bigint; mtimeMs: bigint }; manifest?: UgoiraManifest } = {}
+      try {
+        const converted = await convertUgoira(input, image, attempt)
+        const previousOutput = image.ugoiraAnimation?.outputPath ?? null
+        await input.mutate(async (transaction) => {
+          const data = {
+            status: 'COMPLETED' as const,
+            timingSource: converted.manifest.timingSource,
+            frameCount: converted.manifest.frames.length,
+            frameDelays: converted.manifest.frames.map((frame) => frame.delay),
+            durationMs: converted.manifest.frames.reduce((sum, frame) => sum + frame.delay, 0),
+            width: converted.width,
+            height: converted.height,
+            outputPath: converted.outputPath,
+            sourceSize: converted.fingerprint.size,
+            sourceMtimeMs: converted.fingerprint.mtimeMs,
+            error: null,
+            convertedAt: input.now()
+          }
+          await transaction.mediaUgoiraAnimation.upsert({
+            where: { imageId: image.id },
+            create: { imageId: image.id, ...data },
+            update: data
+          })
+          // Pixiv zips have no intrinsic size, so the first frame gives the viewer its aspect ratio.
+          if (!image.width || !image.height) {
+            await transaction.image.update({
+              where: { id: image.id },
+              data: { width: converted.width, height: converted.height }
+            })
+          }
+          if (previousOutput && previousOutput !== converted.outputPath) {
+            await retireUgoiraOutput(transaction, image.id, previousOutput, input.now())
+          }
+        })
+        result.converted += 1
+      } catch (error) {
+        if (input.signal.aborted) throw error
+        const message = error instanceof Error ? error.message : 'Unknown ugoira conversion failure'
+        if (isPermanentFailure(error)) {
+          await input.mutate(async (transaction) => {
+            const data = {
+              status: 'FAILED' as const,
+              error: message,
+              ...(attempt.manifest
+                ? {
+                    timingSource: attempt.manifest.timingSource,
+                    frameCount: attempt.manifest.frames.length,
+                    frameDelays: attempt.manifest.frames.map((frame) => frame.delay),
+                    durationMs: attempt.manifest.frames.reduce((sum, frame) => sum + frame.delay, 0)
+                  }
+                : {}),
+              ...(attempt.fingerprint
+                ? { sourceSize: attempt.fingerprint.size, sourceMtimeMs: attempt.fingerprint.mtimeMs }
+                : {})
+            }
+            await transaction.mediaUgoiraAnimation.upsert({
+              where: { imageId: image.id },
+              create: { imageId: image.id, ...data },
+              update: data
+            })
+          })
+        }
+        result.failed += 1
+        if (result.failedSamples.length < FAILED_SAMPLE_LIMIT) {
+          result.failedSamples.push({ imageId: image.id, path: image.path.slice(0, 240), error: message })
+        }
+      }
+      const attempts = result.converted + result.failed
+      await input.progress({
+        percentage: Math.min(99, 5 + Math.floor((attempts / Math.max(1, result.total)) * 94)),
+        stage: 'CONVERTING',
+        message: `已转换动图 ${result.converted} 个，失败 ${result.failed} 个`,
+        data: { total: result.total, converted: result.converted, failed: result.failed }
+      })
+    }
+  }
+  await input.progress({
+    percentage: 100,
+    stage: 'COMPLETED',
+    message: `动图转换完成：成功 ${result.converted} 个，失败 ${result.failed} 个`
+  })
+  return result
+}
+
+/**
+ * Queues a conversion sweep after a job that published media. Like the
+ * perceptual hash follow-up it shares the writer lane, so it runs only after
+ * the parent's publication transaction has committed.
+ */
+export function enqueueUgoiraConversionFollowUp(
+  context: Pick<ExecutionContext<unknown, EnqueuedChildJob>, 'job' | 'enqueueChild'>
+): Promise<EnqueuedChildJob> {
+  return context.enqueueChild({
+    type: 'UGOIRA_CONVERSION',
+    payload: { force: false },
+    idempotencyKey: `ugoira-conversion:${context.job.id}`
+  })
+}
+
+/**
+ * The ffconcat list gives every frame its own duration, which keeps Pixiv's
+ * per-frame delays exact in the VFR output. The concat demuxer ignores the
+ * duration of the final entry, so the last frame is listed twice.
+ */
+export function buildUgoiraConcatList(frameFiles: readonly string[], delays: readonly number[]): string {
+  const lines = ['ffconcat version 1.0']
+  frameFiles.forEach((file, index) => {
+    lines.push(`file '${file}'`, `duration ${(delays[index]! / 1000).toFixed(3)}`)
+  })
+  if (frameFiles.length > 0) lines.push(`file '${frameFiles.at(-1)!}'`)
+  return `${lines.join('\n')}\n`
+}
+
+async function convertUgoira(
+  input: UgoiraConversionInput,
+  image: { id: number; path: string },
+  attempt: { fingerprint?: { size: bigint; mtimeMs: bigint }; manifest?: UgoiraManifest }
+) {
+  const source = await resolveUgoiraSource(input.config.scanRoot, image.path)
+  attempt.fingerprint = {
+    size: BigInt(source.stat.size),
+    mtimeMs: BigInt(Math.round(source.stat.mtimeMs))
+  }
+  const manifest = await inspectUgoiraArchive(source.sourcePath)
+  if (!manifest) throw new UgoiraConversionError('UGOIRA_TIMING_MISSING', 'Ugoira frame timing was not found')
+  attempt.manifest = manifest
+  const outputPath = `${image.id}/${attempt.fingerprint.size}-${attempt.fingerprint.mtimeMs}.webm`
+  const finalPath = await resolvePosterOutput(input.config.storageRoot, outputPath)
+  const stagingDirectory = path.join(input.config.storageRoot, '.staging', `${input.jobId}-${image.id}`)
+  await fs.rm(stagingDirectory, { recursive: true, force: true })
+  await fs.mkdir(stagingDirectory, { recursive: true })
+  try {
+    const entries = new Map(manifest.entries.map((entry) => [entry.name, entry]))
+    const frameFiles: string[] = []
+    let dimensions: { width: number; height: number } | null = null
+    for (const [index, frame] of manifest.frames.entries()) {
+      throwIfAborted(input.signal)
+      const content = await readZipEntry(source.sourcePath, entries.get(frame.file)!, { maxBytes: MAX_FRAME_BYTES })
+      // Frames are renamed by position so archive member names never reach the filesystem or ffmpeg.
+      const name = `frame-${String(index).padStart(5, '0')}${ugoiraFrameExtension(frame.file)}`
+      await fs.writeFile(path.join(stagingDirectory, name), content)
+      frameFiles.push(name)
+      if (!dimensions) dimensions = await readFrameDimensions(content)
+    }
+    const listPath = path.join(stagingDirectory, 'frames.ffconcat')
+    const delays = manifest.frames.map((frame) => frame.delay)
+    await fs.writeFile(listPath, buildUgoiraConcatList(frameFiles, delays), 'utf8')
+    const stagedOutput = path.join(stagingDirectory, 'output.webm')
+    await input.processRunner({
+      command: input.config.ffmpegPath ?? 'ffmpeg',
+      args: [
+        '-nostdin',
+        '-y',
+        '-hide_banner',
+        '-loglevel',
+        'error',
+        '-f',
+        'concat',
+        '-safe',
+        '0',
+        '-i',
+        listPath,
+        '-vf',
+        'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+        '-fps_mode',
+        'vfr',
+        '-c:v',
+        'libvpx-vp9',
+        '-crf',
+        '30',
+        '-b:v',
+        '0',
+        '-pix_fmt',
+        'yuv420p',
+        '-an',
+        '-threads',
+        String(input.config.ffmpegThreads),
+        stagedOutput
+      ],
+      timeoutMs: input.config.conversionTimeoutMs ?? DEFAULT_CONVERSION_TIMEOUT_MS,
+      signal: input.signal
+    })
+    await fs.mkdir(path.dirname(finalPath), { recursive: true })
+    await fs.rename(stagedOutput, finalPath)
+    return { manifest, fingerprint: attempt.fingerprint, outputPath, ...(dimensions ?? { width: 0, height: 0 }) }
+  } finally {
+    await fs.rm(stagingDirectory, { recursive: true, force: true }).catch(() => undefined)
+  }
+}
+
+async function retireUgoiraOutput(
+  transaction: UgoiraTransaction,
+  imageId: number,
+  relativePath: string,
+  now: Date
+) {
+  const notBefore = new Date(now.getTime() + REPLACED_OUTPUT_GC_DELAY_MS)
+  await transaction.derivedMediaGcEntry.upsert({
+    where: { mediaKind_relativePath: { mediaKind: 'UGOIRA_ANIMATION', relativePath } },
+    create: {
+      mediaKind: 'UGOIRA_ANIMATION',
+      relativePath,
+      referenceType: 'MEDIA_UGOIRA_ANIMATION',
+      referenceId: String(imageId),
+      reason: 'UGOIRA_OUTPUT_REPLACED',
+      status: 'PENDING',
+      notBefore
+    },
+    update: {
+      referenceType: 'MEDIA_UGOIRA_ANIMATION',
+      referenceId: String(imageId),
+      reason: 'UGOIRA_OUTPUT_REPLACED',
+      status: 'PENDING',
+      notBefore,
+      attempt: 0,
+      error: null,
+      deletedAt: null
+    }
+  })
+}
+
+async function resolveUgoiraSource(scanRoot: string, relativePath: string) {
+  const root = await fs.realpath(scanRoot)
+  const candidate = path.resolve(root, relativePath.replace(/^[/\\]+/, ''))
+  assertWithinRoot(root, candidate)
+  const resolved = await fs.realpath(candidate)
+  assertWithinRoot(root, resolved)
+  const stat = await fs.stat(resolved)
+  if (!stat.isFile()) throw Object.assign(new Error('Ugoira source path is not a file'), { code: 'ENOENT' })
+  return { sourcePath: resolved, stat }
+}
+
+function assertWithinRoot(root: string, candidate: string) {
+  const relative = path.relative(root, candidate)
+  if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) return
+  throw new UgoiraConversionError('PATH_OUTSIDE_ALLOWED_ROOT', 'Ugoira source is outside the configured scan root')
+}
+
+async function readFrameDimensions(content: Buffer): Promise<{ width: number; height: number }> {
+  try {
+    const metadata = await sharp(content).metadata()
+    return { width: metadata.width ?? 0, height: metadata.height ?? 0 }
+  } catch {
+    throw new UgoiraConversionError('UGOIRA_ARCHIVE_INVALID', 'Ugoira first frame cannot be decoded')
+  }
+}
+
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof UgoiraConversionError ||
+    error instanceof ZipArchiveError ||
+    error instanceof VideoProcessingProcessError
+  )
+}
@@ -0,0 +1,57 @@
+import { JOB_DEFINITION_VERSION, ugoiraConversionPayloadSchema, type UgoiraConversionPayload } from '@pixishelf/job-contracts'
+import type { ExecutorDefinition, QueueSqlExecutor } from '@pixishelf/job-runtime'
+import { runVideoProcess } from '../video-processing/process-runner.ts'
+import type { VideoProcessRunner } from '../video-processing/types.ts'
+import { convertPendingUgoiraAnimations } from './conversion.ts'
+import type { UgoiraConversionResult, UgoiraDatabase, UgoiraRuntimeConfig, UgoiraTransaction } from './types.ts'
+
+export interface UgoiraExecutorDependencies {
+  database: UgoiraDatabase
+  config: UgoiraRuntimeConfig
+  processRunner?: VideoProcessRunner
+  now?: () => Date
+}
+
+export function createUgoiraExecutorRegistrations(dependencies: UgoiraExecutorDependencies): ExecutorDefinition[] {
+  assertConfig(dependencies.config)
+  const conversion: ExecutorDefinition<UgoiraConversionPayload, UgoiraConversionResult> = {
+    jobType: 'UGOIRA_CONVERSION',
+    executionLane: 'BACKGROUND_WRITER',
+    definitionVersion: JOB_DEFINITION_VERSION,
+    parsePayload: (payload) => ugoiraConversionPayloadSchema.parse(payload),
+    execute: async (context) => {
+      const result = await convertPendingUgoiraAnimations({
+        jobId: context.job.id,
+        payload: context.payload,
+        database: dependencies.database,
+        config: dependencies.config,
+        processRunner: dependencies.processRunner ?? runVideoProcess,
+        signal: context.signal,
+        mutate: <T>(operation: (transaction: UgoiraTransaction) => Promise<T>) =>
+          context.mutateInTransaction<UgoiraTransaction & QueueSqlExecutor, T>((transaction) => operation(transaction)),
+        progress: (update) =>
+          context.progress({
+            progress: update.percentage,
+            stage: update.stage,
+            message: update.message,
+            ...(update.data ? { data: update.data } : {})
+          }),
+        now: dependencies.now ?? (() => new Date())
+      })
+      return {
+        kind: 'completed',
+        result,
+        message: result.failed > 0 ? `动图转换完成，${result.failed} 个失败` : '动图转换完成'
+      }
+    }
+  }
+  return [conversion as ExecutorDefinition]
+}
+
+function assertConfig(config: UgoiraRuntimeConfig) {
+  if (!config.scanRoot.trim()) throw new Error('Ugoira scanRoot is required')
+  if (!config.storageRoot.trim()) throw new Error('Ugoira storageRoot is required')
+  if (!Number.isInteger(config.ffmpegThreads) || config.ffmpegThreads < 1 || config.ffmpegThreads > 8) {
+    throw new Error('Ugoira ffmpegThreads must be an integer between 1 and 8')
+  }
+}
@@ -0,0 +1,4 @@
+export * from './conversion.ts'
+export * from './executors.ts'
+export * from './manifest.ts'
+export * from './types.ts'
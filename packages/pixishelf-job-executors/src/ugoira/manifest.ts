@@ -0,0 +1,112 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import { readZipDirectory, readZipEntry, type ZipEntry } from '../shared/zip-archive.ts'
+import type { UgoiraFrame, UgoiraManifest } from './types.ts'
+
+export const UGOIRA_MAX_FRAMES = 10_000
+export const UGOIRA_MAX_FRAME_DELAY_MS = 600_000
+const MAX_TIMING_JSON_BYTES = 16 * 1024 * 1024
+const FRAME_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.webp'])
+
+/**
+ * Sidecars are checked in the order zip-convert used: a JSON named after the zip,
+ * then the Pixiv `<id>-meta` file that downloaders write next to `<id>.zip`.
+ */
+export function ugoiraSidecarNames(zipFilename: string): string[] {
+  const stem = zipFilename.replace(/\.zip$/i, '')
+  const names = [`${stem}.json`, `${stem}-meta.json`, `${stem}-meta.txt`]
+  const pixivId = stem.match(/^(\d+)(?:_(?:p0|ugoira\w*))?$/i)?.[1]
+  if (pixivId) names.push(`${pixivId}.json`, `${pixivId}-meta.json`, `${pixivId}-meta.txt`)
+  return [...new Set(names)]
+}
+
+/**
+ * Accepts the frame lists written by Pixiv's ugoira_meta API, gallery-dl style
+ * animation.json files and Pixiv metadata dumps; delays are rounded to whole ms.
+ */
+export function parseUgoiraFrames(value: unknown): UgoiraFrame[] | null {
+  const frames = locateFrameList(value)
+  if (!frames || frames.length === 0 || frames.length > UGOIRA_MAX_FRAMES) return null
+  const parsed: UgoiraFrame[] = []
+  for (const frame of frames) {
+    if (!frame || typeof frame !== 'object') return null
+    const { file, delay } = frame as { file?: unknown; delay?: unknown }
+    if (typeof file !== 'string' || !file.trim() || typeof delay !== 'number' || !Number.isFinite(delay)) return null
+    const rounded = Math.round(delay)
+    if (rounded < 1 || rounded > UGOIRA_MAX_FRAME_DELAY_MS) return null
+    parsed.push({ file: file.trim(), delay: rounded })
+  }
+  return parsed
+}
+
+/**
+ * Resolves frame timing for a zip, or null when it is not a playable ugoira:
+ * a plain archive without timing must not be published as an animation.
+ */
+export async function inspectUgoiraArchive(absolutePath: string): Promise<UgoiraManifest | null> {
+  const entries = (await readZipDirectory(absolutePath, { maxEntries: UGOIRA_MAX_FRAMES + 16 })).filter(
+    (entry) => !entry.isDirectory
+  )
+  const byName = new Map(entries.map((entry) => [entry.name, entry]))
+  const directory = path.dirname(absolutePath)
+  for (const name of ugoiraSidecarNames(path.basename(absolutePath))) {
+    const content = await readSidecar(path.join(directory, name))
+    if (content === null) continue
+    const frames = parseUgoiraFrames(parseJson(content))
+    if (frames && framesExist(frames, byName)) return { frames, timingSource: 'SIDECAR', entries }
+  }
+  for (const entry of entries) {
+    if (!entry.name.toLowerCase().endsWith('.json') || entry.name.includes('/')) continue
+    const content = await readZipEntry(absolutePath, entry, { maxBytes: MAX_TIMING_JSON_BYTES })
+    const frames = parseUgoiraFrames(parseJson(content.toString('utf8')))
+    if (frames && framesExist(frames, byName)) return { frames, timingSource: 'ARCHIVE', entries }
+  }
+  return null
+}
+
+export function ugoiraFrameExtension(file: string): string {
+  const extension = path.extname(file).toLowerCase()
+  return FRAME_EXTENSIONS.has(extension) ? extension : '.jpg'
+}
+
+function framesExist(frames: readonly UgoiraFrame[], entries: ReadonlyMap<string, ZipEntry>): boolean {
+  return frames.every((frame) => entries.has(frame.file) && FRAME_EXTENSIONS.has(path.extname(frame.file).toLowerCase()))
+}
+
+function locateFrameList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value
+  const candidates = [
+    ['frames'],
+    ['metadata', 'frames'],
+    ['ugoira', 'frames'],
+    ['ugoira_meta', 'frames'],
+    ['normalizedMetadata', 'ugoira', 'frames'],
+    ['body', 'frames'],
+    ['body', 'illust_details', 'ugoira_meta', 'frames']
+  ].map((keys) => keys.reduce<unknown>((current, key) => readField(current, key), value))
+  return (candidates.find((candidate) => Array.isArray(candidate)) as unknown[] | undefined) ?? null
+}
+
+function readField(value: unknown, key: string): unknown {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>)[key] : undefined
+}
+
+async function readSidecar(absolutePath: string): Promise<string | null> {
+  try {
+    const metadata = await fs.lstat(absolutePath)
+    // Timing sidecars are optional companions: links and oversized files are ignored, not rejected.
+    if (metadata.isSymbolicLink() || !metadata.isFile() || metadata.size > MAX_TIMING_JSON_BYTES) return null
+    return await fs.readFile(absolutePath, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content.replace(/^\uFEFF/, ''))
+  } catch {
+    return null
+  }
+}
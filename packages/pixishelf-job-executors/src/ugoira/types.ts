@@ -0,0 +1,46 @@
+import type { Prisma, PrismaClient } from '@pixishelf/db'
+import type { ZipEntry } from '../shared/zip-archive.ts'
+
+export type UgoiraDatabase = Pick<PrismaClient, 'image' | 'mediaUgoiraAnimation'>
+
+export type UgoiraTransaction = Prisma.TransactionClient
+
+export interface UgoiraRuntimeConfig {
+  scanRoot: string
+  /** Derived WebM output; the original zip in the scan root is never modified. */
+  storageRoot: string
+  ffmpegPath?: string
+  ffmpegThreads: number
+  conversionTimeoutMs?: number
+}
+
+export interface UgoiraFrame {
+  file: string
+  /** Display time of this frame in milliseconds. */
+  delay: number
+}
+
+export interface UgoiraManifest {
+  frames: UgoiraFrame[]
+  timingSource: 'ARCHIVE' | 'SIDECAR'
+  entries: ZipEntry[]
+}
+
+export interface UgoiraConversionResult {
+  total: number
+  converted: number
+  failed: number
+  failedSamples: Array<{ imageId: number; path: string; error: string }>
+}
+
+export type RunFencedUgoiraMutation = <T>(operation: (transaction: UgoiraTransaction) => Promise<T>) => Promise<T>
+
+export class UgoiraConversionError extends Error {
+  constructor(
+    readonly code: 'UGOIRA_TIMING_MISSING' | 'UGOIRA_ARCHIVE_INVALID' | 'PATH_OUTSIDE_ALLOWED_ROOT',
+    message: string
+  ) {
+    super(message)
+    this.name = 'UgoiraConversionError'
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildVideoHlsMasterPlaylist,
+  buildVideoHlsRenditionArgs,
+  evaluateVideoHlsCompatibility,
+  planVideoHlsRenditions
+} from '../policy.js'
+
+describe('video HLS compatibility policy', () => {
+  it('accepts 8-bit H.264 MP4 below the bitrate ceiling', () => {
+    expect(
+      evaluateVideoHlsCompatibility({
+        container: '.mp4',
+        videoCodec: 'h264',
+        pixelFormat: 'yuv420p',
+        audioCodec: 'aac',
+        bitRate: 8_000_000
+      })
+    ).toEqual([])
+  })
+
+  it('reports every failing dimension of a 10-bit HEVC Matroska file', () => {
+    expect(
+      evaluateVideoHlsCompatibility({
+        container: '.mkv',
+        videoCodec: 'hevc',
+        pixelFormat: 'yuv420p10le',
+        audioCodec: 'flac',
+        bitRate: 40_000_000
+      })
+    ).toEqual(['CONTAINER', 'VIDEO_CODEC', 'PIXEL_FORMAT', 'AUDIO_CODEC', 'BITRATE'])
+  })
+
+  it('does not fail unknown metadata that only the worker probe can provide', () => {
+    expect(
+      evaluateVideoHlsCompatibility({
+        container: '.webm',
+        videoCodec: 'vp9',
+        pixelFormat: null,
+        audioCodec: null,
+        bitRate: null
+      })
+    ).toEqual([])
+  })
+})
+
+describe('video HLS rendition ladder', () => {
+  it('never upscales and measures portrait sources by their short side', () => {
+    expect(
+      planVideoHlsRenditions({ width: 3840, height: 2160 }).map(({ name, width, height }) => [name, width, height])
+    ).toEqual([
+      ['1080p', 1920, 1080],
+      ['720p', 1280, 720],
+      ['480p', 854, 480]
+    ])
+    expect(
+      planVideoHlsRenditions({ width: 1080, height: 1920 }).map(({ name, width, height }) => [name, width, height])
+    ).toEqual([
+      ['1080p', 1080, 1920],
+      ['720p', 720, 1280],
+      ['480p', 480, 854]
+    ])
+  })
+
+  it('keeps a single native-size rendition for sources below the smallest rung', () => {
+    expect(planVideoHlsRenditions({ width: 641, height: 361 })).toEqual([
+      { name: '360p', width: 640, height: 360, videoBitrate: 1_400_000, playlist: '360p.m3u8', segment: '360p.ts' }
+    ])
+  })
+
+  it('builds byte-range playlists with aligned keyframes and a master playlist per rung', () => {
+    const [rendition] = planVideoHlsRenditions({ width: 1280, height: 720 })
+    const args = buildVideoHlsRenditionArgs({
+      sourcePath: '/scan/a.mkv',
+      playlistPath: '/hls/7/set/720p.m3u8',
+      segmentPath: '/hls/7/set/720p.ts',
+      rendition: rendition!,
+      hasAudio: false,
+      threads: 2
+    })
+
+    expect(args).toEqual(expect.arrayContaining(['-hls_flags', 'single_file+independent_segments']))
+    expect(args).toEqual(expect.arrayContaining(['-force_key_frames', 'expr:gte(t,n_forced*6)']))
+    expect(args).not.toContain('0:a:0')
+    expect(args.at(-1)).toBe('/hls/7/set/720p.m3u8')
+    expect(buildVideoHlsMasterPlaylist([rendition!], false)).toContain(
+      'RESOLUTION=1280x720,CODECS="avc1.640029"\n720p.m3u8'
+    )
+  })
+})
@@ -0,0 +1,158 @@
+import * as fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { VideoProcessRunner } from '../../video-processing/types.js'
+import { planVideoHlsRenditions } from '../policy.js'
+import { prepareVideoHlsTranscode } from '../transcode.js'
+import type { VideoHlsDatabase, VideoHlsTransaction } from '../types.js'
+
+const roots: string[] = []
+const hevcProbe = {
+  streams: [
+    { codec_type: 'video', codec_name: 'hevc', pix_fmt: 'yuv420p10le', width: 1280, height: 720 },
+    { codec_type: 'audio', codec_name: 'aac' }
+  ],
+  format: { duration: '12', bit_rate: '9000000' }
+}
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => fs.rm(root, { recursive: true, force: true })))
+})
+
+describe('video HLS transcode core', () => {
+  it('encodes each rung into the staging set and promotes it after retiring the previous generation', async () => {
+    const harness = await createHarness({ probe: hevcProbe })
+
+    const prepared = await harness.prepare()
+    await prepared.publish(harness.transaction as unknown as VideoHlsTransaction)
+
+    expect(prepared.result).toMatchObject({
+      outcome: 'PUBLISHED',
+      setId: 'set-new',
+      reasons: ['CONTAINER', 'VIDEO_CODEC', 'PIXEL_FORMAT'],
+      renditions: ['720p', '480p'],
+      retiredSets: 1
+    })
+    expect(harness.encoded).toEqual(['720p.m3u8', '480p.m3u8'])
+    await expect(fs.readFile(path.join(harness.hls, '7/set-new/master.m3u8'), 'utf8')).resolves.toContain(
+      'RESOLUTION=1280x720,CODECS="avc1.640029,mp4a.40.2"\n720p.m3u8'
+    )
+    expect(harness.gcUpserts()).toEqual(['7/set-old/master.m3u8', '7/set-old/1080p.m3u8', '7/set-old/1080p.ts'])
+    expect(harness.transaction.mediaVideoHlsSet.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: 'set-new', systemJobId: 'hls-job', status: 'STAGING' }),
+      data: { status: 'PUBLISHED', error: null, publishedAt: new Date('2026-10-15T00:00:00.000Z') }
+    })
+  })
+
+  it('skips a source that already passes the compatibility policy without staging a set', async () => {
+    const harness = await createHarness({
+      probe: {
+        streams: [{ codec_type: 'video', codec_name: 'h264', pix_fmt: 'yuv420p', width: 1280, height: 720 }],
+        format: { duration: '12', bit_rate: '4000000' }
+      },
+      fileName: 'clip.mp4',
+      publishedSets: []
+    })
+
+    const prepared = await harness.prepare()
+
+    expect(prepared.result).toMatchObject({ outcome: 'SKIPPED_COMPATIBLE', setId: null, reasons: [] })
+    expect(harness.encoded).toEqual([])
+    expect(harness.transaction.mediaVideoHlsSet.create).not.toHaveBeenCalled()
+  })
+
+  it('reuses renditions finished by an earlier attempt of the same job', async () => {
+    const harness = await createHarness({ probe: hevcProbe, resumeStaging: true })
+    await fs.mkdir(path.join(harness.hls, '7/set-resume'), { recursive: true })
+    await fs.writeFile(path.join(harness.hls, '7/set-resume/720p.m3u8'), '#EXTM3U\n#EXT-X-ENDLIST\n')
+    await fs.writeFile(path.join(harness.hls, '7/set-resume/720p.ts'), 'segment')
+
+    const prepared = await harness.prepare()
+
+    expect(prepared.result).toMatchObject({ outcome: 'PUBLISHED', setId: 'set-resume' })
+    expect(harness.encoded).toEqual(['480p.m3u8'])
+    expect(harness.transaction.mediaVideoHlsSet.create).not.toHaveBeenCalled()
+  })
+})
+
+async function createHarness(options: {
+  probe: unknown
+  fileName?: string
+  resumeStaging?: boolean
+  publishedSets?: Array<{ id: string; renditions: unknown }>
+}) {
+  const base = await fs.mkdtemp(path.join(os.tmpdir(), 'pixishelf-hls-'))
+  roots.push(base)
+  const scan = path.join(base, 'scan')
+  const hls = path.join(base, 'hls')
+  await fs.mkdir(scan)
+  const fileName = options.fileName ?? 'clip.mkv'
+  await fs.writeFile(path.join(scan, fileName), 'original-video')
+  const sourceStat = await fs.stat(path.join(scan, fileName))
+  const renditions = planVideoHlsRenditions({ width: 1280, height: 720 })
+  const publishedSets = options.publishedSets ?? [
+    { id: 'set-old', renditions: planVideoHlsRenditions({ width: 1920, height: 1080 }).slice(0, 1) }
+  ]
+  const encoded: string[] = []
+  const processRunner: VideoProcessRunner = async (request) => {
+    if (request.command === 'ffprobe') return { stdout: JSON.stringify(options.probe), stderr: '' }
+    const playlistPath = request.args.at(-1)!
+    const segmentPath = request.args[request.args.indexOf('-hls_segment_filename') + 1]!
+    encoded.push(path.basename(playlistPath))
+    request.onStdout?.('out_time_us=6000000\nprogress=continue\n')
+    await fs.writeFile(segmentPath, 'segment')
+    await fs.writeFile(playlistPath, '#EXTM3U\n#EXT-X-BYTERANGE:7@0\nsegment.ts\n#EXT-X-ENDLIST\n')
+    return { stdout: '', stderr: '' }
+  }
+  const transaction = {
+    mediaVideoHlsSet: {
+      findMany: vi.fn(async ({ where }: { where: { status: { in: string[] } } }) =>
+        where.status.in.includes('PUBLISHED') ? publishedSets : []
+      ),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'set-new', ...data }))
+    },
+    derivedMediaGcEntry: { upsert: vi.fn().mockResolvedValue({}) }
+  }
+  const database = {
+    image: { findUnique: vi.fn().mockResolvedValue({ id: 7, path: fileName, mediaType: 'VIDEO' }) },
+    mediaVideoHlsSet: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      findUnique: vi.fn().mockResolvedValue(
+        options.resumeStaging
+          ? {
+              id: 'set-resume',
+              status: 'STAGING',
+              sourceSize: BigInt(sourceStat.size),
+              sourceMtimeMs: BigInt(Math.round(sourceStat.mtimeMs)),
+              policyVersion: 1,
+              renditions
+            }
+          : null
+      )
+    }
+  } as unknown as VideoHlsDatabase
+  return {
+    hls,
+    encoded,
+    transaction,
+    gcUpserts: () =>
+      transaction.derivedMediaGcEntry.upsert.mock.calls.map(
+        ([query]) => (query as { create: { relativePath: string } }).create.relativePath
+      ),
+    prepare: () =>
+      prepareVideoHlsTranscode({
+        jobId: 'hls-job',
+        payload: { imageId: 7, relativePath: fileName, force: false },
+        database,
+        config: { scanRoot: scan, hlsStorageRoot: hls, ffmpegThreads: 1 },
+        processRunner,
+        signal: new AbortController().signal,
+        progress: vi.fn().mockResolvedValue(undefined),
+        mutate: (operation) => operation(transaction as unknown as VideoHlsTransaction),
+        now: () => new Date('2026-10-15T00:00:00.000Z')
+      })
+  }
+}
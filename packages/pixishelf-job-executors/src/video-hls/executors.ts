@@ -0,0 +1,155 @@
+import { JOB_DEFINITION_VERSION, videoHlsTranscodePayloadSchema, type JobErrorCode } from '@pixishelf/job-contracts'
+import type {
+  EnqueuedChildJob,
+  ExecutionContext,
+  ExecutorDefinition,
+  FencedExecutionTransaction,
+  JobExecutionOutcome,
+  QueueSqlExecutor
+} from '@pixishelf/job-runtime'
+import { runVideoProcess } from '../video-processing/process-runner.ts'
+import type { VideoProcessRunner } from '../video-processing/types.ts'
+import { VideoProcessingPermanentError, VideoProcessingProcessError } from '../video-processing/types.ts'
+import { prepareVideoHlsTranscode, retireVideoHlsSets, type VideoHlsTranscodePayload } from './transcode.ts'
+import type { VideoHlsDatabase, VideoHlsRuntimeConfig, VideoHlsTransaction } from './types.ts'
+
+export interface VideoHlsExecutorDependencies {
+  database: VideoHlsDatabase
+  config: VideoHlsRuntimeConfig
+  processRunner?: VideoProcessRunner
+  now?: () => Date
+}
+
+type VideoHlsScope = FencedExecutionTransaction<VideoHlsTransaction & QueueSqlExecutor>
+
+const FAILED_SET_GRACE_MS = 10 * 60_000
+
+export function createVideoHlsExecutorRegistrations(dependencies: VideoHlsExecutorDependencies): ExecutorDefinition[] {
+  assertConfig(dependencies.config)
+  const transcode: ExecutorDefinition<VideoHlsTranscodePayload> = {
+    jobType: 'VIDEO_HLS_TRANSCODE',
+    executionLane: 'BACKGROUND_WRITER',
+    definitionVersion: JOB_DEFINITION_VERSION,
+    parsePayload: (payload) => videoHlsTranscodePayloadSchema.parse(payload),
+    execute: (context) => executeTranscode(context, dependencies)
+  }
+  return [transcode as ExecutorDefinition]
+}
+
+async function executeTranscode(
+  context: ExecutionContext<VideoHlsTranscodePayload, EnqueuedChildJob>,
+  dependencies: VideoHlsExecutorDependencies
+): Promise<JobExecutionOutcome> {
+  const now = dependencies.now ?? (() => new Date())
+  try {
+    const prepared = await prepareVideoHlsTranscode({
+      jobId: context.job.id,
+      payload: context.payload,
+      database: dependencies.database,
+      config: dependencies.config,
+      processRunner: dependencies.processRunner ?? runVideoProcess,
+      signal: context.signal,
+      progress: (update) =>
+        context.progress({
+          progress: update.percentage,
+          stage: update.stage,
+          message: update.message,
+          ...(update.data ? { data: update.data } : {})
+        }),
+      mutate: <T>(operation: (transaction: VideoHlsTransaction) => Promise<T>) =>
+        context.mutateInTransaction<VideoHlsTransaction & QueueSqlExecutor, T>((transaction) => operation(transaction)),
+      now
+    })
+    return context.finalizeInTransaction<VideoHlsTransaction & QueueSqlExecutor>(async (scope) => {
+      if (await finalizeControl(scope, context, now)) return
+      await prepared.publish(scope.transaction)
+      await scope.complete({ result: prepared.result, message: completionMessage(prepared.result.outcome) })
+    })
+  } catch (error) {
+    if (context.signal.aborted) {
+      return context.finalizeInTransaction<VideoHlsTransaction & QueueSqlExecutor>(async (scope) => {
+        if (await finalizeControl(scope, context, now)) return
+        // Finished renditions stay on disk so the next attempt of this job resumes from them.
+        await scope.release('HLS 转码 Worker 已停止，保留已完成的码率档位')
+      })
+    }
+    const failure = classifyError(error)
+    if (!(error instanceof VideoProcessingPermanentError) && context.job.attempt < context.job.maxAttempts) {
+      return {
+        kind: 'retry',
+        availableAt: new Date(
+          now().getTime() + Math.min(30 * 60_000, 60_000 * 2 ** Math.max(0, context.job.attempt - 1))
+        ),
+        errorCode: failure.errorCode,
+        error: failure.message,
+        message: 'HLS 转码失败，等待重试'
+      }
+    }
+    return context.finalizeInTransaction<VideoHlsTransaction & QueueSqlExecutor>(async (scope) => {
+      if (await finalizeControl(scope, context, now)) return
+      await retireJobSets(scope, context, { status: 'FAILED', error: failure.message, now })
+      await scope.fail({ errorCode: failure.errorCode, error: failure.message, message: 'HLS 转码失败' })
+    })
+  }
+}
+
+async function finalizeControl(
+  scope: VideoHlsScope,
+  context: ExecutionContext<VideoHlsTranscodePayload, EnqueuedChildJob>,
+  now: () => Date
+): Promise<boolean> {
+  if (scope.executionStatus === 'PAUSING') {
+    await scope.pause({ reason: 'USER_REQUESTED', message: 'HLS 转码已暂停，保留已完成的码率档位' })
+    return true
+  }
+  if (scope.executionStatus === 'CANCELLING') {
+    await retireJobSets(scope, context, { status: 'CANCELLED', error: 'HLS 转码已取消；派生文件等待后续 GC', now })
+    await scope.cancel('HLS 转码已取消')
+    return true
+  }
+  return false
+}
+
+async function retireJobSets(
+  scope: VideoHlsScope,
+  context: ExecutionContext<VideoHlsTranscodePayload, EnqueuedChildJob>,
+  input: { status: 'FAILED' | 'CANCELLED'; error: string; now: () => Date }
+) {
+  await retireVideoHlsSets(scope.transaction, {
+    imageId: context.payload.imageId,
+    statuses: ['STAGING'],
+    systemJobId: context.job.id,
+    status: input.status,
+    error: input.error,
+    reason: input.status === 'FAILED' ? 'HLS_SET_FAILED' : 'HLS_SET_CANCELLED',
+    notBefore: new Date(input.now().getTime() + FAILED_SET_GRACE_MS)
+  })
+}
+
+function completionMessage(outcome: 'PUBLISHED' | 'SKIPPED_COMPATIBLE' | 'UP_TO_DATE') {
+  if (outcome === 'SKIPPED_COMPATIBLE') return '视频已满足浏览器兼容策略，无需 HLS 转码'
+  if (outcome === 'UP_TO_DATE') return 'HLS 码率档位已是最新'
+  return 'HLS 转码完成'
+}
+
+function classifyError(error: unknown): { errorCode: JobErrorCode; message: string } {
+  const message = error instanceof Error ? error.message : 'Unknown HLS transcode failure'
+  if (error instanceof VideoProcessingProcessError) return { errorCode: error.code, message }
+  if (error instanceof VideoProcessingPermanentError) {
+    if (error.code === 'IMAGE_NOT_FOUND') return { errorCode: 'SOURCE_NOT_FOUND', message }
+    if (error.code === 'PATH_OUTSIDE_ALLOWED_ROOT') return { errorCode: 'PATH_OUTSIDE_ALLOWED_ROOT', message }
+    return { errorCode: 'PRECONDITION_FAILED', message }
+  }
+  const code = (error as NodeJS.ErrnoException | null)?.code
+  if (code === 'ENOENT') return { errorCode: 'SOURCE_NOT_FOUND', message }
+  if (code === 'EACCES' || code === 'EPERM') return { errorCode: 'FILESYSTEM_PERMISSION_DENIED', message }
+  return { errorCode: 'INTERNAL_ERROR', message }
+}
+
+function assertConfig(config: VideoHlsRuntimeConfig) {
+  if (!config.scanRoot.trim()) throw new Error('Video HLS scanRoot is required')
+  if (!config.hlsStorageRoot.trim()) throw new Error('Video HLS hlsStorageRoot is required')
+  if (!Number.isInteger(config.ffmpegThreads) || config.ffmpegThreads < 1 || config.ffmpegThreads > 8) {
+    throw new Error('Video HLS ffmpegThreads must be an integer between 1 and 8')
+  }
+}
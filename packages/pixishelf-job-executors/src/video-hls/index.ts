@@ -0,0 +1,4 @@
+export * from './executors.ts'
+export * from './policy.ts'
+export * from './transcode.ts'
+export * from './types.ts'
@@ -0,0 +1,176 @@
+import type { VideoHlsRendition } from './types.ts'
+
+export const VIDEO_HLS_POLICY_VERSION = 1
+// Above this the original still plays, but seeking over typical home uplinks stalls.
+export const VIDEO_HLS_MAX_COMPATIBLE_BITRATE = 12_000_000
+export const VIDEO_HLS_SEGMENT_SECONDS = 6
+export const VIDEO_HLS_AUDIO_BITRATE = 128_000
+export const VIDEO_HLS_MASTER_PLAYLIST = 'master.m3u8'
+
+export type VideoHlsIncompatibilityReason = 'CONTAINER' | 'VIDEO_CODEC' | 'PIXEL_FORMAT' | 'AUDIO_CODEC' | 'BITRATE'
+
+export interface VideoHlsSourceProfile {
+  /** Lower-case extension including the dot, e.g. `.mkv`. */
+  container: string
+  videoCodec: string | null
+  /** Unknown values (metadata-only estimates) never fail the policy on their own. */
+  pixelFormat: string | null
+  audioCodec: string | null
+  bitRate: number | null
+}
+
+const PLAYABLE_VIDEO_CODECS: Record<string, ReadonlySet<string>> = {
+  '.mp4': new Set(['h264']),
+  '.m4v': new Set(['h264']),
+  '.mov': new Set(['h264']),
+  '.webm': new Set(['vp8', 'vp9'])
+}
+const PLAYABLE_AUDIO_CODECS: Record<string, ReadonlySet<string>> = {
+  '.mp4': new Set(['aac', 'mp3']),
+  '.m4v': new Set(['aac', 'mp3']),
+  '.mov': new Set(['aac', 'mp3']),
+  '.webm': new Set(['opus', 'vorbis'])
+}
+const PLAYABLE_PIXEL_FORMATS = new Set(['yuv420p', 'yuvj420p'])
+
+const RENDITION_LADDER = [
+  { shortSide: 1080, videoBitrate: 5_000_000 },
+  { shortSide: 720, videoBitrate: 2_800_000 },
+  { shortSide: 480, videoBitrate: 1_400_000 }
+] as const
+
+/**
+ * Returns the reasons a browser is likely to fail (or stall) on the original file.
+ * An empty list means the source can be streamed as-is.
+ */
+export function evaluateVideoHlsCompatibility(profile: VideoHlsSourceProfile): VideoHlsIncompatibilityReason[] {
+  const reasons: VideoHlsIncompatibilityReason[] = []
+  const knownContainer = Object.hasOwn(PLAYABLE_VIDEO_CODECS, profile.container)
+  if (!knownContainer) reasons.push('CONTAINER')
+  // Streams in an unplayable container are judged against the MP4 set they would be remuxed into.
+  const videoCodecs = PLAYABLE_VIDEO_CODECS[knownContainer ? profile.container : '.mp4']!
+  const audioCodecs = PLAYABLE_AUDIO_CODECS[knownContainer ? profile.container : '.mp4']!
+  if (!profile.videoCodec || !videoCodecs.has(profile.videoCodec.toLowerCase())) reasons.push('VIDEO_CODEC')
+  if (profile.pixelFormat && !PLAYABLE_PIXEL_FORMATS.has(profile.pixelFormat.toLowerCase())) {
+    reasons.push('PIXEL_FORMAT')
+  }
+  if (profile.audioCodec && !audioCodecs.has(profile.audioCodec.toLowerCase())) reasons.push('AUDIO_CODEC')
+  if (profile.bitRate !== null && profile.bitRate > VIDEO_HLS_MAX_COMPATIBLE_BITRATE) reasons.push('BITRATE')
+  return reasons
+}
+
+/**
+ * Picks every ladder rung that does not upscale the source (by its short side, so portrait
+ * videos keep their orientation). Sources below the smallest rung get one native-size rendition.
+ */
+export function planVideoHlsRenditions(source: { width: number; height: number }): VideoHlsRendition[] {
+  if (!(source.width > 0) || !(source.height > 0)) return []
+  const shortSide = Math.min(source.width, source.height)
+  const rungs = RENDITION_LADDER.filter((rung) => rung.shortSide <= shortSide)
+  const selected =
+    rungs.length > 0
+      ? rungs
+      : [{ shortSide: Math.max(2, Math.floor(shortSide / 2) * 2), videoBitrate: RENDITION_LADDER.at(-1)!.videoBitrate }]
+  return selected.map((rung) => {
+    const scale = rung.shortSide / shortSide
+    const name = `${rung.shortSide}p`
+    return {
+      name,
+      width: even(source.width * scale),
+      height: even(source.height * scale),
+      videoBitrate: rung.videoBitrate,
+      playlist: `${name}.m3u8`,
+      segment: `${name}.ts`
+    }
+  })
+}
+
+export function buildVideoHlsRenditionArgs(input: {
+  sourcePath: string
+  playlistPath: string
+  segmentPath: string
+  rendition: VideoHlsRendition
+  hasAudio: boolean
+  threads: number
+}) {
+  const shortSide = Math.min(input.rendition.width, input.rendition.height)
+  return [
+    '-nostdin',
+    '-y',
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-progress',
+    'pipe:1',
+    '-nostats',
+    '-threads',
+    String(input.threads),
+    '-i',
+    input.sourcePath,
+    '-map',
+    '0:v:0',
+    ...(input.hasAudio ? ['-map', '0:a:0'] : []),
+    '-vf',
+    // Scale by the short side after autorotation so rotated phone footage keeps its orientation.
+    `scale=w='if(gte(iw,ih),-2,${shortSide})':h='if(gte(iw,ih),${shortSide},-2)',format=yuv420p`,
+    '-c:v',
+    'libx264',
+    '-preset',
+    'veryfast',
+    '-profile:v',
+    'high',
+    '-level:v',
+    '4.1',
+    '-b:v',
+    String(input.rendition.videoBitrate),
+    '-maxrate',
+    String(Math.round(input.rendition.videoBitrate * 1.07)),
+    '-bufsize',
+    String(Math.round(input.rendition.videoBitrate * 1.5)),
+    // Identical forced keyframes keep segment boundaries aligned across renditions for ABR switching.
+    '-force_key_frames',
+    `expr:gte(t,n_forced*${VIDEO_HLS_SEGMENT_SECONDS})`,
+    '-sc_threshold',
+    '0',
+    ...(input.hasAudio ? ['-c:a', 'aac', '-b:a', String(VIDEO_HLS_AUDIO_BITRATE), '-ac', '2'] : []),
+    '-f',
+    'hls',
+    '-hls_time',
+    String(VIDEO_HLS_SEGMENT_SECONDS),
+    '-hls_playlist_type',
+    'vod',
+    '-hls_flags',
+    'single_file+independent_segments',
+    '-hls_segment_type',
+    'mpegts',
+    '-hls_segment_filename',
+    input.segmentPath,
+    input.playlistPath
+  ]
+}
+
+export function buildVideoHlsMasterPlaylist(renditions: VideoHlsRendition[], hasAudio: boolean) {
+  const codecs = hasAudio ? 'avc1.640029,mp4a.40.2' : 'avc1.640029'
+  const audioBitrate = hasAudio ? VIDEO_HLS_AUDIO_BITRATE : 0
+  return [
+    '#EXTM3U',
+    // Byte-range segments (single_file) require protocol version 4.
+    '#EXT-X-VERSION:4',
+    '#EXT-X-INDEPENDENT-SEGMENTS',
+    ...renditions.flatMap((rendition) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${Math.round(rendition.videoBitrate * 1.07) + audioBitrate},AVERAGE-BANDWIDTH=${
+        rendition.videoBitrate + audioBitrate
+      },RESOLUTION=${rendition.width}x${rendition.height},CODECS="${codecs}"`,
+      rendition.playlist
+    ]),
+    ''
+  ].join('\n')
+}
+
+export function listVideoHlsSetFiles(renditions: Array<Pick<VideoHlsRendition, 'playlist' | 'segment'>>) {
+  return [VIDEO_HLS_MASTER_PLAYLIST, ...renditions.flatMap((rendition) => [rendition.playlist, rendition.segment])]
+}
+
+function even(value: number) {
+  return Math.max(2, Math.round(value / 2) * 2)
+}
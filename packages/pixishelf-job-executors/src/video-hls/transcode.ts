@@ -0,0 +1,481 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import type { Prisma } from '@pixishelf/db'
+import { videoHlsTranscodePayloadSchema } from '@pixishelf/job-contracts'
+import { resolveCreatablePathWithinRoot, resolveExistingPathWithinRoot } from '../video-processing/paths.ts'
+import { throwIfAborted } from '../video-processing/process-runner.ts'
+import type { VideoProcessRunner } from '../video-processing/types.ts'
+import { VideoProcessingPermanentError } from '../video-processing/types.ts'
+import {
+  buildVideoHlsMasterPlaylist,
+  buildVideoHlsRenditionArgs,
+  evaluateVideoHlsCompatibility,
+  listVideoHlsSetFiles,
+  planVideoHlsRenditions,
+  VIDEO_HLS_MASTER_PLAYLIST,
+  VIDEO_HLS_POLICY_VERSION
+} from './policy.ts'
+import type {
+  RunFencedHlsMutation,
+  VideoHlsDatabase,
+  VideoHlsProgress,
+  VideoHlsRendition,
+  VideoHlsRuntimeConfig,
+  VideoHlsTranscodeResult,
+  VideoHlsTransaction
+} from './types.ts'
+
+const DEFAULT_PROBE_TIMEOUT_MS = 2 * 60_000
+const DEFAULT_RENDITION_TIMEOUT_MS = 6 * 60 * 60_000
+// Players that loaded the previous ladder keep fetching its segments until they reload.
+const RETIRED_SET_GRACE_MS = 60 * 60_000
+const VIDEO_EXTENSIONS = new Set(['.mp4', '.webm', '.mkv', '.mov', '.avi', '.m4v', '.wmv', '.flv'])
+
+export type VideoHlsTranscodePayload = ReturnType<typeof videoHlsTranscodePayloadSchema.parse>
+
+export interface PreparedVideoHlsTranscode {
+  result: VideoHlsTranscodeResult
+  publish(transaction: VideoHlsTransaction): Promise<void>
+}
+
+interface SourceProbe {
+  streams?: Array<{
+    codec_type?: string
+    codec_name?: string
+    pix_fmt?: string
+    width?: number
+    height?: number
+    tags?: { rotate?: string }
+    side_data_list?: Array<{ rotation?: number }>
+  }>
+  format?: { duration?: string; bit_rate?: string }
+}
+
+export async function prepareVideoHlsTranscode(input: {
+  jobId: string
+  payload: VideoHlsTranscodePayload
+  database: VideoHlsDatabase
+  config: VideoHlsRuntimeConfig
+  processRunner: VideoProcessRunner
+  signal: AbortSignal
+  progress(update: VideoHlsProgress): Promise<void>
+  mutate: RunFencedHlsMutation
+  now?: () => Date
+}): Promise<PreparedVideoHlsTranscode> {
+  const now = input.now ?? (() => new Date())
+  await input.progress({ percentage: 1, stage: 'VALIDATE', message: '正在校验视频路径' })
+  const image = await input.database.image.findUnique({
+    where: { id: input.payload.imageId },
+    select: { id: true, path: true, mediaType: true }
+  })
+  if (!image) throw new VideoProcessingPermanentError('IMAGE_NOT_FOUND', 'Video image was not found')
+  if (normalizePath(image.path) !== normalizePath(input.payload.relativePath)) {
+    throw new VideoProcessingPermanentError('SOURCE_CHANGED', 'Queued video path no longer matches the image record')
+  }
+  const container = path.extname(image.path).toLowerCase()
+  if (image.mediaType !== 'VIDEO' && !VIDEO_EXTENSIONS.has(container)) {
+    throw new VideoProcessingPermanentError('NOT_A_VIDEO', 'Image is not a video')
+  }
+  const sourcePath = await resolveExistingPathWithinRoot(input.config.scanRoot, image.path)
+  const sourceStat = await fs.stat(sourcePath)
+  if (!sourceStat.isFile()) throw new VideoProcessingPermanentError('IMAGE_NOT_FOUND', 'Video path is not a file')
+  const fingerprint = sourceFingerprint(sourceStat)
+  const baseResult = { imageId: image.id, path: image.path, retiredSets: 0 }
+
+  if (!input.payload.force) {
+    const current = await input.database.mediaVideoHlsSet.findFirst({
+      where: {
+        imageId: image.id,
+        status: 'PUBLISHED',
+        sourceSize: fingerprint.size,
+        sourceMtimeMs: fingerprint.mtimeMs,
+        policyVersion: VIDEO_HLS_POLICY_VERSION
+      },
+      select: { id: true, reasons: true, renditions: true }
+    })
+    if (current) {
+      return {
+        result: {
+          ...baseResult,
+          outcome: 'UP_TO_DATE',
+          setId: current.id,
+          reasons: current.reasons,
+          renditions: readVideoHlsRenditions(current.renditions).map((rendition) => rendition.name)
+        },
+        publish: async () => undefined
+      }
+    }
+  }
+
+  await input.progress({ percentage: 3, stage: 'PROBE', message: '正在读取视频编码信息' })
+  const probe = await probeSource({
+    sourcePath,
+    processRunner: input.processRunner,
+    signal: input.signal,
+    timeoutMs: input.config.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS,
+    ...(input.config.ffprobePath ? { ffprobePath: input.config.ffprobePath } : {})
+  })
+  const video = probe.streams?.find((stream) => stream.codec_type === 'video')
+  if (!video?.width || !video.height) {
+    throw new VideoProcessingPermanentError('NOT_A_VIDEO', 'Source file does not contain a decodable video stream')
+  }
+  const audio = probe.streams?.find((stream) => stream.codec_type === 'audio')
+  const duration = parsePositiveNumber(probe.format?.duration)
+  const reasons = evaluateVideoHlsCompatibility({
+    container,
+    videoCodec: video.codec_name ?? null,
+    pixelFormat: video.pix_fmt ?? null,
+    audioCodec: audio?.codec_name ?? null,
+    bitRate: parsePositiveNumber(probe.format?.bit_rate) ?? (duration ? (sourceStat.size * 8) / duration : null)
+  })
+
+  if (reasons.length === 0 && !input.payload.force) {
+    const result: VideoHlsTranscodeResult = {
+      ...baseResult,
+      outcome: 'SKIPPED_COMPATIBLE',
+      setId: null,
+      reasons,
+      renditions: []
+    }
+    return {
+      result,
+      // A compatible source no longer needs a ladder; any earlier one describes a replaced file.
+      publish: async (transaction) => {
+        result.retiredSets = await retireVideoHlsSets(transaction, {
+          imageId: image.id,
+          statuses: ['PUBLISHED'],
+          status: 'FAILED',
+          error: 'Source now passes the browser compatibility policy',
+          reason: 'HLS_SET_SUPERSEDED',
+          notBefore: new Date(now().getTime() + RETIRED_SET_GRACE_MS)
+        })
+      }
+    }
+  }
+
+  const quarterTurn = isQuarterTurn(video)
+  const renditions = planVideoHlsRenditions({
+    width: quarterTurn ? video.height : video.width,
+    height: quarterTurn ? video.width : video.height
+  })
+  const hasAudio = Boolean(audio)
+  const set = await getOrCreateStagingSet({
+    database: input.database,
+    mutate: input.mutate,
+    jobId: input.jobId,
+    imageId: image.id,
+    fingerprint,
+    reasons,
+    renditions,
+    notBefore: new Date(now().getTime() + RETIRED_SET_GRACE_MS)
+  })
+  const setDirectory = `${image.id}/${set.id}`
+  await fs.mkdir(input.config.hlsStorageRoot, { recursive: true })
+
+  for (const [index, rendition] of renditions.entries()) {
+    throwIfAborted(input.signal)
+    const playlistPath = await resolveCreatablePathWithinRoot(
+      input.config.hlsStorageRoot,
+      `${setDirectory}/${rendition.playlist}`
+    )
+    const segmentPath = await resolveCreatablePathWithinRoot(
+      input.config.hlsStorageRoot,
+      `${setDirectory}/${rendition.segment}`
+    )
+    // A rendition finished by an earlier attempt of this job is reused instead of re-encoded.
+    if (await isCompleteRendition(playlistPath, segmentPath)) continue
+    await Promise.all([fs.rm(playlistPath, { force: true }), fs.rm(segmentPath, { force: true })])
+    const base = 5 + Math.floor((index / renditions.length) * 85)
+    const span = 85 / renditions.length
+    await input.progress({
+      percentage: base,
+      stage: 'TRANSCODE',
+      message: `正在转码 ${rendition.name}（${index + 1}/${renditions.length}）`,
+      data: { rendition: rendition.name, completed: index, total: renditions.length }
+    })
+    let progressBuffer = ''
+    let lastProgress = base
+    let progressQueue = Promise.resolve()
+    await input.processRunner({
+      command: input.config.ffmpegPath ?? 'ffmpeg',
+      args: buildVideoHlsRenditionArgs({
+        sourcePath,
+        playlistPath,
+        segmentPath,
+        rendition,
+        hasAudio,
+        threads: input.config.ffmpegThreads
+      }),
+      timeoutMs: input.config.renditionTimeoutMs ?? DEFAULT_RENDITION_TIMEOUT_MS,
+      signal: input.signal,
+      onStdout: (chunk) => {
+        progressBuffer += chunk
+        const lines = progressBuffer.split(/\r?\n/)
+        progressBuffer = lines.pop() ?? ''
+        for (const line of lines) {
+          const [key, value] = line.split('=', 2)
+          if (key !== 'out_time_us' || !value || !duration) continue
+          const elapsed = Number(value) / 1_000_000
+          if (!Number.isFinite(elapsed)) continue
+          const percentage = Math.min(base + Math.floor(span), base + Math.floor((elapsed / duration) * span))
+          if (percentage <= lastProgress) continue
+          lastProgress = percentage
+          progressQueue = progressQueue.then(() =>
+            input.progress({
+              percentage,
+              stage: 'TRANSCODE',
+              message: `正在转码 ${rendition.name}（${index + 1}/${renditions.length}）`,
+              data: { rendition: rendition.name, completed: index, total: renditions.length }
+            })
+          )
+        }
+      }
+    })
+    await progressQueue
+    if (!(await isCompleteRendition(playlistPath, segmentPath))) {
+      throw new Error(`FFmpeg produced an incomplete HLS rendition: ${rendition.name}`)
+    }
+  }
+
+  throwIfAborted(input.signal)
+  await input.progress({ percentage: 92, stage: 'VERIFY', message: '正在写入主播放列表' })
+  const masterPath = await resolveCreatablePathWithinRoot(
+    input.config.hlsStorageRoot,
+    `${setDirectory}/${VIDEO_HLS_MASTER_PLAYLIST}`
+  )
+  await fs.writeFile(masterPath, buildVideoHlsMasterPlaylist(renditions, hasAudio), 'utf8')
+  const finalStat = await fs.stat(sourcePath)
+  if (!sameFingerprint(fingerprint, sourceFingerprint(finalStat))) {
+    throw new VideoProcessingPermanentError('SOURCE_CHANGED', 'Source video changed during HLS transcoding')
+  }
+
+  const result: VideoHlsTranscodeResult = {
+    ...baseResult,
+    outcome: 'PUBLISHED',
+    setId: set.id,
+    reasons,
+    renditions: renditions.map((rendition) => rendition.name)
+  }
+  return {
+    result,
+    publish: async (transaction) => {
+      // The partial unique index allows one PUBLISHED row per image, so retire before promoting.
+      result.retiredSets = await retireVideoHlsSets(transaction, {
+        imageId: image.id,
+        statuses: ['PUBLISHED'],
+        excludeSetId: set.id,
+        status: 'FAILED',
+        error: 'Superseded by a newer published generation',
+        reason: 'HLS_SET_SUPERSEDED',
+        notBefore: new Date(now().getTime() + RETIRED_SET_GRACE_MS)
+      })
+      const published = await transaction.mediaVideoHlsSet.updateMany({
+        where: {
+          id: set.id,
+          imageId: image.id,
+          systemJobId: input.jobId,
+          status: 'STAGING',
+          sourceSize: fingerprint.size,
+          sourceMtimeMs: fingerprint.mtimeMs
+        },
+        data: { status: 'PUBLISHED', error: null, publishedAt: now() }
+      })
+      if (published.count !== 1) throw new Error('Video HLS staging set changed before publication')
+    }
+  }
+}
+
+/**
+ * Moves sets out of STAGING/PUBLISHED and queues every file of their ladder for derived-media GC.
+ * GC treats a file as referenced while its set is still STAGING or PUBLISHED.
+ */
+export async function retireVideoHlsSets(
+  transaction: VideoHlsTransaction,
+  input: {
+    imageId: number
+    statuses: Array<'STAGING' | 'PUBLISHED'>
+    excludeSetId?: string
+    systemJobId?: string
+    status: 'FAILED' | 'CANCELLED'
+    error: string
+    reason: string
+    notBefore: Date
+  }
+): Promise<number> {
+  const sets = await transaction.mediaVideoHlsSet.findMany({
+    where: {
+      imageId: input.imageId,
+      status: { in: input.statuses },
+      ...(input.excludeSetId ? { id: { not: input.excludeSetId } } : {}),
+      ...(input.systemJobId ? { systemJobId: input.systemJobId } : {})
+    },
+    select: { id: true, renditions: true }
+  })
+  for (const set of sets) {
+    await transaction.mediaVideoHlsSet.update({
+      where: { id: set.id },
+      data: { status: input.status, error: input.error }
+    })
+    for (const file of listVideoHlsSetFiles(readVideoHlsRenditions(set.renditions))) {
+      const relativePath = `${input.imageId}/${set.id}/${file}`
+      await transaction.derivedMediaGcEntry.upsert({
+        where: { mediaKind_relativePath: { mediaKind: 'VIDEO_HLS_RENDITION', relativePath } },
+        create: {
+          mediaKind: 'VIDEO_HLS_RENDITION',
+          relativePath,
+          referenceType: 'MEDIA_VIDEO_HLS_SET',
+          referenceId: set.id,
+          reason: input.reason,
+          status: 'PENDING',
+          notBefore: input.notBefore
+        },
+        update: {
+          referenceType: 'MEDIA_VIDEO_HLS_SET',
+          referenceId: set.id,
+          reason: input.reason,
+          status: 'PENDING',
+          notBefore: input.notBefore,
+          attempt: 0,
+          error: null,
+          deletedAt: null
+        }
+      })
+    }
+  }
+  return sets.length
+}
+
+async function getOrCreateStagingSet(input: {
+  database: VideoHlsDatabase
+  mutate: RunFencedHlsMutation
+  jobId: string
+  imageId: number
+  fingerprint: { size: bigint; mtimeMs: bigint }
+  reasons: string[]
+  renditions: VideoHlsRendition[]
+  notBefore: Date
+}) {
+  const existing = await input.database.mediaVideoHlsSet.findUnique({ where: { systemJobId: input.jobId } })
+  if (
+    existing?.status === 'STAGING' &&
+    existing.sourceSize === input.fingerprint.size &&
+    existing.sourceMtimeMs === input.fingerprint.mtimeMs &&
+    existing.policyVersion === VIDEO_HLS_POLICY_VERSION &&
+    JSON.stringify(readVideoHlsRenditions(existing.renditions)) === JSON.stringify(input.renditions)
+  ) {
+    return existing
+  }
+  return input.mutate(async (transaction) => {
+    // Staging sets left behind by this job's earlier attempt or by a job that no longer exists.
+    await retireVideoHlsSets(transaction, {
+      imageId: input.imageId,
+      statuses: ['STAGING'],
+      status: 'CANCELLED',
+      error: 'Replaced by a newer HLS transcode attempt',
+      reason: 'HLS_SET_ABANDONED',
+      notBefore: input.notBefore
+    })
+    if (existing) {
+      await transaction.mediaVideoHlsSet.update({ where: { id: existing.id }, data: { systemJobId: null } })
+    }
+    return transaction.mediaVideoHlsSet.create({
+      data: {
+        imageId: input.imageId,
+        systemJobId: input.jobId,
+        status: 'STAGING',
+        sourceSize: input.fingerprint.size,
+        sourceMtimeMs: input.fingerprint.mtimeMs,
+        policyVersion: VIDEO_HLS_POLICY_VERSION,
+        reasons: input.reasons,
+        renditions: input.renditions as unknown as Prisma.InputJsonValue
+      }
+    })
+  })
+}
+
+async function probeSource(input: {
+  sourcePath: string
+  ffprobePath?: string
+  processRunner: VideoProcessRunner
+  timeoutMs: number
+  signal: AbortSignal
+}): Promise<SourceProbe> {
+  const result = await input.processRunner({
+    command: input.ffprobePath ?? 'ffprobe',
+    args: [
+      '-v',
+      'error',
+      '-print_format',
+      'json',
+      '-show_entries',
+      'format=duration,bit_rate:stream=codec_type,codec_name,pix_fmt,width,height:stream_tags=rotate:stream_side_data=rotation',
+      input.sourcePath
+    ],
+    timeoutMs: input.timeoutMs,
+    signal: input.signal
+  })
+  try {
+    return JSON.parse(result.stdout) as SourceProbe
+  } catch {
+    throw new Error('FFprobe returned invalid JSON')
+  }
+}
+
+async function isCompleteRendition(playlistPath: string, segmentPath: string) {
+  try {
+    const [playlist, segment] = await Promise.all([fs.readFile(playlistPath, 'utf8'), fs.stat(segmentPath)])
+    return playlist.includes('#EXT-X-ENDLIST') && segment.isFile() && segment.size > 0
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+    throw error
+  }
+}
+
+export function readVideoHlsRenditions(value: unknown): VideoHlsRendition[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object') return []
+    const candidate = item as Partial<VideoHlsRendition>
+    return typeof candidate.name === 'string' &&
+      typeof candidate.playlist === 'string' &&
+      typeof candidate.segment === 'string' &&
+      typeof candidate.width === 'number' &&
+      typeof candidate.height === 'number' &&
+      typeof candidate.videoBitrate === 'number'
+      ? [
+          {
+            name: candidate.name,
+            width: candidate.width,
+            height: candidate.height,
+            videoBitrate: candidate.videoBitrate,
+            playlist: candidate.playlist,
+            segment: candidate.segment
+          }
+        ]
+      : []
+  })
+}
+
+function isQuarterTurn(stream: NonNullable<SourceProbe['streams']>[number]) {
+  const rotation = Number(
+    stream.side_data_list?.find((entry) => entry.rotation !== undefined)?.rotation ?? stream.tags?.rotate ?? 0
+  )
+  return Math.abs(rotation) % 180 === 90
+}
+
+function parsePositiveNumber(value: string | undefined) {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+function sourceFingerprint(stat: { size: number; mtimeMs: number }) {
+  return { size: BigInt(stat.size), mtimeMs: BigInt(Math.round(stat.mtimeMs)) }
+}
+
+function sameFingerprint(left: { size: bigint; mtimeMs: bigint }, right: { size: bigint; mtimeMs: bigint }) {
+  return left.size === right.size && left.mtimeMs === right.mtimeMs
+}
+
+function normalizePath(value: string) {
+  return value.replace(/\\/g, '/').replace(/^\/+/, '')
+}
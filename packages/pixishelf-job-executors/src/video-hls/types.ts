@@ -0,0 +1,43 @@
+import type { Prisma, PrismaClient } from '@pixishelf/db'
+
+export type VideoHlsDatabase = Pick<PrismaClient, 'image' | 'mediaVideoHlsSet'>
+
+export type VideoHlsTransaction = Prisma.TransactionClient
+
+export interface VideoHlsRuntimeConfig {
+  scanRoot: string
+  hlsStorageRoot: string
+  ffmpegPath?: string
+  ffprobePath?: string
+  ffmpegThreads: number
+  probeTimeoutMs?: number
+  renditionTimeoutMs?: number
+}
+
+export interface VideoHlsProgress {
+  percentage: number
+  stage: string
+  message: string
+  data?: Record<string, unknown>
+}
+
+export interface VideoHlsRendition {
+  name: string
+  width: number
+  height: number
+  videoBitrate: number
+  playlist: string
+  segment: string
+}
+
+export interface VideoHlsTranscodeResult {
+  imageId: number
+  path: string
+  outcome: 'PUBLISHED' | 'SKIPPED_COMPATIBLE' | 'UP_TO_DATE'
+  setId: string | null
+  reasons: string[]
+  renditions: string[]
+  retiredSets: number
+}
+
+export type RunFencedHlsMutation = <T>(operation: (transaction: VideoHlsTransaction) => Promise<T>) => Promise<T>
@@ -213,6 +213,108 @@ describe('derived media GC executor', () => {
     )
   })
 
+  it('deletes a retired HLS rendition from the HLS root and checks the owning set status', async () => {
+    const relativePath = '7/set-old/720p.ts'
+    mocks.files.add(`/hls/${relativePath}`)
+    const fixture = gcFixture({
+      references: [false, false, false],
+      entry: {
+        mediaKind: 'VIDEO_HLS_RENDITION',
+        relativePath,
+        referenceType: 'MEDIA_VIDEO_HLS_SET',
+        referenceId: 'set-old'
+      }
+    })
+
+    const outcome = await executeDerivedMediaGc(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ kind: 'completed', result: { deleted: 1, failed: 0 } })
+    expect(mocks.files.size).toBe(0)
+    expect(fixture.hlsSetFindFirst).toHaveBeenCalledWith({
+      where: { id: 'set-old', status: { in: ['STAGING', 'PUBLISHED'] } },
+      select: { id: true }
+    })
+  })
+
+  it('rejects an HLS path that does not belong to the referenced set', async () => {
+    const fixture = gcFixture({
+      entry: {
+        mediaKind: 'VIDEO_HLS_RENDITION',
+        relativePath: '7/set-live/master.m3u8',
+        referenceType: 'MEDIA_VIDEO_HLS_SET',
+        referenceId: 'set-old'
+      }
+    })
+
+    const outcome = await executeDerivedMediaGc(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ kind: 'completed', result: { deleted: 0, failed: 1 } })
+    expect(mocks.inspect).not.toHaveBeenCalled()
+  })
+
+  it('deletes a replaced ugoira animation from the ugoira root once no row points at it', async () => {
+    const relativePath = '7/2048-1700000000000.webm'
+    mocks.files.add(`/ugoira/${relativePath}`)
+    const fixture = gcFixture({
+      references: [false, false, false],
+      entry: {
+        mediaKind: 'UGOIRA_ANIMATION',
+        relativePath,
+        referenceType: 'MEDIA_UGOIRA_ANIMATION',
+        referenceId: '7'
+      }
+    })
+
+    const outcome = await executeDerivedMediaGc(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ kind: 'completed', result: { deleted: 1, failed: 0 } })
+    expect(mocks.files.size).toBe(0)
+    expect(fixture.ugoiraFindFirst).toHaveBeenCalledWith({
+      where: { outputPath: relativePath },
+      select: { imageId: true }
+    })
+  })
+
+  it('deletes an expired artwork export archive from the exports root', async () => {
+    mocks.files.add('/exports/cexport1.cbz')
+    const fixture = gcFixture({
+      references: [false, false, false],
+      entry: {
+        mediaKind: 'ARTWORK_EXPORT',
+        relativePath: 'cexport1.cbz',
+        referenceType: 'ARTWORK_EXPORT',
+        referenceId: 'cexport1'
+      }
+    })
+
+    const outcome = await executeDerivedMediaGc(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ kind: 'completed', result: { deleted: 1, failed: 0 } })
+    expect(mocks.files.size).toBe(0)
+    expect(fixture.exportFindFirst).toHaveBeenCalledWith({
+      where: { id: 'cexport1', expiresAt: { gt: expect.any(Date) } },
+      select: { id: true }
+    })
+  })
+
+  it('refuses an artwork export entry whose file name does not match its export id', async () => {
+    mocks.files.add('/exports/other.zip')
+    const fixture = gcFixture({
+      references: [false],
+      entry: {
+        mediaKind: 'ARTWORK_EXPORT',
+        relativePath: 'other.zip',
+        referenceType: 'ARTWORK_EXPORT',
+        referenceId: 'cexport1'
+      }
+    })
+
+    const outcome = await executeDerivedMediaGc(fixture.context, fixture.dependencies)
+
+    expect(outcome).toMatchObject({ kind: 'completed', result: { deleted: 0, failed: 1 } })
+    expect(mocks.files.has('/exports/other.zip')).toBe(true)
+  })
+
   it('lets a reference that appears after staging win and restores the staged file', async () => {
     mocks.files.add('/posters/old.webp')
     const fixture = gcFixture({ references: [false, true] })
@@ -353,11 +455,17 @@ function gcFixture(options: {
   const posterFindFirst = vi.fn(() => nextReference().then((value) => (value ? { imageId: 1 } : null)))
   const chapterFindFirst = vi.fn(() => nextReference().then((value) => (value ? { id: 'preview-live' } : null)))
   const imageFindFirst = vi.fn(() => nextReference().then((value) => (value ? { id: 7 } : null)))
+  const hlsSetFindFirst = vi.fn(() => nextReference().then((value) => (value ? { id: 'set-live' } : null)))
+  const ugoiraFindFirst = vi.fn(() => nextReference().then((value) => (value ? { imageId: 7 } : null)))
+  const exportFindFirst = vi.fn(() => nextReference().then((value) => (value ? { id: 'cexport1' } : null)))
   const transaction = {
     $queryRawUnsafe: queryRaw,
     derivedMediaGcEntry: { updateMany: gcUpdateMany, findFirst: gcFindFirst },
     mediaVideoMetadata: { findFirst: posterFindFirst },
     mediaChapterPreview: { findFirst: chapterFindFirst },
+    mediaVideoHlsSet: { findFirst: hlsSetFindFirst },
+    mediaUgoiraAnimation: { findFirst: ugoiraFindFirst },
+    artworkExport: { findFirst: exportFindFirst },
     image: { findFirst: imageFindFirst }
   }
   const controller = options.controller ?? new AbortController()
@@ -404,6 +512,9 @@ function gcFixture(options: {
     },
     mediaVideoMetadata: { findFirst: posterFindFirst, findMany: metadataFindMany },
     mediaChapterPreview: { findFirst: chapterFindFirst },
+    mediaVideoHlsSet: { findFirst: hlsSetFindFirst },
+    mediaUgoiraAnimation: { findFirst: ugoiraFindFirst },
+    artworkExport: { findFirst: exportFindFirst },
     image: { findFirst: imageFindFirst }
   }
   return {
@@ -413,6 +524,9 @@ function gcFixture(options: {
     gcFindMany,
     gcUpdateMany,
     chapterFindFirst,
+    hlsSetFindFirst,
+    ugoiraFindFirst,
+    exportFindFirst,
     metadataFindMany,
     abortAfterMutation(count: number) {
       abortMutation = count
@@ -420,7 +534,14 @@ function gcFixture(options: {
     loadQueries: () => gcFindMany.mock.calls.map(([query]) => query).filter((query) => !query.where.mediaKind),
     dependencies: {
       database,
-      config: { scanRoot: '/scan', posterStorageRoot: '/posters', chapterPreviewStorageRoot: '/chapters' },
+      config: {
+        scanRoot: '/scan',
+        posterStorageRoot: '/posters',
+        chapterPreviewStorageRoot: '/chapters',
+        hlsStorageRoot: '/hls',
+        ugoiraStorageRoot: '/ugoira',
+        exportStorageRoot: '/exports'
+      },
       now: () => new Date('2026-08-14T00:00:00.000Z')
     } as never
   }
@@ -12,7 +12,7 @@ vi.mock('../paths.js', () => ({ resolveVideoSource: mocks.resolveSource }))
 vi.mock('../poster.js', () => ({ generatePendingVideoPoster: mocks.generatePoster }))
 
 import type { VideoMediaProbePayload } from '../executors.js'
-import { executeVideoMediaProbe } from '../probe.js'
+import { enqueueVideoMediaFollowUps, executeVideoMediaProbe } from '../probe.js'
 
 describe('video media probe workflow', () => {
   beforeEach(() => {
@@ -148,6 +148,29 @@ describe('video media probe workflow', () => {
       executeVideoMediaProbe(missing.context({ force: true, imageId: 999 }), missing.dependencies)
     ).resolves.toEqual({ kind: 'skipped', reason: 'PRECONDITION_NOT_MET', message: 'Video image was not found' })
   })
+
+  it('queues keyframe discovery behind the probe sweep that renders the posters', async () => {
+    const enqueueChild = vi
+      .fn()
+      .mockResolvedValueOnce({ id: 'probe-child', created: true })
+      .mockResolvedValueOnce({ id: 'discovery-child', created: true })
+
+    await expect(enqueueVideoMediaFollowUps({ job: { id: 'scan-job' }, enqueueChild } as never)).resolves.toEqual({
+      probe: { id: 'probe-child', created: true },
+      keyframeDiscovery: { id: 'discovery-child', created: true }
+    })
+    expect(enqueueChild.mock.calls).toEqual([
+      [{ type: 'VIDEO_MEDIA_PROBE', payload: { force: false }, idempotencyKey: 'video-media-probe:scan-job' }],
+      [
+        {
+          type: 'VIDEO_KEYFRAME_DISCOVERY',
+          payload: { trigger: 'schedule', force: false, previewOnly: false, filter: {} },
+          idempotencyKey: 'video-keyframe-discovery:scan-job',
+          dependsOnJobIds: ['probe-child']
+        }
+      ]
+    ])
+  })
 })
 
 function probeRow(imageId = 1) {
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest'
+import { convertSubtitleToWebVtt, matchSidecarSubtitle } from '../subtitle-format.js'
+import { syncVideoSubtitleTracks } from '../subtitles.js'
+
+describe('video subtitle formats', () => {
+  it('matches sidecars by video stem and splits language tags from free-form labels', () => {
+    expect(matchSidecarSubtitle('Episode 01.mkv', 'Episode 01.srt')).toEqual({
+      format: 'srt',
+      language: null,
+      label: null
+    })
+    expect(matchSidecarSubtitle('Episode 01.mkv', 'Episode 01.zh_Hans.ASS')).toEqual({
+      format: 'ass',
+      language: 'zh-Hans',
+      label: null
+    })
+    expect(matchSidecarSubtitle('Episode 01.mkv', 'Episode 01.commentary track.vtt')).toEqual({
+      format: 'vtt',
+      language: null,
+      label: 'commentary track'
+    })
+    expect(matchSidecarSubtitle('Episode 01.mkv', 'Episode 02.srt')).toBeNull()
+    expect(matchSidecarSubtitle('Episode 01.mkv', 'Episode 01.txt')).toBeNull()
+  })
+
+  it('converts SRT cues and neutralizes payloads that would break WebVTT parsing', () => {
+    const srt =
+      '\uFEFF1\r\n00:00:01,500 --> 00:00:03,000\r\n<font color="red">Hello</font>\r\nA --> B\r\n\r\n2\r\n00:00:04,000 --> 00:00:04,000\r\nEmpty\r\n'
+
+    expect(convertSubtitleToWebVtt(srt, 'srt')).toBe('WEBVTT\n\n00:00:01.500 --> 00:00:03.000\nHello\nA → B\n')
+  })
+
+  it('converts ASS dialogue in start order and strips override tags', () => {
+    const ass = [
+      '[Script Info]',
+      'Title: Demo',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:05.00,0:00:06.00,Default,,0,0,0,,Second, with comma',
+      'Dialogue: 0,0:00:01.25,0:00:02.00,Default,,0,0,0,,{\\i1}First\\Nline'
+    ].join('\n')
+
+    expect(convertSubtitleToWebVtt(ass, 'ass')).toBe(
+      'WEBVTT\n\n00:00:01.250 --> 00:00:02.000\nFirst\nline\n\n00:00:05.000 --> 00:00:06.000\nSecond, with comma\n'
+    )
+  })
+
+  it('rejects WebVTT without a header and subtitles without cues as permanent failures', () => {
+    expect(() => convertSubtitleToWebVtt('00:00.000 --> 00:01.000\nText', 'vtt')).toThrow('missing its header')
+    expect(() => convertSubtitleToWebVtt('not a subtitle', 'srt')).toThrow('no cues')
+  })
+})
+
+describe('video subtitle track sync', () => {
+  it('creates new tracks, re-queues changed sources and hands removed WebVTT files to GC', async () => {
+    const now = new Date('2026-10-18T00:00:00.000Z')
+    const transaction = {
+      mediaVideoSubtitleTrack: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'track-kept',
+            sourceKey: 'a.srt',
+            format: 'srt',
+            language: null,
+            label: null,
+            isDefault: false,
+            status: 'COMPLETED',
+            vttPath: '7/track-kept.vtt',
+            sourceSize: 10n,
+            sourceMtimeMs: 100n
+          },
+          {
+            id: 'track-gone',
+            sourceKey: 'a.en.srt',
+            format: 'srt',
+            language: 'en',
+            label: null,
+            isDefault: false,
+            status: 'COMPLETED',
+            vttPath: '7/track-gone.vtt',
+            sourceSize: 5n,
+            sourceMtimeMs: 50n
+          }
+        ]),
+        create: vi.fn().mockResolvedValue({}),
+        update: vi.fn().mockResolvedValue({}),
+        deleteMany: vi.fn().mockResolvedValue({ count: 1 })
+      },
+      derivedMediaGcEntry: { upsert: vi.fn().mockResolvedValue({}) }
+    }
+
+    await expect(
+      syncVideoSubtitleTracks(transaction as never, {
+        imageId: 7,
+        source: 'SIDECAR',
+        tracks: [
+          {
+            sourceKey: 'a.srt',
+            format: 'srt',
+            language: null,
+            label: null,
+            isDefault: false,
+            fingerprint: { size: 11n, mtimeMs: 100n }
+          },
+          { sourceKey: 'a.ja.ass', format: 'ass', language: 'ja', label: null, isDefault: false }
+        ],
+        now
+      })
+    ).resolves.toEqual({ created: 1, removed: 1 })
+
+    expect(transaction.mediaVideoSubtitleTrack.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ imageId: 7, source: 'SIDECAR', sourceKey: 'a.ja.ass', language: 'ja' })
+    })
+    expect(transaction.mediaVideoSubtitleTrack.update).toHaveBeenCalledWith({
+      where: { id: 'track-kept' },
+      data: expect.objectContaining({ status: 'PENDING', error: null })
+    })
+    expect(transaction.derivedMediaGcEntry.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          mediaKind: 'VIDEO_SUBTITLE',
+          relativePath: '7/track-gone.vtt',
+          referenceType: 'MEDIA_VIDEO_SUBTITLE_TRACK',
+          referenceId: 'track-gone',
+          notBefore: new Date('2026-10-18T01:00:00.000Z')
+        })
+      })
+    )
+    expect(transaction.mediaVideoSubtitleTrack.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['track-gone'] } }
+    })
+  })
+})
@@ -15,6 +15,10 @@ import type { VideoMediaDatabase, VideoMediaRuntimeConfig, VideoMediaTransaction
 const DEFAULT_BATCH_SIZE = 100
 const DEFAULT_RECONCILIATION_LIMIT = 500
 const STREAMING_ARTIFACT_PATTERN = /\.pixishelf-remux-[A-Za-z0-9_-]{1,120}\.(?:tmp|backup)\.mp4$/
+const HLS_RENDITION_PATTERN = /^\d+\/[A-Za-z0-9_-]{1,120}\/(?:master\.m3u8|\d{1,4}p\.(?:m3u8|ts))$/
+const SUBTITLE_PATTERN = /^\d+\/([A-Za-z0-9_-]{1,120})\.vtt$/
+const UGOIRA_ANIMATION_PATTERN = /^(\d+)\/\d+-\d+\.webm$/
+const ARTWORK_EXPORT_PATTERN = /^([A-Za-z0-9_-]{1,120})\.(?:cbz|zip)$/
 
 type GcEntry = {
   id: string
@@ -387,6 +391,36 @@ async function isReferenced(database: VideoMediaDatabase | VideoMediaTransaction
         })
       )
     }
+    case 'VIDEO_HLS_RENDITION':
+      // Files stay live while their generation is still being built or served.
+      return Boolean(
+        entry.referenceId &&
+          (await database.mediaVideoHlsSet.findFirst({
+            where: { id: entry.referenceId, status: { in: ['STAGING', 'PUBLISHED'] } },
+            select: { id: true }
+          }))
+      )
+    case 'VIDEO_SUBTITLE':
+      return Boolean(
+        await database.mediaVideoSubtitleTrack.findFirst({
+          where: { vttPath: normalizeRelativePath(entry.relativePath) },
+          select: { id: true }
+        })
+      )
+    case 'UGOIRA_ANIMATION':
+      return Boolean(
+        await database.mediaUgoiraAnimation.findFirst({
+          where: { outputPath: normalizeRelativePath(entry.relativePath) },
+          select: { imageId: true }
+        })
+      )
+    case 'ARTWORK_EXPORT':
+      return Boolean(
+        await database.artworkExport.findFirst({
+          where: { id: entry.referenceId ?? '', expiresAt: { gt: new Date() } },
+          select: { id: true }
+        })
+      )
     default:
       throw new Error(`Unsupported derived media kind: ${entry.mediaKind}`)
   }
@@ -412,6 +446,44 @@ function resolveGcTarget(config: VideoMediaRuntimeConfig, entry: GcEntry) {
       if (!STREAMING_ARTIFACT_PATTERN.test(normalized)) throw new Error('Invalid streaming artifact filename')
       return { root: config.scanRoot }
     }
+    case 'VIDEO_HLS_RENDITION': {
+      if (entry.referenceType !== 'MEDIA_VIDEO_HLS_SET') {
+        throw new Error(`Invalid VIDEO_HLS_RENDITION reference type: ${entry.referenceType ?? 'null'}`)
+      }
+      const normalized = normalizeRelativePath(entry.relativePath)
+      if (!HLS_RENDITION_PATTERN.test(normalized) || normalized.split('/')[1] !== entry.referenceId) {
+        throw new Error('Invalid HLS rendition filename')
+      }
+      if (!config.hlsStorageRoot) throw new Error('HLS storage root is not configured')
+      return { root: config.hlsStorageRoot }
+    }
+    case 'VIDEO_SUBTITLE': {
+      if (entry.referenceType !== 'MEDIA_VIDEO_SUBTITLE_TRACK') {
+        throw new Error(`Invalid VIDEO_SUBTITLE reference type: ${entry.referenceType ?? 'null'}`)
+      }
+      const match = normalizeRelativePath(entry.relativePath).match(SUBTITLE_PATTERN)
+      if (!match || match[1] !== entry.referenceId) throw new Error('Invalid subtitle filename')
+      if (!config.subtitleStorageRoot) throw new Error('Subtitle storage root is not configured')
+      return { root: config.subtitleStorageRoot }
+    }
+    case 'UGOIRA_ANIMATION': {
+      if (entry.referenceType !== 'MEDIA_UGOIRA_ANIMATION') {
+        throw new Error(`Invalid UGOIRA_ANIMATION reference type: ${entry.referenceType ?? 'null'}`)
+      }
+      const match = normalizeRelativePath(entry.relativePath).match(UGOIRA_ANIMATION_PATTERN)
+      if (!match || match[1] !== entry.referenceId) throw new Error('Invalid ugoira animation filename')
+      if (!config.ugoiraStorageRoot) throw new Error('Ugoira storage root is not configured')
+      return { root: config.ugoiraStorageRoot }
+    }
+    case 'ARTWORK_EXPORT': {
+      if (entry.referenceType !== 'ARTWORK_EXPORT') {
+        throw new Error(`Invalid ARTWORK_EXPORT reference type: ${entry.referenceType ?? 'null'}`)
+      }
+      const match = normalizeRelativePath(entry.relativePath).match(ARTWORK_EXPORT_PATTERN)
+      if (!match || match[1] !== entry.referenceId) throw new Error('Invalid artwork export filename')
+      if (!config.exportStorageRoot) throw new Error('Artwork export storage root is not configured')
+      return { root: config.exportStorageRoot }
+    }
     default:
       throw new Error(`Unsupported derived media kind: ${entry.mediaKind}`)
   }
@@ -4,4 +4,6 @@ export * from './media-process.ts'
 export * from './paths.ts'
 export * from './poster.ts'
 export * from './probe.ts'
+export * from './subtitle-format.ts'
+export * from './subtitles.ts'
 export * from './types.ts'
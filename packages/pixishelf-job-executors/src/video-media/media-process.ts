@@ -2,6 +2,7 @@ import * as childProcess from 'node:child_process'
 import * as fs from 'node:fs/promises'
 import path from 'node:path'
 import sharp from 'sharp'
+import { isTextSubtitleCodec, normalizeLanguage, type EmbeddedSubtitleStream } from './subtitle-format.ts'
 import { VideoMediaPermanentError, VideoMediaProcessError, type VideoProbeMetadata } from './types.ts'
 
 const MAX_PROCESS_OUTPUT_BYTES = 2 * 1024 * 1024
@@ -9,6 +10,7 @@ const AUDIO_SAMPLE_SECONDS = 10
 const AUDIBLE_MAX_VOLUME_THRESHOLD_DB = -50
 
 interface ProbeStream {
+  index?: number
   codec_type?: string
   codec_name?: string
   channels?: number
@@ -16,6 +18,8 @@ interface ProbeStream {
   r_frame_rate?: string
   duration?: string
   nb_read_packets?: string
+  tags?: { language?: string; title?: string }
+  disposition?: { default?: number }
 }
 
 interface ProbeOutput {
@@ -29,7 +33,7 @@ export async function probeVideoMetadata(input: {
   ffmpegPath?: string
   timeoutMs: number
   signal: AbortSignal
-}): Promise<VideoProbeMetadata> {
+}): Promise<VideoProbeMetadata & { subtitleStreams: EmbeddedSubtitleStream[] }> {
   const output = await runMediaProcess(
     input.ffprobePath ?? 'ffprobe',
     ['-v', 'error', '-print_format', 'json', '-show_format', '-count_packets', '-show_streams', input.sourcePath],
@@ -60,11 +64,24 @@ export async function probeVideoMetadata(input: {
   const hasAudio = Boolean(audio) && companionHasAudio !== false && sampledHasAudio !== false
   return {
     hasAudio,
-    audioCodec: hasAudio ? audio?.codec_name ?? null : null,
+    audioCodec: hasAudio ? (audio?.codec_name ?? null) : null,
     audioChannels: hasAudio && typeof audio?.channels === 'number' ? audio.channels : null,
     videoCodec: video.codec_name ?? null,
     duration,
-    fps: parseFps(video.avg_frame_rate) ?? parseFps(video.r_frame_rate)
+    fps: parseFps(video.avg_frame_rate) ?? parseFps(video.r_frame_rate),
+    subtitleStreams: streams.flatMap((stream) =>
+      stream.codec_type === 'subtitle' && typeof stream.index === 'number' && isTextSubtitleCodec(stream.codec_name)
+        ? [
+            {
+              index: stream.index,
+              codec: stream.codec_name!.toLowerCase(),
+              language: normalizeLanguage(stream.tags?.language),
+              title: stream.tags?.title?.trim() || null,
+              isDefault: stream.disposition?.default === 1
+            }
+          ]
+        : []
+    )
   }
 }
 
@@ -245,7 +262,9 @@ function parseFps(value?: string): number | null {
   const [numeratorRaw, denominatorRaw] = value.split('/')
   const numerator = Number(numeratorRaw)
   const denominator = denominatorRaw === undefined ? 1 : Number(denominatorRaw)
-  return Number.isFinite(numerator) && Number.isFinite(denominator) && denominator !== 0 ? numerator / denominator : null
+  return Number.isFinite(numerator) && Number.isFinite(denominator) && denominator !== 0
+    ? numerator / denominator
+    : null
 }
 
 function formatSeconds(value: number) {
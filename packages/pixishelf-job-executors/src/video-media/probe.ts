@@ -4,6 +4,13 @@ import type { VideoMediaProbePayload } from './executors.ts'
 import { probeVideoMetadata } from './media-process.ts'
 import { resolveVideoSource } from './paths.ts'
 import { generatePendingVideoPoster } from './poster.ts'
+import {
+  convertPendingVideoSubtitles,
+  embeddedSubtitleTrackInputs,
+  listSidecarSubtitles,
+  sidecarSubtitleTrackInputs,
+  syncVideoSubtitleTracks
+} from './subtitles.ts'
 import {
   VideoMediaPermanentError,
   type VideoMediaDatabase,
@@ -26,7 +33,8 @@ export interface VideoMediaProbeResult {
   }
   probe: { total: number; processed: number; failed: number; remaining: number }
   poster: { total: number; processed: number; generated: number; skipped: number; failed: number; remaining: number }
-  failedSamples: Array<{ stage: 'PROBE' | 'POSTER'; imageId: number; path: string; error: string }>
+  subtitles: { total: number; converted: number; failed: number }
+  failedSamples: Array<{ stage: 'PROBE' | 'SUBTITLE' | 'POSTER'; imageId: number; path: string; error: string }>
 }
 
 type ProbeContext = ExecutionContext<VideoMediaProbePayload, EnqueuedChildJob>
@@ -58,6 +66,7 @@ export async function executeVideoMediaProbe(
       },
       probe: { total, processed: 0, failed: 0, remaining: total },
       poster: { total: 0, processed: 0, generated: 0, skipped: 0, failed: 0, remaining: 0 },
+      subtitles: { total: 0, converted: 0, failed: 0 },
       failedSamples: []
     }
     let cursor = 0
@@ -94,19 +103,41 @@ export async function executeVideoMediaProbe(
         activeImageId = item.imageId
         try {
           const source = await resolveVideoSource(dependencies.config.scanRoot, item.image.path)
-          const metadata = await probeVideoMetadata({
+          const { subtitleStreams, ...metadata } = await probeVideoMetadata({
             sourcePath: source.sourcePath,
             timeoutMs: dependencies.config.probeTimeoutMs ?? 60_000,
             signal: context.signal,
             ...(dependencies.config.ffprobePath ? { ffprobePath: dependencies.config.ffprobePath } : {}),
             ...(dependencies.config.ffmpegPath ? { ffmpegPath: dependencies.config.ffmpegPath } : {})
           })
+          // Re-list sidecars as well so libraries scanned before subtitle support pick them up on re-probe.
+          const sidecars = dependencies.config.subtitleStorageRoot
+            ? await listSidecarSubtitles(dependencies.config.scanRoot, source.sourcePath)
+            : null
           await context.mutateInTransaction<VideoMediaTransaction & QueueSqlExecutor>(async (transaction) => {
             const updated = await transaction.mediaVideoMetadata.updateMany({
               where: { imageId: item.imageId, probeStatus: 'PROBING' },
               data: { probeStatus: 'COMPLETED', probeUpdatedAt: new Date(), probeError: null, ...metadata }
             })
             if (updated.count !== 1) throw new Error('Video probe checkpoint changed before completion')
+            if (sidecars) {
+              const now = new Date()
+              await syncVideoSubtitleTracks(transaction, {
+                imageId: item.imageId,
+                source: 'SIDECAR',
+                tracks: sidecarSubtitleTrackInputs(sidecars),
+                now
+              })
+              await syncVideoSubtitleTracks(transaction, {
+                imageId: item.imageId,
+                source: 'EMBEDDED',
+                tracks: embeddedSubtitleTrackInputs(subtitleStreams ?? [], {
+                  size: BigInt(source.stat.size),
+                  mtimeMs: BigInt(Math.round(source.stat.mtimeMs))
+                }),
+                now
+              })
+            }
           })
           activeImageId = null
           result.probe.processed += 1
@@ -148,11 +179,16 @@ export async function executeVideoMediaProbe(
           }
         : { kind: 'failed', errorCode: 'INTERNAL_ERROR', error: message, message: '单视频媒体重探测失败' }
     }
+    const subtitles = await convertPendingVideoSubtitles(context, dependencies)
+    result.subtitles = { total: subtitles.total, converted: subtitles.converted, failed: subtitles.failed }
+    for (const sample of subtitles.failedSamples) {
+      if (result.failedSamples.length < FAILED_SAMPLE_LIMIT) result.failedSamples.push({ stage: 'SUBTITLE', ...sample })
+    }
     await processPendingPosters(context, dependencies, result)
     return {
       kind: 'completed',
       result,
-      message: `视频媒体探测与封面生成完成：探测成功 ${result.probe.processed}，封面生成 ${result.poster.generated}，失败 ${result.probe.failed + result.poster.failed}`
+      message: `视频媒体探测与封面生成完成：探测成功 ${result.probe.processed}，字幕转换 ${result.subtitles.converted}，封面生成 ${result.poster.generated}，失败 ${result.probe.failed + result.subtitles.failed + result.poster.failed}`
     }
   } catch (error) {
     if (context.signal.aborted) {
@@ -188,6 +224,29 @@ export async function executeVideoMediaProbe(
   }
 }
 
+/**
+ * Queues the video chain after a job that created media. The probe sweep
+ * classifies and probes the new files and then renders their posters, and
+ * keyframe discovery depends on it, so discovery only ever sees probed videos.
+ * If the probe fails, the queue skips discovery with PRECONDITION_NOT_MET.
+ */
+export async function enqueueVideoMediaFollowUps(
+  context: Pick<ExecutionContext<unknown, EnqueuedChildJob>, 'job' | 'enqueueChild'>
+): Promise<{ probe: EnqueuedChildJob; keyframeDiscovery: EnqueuedChildJob }> {
+  const probe = await context.enqueueChild({
+    type: 'VIDEO_MEDIA_PROBE',
+    payload: { force: false },
+    idempotencyKey: `video-media-probe:${context.job.id}`
+  })
+  const keyframeDiscovery = await context.enqueueChild({
+    type: 'VIDEO_KEYFRAME_DISCOVERY',
+    payload: { trigger: 'schedule', force: false, previewOnly: false, filter: {} },
+    idempotencyKey: `video-keyframe-discovery:${context.job.id}`,
+    dependsOnJobIds: [probe.id]
+  })
+  return { probe, keyframeDiscovery }
+}
+
 async function processPendingPosters(
   context: ProbeContext,
   dependencies: { database: VideoMediaDatabase; config: VideoMediaRuntimeConfig },
@@ -0,0 +1,175 @@
+import path from 'node:path'
+import { VideoMediaPermanentError } from './types.ts'
+
+export const SUBTITLE_SIDECAR_EXTENSIONS = ['.srt', '.ass', '.ssa', '.vtt'] as const
+export const MAX_SUBTITLE_SIDECAR_BYTES = 5 * 1024 * 1024
+
+// Bitmap codecs (PGS, DVD, DVB) cannot become WebVTT without OCR and are left alone.
+const TEXT_SUBTITLE_CODECS = new Set(['subrip', 'srt', 'ass', 'ssa', 'webvtt', 'mov_text', 'text'])
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})*$/i
+const SRT_TIMING_PATTERN =
+  /^\s*(\d{1,3}):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d{1,3}):(\d{2}):(\d{2})[,.](\d{1,3})(?:\s+.*)?$/
+const ASS_TIME_PATTERN = /^\s*(\d+):(\d{2}):(\d{2})[.:](\d{1,3})\s*$/
+
+export interface SidecarSubtitleMatch {
+  format: 'srt' | 'ass' | 'ssa' | 'vtt'
+  language: string | null
+  label: string | null
+}
+
+export interface EmbeddedSubtitleStream {
+  index: number
+  codec: string
+  language: string | null
+  title: string | null
+  isDefault: boolean
+}
+
+interface SubtitleCue {
+  start: number
+  end: number
+  text: string
+}
+
+/**
+ * Matches `<video stem>.srt` and `<video stem>.<tag>.srt`. A tag that looks like a BCP 47 language
+ * becomes the track language; anything else (e.g. `commentary`) becomes its label.
+ */
+export function matchSidecarSubtitle(videoFilename: string, candidateFilename: string): SidecarSubtitleMatch | null {
+  const extension = path.extname(candidateFilename).toLowerCase()
+  if (!(SUBTITLE_SIDECAR_EXTENSIONS as readonly string[]).includes(extension)) return null
+  const videoStem = path.parse(videoFilename).name
+  const candidateStem = candidateFilename.slice(0, -extension.length)
+  const format = extension.slice(1) as SidecarSubtitleMatch['format']
+  if (candidateStem === videoStem) return { format, language: null, label: null }
+  if (!candidateStem.startsWith(`${videoStem}.`)) return null
+  const tag = candidateStem.slice(videoStem.length + 1).trim()
+  if (!tag) return null
+  return LANGUAGE_TAG_PATTERN.test(tag)
+    ? { format, language: normalizeLanguage(tag), label: null }
+    : { format, language: null, label: tag.slice(0, 200) }
+}
+
+export function isTextSubtitleCodec(codec: string | null | undefined) {
+  return Boolean(codec && TEXT_SUBTITLE_CODECS.has(codec.toLowerCase()))
+}
+
+export function normalizeLanguage(value: string | null | undefined) {
+  if (!value || value.toLowerCase() === 'und') return null
+  return value.replace(/_/g, '-').slice(0, 35)
+}
+
+export function convertSubtitleToWebVtt(content: string, format: string): string {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  switch (format.toLowerCase()) {
+    case 'vtt':
+    case 'webvtt':
+      if (!/^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(normalized)) {
+        throw new VideoMediaPermanentError('PRECONDITION_FAILED', 'WebVTT subtitle is missing its header')
+      }
+      return normalized.endsWith('\n') ? normalized : `${normalized}\n`
+    case 'srt':
+    case 'subrip':
+      return renderWebVtt(parseSrt(normalized))
+    case 'ass':
+    case 'ssa':
+      return renderWebVtt(parseAss(normalized))
+    default:
+      throw new VideoMediaPermanentError('PRECONDITION_FAILED', `Unsupported subtitle format: ${format}`)
+  }
+}
+
+function parseSrt(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+  for (const block of content.split(/\n{2,}/)) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex((line) => SRT_TIMING_PATTERN.test(line))
+    // Only the optional numeric counter may precede the timing line.
+    if (timingIndex < 0 || timingIndex > 1) continue
+    const match = lines[timingIndex]!.match(SRT_TIMING_PATTERN)!
+    const start = toSeconds(match[1], match[2], match[3], match[4])
+    const end = toSeconds(match[5], match[6], match[7], match[8])
+    const text = lines
+      .slice(timingIndex + 1)
+      .join('\n')
+      .replace(/<\/?font[^>]*>/gi, '')
+      .trim()
+    if (text && end > start) cues.push({ start, end, text })
+  }
+  return cues
+}
+
+function parseAss(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = []
+  let inEvents = false
+  let fields: string[] = []
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim()
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]'
+      continue
+    }
+    if (!inEvents) continue
+    const separator = trimmed.indexOf(':')
+    if (separator < 0) continue
+    const key = trimmed.slice(0, separator).toLowerCase()
+    const value = trimmed.slice(separator + 1).trim()
+    if (key === 'format') {
+      fields = value.split(',').map((field) => field.trim().toLowerCase())
+      continue
+    }
+    if (key !== 'dialogue' || fields.length === 0) continue
+    // Text is always the last field and may itself contain commas.
+    const parts = value.split(',')
+    const values = [...parts.slice(0, fields.length - 1), parts.slice(fields.length - 1).join(',')]
+    const start = parseAssTime(values[fields.indexOf('start')])
+    const end = parseAssTime(values[fields.indexOf('end')])
+    const text = (values[fields.indexOf('text')] ?? '')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .trim()
+    if (start !== null && end !== null && text && end > start) cues.push({ start, end, text })
+  }
+  return cues.sort((left, right) => left.start - right.start || left.end - right.end)
+}
+
+function renderWebVtt(cues: SubtitleCue[]) {
+  if (cues.length === 0) throw new VideoMediaPermanentError('PRECONDITION_FAILED', 'Subtitle file has no cues')
+  return [
+    'WEBVTT',
+    '',
+    ...cues.flatMap((cue) => [
+      `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}`,
+      // A blank line or a literal arrow inside the payload would end or corrupt the cue.
+      cue.text.replace(/\n{2,}/g, '\n').replace(/-->/g, '→'),
+      ''
+    ])
+  ].join('\n')
+}
+
+function parseAssTime(value: string | undefined) {
+  const match = value?.match(ASS_TIME_PATTERN)
+  return match ? toSeconds(match[1], match[2], match[3], match[4]) : null
+}
+
+function toSeconds(
+  hours: string | undefined,
+  minutes: string | undefined,
+  seconds: string | undefined,
+  fraction: string | undefined
+) {
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction ?? '0'}`)
+}
+
+function formatTimestamp(value: number) {
+  const milliseconds = Math.round(value * 1000)
+  const hours = Math.floor(milliseconds / 3_600_000)
+  const minutes = Math.floor((milliseconds % 3_600_000) / 60_000)
+  const seconds = Math.floor((milliseconds % 60_000) / 1000)
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(milliseconds % 1000, 3)}`
+}
+
+function pad(value: number, length: number) {
+  return String(value).padStart(length, '0')
+}
@@ -0,0 +1,343 @@
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import type { EnqueuedChildJob, ExecutionContext, QueueSqlExecutor } from '@pixishelf/job-runtime'
+import type { Prisma } from '@pixishelf/db'
+import type { VideoMediaProbePayload } from './executors.ts'
+import { runMediaProcess } from './media-process.ts'
+import { resolvePosterOutput, resolveVideoSource } from './paths.ts'
+import {
+  MAX_SUBTITLE_SIDECAR_BYTES,
+  convertSubtitleToWebVtt,
+  matchSidecarSubtitle,
+  type EmbeddedSubtitleStream
+} from './subtitle-format.ts'
+import {
+  VideoMediaPermanentError,
+  type VideoMediaDatabase,
+  type VideoMediaRuntimeConfig,
+  type VideoMediaTransaction
+} from './types.ts'
+
+const SUBTITLE_BATCH_SIZE = 50
+const REMOVED_TRACK_GC_DELAY_MS = 60 * 60_000
+
+export type VideoSubtitleTransaction = Pick<Prisma.TransactionClient, 'mediaVideoSubtitleTrack' | 'derivedMediaGcEntry'>
+
+export interface VideoSubtitleTrackInput {
+  sourceKey: string
+  format: string
+  language: string | null
+  label: string | null
+  isDefault: boolean
+  /** Omitted when the caller cannot tell whether the source changed (the track is then kept as-is). */
+  fingerprint?: { size: bigint; mtimeMs: bigint }
+}
+
+export interface DiscoveredSubtitleSidecar {
+  relativePath: string
+  format: string
+  language: string | null
+  label: string | null
+  size: bigint
+  mtimeMs: bigint
+}
+
+export interface VideoSubtitleConversionResult {
+  total: number
+  converted: number
+  failed: number
+  failedSamples: Array<{ imageId: number; path: string; error: string }>
+}
+
+/**
+ * Reconciles one source kind of an image's tracks with what was just discovered: new tracks start
+ * PENDING, tracks whose source fingerprint changed are queued again, and vanished tracks are removed
+ * with their WebVTT handed to derived media GC.
+ */
+export async function syncVideoSubtitleTracks(
+  transaction: VideoSubtitleTransaction,
+  input: {
+    imageId: number
+    source: 'SIDECAR' | 'EMBEDDED'
+    tracks: readonly VideoSubtitleTrackInput[]
+    now: Date
+  }
+) {
+  const existing = await transaction.mediaVideoSubtitleTrack.findMany({
+    where: { imageId: input.imageId, source: input.source },
+    select: {
+      id: true,
+      sourceKey: true,
+      format: true,
+      language: true,
+      label: true,
+      isDefault: true,
+      status: true,
+      vttPath: true,
+      sourceSize: true,
+      sourceMtimeMs: true
+    }
+  })
+  const existingByKey = new Map(existing.map((track) => [track.sourceKey, track]))
+  const incomingKeys = new Set(input.tracks.map((track) => track.sourceKey))
+  let created = 0
+  for (const track of input.tracks) {
+    const previous = existingByKey.get(track.sourceKey)
+    const metadata = { format: track.format, language: track.language, label: track.label, isDefault: track.isDefault }
+    if (!previous) {
+      await transaction.mediaVideoSubtitleTrack.create({
+        data: { imageId: input.imageId, source: input.source, sourceKey: track.sourceKey, ...metadata }
+      })
+      created += 1
+      continue
+    }
+    const sourceChanged =
+      track.fingerprint !== undefined &&
+      previous.status !== 'PENDING' &&
+      (previous.sourceSize !== track.fingerprint.size || previous.sourceMtimeMs !== track.fingerprint.mtimeMs)
+    const metadataChanged =
+      previous.format !== metadata.format ||
+      previous.language !== metadata.language ||
+      previous.label !== metadata.label ||
+      previous.isDefault !== metadata.isDefault
+    if (sourceChanged || metadataChanged) {
+      await transaction.mediaVideoSubtitleTrack.update({
+        where: { id: previous.id },
+        data: { ...metadata, ...(sourceChanged ? { status: 'PENDING' as const, error: null } : {}) }
+      })
+    }
+  }
+  const removed = existing.filter((track) => !incomingKeys.has(track.sourceKey))
+  for (const track of removed) {
+    if (!track.vttPath) continue
+    await transaction.derivedMediaGcEntry.upsert({
+      where: { mediaKind_relativePath: { mediaKind: 'VIDEO_SUBTITLE', relativePath: track.vttPath } },
+      create: {
+        mediaKind: 'VIDEO_SUBTITLE',
+        relativePath: track.vttPath,
+        referenceType: 'MEDIA_VIDEO_SUBTITLE_TRACK',
+        referenceId: track.id,
+        reason: 'SUBTITLE_REMOVED',
+        status: 'PENDING',
+        notBefore: new Date(input.now.getTime() + REMOVED_TRACK_GC_DELAY_MS)
+      },
+      update: {
+        referenceType: 'MEDIA_VIDEO_SUBTITLE_TRACK',
+        referenceId: track.id,
+        reason: 'SUBTITLE_REMOVED',
+        status: 'PENDING',
+        notBefore: new Date(input.now.getTime() + REMOVED_TRACK_GC_DELAY_MS),
+        attempt: 0,
+        error: null,
+        deletedAt: null
+      }
+    })
+  }
+  if (removed.length > 0) {
+    await transaction.mediaVideoSubtitleTrack.deleteMany({ where: { id: { in: removed.map((track) => track.id) } } })
+  }
+  return { created, removed: removed.length }
+}
+
+export function sidecarSubtitleTrackInputs(sidecars: readonly DiscoveredSubtitleSidecar[]): VideoSubtitleTrackInput[] {
+  return sidecars.map((sidecar) => ({
+    sourceKey: sidecar.relativePath,
+    format: sidecar.format,
+    language: sidecar.language,
+    label: sidecar.label,
+    isDefault: false,
+    fingerprint: { size: sidecar.size, mtimeMs: sidecar.mtimeMs }
+  }))
+}
+
+export function embeddedSubtitleTrackInputs(
+  streams: readonly EmbeddedSubtitleStream[],
+  fingerprint: { size: bigint; mtimeMs: bigint }
+): VideoSubtitleTrackInput[] {
+  return streams.map((stream) => ({
+    sourceKey: `stream:${stream.index}`,
+    format: stream.codec,
+    language: stream.language,
+    label: stream.title?.slice(0, 200) ?? null,
+    isDefault: stream.isDefault,
+    fingerprint
+  }))
+}
+
+/** Lists sidecar subtitles next to an already resolved video, keyed by scan-root relative path. */
+export async function listSidecarSubtitles(scanRoot: string, sourcePath: string): Promise<DiscoveredSubtitleSidecar[]> {
+  const root = await fs.realpath(scanRoot)
+  const directory = path.dirname(sourcePath)
+  const sidecars: DiscoveredSubtitleSidecar[] = []
+  for (const name of (await fs.readdir(directory)).sort()) {
+    const match = matchSidecarSubtitle(path.basename(sourcePath), name)
+    if (!match) continue
+    const metadata = await fs.lstat(path.join(directory, name))
+    if (!metadata.isFile()) continue
+    sidecars.push({
+      relativePath: path.relative(root, path.join(directory, name)).split(path.sep).join('/'),
+      ...match,
+      size: BigInt(metadata.size),
+      mtimeMs: BigInt(Math.round(metadata.mtimeMs))
+    })
+  }
+  return sidecars
+}
+
+/**
+ * Converts every PENDING track (FAILED ones too on forced runs) into `<imageId>/<trackId>.vtt`.
+ * Output is replaced atomically, so a track that is refreshed keeps serving its previous WebVTT.
+ */
+export async function convertPendingVideoSubtitles(
+  context: ExecutionContext<VideoMediaProbePayload, EnqueuedChildJob>,
+  dependencies: { database: VideoMediaDatabase; config: VideoMediaRuntimeConfig; now?: () => Date }
+): Promise<VideoSubtitleConversionResult> {
+  const result: VideoSubtitleConversionResult = { total: 0, converted: 0, failed: 0, failedSamples: [] }
+  const storageRoot = dependencies.config.subtitleStorageRoot
+  if (!storageRoot) return result
+  const now = dependencies.now ?? (() => new Date())
+  const statuses = context.payload.force ? (['PENDING', 'FAILED'] as const) : (['PENDING'] as const)
+  const where: Prisma.MediaVideoSubtitleTrackWhereInput = {
+    status: { in: [...statuses] },
+    ...(context.payload.imageId ? { imageId: context.payload.imageId } : {})
+  }
+  result.total = await dependencies.database.mediaVideoSubtitleTrack.count({ where })
+  let cursor = ''
+  while (true) {
+    throwIfAborted(context.signal)
+    const batch = await dependencies.database.mediaVideoSubtitleTrack.findMany({
+      where: { ...where, id: { gt: cursor } },
+      orderBy: { id: 'asc' },
+      take: SUBTITLE_BATCH_SIZE,
+      select: {
+        id: true,
+        imageId: true,
+        source: true,
+        sourceKey: true,
+        format: true,
+        image: { select: { path: true } }
+      }
+    })
+    if (batch.length === 0) break
+    cursor = batch.at(-1)!.id
+    for (const track of batch) {
+      throwIfAborted(context.signal)
+      // Failures keep the fingerprint they saw so the next discovery only retries once the source changes.
+      const attempt: { fingerprint?: { size: bigint; mtimeMs: bigint } } = {}
+      try {
+        const converted = await convertTrack(track, dependencies.config, storageRoot, context.signal, attempt)
+        await context.mutateInTransaction<VideoMediaTransaction & QueueSqlExecutor>(async (transaction) => {
+          await transaction.mediaVideoSubtitleTrack.updateMany({
+            where: { id: track.id, status: { in: [...statuses] } },
+            data: {
+              status: 'COMPLETED',
+              vttPath: converted.vttPath,
+              sourceSize: converted.fingerprint.size,
+              sourceMtimeMs: converted.fingerprint.mtimeMs,
+              error: null,
+              convertedAt: now()
+            }
+          })
+        })
+        result.converted += 1
+      } catch (error) {
+        if (context.signal.aborted) throw error
+        const message = error instanceof Error ? error.message : 'Unknown subtitle conversion failure'
+        await context.mutateInTransaction<VideoMediaTransaction & QueueSqlExecutor>(async (transaction) => {
+          await transaction.mediaVideoSubtitleTrack.updateMany({
+            where: { id: track.id, status: { in: [...statuses] } },
+            data: {
+              status: 'FAILED',
+              error: message,
+              ...(attempt.fingerprint
+                ? { sourceSize: attempt.fingerprint.size, sourceMtimeMs: attempt.fingerprint.mtimeMs }
+                : {})
+            }
+          })
+        })
+        result.failed += 1
+        if (result.failedSamples.length < 20) {
+          result.failedSamples.push({ imageId: track.imageId, path: track.sourceKey, error: message })
+        }
+      }
+      await context.progress({
+        progress: 50,
+        stage: 'CONVERTING_SUBTITLES',
+        message: `已转换字幕 ${result.converted}/${result.total}，失败 ${result.failed}`
+      })
+    }
+  }
+  return result
+}
+
+async function convertTrack(
+  track: {
+    id: string
+    imageId: number
+    source: 'SIDECAR' | 'EMBEDDED'
+    sourceKey: string
+    format: string
+    image: { path: string }
+  },
+  config: VideoMediaRuntimeConfig,
+  storageRoot: string,
+  signal: AbortSignal,
+  attempt: { fingerprint?: { size: bigint; mtimeMs: bigint } }
+) {
+  const vttPath = `${track.imageId}/${track.id}.vtt`
+  const outputPath = await resolvePosterOutput(storageRoot, vttPath)
+  const temporaryPath = `${outputPath}.${process.pid}.tmp`
+  await fs.mkdir(path.dirname(outputPath), { recursive: true })
+  try {
+    let content: string
+    if (track.source === 'SIDECAR') {
+      const sidecar = await resolveVideoSource(config.scanRoot, track.sourceKey)
+      attempt.fingerprint = toFingerprint(sidecar.stat)
+      if (sidecar.stat.size > MAX_SUBTITLE_SIDECAR_BYTES) {
+        throw new VideoMediaPermanentError('PRECONDITION_FAILED', 'Subtitle sidecar exceeds the size limit')
+      }
+      content = convertSubtitleToWebVtt(await fs.readFile(sidecar.sourcePath, 'utf8'), track.format)
+    } else {
+      const streamIndex = Number(track.sourceKey.replace(/^stream:/, ''))
+      if (!Number.isSafeInteger(streamIndex) || streamIndex < 0) {
+        throw new VideoMediaPermanentError('PRECONDITION_FAILED', 'Embedded subtitle stream index is invalid')
+      }
+      const video = await resolveVideoSource(config.scanRoot, track.image.path)
+      attempt.fingerprint = toFingerprint(video.stat)
+      await runMediaProcess(
+        config.ffmpegPath ?? 'ffmpeg',
+        [
+          '-nostdin',
+          '-y',
+          '-hide_banner',
+          '-loglevel',
+          'error',
+          '-i',
+          video.sourcePath,
+          '-map',
+          `0:${streamIndex}`,
+          '-c:s',
+          'webvtt',
+          '-f',
+          'webvtt',
+          temporaryPath
+        ],
+        { timeoutMs: config.probeTimeoutMs ?? 60_000, signal }
+      )
+      content = convertSubtitleToWebVtt(await fs.readFile(temporaryPath, 'utf8'), 'vtt')
+    }
+    await fs.writeFile(temporaryPath, content, 'utf8')
+    await fs.rename(temporaryPath, outputPath)
+    return { vttPath, fingerprint: attempt.fingerprint }
+  } finally {
+    await fs.rm(temporaryPath, { force: true }).catch(() => undefined)
+  }
+}
+
+function toFingerprint(stat: { size: number; mtimeMs: number }) {
+  return { size: BigInt(stat.size), mtimeMs: BigInt(Math.round(stat.mtimeMs)) }
+}
+
+function throwIfAborted(signal: AbortSignal) {
+  if (signal.aborted) throw signal.reason ?? new Error('Video subtitle conversion was interrupted')
+}
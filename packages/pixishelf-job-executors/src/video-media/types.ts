@@ -2,7 +2,14 @@ import type { Prisma, PrismaClient } from '@pixishelf/db'
 
 export type VideoMediaDatabase = Pick<
   PrismaClient,
-  'image' | 'mediaVideoMetadata' | 'mediaChapterPreview' | 'derivedMediaGcEntry'
+  | 'image'
+  | 'mediaVideoMetadata'
+  | 'mediaChapterPreview'
+  | 'mediaVideoHlsSet'
+  | 'mediaVideoSubtitleTrack'
+  | 'mediaUgoiraAnimation'
+  | 'artworkExport'
+  | 'derivedMediaGcEntry'
 >
 
 export type VideoMediaTransaction = Prisma.TransactionClient
@@ -11,6 +18,13 @@ export interface VideoMediaRuntimeConfig {
   scanRoot: string
   posterStorageRoot: string
   chapterPreviewStorageRoot: string
+  hlsStorageRoot?: string
+  /** Subtitle extraction and conversion is skipped when no root is configured. */
+  subtitleStorageRoot?: string
+  /** Converted ugoira WebM files; only used to resolve UGOIRA_ANIMATION GC entries. */
+  ugoiraStorageRoot?: string
+  /** Finished artwork export archives; only used to resolve ARTWORK_EXPORT GC entries. */
+  exportStorageRoot?: string
   ffprobePath?: string
   ffmpegPath?: string
   probeTimeoutMs?: number
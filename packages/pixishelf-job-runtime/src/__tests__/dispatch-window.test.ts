@@ -55,6 +55,20 @@ describe('DispatchWindowPolicy', () => {
     ).toBe(false)
   })
 
+  it('allows interval and cron occurrences with their own deadline outside the window', () => {
+    const outsideWindow = new Date('2026-08-14T04:00:00.000Z')
+    const occurrence = {
+      triggerSource: 'SCHEDULE' as const,
+      effectivePriority: SCHEDULED_PRIORITY_MIN,
+      scheduledFor: new Date('2026-08-14T03:00:00.000Z'),
+      deadlineAt: new Date('2026-08-14T06:00:00.000Z')
+    }
+
+    expect(policy.canClaim(occurrence, outsideWindow)).toBe(true)
+    expect(policy.canClaim({ ...occurrence, deadlineAt: null }, outsideWindow)).toBe(false)
+    expect(policy.canClaim({ ...occurrence, effectivePriority: MANUAL_PRIORITY_MAX }, outsideWindow)).toBe(false)
+  })
+
   it('allows scheduled priority 100-999 only inside the automatic window', () => {
     const insideWindow = new Date('2026-08-13T18:00:00.000Z')
 
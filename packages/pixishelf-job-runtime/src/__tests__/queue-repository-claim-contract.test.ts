@@ -30,4 +30,51 @@ describe('PostgresQueueRepository claim contract', () => {
     expect(candidateQuery).toContain('archive_import."systemJobId" = job."id"')
     expect(candidateQuery).toContain('archive_import."cleanupRequestedAt" IS NOT NULL')
   })
+
+  it('stops before selecting a candidate while maintenance mode is enabled', async () => {
+    const queries: string[] = []
+    const transaction: QueueSqlExecutor = {
+      $queryRawUnsafe: vi.fn(async (query: string) => {
+        queries.push(query)
+        return query.includes('FROM "maintenance_mode_control"') ? [{ enabled: true }] : []
+      }) as QueueSqlExecutor['$queryRawUnsafe'],
+      $executeRawUnsafe: vi.fn().mockResolvedValue(0)
+    }
+    const database = {
+      ...transaction,
+      $transaction: (operation: (client: QueueSqlExecutor) => Promise<unknown>) => operation(transaction)
+    } as QueueDatabase
+
+    await expect(
+      new PostgresQueueRepository(database).claim('queue-contract-worker', archiveImportCapability)
+    ).resolves.toBeNull()
+
+    expect(queries.some((query) => query.includes('FROM "maintenance_mode_control"'))).toBe(true)
+    expect(queries.some((query) => query.includes('SELECT job."id", job."status"'))).toBe(false)
+  })
+
+  it('skips unsatisfiable dependents before selecting a candidate whose prerequisites all completed', async () => {
+    const queries: string[] = []
+    const transaction: QueueSqlExecutor = {
+      $queryRawUnsafe: vi.fn(async (query: string) => {
+        queries.push(query)
+        return []
+      }) as QueueSqlExecutor['$queryRawUnsafe'],
+      $executeRawUnsafe: vi.fn().mockResolvedValue(0)
+    }
+    const database = {
+      ...transaction,
+      $transaction: (operation: (client: QueueSqlExecutor) => Promise<unknown>) => operation(transaction)
+    } as QueueDatabase
+
+    await new PostgresQueueRepository(database).claim('queue-contract-worker', archiveImportCapability)
+
+    const skipIndex = queries.findIndex((query) => query.includes(`"skipReason" = 'PRECONDITION_NOT_MET'`))
+    const candidateIndex = queries.findIndex((query) => query.includes('SELECT job."id", job."status"'))
+    expect(skipIndex).toBeGreaterThanOrEqual(0)
+    expect(skipIndex).toBeLessThan(candidateIndex)
+    expect(queries[skipIndex]).toContain(`prerequisite."status" IN ('FAILED', 'CANCELLED', 'SKIPPED')`)
+    expect(queries[candidateIndex]).toContain('dependency."jobId" = job."id"')
+    expect(queries[candidateIndex]).toContain(`prerequisite."status" <> 'COMPLETED'`)
+  })
 })
@@ -46,6 +46,10 @@ describePostgres('PostgresQueueRepository integration', () => {
       where: { id: 'archive-resolve' },
       data: { paused: false, pausedAt: null, pausedBy: null }
     })
+    await client().maintenanceModeControl.update({
+      where: { id: 'maintenance' },
+      data: { enabled: false, enabledAt: null, enabledBy: null, reason: null }
+    })
   })
 
   afterAll(async () => {
@@ -219,6 +223,24 @@ describePostgres('PostgresQueueRepository integration', () => {
     await expect(createRepository(clock).claim('queue-kernel-paused-resolver', resolveCapabilities)).resolves.toBeNull()
   })
 
+  it('does not claim from either lane while maintenance mode is enabled', async () => {
+    await seedJob({ type: 'SCAN', effectivePriority: 10, triggerSource: 'MANUAL' })
+    await seedJob({
+      type: 'ARCHIVE_RESOLVE_ITEM',
+      executionLane: 'ARCHIVE_RESOLVE',
+      effectivePriority: 100,
+      triggerSource: 'SYSTEM'
+    })
+    await client().maintenanceModeControl.update({
+      where: { id: 'maintenance' },
+      data: { enabled: true, enabledAt: clockDate(), enabledBy: 'test', reason: 'backup' }
+    })
+    const repository = createRepository(clock)
+
+    await expect(repository.claim('queue-kernel-maintenance-writer', capabilities)).resolves.toBeNull()
+    await expect(repository.claim('queue-kernel-maintenance-resolver', resolveCapabilities)).resolves.toBeNull()
+  })
+
   it.each([
     [2, 'RETRY_WAIT'],
     [1, 'FAILED']
@@ -404,6 +426,50 @@ describePostgres('PostgresQueueRepository integration', () => {
     await repository.complete(fence(claimed!))
   })
 
+  it('holds a dependent job until its prerequisite completes', async () => {
+    const prerequisiteId = await seedJob({ type: 'SCAN', effectivePriority: 20 })
+    const dependentId = await seedJob({
+      type: 'VIDEO_MEDIA_PROBE',
+      effectivePriority: 5,
+      dependsOnJobIds: [prerequisiteId]
+    })
+    const repository = createRepository(clock)
+
+    const prerequisite = await repository.claim('queue-kernel-dependency-worker', capabilities)
+    expect(prerequisite?.id).toBe(prerequisiteId)
+    await repository.complete(fence(prerequisite!))
+
+    const dependent = await repository.claim('queue-kernel-dependency-worker', capabilities)
+    expect(dependent?.id).toBe(dependentId)
+    await repository.complete(fence(dependent!))
+  })
+
+  it('skips the whole downstream chain with PRECONDITION_NOT_MET when a prerequisite fails', async () => {
+    const prerequisiteId = await seedJob({ type: 'SCAN', effectivePriority: 10 })
+    const probeId = await seedJob({
+      type: 'VIDEO_MEDIA_PROBE',
+      effectivePriority: 10,
+      dependsOnJobIds: [prerequisiteId]
+    })
+    const followUpId = await seedJob({ type: 'VIDEO_MEDIA_PROBE', effectivePriority: 10, dependsOnJobIds: [probeId] })
+    const repository = createRepository(clock)
+
+    const prerequisite = await repository.claim('queue-kernel-dependency-failure', capabilities)
+    expect(prerequisite?.id).toBe(prerequisiteId)
+    await repository.fail({ ...fence(prerequisite!), errorCode: 'TEST', error: 'scan failed' })
+
+    expect(await repository.claim('queue-kernel-dependency-failure', capabilities)).toBeNull()
+    const skipped = await client().systemJob.findMany({
+      where: { id: { in: [probeId, followUpId] } },
+      select: { status: true, skipReason: true, events: { select: { type: true } } }
+    })
+    expect(skipped).toHaveLength(2)
+    for (const job of skipped) {
+      expect(job).toMatchObject({ status: 'SKIPPED', skipReason: 'PRECONDITION_NOT_MET' })
+      expect(job.events.map((event) => event.type)).toContain('job.skipped')
+    }
+  })
+
   it('orders equal-priority candidates by availableAt before creation order', async () => {
     const createdAt = new Date('2026-08-13T17:00:00.000Z')
     await seedJob({
@@ -1653,6 +1719,7 @@ async function seedJob(input: {
   createdAt?: Date
   availableAt?: Date
   triggerSource?: 'MANUAL' | 'SYSTEM'
+  dependsOnJobIds?: string[]
 }): Promise<string> {
   const id = `${testPrefix}-${randomUUID()}`
   const createdAt = input.createdAt ?? clockDate()
@@ -1669,7 +1736,10 @@ async function seedJob(input: {
       availableAt: input.availableAt ?? createdAt,
       maxAttempts: input.maxAttempts ?? 3,
       createdAt,
-      updatedAt: createdAt
+      updatedAt: createdAt,
+      ...(input.dependsOnJobIds
+        ? { dependencies: { create: input.dependsOnJobIds.map((dependsOnJobId) => ({ dependsOnJobId })) } }
+        : {})
     }
   })
   return id
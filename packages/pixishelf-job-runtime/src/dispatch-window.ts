@@ -23,6 +23,7 @@ export interface DispatchCandidate {
   triggerSource: JobTriggerSource
   effectivePriority: number
   deadlineAt?: Date | null
+  scheduledFor?: Date | null
 }
 
 export class DispatchWindowPolicy {
@@ -98,6 +99,17 @@ export class DispatchWindowPolicy {
       return true
     }
 
+    // INTERVAL/CRON occurrences carry their own [availableAt, deadlineAt) window instead of the daily one
+    if (
+      candidate.triggerSource === 'SCHEDULE' &&
+      candidate.scheduledFor != null &&
+      candidate.deadlineAt != null &&
+      candidate.effectivePriority >= SCHEDULED_PRIORITY_MIN &&
+      candidate.effectivePriority <= SCHEDULED_PRIORITY_MAX
+    ) {
+      return true
+    }
+
     return (
       candidate.triggerSource !== 'LEGACY' &&
       candidate.effectivePriority >= SCHEDULED_PRIORITY_MIN &&
@@ -12,6 +12,7 @@ export interface ChildJobRequest<TPayload = unknown> {
   payload: TPayload
   queuePriority?: number
   idempotencyKey?: string
+  dependsOnJobIds?: readonly string[]
 }
 
 export interface ExecutionLogger {
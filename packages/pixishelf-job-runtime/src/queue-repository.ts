@@ -12,6 +12,7 @@ import {
   executionLaneSchema,
   JOB_DEFINITION_VERSION,
   jobTypeSchema,
+  MAX_JOB_DEPENDENCIES,
   jsonValueSchema,
   parseJobPayload
 } from '@pixishelf/job-contracts'
@@ -152,6 +153,8 @@ export interface EnqueueChildInput {
   deadlineAt?: Date | null
   idempotencyKey?: string
   maxAttempts?: number
+  /** Jobs that must complete before the child can be claimed. */
+  dependsOnJobIds?: readonly string[]
 }
 
 export interface EnqueuedChildJob {
@@ -306,6 +309,17 @@ export class PostgresQueueRepository {
       await this.acquireDispatcherTransactionLock(transaction, executionLane)
       await this.recoverExpiredExecutionInTransaction(transaction, now, executionLane)
       await this.skipExpiredScheduledJobsInTransaction(transaction, now)
+      await this.skipUnsatisfiableDependentsInTransaction(transaction, now)
+
+      // Maintenance mode quiesces every lane; running executions finish normally but nothing new starts.
+      const maintenance = await transaction.$queryRawUnsafe<Array<{ enabled: boolean }>>(
+        `SELECT "enabled"
+         FROM "maintenance_mode_control"
+         WHERE "id" = 'maintenance'
+         LIMIT 1
+         FOR SHARE`
+      )
+      if (maintenance[0]?.enabled) return null
 
       if (executionLane === 'ARCHIVE_RESOLVE') {
         const controls = await transaction.$queryRawUnsafe<Array<{ paused: boolean }>>(
@@ -383,6 +397,13 @@ export class PostgresQueueRepository {
            )
            AND "attempt" < "maxAttempts"
            AND "cancelRequestedAt" IS NULL
+           AND NOT EXISTS (
+             SELECT 1
+             FROM "system_job_dependencies" AS dependency
+             INNER JOIN "system_jobs" AS prerequisite ON prerequisite."id" = dependency."dependsOnJobId"
+             WHERE dependency."jobId" = job."id"
+               AND prerequisite."status" <> 'COMPLETED'
+           )
            AND (
              job."type" <> 'ARCHIVE_IMPORT'
              OR NOT EXISTS (
@@ -414,6 +435,12 @@ export class PostgresQueueRepository {
                AND "deadlineAt" IS NULL
                AND "effectivePriority" BETWEEN 100 AND 999
              )
+             OR (
+               "triggerSource" = 'SCHEDULE'
+               AND "scheduledFor" IS NOT NULL
+               AND "deadlineAt" IS NOT NULL
+               AND "effectivePriority" BETWEEN 100 AND 999
+             )
              OR (
                $2::boolean
                AND "triggerSource" NOT IN ('MANUAL', 'RETRY', 'LEGACY')
@@ -649,6 +676,10 @@ export class PostgresQueueRepository {
     if (input.idempotencyKey && input.idempotencyKey.length > 180) {
       throw new Error('Child idempotencyKey cannot exceed 180 characters')
     }
+    const dependsOnJobIds = [...new Set(input.dependsOnJobIds ?? [])].sort()
+    if (dependsOnJobIds.length > MAX_JOB_DEPENDENCIES || dependsOnJobIds.some((jobId) => jobId.length === 0)) {
+      throw new Error(`Child dependsOnJobIds must contain at most ${MAX_JOB_DEPENDENCIES} non-empty job ids`)
+    }
 
     const now = this.clock.now()
     const availableAt = input.availableAt ?? now
@@ -697,6 +728,21 @@ export class PostgresQueueRepository {
       )
       const inserted = insertedRows[0]
       if (inserted) {
+        if (dependsOnJobIds.length > 0) {
+          const dependencyRows = await transaction.$queryRawUnsafe<Array<{ dependsOnJobId: string }>>(
+            `INSERT INTO "system_job_dependencies" ("jobId", "dependsOnJobId", "createdAt")
+             SELECT $1, prerequisite."id", $3
+             FROM "system_jobs" AS prerequisite
+             WHERE prerequisite."id" = ANY($2::text[])
+             RETURNING "dependsOnJobId"`,
+            inserted.id,
+            dependsOnJobIds,
+            now
+          )
+          if (dependencyRows.length !== dependsOnJobIds.length) {
+            throw new Error('Child dependsOnJobIds reference a job that does not exist')
+          }
+        }
         await this.insertEvent(transaction, {
           jobId: inserted.id,
           type: 'job.queued',
@@ -704,7 +750,10 @@ export class PostgresQueueRepository {
           attempt: 0,
           workerId: parentFence.workerId,
           message: `Child job queued by ${parentFence.jobId}`,
-          data: { parentJobId: parentFence.jobId },
+          data: {
+            parentJobId: parentFence.jobId,
+            ...(dependsOnJobIds.length > 0 ? { dependsOnJobIds } : {})
+          },
           now
         })
         return { id: inserted.id, created: true }
@@ -726,22 +775,30 @@ export class PostgresQueueRepository {
           queuePriority: number
           effectivePriority: number
           maxAttempts: number
+          dependenciesMatch: boolean
         }>
       >(
         `SELECT
-           "id", "type", "executionLane", "definitionVersion", "parentJobId",
-           "payload" IS NOT DISTINCT FROM $2::jsonb AS "payloadMatches",
-           "deadlineAt" IS NOT DISTINCT FROM $3 AS "deadlineMatches",
-           (NOT $4::boolean OR "availableAt" IS NOT DISTINCT FROM $5) AS "availableMatches",
-           "queuePriority", "effectivePriority", "maxAttempts"
-         FROM "system_jobs"
-         WHERE "idempotencyKey" = $1
+           job."id", job."type", job."executionLane", job."definitionVersion", job."parentJobId",
+           job."payload" IS NOT DISTINCT FROM $2::jsonb AS "payloadMatches",
+           job."deadlineAt" IS NOT DISTINCT FROM $3 AS "deadlineMatches",
+           (NOT $4::boolean OR job."availableAt" IS NOT DISTINCT FROM $5) AS "availableMatches",
+           job."queuePriority", job."effectivePriority", job."maxAttempts",
+           ARRAY(
+             SELECT dependency."dependsOnJobId"
+             FROM "system_job_dependencies" AS dependency
+             WHERE dependency."jobId" = job."id"
+             ORDER BY dependency."dependsOnJobId" COLLATE "C"
+           ) = $6::text[] AS "dependenciesMatch"
+         FROM "system_jobs" AS job
+         WHERE job."idempotencyKey" = $1
          LIMIT 1`,
         input.idempotencyKey,
         toJsonParameter(normalizedPayload),
         input.deadlineAt ?? null,
         input.availableAt !== undefined,
-        input.availableAt ?? null
+        input.availableAt ?? null,
+        dependsOnJobIds
       )
       const existing = existingRows[0]
       if (!existing) {
@@ -757,7 +814,8 @@ export class PostgresQueueRepository {
         !existing.availableMatches ||
         existing.queuePriority !== queuePriority ||
         existing.effectivePriority !== effectivePriority ||
-        existing.maxAttempts !== maxAttempts
+        existing.maxAttempts !== maxAttempts ||
+        !existing.dependenciesMatch
       ) {
         throw new Error(
           `Child idempotency key ${input.idempotencyKey} conflicts with different job definition, payload, schedule, attempts, or parent semantics`
@@ -1560,6 +1618,54 @@ export class PostgresQueueRepository {
     return skippedRows.map(({ id }) => id)
   }
 
+  private async skipUnsatisfiableDependentsInTransaction(transaction: QueueSqlExecutor, now: Date): Promise<string[]> {
+    // A prerequisite that ended without COMPLETED can never unblock its dependents; the recursive
+    // walk skips the whole downstream chain in one statement instead of one level per claim.
+    const skippedRows = await transaction.$queryRawUnsafe<Array<{ id: string }>>(
+      `WITH RECURSIVE unsatisfiable AS (
+         SELECT dependency."jobId"
+         FROM "system_job_dependencies" AS dependency
+         INNER JOIN "system_jobs" AS prerequisite ON prerequisite."id" = dependency."dependsOnJobId"
+         WHERE prerequisite."status" IN ('FAILED', 'CANCELLED', 'SKIPPED')
+         UNION
+         SELECT dependency."jobId"
+         FROM "system_job_dependencies" AS dependency
+         INNER JOIN unsatisfiable ON unsatisfiable."jobId" = dependency."dependsOnJobId"
+       ), skipped AS (
+         UPDATE "system_jobs"
+         SET
+           "status" = 'SKIPPED',
+           "skipReason" = 'PRECONDITION_NOT_MET',
+           "skippedAt" = $1,
+           "finishedAt" = $1,
+           "message" = 'A prerequisite job did not complete',
+           "workerId" = NULL,
+           "leaseToken" = NULL,
+           "leaseExpiresAt" = NULL,
+           "updatedAt" = $1
+         WHERE "definitionVersion" > 0
+           AND "status" IN ('PENDING', 'RETRY_WAIT')
+           AND "id" IN (SELECT "jobId" FROM unsatisfiable)
+         RETURNING "id", "attempt"
+       ), inserted_events AS (
+         INSERT INTO "system_job_events" (
+           "jobId", "type", "level", "attempt", "message", "data", "createdAt"
+         )
+         SELECT
+           "id", 'job.skipped', 'WARN', "attempt",
+           'A prerequisite job did not complete',
+           '{"reason":"PRECONDITION_NOT_MET"}'::jsonb,
+           $1
+         FROM skipped
+         RETURNING "jobId"
+       )
+       SELECT "jobId" AS "id" FROM inserted_events ORDER BY "jobId"`,
+      now
+    )
+
+    return skippedRows.map(({ id }) => id)
+  }
+
   private async ageEligibleCandidatesInTransaction(
     transaction: QueueSqlExecutor,
     now: Date,
@@ -1594,6 +1700,13 @@ export class PostgresQueueRepository {
                  SELECT jsonb_array_elements_text(capability->'definitionVersions')::integer
                )
            )
+           AND NOT EXISTS (
+             SELECT 1
+             FROM "system_job_dependencies" AS dependency
+             INNER JOIN "system_jobs" AS prerequisite ON prerequisite."id" = dependency."dependsOnJobId"
+             WHERE dependency."jobId" = "system_jobs"."id"
+               AND prerequisite."status" <> 'COMPLETED'
+           )
            AND (
              "status" = 'PENDING'
              OR (
@@ -1616,6 +1729,12 @@ export class PostgresQueueRepository {
                AND "deadlineAt" IS NULL
                AND "queuePriority" BETWEEN 100 AND 999
              )
+             OR (
+               "triggerSource" = 'SCHEDULE'
+               AND "scheduledFor" IS NOT NULL
+               AND "deadlineAt" IS NOT NULL
+               AND "queuePriority" BETWEEN 100 AND 999
+             )
              OR (
                $2::boolean
                AND "triggerSource" NOT IN ('MANUAL', 'RETRY', 'LEGACY')
@@ -14,6 +14,7 @@ describe('worker config', () => {
     expect(parseWorkerConfig(requiredEnvironment)).toMatchObject({
       ffmpegPath: 'ffmpeg',
       ffprobePath: 'ffprobe',
+      sevenZipPath: '7z',
       keyframeFfmpegThreads: 2,
       archiveMaxMediaBytes: 512 * 1024 * 1024,
       scanDiscoveryMaxEntries: 10_000_000,
@@ -26,7 +27,9 @@ describe('worker config', () => {
       jobHeartbeatIntervalMs: 20_000,
       queueTransactionMaxWaitMs: 5_000,
       queueTransactionTimeoutMs: 30_000,
-      dispatchDrainGraceMs: 30_000
+      dispatchDrainGraceMs: 30_000,
+      notificationPollIntervalMs: 5_000,
+      notificationTimeoutMs: 10_000
     })
     expect(
       parseWorkerConfig({
@@ -48,6 +51,7 @@ describe('worker config', () => {
     expect(() => parseWorkerConfig({ ...requiredEnvironment, WORKER_SERVICE_VERSION: 'x'.repeat(51) })).toThrow()
     expect(() => parseWorkerConfig({ ...requiredEnvironment, KEYFRAME_FFMPEG_THREADS: '9' })).toThrow()
     expect(() => parseWorkerConfig({ ...requiredEnvironment, ARCHIVE_MAX_MEDIA_BYTES: '0' })).toThrow()
+    expect(() => parseWorkerConfig({ ...requiredEnvironment, WORKER_NOTIFICATION_TIMEOUT_MS: '60001' })).toThrow()
     expect(() => parseWorkerConfig({ ...requiredEnvironment, SCAN_DISCOVERY_MAX_ENTRIES: '100000001' })).toThrow()
     expect(() =>
       parseWorkerConfig({ ...requiredEnvironment, SCAN_DISCOVERY_EXCLUDED_ROOT_DIRECTORIES: '../sources' })
@@ -64,11 +64,11 @@ describe('Worker deployment boundary', () => {
     expect(workflow).not.toContain('worker-preview')
   })
 
-  it('installs FFmpeg and FFprobe in the production Worker image', () => {
+  it('installs FFmpeg, FFprobe and 7-Zip in the production Worker image', () => {
     const dockerfile = readFileSync(new URL('build/worker.Dockerfile', repositoryRoot), 'utf8')
     expect(dockerfile).toContain('COPY packages/pixishelf-job-executors')
     const productionStage = dockerfile.slice(dockerfile.indexOf('FROM node:20-alpine AS production'))
-    expect(productionStage).toContain('apk add --no-cache openssl ffmpeg tini')
+    expect(productionStage).toContain('apk add --no-cache openssl ffmpeg tini 7zip')
   })
 
   it('publishes both execution lanes from the sole production Worker', () => {
@@ -99,7 +99,7 @@ describe('Worker deployment boundary', () => {
     expect(nextPackage).not.toContain('archive:worker')
   })
 
-  it('ships the read-only 20-job capability audit and documents it as a deployment gate', () => {
+  it('ships the read-only 26-job capability audit and documents it as a deployment gate', () => {
     const buildScript = readFileSync(new URL('packages/pixishelf-worker/scripts/build.mjs', repositoryRoot), 'utf8')
     const runbook = readFileSync(new URL('docs/design/background-task-runbook.md', repositoryRoot), 'utf8')
     expect(buildScript).toContain("'capability-audit': 'src/capability-audit.ts'")
@@ -115,7 +115,7 @@ describe('ExecutorRegistry', () => {
     ).toThrow('must register in ARCHIVE_RESOLVE')
   })
 
-  it('locks the production Worker to 20 job capabilities and 22 type/version combinations', () => {
+  it('locks the production Worker to 26 job capabilities and 28 type/version combinations', () => {
     const registry = createWorkerExecutorRegistry({
       database: {} as PrismaClient,
       config: {
@@ -127,12 +127,13 @@ describe('ExecutorRegistry', () => {
         scanDiscoveryExcludedRootDirectories: ['local-imports', 'sources', '.archive-staging', '.trash'],
         ffmpegPath: 'ffmpeg',
         ffprobePath: 'ffprobe',
+        sevenZipPath: '7z',
         keyframeFfmpegThreads: 2
       }
     })
 
     const capabilities = registry.capabilities()
-    expect(capabilities).toHaveLength(20)
+    expect(capabilities).toHaveLength(26)
     expect(capabilities).toEqual(PRODUCTION_WORKER_CAPABILITIES)
     expect(capabilities.find((capability) => capability.jobType === 'SCAN')?.definitionVersions).toEqual([1, 2, 3])
     expect(
@@ -153,19 +154,26 @@ describe('ExecutorRegistry', () => {
         scanDiscoveryExcludedRootDirectories: ['incoming'],
         ffmpegPath: '/usr/bin/ffmpeg',
         ffprobePath: '/usr/bin/ffprobe',
+        sevenZipPath: '/usr/bin/7z',
         keyframeFfmpegThreads: 3
       })
     ).toEqual({
       sourceMediaRoot: '/media/source',
       archiveRoot: '/media/archive',
+      archiveManifestRoot: null,
       archiveMaxMediaBytes: 512 * 1024 * 1024,
       scanDiscoveryMaxEntries: 25_000_000,
       scanDiscoveryExcludedRootDirectories: ['incoming'],
       posterStorageRoot: path.join('/media/derived', 'video', 'posters'),
       chapterPreviewRoot: path.join('/media/derived', 'video', 'chapters'),
       keyframeStorageRoot: path.join('/media/derived', 'video', 'keyframes'),
+      hlsStorageRoot: path.join('/media/derived', 'video', 'hls'),
+      subtitleStorageRoot: path.join('/media/derived', 'video', 'subtitles'),
+      ugoiraStorageRoot: path.join('/media/derived', 'ugoira'),
+      exportStorageRoot: path.join('/media/derived', 'exports'),
       ffmpegPath: '/usr/bin/ffmpeg',
       ffprobePath: '/usr/bin/ffprobe',
+      sevenZipPath: '/usr/bin/7z',
       ffmpegThreads: 3
     })
   })
@@ -0,0 +1,148 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ClaimedNotificationDelivery, NotificationDeliveryStorePort } from '../notification-delivery-store.js'
+import { NotificationDispatcher, notificationRetryDelayMs } from '../notification-dispatcher.js'
+
+const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+let server: Server | undefined
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+  server = undefined
+  vi.clearAllMocks()
+})
+
+async function startSink(statuses: number[]) {
+  const received: string[] = []
+  const sink = createServer((request, response) => {
+    let body = ''
+    request.on('data', (chunk: Buffer) => (body += chunk.toString('utf8')))
+    request.on('end', () => {
+      received.push(body)
+      response.writeHead(statuses.shift() ?? 204, { Connection: 'close' })
+      response.end()
+    })
+  })
+  server = sink
+  await new Promise<void>((resolve) => sink.listen(0, '127.0.0.1', resolve))
+  return { received, url: `http://127.0.0.1:${(sink.address() as AddressInfo).port}/hook` }
+}
+
+/** In-memory stand-in for the SQL store that honours the attempt fence. */
+function memoryStore(delivery: Omit<ClaimedNotificationDelivery, 'attempt'>) {
+  const row = {
+    ...delivery,
+    attempt: 0,
+    status: 'PENDING',
+    nextAttemptAt: new Date(0),
+    lastError: null as string | null
+  }
+  const store: NotificationDeliveryStorePort = {
+    claim: vi.fn(async (now: Date, _limit: number, leaseExpiresAt: Date) => {
+      if (row.status === 'DELIVERED' || row.status === 'FAILED' || row.nextAttemptAt > now) return []
+      row.status = 'SENDING'
+      row.attempt += 1
+      row.nextAttemptAt = leaseExpiresAt
+      return [{ ...delivery, attempt: row.attempt }]
+    }),
+    markDelivered: vi.fn(async ({ attempt }) => {
+      if (attempt === row.attempt) row.status = 'DELIVERED'
+    }),
+    markFailed: vi.fn(async ({ attempt }, error: string, _now: Date, retryAt: Date | null) => {
+      if (attempt !== row.attempt) return
+      row.status = retryAt ? 'RETRY_WAIT' : 'FAILED'
+      row.nextAttemptAt = retryAt ?? row.nextAttemptAt
+      row.lastError = error
+    }),
+    pruneSettled: vi.fn(async () => 0)
+  }
+  return { row, store }
+}
+
+function delivery(url: string): Omit<ClaimedNotificationDelivery, 'attempt'> {
+  return {
+    id: '12',
+    eventType: 'job.failed',
+    channelId: 'channel-1',
+    channelName: 'ops',
+    kind: 'WEBHOOK',
+    config: { url, secret: 'shared-secret' },
+    payload: {
+      eventId: '41',
+      eventType: 'job.failed',
+      level: 'ERROR',
+      message: 'Archive import failed',
+      stage: null,
+      attempt: 1,
+      data: null,
+      occurredAt: '2026-10-08T18:00:00.000Z',
+      job: null
+    }
+  }
+}
+
+describe('notification dispatcher', () => {
+  it('retries a failed delivery with backoff until the sink accepts it', async () => {
+    const sink = await startSink([500])
+    const { row, store } = memoryStore(delivery(sink.url))
+    let now = new Date('2026-10-08T18:00:00.000Z')
+    const dispatcher = new NotificationDispatcher({
+      enabled: true,
+      store,
+      logger,
+      pollIntervalMs: 1_000,
+      requestTimeoutMs: 2_000,
+      retryBaseDelayMs: 30_000,
+      timing: { now: () => now, sleep: vi.fn() }
+    })
+
+    await expect(dispatcher.runOnce()).resolves.toBe(1)
+    expect(row).toMatchObject({
+      status: 'RETRY_WAIT',
+      attempt: 1,
+      nextAttemptAt: new Date('2026-10-08T18:00:30.000Z'),
+      lastError: 'HTTP 500:'
+    })
+    await expect(dispatcher.runOnce()).resolves.toBe(0)
+
+    now = new Date('2026-10-08T18:00:30.000Z')
+    await expect(dispatcher.runOnce()).resolves.toBe(1)
+    expect(row).toMatchObject({ status: 'DELIVERED', attempt: 2 })
+    expect(sink.received).toHaveLength(2)
+    expect(JSON.parse(sink.received[1]!)).toMatchObject({ deliveryId: '12', eventType: 'job.failed' })
+  })
+
+  it('marks a delivery failed once its attempts are exhausted', async () => {
+    const { row, store } = memoryStore({ ...delivery('http://127.0.0.1:9/hook'), kind: 'SMTP', config: {} })
+    const dispatcher = new NotificationDispatcher({
+      enabled: true,
+      store,
+      logger,
+      pollIntervalMs: 1_000,
+      requestTimeoutMs: 2_000,
+      maxAttempts: 1,
+      timing: { now: () => new Date('2026-10-08T18:00:00.000Z'), sleep: vi.fn() }
+    })
+
+    await dispatcher.runOnce()
+
+    expect(row.status).toBe('FAILED')
+    expect(store.markFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 1 }),
+      expect.any(String),
+      expect.any(Date),
+      null
+    )
+    expect(logger.warn).toHaveBeenCalledWith(
+      'worker.notification_failed',
+      expect.objectContaining({ deliveryId: '12' })
+    )
+  })
+
+  it('doubles the retry delay per attempt up to the cap', () => {
+    expect([1, 2, 3, 10].map((attempt) => notificationRetryDelayMs(attempt, 30_000, 3_600_000))).toEqual([
+      30_000, 60_000, 120_000, 3_600_000
+    ])
+  })
+})
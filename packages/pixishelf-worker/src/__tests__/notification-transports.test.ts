@@ -0,0 +1,230 @@
+import { createServer as createHttpServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import { createServer as createTcpServer, type AddressInfo, type Server as TcpServer } from 'node:net'
+import { afterEach, describe, expect, it } from 'vitest'
+import type { NotificationPayload } from '@pixishelf/job-contracts'
+import { sendNotification, signWebhookBody, type NotificationEnvelope } from '../notification-transports.js'
+import { sendSmtpMail } from '../smtp-client.js'
+
+interface SinkRequest {
+  method: string | undefined
+  url: string | undefined
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+const payload: NotificationPayload = {
+  eventId: '41',
+  eventType: 'job.failed',
+  level: 'ERROR',
+  message: 'Archive import failed',
+  stage: 'IMPORT',
+  attempt: 3,
+  data: null,
+  occurredAt: '2026-10-08T18:00:00.000Z',
+  job: {
+    id: 'job-1',
+    type: 'ARCHIVE_IMPORT',
+    status: 'FAILED',
+    triggerSource: 'SCHEDULE',
+    errorCode: 'EXECUTION_FAILED',
+    error: 'manifest missing'
+  }
+}
+const envelope: NotificationEnvelope = { deliveryId: '7', channelName: 'ops', payload }
+const now = () => new Date('2026-10-08T18:00:05.000Z')
+
+let server: Server | TcpServer | undefined
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+  server = undefined
+})
+
+async function startHttpSink(status = 204) {
+  const requests: SinkRequest[] = []
+  const sink = createHttpServer((request, response) => {
+    let body = ''
+    request.setEncoding('utf8')
+    request.on('data', (chunk: string) => (body += chunk))
+    request.on('end', () => {
+      requests.push({ method: request.method, url: request.url, headers: request.headers, body })
+      response.writeHead(status, { Connection: 'close' })
+      response.end(status >= 400 ? 'upstream unavailable' : '')
+    })
+  })
+  server = sink
+  await new Promise<void>((resolve) => sink.listen(0, '127.0.0.1', resolve))
+  return { requests, baseUrl: `http://127.0.0.1:${(sink.address() as AddressInfo).port}` }
+}
+
+/** Accepts one message per connection and records the raw SMTP dialogue. */
+async function startSmtpSink() {
+  const commands: string[] = []
+  const messages: string[] = []
+  const sink = createTcpServer((socket) => {
+    let buffer = ''
+    let data: string[] | null = null
+    socket.setEncoding('utf8')
+    socket.write('220 sink ESMTP\r\n')
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      let index = buffer.indexOf('\r\n')
+      while (index >= 0) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        index = buffer.indexOf('\r\n')
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'))
+            data = null
+            socket.write('250 queued\r\n')
+          } else {
+            data.push(line)
+          }
+          continue
+        }
+        commands.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-sink\r\n250 AUTH PLAIN LOGIN\r\n')
+        else if (line.startsWith('AUTH PLAIN')) socket.write('235 ok\r\n')
+        else if (line === 'DATA') {
+          data = []
+          socket.write('354 go ahead\r\n')
+        } else if (line === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  server = sink
+  await new Promise<void>((resolve) => sink.listen(0, '127.0.0.1', resolve))
+  return { commands, messages, port: (sink.address() as AddressInfo).port }
+}
+
+/** Accepts connections but never answers, like a relay behind a black-holing firewall. */
+async function startSilentListener() {
+  const closed: Promise<void>[] = []
+  const sink = createTcpServer((socket) => {
+    closed.push(new Promise((resolve) => socket.once('close', () => resolve())))
+    // Reads and discards the client's bytes so its disconnect is noticed.
+    socket.resume()
+  })
+  server = sink
+  await new Promise<void>((resolve) => sink.listen(0, '127.0.0.1', resolve))
+  return { closed, port: (sink.address() as AddressInfo).port }
+}
+
+const silentMessage = {
+  host: '127.0.0.1',
+  security: 'TLS' as const,
+  from: 'pixishelf@example.test',
+  to: ['ops@example.test'],
+  subject: 'Archive import failed',
+  text: 'Archive import failed'
+}
+
+describe('notification transports', () => {
+  it('posts signed webhook JSON that the receiver can verify', async () => {
+    const sink = await startHttpSink()
+
+    await sendNotification(
+      { kind: 'WEBHOOK', config: { url: `${sink.baseUrl}/hooks/pixishelf`, secret: 'shared-secret' } },
+      envelope,
+      { timeoutMs: 2_000, now }
+    )
+
+    const [request] = sink.requests
+    expect(request).toMatchObject({ method: 'POST', url: '/hooks/pixishelf' })
+    expect(request!.headers['x-pixishelf-delivery']).toBe('7')
+    expect(request!.headers['x-pixishelf-timestamp']).toBe('1791482405')
+    expect(request!.headers['x-pixishelf-signature']).toBe(
+      signWebhookBody('shared-secret', '1791482405', request!.body)
+    )
+    expect(JSON.parse(request!.body)).toMatchObject({
+      deliveryId: '7',
+      channel: 'ops',
+      eventType: 'job.failed',
+      job: { id: 'job-1', type: 'ARCHIVE_IMPORT' }
+    })
+  })
+
+  it('formats ntfy and Gotify messages with priority mapped from the event level', async () => {
+    const sink = await startHttpSink(200)
+
+    await sendNotification({ kind: 'NTFY', config: { url: `${sink.baseUrl}/alerts`, token: 'tk' } }, envelope, {
+      timeoutMs: 2_000
+    })
+    await sendNotification({ kind: 'GOTIFY', config: { url: `${sink.baseUrl}/gotify/`, token: 'app' } }, envelope, {
+      timeoutMs: 2_000
+    })
+
+    const [ntfy, gotify] = sink.requests
+    expect(ntfy).toMatchObject({ url: '/alerts', headers: { priority: '5', authorization: 'Bearer tk' } })
+    expect(ntfy!.body).toContain('Archive import failed')
+    expect(ntfy!.body).toContain('Error EXECUTION_FAILED: manifest missing')
+    expect(gotify).toMatchObject({ url: '/gotify/message', headers: { 'x-gotify-key': 'app' } })
+    expect(JSON.parse(gotify!.body)).toMatchObject({ title: 'PixiShelf ARCHIVE_IMPORT: job.failed', priority: 8 })
+  })
+
+  it('surfaces non-2xx responses as retryable transport errors', async () => {
+    const sink = await startHttpSink(503)
+
+    await expect(
+      sendNotification({ kind: 'WEBHOOK', config: { url: sink.baseUrl } }, envelope, { timeoutMs: 2_000 })
+    ).rejects.toMatchObject({ name: 'NotificationTransportError', status: 503 })
+    expect(sink.requests[0]!.headers['x-pixishelf-signature']).toBeUndefined()
+  })
+
+  it('delivers mail through a plain SMTP relay with AUTH PLAIN', async () => {
+    const sink = await startSmtpSink()
+
+    await sendSmtpMail(
+      {
+        host: '127.0.0.1',
+        port: sink.port,
+        security: 'NONE',
+        username: 'relay',
+        password: 'pw',
+        from: 'pixishelf@example.test',
+        to: ['ops@example.test', 'oncall@example.test'],
+        subject: '归档导入失败',
+        text: 'Archive import failed',
+        timeoutMs: 2_000
+      },
+      now
+    )
+
+    expect(sink.commands).toEqual([
+      'EHLO pixishelf-worker',
+      `AUTH PLAIN ${Buffer.from('\0relay\0pw').toString('base64')}`,
+      'MAIL FROM:<pixishelf@example.test>',
+      'RCPT TO:<ops@example.test>',
+      'RCPT TO:<oncall@example.test>',
+      'DATA',
+      'QUIT'
+    ])
+    const [message] = sink.messages
+    expect(message).toContain('To: ops@example.test, oncall@example.test')
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('归档导入失败').toString('base64')}?=`)
+    expect(message).toContain(Buffer.from('Archive import failed').toString('base64'))
+  })
+
+  it('times out and closes the socket when the relay never completes the connection', async () => {
+    const sink = await startSilentListener()
+
+    await expect(sendSmtpMail({ ...silentMessage, port: sink.port, timeoutMs: 200 })).rejects.toThrow(
+      'SMTP session timed out'
+    )
+    expect(sink.closed).toHaveLength(1)
+    await sink.closed[0]
+  })
+
+  it('aborts a connection attempt that is still waiting for the relay', async () => {
+    const sink = await startSilentListener()
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+
+    await expect(
+      sendSmtpMail({ ...silentMessage, port: sink.port, timeoutMs: 60_000, signal: controller.signal })
+    ).rejects.toThrow('SMTP session aborted')
+    await sink.closed[0]
+  })
+})
@@ -9,6 +9,7 @@ const config: WorkerConfig = {
   archiveRoot: '/media/archive',
   ffmpegPath: '/usr/bin/ffmpeg',
   ffprobePath: '/usr/bin/ffprobe',
+  sevenZipPath: '/usr/bin/7z',
   keyframeFfmpegThreads: 2,
   archiveMaxMediaBytes: 512 * 1024 * 1024,
   scanDiscoveryMaxEntries: 10_000_000,
@@ -24,7 +25,9 @@ const config: WorkerConfig = {
   jobHeartbeatIntervalMs: 20_000,
   queueTransactionMaxWaitMs: 5_000,
   queueTransactionTimeoutMs: 30_000,
-  dispatchDrainGraceMs: 30_000
+  dispatchDrainGraceMs: 30_000,
+  notificationPollIntervalMs: 5_000,
+  notificationTimeoutMs: 10_000
 }
 
 describe('startup preflight', () => {
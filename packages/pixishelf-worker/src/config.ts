@@ -50,8 +50,10 @@ const workerConfigSchema = z
     SOURCE_MEDIA_ROOT: z.string().trim().min(1),
     DERIVED_MEDIA_ROOT: z.string().trim().min(1),
     ARCHIVE_ROOT: z.string().trim().min(1),
+    ARCHIVE_MANIFEST_ROOT: z.string().trim().min(1).optional(),
     FFMPEG_PATH: z.string().trim().min(1).default('ffmpeg'),
     FFPROBE_PATH: z.string().trim().min(1).default('ffprobe'),
+    SEVEN_ZIP_PATH: z.string().trim().min(1).default('7z'),
     KEYFRAME_FFMPEG_THREADS: positiveInteger(2, 1, 8),
     ARCHIVE_MAX_MEDIA_BYTES: positiveInteger(512 * 1024 * 1024, 1, 2_147_483_647),
     SCAN_DISCOVERY_MAX_ENTRIES: positiveInteger(10_000_000, 1, 100_000_000),
@@ -68,7 +70,9 @@ const workerConfigSchema = z
     WORKER_JOB_HEARTBEAT_INTERVAL_MS: positiveInteger(20_000, 1_000, 300_000),
     WORKER_QUEUE_TRANSACTION_MAX_WAIT_MS: positiveInteger(5_000, 100, 60_000),
     WORKER_QUEUE_TRANSACTION_TIMEOUT_MS: positiveInteger(30_000, 1_000, 300_000),
-    WORKER_DISPATCH_DRAIN_GRACE_MS: positiveInteger(30_000, 1_000, 300_000)
+    WORKER_DISPATCH_DRAIN_GRACE_MS: positiveInteger(30_000, 1_000, 300_000),
+    WORKER_NOTIFICATION_POLL_INTERVAL_MS: positiveInteger(5_000, 500, 300_000),
+    WORKER_NOTIFICATION_TIMEOUT_MS: positiveInteger(10_000, 1_000, 60_000)
   })
   .superRefine((value, context) => {
     if (value.WORKER_JOB_HEARTBEAT_INTERVAL_MS * 2 >= value.WORKER_JOB_LEASE_DURATION_MS) {
@@ -92,8 +96,10 @@ export interface WorkerConfig {
   sourceMediaRoot: string
   derivedMediaRoot: string
   archiveRoot: string
+  archiveManifestRoot?: string
   ffmpegPath: string
   ffprobePath: string
+  sevenZipPath: string
   keyframeFfmpegThreads: number
   archiveMaxMediaBytes: number
   scanDiscoveryMaxEntries: number
@@ -111,6 +117,8 @@ export interface WorkerConfig {
   queueTransactionMaxWaitMs: number
   queueTransactionTimeoutMs: number
   dispatchDrainGraceMs: number
+  notificationPollIntervalMs: number
+  notificationTimeoutMs: number
 }
 
 export function createDefaultWorkerId(host: string, processId: number, instanceId: string) {
@@ -132,8 +140,10 @@ export function parseWorkerConfig(environment: NodeJS.ProcessEnv): WorkerConfig
     sourceMediaRoot: parsed.SOURCE_MEDIA_ROOT,
     derivedMediaRoot: parsed.DERIVED_MEDIA_ROOT,
     archiveRoot: parsed.ARCHIVE_ROOT,
+    ...(parsed.ARCHIVE_MANIFEST_ROOT ? { archiveManifestRoot: parsed.ARCHIVE_MANIFEST_ROOT } : {}),
     ffmpegPath: parsed.FFMPEG_PATH,
     ffprobePath: parsed.FFPROBE_PATH,
+    sevenZipPath: parsed.SEVEN_ZIP_PATH,
     keyframeFfmpegThreads: parsed.KEYFRAME_FFMPEG_THREADS,
     archiveMaxMediaBytes: parsed.ARCHIVE_MAX_MEDIA_BYTES,
     scanDiscoveryMaxEntries: parsed.SCAN_DISCOVERY_MAX_ENTRIES,
@@ -150,6 +160,8 @@ export function parseWorkerConfig(environment: NodeJS.ProcessEnv): WorkerConfig
     jobHeartbeatIntervalMs: parsed.WORKER_JOB_HEARTBEAT_INTERVAL_MS,
     queueTransactionMaxWaitMs: parsed.WORKER_QUEUE_TRANSACTION_MAX_WAIT_MS,
     queueTransactionTimeoutMs: parsed.WORKER_QUEUE_TRANSACTION_TIMEOUT_MS,
-    dispatchDrainGraceMs: parsed.WORKER_DISPATCH_DRAIN_GRACE_MS
+    dispatchDrainGraceMs: parsed.WORKER_DISPATCH_DRAIN_GRACE_MS,
+    notificationPollIntervalMs: parsed.WORKER_NOTIFICATION_POLL_INTERVAL_MS,
+    notificationTimeoutMs: parsed.WORKER_NOTIFICATION_TIMEOUT_MS
   }
 }
@@ -4,6 +4,8 @@ import {
   createArchiveExecutorRegistrations,
   createArchiveMaintenanceExecutorRegistrations,
   createArchiveResolverExecutorRegistrations,
+  createArchiveUpdateCheckExecutorRegistrations,
+  createArtworkExportExecutorRegistrations,
   createDefaultArchiveMediaProviderRegistry,
   createMaintenanceExecutorRegistrations,
   createMigrationExecutorRegistrations,
@@ -13,6 +15,8 @@ import {
   createPrismaMigrationDatabase,
   createPrismaPendingReplaceDatabase,
   createScanExecutorRegistrations,
+  createUgoiraExecutorRegistrations,
+  createVideoHlsExecutorRegistrations,
   createVideoMediaExecutorRegistrations,
   createVideoProcessingExecutorRegistrations,
   createVideoKeyframeExecutorRegistrations,
@@ -26,6 +30,7 @@ import { assertProductionWorkerCapabilities } from './production-capabilities.js
 type ExecutorWorkerConfig = Pick<
   WorkerConfig,
   | 'archiveRoot'
+  | 'archiveManifestRoot'
   | 'sourceMediaRoot'
   | 'derivedMediaRoot'
   | 'archiveMaxMediaBytes'
@@ -33,6 +38,7 @@ type ExecutorWorkerConfig = Pick<
   | 'scanDiscoveryExcludedRootDirectories'
   | 'ffmpegPath'
   | 'ffprobePath'
+  | 'sevenZipPath'
   | 'keyframeFfmpegThreads'
 >
 
@@ -40,7 +46,7 @@ export function createWorkerExecutorRegistry(input: { database: PrismaClient; co
   const registry = new ExecutorRegistry()
   const resolved = resolveExecutorWorkerConfiguration(input.config)
   const archiveProviders = new GovernedArchiveProviderRegistry(
-    createDefaultArchiveMediaProviderRegistry(),
+    createDefaultArchiveMediaProviderRegistry({ manifestRoot: resolved.archiveManifestRoot }),
     new PostgresArchiveProviderGovernor(input.database)
   )
   for (const definition of createArchiveResolverExecutorRegistrations({
@@ -49,6 +55,13 @@ export function createWorkerExecutorRegistry(input: { database: PrismaClient; co
   })) {
     registry.register(definition)
   }
+  for (const definition of createArchiveUpdateCheckExecutorRegistrations({
+    database: input.database,
+    providers: archiveProviders,
+    config: { scanRoot: resolved.archiveRoot }
+  })) {
+    registry.register(definition)
+  }
   for (const definition of createArchiveExecutorRegistrations({
     database: input.database,
     providers: archiveProviders,
@@ -76,6 +89,7 @@ export function createWorkerExecutorRegistry(input: { database: PrismaClient; co
     config: {
       scanRoot: resolved.sourceMediaRoot,
       discoveryExcludedRootDirectories: resolved.scanDiscoveryExcludedRootDirectories,
+      sevenZipPath: resolved.sevenZipPath,
       limits: { maxDiscoveryEntries: resolved.scanDiscoveryMaxEntries }
     }
   })) {
@@ -101,6 +115,10 @@ export function createWorkerExecutorRegistry(input: { database: PrismaClient; co
       scanRoot: resolved.sourceMediaRoot,
       posterStorageRoot: resolved.posterStorageRoot,
       chapterPreviewStorageRoot: resolved.chapterPreviewRoot,
+      hlsStorageRoot: resolved.hlsStorageRoot,
+      subtitleStorageRoot: resolved.subtitleStorageRoot,
+      ugoiraStorageRoot: resolved.ugoiraStorageRoot,
+      exportStorageRoot: resolved.exportStorageRoot,
       ffmpegPath: resolved.ffmpegPath,
       ffprobePath: resolved.ffprobePath
     }
@@ -119,6 +137,35 @@ export function createWorkerExecutorRegistry(input: { database: PrismaClient; co
   })) {
     registry.register(definition)
   }
+  for (const definition of createVideoHlsExecutorRegistrations({
+    database: input.database,
+    config: {
+      scanRoot: resolved.sourceMediaRoot,
+      hlsStorageRoot: resolved.hlsStorageRoot,
+      ffmpegPath: resolved.ffmpegPath,
+      ffprobePath: resolved.ffprobePath,
+      ffmpegThreads: resolved.ffmpegThreads
+    }
+  })) {
+    registry.register(definition)
+  }
+  for (const definition of createUgoiraExecutorRegistrations({
+    database: input.database,
+    config: {
+      scanRoot: resolved.sourceMediaRoot,
+      storageRoot: resolved.ugoiraStorageRoot,
+      ffmpegPath: resolved.ffmpegPath,
+      ffmpegThreads: resolved.ffmpegThreads
+    }
+  })) {
+    registry.register(definition)
+  }
+  for (const definition of createArtworkExportExecutorRegistrations({
+    database: input.database,
+    config: { scanRoot: resolved.sourceMediaRoot, storageRoot: resolved.exportStorageRoot }
+  })) {
+    registry.register(definition)
+  }
   for (const definition of createVideoProcessingExecutorRegistrations({
     database: input.database,
     config: {
@@ -139,14 +186,20 @@ export function resolveExecutorWorkerConfiguration(config: ExecutorWorkerConfig)
   return {
     sourceMediaRoot: config.sourceMediaRoot,
     archiveRoot: config.archiveRoot,
+    archiveManifestRoot: config.archiveManifestRoot ?? null,
     archiveMaxMediaBytes: config.archiveMaxMediaBytes,
     scanDiscoveryMaxEntries: config.scanDiscoveryMaxEntries,
     scanDiscoveryExcludedRootDirectories: config.scanDiscoveryExcludedRootDirectories,
     posterStorageRoot: path.join(config.derivedMediaRoot, 'video', 'posters'),
     chapterPreviewRoot: path.join(config.derivedMediaRoot, 'video', 'chapters'),
     keyframeStorageRoot: path.join(config.derivedMediaRoot, 'video', 'keyframes'),
+    hlsStorageRoot: path.join(config.derivedMediaRoot, 'video', 'hls'),
+    subtitleStorageRoot: path.join(config.derivedMediaRoot, 'video', 'subtitles'),
+    ugoiraStorageRoot: path.join(config.derivedMediaRoot, 'ugoira'),
+    exportStorageRoot: path.join(config.derivedMediaRoot, 'exports'),
     ffmpegPath: config.ffmpegPath,
     ffprobePath: config.ffprobePath,
+    sevenZipPath: config.sevenZipPath,
     ffmpegThreads: config.keyframeFfmpegThreads
   }
 }
@@ -73,7 +73,7 @@ class DispatcherInterruption extends Error {
   }
 }
 
-const systemTiming: DispatcherTiming = {
+export const systemTiming: DispatcherTiming = {
   now: () => new Date(),
   sleep: (milliseconds, signal) => abortableDelay(milliseconds, signal)
 }
@@ -14,6 +14,8 @@ import { createWorkerExecutorRegistry } from './create-worker-executor-registry.
 import { CentralDispatcher } from './dispatcher.js'
 import { createWorkerHealthServer } from './health-server.js'
 import { createJsonLogger } from './logger.js'
+import { PostgresNotificationDeliveryStore } from './notification-delivery-store.js'
+import { NotificationDispatcher } from './notification-dispatcher.js'
 import { PresenceReadinessGate } from './presence-readiness-gate.js'
 import { defaultPreflightDependencies, runStartupPreflight } from './preflight.js'
 import { registerShutdownSignals } from './shutdown-signals.js'
@@ -89,6 +91,13 @@ export async function runWorkerMain(environment: NodeJS.ProcessEnv = process.env
           })
       )
     : []
+  const notificationDispatcher = new NotificationDispatcher({
+    enabled: config.dispatchEnabled,
+    store: new PostgresNotificationDeliveryStore(database as unknown as QueueDatabase),
+    logger,
+    pollIntervalMs: config.notificationPollIntervalMs,
+    requestTimeoutMs: config.notificationTimeoutMs
+  })
   application = new WorkerApplication({
     healthState,
     healthServer,
@@ -106,7 +115,7 @@ export async function runWorkerMain(environment: NodeJS.ProcessEnv = process.env
     disconnectDatabase: () => disconnectDatabase(database),
     forceTerminate: (exitCode) => process.exit(exitCode),
     presenceReadinessGate,
-    ...(dispatchers.length > 0 ? { dispatchers } : {})
+    ...(dispatchers.length > 0 ? { dispatchers: [...dispatchers, notificationDispatcher] } : {})
   })
 
   const requestShutdown = (signal: 'SIGINT' | 'SIGTERM') => {
@@ -0,0 +1,134 @@
+import { NOTIFICATION_MAX_ATTEMPTS } from '@pixishelf/job-contracts'
+import type { QueueDatabase } from '@pixishelf/job-runtime'
+
+export interface ClaimedNotificationDelivery {
+  id: string
+  attempt: number
+  eventType: string
+  payload: unknown
+  channelId: string
+  channelName: string
+  kind: string
+  config: unknown
+}
+
+export interface NotificationDeliveryStorePort {
+  claim(now: Date, limit: number, leaseExpiresAt: Date): Promise<ClaimedNotificationDelivery[]>
+  markDelivered(delivery: Pick<ClaimedNotificationDelivery, 'id' | 'attempt'>, now: Date): Promise<void>
+  markFailed(
+    delivery: Pick<ClaimedNotificationDelivery, 'id' | 'attempt'>,
+    error: string,
+    now: Date,
+    retryAt: Date | null
+  ): Promise<void>
+  pruneSettled(before: Date, limit: number): Promise<number>
+}
+
+/**
+ * Deliveries are leased by moving them to SENDING with `nextAttemptAt` as the lease expiry, so a worker
+ * that dies mid-send leaves rows that the next claim picks up again. Settlements are fenced on the
+ * claimed attempt to ignore a late result from a lease that was already taken over.
+ */
+export class PostgresNotificationDeliveryStore implements NotificationDeliveryStorePort {
+  constructor(
+    private readonly database: QueueDatabase,
+    private readonly maxAttempts = NOTIFICATION_MAX_ATTEMPTS
+  ) {}
+
+  claim(now: Date, limit: number, leaseExpiresAt: Date) {
+    return this.database.$transaction(async (transaction) => {
+      await transaction.$executeRawUnsafe(
+        `UPDATE "notification_deliveries"
+         SET "status" = 'FAILED',
+             "lastError" = 'Delivery lease expired after the final attempt',
+             "updatedAt" = $1
+         WHERE "status" = 'SENDING'
+           AND "nextAttemptAt" <= $1
+           AND "attempt" >= $2`,
+        now,
+        this.maxAttempts
+      )
+      return transaction.$queryRawUnsafe<ClaimedNotificationDelivery[]>(
+        `WITH candidate AS (
+           SELECT delivery."id"
+           FROM "notification_deliveries" delivery
+           JOIN "notification_channels" channel ON channel."id" = delivery."channelId"
+           WHERE channel."enabled"
+             AND delivery."status" IN ('PENDING', 'RETRY_WAIT', 'SENDING')
+             AND delivery."nextAttemptAt" <= $1
+           ORDER BY delivery."nextAttemptAt", delivery."id"
+           LIMIT $2
+           FOR UPDATE OF delivery SKIP LOCKED
+         )
+         UPDATE "notification_deliveries" delivery
+         SET "status" = 'SENDING',
+             "attempt" = delivery."attempt" + 1,
+             "nextAttemptAt" = $3,
+             "updatedAt" = $1
+         FROM candidate, "notification_channels" channel
+         WHERE delivery."id" = candidate."id"
+           AND channel."id" = delivery."channelId"
+         RETURNING delivery."id"::TEXT AS "id",
+                   delivery."attempt",
+                   delivery."eventType",
+                   delivery."payload",
+                   channel."id" AS "channelId",
+                   channel."name" AS "channelName",
+                   channel."kind"::TEXT AS "kind",
+                   channel."config"`,
+        now,
+        limit,
+        leaseExpiresAt
+      )
+    })
+  }
+
+  async markDelivered(delivery: Pick<ClaimedNotificationDelivery, 'id' | 'attempt'>, now: Date) {
+    await this.database.$executeRawUnsafe(
+      `UPDATE "notification_deliveries"
+       SET "status" = 'DELIVERED', "deliveredAt" = $3, "lastError" = NULL, "updatedAt" = $3
+       WHERE "id" = $1::BIGINT AND "attempt" = $2 AND "status" = 'SENDING'`,
+      delivery.id,
+      delivery.attempt,
+      now
+    )
+  }
+
+  async markFailed(
+    delivery: Pick<ClaimedNotificationDelivery, 'id' | 'attempt'>,
+    error: string,
+    now: Date,
+    retryAt: Date | null
+  ) {
+    await this.database.$executeRawUnsafe(
+      `UPDATE "notification_deliveries"
+       SET "status" = CASE WHEN $5::TIMESTAMP(3) IS NULL
+                           THEN 'FAILED'::"NotificationDeliveryStatus"
+                           ELSE 'RETRY_WAIT'::"NotificationDeliveryStatus" END,
+           "nextAttemptAt" = COALESCE($5::TIMESTAMP(3), "nextAttemptAt"),
+           "lastError" = $3,
+           "updatedAt" = $4
+       WHERE "id" = $1::BIGINT AND "attempt" = $2 AND "status" = 'SENDING'`,
+      delivery.id,
+      delivery.attempt,
+      error.slice(0, 2_000),
+      now,
+      retryAt
+    )
+  }
+
+  pruneSettled(before: Date, limit: number) {
+    return this.database.$executeRawUnsafe(
+      `DELETE FROM "notification_deliveries"
+       WHERE "id" IN (
+         SELECT "id"
+         FROM "notification_deliveries"
+         WHERE "status" IN ('DELIVERED', 'FAILED') AND "updatedAt" < $1
+         ORDER BY "id"
+         LIMIT $2
+       )`,
+      before,
+      limit
+    )
+  }
+}
@@ -0,0 +1,165 @@
+import { NOTIFICATION_MAX_ATTEMPTS, notificationPayloadSchema } from '@pixishelf/job-contracts'
+import { redactSensitiveText } from '@pixishelf/job-runtime'
+import { systemTiming, type DispatcherTiming } from './dispatcher.js'
+import type { WorkerLogger } from './logger.js'
+import type { ClaimedNotificationDelivery, NotificationDeliveryStorePort } from './notification-delivery-store.js'
+import { parseChannelConfig, sendNotification, type NotificationTransportOptions } from './notification-transports.js'
+
+export interface NotificationDispatcherOptions {
+  enabled: boolean
+  store: NotificationDeliveryStorePort
+  logger: WorkerLogger
+  pollIntervalMs: number
+  requestTimeoutMs: number
+  batchSize?: number
+  maxAttempts?: number
+  retryBaseDelayMs?: number
+  retryMaxDelayMs?: number
+  send?: typeof sendNotification
+  transport?: Omit<NotificationTransportOptions, 'timeoutMs' | 'signal'>
+  timing?: DispatcherTiming
+}
+
+const DEFAULT_RETRY_BASE_DELAY_MS = 30_000
+const DEFAULT_RETRY_MAX_DELAY_MS = 60 * 60_000
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60_000
+const PRUNE_INTERVAL_MS = 60 * 60_000
+const PRUNE_BATCH_SIZE = 500
+
+export function notificationRetryDelayMs(attempt: number, baseDelayMs: number, maxDelayMs: number) {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1))
+}
+
+/**
+ * Drains the `notification_deliveries` outbox filled by the job event trigger. Runs beside the lane
+ * dispatchers but never fails the worker: a broken channel only delays its own deliveries.
+ */
+export class NotificationDispatcher {
+  private readonly timing: DispatcherTiming
+  private loopPromise: Promise<void> | null = null
+  private readonly controller = new AbortController()
+  private stopPromise: Promise<void> | null = null
+  private prepared = false
+  private lastPrunedAt = Number.NEGATIVE_INFINITY
+
+  constructor(private readonly options: NotificationDispatcherOptions) {
+    this.timing = options.timing ?? systemTiming
+  }
+
+  prepare(): Promise<void> {
+    if (!this.options.enabled) return Promise.resolve()
+    this.prepared = true
+    this.options.logger.info('worker.notifications_prepared')
+    return Promise.resolve()
+  }
+
+  activate(): void {
+    if (!this.options.enabled || this.controller.signal.aborted) return
+    if (!this.prepared) throw new Error('Notification dispatcher must be prepared before activation')
+    this.loopPromise ??= this.runLoop()
+  }
+
+  stop(reason = 'shutdown'): Promise<void> {
+    if (!this.options.enabled) return Promise.resolve()
+    this.stopPromise ??= (async () => {
+      this.controller.abort(new Error(`Notification dispatcher stopped: ${reason}`))
+      await this.loopPromise
+      this.options.logger.info('worker.notifications_stopped', { reason })
+    })()
+    return this.stopPromise
+  }
+
+  /** Claims and sends one batch; returns how many deliveries were attempted. */
+  async runOnce(): Promise<number> {
+    const now = this.timing.now()
+    const batchSize = this.options.batchSize ?? 10
+    // Deliveries in a batch are sent one after another, so the lease covers the whole batch.
+    const leaseExpiresAt = new Date(now.getTime() + this.options.requestTimeoutMs * (batchSize + 1))
+    const deliveries = await this.options.store.claim(now, batchSize, leaseExpiresAt)
+    for (const delivery of deliveries) {
+      if (this.controller.signal.aborted) break
+      await this.deliver(delivery)
+    }
+    return deliveries.length
+  }
+
+  private async runLoop() {
+    while (!this.controller.signal.aborted) {
+      let attempted = 0
+      try {
+        attempted = await this.runOnce()
+      } catch (error) {
+        this.options.logger.warn('worker.notifications_claim_failed', { error })
+      }
+      if (attempted > 0) continue
+      await this.pruneIfDue()
+      try {
+        await this.timing.sleep(this.options.pollIntervalMs, this.controller.signal)
+      } catch {
+        break
+      }
+    }
+  }
+
+  /** Settled deliveries are kept for 30 days so the admin console can still show recent outcomes. */
+  private async pruneIfDue() {
+    const now = this.timing.now()
+    if (now.getTime() - this.lastPrunedAt < PRUNE_INTERVAL_MS) return
+    this.lastPrunedAt = now.getTime()
+    try {
+      await this.options.store.pruneSettled(new Date(now.getTime() - DELIVERY_RETENTION_MS), PRUNE_BATCH_SIZE)
+    } catch (error) {
+      this.options.logger.warn('worker.notifications_prune_failed', { error })
+    }
+  }
+
+  private async deliver(delivery: ClaimedNotificationDelivery) {
+    try {
+      const channel = parseChannelConfig(delivery.kind, delivery.config)
+      const payload = notificationPayloadSchema.parse(delivery.payload)
+      await (this.options.send ?? sendNotification)(
+        channel,
+        { deliveryId: delivery.id, channelName: delivery.channelName, payload },
+        {
+          ...this.options.transport,
+          timeoutMs: this.options.requestTimeoutMs,
+          signal: this.controller.signal
+        }
+      )
+    } catch (error) {
+      // Interrupted by shutdown: leave the lease to expire so the next claim resends it.
+      if (this.controller.signal.aborted) return
+      const message = redactSensitiveText(error instanceof Error ? error.message : String(error))
+      const exhausted = delivery.attempt >= (this.options.maxAttempts ?? NOTIFICATION_MAX_ATTEMPTS)
+      const retryAt = exhausted
+        ? null
+        : new Date(
+            this.timing.now().getTime() +
+              notificationRetryDelayMs(
+                delivery.attempt,
+                this.options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+                this.options.retryMaxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS
+              )
+          )
+      this.options.logger.warn(exhausted ? 'worker.notification_failed' : 'worker.notification_retry_scheduled', {
+        deliveryId: delivery.id,
+        channelId: delivery.channelId,
+        eventType: delivery.eventType,
+        attempt: delivery.attempt,
+        error: message
+      })
+      await this.settle(() => this.options.store.markFailed(delivery, message, this.timing.now(), retryAt), delivery)
+      return
+    }
+    await this.settle(() => this.options.store.markDelivered(delivery, this.timing.now()), delivery)
+  }
+
+  private async settle(operation: () => Promise<void>, delivery: ClaimedNotificationDelivery) {
+    try {
+      await operation()
+    } catch (error) {
+      // The lease expires on its own, after which the delivery is claimed again.
+      this.options.logger.warn('worker.notification_settle_failed', { deliveryId: delivery.id, error })
+    }
+  }
+}
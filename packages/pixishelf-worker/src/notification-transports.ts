@@ -0,0 +1,152 @@
+import { createHmac } from 'node:crypto'
+import {
+  NOTIFICATION_DELIVERY_HEADER,
+  NOTIFICATION_SIGNATURE_HEADER,
+  NOTIFICATION_TEST_EVENT_TYPE,
+  NOTIFICATION_TIMESTAMP_HEADER,
+  notificationChannelConfigSchema,
+  type NotificationChannelConfig,
+  type NotificationPayload
+} from '@pixishelf/job-contracts'
+import { sendSmtpMail, type SmtpMessage } from './smtp-client.js'
+
+export interface NotificationEnvelope {
+  deliveryId: string
+  channelName: string
+  payload: NotificationPayload
+}
+
+export interface NotificationTransportOptions {
+  timeoutMs: number
+  signal?: AbortSignal
+  now?: () => Date
+  fetch?: typeof fetch
+  sendMail?: (message: SmtpMessage) => Promise<void>
+}
+
+export class NotificationTransportError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message)
+    this.name = 'NotificationTransportError'
+  }
+}
+
+const NTFY_PRIORITY = { INFO: '3', WARN: '4', ERROR: '5' } as const
+const GOTIFY_PRIORITY = { INFO: 4, WARN: 6, ERROR: 8 } as const
+
+export function parseChannelConfig(kind: string, config: unknown): NotificationChannelConfig {
+  return notificationChannelConfigSchema.parse({ kind, config })
+}
+
+export function formatNotificationTitle(payload: NotificationPayload) {
+  if (payload.eventType === NOTIFICATION_TEST_EVENT_TYPE) return 'PixiShelf test notification'
+  return `PixiShelf ${payload.job?.type ?? 'job'}: ${payload.eventType}`
+}
+
+export function formatNotificationText(envelope: NotificationEnvelope) {
+  const { payload } = envelope
+  const lines = [payload.message ?? formatNotificationTitle(payload)]
+  if (payload.job) {
+    lines.push(`Job ${payload.job.id} (${payload.job.type}) is ${payload.job.status}, attempt ${payload.attempt}.`)
+    if (payload.job.error) {
+      lines.push(`Error${payload.job.errorCode ? ` ${payload.job.errorCode}` : ''}: ${payload.job.error}`)
+    }
+  }
+  if (payload.stage) lines.push(`Stage: ${payload.stage}`)
+  lines.push(`Channel: ${envelope.channelName} · ${payload.occurredAt}`)
+  return lines.join('\n')
+}
+
+/**
+ * Signs `${timestamp}.${body}` so receivers can reject replays older than their tolerance window.
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+async function postHttp(
+  url: string,
+  init: { headers: Record<string, string>; body: string },
+  options: NotificationTransportOptions
+) {
+  const signals = [AbortSignal.timeout(options.timeoutMs), ...(options.signal ? [options.signal] : [])]
+  let response: Response
+  try {
+    response = await (options.fetch ?? fetch)(url, {
+      method: 'POST',
+      headers: init.headers,
+      body: init.body,
+      redirect: 'manual',
+      signal: AbortSignal.any(signals)
+    })
+  } catch (error) {
+    throw new NotificationTransportError(
+      `Request failed: ${error instanceof Error ? error.message : String(error)}`.slice(0, 500)
+    )
+  }
+  // Drain the body so keep-alive sockets are released; only a short prefix is kept for diagnostics.
+  const text = await response.text().catch(() => '')
+  if (response.status < 200 || response.status >= 300) {
+    throw new NotificationTransportError(`HTTP ${response.status}: ${text.slice(0, 200)}`.trim(), response.status)
+  }
+}
+
+export async function sendNotification(
+  channel: NotificationChannelConfig,
+  envelope: NotificationEnvelope,
+  options: NotificationTransportOptions
+): Promise<void> {
+  const { payload } = envelope
+  const title = formatNotificationTitle(payload)
+  const text = formatNotificationText(envelope)
+
+  switch (channel.kind) {
+    case 'WEBHOOK': {
+      const timestamp = String(Math.floor((options.now?.() ?? new Date()).getTime() / 1_000))
+      const body = JSON.stringify({ deliveryId: envelope.deliveryId, channel: envelope.channelName, title, ...payload })
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'PixiShelf-Notifications',
+        [NOTIFICATION_DELIVERY_HEADER]: envelope.deliveryId,
+        [NOTIFICATION_TIMESTAMP_HEADER]: timestamp
+      }
+      if (channel.config.secret) {
+        headers[NOTIFICATION_SIGNATURE_HEADER] = signWebhookBody(channel.config.secret, timestamp, body)
+      }
+      return postHttp(channel.config.url, { headers, body }, options)
+    }
+    case 'NTFY': {
+      const headers: Record<string, string> = {
+        'Content-Type': 'text/plain; charset=utf-8',
+        // ntfy reads non-ASCII header values as RFC 2047 encoded words.
+        Title: `=?UTF-8?B?${Buffer.from(title, 'utf8').toString('base64')}?=`,
+        Priority: NTFY_PRIORITY[payload.level],
+        Tags: payload.level === 'ERROR' ? 'rotating_light' : payload.level === 'WARN' ? 'warning' : 'information_source'
+      }
+      if (channel.config.token) headers.Authorization = `Bearer ${channel.config.token}`
+      return postHttp(channel.config.url, { headers, body: text }, options)
+    }
+    case 'GOTIFY': {
+      const url = `${channel.config.url.replace(/\/+$/, '')}/message`
+      return postHttp(
+        url,
+        {
+          headers: { 'Content-Type': 'application/json', 'X-Gotify-Key': channel.config.token },
+          body: JSON.stringify({ title, message: text, priority: GOTIFY_PRIORITY[payload.level] })
+        },
+        options
+      )
+    }
+    case 'SMTP':
+      return (options.sendMail ?? sendSmtpMail)({
+        ...channel.config,
+        subject: title,
+        text,
+        timeoutMs: options.timeoutMs,
+        ...(options.signal ? { signal: options.signal } : {})
+      })
+  }
+}
@@ -51,6 +51,9 @@ export async function runStartupPreflight(
     abortable(dependencies.checkPath(config.sourceMediaRoot, 'read-write'), signal),
     abortable(dependencies.checkPath(config.derivedMediaRoot, 'read-write'), signal),
     abortable(dependencies.checkPath(config.archiveRoot, 'read-write'), signal),
+    ...(config.archiveManifestRoot
+      ? [abortable(dependencies.checkPath(config.archiveManifestRoot, 'read'), signal)]
+      : []),
     abortable(dependencies.checkExecutable(config.ffmpegPath, config.preflightTimeoutMs, signal), signal),
     abortable(dependencies.checkExecutable(config.ffprobePath, config.preflightTimeoutMs, signal), signal)
   ])
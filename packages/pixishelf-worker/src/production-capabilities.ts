@@ -12,16 +12,22 @@ const PRODUCTION_JOB_TYPES = [
   'ARCHIVE_INTAKE_RETENTION_CLEANUP',
   'ARCHIVE_MAINTENANCE',
   'ARCHIVE_RESOLVE_ITEM',
+  'ARCHIVE_UPDATE_CHECK',
+  'ARTWORK_EXPORT',
   'DERIVED_MEDIA_GC',
+  'IMAGE_PERCEPTUAL_HASH',
   'LOCAL_DIRECTORY_IMPORT',
   'MEDIA_DERIVED_TAG_SYNC',
+  'MEDIA_INTEGRITY_SCRUB',
   'MIGRATION',
   'PENDING_REPLACE',
   'REFILL_META_SOURCE',
   'SCAN',
   'SCAN_RUN_RETENTION_CLEANUP',
   'TRIGGER_LOG_RETENTION_CLEANUP',
+  'UGOIRA_CONVERSION',
   'VIDEO_CHAPTER_PREVIEW_GENERATION',
+  'VIDEO_HLS_TRANSCODE',
   'VIDEO_KEYFRAME_DISCOVERY',
   'VIDEO_KEYFRAME_GENERATION',
   'VIDEO_MEDIA_PROBE',
@@ -60,6 +66,6 @@ export function assertProductionWorkerCapabilities(
   const actual = canonicalWorkerCapabilities(capabilities)
   const expected = canonicalWorkerCapabilities(PRODUCTION_WORKER_CAPABILITIES)
   if (JSON.stringify(actual) !== JSON.stringify(expected)) {
-    throw new Error('Production Worker capability inventory drifted from the 20-job/22-version dual-lane release')
+    throw new Error('Production Worker capability inventory drifted from the 26-job/28-version dual-lane release')
   }
 }
@@ -0,0 +1,268 @@
+import { connect as connectTcp, type Socket } from 'node:net'
+import { connect as connectTls, type TLSSocket } from 'node:tls'
+
+export interface SmtpMessage {
+  host: string
+  port: number
+  security: 'NONE' | 'STARTTLS' | 'TLS'
+  username?: string | undefined
+  password?: string | undefined
+  from: string
+  to: readonly string[]
+  subject: string
+  text: string
+  /** Name announced in EHLO. */
+  clientName?: string
+  timeoutMs: number
+  signal?: AbortSignal
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code?: number
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Line-oriented reader over an SMTP socket. Multi-line replies (`250-...`) are collected until the
+ * final `250 ...` line; the socket can be swapped after STARTTLS without losing buffered state.
+ */
+class SmtpConnection {
+  private buffer = ''
+  private pending: string[] = []
+  private waiter: { resolve(line: string): void; reject(error: Error): void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: Socket | TLSSocket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: Socket | TLSSocket) {
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      let index = this.buffer.indexOf('\n')
+      while (index >= 0) {
+        this.push(this.buffer.slice(0, index).replace(/\r$/, ''))
+        this.buffer = this.buffer.slice(index + 1)
+        index = this.buffer.indexOf('\n')
+      }
+    })
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')))
+  }
+
+  private push(line: string) {
+    if (this.waiter) {
+      const waiter = this.waiter
+      this.waiter = null
+      waiter.resolve(line)
+    } else {
+      this.pending.push(line)
+    }
+  }
+
+  fail(error: Error) {
+    this.failure ??= error
+    if (this.waiter) {
+      const waiter = this.waiter
+      this.waiter = null
+      waiter.reject(this.failure)
+    }
+  }
+
+  private nextLine() {
+    const line = this.pending.shift()
+    if (line !== undefined) return Promise.resolve(line)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise<string>((resolve, reject) => {
+      this.waiter = { resolve, reject }
+    })
+  }
+
+  async read(): Promise<SmtpReply> {
+    const lines: string[] = []
+    for (;;) {
+      const line = await this.nextLine()
+      const match = /^(\d{3})([ -])(.*)$/.exec(line)
+      if (!match) throw new SmtpError(`Malformed SMTP reply: ${line.slice(0, 200)}`)
+      lines.push(match[3]!)
+      if (match[2] === ' ') return { code: Number(match[1]), lines }
+    }
+  }
+
+  async command(line: string, expected: number[], redacted = false): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      const sent = redacted ? 'AUTH' : line
+      throw new SmtpError(`SMTP ${sent} rejected: ${reply.code} ${reply.lines.join(' ').slice(0, 300)}`, reply.code)
+    }
+    return reply
+  }
+
+  write(data: string) {
+    this.socket.write(data)
+  }
+
+  async upgrade(servername: string, signal: AbortSignal) {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('close')
+    const secure = connectTls({ socket: plain, servername })
+    // Owned from here on, so destroy() also tears down a handshake that never finishes.
+    this.socket = secure
+    await untilAborted<void>(signal, (resolve, reject) => {
+      secure.once('secureConnect', () => resolve())
+      secure.once('error', reject)
+    })
+    this.buffer = ''
+    this.pending = []
+    this.attach(secure)
+  }
+
+  destroy() {
+    this.socket.destroy()
+  }
+}
+
+/** Settles like the executor, but rejects with the signal's reason and runs `cleanup` once it aborts first. */
+function untilAborted<T>(
+  signal: AbortSignal,
+  executor: (resolve: (value: T) => void, reject: (error: Error) => void) => void,
+  cleanup: () => void = () => undefined
+) {
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      cleanup()
+      reject(signal.reason as Error)
+    }
+    if (signal.aborted) return abort()
+    signal.addEventListener('abort', abort, { once: true })
+    executor(
+      (value) => {
+        signal.removeEventListener('abort', abort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener('abort', abort)
+        reject(error)
+      }
+    )
+  })
+}
+
+function openSocket(message: SmtpMessage, signal: AbortSignal) {
+  let socket: Socket | TLSSocket | undefined
+  return untilAborted<Socket | TLSSocket>(
+    signal,
+    (resolve, reject) => {
+      const connected = () => resolve(socket!)
+      socket =
+        message.security === 'TLS'
+          ? connectTls({ host: message.host, port: message.port, servername: message.host }, connected)
+          : connectTcp({ host: message.host, port: message.port }, connected)
+      socket.once('error', reject)
+    },
+    () => socket?.destroy()
+  )
+}
+
+function encodeHeader(value: string) {
+  // RFC 2047 encoded-word only when needed, keeping ASCII subjects readable in raw mail.
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function assertAddress(address: string) {
+  if (/[\r\n<>]/.test(address)) throw new SmtpError('SMTP address contains forbidden characters')
+  return address
+}
+
+export function formatSmtpMessage(message: Pick<SmtpMessage, 'from' | 'to' | 'subject' | 'text'>, date: Date) {
+  const body = Buffer.from(message.text, 'utf8')
+    .toString('base64')
+    .replace(/.{1,76}/g, '$&\r\n')
+  return [
+    `From: ${assertAddress(message.from)}`,
+    `To: ${message.to.map(assertAddress).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n')
+}
+
+/**
+ * Sends one plain-text message. Supports implicit TLS, STARTTLS and AUTH PLAIN/LOGIN, which covers
+ * the relays self-hosted installs usually point at; anything fancier belongs in a webhook bridge.
+ */
+export async function sendSmtpMail(message: SmtpMessage, now: () => Date = () => new Date()): Promise<void> {
+  if (message.signal?.aborted) throw message.signal.reason
+  // The deadline covers the whole session, including a connect or TLS handshake that never answers.
+  const session = new AbortController()
+  const timer = setTimeout(() => session.abort(new SmtpError('SMTP session timed out')), message.timeoutMs)
+  timer.unref()
+  const abort = () => session.abort(new SmtpError('SMTP session aborted'))
+  message.signal?.addEventListener('abort', abort, { once: true })
+  let connection: SmtpConnection | null = null
+  const stop = () => connection?.fail(session.signal.reason as Error)
+  session.signal.addEventListener('abort', stop, { once: true })
+
+  try {
+    connection = new SmtpConnection(await openSocket(message, session.signal))
+    session.signal.throwIfAborted()
+    const greeting = await connection.read()
+    if (greeting.code !== 220) throw new SmtpError(`SMTP greeting rejected: ${greeting.code}`, greeting.code)
+    const clientName = message.clientName ?? 'pixishelf-worker'
+    let capabilities = (await connection.command(`EHLO ${clientName}`, [250])).lines
+
+    if (message.security === 'STARTTLS') {
+      if (!capabilities.some((line) => /^STARTTLS\b/i.test(line))) {
+        throw new SmtpError('SMTP server does not offer STARTTLS')
+      }
+      await connection.command('STARTTLS', [220])
+      await connection.upgrade(message.host, session.signal)
+      capabilities = (await connection.command(`EHLO ${clientName}`, [250])).lines
+    }
+
+    if (message.username) {
+      const mechanisms = capabilities.find((line) => /^AUTH\b/i.test(line))?.toUpperCase() ?? ''
+      const password = message.password ?? ''
+      if (mechanisms.includes('PLAIN')) {
+        const token = Buffer.from(`\0${message.username}\0${password}`, 'utf8').toString('base64')
+        await connection.command(`AUTH PLAIN ${token}`, [235], true)
+      } else {
+        await connection.command('AUTH LOGIN', [334])
+        await connection.command(Buffer.from(message.username, 'utf8').toString('base64'), [334], true)
+        await connection.command(Buffer.from(password, 'utf8').toString('base64'), [235], true)
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${assertAddress(message.from)}>`, [250])
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${assertAddress(recipient)}>`, [250, 251])
+    }
+    await connection.command('DATA', [354])
+    // Base64 bodies never start a line with a dot, so no dot-stuffing is needed.
+    connection.write(`${formatSmtpMessage(message, now())}\r\n`)
+    await connection.command('.', [250])
+    await connection.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    clearTimeout(timer)
+    message.signal?.removeEventListener('abort', abort)
+    session.signal.removeEventListener('abort', stop)
+    connection?.destroy()
+  }
+}
@@ -1,6 +1,6 @@
 'use server'
 
-import { actionClient, authActionClient } from '@/lib/safe-action'
+import { actionClient, authWriteActionClient } from '@/lib/safe-action'
 import { auth } from '@/lib/auth'
 import { authLoginSchema } from '@/schemas/auth.dto'
 import { changePasswordSchema } from '@/schemas/users.dto'
@@ -44,7 +44,7 @@ export const loginUserAction = actionClient
     }
   })
 
-export const changePasswordAction = authActionClient
+export const changePasswordAction = authWriteActionClient
   .inputSchema(changePasswordSchema)
   .action(async ({ parsedInput: { currentPassword, newPassword } }) => {
     // 限流：每分钟允许 5 次尝试
@@ -1,6 +1,6 @@
 'use server'
 
-import { authActionClient } from '@/lib/safe-action'
+import { authWriteActionClient } from '@/lib/safe-action'
 import { BatchCreateArtworkSchema, BatchRegisterImageSchema } from '@/schemas/artwork.dto'
 import { batchCreateArtworksService, batchRegisterImagesService } from '@/services/batch-import-service'
 import { revalidatePath } from 'next/cache'
@@ -8,7 +8,7 @@ import { revalidatePath } from 'next/cache'
 /**
  * 批量创建作品
  */
-export const batchCreateArtworksAction = authActionClient
+export const batchCreateArtworksAction = authWriteActionClient
   .inputSchema(BatchCreateArtworkSchema)
   .action(async ({ parsedInput }) => {
     const results = await batchCreateArtworksService(parsedInput)
@@ -19,7 +19,7 @@ export const batchCreateArtworksAction = authActionClient
 /**
  * 批量注册图片
  */
-export const batchRegisterImagesAction = authActionClient
+export const batchRegisterImagesAction = authWriteActionClient
   .inputSchema(BatchRegisterImageSchema)
   .action(async ({ parsedInput }) => {
     const result = await batchRegisterImagesService(parsedInput)
@@ -1,13 +1,13 @@
 'use server'
 
-import { authActionClient } from '@/lib/safe-action'
+import { authWriteActionClient } from '@/lib/safe-action'
 import { toggleLike } from '@/services/like-service'
 import z from 'zod'
 
 /**
  * 切换点赞状态操作
  */
-export const toggleLikeAction = authActionClient
+export const toggleLikeAction = authWriteActionClient
   .inputSchema(
     z.object({
       artworkId: z.number().int().positive()
@@ -3,6 +3,7 @@
 import logger from '@/lib/logger'
 import { getUntranslatedTagNames } from '@/services/tag-service'
 import { rebuildTagArtworkCounts } from '@/services/tag-count-service'
+import { assertWritable } from '@/services/maintenance-mode-service'
 
 /**
  * 手动更新标签作品数量统计
@@ -10,6 +11,7 @@ import { rebuildTagArtworkCounts } from '@/services/tag-count-service'
  */
 export async function updateTagStatsAction() {
   try {
+    await assertWritable()
     logger.info('🚀 手动触发标签统计更新...')
 
     // 执行标签统计更新
@@ -1,16 +1,16 @@
 'use server'
 
-import { authActionClient } from '@/lib/safe-action'
+import { authWriteActionClient } from '@/lib/safe-action'
 import { updateProfileSchema, updateUserSettingSchema } from '@/schemas/user-setting.dto'
 import { upsertUserSettings, updateUserProfile } from '@/services/user-setting-service'
 
-export const updateProfileAction = authActionClient
+export const updateProfileAction = authWriteActionClient
   .inputSchema(updateProfileSchema)
   .action(async ({ parsedInput, ctx: { userId } }) => {
     return updateUserProfile(userId, parsedInput)
   })
 
-export const updateUserSettingAction = authActionClient
+export const updateUserSettingAction = authWriteActionClient
   .inputSchema(updateUserSettingSchema)
   .action(async ({ parsedInput, ctx: { userId } }) => {
     await upsertUserSettings(userId, parsedInput.settings)
@@ -64,7 +64,7 @@ describe('AdminNav', () => {
     expect(within(navigation).getByRole('link', { name: '管理概览' }).getAttribute('href')).toBe('/admin')
     expect(within(navigation).getByRole('link', { name: '作品管理' }).getAttribute('aria-current')).toBe('page')
     expect(within(navigation).getByRole('link', { name: '作品管理' }).className).toContain('min-h-11')
-    expect(within(navigation).getAllByRole('link')).toHaveLength(12)
+    expect(within(navigation).getAllByRole('link')).toHaveLength(15)
     await waitFor(() => {
       expect(within(navigation).getByLabelText('归档收件箱等待 3 项')).toBeTruthy()
       expect(within(navigation).getByLabelText('归档收件箱失败 2 项')).toBeTruthy()
@@ -31,7 +31,8 @@ const statusToneMap: Record<string, AdminStatusTone> = {
   CANCELLED: 'muted',
   IDLE: 'muted',
   SKIPPED: 'muted',
-  EXCLUDED: 'muted'
+  EXCLUDED: 'muted',
+  EXPIRED: 'muted'
 }
 
 export function getAdminStatusTone(status: string): AdminStatusTone {
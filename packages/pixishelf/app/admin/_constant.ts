@@ -2,12 +2,15 @@ import {
   Activity,
   AlbumIcon,
   Archive,
+  Copy,
+  Download,
   Inbox,
   History,
   ImageIcon,
   LayoutDashboardIcon,
   ListTodo,
   Settings,
+  ShieldCheck,
   Tags,
   Users,
   UserStar
@@ -71,6 +74,20 @@ export const sections = [
     icon: AlbumIcon,
     group: 'library'
   },
+  {
+    title: '近似重复',
+    description: '审阅感知指纹相近的作品',
+    href: '/admin/duplicates',
+    icon: Copy,
+    group: 'library'
+  },
+  {
+    title: '作品导出',
+    description: '打包导出 CBZ/ZIP 并下载',
+    href: '/admin/exports',
+    icon: Download,
+    group: 'library'
+  },
   {
     title: '用户管理',
     description: '管理注册用户和权限',
@@ -92,6 +109,13 @@ export const sections = [
     icon: History,
     group: 'system'
   },
+  {
+    title: '媒体完整性',
+    description: '巡检原媒体哈希并定位可用备份',
+    href: '/admin/integrity',
+    icon: ShieldCheck,
+    group: 'system'
+  },
   {
     title: '任务计划',
     description: '执行系统维护和后台任务',
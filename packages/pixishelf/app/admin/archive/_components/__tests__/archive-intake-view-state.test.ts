@@ -28,16 +28,19 @@ not-a-url
 https://e-hentai.org/g/123/token/
 https://example.com/g/456/token/
 https://e-hentai.org/s/page/123-1
+https://www.pixiv.net/artworks/118000001
+https://www.pixiv.net/users/4242
+file:///data/local-imports/gallery-dl/exhentai/2800001
 `)
 
     expect(analysis).toMatchObject({
-      nonEmptyCount: 5,
-      validCount: 3,
-      invalidCount: 2,
+      nonEmptyCount: 8,
+      validCount: 5,
+      invalidCount: 3,
       duplicateCount: 1,
       overLimitCount: 0
     })
-    expect(analysis.lines.map((line) => line.raw.trim())).toHaveLength(5)
+    expect(analysis.lines.map((line) => line.raw.trim())).toHaveLength(8)
   })
 
   it('keeps a manual deselection stable across polling and removes off-page state', () => {
@@ -90,7 +90,8 @@ export function ArchiveAddDialog({ trigger, onCreated }: ArchiveAddDialogProps)
         <DialogHeader>
           <DialogTitle>添加到归档收件箱</DialogTitle>
           <DialogDescription>
-            每行一个公开 E-Hentai 画廊或图片页链接。提交后即可关闭，解析会按全局队列顺序继续。
+            每行一个公开 E-Hentai 画廊、图片页、Pixiv 作品链接，或 gallery-dl 下载目录的 file://
+            地址。提交后即可关闭，解析会按全局队列顺序继续。
           </DialogDescription>
         </DialogHeader>
 
@@ -117,7 +118,9 @@ export function ArchiveAddDialog({ trigger, onCreated }: ArchiveAddDialogProps)
                   maxLength={204_800}
                   value={value}
                   onChange={(event) => updateValue(event.target.value)}
-                  placeholder={'https://e-hentai.org/g/1234567/token/\nhttps://e-hentai.org/s/page-token/1234567-1'}
+                  placeholder={
+                    'https://e-hentai.org/g/1234567/token/\nhttps://e-hentai.org/s/page-token/1234567-1\nhttps://www.pixiv.net/artworks/12345678'
+                  }
                   autoComplete="off"
                   spellCheck={false}
                   disabled={createMutation.isPending}
@@ -143,7 +146,8 @@ export function ArchiveAddDialog({ trigger, onCreated }: ArchiveAddDialogProps)
               <LinkIcon aria-hidden="true" />
               <AlertTitle>有 {analysis.invalidCount} 行未通过即时预检</AlertTitle>
               <AlertDescription>
-                首版支持不含账号凭据的 https://e-hentai.org/g/... 与 /s/...。提交结果以服务端为准。
+                支持不含账号凭据的 https://e-hentai.org/g/...、/s/...、https://www.pixiv.net/artworks/...
+                与归档清单目录内的 file:// 地址。提交结果以服务端为准。
               </AlertDescription>
             </Alert>
           ) : null}
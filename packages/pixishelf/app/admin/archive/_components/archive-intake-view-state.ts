@@ -227,13 +227,18 @@ function archiveCommandFingerprint(command: string, payload: unknown): string {
 function isSupportedArchiveUrl(input: string): boolean {
   try {
     const url = new URL(input)
-    return (
-      url.protocol === 'https:' &&
-      !url.username &&
-      !url.password &&
-      url.hostname.toLowerCase() === 'e-hentai.org' &&
-      /^\/(?:g|s)\//.test(url.pathname)
-    )
+    // 本地清单目录是否位于 ARCHIVE_MANIFEST_ROOT 内只能由服务端判断
+    if (url.protocol === 'file:') return !url.hostname && url.pathname.length > 1
+    if (url.protocol !== 'https:' || url.username || url.password) return false
+    const hostname = url.hostname.toLowerCase()
+    if (hostname === 'e-hentai.org') return /^\/(?:g|s)\//.test(url.pathname)
+    if (hostname === 'www.pixiv.net' || hostname === 'pixiv.net') {
+      return (
+        /^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?(?:artworks|i)\/\d+\/?$/i.test(url.pathname) ||
+        (url.pathname === '/member_illust.php' && /^\d+$/.test(url.searchParams.get('illust_id') ?? ''))
+      )
+    }
+    return false
   } catch {
     return false
   }
@@ -0,0 +1,279 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { inferRouterOutputs } from '@trpc/server'
+import { History, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import { ProDialog } from '@/components/shared/pro-dialog'
+import { confirm } from '@/components/shared/global-confirm'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import { useTRPC } from '@/lib/trpc'
+import { cn } from '@/lib/utils'
+import type { AppRouter } from '@/server'
+import { AdminStatusBadge } from '../../_components/admin-status-badge'
+
+type RouterOutputs = inferRouterOutputs<AppRouter>
+type ArchiveRevisionHistoryEntry = RouterOutputs['archive']['getRevisionHistory']['revisions'][number]
+type ArchiveRevisionMetadataField = NonNullable<ArchiveRevisionHistoryEntry['metadataDiff']>['fields'][number]['field']
+type ArchiveRevisionPageChange = NonNullable<ArchiveRevisionHistoryEntry['pageDiff']>[number]['change']
+
+interface ArchiveRevisionDialogProps {
+  open: boolean
+  artworkId: number
+  artworkTitle: string
+  onOpenChange: (open: boolean) => void
+  onRestored: () => void
+}
+
+const FIELD_LABELS: Record<ArchiveRevisionMetadataField, string> = {
+  title: '标题',
+  description: '简介',
+  postedAt: '发布时间',
+  category: '分类',
+  uploader: '上传者',
+  artist: '作者',
+  series: '系列',
+  aiGenerated: 'AI 生成',
+  xRestrict: '分级'
+}
+
+const PAGE_CHANGE_LABELS: Record<ArchiveRevisionPageChange, string> = {
+  ADDED: '新增',
+  REMOVED: '删除',
+  CHANGED: '替换',
+  UNCHANGED: '未变'
+}
+
+const PAGE_CHANGE_CLASS: Record<ArchiveRevisionPageChange, string> = {
+  ADDED: 'border-emerald-500/40 bg-emerald-500/10 text-emerald-700 dark:text-emerald-300',
+  REMOVED: 'border-destructive/40 bg-destructive/10 text-destructive line-through',
+  CHANGED: 'border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-300',
+  UNCHANGED: 'border-border text-muted-foreground'
+}
+
+const ACTIVE_JOB_STATUSES = new Set(['PENDING', 'RUNNING', 'PAUSING', 'PAUSED', 'RETRY_WAIT', 'CANCELLING'])
+
+const dateFormatter = new Intl.DateTimeFormat('zh-CN', { dateStyle: 'medium', timeStyle: 'short' })
+
+function formatDate(value: Date | string | null) {
+  return value ? dateFormatter.format(new Date(value)) : '-'
+}
+
+function shortId(value: string | null) {
+  return value ? value.slice(0, 8) : '-'
+}
+
+function RevisionDiff({ revision }: { revision: ArchiveRevisionHistoryEntry }) {
+  if (!revision.metadataDiff || !revision.pageDiff) {
+    return <p className="text-xs text-muted-foreground">最早的版本，没有可比较的上一版本。</p>
+  }
+  const { fields, tagsAdded, tagsRemoved } = revision.metadataDiff
+  const changedPages = revision.pageDiff.filter(
+    (page) => page.change !== 'UNCHANGED' || page.index !== page.previousIndex
+  )
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      {fields.length === 0 && tagsAdded.length === 0 && tagsRemoved.length === 0 ? (
+        <p className="text-xs text-muted-foreground">元数据与上一版本相同。</p>
+      ) : (
+        <dl className="grid grid-cols-[72px_1fr] gap-x-3 gap-y-1">
+          {fields.map((change) => (
+            <div key={change.field} className="contents">
+              <dt className="text-xs text-muted-foreground">{FIELD_LABELS[change.field]}</dt>
+              <dd className="min-w-0 break-words">
+                <span className="text-muted-foreground line-through">{change.before ?? '空'}</span>
+                {' → '}
+                <span>{change.after ?? '空'}</span>
+              </dd>
+            </div>
+          ))}
+          {tagsAdded.length > 0 && (
+            <>
+              <dt className="text-xs text-muted-foreground">新增标签</dt>
+              <dd className="min-w-0 break-words">{tagsAdded.join('、')}</dd>
+            </>
+          )}
+          {tagsRemoved.length > 0 && (
+            <>
+              <dt className="text-xs text-muted-foreground">移除标签</dt>
+              <dd className="min-w-0 break-words text-muted-foreground line-through">{tagsRemoved.join('、')}</dd>
+            </>
+          )}
+        </dl>
+      )}
+      {changedPages.length === 0 ? (
+        <p className="text-xs text-muted-foreground">页面内容与上一版本相同。</p>
+      ) : (
+        <ul className="flex flex-wrap gap-1.5" aria-label="页面差异">
+          {changedPages.map((page) => {
+            const moved = page.change === 'UNCHANGED'
+            const label = moved
+              ? `第 ${(page.previousIndex ?? 0) + 1} 页移至第 ${(page.index ?? 0) + 1} 页`
+              : `第 ${(page.index ?? page.previousIndex ?? 0) + 1} 页${PAGE_CHANGE_LABELS[page.change]}`
+            return (
+              <li
+                key={`${page.change}-${page.index}-${page.previousIndex}`}
+                className={cn('rounded-md border px-2 py-0.5 text-xs', PAGE_CHANGE_CLASS[page.change])}
+                title={page.sha256 ?? page.previousSha256 ?? undefined}
+              >
+                {label}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * 归档版本历史：按 SHA-256 展示每个版本相对上一版本的页面与元数据变化，并可把历史版本恢复为当前版本。
+ * 恢复由后台写入通道任务执行，弹窗在任务完成前轮询状态。
+ */
+export function ArchiveRevisionDialog({
+  open,
+  artworkId,
+  artworkTitle,
+  onOpenChange,
+  onRestored
+}: ArchiveRevisionDialogProps) {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const historyQuery = useQuery({
+    ...trpc.archive.getRevisionHistory.queryOptions({ artworkId }),
+    enabled: open,
+    refetchInterval: (query) =>
+      query.state.data?.restores.some(
+        (restore) => !restore.completedAt && ACTIVE_JOB_STATUSES.has(restore.jobStatus ?? '')
+      )
+        ? 2_000
+        : false
+  })
+  const restoreMutation = useMutation(
+    trpc.archive.restoreRevision.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(result.reused ? '该版本的回滚任务已在队列中' : '版本回滚任务已加入后台队列', {
+          description: `任务 ID: ${result.jobId}`
+        })
+        queryClient.invalidateQueries({ queryKey: trpc.archive.getRevisionHistory.queryKey({ artworkId }) })
+      },
+      onError: (error) => toast.error('版本回滚失败', { description: error.message })
+    })
+  )
+
+  const history = historyQuery.data
+  const revisions = history?.revisions ?? []
+  const pendingRestore = history?.restores.find(
+    (restore) => !restore.completedAt && ACTIVE_JOB_STATUSES.has(restore.jobStatus ?? '')
+  )
+  // 记录首次加载时最近一次已完成的回滚；之后出现新的完成记录说明后台任务已切换当前版本，需要刷新作品列表
+  const lastCompletedRef = useRef<string | null | undefined>(undefined)
+  const lastCompleted = history ? (history.restores.find((restore) => restore.completedAt)?.id ?? null) : undefined
+  useEffect(() => {
+    if (lastCompleted === undefined) return
+    if (lastCompletedRef.current !== undefined && lastCompleted !== lastCompletedRef.current) onRestored()
+    lastCompletedRef.current = lastCompleted
+  }, [lastCompleted, onRestored])
+
+  const handleRestore = (revision: ArchiveRevisionHistoryEntry, position: number) => {
+    confirm({
+      title: '恢复历史版本',
+      description: `即将把 ${artworkTitle} 恢复为第 ${revisions.length - position} 版（${formatDate(revision.publishedAt)}）。当前版本的文件会保留，可以随时再切换回来。`,
+      onConfirm: () => restoreMutation.mutate({ artworkId, revisionId: revision.id })
+    })
+  }
+
+  return (
+    <ProDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="归档版本历史"
+      description={artworkTitle}
+      width={720}
+      footer={null}
+    >
+      {historyQuery.isLoading ? (
+        <div className="flex items-center justify-center py-10">
+          <Spinner aria-label="正在加载版本历史" />
+        </div>
+      ) : historyQuery.error ? (
+        <p className="py-6 text-center text-sm text-destructive">{historyQuery.error.message}</p>
+      ) : (
+        <div className="flex max-h-[70vh] flex-col gap-4 overflow-y-auto pr-1">
+          {pendingRestore && (
+            <p className="rounded-md border border-border bg-muted/40 px-3 py-2 text-sm" role="status">
+              正在回滚到版本 {shortId(pendingRestore.toRevisionId)}，任务状态：
+              <AdminStatusBadge status={pendingRestore.jobStatus ?? 'PENDING'} className="ml-1" />
+            </p>
+          )}
+          <ol className="flex flex-col gap-3">
+            {revisions.map((revision, position) => {
+              const expanded = expandedId === revision.id || (expandedId === null && position === 0)
+              return (
+                <li key={revision.id} className="rounded-lg border border-border p-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">第 {revisions.length - position} 版</span>
+                    {revision.isCurrent && <AdminStatusBadge status="ACTIVE">当前</AdminStatusBadge>}
+                    <span className="text-xs text-muted-foreground">
+                      {formatDate(revision.publishedAt)} · {revision.pageCount} 页 · {shortId(revision.id)}
+                    </span>
+                    <div className="ml-auto flex items-center gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-expanded={expanded}
+                        onClick={() => setExpandedId(expanded ? '' : revision.id)}
+                      >
+                        <History aria-hidden="true" />
+                        {expanded ? '收起差异' : '查看差异'}
+                      </Button>
+                      {revision.restorable && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={Boolean(pendingRestore) || restoreMutation.isPending}
+                          onClick={() => handleRestore(revision, position)}
+                        >
+                          <RotateCcw aria-hidden="true" />
+                          恢复为当前版本
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {revision.title && <p className="mt-1 truncate text-sm text-muted-foreground">{revision.title}</p>}
+                  {expanded && (
+                    <div className="mt-3 border-t border-border pt-3">
+                      <RevisionDiff revision={revision} />
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+          {history && history.restores.length > 0 && (
+            <section className="flex flex-col gap-2">
+              <h3 className="text-sm font-medium">回滚记录</h3>
+              <ul className="flex flex-col gap-1 text-xs text-muted-foreground">
+                {history.restores.map((restore) => (
+                  <li key={restore.id} className="flex flex-wrap items-center gap-2">
+                    <span>{formatDate(restore.createdAt)}</span>
+                    <span>
+                      {shortId(restore.fromRevisionId)} → {shortId(restore.toRevisionId)}
+                    </span>
+                    <AdminStatusBadge status={restore.completedAt ? 'COMPLETED' : (restore.jobStatus ?? 'CANCELLED')} />
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      )}
+    </ProDialog>
+  )
+}
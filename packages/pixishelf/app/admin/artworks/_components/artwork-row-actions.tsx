@@ -2,7 +2,7 @@
 
 import { useEffect, useRef, useState } from 'react'
 import Link from 'next/link'
-import { AlertCircle, Copy, Edit, ExternalLink, MoreHorizontal, RefreshCw, Trash } from 'lucide-react'
+import { AlertCircle, Copy, Edit, ExternalLink, History, MoreHorizontal, RefreshCw, Trash } from 'lucide-react'
 import { fetchEventSource } from '@microsoft/fetch-event-source'
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
@@ -16,9 +16,11 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Spinner } from '@/components/ui/spinner'
 import { confirm } from '@/components/shared/global-confirm'
+import { ESource } from '@/enums/e-source'
 import type { ArtworkResponseDto } from '@/schemas/artwork.dto'
 import type { ScanProgress } from '@/types'
 import { isLocalDirectoryArtworkSource } from '@/utils/artwork/artwork-source'
+import { ArchiveRevisionDialog } from './archive-revision-dialog'
 
 interface ArtworkRowActionsProps {
   artwork: ArtworkResponseDto
@@ -33,6 +35,7 @@ export function ArtworkRowActions({ artwork, onEdit, onCopy, onDelete, onRescanC
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
   const [queuedJob, setQueuedJob] = useState<{ jobId: string | null; scanRunId: string | null } | null>(null)
+  const [revisionsOpen, setRevisionsOpen] = useState(false)
   const controllerRef = useRef<AbortController | null>(null)
 
   const startScan = async () => {
@@ -124,67 +127,84 @@ export function ArtworkRowActions({ artwork, onEdit, onCopy, onDelete, onRescanC
   }, [])
 
   return (
-    <DropdownMenu modal={false}>
-      <DropdownMenuTrigger asChild>
-        <Button
-          type="button"
-          variant="ghost"
-          size="icon"
-          className="size-8"
-          aria-label={`打开作品 ${artwork.title} 的操作菜单`}
-          onClick={(event) => event.stopPropagation()}
-        >
-          {scanning ? (
-            <RefreshCw className="animate-spin motion-reduce:animate-none" aria-hidden="true" />
-          ) : error ? (
-            <AlertCircle aria-hidden="true" />
-          ) : (
-            <MoreHorizontal aria-hidden="true" />
-          )}
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-52">
-        <DropdownMenuGroup>
-          <DropdownMenuItem onSelect={onEdit}>
-            <Edit aria-hidden="true" />
-            编辑作品
-          </DropdownMenuItem>
-          <DropdownMenuItem onSelect={onCopy}>
-            <Copy aria-hidden="true" />
-            复制为新作品
-          </DropdownMenuItem>
-          <DropdownMenuItem disabled={scanning} onSelect={handleRescan}>
-            {scanning ? <Spinner aria-hidden="true" /> : <RefreshCw aria-hidden="true" />}
-            {scanning
-              ? `正在重新扫描（${progress}%）`
-              : error
-                ? '重新扫描（上次失败）'
-                : queuedJob
-                  ? '重新扫描（已入队）'
-                  : '重新扫描'}
-          </DropdownMenuItem>
-          <DropdownMenuItem asChild>
-            <Link href={`/artworks/${artwork.id}`} target="_blank" rel="noreferrer">
-              <ExternalLink aria-hidden="true" />
-              在新标签页打开
-            </Link>
-          </DropdownMenuItem>
-        </DropdownMenuGroup>
-        <DropdownMenuSeparator />
-        <DropdownMenuGroup>
-          <DropdownMenuItem variant="destructive" onSelect={onDelete}>
-            <Trash aria-hidden="true" />
-            删除作品
-          </DropdownMenuItem>
-        </DropdownMenuGroup>
-      </DropdownMenuContent>
-      <span className="sr-only" role="status" aria-live="polite">
-        {scanning
-          ? `正在扫描 ${artwork.title}，${progress}%`
-          : queuedJob?.jobId
-            ? `作品 ${artwork.title} 的重新扫描任务 ${queuedJob.jobId} 已入队${queuedJob.scanRunId ? `，扫描批次 ${queuedJob.scanRunId}` : ''}`
-            : ''}
-      </span>
-    </DropdownMenu>
+    <>
+      <DropdownMenu modal={false}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            aria-label={`打开作品 ${artwork.title} 的操作菜单`}
+            onClick={(event) => event.stopPropagation()}
+          >
+            {scanning ? (
+              <RefreshCw className="animate-spin motion-reduce:animate-none" aria-hidden="true" />
+            ) : error ? (
+              <AlertCircle aria-hidden="true" />
+            ) : (
+              <MoreHorizontal aria-hidden="true" />
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuGroup>
+            <DropdownMenuItem onSelect={onEdit}>
+              <Edit aria-hidden="true" />
+              编辑作品
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={onCopy}>
+              <Copy aria-hidden="true" />
+              复制为新作品
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={scanning} onSelect={handleRescan}>
+              {scanning ? <Spinner aria-hidden="true" /> : <RefreshCw aria-hidden="true" />}
+              {scanning
+                ? `正在重新扫描（${progress}%）`
+                : error
+                  ? '重新扫描（上次失败）'
+                  : queuedJob
+                    ? '重新扫描（已入队）'
+                    : '重新扫描'}
+            </DropdownMenuItem>
+            {artwork.source === ESource.URL_ARCHIVE && (
+              <DropdownMenuItem onSelect={() => setRevisionsOpen(true)}>
+                <History aria-hidden="true" />
+                归档版本历史
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem asChild>
+              <Link href={`/artworks/${artwork.id}`} target="_blank" rel="noreferrer">
+                <ExternalLink aria-hidden="true" />
+                在新标签页打开
+              </Link>
+            </DropdownMenuItem>
+          </DropdownMenuGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuGroup>
+            <DropdownMenuItem variant="destructive" onSelect={onDelete}>
+              <Trash aria-hidden="true" />
+              删除作品
+            </DropdownMenuItem>
+          </DropdownMenuGroup>
+        </DropdownMenuContent>
+        <span className="sr-only" role="status" aria-live="polite">
+          {scanning
+            ? `正在扫描 ${artwork.title}，${progress}%`
+            : queuedJob?.jobId
+              ? `作品 ${artwork.title} 的重新扫描任务 ${queuedJob.jobId} 已入队${queuedJob.scanRunId ? `，扫描批次 ${queuedJob.scanRunId}` : ''}`
+              : ''}
+        </span>
+      </DropdownMenu>
+      {artwork.source === ESource.URL_ARCHIVE && (
+        <ArchiveRevisionDialog
+          open={revisionsOpen}
+          artworkId={artwork.id}
+          artworkTitle={artwork.title}
+          onOpenChange={setRevisionsOpen}
+          onRestored={onRescanComplete}
+        />
+      )}
+    </>
   )
 }
@@ -4,6 +4,7 @@ import { ProDialog } from '@/components/shared/pro-dialog'
 import { formatFileSize } from '@/utils/media'
 import type React from 'react'
 import type { ImageListItem } from './types'
+import { VideoHlsPanel } from './video-hls-panel'
 import { VideoKeyframePanel } from './video-keyframe-panel'
 import { AdminStatusBadge } from '../../_components/admin-status-badge'
 
@@ -138,6 +139,10 @@ export function MediaVideoMetadataDialog({ open, image, onOpenChange }: MediaVid
           <div className="border-t pt-4">
             <VideoKeyframePanel imageId={image.id} visible={open} />
           </div>
+
+          <div className="border-t pt-4">
+            <VideoHlsPanel imageId={image.id} visible={open} />
+          </div>
         </div>
       ) : null}
     </ProDialog>
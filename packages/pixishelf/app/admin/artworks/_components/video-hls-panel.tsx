@@ -0,0 +1,144 @@
+'use client'
+
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Clapperboard, RotateCcw, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Spinner } from '@/components/ui/spinner'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+
+const ACTIVE_STATUSES = ['PENDING', 'RUNNING', 'PAUSING', 'PAUSED', 'RETRY_WAIT', 'CANCELLING']
+
+const REASON_LABELS: Record<string, string> = {
+  CONTAINER: '容器',
+  VIDEO_CODEC: '视频编码',
+  PIXEL_FORMAT: '像素格式',
+  AUDIO_CODEC: '音频编码',
+  BITRATE: '码率'
+}
+
+export function VideoHlsPanel({ imageId, visible }: { imageId: number; visible: boolean }) {
+  const trpc = useTRPC()
+  const details = useQuery(
+    trpc.job.getVideoHlsDetails.queryOptions(
+      { imageId },
+      {
+        enabled: visible,
+        refetchInterval: (query) => (ACTIVE_STATUSES.includes(query.state.data?.job?.status ?? '') ? 1000 : false)
+      }
+    )
+  )
+  const job = details.data?.job
+  const published = details.data?.published
+  const active = Boolean(job && ACTIVE_STATUSES.includes(job.status))
+
+  const start = useMutation(
+    trpc.job.startVideoHlsTranscode.mutationOptions({
+      onSuccess: (data) => {
+        toast.success(data.reused ? '该视频已有进行中的 HLS 转码任务' : 'HLS 转码任务已提交')
+        void details.refetch()
+      },
+      onError: (error) => toast.error(`提交失败: ${error.message}`)
+    })
+  )
+  const cancel = useMutation(
+    trpc.job.cancelBackgroundJob.mutationOptions({
+      onSuccess: () => void details.refetch(),
+      onError: (error) => toast.error(`取消失败: ${error.message}`)
+    })
+  )
+  const retry = useMutation(
+    trpc.job.retryBackgroundJob.mutationOptions({
+      onSuccess: () => void details.refetch(),
+      onError: (error) => toast.error(`重试失败: ${error.message}`)
+    })
+  )
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            HLS 兼容转码
+            {published ? (
+              <Badge variant="outline">{published.renditions.map((item) => item.name).join(' / ')}</Badge>
+            ) : null}
+            {published?.outdatedPolicy ? <Badge variant="warning">策略已更新</Badge> : null}
+          </div>
+          {job ? <p className="mt-1 text-xs text-muted-foreground">{job.message || job.status}</p> : null}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {!active ? (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={start.isPending}
+              onClick={() => {
+                if (!published) {
+                  start.mutate({ imageId, force: false })
+                  return
+                }
+                confirm({
+                  title: '重新生成 HLS 码率档位？',
+                  description: '新档位发布后旧档位会被替换；即使原视频已满足兼容策略也会强制转码。',
+                  confirmText: '确认重建',
+                  variant: 'destructive',
+                  onConfirm: () => start.mutate({ imageId, force: true })
+                })
+              }}
+            >
+              {start.isPending ? (
+                <Spinner data-icon="inline-start" aria-hidden="true" />
+              ) : published ? (
+                <RotateCcw data-icon="inline-start" aria-hidden="true" />
+              ) : (
+                <Clapperboard data-icon="inline-start" aria-hidden="true" />
+              )}
+              {published ? '强制重建' : '检查并转码'}
+            </Button>
+          ) : null}
+          {active && job ? (
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={job.status === 'CANCELLING' || cancel.isPending}
+              onClick={() => cancel.mutate({ jobId: job.id })}
+            >
+              <X data-icon="inline-start" aria-hidden="true" />
+              取消
+            </Button>
+          ) : null}
+          {job && ['FAILED', 'CANCELLED'].includes(job.status) ? (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={retry.isPending}
+              onClick={() => retry.mutate({ jobId: job.id })}
+            >
+              <RotateCcw data-icon="inline-start" aria-hidden="true" />
+              重试
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {job && ['RUNNING', 'CANCELLING'].includes(job.status) ? (
+        <div className="flex items-center gap-2">
+          <Progress value={job.progress} className="h-2 flex-1" />
+          <span className="text-xs">{job.progress}%</span>
+        </div>
+      ) : null}
+      {job?.error ? <p className="text-xs text-destructive">{job.error}</p> : null}
+      {published ? (
+        <p className="text-xs text-muted-foreground">
+          转码原因：{published.reasons.map((reason) => REASON_LABELS[reason] ?? reason).join('、') || '手动强制'}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">尚未生成 HLS；满足浏览器兼容策略的视频会被跳过。</p>
+      )}
+    </div>
+  )
+}
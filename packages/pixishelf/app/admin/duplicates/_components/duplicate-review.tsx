@@ -0,0 +1,253 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Fingerprint, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PageState } from '@/components/layout/page-state'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+import { cn } from '@/lib/utils'
+import { combinationApiResource } from '@/utils/combination-static'
+import type { DuplicateCluster } from '@/schemas/duplicate.dto'
+import { AdminMetric, AdminSection, AdminSectionHeader } from '../../_components/admin-workbench'
+
+const DISTANCE_OPTIONS = [
+  { value: '1', label: '严格（距离 ≤ 1）' },
+  { value: '3', label: '标准（距离 ≤ 3）' },
+  { value: '6', label: '宽松（距离 ≤ 6）' }
+]
+
+const numberFormatter = new Intl.NumberFormat('zh-CN')
+
+export function DuplicateReview() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [maxDistance, setMaxDistance] = useState(3)
+
+  const coverageQuery = useQuery(trpc.duplicate.coverage.queryOptions())
+  const clustersQuery = useQuery(trpc.duplicate.clusters.queryOptions({ maxDistance, limit: 50 }))
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: trpc.duplicate.clusters.queryKey() })
+    queryClient.invalidateQueries({ queryKey: trpc.duplicate.coverage.queryKey() })
+  }
+
+  const startHashingMutation = useMutation(
+    trpc.duplicate.startHashing.mutationOptions({
+      onSuccess: () => {
+        toast.success('已加入指纹计算任务')
+        invalidate()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const coverage = coverageQuery.data
+  const clusters = clustersQuery.data ?? []
+
+  return (
+    <div className="flex flex-col gap-8">
+      <AdminSection>
+        <AdminSectionHeader
+          title="指纹覆盖"
+          description="扫描或归档完成后会自动补算新图片；历史图片可在这里手动补算。"
+          actions={
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => startHashingMutation.mutate()}
+              disabled={startHashingMutation.isPending}
+            >
+              {startHashingMutation.isPending ? (
+                <Loader2 className="size-4 animate-spin motion-reduce:animate-none" aria-hidden="true" />
+              ) : (
+                <Fingerprint className="size-4" aria-hidden="true" />
+              )}
+              补算指纹
+            </Button>
+          }
+        />
+        <div className="grid gap-x-6 sm:grid-cols-3">
+          <AdminMetric label="已计算" value={coverage ? numberFormatter.format(coverage.hashed) : '—'} />
+          <AdminMetric label="待计算" value={coverage ? numberFormatter.format(coverage.pending) : '—'} />
+          <AdminMetric
+            label="无法识别"
+            value={coverage ? numberFormatter.format(coverage.failed) : '—'}
+            description="文件无法解码，不参与比较"
+          />
+        </div>
+      </AdminSection>
+
+      <AdminSection>
+        <AdminSectionHeader
+          title="重复分组"
+          description={clustersQuery.isPending ? '正在比较指纹…' : `共 ${clusters.length} 组待审阅`}
+          actions={
+            <>
+              <Select value={String(maxDistance)} onValueChange={(value) => setMaxDistance(Number(value))}>
+                <SelectTrigger className="w-44" aria-label="相似度阈值">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    {DISTANCE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => clustersQuery.refetch()}
+                disabled={clustersQuery.isFetching}
+              >
+                <RefreshCw
+                  className={cn('size-4 motion-reduce:animate-none', clustersQuery.isFetching && 'animate-spin')}
+                  aria-hidden="true"
+                />
+                刷新
+              </Button>
+            </>
+          }
+        />
+
+        {clustersQuery.isError ? (
+          <PageState variant="error" title="读取重复分组失败" description={clustersQuery.error.message} compact />
+        ) : clustersQuery.isPending ? (
+          <PageState variant="loading" title="正在比较指纹…" compact />
+        ) : clusters.length === 0 ? (
+          <PageState
+            variant="empty"
+            title="没有待审阅的近似重复"
+            description="可以放宽阈值，或等待指纹计算完成后再查看。"
+            compact
+          />
+        ) : (
+          <div className="flex flex-col gap-4">
+            {clusters.map((cluster) => (
+              <DuplicateClusterCard key={cluster.key} cluster={cluster} onResolved={invalidate} />
+            ))}
+          </div>
+        )}
+      </AdminSection>
+    </div>
+  )
+}
+
+function DuplicateClusterCard({ cluster, onResolved }: { cluster: DuplicateCluster; onResolved: () => void }) {
+  const trpc = useTRPC()
+  const artworkIds = cluster.artworks.map((artwork) => artwork.id)
+  // 默认保留图片最多的作品，数量相同时保留较早入库的
+  const [canonicalId, setCanonicalId] = useState(
+    () => [...cluster.artworks].sort((left, right) => right.imageCount - left.imageCount || left.id - right.id)[0]!.id
+  )
+
+  const linkMutation = useMutation(
+    trpc.duplicate.link.mutationOptions({
+      onSuccess: () => {
+        toast.success('已标记为重复')
+        onResolved()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+  const dismissMutation = useMutation(
+    trpc.duplicate.dismiss.mutationOptions({
+      onSuccess: () => {
+        toast.success('已标记为不是重复')
+        onResolved()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+  const pending = linkMutation.isPending || dismissMutation.isPending
+
+  const handleDismiss = () => {
+    confirm({
+      title: '标记为不是重复？',
+      description: '这些作品之后不会再出现在同一个重复分组中。',
+      confirmText: '确认',
+      onConfirm: () => dismissMutation.mutate({ artworkIds })
+    })
+  }
+
+  return (
+    <article className="rounded-lg border border-border bg-background p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>
+          {cluster.artworks.length} 个作品 · 最小距离 {cluster.distance}
+        </span>
+        <div className="flex gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={handleDismiss} disabled={pending}>
+            不是重复
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => linkMutation.mutate({ canonicalArtworkId: canonicalId, artworkIds })}
+            disabled={pending}
+          >
+            标记为重复
+          </Button>
+        </div>
+      </div>
+
+      <fieldset className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-5">
+        <legend className="sr-only">选择保留的作品</legend>
+        {cluster.artworks.map((artwork) => {
+          const cover = artwork.images[0]
+          const selected = artwork.id === canonicalId
+          return (
+            <label
+              key={artwork.id}
+              className={cn(
+                'flex cursor-pointer flex-col gap-2 rounded-md border p-2 text-sm transition-colors',
+                selected ? 'border-primary bg-accent' : 'border-border hover:bg-accent/50'
+              )}
+            >
+              <div className="aspect-square overflow-hidden rounded bg-muted">
+                {cover ? (
+                  <img
+                    src={combinationApiResource(cover.posterUrl ?? cover.path)}
+                    alt={artwork.title}
+                    loading="lazy"
+                    className="size-full object-cover"
+                  />
+                ) : null}
+              </div>
+              <div className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name={`duplicate-canonical-${cluster.key}`}
+                  checked={selected}
+                  onChange={() => setCanonicalId(artwork.id)}
+                  className="mt-0.5 accent-primary"
+                />
+                <div className="min-w-0">
+                  <Link
+                    href={`/artworks/${artwork.id}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="line-clamp-2 font-medium text-foreground hover:underline"
+                  >
+                    {artwork.title}
+                  </Link>
+                  <p className="truncate text-xs text-muted-foreground">
+                    #{artwork.id} · {artwork.imageCount} 张{artwork.artist ? ` · ${artwork.artist.name}` : ''}
+                  </p>
+                </div>
+              </div>
+            </label>
+          )
+        })}
+      </fieldset>
+    </article>
+  )
+}
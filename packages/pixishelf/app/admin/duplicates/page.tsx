@@ -0,0 +1,16 @@
+import { Metadata } from 'next'
+import { DuplicateReview } from './_components/duplicate-review'
+import { AdminWorkbench } from '../_components/admin-workbench'
+
+export const metadata: Metadata = {
+  title: '近似重复 - PixiShelf Admin',
+  description: '按图片感知指纹审阅近似重复的作品'
+}
+
+export default function DuplicatesPage() {
+  return (
+    <AdminWorkbench title="近似重复" description="按图片感知指纹分组，确认保留的作品或标记为不是重复。">
+      <DuplicateReview />
+    </AdminWorkbench>
+  )
+}
@@ -0,0 +1,384 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ChevronLeft, ChevronRight, Download, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Field, FieldGroup, FieldLabel } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageState } from '@/components/layout/page-state'
+import { useTRPC } from '@/lib/trpc'
+import type {
+  ArtworkExportCreateSchema,
+  ArtworkExportDisplayStatus,
+  ArtworkExportSelectionInput
+} from '@/schemas/artwork-export.dto'
+import { formatFileSize } from '@/utils/media'
+import { AdminSection, AdminSectionHeader, AdminTableFrame } from '../../_components/admin-workbench'
+import { AdminStatusBadge } from '../../_components/admin-status-badge'
+
+const PAGE_SIZE = 20
+
+type SelectionMode = ArtworkExportSelectionInput['mode']
+type ExportFormat = NonNullable<ArtworkExportCreateSchema['format']>
+
+const MODE_LABELS: Record<SelectionMode, string> = {
+  ARTWORK_IDS: '指定作品',
+  SERIES: '整个系列',
+  QUERY: '按条件筛选'
+}
+
+const STATUS_LABELS: Record<ArtworkExportDisplayStatus, string> = {
+  PENDING: '打包中',
+  READY: '可下载',
+  FAILED: '失败',
+  EXPIRED: '已过期'
+}
+
+const EMPTY_FORM = {
+  mode: 'ARTWORK_IDS' as SelectionMode,
+  artworkIds: '',
+  seriesId: '',
+  search: '',
+  artistName: '',
+  format: 'CBZ' as ExportFormat,
+  retentionHours: '72',
+  label: ''
+}
+
+type ExportForm = typeof EMPTY_FORM
+
+/**
+ * 把表单转换为导出选择，输入不完整时返回错误提示
+ */
+function buildSelection(form: ExportForm): ArtworkExportSelectionInput | string {
+  if (form.mode === 'ARTWORK_IDS') {
+    const artworkIds = [
+      ...new Set(
+        form.artworkIds
+          .split(/[\s,，]+/)
+          .filter(Boolean)
+          .map(Number)
+      )
+    ]
+    if (artworkIds.length === 0 || artworkIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+      return '请输入有效的作品 ID，多个 ID 用逗号分隔'
+    }
+    return { mode: 'ARTWORK_IDS', artworkIds }
+  }
+  if (form.mode === 'SERIES') {
+    const seriesId = Number(form.seriesId)
+    if (!Number.isInteger(seriesId) || seriesId <= 0) return '请输入有效的系列 ID'
+    return { mode: 'SERIES', seriesId }
+  }
+  const search = form.search.trim()
+  const artistName = form.artistName.trim()
+  if (!search && !artistName) return '请至少填写一个筛选条件'
+  return { mode: 'QUERY', filters: { search: search || null, artistName: artistName || null } }
+}
+
+/**
+ * 导出任务列表与新建导出表单
+ */
+export function ArtworkExports() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [page, setPage] = useState(1)
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const exportsQuery = useQuery({
+    ...trpc.artworkExport.list.queryOptions({ page, pageSize: PAGE_SIZE }),
+    // 有任务仍在打包时定时刷新状态
+    refetchInterval: (query) => (query.state.data?.items.some((item) => item.status === 'PENDING') ? 5000 : false)
+  })
+
+  const createMutation = useMutation(
+    trpc.artworkExport.create.mutationOptions({
+      onSuccess: (created) => {
+        toast.success(`已创建导出任务，共 ${created.requestedCount} 个作品`)
+        setOpen(false)
+        setForm(EMPTY_FORM)
+        setPage(1)
+        queryClient.invalidateQueries({ queryKey: trpc.artworkExport.list.queryKey() })
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    const selection = buildSelection(form)
+    if (typeof selection === 'string') {
+      toast.error(selection)
+      return
+    }
+    createMutation.mutate({
+      selection,
+      format: form.format,
+      retentionHours: Number(form.retentionHours),
+      label: form.label.trim() || undefined
+    })
+  }
+
+  const data = exportsQuery.data
+  const items = data?.items ?? []
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  return (
+    <AdminSection>
+      <AdminSectionHeader
+        title="导出记录"
+        description="单个作品导出为一个 CBZ；多个作品或系列会按顺序打包，每个作品附带 ComicInfo.xml。"
+        actions={
+          <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+            <Plus className="size-4" aria-hidden="true" />
+            新建导出
+          </Button>
+        }
+      />
+      <AdminTableFrame>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>名称</TableHead>
+              <TableHead>状态</TableHead>
+              <TableHead>作品</TableHead>
+              <TableHead>大小</TableHead>
+              <TableHead>创建时间</TableHead>
+              <TableHead>过期时间</TableHead>
+              <TableHead className="w-24">下载</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7}>
+                  <PageState
+                    variant={exportsQuery.isError ? 'error' : exportsQuery.isLoading ? 'loading' : 'empty'}
+                    title={
+                      exportsQuery.isError ? '读取导出记录失败' : exportsQuery.isLoading ? '加载中' : '暂无导出记录'
+                    }
+                    compact
+                  />
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="max-w-72">
+                    <div className="truncate font-medium" title={item.label}>
+                      {item.label}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {item.format} · {MODE_LABELS[item.selectionMode as SelectionMode] ?? item.selectionMode}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <AdminStatusBadge status={item.status}>{STATUS_LABELS[item.status]}</AdminStatusBadge>
+                    {item.error ? (
+                      <div className="mt-1 max-w-56 truncate text-xs text-destructive" title={item.error}>
+                        {item.error}
+                      </div>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="tabular-nums">
+                    {item.status === 'PENDING' ? item.requestedCount : item.artworkCount}
+                    {item.skippedCount > 0 ? (
+                      <span className="ml-1 text-xs text-muted-foreground">（跳过 {item.skippedCount}）</span>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="tabular-nums">
+                    {item.sizeBytes === null ? '—' : formatFileSize(item.sizeBytes)}
+                  </TableCell>
+                  <TableCell>{new Date(item.createdAt).toLocaleString('zh-CN')}</TableCell>
+                  <TableCell>{item.expiresAt ? new Date(item.expiresAt).toLocaleString('zh-CN') : '—'}</TableCell>
+                  <TableCell>
+                    {item.downloadUrl ? (
+                      <Button asChild size="icon" variant="ghost">
+                        <a href={item.downloadUrl} download aria-label={`下载：${item.label}`}>
+                          <Download className="size-4" aria-hidden="true" />
+                        </a>
+                      </Button>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminTableFrame>
+
+      {data && data.total > data.pageSize ? (
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          <span className="tabular-nums">
+            {page} / {pageCount}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            aria-label="上一页"
+            disabled={page <= 1}
+            onClick={() => setPage((value) => value - 1)}
+          >
+            <ChevronLeft className="size-4" aria-hidden="true" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            aria-label="下一页"
+            disabled={page >= pageCount}
+            onClick={() => setPage((value) => value + 1)}
+          >
+            <ChevronRight className="size-4" aria-hidden="true" />
+          </Button>
+        </div>
+      ) : null}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>新建导出</DialogTitle>
+            <DialogDescription>单次最多导出 500 个作品，源文件缺失的作品会被跳过并在结果中计数。</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <FieldGroup className="gap-4">
+              <Field className="gap-2">
+                <FieldLabel htmlFor="artwork-export-mode">导出范围</FieldLabel>
+                <Select value={form.mode} onValueChange={(mode) => setForm({ ...form, mode: mode as SelectionMode })}>
+                  <SelectTrigger id="artwork-export-mode" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {Object.entries(MODE_LABELS).map(([mode, label]) => (
+                        <SelectItem key={mode} value={mode}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </Field>
+              {form.mode === 'ARTWORK_IDS' ? (
+                <Field className="gap-2">
+                  <FieldLabel htmlFor="artwork-export-ids">作品 ID</FieldLabel>
+                  <Input
+                    id="artwork-export-ids"
+                    name="artwork-export-ids"
+                    autoComplete="off"
+                    placeholder="例如 12, 15, 31"
+                    value={form.artworkIds}
+                    onChange={(event) => setForm({ ...form, artworkIds: event.target.value })}
+                    required
+                  />
+                </Field>
+              ) : null}
+              {form.mode === 'SERIES' ? (
+                <Field className="gap-2">
+                  <FieldLabel htmlFor="artwork-export-series">系列 ID</FieldLabel>
+                  <Input
+                    id="artwork-export-series"
+                    name="artwork-export-series"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={form.seriesId}
+                    onChange={(event) => setForm({ ...form, seriesId: event.target.value })}
+                    required
+                  />
+                </Field>
+              ) : null}
+              {form.mode === 'QUERY' ? (
+                <>
+                  <Field className="gap-2">
+                    <FieldLabel htmlFor="artwork-export-search">关键词</FieldLabel>
+                    <Input
+                      id="artwork-export-search"
+                      name="artwork-export-search"
+                      autoComplete="off"
+                      value={form.search}
+                      onChange={(event) => setForm({ ...form, search: event.target.value })}
+                    />
+                  </Field>
+                  <Field className="gap-2">
+                    <FieldLabel htmlFor="artwork-export-artist">艺术家</FieldLabel>
+                    <Input
+                      id="artwork-export-artist"
+                      name="artwork-export-artist"
+                      autoComplete="off"
+                      value={form.artistName}
+                      onChange={(event) => setForm({ ...form, artistName: event.target.value })}
+                    />
+                  </Field>
+                </>
+              ) : null}
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field className="gap-2">
+                  <FieldLabel htmlFor="artwork-export-format">格式</FieldLabel>
+                  <Select
+                    value={form.format}
+                    onValueChange={(format) => setForm({ ...form, format: format as ExportFormat })}
+                  >
+                    <SelectTrigger id="artwork-export-format" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        <SelectItem value="CBZ">CBZ</SelectItem>
+                        <SelectItem value="ZIP">ZIP</SelectItem>
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                </Field>
+                <Field className="gap-2">
+                  <FieldLabel htmlFor="artwork-export-retention">保留小时数</FieldLabel>
+                  <Input
+                    id="artwork-export-retention"
+                    name="artwork-export-retention"
+                    type="number"
+                    min={1}
+                    max={720}
+                    value={form.retentionHours}
+                    onChange={(event) => setForm({ ...form, retentionHours: event.target.value })}
+                    required
+                  />
+                </Field>
+              </div>
+              <Field className="gap-2">
+                <FieldLabel htmlFor="artwork-export-label">名称</FieldLabel>
+                <Input
+                  id="artwork-export-label"
+                  name="artwork-export-label"
+                  autoComplete="off"
+                  placeholder="留空时按作品或系列自动命名"
+                  value={form.label}
+                  onChange={(event) => setForm({ ...form, label: event.target.value })}
+                />
+              </Field>
+            </FieldGroup>
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? '提交中…' : '开始导出'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminSection>
+  )
+}
@@ -0,0 +1,19 @@
+import { Metadata } from 'next'
+import { ArtworkExports } from './_components/artwork-exports'
+import { AdminWorkbench } from '../_components/admin-workbench'
+
+export const metadata: Metadata = {
+  title: '作品导出 - PixiShelf Admin',
+  description: '把作品、系列或筛选结果打包为带 ComicInfo.xml 的 CBZ/ZIP 文件'
+}
+
+export default function ArtworkExportsPage() {
+  return (
+    <AdminWorkbench
+      title="作品导出"
+      description="导出任务在 Worker 中打包，完成后可在保留期内下载，过期文件由衍生媒体清理任务删除。"
+    >
+      <ArtworkExports />
+    </AdminWorkbench>
+  )
+}
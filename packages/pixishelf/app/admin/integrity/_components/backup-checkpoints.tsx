@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Field, FieldGroup, FieldLabel } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { PageState } from '@/components/layout/page-state'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+import { AdminSection, AdminSectionHeader, AdminTableFrame } from '../../_components/admin-workbench'
+
+const EMPTY_FORM = { label: '', location: '', takenAt: '', note: '' }
+
+/**
+ * 已登记的备份检查点：完整性报告据此为受影响作品找到最近的完好副本
+ */
+export function BackupCheckpoints() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const checkpointsQuery = useQuery(trpc.mediaIntegrity.checkpoints.queryOptions())
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: trpc.mediaIntegrity.checkpoints.queryKey() })
+    queryClient.invalidateQueries({ queryKey: trpc.mediaIntegrity.report.queryKey() })
+  }
+
+  const createMutation = useMutation(
+    trpc.mediaIntegrity.createCheckpoint.mutationOptions({
+      onSuccess: () => {
+        toast.success('已登记备份')
+        setOpen(false)
+        setForm(EMPTY_FORM)
+        invalidate()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const deleteMutation = useMutation(
+    trpc.mediaIntegrity.deleteCheckpoint.mutationOptions({
+      onSuccess: () => {
+        toast.success('已删除备份记录')
+        invalidate()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    createMutation.mutate({
+      label: form.label,
+      location: form.location,
+      takenAt: new Date(form.takenAt),
+      note: form.note
+    })
+  }
+
+  const checkpoints = checkpointsQuery.data ?? []
+
+  return (
+    <AdminSection>
+      <AdminSectionHeader
+        title="备份检查点"
+        description="backup:checkpoint 命令会自动登记带签名清单的检查点；其他方式完成的备份验证通过后在这里手动登记。报告会把每个受影响作品关联到文件仍完好时的最近一份备份。"
+        actions={
+          <Button type="button" variant="outline" onClick={() => setOpen(true)}>
+            <Plus className="size-4" aria-hidden="true" />
+            登记备份
+          </Button>
+        }
+      />
+      <AdminTableFrame>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>名称</TableHead>
+              <TableHead>完成时间</TableHead>
+              <TableHead>位置</TableHead>
+              <TableHead>备注</TableHead>
+              <TableHead className="w-20">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {checkpoints.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5}>
+                  <PageState
+                    variant={checkpointsQuery.isError ? 'error' : 'empty'}
+                    title={checkpointsQuery.isError ? '读取备份记录失败' : '尚未登记备份'}
+                    compact
+                  />
+                </TableCell>
+              </TableRow>
+            ) : (
+              checkpoints.map((checkpoint) => (
+                <TableRow key={checkpoint.id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {checkpoint.label}
+                      {checkpoint.manifestSha256 ? (
+                        <Badge variant="secondary" title={`清单 SHA-256：${checkpoint.manifestSha256}`}>
+                          签名清单
+                        </Badge>
+                      ) : null}
+                    </div>
+                  </TableCell>
+                  <TableCell>{new Date(checkpoint.takenAt).toLocaleString('zh-CN')}</TableCell>
+                  <TableCell className="max-w-64 truncate font-mono text-xs" title={checkpoint.location ?? undefined}>
+                    {checkpoint.location ?? '—'}
+                  </TableCell>
+                  <TableCell className="max-w-64 truncate text-muted-foreground">{checkpoint.note ?? '—'}</TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`删除备份记录：${checkpoint.label}`}
+                      disabled={deleteMutation.isPending}
+                      onClick={() =>
+                        confirm({
+                          title: `删除备份记录“${checkpoint.label}”？`,
+                          description: '只删除登记记录，不会删除备份文件本身。',
+                          confirmText: '删除',
+                          onConfirm: () => deleteMutation.mutate({ id: checkpoint.id })
+                        })
+                      }
+                    >
+                      <Trash2 className="size-4" aria-hidden="true" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminTableFrame>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>登记备份</DialogTitle>
+            <DialogDescription>只登记已完成并验证过的备份，完成时间以备份开始读取原媒体的时刻为准。</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <FieldGroup className="gap-4">
+              <Field className="gap-2">
+                <FieldLabel htmlFor="backup-checkpoint-label">名称</FieldLabel>
+                <Input
+                  id="backup-checkpoint-label"
+                  name="backup-checkpoint-label"
+                  autoComplete="off"
+                  value={form.label}
+                  onChange={(event) => setForm({ ...form, label: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field className="gap-2">
+                <FieldLabel htmlFor="backup-checkpoint-taken-at">完成时间</FieldLabel>
+                <Input
+                  id="backup-checkpoint-taken-at"
+                  name="backup-checkpoint-taken-at"
+                  type="datetime-local"
+                  value={form.takenAt}
+                  onChange={(event) => setForm({ ...form, takenAt: event.target.value })}
+                  required
+                />
+              </Field>
+              <Field className="gap-2">
+                <FieldLabel htmlFor="backup-checkpoint-location">位置</FieldLabel>
+                <Input
+                  id="backup-checkpoint-location"
+                  name="backup-checkpoint-location"
+                  autoComplete="off"
+                  placeholder="备份目录或快照名称"
+                  value={form.location}
+                  onChange={(event) => setForm({ ...form, location: event.target.value })}
+                />
+              </Field>
+              <Field className="gap-2">
+                <FieldLabel htmlFor="backup-checkpoint-note">备注</FieldLabel>
+                <Textarea
+                  id="backup-checkpoint-note"
+                  name="backup-checkpoint-note"
+                  autoComplete="off"
+                  value={form.note}
+                  onChange={(event) => setForm({ ...form, note: event.target.value })}
+                />
+              </Field>
+            </FieldGroup>
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? '提交中…' : '登记'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </AdminSection>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2, PauseCircle, PlayCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+import { AdminSection, AdminSectionHeader } from '../../_components/admin-workbench'
+
+/**
+ * 维护模式开关：开启后 Worker 两个执行通道停止领取任务，界面写操作一律被拒绝
+ * @description 备份检查点命令会自动开启并恢复；这里用于外部快照前手动静默，或命令中断后退出
+ */
+export function MaintenanceMode() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const statusQuery = useQuery(trpc.maintenance.status.queryOptions(undefined, { refetchInterval: 10_000 }))
+
+  const setMutation = useMutation(
+    trpc.maintenance.set.mutationOptions({
+      onSuccess: (state) => {
+        toast.success(state.enabled ? '已进入维护模式' : '已退出维护模式')
+        queryClient.invalidateQueries({ queryKey: trpc.maintenance.status.queryKey() })
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const status = statusQuery.data
+  const enabled = status?.enabled ?? false
+
+  const handleToggle = () => {
+    confirm({
+      title: enabled ? '退出维护模式？' : '进入维护模式？',
+      description: enabled
+        ? '如果备份命令仍在运行，请等待它自行恢复；提前退出会让备份期间重新出现写入。'
+        : '进入后 Worker 不再领取新任务（运行中的任务会正常收尾），界面与 Server Action 的写操作都会被拒绝，直到手动退出。',
+      confirmText: enabled ? '退出' : '进入',
+      onConfirm: () =>
+        setMutation.mutate(enabled ? { enabled: false } : { enabled: true, reason: '管理员手动进入维护模式' })
+    })
+  }
+
+  return (
+    <AdminSection>
+      <AdminSectionHeader
+        title={
+          <span className="flex items-center gap-2">
+            维护模式
+            {status ? (
+              <Badge variant={enabled ? 'warning' : 'secondary'}>{enabled ? '维护中' : '正常写入'}</Badge>
+            ) : null}
+          </span>
+        }
+        description={
+          enabled && status
+            ? `自 ${status.enabledAt ? new Date(status.enabledAt).toLocaleString('zh-CN') : '—'} 起${status.reason ? `：${status.reason}` : ''}`
+            : '备份检查点命令会自动进入并在完成后恢复；外部快照前也可以在这里手动静默写入。'
+        }
+        actions={
+          <Button
+            type="button"
+            variant={enabled ? 'default' : 'outline'}
+            onClick={handleToggle}
+            disabled={!status || setMutation.isPending}
+          >
+            {setMutation.isPending ? (
+              <Loader2 className="size-4 animate-spin motion-reduce:animate-none" aria-hidden="true" />
+            ) : enabled ? (
+              <PlayCircle className="size-4" aria-hidden="true" />
+            ) : (
+              <PauseCircle className="size-4" aria-hidden="true" />
+            )}
+            {enabled ? '退出维护模式' : '进入维护模式'}
+          </Button>
+        }
+      />
+    </AdminSection>
+  )
+}
@@ -0,0 +1,287 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArchiveRestore, ChevronLeft, ChevronRight, Loader2, RefreshCw, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { PageState } from '@/components/layout/page-state'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+import { cn } from '@/lib/utils'
+import type {
+  MediaIntegrityAffectedArtwork,
+  MediaIntegrityIssueItem,
+  MediaIntegrityIssueKind
+} from '@/schemas/media-integrity.dto'
+import { AdminMetric, AdminSection, AdminSectionHeader } from '../../_components/admin-workbench'
+
+const PAGE_SIZE = 20
+
+const numberFormatter = new Intl.NumberFormat('zh-CN')
+
+const KIND_LABELS: Record<MediaIntegrityIssueKind, string> = {
+  MISSING: '文件缺失',
+  MISMATCH: '内容不一致',
+  UNREADABLE: '无法读取'
+}
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString('zh-CN') : '—'
+}
+
+export function MediaIntegrityReport() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [page, setPage] = useState(1)
+
+  const coverageQuery = useQuery(trpc.mediaIntegrity.coverage.queryOptions())
+  const reportQuery = useQuery(trpc.mediaIntegrity.report.queryOptions({ page, pageSize: PAGE_SIZE }))
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: trpc.mediaIntegrity.report.queryKey() })
+    queryClient.invalidateQueries({ queryKey: trpc.mediaIntegrity.coverage.queryKey() })
+  }
+
+  const startScrubMutation = useMutation(
+    trpc.mediaIntegrity.startScrub.mutationOptions({
+      onSuccess: () => {
+        toast.success('已加入完整性巡检任务')
+        invalidate()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const coverage = coverageQuery.data
+  const report = reportQuery.data
+  const openIssueCount = coverage
+    ? coverage.openIssues.MISSING + coverage.openIssues.MISMATCH + coverage.openIssues.UNREADABLE
+    : null
+  const pageCount = report ? Math.max(1, Math.ceil(report.total / report.pageSize)) : 1
+
+  return (
+    <>
+      <AdminSection>
+        <AdminSectionHeader
+          title="哈希覆盖"
+          description={`新文件会先补齐哈希，之后按最久未校验优先轮换复核。最近一次校验：${formatTime(coverage?.lastCheckedAt ?? null)}`}
+          actions={
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => startScrubMutation.mutate()}
+              disabled={startScrubMutation.isPending}
+            >
+              {startScrubMutation.isPending ? (
+                <Loader2 className="size-4 animate-spin motion-reduce:animate-none" aria-hidden="true" />
+              ) : (
+                <ShieldCheck className="size-4" aria-hidden="true" />
+              )}
+              立即巡检
+            </Button>
+          }
+        />
+        <div className="grid gap-x-6 sm:grid-cols-2 lg:grid-cols-4">
+          <AdminMetric label="已记录哈希" value={coverage ? numberFormatter.format(coverage.hashed) : '—'} />
+          <AdminMetric label="尚未校验" value={coverage ? numberFormatter.format(coverage.pending) : '—'} />
+          <AdminMetric
+            label="到期待复核"
+            value={coverage ? numberFormatter.format(coverage.due) : '—'}
+            description="超过 90 天未校验"
+          />
+          <AdminMetric
+            label="未解决问题"
+            value={openIssueCount === null ? '—' : numberFormatter.format(openIssueCount)}
+            description={
+              coverage
+                ? `缺失 ${coverage.openIssues.MISSING} · 不一致 ${coverage.openIssues.MISMATCH} · 无法读取 ${coverage.openIssues.UNREADABLE}`
+                : undefined
+            }
+          />
+        </div>
+      </AdminSection>
+
+      <AdminSection>
+        <AdminSectionHeader
+          title="受影响的作品"
+          description={report ? `共 ${report.total} 个作品存在未解决的问题` : '正在读取完整性报告…'}
+          actions={
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => reportQuery.refetch()}
+              disabled={reportQuery.isFetching}
+            >
+              <RefreshCw
+                className={cn('size-4 motion-reduce:animate-none', reportQuery.isFetching && 'animate-spin')}
+                aria-hidden="true"
+              />
+              刷新
+            </Button>
+          }
+        />
+
+        {reportQuery.isError ? (
+          <PageState variant="error" title="读取完整性报告失败" description={reportQuery.error.message} compact />
+        ) : !report ? (
+          <PageState variant="loading" title="正在读取完整性报告…" compact />
+        ) : report.items.length === 0 ? (
+          <PageState
+            variant="empty"
+            title="没有发现缺失或损坏的原媒体"
+            description="巡检发现问题后会在这里按作品列出。"
+            compact
+          />
+        ) : (
+          <div className="flex flex-col gap-4">
+            {report.items.map((item) => (
+              <AffectedArtworkCard
+                key={item.artwork?.id ?? `deleted-${item.issues[0]?.id}`}
+                item={item}
+                onResolved={invalidate}
+              />
+            ))}
+          </div>
+        )}
+
+        {report && report.total > report.pageSize ? (
+          <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <span className="tabular-nums">
+              {page} / {pageCount}
+            </span>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              aria-label="上一页"
+              disabled={page <= 1}
+              onClick={() => setPage((value) => value - 1)}
+            >
+              <ChevronLeft className="size-4" aria-hidden="true" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              aria-label="下一页"
+              disabled={page >= pageCount}
+              onClick={() => setPage((value) => value + 1)}
+            >
+              <ChevronRight className="size-4" aria-hidden="true" />
+            </Button>
+          </div>
+        ) : null}
+      </AdminSection>
+    </>
+  )
+}
+
+function AffectedArtworkCard({ item, onResolved }: { item: MediaIntegrityAffectedArtwork; onResolved: () => void }) {
+  const { artwork, lastGoodCheckpoint } = item
+
+  return (
+    <article className="rounded-lg border border-border bg-background p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="min-w-0">
+          {artwork ? (
+            <Link
+              href={`/artworks/${artwork.id}`}
+              target="_blank"
+              rel="noreferrer"
+              className="font-medium text-foreground hover:underline"
+            >
+              {artwork.title}
+            </Link>
+          ) : (
+            <span className="font-medium text-muted-foreground">作品已删除</span>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {artwork ? `#${artwork.id}${artwork.artistName ? ` · ${artwork.artistName}` : ''} · ` : ''}
+            {item.issues.length} 个文件
+          </p>
+        </div>
+        <div className="flex min-w-0 items-start gap-2 text-sm sm:max-w-sm sm:text-right">
+          <ArchiveRestore className="mt-0.5 size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+          {lastGoodCheckpoint ? (
+            <div className="min-w-0">
+              <p className="font-medium text-foreground">最近完好备份：{lastGoodCheckpoint.label}</p>
+              <p className="truncate text-xs text-muted-foreground" title={lastGoodCheckpoint.location ?? undefined}>
+                {formatTime(lastGoodCheckpoint.takenAt)}
+                {lastGoodCheckpoint.location ? ` · ${lastGoodCheckpoint.location}` : ''}
+              </p>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">
+              {item.hasUnverifiedFiles
+                ? '部分文件从未校验通过，无法判断哪份备份可用'
+                : '没有可用备份：文件收录后、损坏前未登记备份'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <ul className="mt-3 flex flex-col divide-y divide-border border-t border-border">
+        {item.issues.map((issue) => (
+          <IssueRow key={issue.id} issue={issue} onResolved={onResolved} />
+        ))}
+      </ul>
+    </article>
+  )
+}
+
+function IssueRow({ issue, onResolved }: { issue: MediaIntegrityIssueItem; onResolved: () => void }) {
+  const trpc = useTRPC()
+  const acceptMutation = useMutation(
+    trpc.mediaIntegrity.accept.mutationOptions({
+      onSuccess: () => {
+        toast.success('已接受当前文件，下次巡检会重新记录哈希')
+        onResolved()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const handleAccept = () => {
+    confirm({
+      title: '接受当前文件？',
+      description: '适用于已从备份恢复或确认文件被有意修改的情况。下次巡检会以当前内容作为新的哈希基准。',
+      confirmText: '接受',
+      onConfirm: () => acceptMutation.mutate({ issueId: issue.id })
+    })
+  }
+
+  return (
+    <li className="flex flex-col gap-2 py-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+      <div className="min-w-0">
+        <div className="flex min-w-0 items-center gap-2">
+          <Badge variant={issue.kind === 'MISMATCH' ? 'destructive' : 'warning'}>{KIND_LABELS[issue.kind]}</Badge>
+          <span className="truncate font-mono text-xs" title={issue.path}>
+            {issue.path}
+          </span>
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          发现于 {formatTime(issue.detectedAt)} · 最近确认 {formatTime(issue.lastSeenAt)} · 最后完好{' '}
+          {formatTime(issue.lastVerifiedAt)}
+        </p>
+        {issue.kind === 'MISMATCH' ? (
+          <p className="mt-1 truncate font-mono text-xs text-muted-foreground">
+            {issue.expectedSha256?.slice(0, 16)} → {issue.actualSha256?.slice(0, 16)}
+          </p>
+        ) : null}
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="self-start sm:self-center"
+        onClick={handleAccept}
+        disabled={acceptMutation.isPending}
+      >
+        接受当前文件
+      </Button>
+    </li>
+  )
+}
@@ -0,0 +1,25 @@
+import { Metadata } from 'next'
+import { MediaIntegrityReport } from './_components/media-integrity-report'
+import { BackupCheckpoints } from './_components/backup-checkpoints'
+import { MaintenanceMode } from './_components/maintenance-mode'
+import { AdminWorkbench } from '../_components/admin-workbench'
+
+export const metadata: Metadata = {
+  title: '媒体完整性 - PixiShelf Admin',
+  description: '巡检原媒体哈希，定位缺失或损坏的文件及可用备份，管理维护模式与备份检查点'
+}
+
+export default function MediaIntegrityPage() {
+  return (
+    <AdminWorkbench
+      title="媒体完整性"
+      description="按 SHA-256 巡检原媒体，列出缺失或内容不一致的作品及其最近的完好备份。"
+    >
+      <div className="flex flex-col gap-8">
+        <MediaIntegrityReport />
+        <MaintenanceMode />
+        <BackupCheckpoints />
+      </div>
+    </AdminWorkbench>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { FileArchive, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/spinner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { MAX_MEDIA_UPLOAD_SIZE_BYTES, MAX_MEDIA_UPLOAD_SIZE_LABEL } from '@/lib/upload-limits'
+import type { ApiErrorResponse, ApiSuccessResponse } from '@/lib/api-response'
+
+type ArchiveUploadResponse = ApiSuccessResponse<{ archive: { storagePath: string; pageCount: number } }>
+
+interface LocalArchiveUploadCardProps {
+  /** 预览中已出现的艺术家目录，作为输入建议 */
+  artistDirectories: string[]
+  disabled?: boolean
+  /** 上传完成后刷新目录预览 */
+  onUploaded: () => void
+}
+
+export function LocalArchiveUploadCard({
+  artistDirectories,
+  disabled = false,
+  onUploaded
+}: LocalArchiveUploadCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [artistDirectory, setArtistDirectory] = useState('')
+  const [uploading, setUploading] = useState<string | null>(null)
+
+  const uploadFiles = async (files: File[]) => {
+    const directory = artistDirectory.trim()
+    if (!directory) {
+      toast.error('请先填写艺术家目录')
+      return
+    }
+    let uploaded = 0
+    // 逐个上传：服务端会在落盘前校验压缩包结构，单个失败不影响其余文件。
+    for (const file of files) {
+      if (file.size > MAX_MEDIA_UPLOAD_SIZE_BYTES) {
+        toast.error(`${file.name} 超过大小限制（${MAX_MEDIA_UPLOAD_SIZE_LABEL}）`)
+        continue
+      }
+      setUploading(file.name)
+      try {
+        const res = await fetch('/api/v1/local-imports/archives', {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/octet-stream',
+            'x-artist-directory': encodeURIComponent(directory),
+            'x-file-name': encodeURIComponent(file.name),
+            'x-file-size': file.size.toString()
+          },
+          body: file
+        })
+        if (!res.ok) {
+          const err = (await res.json().catch(() => ({}))) as Partial<ApiErrorResponse>
+          throw new Error(err.error || '上传失败')
+        }
+        const json = (await res.json()) as ArchiveUploadResponse
+        uploaded += 1
+        toast.success(`已上传 ${json.archive.storagePath}（${json.archive.pageCount} 页）`)
+      } catch (error) {
+        toast.error(`${file.name}: ${error instanceof Error ? error.message : '上传失败'}`)
+      }
+    }
+    setUploading(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    if (uploaded > 0) onUploaded()
+  }
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="border-b bg-muted/10 px-6 py-5">
+        <CardTitle className="text-lg">上传压缩包</CardTitle>
+        <CardDescription>
+          CBZ/ZIP/7z 会保存到 scanPath/local-imports/艺术家目录，导入时在同目录解压为作品，并读取其中的 ComicInfo.xml。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3 p-6 sm:flex-row sm:items-center">
+        <Input
+          value={artistDirectory}
+          onChange={(event) => setArtistDirectory(event.target.value)}
+          list="local-import-artist-directories"
+          name="local-import-artist-directory"
+          aria-label="艺术家目录"
+          autoComplete="off"
+          placeholder="艺术家目录名"
+          className="sm:max-w-xs"
+          disabled={disabled || uploading !== null}
+        />
+        <datalist id="local-import-artist-directories">
+          {artistDirectories.map((directory) => (
+            <option key={directory} value={directory} />
+          ))}
+        </datalist>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".cbz,.zip,.7z"
+          multiple
+          name="local-import-archives"
+          aria-label="选择 CBZ/ZIP/7z 压缩包"
+          onChange={(event) => void uploadFiles(Array.from(event.target.files ?? []))}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading !== null || !artistDirectory.trim()}
+          className="shrink-0"
+        >
+          {uploading ? (
+            <Spinner data-icon="inline-start" aria-hidden="true" />
+          ) : (
+            <Upload data-icon="inline-start" aria-hidden="true" />
+          )}
+          选择压缩包
+        </Button>
+        {uploading && (
+          <span className="flex min-w-0 items-center gap-2 text-sm text-muted-foreground">
+            <FileArchive className="size-4 shrink-0" aria-hidden="true" />
+            <span className="truncate">{uploading}</span>
+          </span>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,6 +14,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import MultipleSelector, { type Option } from '@/components/shared/multiple-selector'
 import { confirm } from '@/components/shared/global-confirm'
 import { AdminStatusBadge } from '../../_components/admin-status-badge'
+import { LocalArchiveUploadCard } from './local-archive-upload-card'
 import { cn } from '@/lib/utils'
 
 interface LocalImportStatusView {
@@ -155,7 +156,7 @@ export default function LocalDirectoryImportManagement() {
             <code className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs text-foreground">
               scanPath/local-imports/艺术家/[分类...]/作品
             </code>
-            ，已有作品将直接跳过。
+            ，已有作品将直接跳过；CBZ/ZIP/7z 压缩包会作为独立作品解压导入。
           </p>
         </div>
 
@@ -180,10 +181,11 @@ export default function LocalDirectoryImportManagement() {
           </CardHeader>
           <CardContent className="p-6">
             {previewQuery.data ? (
-              <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-7">
                 <Stat label="待导入" value={previewQuery.data.counts.new} highlight />
                 <Stat label="艺术家" value={previewQuery.data.counts.artists} />
                 <Stat label="作品目录" value={previewQuery.data.counts.works} />
+                <Stat label="待解压压缩包" value={previewQuery.data.counts.archives} />
                 <Stat label="已有跳过" value={previewQuery.data.counts.existing} />
                 <Stat label="无效目录" value={previewQuery.data.counts.invalid} />
                 <Stat label="直属媒体" value={previewQuery.data.counts.media} />
@@ -199,6 +201,12 @@ export default function LocalDirectoryImportManagement() {
           </CardContent>
         </Card>
 
+        <LocalArchiveUploadCard
+          artistDirectories={previewQuery.data?.artists.map((artist) => artist.artistDirectory) ?? []}
+          disabled={isRunning}
+          onUploaded={() => void previewQuery.refetch()}
+        />
+
         {importArtists.length > 0 && (
           <Card className="shadow-sm border-primary/20 overflow-hidden">
             <CardHeader className="border-b bg-primary/5 px-6 py-5">
@@ -416,7 +424,13 @@ function readNumber(value: unknown): number | null {
 }
 
 function splitErrorMessages(...values: Array<string | null | undefined>) {
-  return values.flatMap((value) => value?.split(/\r?\n/).map((line) => line.trim()).filter(Boolean) ?? [])
+  return values.flatMap(
+    (value) =>
+      value
+        ?.split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean) ?? []
+  )
 }
 
 function formatImportDuration(durationMs: number | null) {
@@ -437,7 +451,12 @@ function Stat({
 }) {
   if (highlight) {
     return (
-      <div className={cn('flex flex-col gap-1.5 rounded-xl border border-primary/20 bg-primary/5 p-4 shadow-sm', className)}>
+      <div
+        className={cn(
+          'flex flex-col gap-1.5 rounded-xl border border-primary/20 bg-primary/5 p-4 shadow-sm',
+          className
+        )}
+      >
         <div className="text-xs font-medium text-primary/80">{label}</div>
         <div className="text-3xl font-bold tracking-tight text-primary">{value}</div>
       </div>
@@ -4,6 +4,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import ScanManagement from './scan-management'
 import { SystemSettingsPanel } from './system-settings-panel'
 import LocalDirectoryImportManagement from './local-directory-import-management'
+import { StorageLayoutPanel } from './storage-layout-panel'
 
 export function SettingManagement() {
   return (
@@ -12,6 +13,7 @@ export function SettingManagement() {
           <TabsList className="w-max min-w-full justify-start sm:min-w-0">
             <TabsTrigger value="scan">Pixiv 扫描</TabsTrigger>
             <TabsTrigger value="local-import">本地目录导入</TabsTrigger>
+            <TabsTrigger value="storage-layout">存储布局</TabsTrigger>
             <TabsTrigger value="system">系统设置</TabsTrigger>
           </TabsList>
       </div>
@@ -22,6 +24,9 @@ export function SettingManagement() {
       <TabsContent value="local-import" className="m-0">
         <LocalDirectoryImportManagement />
       </TabsContent>
+      <TabsContent value="storage-layout" className="m-0">
+        <StorageLayoutPanel />
+      </TabsContent>
       <TabsContent value="system" className="m-0">
         <SystemSettingsPanel />
       </TabsContent>
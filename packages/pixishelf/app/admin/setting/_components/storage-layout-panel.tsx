@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type { inferRouterOutputs } from '@trpc/server'
+import { ArrowRight, Eye, RotateCcw, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { SCard } from '@/components/shared/s-card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/spinner'
+import { useTRPC } from '@/lib/trpc'
+import type { AppRouter } from '@/server'
+
+type RouterOutputs = inferRouterOutputs<AppRouter>
+type LayoutPreviewStatus = RouterOutputs['migration']['layoutPreview']['items'][number]['status']
+
+const PREVIEW_PAGE_SIZE = 50
+
+const statusCopy: Record<
+  LayoutPreviewStatus,
+  { label: string; variant: 'success' | 'info' | 'warning' | 'destructive' | 'muted' }
+> = {
+  UNCHANGED: { label: '无需移动', variant: 'success' },
+  MOVE: { label: '将移动', variant: 'info' },
+  COLLISION: { label: '目录冲突，追加 ID', variant: 'warning' },
+  CONFLICT: { label: '需要处理', variant: 'destructive' },
+  INVALID: { label: '无法生成', variant: 'destructive' },
+  INCOMPLETE: { label: '不会迁移', variant: 'muted' }
+}
+
+const variableCopy: Record<string, string> = {
+  provider: '来源',
+  creator: '艺术家名',
+  creatorId: '艺术家 ID',
+  externalId: '作品外部 ID',
+  title: '标题',
+  artworkId: '作品库 ID'
+}
+
+export function StorageLayoutPanel() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const layoutQuery = useQuery(trpc.setting.getStorageLayout.queryOptions())
+  const savedTemplate = layoutQuery.data?.template
+  const [draft, setDraft] = useState('')
+  // 预览只在点击后按当时的草稿执行，避免输入过程中反复校验和查询
+  const [previewTemplate, setPreviewTemplate] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (savedTemplate !== undefined) setDraft(savedTemplate)
+  }, [savedTemplate])
+
+  const previewQuery = useInfiniteQuery(
+    trpc.migration.layoutPreview.infiniteQueryOptions(
+      { template: previewTemplate ?? '', limit: PREVIEW_PAGE_SIZE },
+      {
+        initialCursor: null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled: previewTemplate !== null,
+        retry: false
+      }
+    )
+  )
+  const previewItems = useMemo(() => previewQuery.data?.pages.flatMap((page) => page.items) ?? [], [previewQuery.data])
+
+  const saveMutation = useMutation(
+    trpc.setting.setStorageLayout.mutationOptions({
+      onSuccess: (data) => {
+        queryClient.setQueryData(trpc.setting.getStorageLayout.queryKey(), (current) =>
+          current ? { ...current, template: data.template } : current
+        )
+        toast.success('存储布局已保存，之后发起的迁移和新归档作品会使用新布局')
+      },
+      onError: (error) => {
+        toast.error(`存储布局保存失败: ${error.message}`)
+      }
+    })
+  )
+
+  const trimmedDraft = draft.trim()
+  const isDirty = savedTemplate !== undefined && trimmedDraft !== savedTemplate
+
+  return (
+    <div className="py-6">
+      <div className="mx-auto flex max-w-4xl flex-col gap-6">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">存储布局</h2>
+          <p className="mt-1 text-sm text-muted-foreground">
+            配置作品在扫描目录中的存放位置。保存后只影响之后发起的迁移和新建的 URL
+            归档作品，已排队的任务保持原布局；扫描和本地导入的作品留在原处，迁移时才采用新布局。
+          </p>
+        </div>
+
+        <SCard
+          title="目录模板"
+          description="用 / 分隔目录层级，必须包含 {externalId}。标题、艺术家名等文本会替换非法字符并截断；目标目录已被其他作品占用时会在末级追加 ~作品库 ID。"
+          footer={
+            <div className="flex w-full flex-wrap items-center justify-end gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                disabled={!layoutQuery.data || trimmedDraft === layoutQuery.data.defaultTemplate}
+                onClick={() => layoutQuery.data && setDraft(layoutQuery.data.defaultTemplate)}
+              >
+                <RotateCcw data-icon="inline-start" aria-hidden="true" />
+                恢复默认
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!trimmedDraft}
+                onClick={() => setPreviewTemplate(trimmedDraft)}
+              >
+                <Eye data-icon="inline-start" aria-hidden="true" />
+                预览
+              </Button>
+              <Button
+                type="button"
+                disabled={!isDirty || !trimmedDraft || saveMutation.isPending}
+                onClick={() => saveMutation.mutate({ template: trimmedDraft })}
+              >
+                {saveMutation.isPending ? (
+                  <Spinner data-icon="inline-start" aria-hidden="true" />
+                ) : (
+                  <Save data-icon="inline-start" aria-hidden="true" />
+                )}
+                保存
+              </Button>
+            </div>
+          }
+        >
+          <div className="flex flex-col gap-3">
+            <Input
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              name="storage-layout-template"
+              aria-label="存储布局模板"
+              autoComplete="off"
+              spellCheck={false}
+              placeholder={layoutQuery.data?.defaultTemplate}
+              className="font-mono"
+              disabled={layoutQuery.isLoading}
+            />
+            <div className="flex flex-wrap gap-2">
+              {(layoutQuery.data?.variables ?? []).map((variable) => (
+                <Button
+                  key={variable}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDraft((current) => `${current}{${variable}}`)}
+                >
+                  <span className="font-mono">{`{${variable}}`}</span>
+                  <span className="text-muted-foreground">{variableCopy[variable] ?? variable}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        </SCard>
+
+        {previewTemplate !== null && (
+          <SCard
+            title="迁移预览"
+            description={`按作品 ID 顺序模拟 ${previewTemplate} 下的目标目录，不会读写文件。执行期间的目录占用以实际迁移时为准。`}
+          >
+            {previewQuery.isError ? (
+              <Alert variant="destructive">
+                <AlertTitle>无法生成预览</AlertTitle>
+                <AlertDescription>{previewQuery.error.message}</AlertDescription>
+              </Alert>
+            ) : previewQuery.isPending ? (
+              <div className="flex justify-center py-6">
+                <Spinner aria-label="正在生成预览" />
+              </div>
+            ) : previewItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">暂无作品</p>
+            ) : (
+              <div className="flex flex-col gap-3">
+                <ul className="divide-y divide-border rounded-md border">
+                  {previewItems.map((item) => (
+                    <li key={item.artworkId} className="flex flex-col gap-1.5 px-4 py-3">
+                      <div className="flex min-w-0 items-center gap-2">
+                        <Badge variant={statusCopy[item.status].variant}>{statusCopy[item.status].label}</Badge>
+                        <span className="truncate text-sm font-medium">
+                          #{item.artworkId} {item.title}
+                        </span>
+                      </div>
+                      <div className="flex min-w-0 flex-wrap items-center gap-1.5 font-mono text-xs text-muted-foreground">
+                        <span className="break-all">{item.currentDirectory ?? '—'}</span>
+                        <ArrowRight className="size-3 shrink-0" aria-hidden="true" />
+                        <span className="break-all text-foreground">{item.targetDirectory ?? '—'}</span>
+                      </div>
+                      {item.reason && <p className="text-xs text-muted-foreground">{item.reason}</p>}
+                    </li>
+                  ))}
+                </ul>
+                {previewQuery.hasNextPage && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="self-center"
+                    disabled={previewQuery.isFetchingNextPage}
+                    onClick={() => void previewQuery.fetchNextPage()}
+                  >
+                    {previewQuery.isFetchingNextPage && <Spinner data-icon="inline-start" aria-hidden="true" />}
+                    加载更多
+                  </Button>
+                )}
+              </div>
+            )}
+          </SCard>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,15 @@
 import Link from 'next/link'
 import { unstable_cache } from 'next/cache'
-import { ImageIcon, TagsIcon, UsersIcon, WallpaperIcon } from 'lucide-react'
+import { ClockIcon, EyeIcon, ImageIcon, PlayIcon, TagsIcon, UsersIcon, WallpaperIcon } from 'lucide-react'
 import { prisma } from '@/lib/prisma'
 import logger from '@/lib/logger'
 import { ROUTES } from '@/lib/constants'
+import { formatDuration } from '@/lib/utils'
 import { Progress } from '@/components/ui/progress'
 import { PageState } from '@/components/layout/page-state'
+import { DailyActivityChart } from '@/components/view-history/daily-activity-chart'
+import { getViewStats } from '@/services/view-history-service'
+import type { ViewStats } from '@/schemas/view-history.dto'
 import { AdminMetric, AdminSection, AdminSectionHeader, AdminWorkbench } from '../_components/admin-workbench'
 
 export const dynamic = 'force-dynamic'
@@ -83,11 +87,32 @@ const getCachedStats = unstable_cache(
   { revalidate: 60 }
 )
 
+const VIEW_STATS_DAYS = 30
+
+/**
+ * 全部用户最近 30 天的浏览活跃，按服务器时区划分日期
+ */
+const getCachedViewStats = unstable_cache(
+  async (): Promise<ViewStats | null> => {
+    try {
+      return await getViewStats({
+        days: VIEW_STATS_DAYS,
+        timeZone: new Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+      })
+    } catch (error) {
+      logger.error('View Stats Error:', error)
+      return null
+    }
+  },
+  ['admin-view-stats'],
+  { revalidate: 300 }
+)
+
 export default async function StatsDashboardPage() {
-  const stats = await getCachedStats()
+  const [stats, viewStats] = await Promise.all([getCachedStats(), getCachedViewStats()])
 
   return (
-    <AdminWorkbench title="图库状态" description="概览当前档案规模，并查看收录量最高的艺术家与标签。">
+    <AdminWorkbench title="图库状态" description="概览当前档案规模、收录量最高的艺术家与标签，以及近期浏览活跃。">
       {stats.error ? (
         <PageState
           variant="error"
@@ -114,6 +139,8 @@ export default async function StatsDashboardPage() {
           <Leaderboard title="热门艺术家" description="按作品收录量排序" data={stats.topArtists} type="artist" />
           <Leaderboard title="热门标签" description="按作品使用量排序" data={stats.topTags} type="tag" />
         </div>
+
+        <ViewActivity stats={viewStats} />
       </div>
       )}
     </AdminWorkbench>
@@ -128,24 +155,75 @@ function MetricLink({ href, children }: { href: string; children: React.ReactNod
   )
 }
 
+function ViewActivity({ stats }: { stats: ViewStats | null }) {
+  return (
+    <AdminSection aria-labelledby="view-activity-heading">
+      <AdminSectionHeader
+        title={<span id="view-activity-heading">浏览活跃</span>}
+        description={`全部用户最近 ${VIEW_STATS_DAYS} 天的浏览记录，按页面停留时长统计`}
+      />
+      {!stats ? (
+        <PageState variant="error" title="浏览统计加载失败" description="请稍后刷新页面。" compact />
+      ) : (
+        <div className="flex min-w-0 flex-col gap-8">
+          <div className="grid min-w-0 gap-x-6 sm:grid-cols-2 xl:grid-cols-4">
+            <AdminMetric label="浏览次数" value={stats.totals.viewCount.toLocaleString()} icon={<EyeIcon className="size-4" aria-hidden="true" />} />
+            <AdminMetric label="浏览作品" value={stats.totals.artworkCount.toLocaleString()} icon={<WallpaperIcon className="size-4" aria-hidden="true" />} />
+            <AdminMetric label="停留时长" value={formatDuration(stats.totals.durationSec)} icon={<ClockIcon className="size-4" aria-hidden="true" />} />
+            <AdminMetric label="视频观看" value={formatDuration(stats.totals.videoWatchSec)} icon={<PlayIcon className="size-4" aria-hidden="true" />} />
+          </div>
+          <DailyActivityChart data={stats.daily} />
+          <div className="grid min-w-0 gap-8 xl:grid-cols-2">
+            <Leaderboard
+              title="最受关注的艺术家"
+              description="按浏览停留时长排序"
+              data={stats.topArtists.map((item) => ({ id: item.id, name: item.name, count: item.durationSec }))}
+              type="artist"
+              idPrefix="viewed"
+              formatValue={formatDuration}
+              emptyDescription="用户浏览作品后，这里会按停留时长排序。"
+            />
+            <Leaderboard
+              title="最受关注的标签"
+              description="按浏览停留时长排序"
+              data={stats.topTags.map((item) => ({ id: item.id, name: item.name, count: item.durationSec }))}
+              type="tag"
+              idPrefix="viewed"
+              formatValue={formatDuration}
+              emptyDescription="用户浏览作品后，这里会按停留时长排序。"
+            />
+          </div>
+        </div>
+      )}
+    </AdminSection>
+  )
+}
+
 function Leaderboard({
   title,
   description,
   data,
-  type
+  type,
+  idPrefix = 'leaderboard',
+  formatValue = String,
+  emptyDescription = '完成更多导入后，这里会显示收录排行。'
 }: {
   title: string
   description: string
   data: { id: number; name: string; count: number }[]
   type: 'artist' | 'tag'
+  idPrefix?: string
+  formatValue?: (value: number) => string
+  emptyDescription?: string
 }) {
   const maxValue = data[0]?.count || 1
+  const headingId = `${idPrefix}-${type}`
 
   return (
-    <AdminSection aria-labelledby={`leaderboard-${type}`}>
-      <AdminSectionHeader title={<span id={`leaderboard-${type}`}>{title}</span>} description={description} />
+    <AdminSection aria-labelledby={headingId}>
+      <AdminSectionHeader title={<span id={headingId}>{title}</span>} description={description} />
       {data.length === 0 ? (
-        <PageState variant="empty" title="暂无排行数据" description="完成更多导入后，这里会显示收录排行。" compact />
+        <PageState variant="empty" title="暂无排行数据" description={emptyDescription} compact />
       ) : (
         <ol className="flex min-w-0 flex-col border-b border-border">
           {data.map((item, index) => {
@@ -163,9 +241,9 @@ function Leaderboard({
                     <span className="min-w-0 flex-1 truncate text-sm font-medium text-foreground group-hover:text-primary">
                       {item.name}
                     </span>
-                    <span className="font-utility shrink-0 text-sm font-semibold text-foreground tabular-nums">{item.count}</span>
+                    <span className="font-utility shrink-0 text-sm font-semibold text-foreground tabular-nums">{formatValue(item.count)}</span>
                   </span>
-                  <Progress className="mt-2 h-1.5" value={percentage} aria-label={`${item.name}：${item.count}`} />
+                  <Progress className="mt-2 h-1.5" value={percentage} aria-label={`${item.name}：${formatValue(item.count)}`} />
                 </Link>
               </li>
             )
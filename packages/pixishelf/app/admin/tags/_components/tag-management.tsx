@@ -2,7 +2,7 @@
 
 import { useState, useCallback } from 'react'
 import { toast } from 'sonner'
-import { RefreshCw, Download, Edit2, Trash, Languages, Search, RotateCcw, Plus } from 'lucide-react'
+import { RefreshCw, Download, Edit2, Trash, Languages, Search, RotateCcw, Plus, GitMerge } from 'lucide-react'
 import type { TagManagementStats } from '@/types/tags'
 import { useTRPC, useTRPCClient } from '@/lib/trpc'
 import { Button } from '@/components/ui/button'
@@ -20,6 +20,8 @@ import { Badge } from '@/components/ui/badge'
 // 导入子组件
 import { TagStatsCards } from './tag-stats-cards'
 import { TagDialog } from './tag-dialog'
+import { TagRulesDialog } from './tag-rules-dialog'
+import { TagMergeHistory } from './tag-merge-history'
 
 // 定义 TagListItem 类型，匹配后端返回的数据结构
 interface TagListItem {
@@ -103,6 +105,7 @@ export default function TagManagement() {
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editingTag, setEditingTag] = useState<TagListItem | null>(null)
   const [refreshKey, setRefreshKey] = useState(0)
+  const [rulesTag, setRulesTag] = useState<TagListItem | null>(null)
 
   // 同步 URL 查询参数到当前列表状态
   const [searchState, setSearchState] = useQueryStates({
@@ -238,7 +241,7 @@ export default function TagManagement() {
     {
       id: 'actions',
       header: '操作',
-      size: 150,
+      size: 190,
       cell: ({ row }) => {
         const record = row.original
         const tName = getTranslateName(record)
@@ -254,6 +257,15 @@ export default function TagManagement() {
             >
               <Edit2 aria-hidden="true" />
             </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setRulesTag(record)}
+              className="size-8 text-muted-foreground hover:text-foreground"
+              aria-label={`标签规则 ${record.name}`}
+            >
+              <GitMerge aria-hidden="true" />
+            </Button>
             {!tName && (
               <Button
                 size="icon"
@@ -425,6 +437,15 @@ export default function TagManagement() {
         tag={editingTag}
         onSuccess={() => setRefreshKey((prev) => prev + 1)}
       />
+
+      <TagRulesDialog
+        open={rulesTag !== null}
+        onOpenChange={(open) => !open && setRulesTag(null)}
+        tag={rulesTag}
+        onChanged={() => setRefreshKey((prev) => prev + 1)}
+      />
+
+      <TagMergeHistory onChanged={() => setRefreshKey((prev) => prev + 1)} />
     </div>
   )
 }
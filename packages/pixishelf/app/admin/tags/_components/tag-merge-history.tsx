@@ -0,0 +1,102 @@
+'use client'
+
+import { toast } from 'sonner'
+import { Undo2 } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { PageState } from '@/components/layout/page-state'
+import { confirm } from '@/components/shared/global-confirm'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useTRPC } from '@/lib/trpc'
+import { TAG_MERGE_UNDO_WINDOW_DAYS } from '@/schemas/tag-rule.dto'
+import { AdminSection, AdminSectionHeader, AdminTableFrame } from '../../_components/admin-workbench'
+
+/**
+ * 最近的标签合并记录，撤销期限内可恢复
+ */
+export function TagMergeHistory({ onChanged }: { onChanged: () => void }) {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const mergesQuery = useQuery(trpc.tag.merges.queryOptions({ limit: 20 }))
+
+  const undoMutation = useMutation(
+    trpc.tag.undoMerge.mutationOptions({
+      onSuccess: (merge) => {
+        toast.success(`已恢复标签“${merge.sourceName}”`)
+        queryClient.invalidateQueries({ queryKey: trpc.tag.merges.queryKey() })
+        onChanged()
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  )
+
+  const merges = mergesQuery.data ?? []
+
+  return (
+    <AdminSection>
+      <AdminSectionHeader title="合并记录" description={`合并后 ${TAG_MERGE_UNDO_WINDOW_DAYS} 天内可以撤销。`} />
+      <AdminTableFrame>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>源标签</TableHead>
+              <TableHead>目标标签</TableHead>
+              <TableHead>改挂作品</TableHead>
+              <TableHead>合并时间</TableHead>
+              <TableHead className="w-24">操作</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {merges.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5}>
+                  <PageState
+                    variant={mergesQuery.isError ? 'error' : 'empty'}
+                    title={mergesQuery.isError ? '读取合并记录失败' : '暂无合并记录'}
+                    compact
+                  />
+                </TableCell>
+              </TableRow>
+            ) : (
+              merges.map((merge) => (
+                <TableRow key={merge.id}>
+                  <TableCell className="font-medium">{merge.sourceName}</TableCell>
+                  <TableCell>
+                    {merge.targetTag?.name ?? <span className="text-muted-foreground">已删除</span>}
+                  </TableCell>
+                  <TableCell className="tabular-nums">{merge.movedArtworkCount}</TableCell>
+                  <TableCell>{new Date(merge.createdAt).toLocaleString('zh-CN')}</TableCell>
+                  <TableCell>
+                    {merge.undoneAt ? (
+                      <span className="text-sm text-muted-foreground">已撤销</span>
+                    ) : merge.canUndo ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={undoMutation.isPending}
+                        onClick={() =>
+                          confirm({
+                            title: `撤销合并“${merge.sourceName}”？`,
+                            description: '源标签及其作品关联、别名与蕴含关系会按合并前的状态恢复。',
+                            confirmText: '撤销合并',
+                            onConfirm: () => undoMutation.mutate({ id: merge.id })
+                          })
+                        }
+                      >
+                        <Undo2 data-icon="inline-start" aria-hidden="true" />
+                        撤销
+                      </Button>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">已过期</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </AdminTableFrame>
+    </AdminSection>
+  )
+}
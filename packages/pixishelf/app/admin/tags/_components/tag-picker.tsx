@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Input } from '@/components/ui/input'
+import { useTRPC } from '@/lib/trpc'
+import { getTranslateName } from '@/utils/tags'
+
+export interface TagPickerValue {
+  id: number
+  name: string
+  name_zh: string | null
+  name_en: string | null
+  artworkCount: number
+}
+
+interface TagPickerProps {
+  id: string
+  placeholder?: string
+  /** 不出现在候选中的标签 */
+  excludeIds?: number[]
+  onSelect: (tag: TagPickerValue) => void
+}
+
+/**
+ * 按名称搜索并选择一个已有标签
+ */
+export function TagPicker({ id, placeholder = '搜索标签…', excludeIds = [], onSelect }: TagPickerProps) {
+  const trpc = useTRPC()
+  const [query, setQuery] = useState('')
+  const search = query.trim()
+
+  const { data, isFetching } = useQuery(
+    trpc.tag.management.queryOptions(
+      { page: 1, limit: 8, search, filter: 'all', sort: 'artworkCount', order: 'desc' },
+      { enabled: search.length > 0 }
+    )
+  )
+  const candidates = (data?.data.tags ?? []).filter((tag) => !excludeIds.includes(tag.id))
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Input
+        id={id}
+        autoComplete="off"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder={placeholder}
+        className="h-8"
+      />
+      {search ? (
+        <ul className="max-h-48 overflow-y-auto rounded-md border border-border text-sm" role="listbox">
+          {candidates.length === 0 ? (
+            <li className="px-3 py-2 text-muted-foreground">{isFetching ? '搜索中…' : '没有匹配的标签'}</li>
+          ) : (
+            candidates.map((tag) => (
+              <li key={tag.id} role="option" aria-selected={false}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left hover:bg-accent"
+                  onClick={() => {
+                    onSelect(tag)
+                    setQuery('')
+                  }}
+                >
+                  <span className="truncate">
+                    {tag.name}
+                    {getTranslateName(tag) ? (
+                      <span className="ml-1 text-muted-foreground">{getTranslateName(tag)}</span>
+                    ) : null}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground tabular-nums">{tag.artworkCount}</span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { toast } from 'sonner'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ProDialog } from '@/components/shared/pro-dialog'
+import { confirm } from '@/components/shared/global-confirm'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Field, FieldDescription, FieldGroup, FieldLabel } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { useTRPC } from '@/lib/trpc'
+import type { TagRuleTag } from '@/schemas/tag-rule.dto'
+import { getTranslateName } from '@/utils/tags'
+import { TagPicker, type TagPickerValue } from './tag-picker'
+
+interface TagRulesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tag: { id: number; name: string; isSystem: boolean } | null
+  onChanged: () => void
+}
+
+/**
+ * 维护标签别名、蕴含关系，以及把标签合并进另一个标签
+ */
+export function TagRulesDialog({ open, onOpenChange, tag, onChanged }: TagRulesDialogProps) {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [aliasName, setAliasName] = useState('')
+  const [mergeTarget, setMergeTarget] = useState<TagPickerValue | null>(null)
+  const tagId = tag?.id ?? 0
+
+  const rulesQuery = useQuery(trpc.tag.rules.queryOptions({ tagId }, { enabled: open && tagId > 0 }))
+  const rules = rulesQuery.data
+
+  const refreshRules = () => {
+    queryClient.invalidateQueries({ queryKey: trpc.tag.rules.queryKey({ tagId }) })
+    onChanged()
+  }
+  const onError = (error: { message: string }) => toast.error(error.message)
+
+  const createAliasMutation = useMutation(
+    trpc.tag.createAlias.mutationOptions({
+      onSuccess: () => {
+        setAliasName('')
+        refreshRules()
+      },
+      onError
+    })
+  )
+  const deleteAliasMutation = useMutation(trpc.tag.deleteAlias.mutationOptions({ onSuccess: refreshRules, onError }))
+  const createImplicationMutation = useMutation(
+    trpc.tag.createImplication.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(`已为 ${result.inserted} 个作品补充派生标签`)
+        refreshRules()
+      },
+      onError
+    })
+  )
+  const deleteImplicationMutation = useMutation(
+    trpc.tag.deleteImplication.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(`已撤回 ${result.removed} 个派生标签`)
+        refreshRules()
+      },
+      onError
+    })
+  )
+  const mergeMutation = useMutation(
+    trpc.tag.merge.mutationOptions({
+      onSuccess: (merge) => {
+        toast.success(`已合并，${merge.movedArtworkCount} 个作品改用目标标签`)
+        setMergeTarget(null)
+        queryClient.invalidateQueries({ queryKey: trpc.tag.merges.queryKey() })
+        onChanged()
+        onOpenChange(false)
+      },
+      onError
+    })
+  )
+
+  const handleAddAlias = () => {
+    const name = aliasName.trim()
+    if (!name || !tag) return
+    createAliasMutation.mutate({ tagId: tag.id, namespace: 'general', name })
+  }
+
+  const handleMerge = () => {
+    if (!tag || !mergeTarget) return
+    confirm({
+      title: `把“${tag.name}”合并到“${mergeTarget.name}”？`,
+      description: '作品关联、别名与蕴含关系会迁移到目标标签，原标签名保留为别名。合并记录可在标签页底部撤销。',
+      confirmText: '确认合并',
+      variant: 'destructive',
+      onConfirm: () => mergeMutation.mutate({ sourceTagId: tag.id, targetTagId: mergeTarget.id })
+    })
+  }
+
+  const relatedIds = [tagId, ...(rules?.implies.map((item) => item.tag.id) ?? [])]
+
+  return (
+    <ProDialog
+      title={tag ? `标签规则：${tag.name}` : '标签规则'}
+      open={open}
+      width={560}
+      onOpenChange={onOpenChange}
+      onCancel={() => onOpenChange(false)}
+      footer={null}
+    >
+      <FieldGroup className="gap-6 py-2">
+        <Field className="gap-2">
+          <FieldLabel htmlFor="tag-alias-name">别名</FieldLabel>
+          <FieldDescription className="text-xs">搜索和入库时，别名会被解析为当前标签。</FieldDescription>
+          <div className="flex flex-wrap gap-1.5">
+            {rules?.aliases.length ? (
+              rules.aliases.map((alias) => (
+                <Badge key={alias.id} variant="secondary" className="gap-1 font-normal">
+                  {alias.namespace === 'general' ? alias.name : `${alias.namespace}:${alias.name}`}
+                  <button
+                    type="button"
+                    aria-label={`删除别名 ${alias.name}`}
+                    onClick={() => deleteAliasMutation.mutate({ id: alias.id })}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="size-3" aria-hidden="true" />
+                  </button>
+                </Badge>
+              ))
+            ) : (
+              <span className="text-sm text-muted-foreground">暂无别名</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              id="tag-alias-name"
+              autoComplete="off"
+              value={aliasName}
+              onChange={(event) => setAliasName(event.target.value)}
+              onKeyDown={(event) => event.key === 'Enter' && handleAddAlias()}
+              placeholder="输入别名"
+              className="h-8"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={handleAddAlias}
+              disabled={!aliasName.trim() || createAliasMutation.isPending}
+            >
+              添加
+            </Button>
+          </div>
+        </Field>
+
+        <Field className="gap-2">
+          <FieldLabel htmlFor="tag-implication-picker">蕴含</FieldLabel>
+          <FieldDescription className="text-xs">带有当前标签的作品会自动获得以下标签（派生）。</FieldDescription>
+          <RuleTagList
+            items={rules?.implies ?? []}
+            emptyText="暂无蕴含标签"
+            onRemove={(id) => deleteImplicationMutation.mutate({ id })}
+          />
+          <TagPicker
+            id="tag-implication-picker"
+            placeholder="搜索要蕴含的标签…"
+            excludeIds={relatedIds}
+            onSelect={(implied) => tag && createImplicationMutation.mutate({ tagId: tag.id, impliedTagId: implied.id })}
+          />
+          {rules?.impliedBy.length ? (
+            <>
+              <FieldDescription className="text-xs">以下标签蕴含当前标签：</FieldDescription>
+              <RuleTagList
+                items={rules.impliedBy}
+                emptyText=""
+                onRemove={(id) => deleteImplicationMutation.mutate({ id })}
+              />
+            </>
+          ) : null}
+        </Field>
+
+        {!tag?.isSystem ? (
+          <Field className="gap-2">
+            <FieldLabel htmlFor="tag-merge-picker">合并到其他标签</FieldLabel>
+            <FieldDescription className="text-xs">当前标签会被删除，作品改用目标标签。</FieldDescription>
+            {mergeTarget ? (
+              <div className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2 text-sm">
+                <span className="truncate">
+                  {mergeTarget.name}
+                  <span className="ml-2 text-muted-foreground">{mergeTarget.artworkCount} 个作品</span>
+                </span>
+                <div className="flex shrink-0 gap-2">
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setMergeTarget(null)}>
+                    重选
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="destructive"
+                    onClick={handleMerge}
+                    disabled={mergeMutation.isPending}
+                  >
+                    合并
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <TagPicker
+                id="tag-merge-picker"
+                placeholder="搜索目标标签…"
+                excludeIds={[tagId]}
+                onSelect={setMergeTarget}
+              />
+            )}
+          </Field>
+        ) : null}
+      </FieldGroup>
+    </ProDialog>
+  )
+}
+
+function RuleTagList({
+  items,
+  emptyText,
+  onRemove
+}: {
+  items: Array<{ id: number; tag: TagRuleTag }>
+  emptyText: string
+  onRemove: (id: number) => void
+}) {
+  if (items.length === 0) {
+    return emptyText ? <span className="text-sm text-muted-foreground">{emptyText}</span> : null
+  }
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {items.map((item) => (
+        <Badge key={item.id} variant="outline" className="gap-1 font-normal">
+          {getTranslateName(item.tag) ?? item.tag.name}
+          <button
+            type="button"
+            aria-label={`删除关系 ${item.tag.name}`}
+            onClick={() => onRemove(item.id)}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="size-3" aria-hidden="true" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+}
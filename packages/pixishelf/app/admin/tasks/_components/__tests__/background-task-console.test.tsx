@@ -1,5 +1,5 @@
-import type { JobDto, JobEventDto, JobStatus, WorkerHealthDto } from '@pixishelf/job-contracts'
-import { cleanup, fireEvent, render, screen } from '@testing-library/react'
+import type { JobDependencyGraphDto, JobDto, JobEventDto, JobStatus, WorkerHealthDto } from '@pixishelf/job-contracts'
+import { cleanup, fireEvent, render, screen, within } from '@testing-library/react'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import {
   BackgroundTaskConsole,
@@ -33,6 +33,7 @@ const mocks = vi.hoisted(() => ({
     isPolling: false,
     refetch: vi.fn()
   },
+  dependencyGraph: undefined as JobDependencyGraphDto | undefined,
   confirm: vi.fn()
 }))
 
@@ -58,6 +59,7 @@ vi.mock('../use-background-dashboard', () => ({
     refetch: vi.fn()
   }),
   useBackgroundJobEvents: () => mocks.eventQuery,
+  useBackgroundJobDependencies: () => ({ data: mocks.dependencyGraph }),
   useBackgroundJobControls: () => createControls()
 }))
 
@@ -154,6 +156,7 @@ describe('background task console', () => {
     mocks.eventQuery.error = null
     mocks.eventQuery.isPolling = false
     mocks.eventQuery.refetch.mockReset()
+    mocks.dependencyGraph = undefined
     mocks.confirm.mockReset()
   })
 
@@ -550,6 +553,52 @@ describe('background task console', () => {
     expect(retry).toHaveBeenCalledOnce()
   })
 
+  it('renders the dependency chain in execution order and marks the selected job', () => {
+    const job = createJob('SKIPPED', 'job-poster')
+    mocks.dependencyGraph = {
+      jobId: job.id,
+      nodes: [
+        { id: 'job-scan', type: 'SCAN', status: 'COMPLETED', skipReason: null, dependsOnJobIds: [] },
+        {
+          id: 'job-probe',
+          type: 'VIDEO_MEDIA_PROBE',
+          status: 'FAILED',
+          skipReason: null,
+          dependsOnJobIds: ['job-scan']
+        },
+        {
+          id: job.id,
+          type: 'VIDEO_POSTER_GENERATION',
+          status: 'SKIPPED',
+          skipReason: 'PRECONDITION_NOT_MET',
+          dependsOnJobIds: ['job-probe']
+        }
+      ],
+      truncated: false
+    }
+    render(
+      <BackgroundTaskConsoleView
+        dashboard={createDashboard({ recentJobs: [job] })}
+        selectedJob={job}
+        selectedJobLoading={false}
+        onSelectJob={vi.fn()}
+        onRefresh={vi.fn()}
+        refreshing={false}
+        controls={createControls()}
+      />
+    )
+
+    const chain = screen.getByRole('region', { name: '依赖链' })
+    const steps = within(chain).getAllByRole('listitem')
+    expect(steps.map((step) => step.textContent)).toEqual([
+      expect.stringContaining('图库扫描'),
+      expect.stringContaining('等待 #1'),
+      expect.stringContaining('前置任务未完成')
+    ])
+    expect(steps[2]!.getAttribute('aria-current')).toBe('step')
+    expect(within(steps[1]!).getByText('失败')).toBeTruthy()
+  })
+
   it('retries event query errors and confirms destructive cancellation before mutating', () => {
     const job = createJob('RUNNING')
     const controls = createControls()
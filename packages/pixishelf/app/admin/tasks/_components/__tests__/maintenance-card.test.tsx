@@ -5,6 +5,8 @@ const mocks = vi.hoisted(() => ({ confirm: vi.fn() }))
 
 vi.mock('@/components/shared/global-confirm', () => ({ confirm: mocks.confirm }))
 vi.mock('@/lib/trpc', () => ({ useTRPC: vi.fn() }))
+vi.mock('../notification-channel-section', () => ({ NotificationChannelSection: () => null }))
+vi.mock('../video-hls-section', () => ({ VideoHlsSection: () => null }))
 vi.mock('../video-keyframe-section', () => ({ VideoKeyframeSection: () => null }))
 vi.mock('../video-streaming-optimization-section', () => ({ VideoStreamingOptimizationSection: () => null }))
 
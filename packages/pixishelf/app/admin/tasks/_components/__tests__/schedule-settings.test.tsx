@@ -2,6 +2,7 @@ import { cleanup, render, screen } from '@testing-library/react'
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import {
   getScheduledTaskUpdate,
+  isScheduledTaskIntervalValid,
   isScheduledTaskPriorityValid,
   ScheduleSettings,
   type ScheduledTaskView,
@@ -26,7 +27,14 @@ const task: ScheduledTaskView = {
   nextRunAt: '2026-08-18 00:00 Asia/Shanghai'
 }
 
-const draft: TaskDraft = { enabled: true, time: '06:30', priority: '70' }
+const draft: TaskDraft = {
+  enabled: true,
+  scheduleMode: 'DAILY',
+  time: '06:30',
+  intervalMinutes: '',
+  cronExpression: '',
+  priority: '70'
+}
 
 describe('ScheduleSettings cutover semantics', () => {
   afterEach(cleanup)
@@ -150,4 +158,60 @@ describe('ScheduleSettings cutover semantics', () => {
       }
     }
   })
+
+  it('shows the next three materialization times and edits interval and cron schedules', () => {
+    const intervalTask: ScheduledTaskView = {
+      ...task,
+      scheduleMode: 'INTERVAL',
+      intervalMinutes: 360,
+      nextRunAt: '2026-08-17 18:00 Asia/Shanghai',
+      nextRuns: ['2026-08-17T10:00:00.000Z', '2026-08-17T16:00:00.000Z', '2026-08-17T22:00:00.000Z']
+    }
+    const intervalDraft: TaskDraft = { ...draft, time: task.time, scheduleMode: 'INTERVAL', intervalMinutes: '360' }
+    const { unmount } = render(
+      <ScheduleSettings
+        task={intervalTask}
+        draft={intervalDraft}
+        onDraftChange={vi.fn()}
+        onSave={vi.fn()}
+        isSaving={false}
+      />
+    )
+
+    expect(screen.getAllByText('每 6 小时')).toHaveLength(2)
+    expect(screen.getByRole('list', { name: '接下来的物化时间' }).querySelectorAll('li')).toHaveLength(3)
+    expect(screen.getByLabelText('间隔（分钟）')).toHaveProperty('value', '360')
+    expect(screen.queryByLabelText('执行时间')).toBeNull()
+    expect((screen.getByRole('button', { name: '保存计划' }) as HTMLButtonElement).disabled).toBe(true)
+    unmount()
+
+    const cronDraft: TaskDraft = { ...intervalDraft, scheduleMode: 'CRON', cronExpression: ' 0 3 * * 1 ' }
+    render(
+      <ScheduleSettings
+        task={intervalTask}
+        draft={cronDraft}
+        onDraftChange={vi.fn()}
+        onSave={vi.fn()}
+        isSaving={false}
+      />
+    )
+    expect(screen.getByLabelText('Cron 表达式（Asia/Shanghai）')).toHaveProperty('value', ' 0 3 * * 1 ')
+    expect((screen.getByRole('button', { name: '保存计划' }) as HTMLButtonElement).disabled).toBe(false)
+    expect(getScheduledTaskUpdate(intervalTask, cronDraft)).toEqual({
+      key: task.key,
+      enabled: true,
+      time: '04:00',
+      scheduleMode: 'CRON',
+      cronExpression: '0 3 * * 1',
+      priority: 70
+    })
+  })
+
+  it('rejects intervals outside 15 minutes to 7 days', () => {
+    expect(isScheduledTaskIntervalValid('14')).toBe(false)
+    expect(isScheduledTaskIntervalValid('15')).toBe(true)
+    expect(isScheduledTaskIntervalValid('10080')).toBe(true)
+    expect(isScheduledTaskIntervalValid('10081')).toBe(false)
+    expect(isScheduledTaskIntervalValid('90.5')).toBe(false)
+  })
 })
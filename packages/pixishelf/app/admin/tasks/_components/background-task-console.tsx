@@ -1,6 +1,6 @@
 'use client'
 
-import type { JobDto, JobEventDto, JobStatus, WorkerHealthDto } from '@pixishelf/job-contracts'
+import type { JobDependencyGraphDto, JobDto, JobEventDto, JobStatus, WorkerHealthDto } from '@pixishelf/job-contracts'
 import {
   Activity,
   AlertTriangle,
@@ -47,6 +47,7 @@ import {
 import {
   useBackgroundDashboard,
   useBackgroundJobControls,
+  useBackgroundJobDependencies,
   useBackgroundJobDetail,
   useBackgroundJobEvents
 } from './use-background-dashboard'
@@ -650,6 +651,7 @@ function RecentJobs({
 
 function JobDetail({ job, controls }: { job: JobDto; controls: BackgroundControlsView }) {
   const eventQuery = useBackgroundJobEvents(job)
+  const dependencyQuery = useBackgroundJobDependencies(job)
   const [priority, setPriority] = useState(String(job.queuePriority))
   useEffect(() => setPriority(String(job.queuePriority)), [job.id, job.queuePriority])
   const anyPending =
@@ -745,6 +747,10 @@ function JobDetail({ job, controls }: { job: JobDto; controls: BackgroundControl
         </div>
       ) : null}
 
+      {dependencyQuery.data && dependencyQuery.data.nodes.length > 1 ? (
+        <DependencyChain job={job} graph={dependencyQuery.data} />
+      ) : null}
+
       <EventTimeline
         key={job.id}
         job={job}
@@ -820,6 +826,53 @@ function JobActions({ job, controls, disabled }: { job: JobDto; controls: Backgr
   )
 }
 
+function DependencyChain({ job, graph }: { job: JobDto; graph: JobDependencyGraphDto }) {
+  const positions = new Map(graph.nodes.map((node, index) => [node.id, index + 1]))
+
+  return (
+    <section aria-labelledby={`dependencies-${job.id}`} className="mt-5 min-w-0 border-t pt-4">
+      <h4 id={`dependencies-${job.id}`} className="text-sm font-semibold">
+        依赖链
+      </h4>
+      <p className="mt-1 text-xs text-muted-foreground">
+        前置任务全部完成后才会领取后续任务；前置任务失败、取消或跳过时，后续任务会被跳过。
+      </p>
+      <ol className="mt-3 flex min-w-0 flex-col gap-2">
+        {graph.nodes.map((node, index) => (
+          <li
+            key={node.id}
+            aria-current={node.id === job.id ? 'step' : undefined}
+            className={cn(
+              'min-w-0 rounded-lg border px-3 py-2',
+              node.id === job.id && 'border-primary/40 bg-primary/[0.04]'
+            )}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold tabular-nums text-muted-foreground">#{index + 1}</span>
+              <span className="text-sm font-medium">{formatBackgroundJobType(node.type)}</span>
+              <AdminStatusBadge status={node.status}>{formatBackgroundJobStatus(node.status)}</AdminStatusBadge>
+              {node.skipReason === 'PRECONDITION_NOT_MET' ? (
+                <span className="text-xs text-muted-foreground">前置任务未完成</span>
+              ) : null}
+            </div>
+            <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+              <span className="select-text break-all font-mono">{node.id}</span>
+              {node.dependsOnJobIds.length > 0 ? (
+                <span>
+                  等待 {node.dependsOnJobIds.map((id) => (positions.has(id) ? `#${positions.get(id)}` : id)).join('、')}
+                </span>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ol>
+      {graph.truncated ? (
+        <p className="mt-2 text-xs text-muted-foreground">依赖链较长，仅显示与当前任务最近的部分。</p>
+      ) : null}
+    </section>
+  )
+}
+
 const EVENT_SEGMENT_SIZE = 50
 
 function EventTimeline({
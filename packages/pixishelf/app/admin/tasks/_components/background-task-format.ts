@@ -32,12 +32,18 @@ const typeLabels: Partial<Record<JobType, string>> = {
   VIDEO_STREAMING_OPTIMIZATION: '视频播放优化',
   VIDEO_KEYFRAME_DISCOVERY: '代表帧筛选',
   VIDEO_KEYFRAME_GENERATION: '代表帧生成',
+  VIDEO_HLS_TRANSCODE: 'HLS 转码',
   ARCHIVE_IMPORT: '归档导入',
   ARCHIVE_MAINTENANCE: '归档维护',
   ARCHIVE_INTAKE_RETENTION_CLEANUP: '归档收件历史清理',
   SCAN_RUN_RETENTION_CLEANUP: '扫描记录清理',
   TRIGGER_LOG_RETENTION_CLEANUP: '触发日志清理',
-  DERIVED_MEDIA_GC: '衍生媒体清理'
+  DERIVED_MEDIA_GC: '衍生媒体清理',
+  IMAGE_PERCEPTUAL_HASH: '图片感知指纹',
+  UGOIRA_CONVERSION: 'Pixiv 动图转换',
+  MEDIA_INTEGRITY_SCRUB: '原媒体完整性巡检',
+  ARTWORK_EXPORT: '作品导出',
+  ARCHIVE_UPDATE_CHECK: '归档来源更新检查'
 }
 
 const eventLabels: Record<JobEventDto['type'], string> = {
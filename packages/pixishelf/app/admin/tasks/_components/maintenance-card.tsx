@@ -7,11 +7,14 @@ import { useMutation, useQuery } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { Database, Film, ImagePlay, PlayCircle, Tags, Wrench } from 'lucide-react'
 import { useMemo, useState } from 'react'
+import { NotificationChannelSection } from './notification-channel-section'
+import { VideoHlsSection } from './video-hls-section'
 import { VideoKeyframeSection } from './video-keyframe-section'
 import { VideoStreamingOptimizationSection } from './video-streaming-optimization-section'
 import {
   getDraftForTask,
   getScheduledTaskUpdate,
+  getScheduleLabel,
   JobStatus,
   ScheduleSettings,
   TaskAccordion,
@@ -125,14 +128,14 @@ function getScheduledSummary(task: ScheduledTaskView | undefined, job: JobView |
   const jobSummary = getJobSummary(job, isRunning)
   if (jobSummary) return jobSummary
   if (!task?.enabled) return null
-  return task.executionWindow ? '下次 · 上海 00:00–08:00' : `下次 · 每日 ${task.time}`
+  return `下次 · ${getScheduleLabel(task)}`
 }
 
 function getStandaloneSummary(task: ScheduledTaskView) {
   if (task.lastJobStatus && ['PENDING', 'RUNNING', 'CANCELLING'].includes(task.lastJobStatus)) return '正在运行'
   if (task.lastJobStatus === 'FAILED') return '需要处理 · 上次执行失败'
   if (!task.enabled) return null
-  return task.executionWindow ? '下次 · 上海 00:00–08:00' : `下次 · 每日 ${task.time}`
+  return `下次 · ${getScheduleLabel(task)}`
 }
 
 export function shouldPollStandaloneTasks(tasks: ScheduledTaskView[] | undefined) {
@@ -844,6 +847,8 @@ export function MaintenanceCard() {
 
           <VideoStreamingOptimizationSection />
 
+          <VideoHlsSection />
+
           <VideoKeyframeSection />
 
           <TaskSection
@@ -1008,6 +1013,10 @@ export function MaintenanceCard() {
             })}
           </TaskGroup>
         ) : null}
+
+        <TaskGroup title="通知" description="任务事件通过 Webhook、ntfy、Gotify 或邮件推送到外部。">
+          <NotificationChannelSection />
+        </TaskGroup>
       </TaskAccordion>
       <BackgroundTaskConsole />
     </div>
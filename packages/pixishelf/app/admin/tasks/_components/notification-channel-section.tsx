@@ -0,0 +1,585 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Bell, Pencil, Plus, Send, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  JOB_EVENT_LEVEL_VALUES,
+  JOB_TYPE_VALUES,
+  type JobEventLevel,
+  type JobEventType,
+  type JobType,
+  type NotificationChannelDto,
+  type NotificationChannelKind
+} from '@pixishelf/job-contracts'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Field, FieldGroup, FieldLabel, FieldLegend, FieldSet } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Spinner } from '@/components/ui/spinner'
+import { Switch } from '@/components/ui/switch'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+import type { NotificationChannelInput } from '@/schemas/notification-channel.dto'
+import { AdminStatusBadge } from '../../_components/admin-status-badge'
+import { formatBackgroundDate, formatBackgroundEventType, formatBackgroundJobType } from './background-task-format'
+import { TaskSection } from './task-ui'
+
+const KIND_LABELS: Record<NotificationChannelKind, string> = {
+  WEBHOOK: 'Webhook',
+  NTFY: 'ntfy',
+  GOTIFY: 'Gotify',
+  SMTP: '邮件（SMTP）'
+}
+
+const LEVEL_LABELS: Record<JobEventLevel, string> = { INFO: '信息', WARN: '警告', ERROR: '错误' }
+
+const DELIVERY_STATUS_LABELS: Record<string, string> = {
+  PENDING: '等待投递',
+  SENDING: '投递中',
+  RETRY_WAIT: '等待重试',
+  DELIVERED: '已送达',
+  FAILED: '投递失败'
+}
+
+// 进度、领取等高频事件不适合推送到外部，只开放终态与异常类事件
+const NOTIFIABLE_EVENT_TYPES: JobEventType[] = [
+  'job.failed',
+  'job.completed',
+  'job.skipped',
+  'job.cancelled',
+  'job.retry_scheduled',
+  'worker.lease_recovered',
+  'gc.entry_failed'
+]
+
+export interface NotificationChannelDraft {
+  name: string
+  enabled: boolean
+  kind: NotificationChannelKind
+  url: string
+  secret: string
+  token: string
+  host: string
+  port: string
+  security: 'NONE' | 'STARTTLS' | 'TLS'
+  username: string
+  password: string
+  from: string
+  to: string
+  jobTypes: JobType[]
+  levels: JobEventLevel[]
+  eventTypes: JobEventType[]
+}
+
+const EMPTY_DRAFT: NotificationChannelDraft = {
+  name: '',
+  enabled: true,
+  kind: 'WEBHOOK',
+  url: '',
+  secret: '',
+  token: '',
+  host: '',
+  port: '587',
+  security: 'STARTTLS',
+  username: '',
+  password: '',
+  from: '',
+  to: '',
+  jobTypes: [],
+  levels: [],
+  eventTypes: ['job.failed']
+}
+
+function readString(config: Record<string, unknown>, key: string) {
+  const value = config[key]
+  return typeof value === 'string' ? value : typeof value === 'number' ? String(value) : ''
+}
+
+export function toNotificationChannelDraft(channel: NotificationChannelDto): NotificationChannelDraft {
+  const { config } = channel
+  return {
+    ...EMPTY_DRAFT,
+    name: channel.name,
+    enabled: channel.enabled,
+    kind: channel.kind,
+    url: readString(config, 'url'),
+    host: readString(config, 'host'),
+    port: readString(config, 'port') || EMPTY_DRAFT.port,
+    security: (readString(config, 'security') || EMPTY_DRAFT.security) as NotificationChannelDraft['security'],
+    username: readString(config, 'username'),
+    from: readString(config, 'from'),
+    to: Array.isArray(config.to) ? config.to.join(', ') : '',
+    ...channel.filters
+  }
+}
+
+/**
+ * 按渠道类型挑出需要提交的字段；密钥留空时由服务端沿用旧值
+ */
+export function toNotificationChannelInput(draft: NotificationChannelDraft): NotificationChannelInput {
+  const config: Record<string, unknown> =
+    draft.kind === 'SMTP'
+      ? {
+          host: draft.host.trim(),
+          port: Number(draft.port),
+          security: draft.security,
+          username: draft.username.trim(),
+          password: draft.password,
+          from: draft.from.trim(),
+          to: draft.to
+            .split(/[,;\s]+/)
+            .map((address) => address.trim())
+            .filter(Boolean)
+        }
+      : draft.kind === 'WEBHOOK'
+        ? { url: draft.url.trim(), secret: draft.secret }
+        : { url: draft.url.trim(), token: draft.token }
+  return {
+    name: draft.name.trim(),
+    enabled: draft.enabled,
+    kind: draft.kind,
+    config,
+    filters: { jobTypes: draft.jobTypes, levels: draft.levels, eventTypes: draft.eventTypes }
+  }
+}
+
+function toggle<T>(values: T[], value: T, checked: boolean) {
+  return checked ? [...values, value] : values.filter((item) => item !== value)
+}
+
+function describeFilters(filters: NotificationChannelDto['filters']) {
+  const parts = [
+    filters.eventTypes.length > 0 ? filters.eventTypes.map(formatBackgroundEventType).join('、') : '全部事件',
+    filters.levels.length > 0 ? filters.levels.map((level) => LEVEL_LABELS[level]).join('/') : null,
+    filters.jobTypes.length > 0 ? `${filters.jobTypes.length} 类任务` : null
+  ]
+  return parts.filter(Boolean).join(' · ')
+}
+
+export function NotificationChannelSection() {
+  const trpc = useTRPC()
+  const channelsQuery = useQuery(trpc.notification.listChannels.queryOptions(undefined, { refetchInterval: 10_000 }))
+  const channels = channelsQuery.data ?? []
+  const [editing, setEditing] = useState<{ id: string | null; draft: NotificationChannelDraft } | null>(null)
+
+  const onSaved = (message: string) => {
+    toast.success(message)
+    setEditing(null)
+    void channelsQuery.refetch()
+  }
+  const createMutation = useMutation(
+    trpc.notification.createChannel.mutationOptions({
+      onSuccess: () => onSaved('通知渠道已创建'),
+      onError: (error) => toast.error(`保存失败：${error.message}`)
+    })
+  )
+  const updateMutation = useMutation(
+    trpc.notification.updateChannel.mutationOptions({
+      onSuccess: () => onSaved('通知渠道已更新'),
+      onError: (error) => toast.error(`保存失败：${error.message}`)
+    })
+  )
+  const deleteMutation = useMutation(
+    trpc.notification.deleteChannel.mutationOptions({
+      onSuccess: () => {
+        toast.success('通知渠道已删除')
+        void channelsQuery.refetch()
+      },
+      onError: (error) => toast.error(`删除失败：${error.message}`)
+    })
+  )
+  const testMutation = useMutation(
+    trpc.notification.sendTest.mutationOptions({
+      onSuccess: () => {
+        toast.info('测试通知已排队，稍后查看投递状态')
+        void channelsQuery.refetch()
+      },
+      onError: (error) => toast.error(`发送测试失败：${error.message}`)
+    })
+  )
+
+  const enabledCount = channels.filter((channel) => channel.enabled).length
+  const pendingCount = channels.reduce((total, channel) => total + channel.pendingDeliveries, 0)
+  const failing = channels.some((channel) => channel.lastDelivery?.status === 'FAILED')
+  const saving = createMutation.isPending || updateMutation.isPending
+
+  const save = () => {
+    if (!editing) return
+    const channel = toNotificationChannelInput(editing.draft)
+    if (editing.id) updateMutation.mutate({ id: editing.id, channel })
+    else createMutation.mutate(channel)
+  }
+
+  return (
+    <TaskSection
+      id="notification-channels"
+      category="外部推送"
+      icon={Bell}
+      title="通知渠道"
+      description="任务事件写入时即生成投递记录，由 Worker 发送并在失败后按指数退避重试。"
+      summary={
+        channels.length === 0
+          ? null
+          : `${enabledCount} 个渠道启用${pendingCount > 0 ? ` · ${pendingCount} 条待投递` : ''}`
+      }
+      tone={failing ? 'error' : pendingCount > 0 ? 'active' : 'idle'}
+      action={
+        <Button variant="outline" onClick={() => setEditing({ id: null, draft: EMPTY_DRAFT })} disabled={!!editing}>
+          <Plus data-icon="inline-start" aria-hidden="true" />
+          新建渠道
+        </Button>
+      }
+    >
+      {editing ? (
+        <ChannelForm
+          draft={editing.draft}
+          secretFields={channels.find((channel) => channel.id === editing.id)?.secretFields ?? []}
+          onChange={(patch) => setEditing({ ...editing, draft: { ...editing.draft, ...patch } })}
+          onCancel={() => setEditing(null)}
+          onSave={save}
+          saving={saving}
+        />
+      ) : null}
+
+      {channelsQuery.isLoading ? (
+        <p className="py-4 text-sm text-muted-foreground">正在读取通知渠道…</p>
+      ) : channels.length === 0 && !editing ? (
+        <p className="rounded-lg border border-dashed px-4 py-6 text-center text-sm text-muted-foreground">
+          还没有通知渠道。新建一个渠道即可在任务失败等事件发生时收到推送。
+        </p>
+      ) : (
+        <ul className="flex flex-col divide-y rounded-lg border" aria-label="通知渠道列表">
+          {channels.map((channel) => (
+            <li key={channel.id} className="flex flex-col gap-2 px-4 py-3 sm:flex-row sm:items-center">
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{channel.name}</span>
+                  <span className="text-xs text-muted-foreground">{KIND_LABELS[channel.kind]}</span>
+                  <AdminStatusBadge status={channel.enabled ? 'ACTIVE' : 'IDLE'}>
+                    {channel.enabled ? '已启用' : '已停用'}
+                  </AdminStatusBadge>
+                </div>
+                <p className="mt-0.5 truncate text-xs text-muted-foreground">{describeFilters(channel.filters)}</p>
+                {channel.lastDelivery ? (
+                  <p className="mt-0.5 text-xs text-muted-foreground">
+                    最近投递：{DELIVERY_STATUS_LABELS[channel.lastDelivery.status]}
+                    {channel.lastDelivery.attempt > 1 ? `（第 ${channel.lastDelivery.attempt} 次尝试）` : ''} ·{' '}
+                    {formatBackgroundDate(channel.lastDelivery.updatedAt)}
+                    {channel.lastDelivery.lastError && channel.lastDelivery.status !== 'DELIVERED' ? (
+                      <span className="block break-words text-destructive">{channel.lastDelivery.lastError}</span>
+                    ) : null}
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!channel.enabled || testMutation.isPending}
+                  onClick={() => testMutation.mutate({ id: channel.id })}
+                >
+                  <Send data-icon="inline-start" aria-hidden="true" />
+                  测试
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!!editing}
+                  onClick={() => setEditing({ id: channel.id, draft: toNotificationChannelDraft(channel) })}
+                >
+                  <Pencil data-icon="inline-start" aria-hidden="true" />
+                  编辑
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`删除 ${channel.name}`}
+                  disabled={deleteMutation.isPending}
+                  onClick={() =>
+                    confirm({
+                      title: `删除通知渠道“${channel.name}”？`,
+                      description: '尚未送达的通知会一并丢弃。',
+                      confirmText: '确认删除',
+                      variant: 'destructive',
+                      onConfirm: () => deleteMutation.mutate({ id: channel.id })
+                    })
+                  }
+                >
+                  <Trash2 aria-hidden="true" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </TaskSection>
+  )
+}
+
+function ChannelForm({
+  draft,
+  secretFields,
+  onChange,
+  onCancel,
+  onSave,
+  saving
+}: {
+  draft: NotificationChannelDraft
+  secretFields: readonly string[]
+  onChange: (patch: Partial<NotificationChannelDraft>) => void
+  onCancel: () => void
+  onSave: () => void
+  saving: boolean
+}) {
+  const secretPlaceholder = (field: string) => (secretFields.includes(field) ? '已保存，留空则不修改' : '')
+
+  return (
+    <form
+      className="flex flex-col gap-4 rounded-lg border bg-muted/15 p-4"
+      aria-label="通知渠道设置"
+      onSubmit={(event) => {
+        event.preventDefault()
+        onSave()
+      }}
+    >
+      <FieldGroup className="grid gap-3 sm:grid-cols-[1fr_180px_auto] sm:items-end">
+        <Field className="gap-1.5">
+          <FieldLabel htmlFor="notification-name" className="text-xs text-muted-foreground">
+            名称
+          </FieldLabel>
+          <Input
+            id="notification-name"
+            value={draft.name}
+            maxLength={80}
+            autoComplete="off"
+            onChange={(event) => onChange({ name: event.target.value })}
+          />
+        </Field>
+        <Field className="gap-1.5">
+          <FieldLabel htmlFor="notification-kind" className="text-xs text-muted-foreground">
+            渠道类型
+          </FieldLabel>
+          <Select value={draft.kind} onValueChange={(kind) => onChange({ kind: kind as NotificationChannelKind })}>
+            <SelectTrigger id="notification-kind" className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                  <SelectItem key={kind} value={kind}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field orientation="horizontal" className="min-h-9 rounded-md border bg-background px-3">
+          <Switch
+            id="notification-enabled"
+            checked={draft.enabled}
+            onCheckedChange={(enabled) => onChange({ enabled })}
+          />
+          <FieldLabel htmlFor="notification-enabled" className="cursor-pointer text-sm">
+            {draft.enabled ? '已启用' : '已停用'}
+          </FieldLabel>
+        </Field>
+      </FieldGroup>
+
+      {draft.kind === 'SMTP' ? (
+        <FieldGroup className="grid gap-3 sm:grid-cols-3">
+          <TextField id="smtp-host" label="SMTP 主机" value={draft.host} onChange={(host) => onChange({ host })} />
+          <TextField
+            id="smtp-port"
+            label="端口"
+            type="number"
+            value={draft.port}
+            onChange={(port) => onChange({ port })}
+          />
+          <Field className="gap-1.5">
+            <FieldLabel htmlFor="smtp-security" className="text-xs text-muted-foreground">
+              加密方式
+            </FieldLabel>
+            <Select
+              value={draft.security}
+              onValueChange={(security) => onChange({ security: security as NotificationChannelDraft['security'] })}
+            >
+              <SelectTrigger id="smtp-security" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectItem value="STARTTLS">STARTTLS</SelectItem>
+                  <SelectItem value="TLS">TLS（465）</SelectItem>
+                  <SelectItem value="NONE">不加密</SelectItem>
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+          <TextField
+            id="smtp-username"
+            label="用户名（可选）"
+            value={draft.username}
+            onChange={(username) => onChange({ username })}
+          />
+          <TextField
+            id="smtp-password"
+            label="密码"
+            type="password"
+            placeholder={secretPlaceholder('password')}
+            value={draft.password}
+            onChange={(password) => onChange({ password })}
+          />
+          <TextField id="smtp-from" label="发件人" value={draft.from} onChange={(from) => onChange({ from })} />
+          <TextField
+            id="smtp-to"
+            label="收件人（逗号分隔）"
+            className="sm:col-span-3"
+            value={draft.to}
+            onChange={(to) => onChange({ to })}
+          />
+        </FieldGroup>
+      ) : (
+        <FieldGroup className="grid gap-3 sm:grid-cols-[2fr_1fr]">
+          <TextField
+            id="notification-url"
+            label={draft.kind === 'NTFY' ? '主题地址' : draft.kind === 'GOTIFY' ? 'Gotify 服务地址' : 'Webhook 地址'}
+            placeholder={
+              draft.kind === 'NTFY'
+                ? 'https://ntfy.sh/pixishelf'
+                : draft.kind === 'GOTIFY'
+                  ? 'https://gotify.example'
+                  : ''
+            }
+            value={draft.url}
+            onChange={(url) => onChange({ url })}
+          />
+          {draft.kind === 'WEBHOOK' ? (
+            <TextField
+              id="notification-secret"
+              label="签名密钥（可选）"
+              type="password"
+              placeholder={secretPlaceholder('secret')}
+              value={draft.secret}
+              onChange={(secret) => onChange({ secret })}
+            />
+          ) : (
+            <TextField
+              id="notification-token"
+              label={draft.kind === 'GOTIFY' ? '应用 Token' : '访问 Token（可选）'}
+              type="password"
+              placeholder={secretPlaceholder('token')}
+              value={draft.token}
+              onChange={(token) => onChange({ token })}
+            />
+          )}
+        </FieldGroup>
+      )}
+
+      <FieldSet className="gap-2">
+        <FieldLegend variant="label" className="text-xs text-muted-foreground">
+          事件（不选表示全部）
+        </FieldLegend>
+        <CheckboxGrid
+          options={NOTIFIABLE_EVENT_TYPES.map((type) => ({ value: type, label: formatBackgroundEventType(type) }))}
+          values={draft.eventTypes}
+          onChange={(eventTypes) => onChange({ eventTypes })}
+        />
+      </FieldSet>
+      <FieldSet className="gap-2">
+        <FieldLegend variant="label" className="text-xs text-muted-foreground">
+          级别（不选表示全部）
+        </FieldLegend>
+        <CheckboxGrid
+          options={JOB_EVENT_LEVEL_VALUES.map((level) => ({ value: level, label: LEVEL_LABELS[level] }))}
+          values={draft.levels}
+          onChange={(levels) => onChange({ levels })}
+        />
+      </FieldSet>
+      <details className="rounded-md border bg-background px-3 py-2">
+        <summary className="cursor-pointer text-xs text-muted-foreground">
+          任务类型（{draft.jobTypes.length > 0 ? `已选 ${draft.jobTypes.length} 类` : '全部'}）
+        </summary>
+        <div className="pt-2">
+          <CheckboxGrid
+            options={JOB_TYPE_VALUES.map((type) => ({ value: type, label: formatBackgroundJobType(type) }))}
+            values={draft.jobTypes}
+            onChange={(jobTypes) => onChange({ jobTypes })}
+          />
+        </div>
+      </details>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={saving}>
+          取消
+        </Button>
+        <Button type="submit" disabled={saving || draft.name.trim() === ''}>
+          {saving ? <Spinner data-icon="inline-start" aria-hidden="true" /> : null}
+          保存渠道
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+function TextField({
+  id,
+  label,
+  value,
+  onChange,
+  type = 'text',
+  placeholder,
+  className
+}: {
+  id: string
+  label: string
+  value: string
+  onChange: (value: string) => void
+  type?: 'text' | 'password' | 'number'
+  placeholder?: string
+  className?: string
+}) {
+  return (
+    <Field className={className ? `gap-1.5 ${className}` : 'gap-1.5'}>
+      <FieldLabel htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </FieldLabel>
+      <Input
+        id={id}
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        autoComplete={type === 'password' ? 'new-password' : 'off'}
+        spellCheck={false}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    </Field>
+  )
+}
+
+function CheckboxGrid<T extends string>({
+  options,
+  values,
+  onChange
+}: {
+  options: Array<{ value: T; label: string }>
+  values: T[]
+  onChange: (values: T[]) => void
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 sm:grid-cols-3 lg:grid-cols-4">
+      {options.map((option) => (
+        <label key={option.value} className="flex cursor-pointer items-center gap-2 text-sm">
+          <Checkbox
+            checked={values.includes(option.value)}
+            onCheckedChange={(checked) => onChange(toggle(values, option.value, checked === true))}
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  )
+}
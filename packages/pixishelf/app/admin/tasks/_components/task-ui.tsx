@@ -11,6 +11,7 @@ import { Switch } from '@/components/ui/switch'
 import { cn } from '@/lib/utils'
 import { Spinner } from '@/components/ui/spinner'
 import { Field, FieldError, FieldGroup, FieldLabel } from '@/components/ui/field'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { AdminStatusBadge } from '../../_components/admin-status-badge'
 
 export interface ScheduledTaskView {
@@ -21,6 +22,8 @@ export interface ScheduledTaskView {
   enabled: boolean
   scheduleMode: string
   time: string
+  intervalMinutes?: number | null
+  cronExpression?: string | null
   timezone: string
   priority: number
   mutexKey: string | null
@@ -45,6 +48,7 @@ export interface ScheduledTaskView {
     untrackedCandidates?: number
   } | null
   nextRunAt: string | null
+  nextRuns?: string[]
   executionWindow?: {
     timezone: 'Asia/Shanghai'
     startAt: string
@@ -62,12 +66,23 @@ export interface JobView {
 
 export interface TaskDraft {
   enabled: boolean
+  scheduleMode: string
   time: string
+  intervalMinutes: string
+  cronExpression: string
   priority: string
 }
 
 export const SCHEDULED_TASK_PRIORITY_MINIMUM = 0
 export const SCHEDULED_TASK_PRIORITY_MAXIMUM = 999
+export const SCHEDULED_TASK_INTERVAL_MINIMUM = 15
+export const SCHEDULED_TASK_INTERVAL_MAXIMUM = 7 * 24 * 60
+
+const SCHEDULE_MODE_LABELS: Record<string, string> = {
+  DAILY: '每日',
+  INTERVAL: '固定间隔',
+  CRON: 'Cron 表达式'
+}
 
 export function isScheduledTaskPriorityValid(value: string) {
   const priority = Number(value)
@@ -79,25 +94,62 @@ export function isScheduledTaskPriorityValid(value: string) {
   )
 }
 
-export function getDraftForTask(task: ScheduledTaskView, drafts: Record<string, TaskDraft>) {
+export function isScheduledTaskIntervalValid(value: string) {
+  const minutes = Number(value)
   return (
-    drafts[task.key] ?? {
-      enabled: task.enabled,
-      time: task.time,
-      priority: String(task.priority)
-    }
+    value.trim() !== '' &&
+    Number.isInteger(minutes) &&
+    minutes >= SCHEDULED_TASK_INTERVAL_MINIMUM &&
+    minutes <= SCHEDULED_TASK_INTERVAL_MAXIMUM
   )
 }
 
+export function createTaskDraft(task: ScheduledTaskView): TaskDraft {
+  return {
+    enabled: task.enabled,
+    scheduleMode: task.scheduleMode,
+    time: task.time,
+    intervalMinutes: task.intervalMinutes ? String(task.intervalMinutes) : '',
+    cronExpression: task.cronExpression ?? '',
+    priority: String(task.priority)
+  }
+}
+
+export function getDraftForTask(task: ScheduledTaskView, drafts: Record<string, TaskDraft>) {
+  return drafts[task.key] ?? createTaskDraft(task)
+}
+
 export function getScheduledTaskUpdate(task: ScheduledTaskView, draft: TaskDraft) {
   return {
     key: task.key,
     enabled: draft.enabled,
     ...(task.executionWindow ? {} : { time: draft.time }),
+    ...(draft.scheduleMode !== task.scheduleMode
+      ? { scheduleMode: draft.scheduleMode as 'DAILY' | 'INTERVAL' | 'CRON' }
+      : {}),
+    ...(draft.scheduleMode === 'INTERVAL' ? { intervalMinutes: Number(draft.intervalMinutes) } : {}),
+    ...(draft.scheduleMode === 'CRON' ? { cronExpression: draft.cronExpression.trim() } : {}),
     priority: Number(draft.priority)
   }
 }
 
+function formatIntervalMinutes(minutes: number) {
+  if (minutes % 1440 === 0) return `${minutes / 1440} 天`
+  if (minutes % 60 === 0) return `${minutes / 60} 小时`
+  return `${minutes} 分钟`
+}
+
+/**
+ * 计划的简短描述，如“每日 03:30”“每 6 小时”“Cron 0 3 * * 1”；中央调度下的每日任务显示共享窗口
+ */
+export function getScheduleLabel(task: ScheduledTaskView) {
+  if (task.scheduleMode === 'INTERVAL' && task.intervalMinutes) {
+    return `每 ${formatIntervalMinutes(task.intervalMinutes)}`
+  }
+  if (task.scheduleMode === 'CRON' && task.cronExpression) return `Cron ${task.cronExpression}`
+  return task.executionWindow ? '上海 00:00–08:00' : `每日 ${task.time}`
+}
+
 const TaskAccordionContext = createContext<{
   expandedId: string | null
   toggle: (id: string) => void
@@ -320,11 +372,24 @@ export function ScheduleSettings({
   const priorityMinimum = SCHEDULED_TASK_PRIORITY_MINIMUM
   const priorityMaximum = SCHEDULED_TASK_PRIORITY_MAXIMUM
   const priorityInvalid = !isScheduledTaskPriorityValid(draft.priority)
+  const intervalInvalid = draft.scheduleMode === 'INTERVAL' && !isScheduledTaskIntervalValid(draft.intervalMinutes)
+  const cronInvalid = draft.scheduleMode === 'CRON' && draft.cronExpression.trim() === ''
+  const scheduleChanged =
+    draft.scheduleMode !== task.scheduleMode ||
+    (draft.scheduleMode === 'INTERVAL' && Number(draft.intervalMinutes) !== task.intervalMinutes) ||
+    (draft.scheduleMode === 'CRON' && draft.cronExpression.trim() !== (task.cronExpression ?? ''))
   const changed =
-    draft.enabled !== task.enabled || (!centralScheduling && draft.time !== task.time) || priority !== task.priority
+    draft.enabled !== task.enabled ||
+    (!centralScheduling && draft.time !== task.time) ||
+    priority !== task.priority ||
+    scheduleChanged
   const enabledId = `schedule-${task.key}-enabled`
+  const modeId = `schedule-${task.key}-mode`
   const timeId = `schedule-${task.key}-time`
+  const intervalId = `schedule-${task.key}-interval`
+  const cronId = `schedule-${task.key}-cron`
   const priorityId = `schedule-${task.key}-priority`
+  const dailyWindow = task.executionWindow && task.scheduleMode === 'DAILY'
 
   return (
     <details className="group overflow-hidden rounded-lg border border-border bg-card">
@@ -334,10 +399,10 @@ export function ScheduleSettings({
           <div className="min-w-0">
             <h3 className="text-sm font-medium">计划设置</h3>
             <p className="mt-0.5 truncate text-xs text-muted-foreground">
-              {task.executionWindow
+              {dailyWindow
                 ? '中央串行窗口 · 上海 00:00–08:00'
                 : task.enabled
-                  ? `每日 ${task.time}`
+                  ? getScheduleLabel(task)
                   : '未启用自动计划'}
             </p>
           </div>
@@ -351,7 +416,7 @@ export function ScheduleSettings({
         />
       </summary>
       <div className="flex flex-col gap-5 border-t p-4">
-        {task.executionWindow ? (
+        {dailyWindow ? (
           <div className="rounded-md border border-primary/20 bg-primary/[0.04] px-3 py-2.5 text-sm">
             <p className="font-medium text-foreground">中央串行窗口 · 上海时间 00:00–08:00</p>
             <p className="mt-1 text-xs text-muted-foreground">
@@ -363,7 +428,7 @@ export function ScheduleSettings({
           <div className="flex flex-col gap-1">
             <dt className="text-xs text-muted-foreground">执行模式</dt>
             <dd className="font-medium text-foreground">
-              {task.executionWindow ? '中央串行窗口' : task.scheduleMode === 'DAILY' ? '每日' : task.scheduleMode}
+              {dailyWindow ? '中央串行窗口' : task.scheduleMode === 'DAILY' ? '每日' : getScheduleLabel(task)}
             </dd>
           </div>
           <div className="flex flex-col gap-1">
@@ -372,7 +437,17 @@ export function ScheduleSettings({
           </div>
           <div className="flex flex-col gap-1">
             <dt className="text-xs text-muted-foreground">下次计划执行</dt>
-            <dd className="font-medium text-foreground">{task.nextRunAt || '—'}</dd>
+            <dd className="font-medium text-foreground">
+              {task.nextRuns && task.nextRuns.length > 0 ? (
+                <ol className="flex flex-col gap-0.5" aria-label="接下来的物化时间">
+                  {task.nextRuns.map((run) => (
+                    <li key={run}>{formatDateTime(run)}</li>
+                  ))}
+                </ol>
+              ) : (
+                task.nextRunAt || '—'
+              )}
+            </dd>
           </div>
           <div className="flex flex-col gap-1">
             <dt className="text-xs text-muted-foreground">上次触发时间</dt>
@@ -409,7 +484,69 @@ export function ScheduleSettings({
             </FieldLabel>
           </Field>
           <div className="flex flex-1 flex-wrap items-end gap-3">
-            {task.executionWindow ? (
+            <Field className="w-auto gap-1.5">
+              <FieldLabel htmlFor={modeId} className="text-xs text-muted-foreground">
+                执行模式
+              </FieldLabel>
+              <Select value={draft.scheduleMode} onValueChange={(scheduleMode) => onDraftChange({ scheduleMode })}>
+                <SelectTrigger id={modeId} className="h-9 w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    {Object.entries(SCHEDULE_MODE_LABELS).map(([mode, label]) => (
+                      <SelectItem key={mode} value={mode}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </Field>
+            {draft.scheduleMode === 'INTERVAL' ? (
+              <Field className="w-auto gap-1.5" data-invalid={intervalInvalid}>
+                <FieldLabel htmlFor={intervalId} className="text-xs text-muted-foreground">
+                  间隔（分钟）
+                </FieldLabel>
+                <Input
+                  id={intervalId}
+                  name={`${task.key}-interval`}
+                  type="number"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  min={SCHEDULED_TASK_INTERVAL_MINIMUM}
+                  max={SCHEDULED_TASK_INTERVAL_MAXIMUM}
+                  value={draft.intervalMinutes}
+                  onChange={(event) => onDraftChange({ intervalMinutes: event.target.value })}
+                  className="h-9 w-[110px]"
+                  aria-invalid={intervalInvalid}
+                  aria-describedby={intervalInvalid ? `${intervalId}-error` : undefined}
+                />
+                {intervalInvalid ? (
+                  <FieldError id={`${intervalId}-error`}>
+                    请输入 {SCHEDULED_TASK_INTERVAL_MINIMUM}–{SCHEDULED_TASK_INTERVAL_MAXIMUM} 的整数。
+                  </FieldError>
+                ) : null}
+              </Field>
+            ) : draft.scheduleMode === 'CRON' ? (
+              <Field className="w-auto gap-1.5" data-invalid={cronInvalid}>
+                <FieldLabel htmlFor={cronId} className="text-xs text-muted-foreground">
+                  Cron 表达式（{task.timezone}）
+                </FieldLabel>
+                <Input
+                  id={cronId}
+                  name={`${task.key}-cron`}
+                  autoComplete="off"
+                  spellCheck={false}
+                  placeholder="0 3 * * 1"
+                  value={draft.cronExpression}
+                  onChange={(event) => onDraftChange({ cronExpression: event.target.value })}
+                  className="h-9 w-[180px] font-mono"
+                  title="分 时 日 月 周，例如 0 3 * * 1 表示每周一 03:00"
+                  aria-invalid={cronInvalid}
+                />
+              </Field>
+            ) : task.executionWindow ? (
               <div className="flex min-h-9 items-center rounded-md border bg-muted/25 px-3 text-sm text-muted-foreground">
                 全局窗口 00:00–08:00
               </div>
@@ -459,7 +596,7 @@ export function ScheduleSettings({
             variant={changed ? 'default' : 'outline'}
             size="sm"
             onClick={onSave}
-            disabled={isSaving || !changed || priorityInvalid}
+            disabled={isSaving || !changed || priorityInvalid || intervalInvalid || cronInvalid}
             className="h-9 shrink-0"
           >
             {isSaving && <Spinner data-icon="inline-start" aria-hidden="true" />}
@@ -1,7 +1,7 @@
 'use client'
 
 import { useMutation, useQuery } from '@tanstack/react-query'
-import type { JobDto, JobEventDto, JobStatus } from '@pixishelf/job-contracts'
+import type { JobDependencyGraphDto, JobDto, JobEventDto, JobStatus } from '@pixishelf/job-contracts'
 import { useEffect, useReducer } from 'react'
 import { toast } from 'sonner'
 import { useTRPC } from '@/lib/trpc'
@@ -144,6 +144,24 @@ export function useBackgroundJobDetail(jobId: string | null, dashboardJob: JobDt
   return { ...query, data: reconcileBackgroundJobDetail(currentDetail, currentDashboardJob) }
 }
 
+export function useBackgroundJobDependencies(job: JobDto | null) {
+  const trpc = useTRPC()
+  return useQuery(
+    trpc.job.backgroundDependencies.queryOptions(
+      { jobId: job?.id ?? '__none__' },
+      {
+        enabled: Boolean(job),
+        // 链上任一任务仍在队列或执行中时继续刷新，便于观察后续任务被放行或跳过
+        refetchInterval: (query) => {
+          const graph = query.state.data as JobDependencyGraphDto | undefined
+          return graph?.nodes.some((node) => ACTIVE_JOB_STATUSES.includes(node.status)) ? 1_500 : false
+        },
+        retry: false
+      }
+    )
+  )
+}
+
 export function useBackgroundJobControls(onSuccess: (job?: JobDto) => void) {
   const trpc = useTRPC()
   const common = (message: string) => ({
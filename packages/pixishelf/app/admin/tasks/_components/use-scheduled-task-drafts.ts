@@ -1,7 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import type { ScheduledTaskView, TaskDraft } from './task-ui'
+import { createTaskDraft, type ScheduledTaskView, type TaskDraft } from './task-ui'
 
 export function useScheduledTaskDrafts(tasks: ScheduledTaskView[]) {
   const [drafts, setDrafts] = useState<Record<string, TaskDraft>>({})
@@ -11,11 +11,7 @@ export function useScheduledTaskDrafts(tasks: ScheduledTaskView[]) {
     setDrafts((current) => {
       const next = { ...current }
       for (const task of tasks) {
-        next[task.key] ??= {
-          enabled: task.enabled,
-          time: task.time,
-          priority: String(task.priority)
-        }
+        next[task.key] ??= createTaskDraft(task)
       }
       return next
     })
@@ -26,7 +22,10 @@ export function useScheduledTaskDrafts(tasks: ScheduledTaskView[]) {
       ...current,
       [key]: {
         enabled: false,
+        scheduleMode: 'DAILY',
         time: '03:30',
+        intervalMinutes: '',
+        cronExpression: '',
         priority: '100',
         ...current[key],
         ...patch
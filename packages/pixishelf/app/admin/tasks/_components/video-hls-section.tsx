@@ -0,0 +1,83 @@
+'use client'
+
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { Clapperboard, PlayCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import { confirm } from '@/components/shared/global-confirm'
+import { useTRPC } from '@/lib/trpc'
+import { TaskSection } from './task-ui'
+
+export function VideoHlsSection() {
+  const trpc = useTRPC()
+  const overviewQuery = useQuery(
+    trpc.job.getVideoHlsOverview.queryOptions(undefined, {
+      refetchInterval: (query) => ((query.state.data?.active ?? 0) > 0 ? 5000 : false)
+    })
+  )
+  const overview = overviewQuery.data
+  const batchMutation = useMutation(
+    trpc.job.startIncompatibleVideoHlsTranscodes.mutationOptions({
+      onSuccess: (data) => {
+        if (data.incompatible === 0) {
+          toast.info(`已检查 ${data.scanned} 个视频，没有发现需要转码的视频`)
+        } else {
+          toast.success(`已加入 ${data.queued} 个转码任务，${data.reused} 个已在队列中`)
+        }
+        void overviewQuery.refetch()
+      },
+      onError: (error) => toast.error(`提交 HLS 转码失败：${error.message}`)
+    })
+  )
+
+  const active = overview?.active ?? 0
+  const failed = overview?.failed ?? 0
+
+  return (
+    <TaskSection
+      id="video-hls"
+      category="持久队列"
+      icon={Clapperboard}
+      title="HLS 兼容转码"
+      description="为 HEVC、10-bit、非 MP4/WebM 容器或码率过高的视频生成 H.264 多码率 HLS，播放器会优先使用转码结果。"
+      summary={active > 0 ? `${active} 项进行中` : failed > 0 ? `需要处理 · ${failed} 项失败` : null}
+      tone={active > 0 ? 'active' : failed > 0 ? 'error' : 'idle'}
+      action={
+        <Button
+          onClick={() =>
+            confirm({
+              title: '为不兼容视频排队 HLS 转码？',
+              description: `根据已探测的编码、容器与码率挑选视频，单次最多提交 ${overview?.batchLimit ?? 200} 个。转码会占用较多 CPU，原始文件不会被修改。`,
+              confirmText: '加入队列',
+              onConfirm: () => batchMutation.mutate()
+            })
+          }
+          disabled={batchMutation.isPending}
+        >
+          {batchMutation.isPending ? (
+            <Spinner data-icon="inline-start" aria-hidden="true" />
+          ) : (
+            <PlayCircle data-icon="inline-start" aria-hidden="true" />
+          )}
+          排队不兼容视频
+        </Button>
+      }
+    >
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span>
+          已发布：<strong className="font-medium text-foreground">{overview?.published ?? 0}</strong>
+        </span>
+        <span>
+          进行中：<strong className="font-medium text-foreground">{active}</strong>
+        </span>
+        <span>
+          失败：<strong className="font-medium text-destructive">{failed}</strong>
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        单个视频可在媒体管理的视频信息中转码或强制重建；任务详情与重试请在下方后台任务控制台查看。
+      </p>
+    </TaskSection>
+  )
+}
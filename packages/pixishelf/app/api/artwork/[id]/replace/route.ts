@@ -7,6 +7,8 @@ import {
   ImageReplaceActionType,
   ImageReplaceSessionError
 } from '@/services/artwork-service/image-replace-session'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
 
 // API 路由只负责参数、上下文和响应映射；初始化、提交、回滚三段业务注释保留在服务层中。
 
@@ -27,6 +29,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
   if (!artwork) return apiError('Not found', { status: 404 })
 
   try {
+    await assertWritable()
     const result = await handleImageReplaceSession({
       scanRoot,
       artworkId,
@@ -40,6 +43,9 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
     if (error instanceof ImageReplaceSessionError) {
       return apiError(error.message, { status: error.status, details: error.details })
     }
+    if (error instanceof MaintenanceModeActiveError) {
+      return apiError(error.message, { status: 503 })
+    }
 
     console.error('API Error:', error)
     return apiError(error.message)
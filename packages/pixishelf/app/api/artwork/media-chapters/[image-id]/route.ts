@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { clearChaptersForImage } from '@/services/artwork-service/image-manager'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
 
 export async function DELETE(req: NextRequest, { params }: { params: Promise<{ 'image-id': string }> }) {
   try {
@@ -12,6 +14,7 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ '
       return NextResponse.json({ error: 'Invalid imageId' }, { status: 400 })
     }
 
+    await assertWritable()
     await clearChaptersForImage({
       imageId: parsedImageId,
       deleteFile
@@ -19,6 +22,9 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ '
 
     return NextResponse.json({ success: true })
   } catch (error: any) {
+    if (error instanceof MaintenanceModeActiveError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
     if (error?.message === 'Image not found') {
       return NextResponse.json({ error: 'Image not found' }, { status: 404 })
     }
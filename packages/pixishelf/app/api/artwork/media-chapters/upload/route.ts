@@ -1,5 +1,7 @@
 import { NextRequest } from 'next/server'
 import { apiError, apiSuccess } from '@/lib/api-response'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
 import { getScanPath } from '@/services/setting.service'
 import {
   MediaChapterUploadError,
@@ -29,6 +31,7 @@ export async function POST(_req: NextRequest) {
       fileName: file.name,
       fileSize: file.size
     })
+    await assertWritable()
 
     const scanRoot = await getScanPath()
     if (!scanRoot) {
@@ -48,6 +51,9 @@ export async function POST(_req: NextRequest) {
     if (error instanceof MediaChapterUploadError) {
       return apiError(error.message, { status: error.status })
     }
+    if (error instanceof MaintenanceModeActiveError) {
+      return apiError(error.message, { status: 503 })
+    }
 
     return apiError(error.message || 'Unknown error')
   }
@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server'
 import { Readable } from 'stream'
 import { apiError, apiJson, apiSuccess } from '@/lib/api-response'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
 import { getScanPath } from '@/services/setting.service'
 import {
   getMediaUploadStatus,
@@ -38,6 +40,7 @@ export async function POST(req: NextRequest) {
       fileName: decodedFileName,
       declaredFileSize
     })
+    await assertWritable()
 
     // 1. 安全校验：防止路径遍历
     const scanRoot = await getScanPath()
@@ -70,6 +73,9 @@ export async function POST(req: NextRequest) {
     if (error instanceof MediaUploadError) {
       return apiError(error.message, { status: error.status })
     }
+    if (error instanceof MaintenanceModeActiveError) {
+      return apiError(error.message, { status: 503 })
+    }
 
     console.error('Upload chunk error:', error)
     return apiError(error.message)
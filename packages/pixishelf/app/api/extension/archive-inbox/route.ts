@@ -0,0 +1,100 @@
+import 'server-only'
+
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import logger from '@/lib/logger'
+import { apiFailure, apiSuccess } from '@/lib/api-response'
+import { authenticateExtensionRequest, extensionPreflight, withExtensionCors } from '@/lib/extension-api'
+import {
+  archiveIntakeItemsByIdSchema,
+  createArchiveIntakeSchema,
+  getArchiveIntakeItemsById,
+  submitArchiveIntakeUrls
+} from '@/services/archive-intake/archive-intake-service'
+import { ArchiveError } from '@/services/archive/errors'
+import { redactArchiveText } from '@/services/archive/archive-redaction'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
+
+/**
+ * 浏览器扩展提交归档链接
+ * POST /api/extension/archive-inbox  { idempotencyKey, urls }
+ *
+ * 与管理界面共用收件箱提交流程；返回每个链接对应的项目ID，重复链接对应仍在收件箱中的原项目。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await authenticateExtensionRequest(request)
+    if (!userId) {
+      return withExtensionCors(apiFailure('Invalid extension token', { status: 401 }))
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return withExtensionCors(apiFailure('Request body must be JSON', { status: 400 }))
+    }
+    const parsed = createArchiveIntakeSchema.safeParse(body)
+    if (!parsed.success) {
+      return withExtensionCors(
+        apiFailure('Invalid Request Parameters', { status: 400, details: z.prettifyError(parsed.error) })
+      )
+    }
+
+    await assertWritable()
+    const result = await submitArchiveIntakeUrls(parsed.data, userId)
+    return withExtensionCors(apiSuccess(result))
+  } catch (error) {
+    return archiveFailure(error)
+  }
+}
+
+/**
+ * 查询令牌所属用户通过扩展提交过的收件箱项目状态
+ * GET /api/extension/archive-inbox?ids=<itemId>,<itemId>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticateExtensionRequest(request)
+    if (!userId) {
+      return withExtensionCors(apiFailure('Invalid extension token', { status: 401 }))
+    }
+
+    const itemIds = (request.nextUrl.searchParams.get('ids') ?? '').split(',').filter(Boolean)
+    const parsed = archiveIntakeItemsByIdSchema.safeParse({ itemIds })
+    if (!parsed.success) {
+      return withExtensionCors(
+        apiFailure('Invalid Request Parameters', { status: 400, details: z.prettifyError(parsed.error) })
+      )
+    }
+
+    const result = await getArchiveIntakeItemsById(parsed.data, userId)
+    return withExtensionCors(apiSuccess(result))
+  } catch (error) {
+    return archiveFailure(error)
+  }
+}
+
+export function OPTIONS() {
+  return extensionPreflight()
+}
+
+function archiveFailure(error: unknown) {
+  if (error instanceof MaintenanceModeActiveError) {
+    return withExtensionCors(apiFailure(error.message, { status: 503 }))
+  }
+  if (error instanceof ArchiveError) {
+    // 与 tRPC 归档接口的错误分类一致：链接问题按请求错误返回，幂等键冲突按状态冲突返回
+    if (error.code === 'INVALID_URL' || error.code === 'UNSUPPORTED_PROVIDER' || error.code === 'SSRF_BLOCKED') {
+      return withExtensionCors(apiFailure(error.message, { status: 400 }))
+    }
+    if (error.code === 'STATE_CONFLICT') {
+      return withExtensionCors(apiFailure(error.message, { status: 409 }))
+    }
+  }
+  logger.error('Extension archive inbox request failed:', {
+    error: redactArchiveText(error instanceof Error ? error.message : String(error))
+  })
+  return withExtensionCors(apiFailure('Internal Server Error', { status: 500 }))
+}
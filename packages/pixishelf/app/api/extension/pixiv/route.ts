@@ -0,0 +1,52 @@
+import 'server-only'
+
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import logger from '@/lib/logger'
+import { apiFailure, apiSuccess } from '@/lib/api-response'
+import { authenticateExtensionRequest, extensionPreflight, withExtensionCors } from '@/lib/extension-api'
+import { PixivIngestRequestSchema } from '@/schemas/pixiv-ingest.dto'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
+import { ingestPixivPayload } from '@/services/pixiv-ingest-service'
+
+/**
+ * 浏览器扩展写入 Pixiv 元数据
+ * POST /api/extension/pixiv  { artworks?, tags?, users? }
+ *
+ * 以设置页签发的扩展令牌鉴权（proxy 对该前缀放行），返回逐条写入结果。
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await authenticateExtensionRequest(request))) {
+      return withExtensionCors(apiFailure('Invalid extension token', { status: 401 }))
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return withExtensionCors(apiFailure('Request body must be JSON', { status: 400 }))
+    }
+    const parsed = PixivIngestRequestSchema.safeParse(body)
+    if (!parsed.success) {
+      return withExtensionCors(
+        apiFailure('Invalid Request Parameters', { status: 400, details: z.prettifyError(parsed.error) })
+      )
+    }
+
+    await assertWritable()
+    const result = await ingestPixivPayload(parsed.data)
+    return withExtensionCors(apiSuccess({ ...result }))
+  } catch (error) {
+    if (error instanceof MaintenanceModeActiveError) {
+      return withExtensionCors(apiFailure(error.message, { status: 503 }))
+    }
+    logger.error('Failed to ingest extension payload:', error)
+    return withExtensionCors(apiFailure('Internal Server Error', { status: 500 }))
+  }
+}
+
+export function OPTIONS() {
+  return extensionPreflight()
+}
@@ -5,7 +5,8 @@ const mocks = vi.hoisted(() => ({
   central: true,
   requireAdmin: vi.fn(),
   enqueue: vi.fn(),
-  runMigrationJob: vi.fn()
+  runMigrationJob: vi.fn(),
+  getStorageLayoutTemplate: vi.fn()
 }))
 
 vi.mock('server-only', () => ({}))
@@ -16,6 +17,7 @@ vi.mock('@/services/background-task/request-auth', () => ({ requireAdminRequest:
 vi.mock('@/services/media-root-central-service', () => ({ enqueueCentralMigration: mocks.enqueue }))
 vi.mock('@/services/migration-service', () => ({ runMigrationJob: mocks.runMigrationJob }))
 vi.mock('@/services/job-service', () => ({}))
+vi.mock('@/services/setting.service', () => ({ getStorageLayoutTemplate: mocks.getStorageLayoutTemplate }))
 
 import { POST } from '../route'
 const post = POST
@@ -26,6 +28,7 @@ describe('migration central stream', () => {
     mocks.central = true
     mocks.requireAdmin.mockResolvedValue({ userId: 'admin-1' })
     mocks.enqueue.mockResolvedValue({ jobId: 'migration-1', status: 'PENDING', reused: false })
+    mocks.getStorageLayoutTemplate.mockResolvedValue('{creatorId}/{externalId}')
   })
 
   it('returns queued SSE semantics without running migration in Next', async () => {
@@ -59,4 +62,21 @@ describe('migration central stream', () => {
     })
     expect(mocks.enqueue).not.toHaveBeenCalled()
   })
+  it('keeps custom storage layouts out of the legacy in-process migration', async () => {
+    mocks.central = false
+    mocks.getStorageLayoutTemplate.mockResolvedValue('{provider}/{externalId}')
+    const request = new NextRequest('http://localhost/api/migration/stream', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ targetIds: [7] })
+    })
+
+    const response = await post(request, { params: Promise.resolve({}) })
+
+    expect(response.status).toBe(409)
+    await expect(response.json()).resolves.toMatchObject({
+      error: 'Custom storage layouts require the central dispatcher'
+    })
+    expect(mocks.runMigrationJob).not.toHaveBeenCalled()
+  })
 })
@@ -8,6 +8,8 @@ import { JobStatus } from '@prisma/client'
 import { isCentralDispatcherCutoverEnabled } from '@/services/background-task/dispatcher-cutover'
 import { requireAdminRequest } from '@/services/background-task/request-auth'
 import { enqueueCentralMigration } from '@/services/media-root-central-service'
+import { getStorageLayoutTemplate } from '@/services/setting.service'
+import { LEGACY_MIGRATION_LAYOUT_TEMPLATE } from '@pixishelf/job-contracts'
 import { queuedSseResponse } from '@/services/background-task/queued-sse-response'
 import { runBackgroundTaskApi } from '@/services/background-task/api-error-mapping'
 
@@ -77,6 +79,10 @@ export const POST = apiHandler(MigrationSchema, async (req, data) => {
     )
     return queuedSseResponse(queued)
   }
+  // 旧版进程内迁移只支持默认的 userId/externalId 布局
+  if ((await getStorageLayoutTemplate()) !== LEGACY_MIGRATION_LAYOUT_TEMPLATE) {
+    throw new ApiError('Custom storage layouts require the central dispatcher', 409)
+  }
   const encoder = new TextEncoder()
 
   const stream = new ReadableStream({
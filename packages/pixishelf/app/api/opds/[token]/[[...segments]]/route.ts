@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import logger from '@/lib/logger'
+import { GET as serveMediaFile } from '@/app/api/v1/images/[...path]/route'
+import { authenticateAccessToken } from '@/services/access-token-service'
+import { buildOpdsFeed, getOpdsPagePath } from '@/services/opds/opds-catalog-service'
+import { opdsFeedType, parseOpdsPath, renderOpdsFeed } from '@/services/opds/opds-feed'
+
+/**
+ * OPDS 1.2 目录与 Atom 订阅
+ * GET /api/opds/[token]/[...segments]
+ *
+ * 阅读器无法携带会话 Cookie，因此以路径中的订阅令牌鉴权（proxy 对该前缀放行）。
+ * 页面图片交给 /api/v1/images 的处理函数流式返回，沿用其 Range、ETag 与路径安全校验。
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string; segments?: string[] }> }
+): Promise<NextResponse> {
+  try {
+    const { token, segments = [] } = await params
+    if (!(await authenticateAccessToken(token, 'FEED'))) {
+      return new NextResponse('Invalid feed token', { status: 401 })
+    }
+
+    const target = parseOpdsPath(segments)
+    if (!target) {
+      return new NextResponse('Not Found', { status: 404 })
+    }
+
+    if (target.view === 'page') {
+      const pagePath = await getOpdsPagePath(target.artworkId, target.page)
+      if (!pagePath) {
+        return new NextResponse('Not Found', { status: 404 })
+      }
+      const pathSegments = pagePath.split('/').filter(Boolean).map(encodeURIComponent)
+      return serveMediaFile(request, { params: Promise.resolve({ path: pathSegments }) })
+    }
+
+    const requestedPage = Number(request.nextUrl.searchParams.get('page') ?? '1')
+    const page = Number.isSafeInteger(requestedPage) && requestedPage > 0 ? requestedPage : 1
+    const feed = await buildOpdsFeed(target, { token, page })
+    if (!feed) {
+      return new NextResponse('Not Found', { status: 404 })
+    }
+
+    return new NextResponse(renderOpdsFeed(feed), {
+      headers: {
+        'Content-Type': `${opdsFeedType(feed.kind)};charset=utf-8`,
+        'Cache-Control': 'private, no-cache'
+      }
+    })
+  } catch (error) {
+    logger.error('Failed to serve OPDS feed:', error)
+    return new NextResponse('Internal Server Error', { status: 500 })
+  }
+}
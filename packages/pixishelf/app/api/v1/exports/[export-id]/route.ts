@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promises as fs, createReadStream } from 'fs'
+import logger from '@/lib/logger'
+import { resolveArtworkExportDownload } from '@/services/artwork-export-service'
+
+/**
+ * 生成 Content-Disposition：filename* 携带 UTF-8 原名，filename 为仅含 ASCII 的兜底
+ */
+function buildAttachmentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_')
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * 下载作品导出文件。
+ * GET /api/v1/exports/:exportId
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ 'export-id': string }> }
+): Promise<NextResponse> {
+  try {
+    const { 'export-id': exportId } = await params
+    if (!/^[A-Za-z0-9_-]{1,120}$/.test(exportId)) {
+      return NextResponse.json({ error: 'Invalid exportId' }, { status: 400 })
+    }
+
+    const download = await resolveArtworkExportDownload(exportId)
+    if (!download) {
+      return NextResponse.json({ error: 'Export not found or expired' }, { status: 404 })
+    }
+
+    let stats
+    try {
+      stats = await fs.stat(download.filePath)
+      if (!stats.isFile()) {
+        return NextResponse.json({ error: 'Export not found or expired' }, { status: 404 })
+      }
+    } catch (_e) {
+      return NextResponse.json({ error: 'Export not found or expired' }, { status: 404 })
+    }
+
+    const headers = new Headers()
+    headers.set(
+      'Content-Type',
+      download.fileName.endsWith('.cbz') ? 'application/vnd.comicbook+zip' : 'application/zip'
+    )
+    headers.set('Content-Disposition', buildAttachmentDisposition(download.fileName))
+    headers.set('Content-Length', String(stats.size))
+    headers.set('Cache-Control', 'private, no-store')
+    // @ts-expect-error NextResponse 支持 Node Stream
+    return new NextResponse(createReadStream(download.filePath), { status: 200, headers })
+  } catch (error) {
+    logger.error('Failed to serve artwork export:', error)
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+
+const mocks = vi.hoisted(() => ({
+  requireAdmin: vi.fn(),
+  assertWritable: vi.fn(),
+  getScanPath: vi.fn(),
+  save: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/services/background-task/request-auth', () => ({ requireAdminRequest: mocks.requireAdmin }))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: mocks.assertWritable }))
+vi.mock('@/services/setting.service', () => ({ getScanPath: mocks.getScanPath }))
+vi.mock('@/services/local-import-service/archive-upload', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/local-import-service/archive-upload')>()),
+  saveLocalImportArchiveUpload: mocks.save
+}))
+
+import { POST } from '../route'
+const post = POST
+
+function uploadRequest() {
+  return new NextRequest('http://localhost/api/v1/local-imports/archives', {
+    method: 'POST',
+    headers: { 'x-artist-directory': 'Artist', 'x-file-name': encodeURIComponent('Book 01.cbz'), 'x-file-size': '7' },
+    body: 'archive'
+  })
+}
+
+describe('local import archive upload route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.requireAdmin.mockResolvedValue({ userId: 'admin-1' })
+    mocks.assertWritable.mockResolvedValue(undefined)
+    mocks.getScanPath.mockResolvedValue('/data')
+    mocks.save.mockResolvedValue({ storagePath: 'local-imports/Artist/Book 01.cbz', pageCount: 2 })
+  })
+
+  it('stores the uploaded archive under the scan root', async () => {
+    const response = await post(uploadRequest())
+
+    expect(response.status).toBe(200)
+    await expect(response.json()).resolves.toEqual({
+      success: true,
+      archive: { storagePath: 'local-imports/Artist/Book 01.cbz', pageCount: 2 }
+    })
+    expect(mocks.save).toHaveBeenCalledWith(
+      expect.objectContaining({ scanRoot: '/data', artistDirectory: 'Artist', fileName: 'Book 01.cbz' })
+    )
+  })
+
+  it('returns 503 without writing while maintenance mode is on', async () => {
+    mocks.assertWritable.mockRejectedValue(
+      new MaintenanceModeActiveError({
+        enabled: true,
+        enabledAt: new Date(),
+        enabledBy: 'backup-checkpoint',
+        reason: null
+      })
+    )
+
+    const response = await post(uploadRequest())
+
+    expect(response.status).toBe(503)
+    await expect(response.json()).resolves.toEqual({ error: '系统维护中，暂时不能修改数据' })
+    expect(mocks.save).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server'
+import { Readable } from 'stream'
+import { ApiError } from '@/lib/api-handler'
+import { apiError, apiSuccess } from '@/lib/api-response'
+import { requireAdminRequest } from '@/services/background-task/request-auth'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import {
+  LocalImportArchiveUploadError,
+  saveLocalImportArchiveUpload,
+  validateLocalImportArchiveUpload
+} from '@/services/local-import-service/archive-upload'
+import { assertWritable } from '@/services/maintenance-mode-service'
+import { getScanPath } from '@/services/setting.service'
+
+/**
+ * 上传 CBZ/ZIP/7z 到本地导入目录。
+ * POST /api/v1/local-imports/archives，请求体为压缩包原始字节，x-artist-directory / x-file-name 经 URL 编码。
+ */
+export async function POST(req: NextRequest) {
+  try {
+    await requireAdminRequest(req)
+    const artistDirectory = req.headers.get('x-artist-directory')
+    const fileName = req.headers.get('x-file-name')
+    const fileSize = req.headers.get('x-file-size')
+    if (!artistDirectory || !fileName) {
+      return apiError('Missing required headers', { status: 400 })
+    }
+
+    const input = {
+      artistDirectory: decodeURIComponent(artistDirectory),
+      fileName: decodeURIComponent(fileName),
+      declaredFileSize: fileSize ? Number(fileSize) : null
+    }
+    validateLocalImportArchiveUpload(input)
+    await assertWritable()
+
+    const scanRoot = await getScanPath()
+    if (!scanRoot) {
+      return apiError('SCAN_PATH not set')
+    }
+
+    // @ts-ignore: Readable.fromWeb 在 Node 18+ 可用；Next.js 16 运行时已依赖该能力
+    const body = req.body ? Readable.fromWeb(req.body) : null
+    const archive = await saveLocalImportArchiveUpload({ ...input, scanRoot, body })
+    return apiSuccess({ archive })
+  } catch (error: any) {
+    if (error instanceof LocalImportArchiveUploadError) {
+      return apiError(error.message, { status: error.status })
+    }
+    if (error instanceof ApiError) {
+      return apiError(error.message, { status: error.statusCode })
+    }
+    if (error instanceof MaintenanceModeActiveError) {
+      return apiError(error.message, { status: 503 })
+    }
+
+    return apiError(error.message || 'Unknown error')
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promises as fs, createReadStream } from 'fs'
+import logger from '@/lib/logger'
+import { resolvePublishedVideoHlsFile } from '@/services/video-hls-service'
+
+/**
+ * 提供已发布的 HLS 码率档位文件（主播放列表、档位播放列表与单文件分片）。
+ * GET /api/v1/media/:imageId/hls/:setId/:file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ 'image-id': string; 'set-id': string; file: string }> }
+): Promise<NextResponse> {
+  try {
+    const { 'image-id': imageId, 'set-id': setId, file } = await params
+    const parsedImageId = Number(imageId)
+    if (!Number.isInteger(parsedImageId) || parsedImageId <= 0) {
+      return NextResponse.json({ error: 'Invalid imageId' }, { status: 400 })
+    }
+
+    const filePath = await resolvePublishedVideoHlsFile({ imageId: parsedImageId, setId, fileName: file })
+    if (!filePath) {
+      return NextResponse.json({ error: 'HLS rendition not found' }, { status: 404 })
+    }
+
+    let stats
+    try {
+      stats = await fs.stat(filePath)
+      if (!stats.isFile()) {
+        return NextResponse.json({ error: 'HLS rendition not found' }, { status: 404 })
+      }
+    } catch (_e) {
+      return NextResponse.json({ error: 'HLS rendition not found' }, { status: 404 })
+    }
+
+    const headers = new Headers()
+    if (file.endsWith('.m3u8')) {
+      // 主播放列表需要随源文件指纹失效，档位播放列表与集合一一对应
+      headers.set('Content-Type', 'application/vnd.apple.mpegurl')
+      headers.set(
+        'Cache-Control',
+        file === 'master.m3u8' ? 'private, no-cache' : 'private, max-age=31536000, immutable'
+      )
+    } else {
+      headers.set('Content-Type', 'video/mp2t')
+      headers.set('Cache-Control', 'private, max-age=31536000, immutable')
+    }
+    headers.set('Accept-Ranges', 'bytes')
+
+    // 单文件分片依赖 Range 请求按 EXT-X-BYTERANGE 读取
+    const fileSize = stats.size
+    const range = request.headers.get('range')
+    if (range) {
+      const parts = range.replace(/bytes=/, '').split('-')
+      const start = parseInt(parts[0] || '0', 10)
+      const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1
+
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start > end || start >= fileSize || end >= fileSize) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${fileSize}` }
+        })
+      }
+
+      headers.set('Content-Range', `bytes ${start}-${end}/${fileSize}`)
+      headers.set('Content-Length', String(end - start + 1))
+      // @ts-expect-error NextResponse 支持 Node Stream
+      return new NextResponse(createReadStream(filePath, { start, end }), { status: 206, headers })
+    }
+
+    headers.set('Content-Length', String(fileSize))
+    // @ts-expect-error NextResponse 支持 Node Stream
+    return new NextResponse(createReadStream(filePath), { status: 200, headers })
+  } catch (error) {
+    logger.error('Failed to serve video HLS file:', error)
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { promises as fs } from 'fs'
+import logger from '@/lib/logger'
+import { resolveVideoSubtitleFile } from '@/services/video-subtitle-service'
+
+/**
+ * 提供转换后的 WebVTT 字幕文件。
+ * GET /api/v1/media/:imageId/subtitles/:trackId
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ 'image-id': string; 'track-id': string }> }
+) {
+  try {
+    const { 'image-id': imageId, 'track-id': trackId } = await params
+    const parsedImageId = Number(imageId)
+    if (!Number.isInteger(parsedImageId) || parsedImageId <= 0) {
+      return NextResponse.json({ error: 'Invalid imageId' }, { status: 400 })
+    }
+
+    const filePath = await resolveVideoSubtitleFile({ imageId: parsedImageId, trackId })
+    if (!filePath) {
+      return NextResponse.json({ error: 'Subtitle track not found' }, { status: 404 })
+    }
+
+    let content: Buffer
+    try {
+      content = await fs.readFile(filePath)
+    } catch (_e) {
+      return NextResponse.json({ error: 'Subtitle track not found' }, { status: 404 })
+    }
+
+    // 源字幕变化后会原地重写同一文件，因此每次都需要向服务端确认
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/vtt; charset=utf-8',
+        'Content-Length': String(content.length),
+        'Cache-Control': 'private, no-cache'
+      }
+    })
+  } catch (error) {
+    logger.error('Failed to serve video subtitle:', error)
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
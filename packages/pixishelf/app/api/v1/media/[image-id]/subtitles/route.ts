@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import logger from '@/lib/logger'
+import { listVideoSubtitleTracks } from '@/services/video-subtitle-service'
+
+/**
+ * 视频字幕轨道列表
+ * GET /api/v1/media/:imageId/subtitles
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ 'image-id': string }> }) {
+  try {
+    const { 'image-id': imageId } = await params
+    const parsedImageId = Number(imageId)
+
+    if (!Number.isInteger(parsedImageId) || parsedImageId <= 0) {
+      return NextResponse.json({ error: 'Invalid imageId' }, { status: 400 })
+    }
+
+    const tracks = await listVideoSubtitleTracks(parsedImageId)
+    return NextResponse.json({ tracks })
+  } catch (error: any) {
+    if (error?.message === 'Image not found') {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 })
+    }
+
+    if (error?.message === 'Image is not a video') {
+      return NextResponse.json({ error: 'Image is not a video' }, { status: 400 })
+    }
+
+    logger.error('Failed to list video subtitles:', error)
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
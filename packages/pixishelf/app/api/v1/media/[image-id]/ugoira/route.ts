@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promises as fs, createReadStream } from 'fs'
+import logger from '@/lib/logger'
+import { resolveUgoiraAnimationFile } from '@/services/ugoira-animation-service'
+
+/**
+ * 提供 ugoira 动图转换后的 WebM 文件。
+ * GET /api/v1/media/:imageId/ugoira
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ 'image-id': string }> }
+): Promise<NextResponse> {
+  try {
+    const { 'image-id': imageId } = await params
+    const parsedImageId = Number(imageId)
+    if (!Number.isInteger(parsedImageId) || parsedImageId <= 0) {
+      return NextResponse.json({ error: 'Invalid imageId' }, { status: 400 })
+    }
+
+    const filePath = await resolveUgoiraAnimationFile(parsedImageId)
+    if (!filePath) {
+      return NextResponse.json({ error: 'Ugoira animation not found' }, { status: 404 })
+    }
+
+    let stats
+    try {
+      stats = await fs.stat(filePath)
+      if (!stats.isFile()) {
+        return NextResponse.json({ error: 'Ugoira animation not found' }, { status: 404 })
+      }
+    } catch (_e) {
+      return NextResponse.json({ error: 'Ugoira animation not found' }, { status: 404 })
+    }
+
+    // 重新转换会写入新文件名并更新 convertedAt，链接上的版本参数随之变化
+    const headers = new Headers()
+    headers.set('Content-Type', 'video/webm')
+    headers.set(
+      'Cache-Control',
+      request.nextUrl.searchParams.has('v') ? 'private, max-age=31536000, immutable' : 'private, no-cache'
+    )
+    headers.set('Accept-Ranges', 'bytes')
+
+    const fileSize = stats.size
+    const range = request.headers.get('range')
+    if (range) {
+      const parts = range.replace(/bytes=/, '').split('-')
+      const start = parseInt(parts[0] || '0', 10)
+      const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1
+
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start > end || start >= fileSize || end >= fileSize) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${fileSize}` }
+        })
+      }
+
+      headers.set('Content-Range', `bytes ${start}-${end}/${fileSize}`)
+      headers.set('Content-Length', String(end - start + 1))
+      // @ts-expect-error NextResponse 支持 Node Stream
+      return new NextResponse(createReadStream(filePath, { start, end }), { status: 206, headers })
+    }
+
+    headers.set('Content-Length', String(fileSize))
+    // @ts-expect-error NextResponse 支持 Node Stream
+    return new NextResponse(createReadStream(filePath), { status: 200, headers })
+  } catch (error) {
+    logger.error('Failed to serve ugoira animation:', error)
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
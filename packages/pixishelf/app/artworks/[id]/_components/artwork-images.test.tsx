@@ -66,6 +66,11 @@ vi.mock('./artwork-video-optimization-context', () => ({
   ArtworkVideoOptimizationProvider: ({ children }: { children: React.ReactNode }) => children
 }))
 
+vi.mock('./artwork-reading-progress', () => ({
+  ArtworkReadingProgressProvider: ({ children }: { children: React.ReactNode }) => children,
+  ResumeReadingBanner: () => null
+}))
+
 global.ResizeObserver = class ResizeObserver {
   observe() {}
   unobserve() {}
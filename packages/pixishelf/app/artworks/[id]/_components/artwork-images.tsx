@@ -15,6 +15,7 @@ import { isApngFile, isGifFile, isVideoFile, isWebpFile } from '@/lib/media'
 import { cn } from '@/lib/utils'
 import AdaptiveMediaPreview from './adaptive-media-preview'
 import { ArtworkVideoOptimizationProvider } from './artwork-video-optimization-context'
+import { ArtworkReadingProgressProvider, ResumeReadingBanner } from './artwork-reading-progress'
 
 interface ArtworkImagesProps {
   images: ArtworkImageResponseDto[]
@@ -597,7 +598,7 @@ function VirtualizedArtworkMediaList({
   )
 }
 
-export default function ArtworkImages({ images }: ArtworkImagesProps) {
+export default function ArtworkImages({ images, artworkId }: ArtworkImagesProps) {
   const [previewIndex, setPreviewIndex] = useState<number | null>(null)
   const [returnIndex, setReturnIndex] = useState<number | null>(null)
   const setCurrentIndex = useArtworkStore((state) => state.setCurrentIndex)
@@ -627,6 +628,13 @@ export default function ArtworkImages({ images }: ArtworkImagesProps) {
   )
 
   const handleReturnHandled = useCallback(() => setReturnIndex(null), [])
+  const handleResumeReading = useCallback(
+    (index: number) => {
+      setCurrentIndex(index)
+      setReturnIndex(index)
+    },
+    [setCurrentIndex]
+  )
 
   const mediaContent = isSingleVideoArtwork(images) ? (
     <SingleVideoArtworkMedia media={images[0]!} />
@@ -643,25 +651,28 @@ export default function ArtworkImages({ images }: ArtworkImagesProps) {
   const videoImageIds = useMemo(() => images.filter(isVideoMedia).map((media) => media.id), [images])
 
   return (
-    <ArtworkVideoOptimizationProvider imageIds={videoImageIds}>
-      {mediaContent}
-      <PreviewContextMenu
-        contextMenu={contextMenu}
-        images={images}
-        onOpenChange={(open) => {
-          if (!open) closeContextMenu()
-        }}
-        onPreview={previewSelectedMedia}
-        onViewOriginal={viewOriginalSelectedMedia}
-      />
-      {previewIndex !== null && (
-        <AdaptiveMediaPreview
-          images={adaptivePreviewImages}
-          initialIndex={previewIndex}
-          open
-          onClose={handlePreviewClose}
+    <ArtworkReadingProgressProvider artworkId={artworkId} images={images}>
+      <ArtworkVideoOptimizationProvider imageIds={videoImageIds}>
+        <ResumeReadingBanner key={artworkId} total={images.length} onResume={handleResumeReading} />
+        {mediaContent}
+        <PreviewContextMenu
+          contextMenu={contextMenu}
+          images={images}
+          onOpenChange={(open) => {
+            if (!open) closeContextMenu()
+          }}
+          onPreview={previewSelectedMedia}
+          onViewOriginal={viewOriginalSelectedMedia}
         />
-      )}
-    </ArtworkVideoOptimizationProvider>
+        {previewIndex !== null && (
+          <AdaptiveMediaPreview
+            images={adaptivePreviewImages}
+            initialIndex={previewIndex}
+            open
+            onClose={handlePreviewClose}
+          />
+        )}
+      </ArtworkVideoOptimizationProvider>
+    </ArtworkReadingProgressProvider>
   )
 }
@@ -23,6 +23,11 @@ vi.mock('./artwork-video-optimization-context', () => ({
   ArtworkVideoOptimizationProvider: ({ children }: { children: React.ReactNode }) => children
 }))
 
+vi.mock('./artwork-reading-progress', () => ({
+  ArtworkReadingProgressProvider: ({ children }: { children: React.ReactNode }) => children,
+  ResumeReadingBanner: () => null
+}))
+
 class ResizeObserverMock {
   observe() {}
   unobserve() {}
@@ -0,0 +1,171 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { BookmarkIcon, X } from 'lucide-react'
+import { useAuthUser } from '@/components/auth'
+import { Button } from '@/components/ui/button'
+import { useTRPC } from '@/lib/trpc'
+import { isVideoFile } from '@/lib/media'
+import type { ArtworkImageResponseDto } from '@/schemas/artwork.dto'
+import type { ReadingProgressSaveSchema, ReadingProgressView } from '@/schemas/reading-progress.dto'
+import { useArtworkStore } from '@/store/use-artwork-store'
+import {
+  READING_PROGRESS_INDEX_DELAY_MS,
+  READING_PROGRESS_VIDEO_INTERVAL_MS,
+  useReadingProgressSaver
+} from '@/hooks/use-reading-progress-saver'
+import { useViewHistoryRecorder } from '@/hooks/use-view-history-recorder'
+
+interface ArtworkReadingProgressContextValue {
+  progress: ReadingProgressView | null
+  getVideoResumeTime: (imageId: number) => number | null
+  reportVideoProgress: (imageId: number, currentTime: number, duration: number) => void
+}
+
+const ArtworkReadingProgressContext = createContext<ArtworkReadingProgressContextValue | null>(null)
+
+function isVideoMedia(media: ArtworkImageResponseDto) {
+  return media.mediaType === 'video' || isVideoFile(media.path)
+}
+
+/**
+ * 作品页阅读进度：读取上次位置，并在翻页或视频播放时回写；同时记录本次浏览历史
+ */
+export function ArtworkReadingProgressProvider({
+  artworkId,
+  images,
+  children
+}: {
+  artworkId: number
+  images: ArtworkImageResponseDto[]
+  children: ReactNode
+}) {
+  const trpc = useTRPC()
+  const user = useAuthUser()
+  const enabled = Boolean(user) && images.length > 0
+  const { data: progress = null } = useQuery(
+    trpc.readingProgress.get.queryOptions(artworkId, { enabled, staleTime: 0 })
+  )
+  const currentIndex = useArtworkStore((state) => state.currentIndex)
+  const setCurrentIndex = useArtworkStore((state) => state.setCurrentIndex)
+  const videoPositionsRef = useRef(new Map<number, { time: number; duration: number }>())
+  const trackingRef = useRef(false)
+  const { schedule } = useReadingProgressSaver(enabled)
+  const { markMedia, reportVideoTime } = useViewHistoryRecorder(user ? artworkId : null, 'artwork')
+
+  const buildSnapshot = useCallback(
+    (mediaIndex: number): ReadingProgressSaveSchema | null => {
+      const media = images[mediaIndex]
+      if (!media) return null
+      const snapshot: ReadingProgressSaveSchema = {
+        artworkId,
+        mediaIndex,
+        mediaCount: images.length,
+        imageId: media.id
+      }
+      if (isVideoMedia(media)) {
+        const position = videoPositionsRef.current.get(media.id)
+        snapshot.videoPositionSec = position?.time ?? 0
+        if (position?.duration) snapshot.videoDurationSec = position.duration
+      }
+      return snapshot
+    },
+    [artworkId, images]
+  )
+
+  // 作品切换时全局 store 里还残留上一个作品的位置，先归零再开始记录
+  useEffect(() => {
+    trackingRef.current = false
+    setCurrentIndex(0)
+    videoPositionsRef.current.clear()
+  }, [artworkId, setCurrentIndex])
+
+  useEffect(() => {
+    markMedia(currentIndex)
+  }, [currentIndex, markMedia])
+
+  useEffect(() => {
+    if (!enabled) return
+    // 打开作品时停在第一张，直到用户真正翻页后才开始记录，避免覆盖已保存的位置；单张作品打开即读完
+    if (!trackingRef.current) {
+      if (currentIndex === 0 && images.length > 1) return
+      trackingRef.current = true
+    }
+    const snapshot = buildSnapshot(currentIndex)
+    if (snapshot) schedule(snapshot, READING_PROGRESS_INDEX_DELAY_MS, true)
+  }, [buildSnapshot, currentIndex, enabled, images.length, schedule])
+
+  const reportVideoProgress = useCallback(
+    (imageId: number, currentTime: number, duration: number) => {
+      videoPositionsRef.current.set(imageId, { time: currentTime, duration })
+      reportVideoTime(imageId, currentTime)
+      if (!enabled) return
+      const mediaIndex = images.findIndex((media) => media.id === imageId)
+      const snapshot = mediaIndex >= 0 ? buildSnapshot(mediaIndex) : null
+      if (!snapshot) return
+      trackingRef.current = true
+      schedule(snapshot, READING_PROGRESS_VIDEO_INTERVAL_MS, false)
+    },
+    [buildSnapshot, enabled, images, reportVideoTime, schedule]
+  )
+
+  const value = useMemo<ArtworkReadingProgressContextValue>(
+    () => ({
+      progress,
+      getVideoResumeTime: (imageId) =>
+        progress && progress.imageId === imageId ? (progress.videoPositionSec ?? null) : null,
+      reportVideoProgress
+    }),
+    [progress, reportVideoProgress]
+  )
+
+  return <ArtworkReadingProgressContext.Provider value={value}>{children}</ArtworkReadingProgressContext.Provider>
+}
+
+export function useArtworkReadingProgress() {
+  return useContext(ArtworkReadingProgressContext)
+}
+
+/**
+ * 上次读到中途时提示从该位置继续
+ */
+export function ResumeReadingBanner({ total, onResume }: { total: number; onResume: (index: number) => void }) {
+  const context = useArtworkReadingProgress()
+  const [dismissed, setDismissed] = useState(false)
+  const progress = context?.progress
+  if (!progress || progress.completed || progress.mediaIndex <= 0 || dismissed) return null
+
+  const index = Math.min(progress.mediaIndex, total - 1)
+
+  return (
+    <div
+      role="status"
+      className="mb-4 flex items-center gap-3 rounded-surface border border-border bg-surface-raised px-4 py-3 text-sm"
+    >
+      <BookmarkIcon className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+      <span className="min-w-0 flex-1 text-foreground">
+        上次读到第 <span className="font-utility tabular-nums">{index + 1}</span> / {total} 张
+      </span>
+      <Button
+        type="button"
+        size="sm"
+        onClick={() => {
+          setDismissed(true)
+          onResume(index)
+        }}
+      >
+        继续阅读
+      </Button>
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        aria-label="关闭阅读进度提示"
+        onClick={() => setDismissed(true)}
+      >
+        <X className="size-4" />
+      </Button>
+    </div>
+  )
+}
@@ -3,17 +3,19 @@
 import VideoPlayer, { type VideoPlayerSettingAction } from '@/components/players/video-player'
 import ApngPlayer from '@/components/players/apng-player'
 import AnimatedWebpPlayer from '@/components/players/animated-webp-player'
+import UgoiraPlayer from '@/components/players/ugoira-player'
 import type { ArtworkImageResponseDto } from '@/schemas/artwork.dto'
 import { useArtworkStore } from '@/store/use-artwork-store'
 import Image from 'next/image'
 import { memo, useMemo } from 'react'
 import { useOnInView } from 'react-intersection-observer'
-import { isApngFile, isGifFile, isVideoFile, isWebpFile } from '@/lib/media'
+import { isApngFile, isGifFile, isUgoiraArchiveFile, isVideoFile, isWebpFile } from '@/lib/media'
 import { combinationApiResource } from '@/utils/combination-static'
 import { Loader2, X } from 'lucide-react'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
 import { useArtworkVideoOptimization } from './artwork-video-optimization-context'
+import { useArtworkReadingProgress } from './artwork-reading-progress'
 
 interface LazyMediaProps {
   media: ArtworkImageResponseDto
@@ -26,6 +28,7 @@ interface LazyMediaProps {
 const LazyMedia = memo(({ media, index }: LazyMediaProps) => {
   const setCurrentIndex = useArtworkStore((state) => state.setCurrentIndex)
   const { job, isStarting, canManage, suspendPlayback, enqueue, cancel } = useArtworkVideoOptimization(media.id)
+  const readingProgress = useArtworkReadingProgress()
   const src = media.path
   const hasDimensions = Boolean(media.width && media.height && media.width > 0 && media.height > 0)
   const aspectRatio = hasDimensions ? `${media.width} / ${media.height}` : undefined
@@ -112,16 +115,24 @@ const LazyMedia = memo(({ media, index }: LazyMediaProps) => {
           chaptersUrl={media.chaptersUrl}
           chaptersCount={media.chaptersCount}
           keyframesUrl={media.keyframesUrl}
+          hlsUrl={media.hlsUrl}
+          subtitlesUrl={media.subtitlesUrl}
           keyframeCount={media.keyframeCount}
           hasAudio={media.hasAudio}
           size={media.size}
           className="w-full h-auto"
           preload="metadata"
+          resumeTime={readingProgress?.getVideoResumeTime(media.id)}
+          onProgress={(currentTime, duration) => readingProgress?.reportVideoProgress(media.id, currentTime, duration)}
           settingActions={videoSettingActions}
         />
       )
     }
 
+    if (isUgoiraArchiveFile(src)) {
+      return <UgoiraPlayer src={media.ugoiraUrl} alt={`Artwork ugoira ${index + 1}`} />
+    }
+
     if ((isApngFile(src) || /\.png$/i.test(src)) && media.isAnimated) {
       return <ApngPlayer src={src} alt={`Artwork animation ${index + 1}`} />
     }
@@ -1,6 +1,7 @@
 import Link from 'next/link'
 import { BookOpenIcon, ChevronLeftIcon, ChevronRightIcon } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import SeriesReadingProgress from './series-reading-progress'
 
 interface SeriesArtworkLink {
   id: number
@@ -8,6 +9,7 @@ interface SeriesArtworkLink {
 }
 
 interface Props {
+  artworkId: number
   series: {
     id: number
     title: string
@@ -57,7 +59,7 @@ function NextButton({ artwork }: { artwork: SeriesArtworkLink | null }) {
   )
 }
 
-export default function SeriesNav({ series }: Props) {
+export default function SeriesNav({ artworkId, series }: Props) {
   return (
     <nav
       aria-label="系列作品导航"
@@ -77,6 +79,8 @@ export default function SeriesNav({ series }: Props) {
       </Link>
 
       <NextButton artwork={series.next} />
+
+      <SeriesReadingProgress seriesId={series.id} currentArtworkId={artworkId} />
     </nav>
   )
 }
@@ -0,0 +1,46 @@
+'use client'
+
+import Link from 'next/link'
+import { useQuery } from '@tanstack/react-query'
+import { BookmarkIcon } from 'lucide-react'
+import { useAuthUser } from '@/components/auth'
+import { useTRPC } from '@/lib/trpc'
+
+/**
+ * 系列阅读进度：已读完篇数与按系列顺序的下一篇未读作品
+ */
+export default function SeriesReadingProgress({
+  seriesId,
+  currentArtworkId
+}: {
+  seriesId: number
+  currentArtworkId: number
+}) {
+  const trpc = useTRPC()
+  const user = useAuthUser()
+  const { data } = useQuery(trpc.readingProgress.series.queryOptions(seriesId, { enabled: Boolean(user) }))
+
+  if (!data || data.total === 0) return null
+
+  const next = data.next
+
+  return (
+    <div className="col-span-3 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+      <span className="font-utility tabular-nums">
+        已读 {data.completedCount} / {data.total} 话
+      </span>
+      {next && next.id !== currentArtworkId && (
+        <Link
+          href={`/artworks/${next.id}`}
+          title={next.title}
+          className="flex min-w-0 items-center gap-1 rounded-sm text-primary underline-offset-4 outline-none hover:underline focus-visible:ring-2 focus-visible:ring-ring/50"
+        >
+          <BookmarkIcon className="size-3 shrink-0" aria-hidden="true" />
+          <span className="truncate">
+            {next.progress ? '继续' : '下一篇未读'}：第 {next.order} 话 {next.title}
+          </span>
+        </Link>
+      )}
+    </div>
+  )
+}
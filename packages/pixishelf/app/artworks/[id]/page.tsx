@@ -78,7 +78,7 @@ export default async function ArtworkDetailPage({ params }: PageProps<'/artworks
 
           <ArtworkImages images={data.images} artworkId={data.id} />
           <ArtworkDes description={data.description} className="mt-8" />
-          {data.series && <SeriesNav series={data.series} />}
+          {data.series && <SeriesNav artworkId={data.id} series={data.series} />}
           {artistId && <RelatedArtworks artistId={artistId} currentArtworkId={data.id} />}
         </article>
       </PageContainer>
@@ -47,6 +47,10 @@ vi.mock('../_components/search-box', () => ({
   SearchBox: () => <div>搜索作品</div>
 }))
 
+vi.mock('../_components/save-collection-dialog', () => ({
+  SaveCollectionDialog: () => <button type="button">保存为合集</button>
+}))
+
 vi.mock('@/components/artwork/filter-sheet', () => ({
   FilterSheet: () => null
 }))
@@ -48,4 +48,23 @@ describe('SearchBox', () => {
       expect.objectContaining({ type: 'artist', value: '42', label: '测试艺术家' })
     )
   })
+
+  it('highlights structured query errors and blocks submission until they are fixed', () => {
+    const onSearch = vi.fn()
+
+    render(<SearchBox structured onSearch={onSearch} />)
+
+    const input = screen.getByRole<HTMLInputElement>('combobox', { name: '搜索作品、艺术家或标签' })
+    fireEvent.change(input, { target: { value: 'tag:ok media:lots' } })
+
+    expect(input.getAttribute('aria-invalid')).toBe('true')
+    expect(screen.getByRole('alert').querySelector('mark')?.textContent).toBe('lots')
+
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(onSearch).not.toHaveBeenCalled()
+    expect([input.selectionStart, input.selectionEnd]).toEqual([13, 17])
+
+    fireEvent.change(input, { target: { value: 'tag:ok media:>2' } })
+    expect(screen.queryByRole('alert')).toBeNull()
+  })
 })
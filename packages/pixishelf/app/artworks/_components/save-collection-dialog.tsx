@@ -0,0 +1,89 @@
+'use client'
+
+import Link from 'next/link'
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { LibraryIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import type { SmartCollectionFilters } from '@/schemas/smart-collection.dto'
+import { useTRPC } from '@/lib/trpc'
+import { ROUTES } from '@/lib/constants'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Field, FieldGroup, FieldLabel } from '@/components/ui/field'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+interface SaveCollectionDialogProps {
+  filters: SmartCollectionFilters
+}
+
+/**
+ * 把当前作品筛选保存为智能合集
+ */
+export function SaveCollectionDialog({ filters }: SaveCollectionDialogProps) {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+
+  const createMutation = useMutation(
+    trpc.smartCollection.create.mutationOptions({
+      onSuccess: (collection) => {
+        toast.success('已保存为合集', {
+          action: (
+            <Link href={`${ROUTES.COLLECTIONS}/${collection.id}`} className="text-sm font-medium underline">
+              查看
+            </Link>
+          )
+        })
+        queryClient.invalidateQueries({ queryKey: trpc.smartCollection.list.queryKey() })
+        setOpen(false)
+        setName('')
+      },
+      onError: (error) => toast.error(error.message || '保存失败')
+    })
+  )
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    createMutation.mutate({ name, filters })
+  }
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setOpen(true)}>
+        <LibraryIcon data-icon="inline-start" aria-hidden="true" />
+        保存为合集
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>保存为合集</DialogTitle>
+            <DialogDescription>合集会保存当前筛选条件，之后新入库的匹配作品会自动出现在合集中。</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <FieldGroup className="gap-4">
+              <Field className="gap-2">
+                <FieldLabel htmlFor="smart-collection-name">名称</FieldLabel>
+                <Input
+                  id="smart-collection-name"
+                  name="smart-collection-name"
+                  autoComplete="off"
+                  maxLength={100}
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  required
+                />
+              </Field>
+            </FieldGroup>
+            <DialogFooter>
+              <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+                {createMutation.isPending ? '保存中…' : '保存'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -1,7 +1,8 @@
 'use client'
 
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import type { SearchSuggestion } from '@/schemas/search.dto'
+import { parseArtworkQuery, type ArtworkQueryParseError } from '@/lib/artwork-query-language'
 import { useDebounce } from '@/hooks/use-debounce'
 import { cn } from '@/lib/utils'
 import { ImageIcon, SearchIcon, TagIcon, UserIcon } from 'lucide-react'
@@ -33,6 +34,8 @@ export interface SearchBoxProps {
   inputName?: string
   /** 输入框的可访问名称 */
   ariaLabel?: string
+  /** 按结构化查询语句校验输入，出错时高亮错误片段并阻止提交 */
+  structured?: boolean
 }
 
 /**
@@ -49,7 +52,8 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
   disabled = false,
   inputId,
   inputName = 'artwork-search',
-  ariaLabel = '搜索作品、艺术家或标签'
+  ariaLabel = '搜索作品、艺术家或标签',
+  structured = false
 }) => {
   const [inputValue, setInputValue] = useState(value)
   const [showSuggestions, setShowSuggestions] = useState(false)
@@ -59,6 +63,7 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
   const inputRef = useRef<HTMLInputElement>(null)
   const suggestionsRef = useRef<HTMLUListElement>(null)
   const suggestionsId = React.useId()
+  const queryErrorsId = React.useId()
   const debouncedQuery = useDebounce(inputValue.trim(), 300)
 
   const trpc = useTRPC()
@@ -73,6 +78,10 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
   })
 
   const suggestions = data?.suggestions || []
+  const queryErrors = useMemo(
+    () => (structured && inputValue.trim() ? parseArtworkQuery(inputValue).errors : []),
+    [structured, inputValue]
+  )
 
   useEffect(() => {
     setInputValue(value)
@@ -133,6 +142,13 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
 
   // 处理搜索
   const handleSearch = () => {
+    const [firstError] = queryErrors
+    if (firstError) {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(firstError.start, firstError.end)
+      return
+    }
+
     const query = inputValue.trim()
     onSearch?.(query)
     setShowSuggestions(false)
@@ -209,6 +225,8 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
           aria-expanded={showSuggestions && suggestions.length > 0}
           aria-controls={suggestionsId}
           aria-activedescendant={selectedIndex >= 0 ? `${suggestionsId}-${selectedIndex}` : undefined}
+          aria-invalid={queryErrors.length > 0 || undefined}
+          aria-describedby={queryErrors.length > 0 ? queryErrorsId : undefined}
           value={inputValue}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
@@ -225,6 +243,10 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
         )}
       </div>
 
+      {queryErrors.length > 0 && (
+        <QueryErrorHint id={queryErrorsId} value={inputValue} errors={queryErrors} />
+      )}
+
       {/* 搜索建议下拉列表 */}
       {showSuggestions && suggestions.length > 0 && (
         <ul
@@ -280,3 +302,34 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
     </div>
   )
 }
+
+/**
+ * 在原始输入下方回显查询语句，并用 mark 标出每个错误片段
+ */
+function QueryErrorHint({ id, value, errors }: { id: string; value: string; errors: ArtworkQueryParseError[] }) {
+  const segments: React.ReactNode[] = []
+  let cursor = 0
+
+  errors.forEach((error, index) => {
+    if (error.start < cursor) return
+    segments.push(value.slice(cursor, error.start))
+    segments.push(
+      <mark key={index} className="rounded-sm bg-destructive/15 text-destructive underline decoration-wavy">
+        {value.slice(error.start, Math.max(error.end, error.start + 1)) || ' '}
+      </mark>
+    )
+    cursor = Math.max(error.end, error.start + 1)
+  })
+  segments.push(value.slice(cursor))
+
+  return (
+    <div id={id} role="alert" className="mt-1.5 flex flex-col gap-1 text-xs">
+      <p className="truncate font-mono whitespace-pre text-muted-foreground">{segments}</p>
+      {errors.map((error) => (
+        <p key={`${error.start}-${error.message}`} className="text-destructive">
+          {error.message}
+        </p>
+      ))}
+    </div>
+  )
+}
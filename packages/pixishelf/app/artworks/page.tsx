@@ -2,10 +2,12 @@
 
 import Link from 'next/link'
 import { useMemo, useState } from 'react'
-import { ImageUpIcon, SlidersHorizontal, X } from 'lucide-react'
+import { ImageUpIcon, SearchIcon, SlidersHorizontal, X } from 'lucide-react'
 import { SortOption, MediaTypeFilter, AudioFilter } from '@/types'
 import type { SearchSuggestion } from '@/schemas/search.dto'
+import type { SmartCollectionFilters } from '@/schemas/smart-collection.dto'
 import { SearchBox } from './_components/search-box'
+import { SaveCollectionDialog } from './_components/save-collection-dialog'
 import { FilterSheet } from '@/components/artwork/filter-sheet'
 import { PageContainer } from '@/components/layout/page-container'
 import PageToolbar from '@/components/layout/page-toolbar'
@@ -17,6 +19,7 @@ import dayjs from 'dayjs'
 import type { Option } from '@/components/shared/multiple-selector'
 import { useTRPCClient } from '@/lib/trpc'
 import { MSource, OSource } from '@/enums/e-source'
+import { ROUTES } from '@/lib/constants'
 import type { ArtworkSource } from '@/schemas/models'
 
 const searchParamsParsers = {
@@ -207,6 +210,35 @@ export default function GalleryPage() {
     tagIds
   ])
 
+  const collectionFilters = useMemo<SmartCollectionFilters>(
+    () => ({
+      q: searchQuery || undefined,
+      artistId: artistId || undefined,
+      tagIds: tagIds.length > 0 ? tagIds : undefined,
+      sources: selectedSources.length > 0 ? selectedSources : undefined,
+      hasAudio: hasAudio === 'all' ? undefined : hasAudio,
+      mediaType: mediaType === 'image' || mediaType === 'video' ? mediaType : undefined,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      createdStartDate: createdStartDate || undefined,
+      createdEndDate: createdEndDate || undefined,
+      sortBy: sortBy === 'random' ? undefined : sortBy
+    }),
+    [
+      artistId,
+      createdEndDate,
+      createdStartDate,
+      endDate,
+      hasAudio,
+      mediaType,
+      searchQuery,
+      selectedSources,
+      sortBy,
+      startDate,
+      tagIds
+    ]
+  )
+
   const handleSearchArtist = async (value: string): Promise<Option[]> => {
     const res = await trpcClient.artist.queryPage.query({
       cursor: 1,
@@ -374,6 +406,7 @@ export default function GalleryPage() {
         }
       >
         <SearchBox
+          structured
           value={searchQuery}
           onSearch={handleSearch}
           onSuggestionClick={handleSuggestionClick}
@@ -444,6 +477,15 @@ export default function GalleryPage() {
               >
                 清空全部
               </Button>
+              <SaveCollectionDialog filters={collectionFilters} />
+              {searchQuery && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
+                  <Link href={`${ROUTES.SEARCH}?q=${encodeURIComponent(searchQuery)}`}>
+                    <SearchIcon data-icon="inline-start" aria-hidden="true" />
+                    全站搜索
+                  </Link>
+                </Button>
+              )}
             </div>
           </PageContainer>
         </div>
@@ -470,7 +512,7 @@ export default function GalleryPage() {
 
       <PageContainer as="main" size="gallery" className="pt-4 pb-10 sm:pt-6">
         <InfiniteArtworkList
-          searchQuery={searchQuery}
+          structuredQuery={searchQuery}
           sortBy={sortBy as SortOption}
           mediaType={mediaType as MediaTypeFilter}
           tagIds={tagIds}
@@ -10,6 +10,7 @@ import { isVideoFile } from '@/types'
 import { combinationApiResource } from '@/utils/combination-static'
 import VideoPlayer from '@/components/players/video-player'
 import ApngPlayer from '@/components/players/apng-player'
+import UgoiraPlayer from '@/components/players/ugoira-player'
 import { useQueryState, parseAsInteger } from 'nuqs'
 
 // 引入 Swiper 样式
@@ -20,7 +21,7 @@ import 'swiper/css/pagination'
 
 import './styles.css' // 引入本地样式文件，用于需要时定制覆盖
 import { useShallow } from 'zustand/shallow'
-import { getMediaInfo, isApngFile } from '@/lib/media'
+import { getMediaInfo, isApngFile, isUgoiraArchiveFile } from '@/lib/media'
 import type { ArtworkImageResponseDto } from '@/schemas/artwork.dto'
 import { useSafeBack } from '@/hooks/use-safe-back'
 
@@ -97,6 +98,16 @@ export default function ArtworkPreviewPage() {
       )
     }
 
+    if (isUgoiraArchiveFile(imgPath)) {
+      return (
+        <SwiperSlide key={image.id || index} className="flex items-center justify-center overflow-hidden">
+          <div className="flex h-full w-full items-center justify-center">
+            <UgoiraPlayer src={image.ugoiraUrl} alt={`Preview ${index}`} fillContainer />
+          </div>
+        </SwiperSlide>
+      )
+    }
+
     if (isVideo) {
       return (
         <SwiperSlide key={image.id || index} className="flex items-center justify-center overflow-hidden">
@@ -106,6 +117,8 @@ export default function ArtworkPreviewPage() {
               chaptersUrl={image.chaptersUrl}
               chaptersCount={image.chaptersCount}
               keyframesUrl={image.keyframesUrl}
+              hlsUrl={image.hlsUrl}
+              subtitlesUrl={image.subtitlesUrl}
               keyframeCount={image.keyframeCount}
               hasAudio={image.hasAudio}
               size={image.size}
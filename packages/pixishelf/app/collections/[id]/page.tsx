@@ -0,0 +1,157 @@
+'use client'
+
+import Link from 'next/link'
+import { use, useCallback, useEffect, useMemo, useRef } from 'react'
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ImageUpIcon, LibraryIcon } from 'lucide-react'
+import { useTRPC } from '@/lib/trpc'
+import { ROUTES } from '@/lib/constants'
+import useInfiniteScroll from '@/hooks/use-infinite-scroll'
+import ArtworkCard from '@/components/artwork/artwork-card'
+import { useArtworkDisplayMode } from '@/components/user-setting'
+import PageToolbar from '@/components/layout/page-toolbar'
+import PageBackButton from '@/components/layout/page-back-button'
+import { PageContainer } from '@/components/layout/page-container'
+import { PageHeader } from '@/components/layout/page-header'
+import { PageState } from '@/components/layout/page-state'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { describeSmartCollectionFilters, getSmartCollectionViewerHref } from '../_components/collection-card'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default function CollectionDetailPage({ params }: PageProps) {
+  const { id } = use(params)
+  const collectionId = Number(id)
+  const validId = Number.isInteger(collectionId) && collectionId > 0
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const displayMode = useArtworkDisplayMode()
+
+  const collectionQuery = useQuery({ ...trpc.smartCollection.get.queryOptions(collectionId), enabled: validId })
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    ...trpc.smartCollection.cards.infiniteQueryOptions(
+      { id: collectionId },
+      { getNextPageParam: ({ nextCursor }) => nextCursor, initialCursor: 1 }
+    ),
+    enabled: validId
+  })
+
+  // 进入页面即记录访问；角标基于进入前的访问时间，本次展示不受影响
+  const { mutate: markVisited } = useMutation(
+    trpc.smartCollection.markVisited.mutationOptions({
+      onSuccess: () => queryClient.invalidateQueries({ queryKey: trpc.smartCollection.list.queryKey() })
+    })
+  )
+  const markedRef = useRef(false)
+  useEffect(() => {
+    if (!validId || markedRef.current || !collectionQuery.data) return
+    markedRef.current = true
+    markVisited(collectionId)
+  }, [collectionId, collectionQuery.data, markVisited, validId])
+
+  const artworks = useMemo(() => data?.pages.flatMap((page) => page.items) || [], [data])
+  const collection = collectionQuery.data
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage()
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage])
+
+  const { targetRef } = useInfiniteScroll({
+    onLoadMore: handleLoadMore,
+    hasMore: !!hasNextPage,
+    loading: isFetchingNextPage || isLoading
+  })
+
+  if (!validId || collectionQuery.isError) {
+    return (
+      <PageContainer as="main" size="gallery" className="py-10">
+        <PageState
+          variant="error"
+          headingLevel="h1"
+          title="合集不存在"
+          description="这个合集可能已被删除。"
+          action={
+            <Button asChild variant="outline">
+              <Link href={ROUTES.COLLECTIONS}>返回合集列表</Link>
+            </Button>
+          }
+        />
+      </PageContainer>
+    )
+  }
+
+  return (
+    <div className="min-h-dvh bg-background">
+      <PageToolbar
+        containerSize="gallery"
+        leading={<PageBackButton fallbackHref={ROUTES.COLLECTIONS} label="返回合集列表" />}
+        title={<span className="line-clamp-1 text-sm font-semibold">{collection?.name ?? '合集'}</span>}
+        actions={
+          <Button variant="outline" asChild className="size-11 px-0 sm:h-9 sm:w-auto sm:px-3">
+            <Link href={getSmartCollectionViewerHref(collectionId)} aria-label="沉浸浏览">
+              <ImageUpIcon data-icon="inline-start" aria-hidden="true" />
+              <span className="hidden sm:inline">沉浸浏览</span>
+            </Link>
+          </Button>
+        }
+      />
+
+      <PageContainer as="main" size="gallery" className="flex flex-col gap-8 py-6 sm:py-8">
+        <PageHeader
+          eyebrow="智能合集"
+          title={collection?.name ?? <Skeleton className="h-8 w-48" />}
+          description={
+            collection && (
+              <span className="flex flex-wrap gap-1.5">
+                {describeSmartCollectionFilters(collection.filters).map((label) => (
+                  <Badge key={label} variant="secondary" className="rounded-full font-normal">
+                    {label}
+                  </Badge>
+                ))}
+              </span>
+            )
+          }
+          metadata={
+            collection
+              ? `${collection.artworkCount.toLocaleString()} 件作品${collection.newCount > 0 ? ` · 新增 ${collection.newCount}` : ''}`
+              : '正在统计…'
+          }
+        />
+
+        {isLoading ? (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-6">
+            {Array.from({ length: 12 }, (_, index) => (
+              <Skeleton key={index} className="aspect-[3/4] w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <PageState variant="error" headingLevel="h2" title="作品加载失败" description="请稍后重试。" />
+        ) : artworks.length > 0 ? (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-6">
+            {artworks.map((artwork, index) => (
+              <ArtworkCard key={artwork.id} artwork={artwork} priority={index < 6} displayMode={displayMode} />
+            ))}
+          </div>
+        ) : (
+          <PageState
+            variant="empty"
+            headingLevel="h2"
+            icon={<LibraryIcon aria-hidden="true" />}
+            title="暂无命中作品"
+            description="当前收藏里没有满足这组筛选条件的作品。"
+          />
+        )}
+
+        {hasNextPage && (
+          <div ref={targetRef} className="flex min-h-16 items-center justify-center text-sm text-muted-foreground">
+            {isFetchingNextPage ? '正在加载更多…' : '继续向下浏览'}
+          </div>
+        )}
+      </PageContainer>
+    </div>
+  )
+}
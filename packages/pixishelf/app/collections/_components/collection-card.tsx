@@ -0,0 +1,116 @@
+import Link from 'next/link'
+import { ImageUpIcon, Trash2Icon } from 'lucide-react'
+import type { SmartCollectionFilters, SmartCollectionSummary } from '@/schemas/smart-collection.dto'
+import { MSource } from '@/enums/e-source'
+import { ROUTES } from '@/lib/constants'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+
+export function getSmartCollectionViewerHref(id: number) {
+  return `${ROUTES.VIEWER}?source=collection&sourceId=${id}&mode=ordered`
+}
+
+/**
+ * 把保存的筛选条件转成可读摘要，只列出非默认值
+ */
+export function describeSmartCollectionFilters(filters: SmartCollectionFilters): string[] {
+  const labels: string[] = []
+  if (filters.q) labels.push(filters.q)
+  if (filters.search) labels.push(`关键词：${filters.search}`)
+  if (filters.artistId) labels.push(`艺术家 #${filters.artistId}`)
+  if (filters.tagIds?.length) labels.push(`${filters.tagIds.length} 个标签`)
+  if (filters.tags) labels.push(`标签：${filters.tags}`)
+  if (filters.excludeTags) labels.push(`排除：${filters.excludeTags}`)
+  for (const source of filters.sources ?? []) labels.push(MSource[source])
+  if (filters.mediaType && filters.mediaType !== 'all') labels.push(filters.mediaType === 'video' ? '仅视频' : '仅图片')
+  if (filters.hasAudio && filters.hasAudio !== 'all') labels.push(`音频：${filters.hasAudio}`)
+  if (filters.startDate || filters.endDate) {
+    labels.push(`原始时间：${filters.startDate || '不限'} - ${filters.endDate || '不限'}`)
+  }
+  if (filters.createdStartDate || filters.createdEndDate) {
+    labels.push(`入库时间：${filters.createdStartDate || '不限'} - ${filters.createdEndDate || '不限'}`)
+  }
+  return labels
+}
+
+interface CollectionCardProps {
+  collection: SmartCollectionSummary
+  onDelete: (id: number) => void
+  deleting?: boolean
+}
+
+export function CollectionCard({ collection, onDelete, deleting = false }: CollectionCardProps) {
+  const href = `${ROUTES.COLLECTIONS}/${collection.id}`
+  const filterLabels = describeSmartCollectionFilters(collection.filters)
+
+  return (
+    <article className="flex min-w-0 flex-col gap-3 rounded-lg border border-border bg-card p-4">
+      <div className="flex items-start justify-between gap-3">
+        <h2 className="min-w-0 truncate text-base font-semibold text-foreground">
+          <Link href={href} className="outline-none hover:text-primary focus-visible:text-primary">
+            {collection.name}
+          </Link>
+        </h2>
+        {collection.newCount > 0 && (
+          <Badge className="shrink-0 rounded-full" aria-label={`上次访问后新增 ${collection.newCount} 件`}>
+            +{collection.newCount}
+          </Badge>
+        )}
+      </div>
+
+      <div className="font-utility text-xs text-muted-foreground">
+        {collection.artworkCount.toLocaleString()} 件作品
+        {collection.lastVisitedAt && ` · 上次访问 ${new Date(collection.lastVisitedAt).toLocaleDateString('zh-CN')}`}
+      </div>
+
+      {filterLabels.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5" aria-label="筛选条件">
+          {filterLabels.map((label) => (
+            <li key={label}>
+              <Badge variant="secondary" className="max-w-[240px] truncate rounded-full font-normal">
+                {label}
+              </Badge>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-auto flex items-center gap-2 pt-1">
+        <Button variant="outline" size="sm" asChild>
+          <Link href={getSmartCollectionViewerHref(collection.id)}>
+            <ImageUpIcon data-icon="inline-start" aria-hidden="true" />
+            沉浸浏览
+          </Link>
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={deleting} aria-label={`删除合集：${collection.name}`}>
+              <Trash2Icon aria-hidden="true" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>删除合集「{collection.name}」？</AlertDialogTitle>
+              <AlertDialogDescription>只删除保存的筛选条件，不会影响任何作品。</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>取消</AlertDialogCancel>
+              <AlertDialogAction onClick={() => onDelete(collection.id)}>删除</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </article>
+  )
+}
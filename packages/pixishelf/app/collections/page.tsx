@@ -0,0 +1,79 @@
+'use client'
+
+import Link from 'next/link'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { LibraryIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import { useTRPC } from '@/lib/trpc'
+import { ROUTES } from '@/lib/constants'
+import { PageContainer } from '@/components/layout/page-container'
+import { PageHeader } from '@/components/layout/page-header'
+import { PageState } from '@/components/layout/page-state'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { CollectionCard } from './_components/collection-card'
+
+export default function CollectionsPage() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const { data: collections = [], isLoading, isError } = useQuery(trpc.smartCollection.list.queryOptions())
+
+  const deleteMutation = useMutation(
+    trpc.smartCollection.delete.mutationOptions({
+      onSuccess: () => {
+        toast.success('合集已删除')
+        queryClient.invalidateQueries({ queryKey: trpc.smartCollection.list.queryKey() })
+      },
+      onError: (error) => toast.error(error.message || '删除失败')
+    })
+  )
+
+  const totalNew = collections.reduce((sum, collection) => sum + collection.newCount, 0)
+
+  return (
+    <PageContainer as="main" size="gallery" className="flex flex-col gap-8 py-6 sm:py-8">
+      <PageHeader
+        eyebrow="智能合集"
+        title="合集"
+        description="保存常用的作品筛选组合，随收藏变化实时更新。"
+        metadata={
+          isLoading ? '正在统计…' : `${collections.length} 个合集${totalNew > 0 ? ` · ${totalNew} 件新作品` : ''}`
+        }
+      />
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+          {Array.from({ length: 6 }, (_, index) => (
+            <Skeleton key={index} className="h-36 w-full rounded-lg" />
+          ))}
+        </div>
+      ) : isError ? (
+        <PageState variant="error" headingLevel="h2" title="合集加载失败" description="当前无法读取合集，请稍后重试。" />
+      ) : collections.length > 0 ? (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+          {collections.map((collection) => (
+            <CollectionCard
+              key={collection.id}
+              collection={collection}
+              deleting={deleteMutation.isPending && deleteMutation.variables === collection.id}
+              onDelete={(id) => deleteMutation.mutate(id)}
+            />
+          ))}
+        </div>
+      ) : (
+        <PageState
+          variant="empty"
+          headingLevel="h2"
+          icon={<LibraryIcon aria-hidden="true" />}
+          title="还没有合集"
+          description="在作品页设置筛选后点击“保存为合集”，常用组合就会出现在这里。"
+          action={
+            <Button asChild>
+              <Link href={ROUTES.ARTWORKS}>去筛选作品</Link>
+            </Button>
+          }
+        />
+      )}
+    </PageContainer>
+  )
+}
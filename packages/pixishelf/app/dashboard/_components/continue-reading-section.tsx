@@ -0,0 +1,64 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import ArtworkCard from '@/components/artwork/artwork-card'
+import { useAuthUser } from '@/components/auth'
+import { SectionHeader } from '@/components/layout/section-header'
+import { Progress } from '@/components/ui/progress'
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area'
+import { useTRPC } from '@/lib/trpc'
+import type { ReadingProgressView } from '@/schemas/reading-progress.dto'
+
+function formatReadingProgress(progress: ReadingProgressView) {
+  if (progress.mediaCount <= 1 && progress.videoPositionSec) {
+    const minutes = Math.floor(progress.videoPositionSec / 60)
+    const seconds = Math.floor(progress.videoPositionSec % 60)
+    return `看到 ${minutes}:${String(seconds).padStart(2, '0')}`
+  }
+  return `第 ${progress.mediaIndex + 1} / ${progress.mediaCount} 张`
+}
+
+/**
+ * 首页“继续阅读”：仪表盘整页按 ISR 缓存，个人进度只能在客户端按当前用户查询。
+ * 没有未读完的作品时整段不渲染。
+ */
+export default function ContinueReadingSection() {
+  const trpc = useTRPC()
+  const user = useAuthUser()
+  const { data } = useQuery(
+    trpc.readingProgress.continueReading.queryOptions({ limit: 12 }, { enabled: Boolean(user) })
+  )
+
+  if (!data?.length) return null
+
+  return (
+    <section aria-labelledby="dashboard-continue-reading-heading" className="mb-12">
+      <SectionHeader
+        className="mb-5"
+        title={<span id="dashboard-continue-reading-heading">继续阅读</span>}
+        description="回到上次看到一半的作品。"
+      />
+
+      <ScrollArea className="w-full whitespace-nowrap">
+        <div className="flex w-max gap-4 pb-4">
+          {data.map(({ artwork, progress }) => (
+            <div key={artwork.id} className="flex w-40 shrink-0 flex-col gap-2 whitespace-normal sm:w-44">
+              <ArtworkCard artwork={artwork} />
+              <div className="flex flex-col gap-1 px-0.5">
+                <Progress
+                  value={((progress.mediaIndex + 1) / Math.max(progress.mediaCount, 1)) * 100}
+                  className="h-1"
+                  aria-label={`阅读进度：${formatReadingProgress(progress)}`}
+                />
+                <span className="font-utility text-xs text-muted-foreground tabular-nums">
+                  {formatReadingProgress(progress)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+        <ScrollBar orientation="horizontal" />
+      </ScrollArea>
+    </section>
+  )
+}
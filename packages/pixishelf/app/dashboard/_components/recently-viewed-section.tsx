@@ -0,0 +1,53 @@
+'use client'
+
+import Link from 'next/link'
+import { useQuery } from '@tanstack/react-query'
+import { ArrowRightIcon } from 'lucide-react'
+import ArtworkCard from '@/components/artwork/artwork-card'
+import { useAuthUser } from '@/components/auth'
+import { SectionHeader } from '@/components/layout/section-header'
+import { Button } from '@/components/ui/button'
+import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area'
+import { ROUTES } from '@/lib/constants'
+import { useTRPC } from '@/lib/trpc'
+
+/**
+ * 首页“最近浏览”：与“继续阅读”一样按当前用户在客户端查询，没有记录时整段不渲染
+ */
+export default function RecentlyViewedSection() {
+  const trpc = useTRPC()
+  const user = useAuthUser()
+  const { data } = useQuery(trpc.viewHistory.list.queryOptions({ pageSize: 12 }, { enabled: Boolean(user) }))
+  const items = data?.items ?? []
+
+  if (items.length === 0) return null
+
+  return (
+    <section aria-labelledby="dashboard-recently-viewed-heading" className="mb-12">
+      <SectionHeader
+        className="mb-5"
+        title={<span id="dashboard-recently-viewed-heading">最近浏览</span>}
+        description="最近打开过的作品。"
+        actions={
+          <Button asChild variant="ghost" size="sm">
+            <Link href={ROUTES.HISTORY}>
+              浏览历史
+              <ArrowRightIcon data-icon="inline-end" aria-hidden="true" />
+            </Link>
+          </Button>
+        }
+      />
+
+      <ScrollArea className="w-full whitespace-nowrap">
+        <div className="flex w-max gap-4 pb-4">
+          {items.map(({ artwork }) => (
+            <div key={artwork.id} className="w-40 shrink-0 whitespace-normal sm:w-44">
+              <ArtworkCard artwork={artwork} />
+            </div>
+          ))}
+        </div>
+        <ScrollBar orientation="horizontal" />
+      </ScrollArea>
+    </section>
+  )
+}
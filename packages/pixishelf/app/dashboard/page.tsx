@@ -2,6 +2,8 @@ import { Suspense } from 'react'
 import { getDashboardRecentArtworks, getRecommendedArtworks } from '@/services/artwork-service'
 import { getDashboardArtists } from '@/services/artist-service'
 import RecentArtists from './_components/recent-artists'
+import ContinueReadingSection from './_components/continue-reading-section'
+import RecentlyViewedSection from './_components/recently-viewed-section'
 import Link from 'next/link'
 import { ROUTES } from '@/lib/constants'
 import ArtworkGrid from './_components/artwork-grid'
@@ -49,6 +51,8 @@ export default function DashboardPage() {
           description="从最近入库的作品继续浏览，再回到常看的艺术家与偏好集合。"
         />
 
+        <ContinueReadingSection />
+
         <section aria-labelledby="dashboard-latest-heading" className="mb-12">
           <SectionHeader
             className="mb-5"
@@ -69,6 +73,8 @@ export default function DashboardPage() {
           </Suspense>
         </section>
 
+        <RecentlyViewedSection />
+
         <Suspense fallback={<SectionFallback label="正在加载艺术家…" />}>
           <DashboardArtists />
         </Suspense>
@@ -0,0 +1,136 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useQuery } from '@tanstack/react-query'
+import { useTRPC } from '@/lib/trpc'
+import { formatDuration } from '@/lib/utils'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PageState } from '@/components/layout/page-state'
+import { SectionHeader } from '@/components/layout/section-header'
+import { DailyActivityChart } from '@/components/view-history/daily-activity-chart'
+import type { ViewStatsQuerySchema, ViewStatsRankItem } from '@/schemas/view-history.dto'
+
+const PERIOD_OPTIONS: { value: ViewStatsQuerySchema['days']; label: string }[] = [
+  { value: 7, label: '最近 7 天' },
+  { value: 30, label: '最近 30 天' },
+  { value: 90, label: '最近 90 天' },
+  { value: 365, label: '最近一年' }
+]
+
+function StatMetric({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="min-w-0 border-t border-border py-3">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="font-utility mt-1 text-xl font-semibold tracking-tight text-foreground tabular-nums">{value}</p>
+    </div>
+  )
+}
+
+function RankList({
+  title,
+  items,
+  hrefPrefix
+}: {
+  title: string
+  items: ViewStatsRankItem[]
+  hrefPrefix: '/artists' | '/tags'
+}) {
+  const maxDuration = items[0]?.durationSec || 1
+
+  return (
+    <section aria-label={title} className="min-w-0">
+      <h3 className="mb-2 text-sm font-medium text-foreground">{title}</h3>
+      {items.length === 0 ? (
+        <p className="border-t border-border py-4 text-sm text-muted-foreground">暂无数据</p>
+      ) : (
+        <ol className="flex flex-col border-b border-border">
+          {items.map((item, index) => (
+            <li key={item.id} className="border-t border-border">
+              <Link
+                href={`${hrefPrefix}/${item.id}`}
+                className="group block rounded-sm px-1 py-2.5 outline-none transition-colors hover:bg-accent/35 focus-visible:ring-2 focus-visible:ring-ring/50"
+              >
+                <span className="flex min-w-0 items-center gap-3 text-sm">
+                  <span className="font-utility w-5 shrink-0 text-xs text-muted-foreground tabular-nums">
+                    {index + 1}
+                  </span>
+                  <span className="min-w-0 flex-1 truncate font-medium text-foreground group-hover:text-primary">
+                    {item.name}
+                  </span>
+                  <span className="font-utility shrink-0 text-xs text-muted-foreground tabular-nums">
+                    {formatDuration(item.durationSec)} · {item.viewCount} 次
+                  </span>
+                </span>
+                <Progress
+                  className="mt-2 h-1"
+                  value={Math.round((item.durationSec / maxDuration) * 100)}
+                  aria-label={`${item.name}：${formatDuration(item.durationSec)}`}
+                />
+              </Link>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
+
+/**
+ * 个人浏览统计：停留时长、按停留时长排序的艺术家与标签、每日活跃
+ */
+export function ViewStatsPanel() {
+  const trpc = useTRPC()
+  const [days, setDays] = useState<ViewStatsQuerySchema['days']>(30)
+  const timeZone = useMemo(() => new Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC', [])
+  const { data, isLoading, isError } = useQuery(trpc.viewHistory.stats.queryOptions({ days, timeZone }))
+
+  return (
+    <section aria-labelledby="history-stats-heading" className="flex flex-col gap-5">
+      <SectionHeader
+        title={<span id="history-stats-heading">浏览统计</span>}
+        description="按页面停留时长统计，仅包含保留期内的记录。"
+        actions={
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value) as typeof days)}>
+            <SelectTrigger className="w-36" aria-label="统计区间">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        }
+      />
+
+      {isLoading ? (
+        <Skeleton className="h-48 w-full rounded-lg" />
+      ) : isError || !data ? (
+        <PageState variant="error" headingLevel="h3" compact title="统计加载失败" description="请稍后刷新页面重试。" />
+      ) : (
+        <>
+          <div className="grid min-w-0 gap-x-6 sm:grid-cols-2 xl:grid-cols-4">
+            <StatMetric label="浏览次数" value={data.totals.viewCount.toLocaleString()} />
+            <StatMetric label="浏览作品" value={data.totals.artworkCount.toLocaleString()} />
+            <StatMetric label="停留时长" value={formatDuration(data.totals.durationSec)} />
+            <StatMetric label="视频观看" value={formatDuration(data.totals.videoWatchSec)} />
+          </div>
+
+          <DailyActivityChart data={data.daily} />
+
+          <div className="grid min-w-0 gap-8 lg:grid-cols-2">
+            <RankList title="停留最久的艺术家" items={data.topArtists} hrefPrefix="/artists" />
+            <RankList title="停留最久的标签" items={data.topTags} hrefPrefix="/tags" />
+          </div>
+        </>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useCallback, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { HistoryIcon, Trash2Icon, XIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import { useTRPC } from '@/lib/trpc'
+import { ROUTES } from '@/lib/constants'
+import { formatDate, formatDuration } from '@/lib/utils'
+import useInfiniteScroll from '@/hooks/use-infinite-scroll'
+import { useViewHistoryRetentionDays } from '@/components/user-setting'
+import ArtworkCard from '@/components/artwork/artwork-card'
+import { PageContainer } from '@/components/layout/page-container'
+import { PageHeader } from '@/components/layout/page-header'
+import { PageState } from '@/components/layout/page-state'
+import { SectionHeader } from '@/components/layout/section-header'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ViewStatsPanel } from './_components/view-stats-panel'
+
+export default function HistoryPage() {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const retentionDays = useViewHistoryRetentionDays()
+  const [confirmClear, setConfirmClear] = useState(false)
+
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery(
+    trpc.viewHistory.list.infiniteQueryOptions(
+      { pageSize: 24 },
+      {
+        getNextPageParam: ({ nextCursor }) => nextCursor,
+        initialCursor: 1
+      }
+    )
+  )
+
+  const items = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data])
+
+  const invalidateHistory = () => {
+    queryClient.invalidateQueries({ queryKey: trpc.viewHistory.list.pathKey() })
+    queryClient.invalidateQueries({ queryKey: trpc.viewHistory.stats.pathKey() })
+  }
+
+  const removeMutation = useMutation(
+    trpc.viewHistory.remove.mutationOptions({
+      onSuccess: invalidateHistory,
+      onError: (error) => toast.error(error.message || '移除失败')
+    })
+  )
+
+  const clearMutation = useMutation(
+    trpc.viewHistory.clear.mutationOptions({
+      onSuccess: ({ count }) => {
+        toast.success(`已清空 ${count} 条浏览记录`)
+        invalidateHistory()
+      },
+      onError: (error) => toast.error(error.message || '清空失败')
+    })
+  )
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage()
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage])
+
+  const { targetRef } = useInfiniteScroll({
+    onLoadMore: handleLoadMore,
+    hasMore: !!hasNextPage,
+    loading: isFetchingNextPage || isLoading
+  })
+
+  return (
+    <PageContainer as="main" size="gallery" className="flex flex-col gap-10 py-6 sm:py-8">
+      <PageHeader
+        eyebrow="个人记录"
+        title="浏览历史"
+        description="打开过的作品与停留时长，只有你自己可见。"
+        metadata={
+          retentionDays === 0 ? (
+            <span>
+              已暂停记录 ·{' '}
+              <Link href={ROUTES.SETTINGS_PREFERENCES} className="underline underline-offset-4">
+                前往设置
+              </Link>
+            </span>
+          ) : (
+            `保留最近 ${retentionDays} 天`
+          )
+        }
+        actions={
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={items.length === 0 || clearMutation.isPending}
+            onClick={() => setConfirmClear(true)}
+          >
+            <Trash2Icon data-icon="inline-start" aria-hidden="true" />
+            清空历史
+          </Button>
+        }
+      />
+
+      <ViewStatsPanel />
+
+      <section aria-labelledby="history-list-heading" className="flex flex-col gap-5">
+        <SectionHeader
+          title={<span id="history-list-heading">最近浏览</span>}
+          description="同一作品多次浏览合并显示。"
+        />
+
+        {isLoading ? (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+            {Array.from({ length: 12 }, (_, index) => (
+              <Skeleton key={index} className="aspect-[3/4] w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isError ? (
+          <PageState
+            variant="error"
+            headingLevel="h3"
+            title="浏览历史加载失败"
+            description="当前无法读取浏览历史，请稍后重试。"
+          />
+        ) : items.length > 0 ? (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6">
+            {items.map(({ artwork, history }) => (
+              <div key={artwork.id} className="group/history relative flex min-w-0 flex-col gap-2">
+                <ArtworkCard artwork={artwork} />
+                <div className="flex min-w-0 flex-col px-0.5 text-xs text-muted-foreground">
+                  <span className="truncate">
+                    {formatDate(history.lastViewedAt, {
+                      month: 'numeric',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit'
+                    })}
+                  </span>
+                  <span className="font-utility truncate tabular-nums">
+                    {history.viewCount} 次 · {formatDuration(history.totalDurationSec)}
+                  </span>
+                </div>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="secondary"
+                  aria-label={`从历史中移除：${artwork.title}`}
+                  disabled={removeMutation.isPending && removeMutation.variables === artwork.id}
+                  onClick={() => removeMutation.mutate(artwork.id)}
+                  className="absolute top-2 right-2 size-7 opacity-0 transition-opacity group-hover/history:opacity-100 focus-visible:opacity-100"
+                >
+                  <XIcon className="size-4" aria-hidden="true" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <PageState
+            variant="empty"
+            headingLevel="h3"
+            icon={<HistoryIcon aria-hidden="true" />}
+            title="暂无浏览记录"
+            description="打开作品或使用沉浸浏览后，这里会按时间列出看过的内容。"
+          />
+        )}
+
+        {hasNextPage && (
+          <div ref={targetRef} className="flex min-h-16 items-center justify-center text-sm text-muted-foreground">
+            {isFetchingNextPage ? '正在加载更多…' : '继续向下浏览'}
+          </div>
+        )}
+      </section>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>清空浏览历史？</AlertDialogTitle>
+            <AlertDialogDescription>所有浏览记录和基于它们的统计都会被删除，且无法恢复。</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={() => clearMutation.mutate()}>清空</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PageContainer>
+  )
+}
@@ -0,0 +1,100 @@
+import Link from 'next/link'
+import type { ReactNode } from 'react'
+import type { SearchArtistHit, SearchSeriesHit, SearchTagHit } from '@/schemas/search.dto'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import MediaThumbnail from '@/components/media/media-thumbnail'
+
+interface SearchEntitySectionsProps {
+  artists: SearchArtistHit[]
+  tags: SearchTagHit[]
+  series: SearchSeriesHit[]
+}
+
+export function SearchEntitySections({ artists, tags, series }: SearchEntitySectionsProps) {
+  if (artists.length === 0 && tags.length === 0 && series.length === 0) return null
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      {artists.length > 0 && (
+        <EntitySection title="艺术家">
+          {artists.map((artist) => (
+            <li key={artist.id}>
+              <Link
+                href={`/artists/${artist.id}`}
+                className="flex items-center gap-3 rounded-md px-2 py-1.5 outline-none transition-colors hover:bg-accent focus-visible:ring-2 focus-visible:ring-ring/50"
+              >
+                <Avatar className="size-8">
+                  {artist.avatar && <AvatarImage src={artist.avatar} alt="" className="object-cover" />}
+                  <AvatarFallback className="text-xs">{artist.name.slice(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className="min-w-0 flex-1 truncate text-sm font-medium">{artist.name}</span>
+                <span className="font-utility text-xs text-muted-foreground">{artist.artworkCount} 件</span>
+              </Link>
+            </li>
+          ))}
+        </EntitySection>
+      )}
+
+      {tags.length > 0 && (
+        <EntitySection title="标签" listClassName="flex flex-wrap gap-1.5">
+          {tags.map((tag) => (
+            <li key={tag.id}>
+              <Link
+                href={`/tags/${tag.id}`}
+                title={[tag.name_zh, tag.name_en].filter(Boolean).join(' / ') || undefined}
+                className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-sm outline-none transition-colors hover:bg-accent focus-visible:ring-2 focus-visible:ring-ring/50"
+              >
+                {tag.namespace !== 'general' && <span className="text-xs text-muted-foreground">{tag.namespace}:</span>}
+                <span className="max-w-[180px] truncate">{tag.name_zh || tag.name}</span>
+                <span className="font-utility text-xs text-muted-foreground">{tag.artworkCount}</span>
+              </Link>
+            </li>
+          ))}
+        </EntitySection>
+      )}
+
+      {series.length > 0 && (
+        <EntitySection title="系列">
+          {series.map((item) => (
+            <li key={item.id}>
+              <Link
+                href={`/series/${item.id}`}
+                className="flex items-center gap-3 rounded-md px-2 py-1.5 outline-none transition-colors hover:bg-accent focus-visible:ring-2 focus-visible:ring-ring/50"
+              >
+                <span className="block size-10 shrink-0 overflow-hidden rounded bg-muted">
+                  <MediaThumbnail
+                    media={item.coverImageUrl ? { path: item.coverImageUrl, mediaType: 'image' } : null}
+                    alt=""
+                    width={80}
+                    height={80}
+                    className="size-full object-cover"
+                    sizes="40px"
+                  />
+                </span>
+                <span className="min-w-0 flex-1 truncate text-sm font-medium">{item.title}</span>
+                <span className="font-utility text-xs text-muted-foreground">{item.artworkCount} 件</span>
+              </Link>
+            </li>
+          ))}
+        </EntitySection>
+      )}
+    </div>
+  )
+}
+
+function EntitySection({
+  title,
+  children,
+  listClassName = 'flex flex-col gap-0.5'
+}: {
+  title: string
+  children: ReactNode
+  listClassName?: string
+}) {
+  return (
+    <section className="flex min-w-0 flex-col gap-2">
+      <h2 className="text-xs font-medium tracking-wide text-muted-foreground">{title}</h2>
+      <ul className={listClassName}>{children}</ul>
+    </section>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import type { SearchFacetBucket, SearchFacets } from '@/schemas/search.dto'
+import { UNKNOWN_SOURCE_PROVIDER_FACET } from '@/schemas/search.dto'
+import { cn } from '@/lib/utils'
+
+export type SearchFacetKey = keyof SearchFacets
+
+const MEDIA_TYPE_FACET_LABELS: Record<string, string> = {
+  IMAGE: '图片',
+  VIDEO: '视频',
+  ANIMATION: '动图'
+}
+
+const PROVIDER_FACET_LABELS: Record<string, string> = {
+  pixiv: 'Pixiv',
+  [UNKNOWN_SOURCE_PROVIDER_FACET]: '未知来源'
+}
+
+const FACET_SECTIONS: { key: SearchFacetKey; title: string; format: (value: string) => string }[] = [
+  { key: 'mediaTypes', title: '媒体类型', format: (value) => MEDIA_TYPE_FACET_LABELS[value] ?? value },
+  { key: 'providers', title: '来源', format: (value) => PROVIDER_FACET_LABELS[value] ?? value },
+  { key: 'namespaces', title: '标签命名空间', format: (value) => value }
+]
+
+export function formatSearchFacetValue(key: SearchFacetKey, value: string) {
+  return FACET_SECTIONS.find((section) => section.key === key)?.format(value) ?? value
+}
+
+interface SearchFacetPanelProps {
+  facets?: SearchFacets
+  selected: Record<SearchFacetKey, string[]>
+  onToggle: (key: SearchFacetKey, value: string) => void
+}
+
+export function SearchFacetPanel({ facets, selected, onToggle }: SearchFacetPanelProps) {
+  if (!facets) return null
+
+  return (
+    <aside aria-label="搜索分面" className="flex flex-col gap-6">
+      {FACET_SECTIONS.map((section) => {
+        const buckets = mergeSelectedBuckets(facets[section.key], selected[section.key])
+        if (buckets.length === 0) return null
+
+        return (
+          <section key={section.key} className="flex flex-col gap-2">
+            <h2 className="text-xs font-medium tracking-wide text-muted-foreground">{section.title}</h2>
+            <ul className="flex flex-wrap gap-1.5 lg:flex-col lg:gap-0.5">
+              {buckets.map((bucket) => {
+                const active = selected[section.key].includes(bucket.value)
+                return (
+                  <li key={bucket.value}>
+                    <button
+                      type="button"
+                      aria-pressed={active}
+                      onClick={() => onToggle(section.key, bucket.value)}
+                      className={cn(
+                        'flex w-full items-center justify-between gap-3 rounded-md px-2.5 py-1.5 text-sm outline-none transition-colors focus-visible:ring-2 focus-visible:ring-ring/50',
+                        active
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-muted/60 text-foreground hover:bg-accent hover:text-accent-foreground lg:bg-transparent'
+                      )}
+                    >
+                      <span className="truncate">{section.format(bucket.value)}</span>
+                      <span className={cn('tabular-nums text-xs', active ? 'opacity-80' : 'text-muted-foreground')}>
+                        {bucket.count}
+                      </span>
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        )
+      })}
+    </aside>
+  )
+}
+
+/** 已选中但在当前统计里为 0 的分面值仍需展示，否则用户无法取消它 */
+function mergeSelectedBuckets(buckets: SearchFacetBucket[], selected: string[]) {
+  const missing = selected
+    .filter((value) => !buckets.some((bucket) => bucket.value === value))
+    .map((value) => ({ value, count: 0 }))
+  return [...buckets, ...missing]
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { parseAsString, useQueryState } from 'nuqs'
+import { SearchIcon, XIcon } from 'lucide-react'
+import PageToolbar from '@/components/layout/page-toolbar'
+import { InputGroup, InputGroupAddon, InputGroupButton, InputGroupInput } from '@/components/ui/input-group'
+
+const SearchNavigation = () => {
+  const [currentQuery, setCurrentQuery] = useQueryState(
+    'q',
+    parseAsString.withDefault('').withOptions({ history: 'replace', clearOnDefault: true })
+  )
+  const [searchValue, setSearchValue] = useState(currentQuery)
+
+  useEffect(() => setSearchValue(currentQuery), [currentQuery])
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (searchValue !== currentQuery) setCurrentQuery(searchValue || null)
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [currentQuery, searchValue, setCurrentQuery])
+
+  const handleClearSearch = useCallback(() => {
+    setSearchValue('')
+    setCurrentQuery(null)
+  }, [setCurrentQuery])
+
+  return (
+    <PageToolbar containerSize="gallery">
+      <InputGroup className="max-w-2xl flex-1">
+        <InputGroupAddon>
+          <SearchIcon aria-hidden="true" />
+        </InputGroupAddon>
+        <InputGroupInput
+          type="search"
+          name="catalog-search"
+          autoComplete="off"
+          autoFocus={!currentQuery}
+          value={searchValue}
+          onChange={(event) => setSearchValue(event.target.value)}
+          placeholder="搜索标题、描述、标签、艺术家或系列…"
+          aria-label="全站搜索"
+        />
+        {searchValue && (
+          <InputGroupAddon align="inline-end">
+            <InputGroupButton size="icon-xs" onClick={handleClearSearch} aria-label="清除搜索">
+              <XIcon data-icon="inline-start" aria-hidden="true" />
+            </InputGroupButton>
+          </InputGroupAddon>
+        )}
+      </InputGroup>
+    </PageToolbar>
+  )
+}
+
+export default SearchNavigation
@@ -0,0 +1,153 @@
+'use client'
+
+import { useCallback, useMemo } from 'react'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { parseAsArrayOf, parseAsString, useQueryStates } from 'nuqs'
+import { SearchIcon } from 'lucide-react'
+import { useTRPC } from '@/lib/trpc'
+import useInfiniteScroll from '@/hooks/use-infinite-scroll'
+import { PageContainer } from '@/components/layout/page-container'
+import { PageHeader } from '@/components/layout/page-header'
+import { PageState } from '@/components/layout/page-state'
+import { Skeleton } from '@/components/ui/skeleton'
+import ArtworkCard from '@/components/artwork/artwork-card'
+import { useArtworkDisplayMode } from '@/components/user-setting'
+import { SearchMediaTypeEnum, type SearchMediaType } from '@/schemas/search.dto'
+import SearchNavigation from './_components/search-navigation'
+import { SearchEntitySections } from './_components/search-entity-sections'
+import { SearchFacetPanel, type SearchFacetKey } from './_components/search-facet-panel'
+
+const csvParser = parseAsArrayOf(parseAsString).withDefault([]).withOptions({ history: 'replace', clearOnDefault: true })
+
+const searchParamsParsers = {
+  q: parseAsString.withDefault('').withOptions({ history: 'replace', clearOnDefault: true }),
+  mediaTypes: csvParser,
+  providers: csvParser,
+  namespaces: csvParser
+}
+
+function SearchPageContent() {
+  const [queryStates, setQueryStates] = useQueryStates(searchParamsParsers)
+  const { q, providers, namespaces } = queryStates
+  const mediaTypes = queryStates.mediaTypes.filter((value): value is SearchMediaType =>
+    SearchMediaTypeEnum.safeParse(value).success
+  )
+  const term = q.trim()
+  const trpc = useTRPC()
+  const displayMode = useArtworkDisplayMode()
+
+  const { data, isLoading, isError, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    ...trpc.search.query.infiniteQueryOptions(
+      { q: term, mediaTypes, providers, namespaces },
+      {
+        getNextPageParam: ({ nextCursor }) => nextCursor,
+        initialCursor: 1,
+        staleTime: 60 * 1000
+      }
+    ),
+    enabled: term.length > 0
+  })
+
+  const firstPage = data?.pages[0]
+  const artworks = useMemo(() => data?.pages.flatMap((page) => page.artworks) || [], [data])
+  const selectedFacets: Record<SearchFacetKey, string[]> = { mediaTypes, providers, namespaces }
+  const hasFacetFilters = mediaTypes.length + providers.length + namespaces.length > 0
+
+  const handleToggleFacet = useCallback(
+    (key: SearchFacetKey, value: string) => {
+      const current = queryStates[key]
+      const next = current.includes(value) ? current.filter((item) => item !== value) : [...current, value]
+      setQueryStates({ [key]: next.length > 0 ? next : null })
+    },
+    [queryStates, setQueryStates]
+  )
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage()
+  }, [fetchNextPage, hasNextPage, isFetchingNextPage])
+
+  const { targetRef } = useInfiniteScroll({
+    onLoadMore: handleLoadMore,
+    hasMore: !!hasNextPage,
+    loading: isFetchingNextPage || isLoading
+  })
+
+  if (!term) {
+    return (
+      <PageContainer size="gallery" className="py-10">
+        <PageState
+          variant="empty"
+          icon={<SearchIcon aria-hidden="true" />}
+          title="全站搜索"
+          description="输入关键词，在作品标题、描述、标签译名、艺术家和系列中统一检索。"
+        />
+      </PageContainer>
+    )
+  }
+
+  return (
+    <PageContainer size="gallery" className="flex flex-col gap-8 py-6 sm:py-8">
+      <PageHeader
+        eyebrow="全站搜索"
+        title={`“${term}”`}
+        metadata={isLoading ? '正在搜索…' : `${firstPage?.total ?? 0} 件作品`}
+      />
+
+      {firstPage && (
+        <SearchEntitySections artists={firstPage.artists} tags={firstPage.tags} series={firstPage.series} />
+      )}
+
+      <div className="grid gap-8 lg:grid-cols-[200px_minmax(0,1fr)]">
+        <SearchFacetPanel facets={firstPage?.facets} selected={selectedFacets} onToggle={handleToggleFacet} />
+
+        <div className="flex min-w-0 flex-col gap-6">
+          {isLoading ? (
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 xl:grid-cols-5">
+              {Array.from({ length: 10 }, (_, index) => (
+                <Skeleton key={index} className="aspect-[3/4] w-full rounded-lg" />
+              ))}
+            </div>
+          ) : isError ? (
+            <PageState
+              variant="error"
+              headingLevel="h2"
+              title="搜索失败"
+              description="当前无法完成检索，请稍后重试。"
+            />
+          ) : artworks.length > 0 ? (
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 xl:grid-cols-5">
+              {artworks.map((artwork, index) => (
+                <ArtworkCard key={artwork.id} artwork={artwork} priority={index < 5} displayMode={displayMode} />
+              ))}
+            </div>
+          ) : (
+            <PageState
+              variant="empty"
+              headingLevel="h2"
+              icon={<SearchIcon aria-hidden="true" />}
+              title="没有匹配的作品"
+              description={hasFacetFilters ? '尝试取消部分分面筛选。' : '尝试更换或缩短关键词。'}
+            />
+          )}
+
+          {hasNextPage && (
+            <div ref={targetRef} className="flex min-h-16 items-center justify-center text-sm text-muted-foreground">
+              {isFetchingNextPage ? '正在加载更多…' : '继续向下浏览'}
+            </div>
+          )}
+        </div>
+      </div>
+    </PageContainer>
+  )
+}
+
+export default function Page() {
+  return (
+    <div className="min-h-dvh bg-background">
+      <SearchNavigation />
+      <main>
+        <SearchPageContent />
+      </main>
+    </div>
+  )
+}
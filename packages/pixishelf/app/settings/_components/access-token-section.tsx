@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import dayjs from 'dayjs'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { CopyIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Field, FieldLabel } from '@/components/ui/field'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTRPC } from '@/lib/trpc'
+import type { AccessTokenScope } from '@/schemas/access-token.dto'
+import { PreferenceItem } from './preference-item'
+
+type ConfirmAction = 'rotate' | 'revoke' | null
+
+function formatTime(value: string | Date | null) {
+  return value ? dayjs(value).format('YYYY-MM-DD HH:mm') : '从未使用'
+}
+
+export function CopyableField({ id, label, value }: { id: string; label: string; value: string }) {
+  return (
+    <Field>
+      <FieldLabel htmlFor={id}>{label}</FieldLabel>
+      <div className="flex gap-2">
+        <Input id={id} value={value} readOnly spellCheck={false} onFocus={(event) => event.currentTarget.select()} />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          aria-label={`复制${label}`}
+          onClick={async () => {
+            await navigator.clipboard.writeText(value)
+            toast.success('已复制到剪贴板')
+          }}
+        >
+          <CopyIcon aria-hidden="true" />
+        </Button>
+      </div>
+    </Field>
+  )
+}
+
+interface AccessTokenSectionProps {
+  scope: AccessTokenScope
+  /** 令牌名称，用于标题与提示文案，例如“订阅令牌” */
+  label: string
+  description: string
+  /** 轮换或撤销后需要客户端做的事，接在“当前令牌会立即失效，”之后 */
+  rotateHint: string
+  revokeHint: string
+  /** 刚签发时展示的内容；明文令牌只在此时可见 */
+  renderIssued: (token: string) => ReactNode
+}
+
+/**
+ * 单个用途的访问令牌管理：查看摘要、签发、轮换与撤销
+ */
+export function AccessTokenSection({
+  scope,
+  label,
+  description,
+  rotateHint,
+  revokeHint,
+  renderIssued
+}: AccessTokenSectionProps) {
+  const trpc = useTRPC()
+  const queryClient = useQueryClient()
+  const [issuedToken, setIssuedToken] = useState<string | null>(null)
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction>(null)
+  const { data: summary, isLoading } = useQuery(trpc.accessToken.get.queryOptions(scope))
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: trpc.accessToken.get.queryKey(scope) })
+
+  const issueMutation = useMutation(
+    trpc.accessToken.issue.mutationOptions({
+      onSuccess: (data) => {
+        setIssuedToken(data.token)
+        toast.success(`${label}已生成`)
+        invalidate()
+      },
+      onError: (error) => toast.error(error.message || '生成失败')
+    })
+  )
+
+  const revokeMutation = useMutation(
+    trpc.accessToken.revoke.mutationOptions({
+      onSuccess: () => {
+        setIssuedToken(null)
+        toast.success(`${label}已撤销`)
+        invalidate()
+      },
+      onError: (error) => toast.error(error.message || '撤销失败')
+    })
+  )
+
+  const pending = issueMutation.isPending || revokeMutation.isPending
+
+  return (
+    <div>
+      <PreferenceItem title={label} description={description}>
+        {isLoading ? (
+          <Skeleton className="h-16 w-72" />
+        ) : (
+          <div className="flex flex-col gap-3 text-sm">
+            {summary ? (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-muted-foreground">
+                <dt>令牌</dt>
+                <dd className="font-mono text-foreground">{summary.tokenPrefix}…</dd>
+                <dt>生成时间</dt>
+                <dd>{formatTime(summary.createdAt)}</dd>
+                <dt>最近使用</dt>
+                <dd>{formatTime(summary.lastUsedAt)}</dd>
+              </dl>
+            ) : (
+              <p className="text-muted-foreground">尚未生成{label}。</p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                disabled={pending}
+                onClick={() => (summary ? setConfirmAction('rotate') : issueMutation.mutate(scope))}
+              >
+                {summary ? '重新生成' : '生成令牌'}
+              </Button>
+              {summary && (
+                <Button type="button" variant="outline" disabled={pending} onClick={() => setConfirmAction('revoke')}>
+                  撤销
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </PreferenceItem>
+
+      {issuedToken && renderIssued(issuedToken)}
+
+      <AlertDialog open={confirmAction !== null} onOpenChange={(open) => !open && setConfirmAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmAction === 'rotate' ? `重新生成${label}？` : `撤销${label}？`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              当前令牌会立即失效，{confirmAction === 'rotate' ? rotateHint : revokeHint}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirmAction === 'rotate') issueMutation.mutate(scope)
+                else revokeMutation.mutate(scope)
+                setConfirmAction(null)
+              }}
+            >
+              {confirmAction === 'rotate' ? '重新生成' : '撤销'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
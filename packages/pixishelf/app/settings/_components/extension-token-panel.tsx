@@ -0,0 +1,37 @@
+'use client'
+
+import { SectionHeader } from '@/components/layout/section-header'
+import { AccessTokenSection, CopyableField } from './access-token-section'
+
+/**
+ * 浏览器扩展令牌：扩展以 Bearer 令牌调用写入接口，把抓取到的 Pixiv 元数据直接送回服务端
+ */
+export function ExtensionTokenPanel() {
+  const origin = typeof window === 'undefined' ? '' : window.location.origin
+
+  return (
+    <div className="flex max-w-3xl flex-col gap-7">
+      <SectionHeader
+        title="浏览器扩展"
+        description="PixiShelf 下载助手抓取的作品、标签与用户信息可直接发送到服务端，无需再导出 SQL 手动执行。"
+      />
+
+      <AccessTokenSection
+        scope="INGEST"
+        label="扩展令牌"
+        description="持有令牌即可写入来源元数据（不会覆盖本地修改过的标题、简介与手动翻译）。生成后只显示一次，遗失或泄露时请重新生成。"
+        rotateHint="需要在扩展设置中填入新的令牌。"
+        revokeHint="扩展将无法再发送数据，直到重新生成并配置令牌。"
+        renderIssued={(token) => (
+          <section className="flex flex-col gap-4 py-6" aria-label="扩展连接信息">
+            <CopyableField id="extension-server-url" label="服务地址" value={origin} />
+            <CopyableField id="extension-token" label="扩展令牌" value={token} />
+            <p className="text-xs text-muted-foreground">
+              请在扩展的“设置 → PixiShelf 连接”中填入以上信息，离开页面后将无法再次查看完整令牌。
+            </p>
+          </section>
+        )}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { SectionHeader } from '@/components/layout/section-header'
+import { AccessTokenSection, CopyableField } from './access-token-section'
+
+/**
+ * 订阅源令牌：OPDS 阅读器与 Atom 订阅使用路径中的令牌访问目录，不依赖登录会话
+ */
+export function FeedTokenPanel() {
+  const origin = typeof window === 'undefined' ? '' : window.location.origin
+
+  return (
+    <div className="flex max-w-3xl flex-col gap-7">
+      <SectionHeader title="订阅源" description="在支持 OPDS 的漫画或电子书阅读器中浏览作品、系列、艺术家与标签。" />
+
+      <AccessTokenSection
+        scope="FEED"
+        label="订阅令牌"
+        description="令牌写在订阅地址中，持有地址即可只读访问全部作品。生成后只显示一次，遗失或泄露时请重新生成。"
+        rotateHint="已添加该订阅的阅读器需要改用新的地址。"
+        revokeHint="已添加该订阅的阅读器需要重新配置后才能访问。"
+        renderIssued={(token) => {
+          const feedBase = `${origin}/api/opds/${encodeURIComponent(token)}`
+          return (
+            <section className="flex flex-col gap-4 py-6" aria-label="订阅地址">
+              <CopyableField id="opds-catalog-url" label="OPDS 目录地址" value={feedBase} />
+              <CopyableField id="atom-updates-url" label="最近入库 Atom 订阅" value={`${feedBase}/updates`} />
+              <p className="text-xs text-muted-foreground">请立即保存这些地址，离开页面后将无法再次查看完整令牌。</p>
+            </section>
+          )
+        }}
+      />
+    </div>
+  )
+}
@@ -7,7 +7,9 @@ import { cn } from '@/lib/utils'
 
 const tabs = [
   { href: ROUTES.SETTINGS_PROFILE, label: '个人资料' },
-  { href: ROUTES.SETTINGS_PREFERENCES, label: '浏览偏好' }
+  { href: ROUTES.SETTINGS_PREFERENCES, label: '浏览偏好' },
+  { href: ROUTES.SETTINGS_FEEDS, label: '订阅源' },
+  { href: ROUTES.SETTINGS_EXTENSION, label: '浏览器扩展' }
 ]
 
 export function SettingsTabs() {
@@ -0,0 +1,5 @@
+import { ExtensionTokenPanel } from '../_components/extension-token-panel'
+
+export default function SettingsExtensionPage() {
+  return <ExtensionTokenPanel />
+}
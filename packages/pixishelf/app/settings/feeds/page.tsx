@@ -0,0 +1,5 @@
+import { FeedTokenPanel } from '../_components/feed-token-panel'
+
+export default function SettingsFeedsPage() {
+  return <FeedTokenPanel />
+}
@@ -11,7 +11,7 @@ export default function SettingsLayout({ children }: SettingsLayoutProps) {
   return (
     <div className="min-h-dvh bg-background">
       <PageContainer size="standard" className="flex flex-col gap-6 py-6 sm:py-8">
-        <PageHeader title="设置" description="管理个人资料与 PixiShelf 的浏览偏好。" />
+        <PageHeader title="设置" description="管理个人资料、PixiShelf 的浏览偏好与订阅源。" />
         <SettingsTabs />
         <main>{children}</main>
       </PageContainer>
@@ -17,6 +17,7 @@ import {
   usePreferredTags,
   useVideoLongPressPlaybackRate,
   useVideoSeekStepSeconds,
+  useViewHistoryRetentionDays,
   useUserSettingsStore
 } from '@/components/user-setting'
 import { useTRPC } from '@/lib/trpc'
@@ -25,7 +26,8 @@ import type {
   ArtworkMediaAnchorInterval,
   UpdateUserSettingDTO,
   VideoLongPressPlaybackRate,
-  VideoSeekStepSeconds
+  VideoSeekStepSeconds,
+  ViewHistoryRetentionDays
 } from '@/schemas/user-setting.dto'
 
 const DISPLAY_MODE_KEY = 'artwork_display_mode'
@@ -34,6 +36,7 @@ const MEDIA_ANCHOR_INTERVAL_KEY = 'artwork_media_anchor_interval'
 const MEDIA_PRIVACY_MODE_KEY = 'media_privacy_mode'
 const VIDEO_LONG_PRESS_PLAYBACK_RATE_KEY = 'video_long_press_playback_rate'
 const VIDEO_SEEK_STEP_SECONDS_KEY = 'video_seek_step_seconds'
+const VIEW_HISTORY_RETENTION_DAYS_KEY = 'view_history_retention_days'
 
 export default function SettingsPreferencesPage() {
   const trpc = useTRPC()
@@ -43,6 +46,7 @@ export default function SettingsPreferencesPage() {
   const mediaPrivacyModeSetting = useMediaPrivacyMode()
   const videoLongPressPlaybackRateSetting = useVideoLongPressPlaybackRate()
   const videoSeekStepSecondsSetting = useVideoSeekStepSeconds()
+  const viewHistoryRetentionDaysSetting = useViewHistoryRetentionDays()
   const updateSettingLocally = useUserSettingsStore((state) => state.updateSettingLocally)
 
   const [displayMode, setDisplayMode] = useState<ArtworkDisplayMode>(displayModeSetting)
@@ -53,6 +57,9 @@ export default function SettingsPreferencesPage() {
     videoLongPressPlaybackRateSetting
   )
   const [videoSeekStepSeconds, setVideoSeekStepSeconds] = useState<VideoSeekStepSeconds>(videoSeekStepSecondsSetting)
+  const [viewHistoryRetentionDays, setViewHistoryRetentionDays] = useState<ViewHistoryRetentionDays>(
+    viewHistoryRetentionDaysSetting
+  )
 
   useEffect(() => {
     setDisplayMode(displayModeSetting)
@@ -78,6 +85,10 @@ export default function SettingsPreferencesPage() {
     setVideoSeekStepSeconds(videoSeekStepSecondsSetting)
   }, [videoSeekStepSecondsSetting])
 
+  useEffect(() => {
+    setViewHistoryRetentionDays(viewHistoryRetentionDaysSetting)
+  }, [viewHistoryRetentionDaysSetting])
+
   const { data: tagsData } = useQuery(
     trpc.tag.list.queryOptions({
       cursor: 1,
@@ -179,6 +190,13 @@ export default function SettingsPreferencesPage() {
     scheduleSave({ key: VIDEO_SEEK_STEP_SECONDS_KEY, value: nextValue, type: 'number' })
   }
 
+  const onViewHistoryRetentionDaysChange = (value: string) => {
+    const nextValue = Number(value) as ViewHistoryRetentionDays
+    setViewHistoryRetentionDays(nextValue)
+    updateSettingLocally(VIEW_HISTORY_RETENTION_DAYS_KEY, nextValue)
+    scheduleSave({ key: VIEW_HISTORY_RETENTION_DAYS_KEY, value: nextValue, type: 'number' })
+  }
+
   return (
     <div>
       <PreferenceItem
@@ -281,6 +299,30 @@ export default function SettingsPreferencesPage() {
         </Select>
       </PreferenceItem>
 
+      <PreferenceItem
+        title="浏览历史"
+        description="记录打开过的作品与停留时长，用于浏览历史和个人统计；超出保留期的记录会自动清理。暂停后不再记录，已有记录保留到手动清空"
+      >
+        <Select
+          value={String(viewHistoryRetentionDays)}
+          onValueChange={onViewHistoryRetentionDaysChange}
+          disabled={isExecuting}
+        >
+          <SelectTrigger className="w-full sm:w-[420px]" aria-label="浏览历史保留时间">
+            <SelectValue placeholder="选择保留时间" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value="0">暂停记录</SelectItem>
+              <SelectItem value="30">保留 30 天</SelectItem>
+              <SelectItem value="90">保留 90 天</SelectItem>
+              <SelectItem value="180">保留 180 天（推荐）</SelectItem>
+              <SelectItem value="365">保留 1 年</SelectItem>
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </PreferenceItem>
+
       <PreferenceItem title="优选标签" description="选择你常关注的标签，便于在作品列表中快速识别偏好内容">
         <div className="w-full sm:max-w-xl">
           <MultipleSelector
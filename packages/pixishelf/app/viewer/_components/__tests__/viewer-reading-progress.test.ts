@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { MediaType } from '@/types'
+import type { RandomImageItem, ViewerMediaItem } from '@/types/images'
+import { getViewerResumeIndex, getViewerResumePosition } from '../viewer-reading-progress'
+
+function media(id: number, mediaType = MediaType.IMAGE): ViewerMediaItem {
+  return { id, key: String(id), url: `/media/${id}`, mediaType, updatedAt: '2026-10-19T00:00:00.000Z' }
+}
+
+function artwork(readingProgress: RandomImageItem['readingProgress']): RandomImageItem {
+  return {
+    id: 1,
+    key: 'artwork-1',
+    title: 'artwork',
+    imageUrl: '/media/11',
+    mediaType: MediaType.IMAGE,
+    images: [media(11), media(12), media(13, MediaType.VIDEO)],
+    author: null,
+    createdAt: '2026-10-19T00:00:00.000Z',
+    tags: [],
+    isLike: false,
+    readingProgress
+  }
+}
+
+describe('viewer reading progress', () => {
+  it('resumes at the saved media by id before falling back to the clamped index', () => {
+    const items = artwork(null).images
+
+    expect(getViewerResumeIndex(artwork(null), items)).toBe(0)
+    expect(
+      getViewerResumeIndex(artwork({ mediaIndex: 5, imageId: 12, videoPositionSec: null, completed: false }), items)
+    ).toBe(1)
+    expect(
+      getViewerResumeIndex(artwork({ mediaIndex: 9, imageId: 99, videoPositionSec: null, completed: false }), items)
+    ).toBe(2)
+    expect(
+      getViewerResumeIndex(artwork({ mediaIndex: 2, imageId: 13, videoPositionSec: null, completed: true }), items)
+    ).toBe(0)
+  })
+
+  it('restores the video position only for the media that was being watched', () => {
+    const item = artwork({ mediaIndex: 2, imageId: 13, videoPositionSec: 42.5, completed: false })
+
+    expect(getViewerResumePosition(item, 13)).toBe(42.5)
+    expect(getViewerResumePosition(item, 12)).toBe(0)
+    expect(
+      getViewerResumePosition({ ...item, readingProgress: { ...item.readingProgress!, completed: true } }, 13)
+    ).toBe(0)
+  })
+})
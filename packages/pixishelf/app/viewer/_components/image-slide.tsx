@@ -20,6 +20,7 @@ import { useShallow } from 'zustand/react/shallow'
 import ImageOverlay from './image-overlay'
 import type { ViewerOverlayInteractionApi } from './image-overlay'
 import ViewerVideoControls, { type ViewerAudioPreference, type ViewerVideoState } from './viewer-video-controls'
+import { getViewerResumeIndex } from './viewer-reading-progress'
 import { useVideoLongPressPlaybackRate, useVideoSeekStepSeconds } from '@/components/user-setting'
 import AnimatedWebpPlayer from '@/components/players/animated-webp-player'
 import { createFeedGestureEngine, type FeedGestureEngine } from '@/components/players/video-feed-gesture-engine'
@@ -250,8 +251,7 @@ export function SingleImage({
   }
 
   const usesAnimatedImagePlayer =
-    media.mediaType === MediaType.IMAGE &&
-    (isWebpFile(media.url) || (isGifFile(media.url) && media.isAnimated))
+    media.mediaType === MediaType.IMAGE && (isWebpFile(media.url) || (isGifFile(media.url) && media.isAnimated))
 
   return (
     <div
@@ -423,7 +423,7 @@ export default function ImageSlide({
   }
   const mediaItems = image.images.length > 0 ? image.images : [fallbackMedia]
   const hasMultipleImages = mediaItems.length > 1
-  const storedImageIndex = horizontalIndexes[image.key] ?? 0
+  const storedImageIndex = horizontalIndexes[image.key] ?? getViewerResumeIndex(image, mediaItems)
   const currentImageIndex = Math.min(Math.max(storedImageIndex, 0), mediaItems.length - 1)
   const currentMedia = mediaItems[currentImageIndex] ?? fallbackMedia
 
@@ -15,6 +15,7 @@ import { useViewerStore } from '@/store/viewer-store'
 import { Placeholder } from './placeholder'
 import { useShallow } from 'zustand/react/shallow'
 import type { ViewerAudioPreference } from './viewer-video-controls'
+import { getViewerResumePosition, useViewerReadingProgress } from './viewer-reading-progress'
 
 const VIEWER_CHAPTER_HISTORY_KEY = '__pixishelf_viewer_chapters__'
 const VIEWER_CLEAR_MODE_HISTORY_KEY = '__pixishelf_viewer_clear_mode__'
@@ -182,6 +183,7 @@ export default function ImmersiveImageViewer({
     }))
   )
   const { enterClearMode, exitClearMode } = useClearModeHistory(isChromeHidden, setChromeHidden)
+  const reportPlaybackPosition = useViewerReadingProgress(initialImages, verticalIndex)
 
   // 处理slide变化
   const handleSlideChange = useCallback(
@@ -281,9 +283,12 @@ export default function ImmersiveImageViewer({
                       onActiveMediaSettled={() => setPreloadUnlockedIndex(index)}
                       onEnterClearMode={enterClearMode}
                       onExitClearMode={exitClearMode}
-                      getPlaybackPosition={(mediaId) => playbackPositionsRef.current.get(mediaId) ?? 0}
+                      getPlaybackPosition={(mediaId) =>
+                        playbackPositionsRef.current.get(mediaId) ?? getViewerResumePosition(image, mediaId)
+                      }
                       onPlaybackPositionChange={(mediaId, currentTime) => {
                         playbackPositionsRef.current.set(mediaId, currentTime)
+                        reportPlaybackPosition(image, mediaId, currentTime)
                       }}
                     />
                   ) : (
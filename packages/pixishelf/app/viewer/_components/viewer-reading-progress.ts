@@ -0,0 +1,86 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useAuthUser } from '@/components/auth'
+import {
+  READING_PROGRESS_INDEX_DELAY_MS,
+  READING_PROGRESS_VIDEO_INTERVAL_MS,
+  useReadingProgressSaver
+} from '@/hooks/use-reading-progress-saver'
+import { useViewHistoryRecorder } from '@/hooks/use-view-history-recorder'
+import type { ReadingProgressSaveSchema } from '@/schemas/reading-progress.dto'
+import { useViewerStore } from '@/store/viewer-store'
+import { MediaType } from '@/types'
+import type { RandomImageItem, ViewerMediaItem } from '@/types/images'
+
+/**
+ * 图集首次进入时的横向位置：优先按 imageId 定位（沉浸浏览会跳过未转换的动图，序号可能与作品页不同），
+ * 找不到时再按保存的序号截断；已读完的作品从头开始。
+ */
+export function getViewerResumeIndex(image: RandomImageItem, mediaItems: ViewerMediaItem[]) {
+  const progress = image.readingProgress
+  if (!progress || progress.completed) return 0
+
+  const index = mediaItems.findIndex((media) => media.id === progress.imageId)
+  if (index >= 0) return index
+  return Math.min(Math.max(progress.mediaIndex, 0), mediaItems.length - 1)
+}
+
+export function getViewerResumePosition(image: RandomImageItem, mediaId: number) {
+  const progress = image.readingProgress
+  if (!progress || progress.completed || progress.imageId !== mediaId) return 0
+  return progress.videoPositionSec ?? 0
+}
+
+/**
+ * 沉浸浏览阅读进度回写：作品内横向翻页后记录位置，视频播放时按间隔记录播放进度；
+ * 当前作品同时记入浏览历史
+ * @returns 视频播放进度上报函数
+ */
+export function useViewerReadingProgress(images: RandomImageItem[], verticalIndex: number) {
+  const user = useAuthUser()
+  const { schedule } = useReadingProgressSaver(Boolean(user))
+  const horizontalIndexes = useViewerStore((state) => state.horizontalIndexes)
+  const playbackPositionsRef = useRef(new Map<number, number>())
+  const activeImage = images[verticalIndex]
+  // 未在作品内翻页时 store 中没有记录，此时仅靠视频进度触发保存
+  const activeMediaIndex = activeImage ? horizontalIndexes[activeImage.key] : undefined
+  const { markMedia, reportVideoTime } = useViewHistoryRecorder(user && activeImage ? activeImage.id : null, 'viewer')
+
+  useEffect(() => {
+    markMedia(activeMediaIndex ?? 0)
+  }, [activeImage, activeMediaIndex, markMedia])
+
+  const buildSnapshot = useCallback((image: RandomImageItem, mediaIndex: number) => {
+    const media = image.images[mediaIndex]
+    if (!media) return null
+    const snapshot: ReadingProgressSaveSchema = {
+      artworkId: image.id,
+      mediaIndex,
+      mediaCount: image.images.length,
+      imageId: media.id
+    }
+    if (media.mediaType === MediaType.VIDEO) {
+      snapshot.videoPositionSec = playbackPositionsRef.current.get(media.id) ?? 0
+      if (media.duration) snapshot.videoDurationSec = media.duration
+    }
+    return snapshot
+  }, [])
+
+  useEffect(() => {
+    if (!activeImage || activeMediaIndex === undefined) return
+    const snapshot = buildSnapshot(activeImage, activeMediaIndex)
+    if (snapshot) schedule(snapshot, READING_PROGRESS_INDEX_DELAY_MS, true)
+  }, [activeImage, activeMediaIndex, buildSnapshot, schedule])
+
+  return useCallback(
+    (image: RandomImageItem, mediaId: number, currentTime: number) => {
+      playbackPositionsRef.current.set(mediaId, currentTime)
+      reportVideoTime(mediaId, currentTime)
+      const mediaIndex = image.images.findIndex((media) => media.id === mediaId)
+      const snapshot = mediaIndex >= 0 ? buildSnapshot(image, mediaIndex) : null
+      if (snapshot) schedule(snapshot, READING_PROGRESS_VIDEO_INTERVAL_MS, false)
+    },
+    [buildSnapshot, reportVideoTime, schedule]
+  )
+}
@@ -21,7 +21,7 @@ import type { ArtworkSource } from '@/schemas/models'
 import dayjs from 'dayjs'
 import { Button } from '@/components/ui/button'
 
-type ViewerSource = 'all' | 'artist' | 'tag'
+type ViewerSource = 'all' | 'artist' | 'tag' | 'collection'
 type ViewerMode = 'ordered' | 'random'
 
 const viewerQueryParsers = {
@@ -115,7 +115,7 @@ export default function ViewerPage() {
     const sourceId = viewerQuery.sourceId ?? undefined
     const hasValidSourceId = typeof sourceId === 'number' && Number.isFinite(sourceId) && sourceId > 0
     const source: ViewerSource =
-      viewerQuery.source === 'artist' || viewerQuery.source === 'tag'
+      viewerQuery.source === 'artist' || viewerQuery.source === 'tag' || viewerQuery.source === 'collection'
         ? hasValidSourceId
           ? viewerQuery.source
           : 'all'
@@ -32,6 +32,8 @@ import { cn } from '@/lib/utils'
 interface InfiniteArtworkListProps {
   /** 搜索关键词 */
   searchQuery?: string
+  /** 结构化查询语句，与其余筛选条件以 AND 叠加 */
+  structuredQuery?: string
   /** 排序方式 (如：最新发布、最旧发布、最多浏览等) */
   sortBy?: SortOption
   /** 媒体类型筛选 (全部、图片、视频) */
@@ -67,6 +69,7 @@ interface InfiniteArtworkListProps {
 export default function InfiniteArtworkList(props: InfiniteArtworkListProps) {
   const {
     searchQuery = '',
+    structuredQuery = '',
     sortBy = 'source_date_desc',
     mediaType = 'all',
     tagId,
@@ -100,6 +103,7 @@ export default function InfiniteArtworkList(props: InfiniteArtworkListProps) {
     trpc.artwork.cardList.infiniteQueryOptions(
       {
         search: searchQuery || undefined,
+        q: structuredQuery || undefined,
         sortBy,
         randomSeed: sortBy === 'random' ? randomSeed : undefined,
         mediaType,
@@ -177,7 +181,7 @@ export default function InfiniteArtworkList(props: InfiniteArtworkListProps) {
   })
 
   // 生成唯一的存储 key，基于当前的筛选条件
-  const storageKey = `artworks-scroll-${searchQuery}-${sortBy}-${mediaType}-${tagId}-${tagIds?.join(',') || ''}-${artistId}-${sources?.join(',') || ''}-${hasAudio || ''}-${startDate}-${endDate}-${createdStartDate}-${createdEndDate}-${sortBy === 'random' ? randomSeed : ''}`
+  const storageKey = `artworks-scroll-${searchQuery}-${structuredQuery}-${sortBy}-${mediaType}-${tagId}-${tagIds?.join(',') || ''}-${artistId}-${sources?.join(',') || ''}-${hasAudio || ''}-${startDate}-${endDate}-${createdStartDate}-${createdEndDate}-${sortBy === 'random' ? randomSeed : ''}`
 
   // 1. 处理滚动恢复
   useLayoutEffect(() => {
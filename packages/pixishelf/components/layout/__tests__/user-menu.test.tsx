@@ -24,8 +24,10 @@ describe('UserMenu', () => {
       ctrlKey: false
     })
 
+    const history = screen.getByRole('menuitem', { name: '浏览历史' })
     const settings = screen.getByRole('menuitem', { name: '个人设置' })
     const changePassword = screen.getByRole('menuitem', { name: '修改密码' })
+    expect(history.getAttribute('href')).toBe('/history')
     expect(settings.tagName).toBe('A')
     expect(settings.getAttribute('href')).toBe('/settings/profile')
     expect(changePassword.tagName).toBe('A')
@@ -1,4 +1,14 @@
-import { BookOpenIcon, HashIcon, HomeIcon, ImageIcon, ImagesIcon, SettingsIcon, UsersIcon } from 'lucide-react'
+import {
+  BookOpenIcon,
+  HashIcon,
+  HomeIcon,
+  ImageIcon,
+  ImagesIcon,
+  LibraryIcon,
+  SearchIcon,
+  SettingsIcon,
+  UsersIcon
+} from 'lucide-react'
 import type { LucideIcon } from 'lucide-react'
 import { ROUTES } from '@/lib/constants'
 import type { PageContainerSize } from './page-container'
@@ -15,7 +25,9 @@ export const PRIMARY_NAVIGATION_ITEMS: AppNavigationItem[] = [
   { href: ROUTES.VIEWER, label: '沉浸浏览', icon: ImagesIcon },
   { href: ROUTES.ARTISTS, label: '艺术家', icon: UsersIcon },
   { href: ROUTES.TAGS, label: '标签', icon: HashIcon },
-  { href: ROUTES.SERIES, label: '系列', icon: BookOpenIcon }
+  { href: ROUTES.SERIES, label: '系列', icon: BookOpenIcon },
+  { href: ROUTES.COLLECTIONS, label: '合集', icon: LibraryIcon },
+  { href: ROUTES.SEARCH, label: '搜索', icon: SearchIcon }
 ]
 
 export const MOBILE_BOTTOM_NAVIGATION_ITEMS = PRIMARY_NAVIGATION_ITEMS.slice(0, 3)
@@ -3,7 +3,7 @@
 import type { ReactNode } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { KeyRoundIcon, LogOutIcon, SlidersHorizontalIcon } from 'lucide-react'
+import { HistoryIcon, KeyRoundIcon, LogOutIcon, SlidersHorizontalIcon } from 'lucide-react'
 import { useAuth, useAuthUser } from '@/components/auth'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Separator } from '@/components/ui/separator'
@@ -121,6 +121,13 @@ export default function MobileNavigationMenu({ trigger }: MobileNavigationMenuPr
               工具
             </p>
             <MobileNavigationLink item={ADMIN_NAVIGATION_ITEM} pathname={pathname} />
+            <UtilityLink
+              href={ROUTES.HISTORY}
+              icon={<HistoryIcon className="size-5" aria-hidden="true" />}
+              pathname={pathname}
+            >
+              浏览历史
+            </UtilityLink>
             <UtilityLink
               href={ROUTES.SETTINGS_PROFILE}
               icon={<SlidersHorizontalIcon className="size-5" aria-hidden="true" />}
@@ -11,7 +11,7 @@ import {
   MenubarSeparator
 } from '@/components/ui/menubar'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { KeyRoundIcon, LogOutIcon, SlidersHorizontalIcon } from 'lucide-react'
+import { HistoryIcon, KeyRoundIcon, LogOutIcon, SlidersHorizontalIcon } from 'lucide-react'
 import { memo } from 'react'
 import { useAuth, useAuthUser } from '@/components/auth'
 
@@ -36,6 +36,12 @@ const UserMenu = () => {
 
         <MenubarContent align="end">
           <MenubarGroup>
+            <MenubarItem asChild>
+              <Link href={ROUTES.HISTORY}>
+                <HistoryIcon data-icon="inline-start" />
+                浏览历史
+              </Link>
+            </MenubarItem>
             <MenubarItem asChild>
               <Link href={ROUTES.SETTINGS_PROFILE}>
                 <SlidersHorizontalIcon data-icon="inline-start" />
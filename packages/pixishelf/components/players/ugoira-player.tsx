@@ -0,0 +1,76 @@
+'use client'
+
+import { FilmIcon, PauseIcon, PlayIcon } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { cn } from '@/lib/utils'
+
+interface UgoiraPlayerProps {
+  /** 转换后的 WebM 地址；为空表示 Worker 尚未完成转换 */
+  src?: string | null
+  alt?: string
+  className?: string
+  fillContainer?: boolean
+}
+
+/**
+ * Pixiv 动图（ugoira）播放器。
+ * 帧时间已由 Worker 写入可变帧率 WebM，这里只需静音循环播放，不再逐帧调度。
+ */
+export default function UgoiraPlayer({ src, alt = 'Ugoira', className, fillContainer = false }: UgoiraPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [paused, setPaused] = useState(false)
+
+  if (!src) {
+    return (
+      <div
+        className={cn(
+          'flex min-h-72 w-full flex-col items-center justify-center gap-2 bg-neutral-100 text-neutral-400 dark:bg-neutral-800 dark:text-neutral-500',
+          fillContainer && 'h-full',
+          className
+        )}
+        role="img"
+        aria-label={alt}
+      >
+        <FilmIcon className="size-6" aria-hidden="true" />
+        <span className="text-xs">动图转换中</span>
+      </div>
+    )
+  }
+
+  const handleToggle = () => {
+    const video = videoRef.current
+    if (!video) return
+    if (video.paused) void video.play().catch(() => undefined)
+    else video.pause()
+  }
+
+  return (
+    <div className={cn('group relative w-full', fillContainer && 'h-full', className)}>
+      <video
+        ref={videoRef}
+        src={src}
+        aria-label={alt}
+        autoPlay
+        loop
+        muted
+        playsInline
+        preload="auto"
+        className={cn('block w-full object-contain', fillContainer ? 'h-full' : 'h-auto')}
+        onClick={handleToggle}
+        onPlay={() => setPaused(false)}
+        onPause={() => setPaused(true)}
+      />
+      <button
+        type="button"
+        className={cn(
+          'absolute bottom-3 right-3 flex size-8 items-center justify-center rounded-full bg-black/50 text-white transition-opacity',
+          paused ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+        )}
+        aria-label={paused ? '播放动图' : '暂停动图'}
+        onClick={handleToggle}
+      >
+        {paused ? <PlayIcon className="size-4" /> : <PauseIcon className="size-4" />}
+      </button>
+    </div>
+  )
+}
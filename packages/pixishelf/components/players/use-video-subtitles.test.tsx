@@ -0,0 +1,63 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { normalizeVideoSubtitleTracks, useVideoSubtitles } from './use-video-subtitles'
+
+describe('useVideoSubtitles', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('does not request when subtitlesUrl is empty', () => {
+    const fetchSpy = vi.fn()
+    vi.stubGlobal('fetch', fetchSpy)
+
+    const { result } = renderHook(() => useVideoSubtitles(null))
+
+    expect(fetchSpy).not.toHaveBeenCalled()
+    expect(result.current.tracks).toEqual([])
+    expect(result.current.loading).toBe(false)
+  })
+
+  it('loads tracks and keeps a failed request from surfacing stale tracks', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        status: 200,
+        ok: true,
+        json: async () => ({
+          tracks: [
+            { id: 'a', label: '中文', language: 'zh', isDefault: true, url: '/api/v1/media/1/subtitles/a' },
+            { id: 'broken', label: 'Missing url' }
+          ]
+        })
+      })
+    )
+
+    const { result, rerender } = renderHook(({ url }) => useVideoSubtitles(url), {
+      initialProps: { url: '/api/v1/media/1/subtitles' }
+    })
+
+    await waitFor(() => expect(result.current.tracks).toHaveLength(1))
+    expect(result.current.tracks[0]).toEqual({
+      id: 'a',
+      label: '中文',
+      language: 'zh',
+      isDefault: true,
+      url: '/api/v1/media/1/subtitles/a'
+    })
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ status: 500, ok: false }))
+    rerender({ url: '/api/v1/media/2/subtitles' })
+
+    await waitFor(() => expect(result.current.error).toBe('字幕加载失败 (500)'))
+    expect(result.current.tracks).toEqual([])
+  })
+
+  it('falls back to the track id when a label is missing', () => {
+    expect(normalizeVideoSubtitleTracks({ tracks: [{ id: 'x', url: '/x.vtt' }] })).toEqual([
+      { id: 'x', label: 'x', language: null, isDefault: false, url: '/x.vtt' }
+    ])
+    expect(normalizeVideoSubtitleTracks(null)).toEqual([])
+  })
+})
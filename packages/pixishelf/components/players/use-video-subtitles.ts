@@ -0,0 +1,83 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+
+export interface VideoSubtitleTrack {
+  id: string
+  label: string
+  language: string | null
+  isDefault: boolean
+  url: string
+}
+
+interface UseVideoSubtitlesResult {
+  tracks: VideoSubtitleTrack[]
+  loading: boolean
+  error: string | null
+}
+
+/**
+ * 过滤接口返回中不完整的轨道，避免一条坏数据导致整个字幕菜单不可用。
+ */
+export function normalizeVideoSubtitleTracks(payload: unknown): VideoSubtitleTrack[] {
+  const tracks = (payload as { tracks?: unknown } | null)?.tracks
+  if (!Array.isArray(tracks)) return []
+  return tracks.flatMap((track) => {
+    if (!track || typeof track.id !== 'string' || typeof track.url !== 'string' || !track.url) return []
+    return [
+      {
+        id: track.id,
+        label: typeof track.label === 'string' && track.label ? track.label : track.id,
+        language: typeof track.language === 'string' ? track.language : null,
+        isDefault: track.isDefault === true,
+        url: track.url
+      }
+    ]
+  })
+}
+
+/**
+ * 负责加载视频的 WebVTT 字幕轨道列表；加载失败时仅隐藏字幕菜单，不影响播放。
+ */
+export function useVideoSubtitles(subtitlesUrl?: string | null): UseVideoSubtitlesResult {
+  const [tracks, setTracks] = useState<VideoSubtitleTrack[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setTracks([])
+    setError(null)
+    if (!subtitlesUrl) {
+      setLoading(false)
+      return
+    }
+
+    const requestUrl = subtitlesUrl
+    const controller = new AbortController()
+
+    async function loadSubtitles() {
+      setLoading(true)
+      try {
+        const response = await fetch(requestUrl, { signal: controller.signal })
+        if (response.status === 404) return
+        if (!response.ok) {
+          throw new Error(`字幕加载失败 (${response.status})`)
+        }
+        setTracks(normalizeVideoSubtitleTracks(await response.json()))
+      } catch (error) {
+        if (controller.signal.aborted) return
+        setError(error instanceof Error ? error.message : '字幕加载失败')
+      } finally {
+        if (!controller.signal.aborted) setLoading(false)
+      }
+    }
+
+    loadSubtitles()
+
+    return () => {
+      controller.abort()
+    }
+  }, [subtitlesUrl])
+
+  return useMemo(() => ({ tracks, loading, error }), [tracks, loading, error])
+}
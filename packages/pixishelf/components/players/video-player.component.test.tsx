@@ -1,7 +1,7 @@
 import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react'
 import React from 'react'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import VideoPlayer, { formatVideoRemainingTime } from './video-player'
+import VideoPlayer, { formatVideoRemainingTime, shouldOfferVideoResume } from './video-player'
 
 const artplayerMock = vi.hoisted(() => ({
   constructor: vi.fn(),
@@ -246,6 +246,24 @@ describe('VideoPlayer component behavior', () => {
     await waitFor(() => expect(artplayerMock.constructor).toHaveBeenCalledTimes(2))
   })
 
+  it('plays the published HLS set first and falls back to the original file when it fails', async () => {
+    setupArtplayerMock()
+
+    render(<VideoPlayer src="/video.mp4" hlsUrl="/api/v1/media/1/hls/set-1/master.m3u8" />)
+    await waitFor(() => expect(artplayerMock.constructor).toHaveBeenCalledTimes(1))
+    expect(artplayerMock.constructor.mock.calls[0]?.[0]).toMatchObject({
+      url: '/api/v1/media/1/hls/set-1/master.m3u8',
+      type: 'm3u8'
+    })
+
+    act(() => emitArtplayerEvent('video:error'))
+
+    await waitFor(() => expect(artplayerMock.constructor).toHaveBeenCalledTimes(2))
+    expect(artplayerMock.constructor.mock.calls[1]?.[0].url).toContain('/video.mp4')
+    expect(artplayerMock.constructor.mock.calls[1]?.[0].type).toBeUndefined()
+    expect(screen.queryByRole('button', { name: '重新加载' })).toBeNull()
+  })
+
   it('adds optional business actions to the native Artplayer settings menu', async () => {
     const art = setupArtplayerMock()
     const onClick = vi.fn()
@@ -268,6 +286,37 @@ describe('VideoPlayer component behavior', () => {
     expect(art.setting.show).toBe(false)
   })
 
+  it('offers resume only for positions away from both ends of the video', () => {
+    expect(shouldOfferVideoResume(null, 60)).toBe(false)
+    expect(shouldOfferVideoResume(3, 60)).toBe(false)
+    expect(shouldOfferVideoResume(30, 0)).toBe(true)
+    expect(shouldOfferVideoResume(30, 60)).toBe(true)
+    expect(shouldOfferVideoResume(57, 60)).toBe(false)
+  })
+
+  it('seeks to the saved position from the resume button and reports playback progress', async () => {
+    const art = setupArtplayerMock()
+    const play = vi.fn().mockResolvedValue(undefined)
+    Object.assign(art, { play })
+    const onProgress = vi.fn()
+
+    render(<VideoPlayer src="/video.mp4" resumeTime={75} onProgress={onProgress} />)
+    await waitFor(() => expect(artplayerMock.constructor).toHaveBeenCalled())
+    art.duration = 120
+    act(() => emitArtplayerEvent('ready'))
+
+    fireEvent.click(screen.getByRole('button', { name: '继续播放 1:15' }))
+    expect(art.currentTime).toBe(75)
+    expect(play).toHaveBeenCalledOnce()
+
+    act(() => emitArtplayerEvent('play'))
+    art.currentTime = 80
+    act(() => emitArtplayerEvent('video:timeupdate'))
+
+    expect(onProgress).toHaveBeenLastCalledWith(80, 120)
+    expect(screen.queryByRole('button', { name: /继续播放/ })).toBeNull()
+  })
+
   it('does not autoplay and unmutes videos with an audio track when playback starts', async () => {
     const art = setupArtplayerMock()
 
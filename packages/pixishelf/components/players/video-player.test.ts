@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest'
-import { shouldShowAudioControls, shouldSyncVideoTime, shouldShowVideoBuffering } from './video-player'
+import {
+  canPlayHlsNatively,
+  resolveVideoPlaybackSource,
+  shouldShowAudioControls,
+  shouldSyncVideoTime,
+  shouldShowVideoBuffering
+} from './video-player'
 
 describe('VideoPlayer helpers', () => {
   it('does not show buffering while the current frame is still renderable', () => {
@@ -33,4 +39,21 @@ describe('VideoPlayer helpers', () => {
     expect(shouldShowAudioControls(null)).toBe(false)
     expect(shouldShowAudioControls(undefined)).toBe(false)
   })
+
+  it('prefers the HLS source until it has failed once', () => {
+    expect(resolveVideoPlaybackSource({ src: '/v.mp4', hlsUrl: '/hls/master.m3u8', hlsFailed: false })).toEqual({
+      url: '/hls/master.m3u8',
+      type: 'm3u8'
+    })
+    expect(resolveVideoPlaybackSource({ src: '/v.mp4', hlsUrl: '/hls/master.m3u8', hlsFailed: true })).toEqual({
+      url: '/v.mp4',
+      type: undefined
+    })
+    expect(resolveVideoPlaybackSource({ src: '/v.mp4', hlsUrl: null, hlsFailed: false }).url).toBe('/v.mp4')
+  })
+
+  it('detects native HLS support from canPlayType', () => {
+    expect(canPlayHlsNatively({ canPlayType: () => 'maybe' })).toBe(true)
+    expect(canPlayHlsNatively({ canPlayType: () => '' })).toBe(false)
+  })
 })
@@ -4,6 +4,7 @@ import {
   InfoIcon,
   ListVideoIcon,
   Loader2Icon,
+  PlayIcon,
   RotateCcwIcon,
   SkipBackIcon,
   SkipForwardIcon,
@@ -13,6 +14,7 @@ import React, { useState, useRef, useEffect, useMemo } from 'react'
 import { createPortal } from 'react-dom'
 import { createRoot, type Root } from 'react-dom/client'
 import type ArtplayerType from 'artplayer'
+import type HlsType from 'hls.js'
 import ChapterTimelinePreview from '@/components/players/chapter-timeline-preview'
 import ChapterAudioTrack from '@/components/players/chapter-audio-track'
 import TimelineMarkers from '@/components/players/timeline-markers'
@@ -25,6 +27,7 @@ import {
 import { useCurrentChapter } from '@/components/players/use-current-chapter'
 import { useVideoChapters } from '@/components/players/use-video-chapters'
 import { useVideoKeyframes } from '@/components/players/use-video-keyframes'
+import { useVideoSubtitles, type VideoSubtitleTrack } from '@/components/players/use-video-subtitles'
 import {
   createChapterTimelineMarkers,
   getAdjacentChapters,
@@ -48,6 +51,7 @@ import {
 import './video-player.css'
 
 const VIDEO_TIME_SYNC_THRESHOLD = 0.25
+const VIDEO_RESUME_MIN_SECONDS = 5
 
 export function shouldShowVideoBuffering(video?: HTMLVideoElement | null) {
   if (!video) {
@@ -61,6 +65,20 @@ export function shouldSyncVideoTime(previousTime: number, nextTime: number) {
   return Math.abs(nextTime - previousTime) >= VIDEO_TIME_SYNC_THRESHOLD
 }
 
+/**
+ * 存在已发布的 HLS 档位时优先播放 HLS；HLS 加载失败后回退原文件，不再重复尝试。
+ */
+export function resolveVideoPlaybackSource(input: { src: string; hlsUrl?: string | null; hlsFailed: boolean }) {
+  return input.hlsUrl && !input.hlsFailed
+    ? { url: input.hlsUrl, type: 'm3u8' as const }
+    : { url: input.src, type: undefined }
+}
+
+/** Safari 与 iOS 原生支持 HLS，此时无需加载 hls.js。 */
+export function canPlayHlsNatively(video: Pick<HTMLVideoElement, 'canPlayType'>) {
+  return video.canPlayType('application/vnd.apple.mpegurl') !== ''
+}
+
 export function shouldShowAudioControls(hasAudio?: boolean | null) {
   return hasAudio === true
 }
@@ -70,7 +88,11 @@ export function formatVideoRemainingTime(duration: number, currentTime: number)
     return '--:--'
   }
 
-  const totalSeconds = Math.max(0, Math.ceil(duration - Math.max(currentTime, 0)))
+  return formatVideoTimestamp(Math.ceil(duration - Math.max(currentTime, 0)))
+}
+
+export function formatVideoTimestamp(value: number) {
+  const totalSeconds = Math.max(0, Math.floor(value))
   const hours = Math.floor(totalSeconds / 3600)
   const minutes = Math.floor((totalSeconds % 3600) / 60)
   const seconds = totalSeconds % 60
@@ -79,6 +101,14 @@ export function formatVideoRemainingTime(duration: number, currentTime: number)
   return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${paddedSeconds}` : `${minutes}:${paddedSeconds}`
 }
 
+/**
+ * 只在上次进度有意义时提供“继续播放”：太靠前等同于从头看，接近结尾则视为已看完。
+ */
+export function shouldOfferVideoResume(resumeTime: number | null | undefined, duration: number) {
+  if (!resumeTime || !Number.isFinite(resumeTime) || resumeTime < VIDEO_RESUME_MIN_SECONDS) return false
+  return !(duration > 0 && resumeTime >= duration - VIDEO_RESUME_MIN_SECONDS)
+}
+
 export interface VideoPlayerSettingAction {
   name: string
   label: string
@@ -93,6 +123,8 @@ export interface VideoPlayerProps {
   chaptersCount?: number
   keyframesUrl?: string | null
   keyframeCount?: number
+  hlsUrl?: string | null
+  subtitlesUrl?: string | null
   hasAudio?: boolean | null
   size?: number | null
   autoPlay?: boolean
@@ -104,6 +136,10 @@ export interface VideoPlayerProps {
   onPlay?: () => void
   onPause?: () => void
   onError?: (error: string) => void
+  /** 上次观看到的位置（秒），首次播放前提供“继续播放”入口 */
+  resumeTime?: number | null
+  /** 播放进度回调，随 timeupdate 触发，调用方自行节流 */
+  onProgress?: (currentTime: number, duration: number) => void
   settingActions?: VideoPlayerSettingAction[]
 }
 
@@ -113,6 +149,8 @@ export function VideoPlayer({
   chaptersCount: chapterCountHint = 0,
   keyframesUrl,
   keyframeCount: keyframeCountHint = 0,
+  hlsUrl,
+  subtitlesUrl,
   hasAudio,
   size,
   autoPlay = false,
@@ -124,11 +162,14 @@ export function VideoPlayer({
   onPlay,
   onPause,
   onError,
+  resumeTime,
+  onProgress,
   settingActions
 }: VideoPlayerProps) {
   const previousChapterControlName = 'chapter-previous'
   const nextChapterControlName = 'chapter-next'
   const chapterControlName = 'chapter-entry'
+  const subtitleSettingName = 'subtitle-track'
   const [currentTime, setCurrentTime] = useState(0)
   const [duration, setDuration] = useState(0)
   const [loading, setLoading] = useState(true)
@@ -142,6 +183,8 @@ export function VideoPlayer({
   const [timelinePreviewChapterId, setTimelinePreviewChapterId] = useState<string | null>(null)
   const [gestureFeedback, setGestureFeedback] = useState<VideoInteractionFeedback | null>(null)
   const [playerAttempt, setPlayerAttempt] = useState(0)
+  const [hlsFailed, setHlsFailed] = useState(false)
+  const [resumeOffered, setResumeOffered] = useState(true)
   const hasStartedPlayingRef = useRef(false)
   const playerContainerRef = useRef<HTMLDivElement>(null)
   const artRef = useRef<ArtplayerType | null>(null)
@@ -157,7 +200,12 @@ export function VideoPlayer({
   const onPlayRef = useRef(onPlay)
   const onPauseRef = useRef(onPause)
   const onErrorRef = useRef(onError)
+  const onProgressRef = useRef(onProgress)
   const mediaSrc = useMemo(() => combinationApiResource(src), [src])
+  const playback = useMemo(
+    () => resolveVideoPlaybackSource({ src: mediaSrc, hlsUrl, hlsFailed }),
+    [mediaSrc, hlsUrl, hlsFailed]
+  )
   const longPressPlaybackRate = useVideoLongPressPlaybackRate()
   const seekStepSeconds = useVideoSeekStepSeconds()
   const isDesktop = useMediaQuery('(min-width: 1024px)')
@@ -176,6 +224,7 @@ export function VideoPlayer({
     error: keyframesError,
     reload: reloadKeyframes
   } = useVideoKeyframes(keyframesUrl)
+  const { tracks: subtitleTracks } = useVideoSubtitles(subtitlesUrl)
   const currentChapter = useCurrentChapter(chapters, currentTime)
   const currentKeyframe = useMemo(() => getNearestVideoKeyframe(keyframes, currentTime), [keyframes, currentTime])
   const { previous: previousChapter, next: nextChapter } = useMemo(
@@ -257,7 +306,8 @@ export function VideoPlayer({
     onPlayRef.current = onPlay
     onPauseRef.current = onPause
     onErrorRef.current = onError
-  }, [onPlay, onPause, onError])
+    onProgressRef.current = onProgress
+  }, [onPlay, onPause, onError, onProgress])
 
   useEffect(() => {
     hasStartedPlayingRef.current = false
@@ -278,7 +328,9 @@ export function VideoPlayer({
     wasPlayingBeforeErrorRef.current = false
     errorRetrySnapshotRef.current = { time: 0, shouldPlay: false }
     pendingRetryRef.current = null
-  }, [mediaSrc])
+    setHlsFailed(false)
+    setResumeOffered(true)
+  }, [mediaSrc, hlsUrl])
 
   useEffect(() => {
     let active = true
@@ -286,6 +338,33 @@ export function VideoPlayer({
     let cleanupPlayer: (() => void) | null = null
     let handleFullscreenWeb: ((enabled: boolean) => void) | null = null
     let handleControl: ((visible: boolean) => void) | null = null
+    let hls: HlsType | null = null
+
+    // HLS 失败时从当前进度切回原文件，由 ready 事件恢复进度与播放状态
+    const fallbackToSource = () => {
+      if (!active) return
+      pendingRetryRef.current = { time: lastConfirmedTimeRef.current, shouldPlay: wasPlayingBeforeErrorRef.current }
+      setHlsFailed(true)
+    }
+
+    const attachHls = async (video: HTMLVideoElement, url: string) => {
+      if (canPlayHlsNatively(video)) {
+        video.src = url
+        return
+      }
+      const { default: Hls } = await import('hls.js')
+      if (!active) return
+      if (!Hls.isSupported()) {
+        fallbackToSource()
+        return
+      }
+      hls = new Hls()
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) fallbackToSource()
+      })
+      hls.loadSource(url)
+      hls.attachMedia(video)
+    }
 
     async function initPlayer() {
       if (!playerContainerRef.current) {
@@ -299,7 +378,13 @@ export function VideoPlayer({
 
       instance = new Artplayer({
         container: playerContainerRef.current,
-        url: mediaSrc,
+        url: playback.url,
+        ...(playback.type
+          ? {
+              type: playback.type,
+              customType: { m3u8: (video: HTMLVideoElement, url: string) => attachHls(video, url) }
+            }
+          : {}),
         autoplay: autoPlay,
         autoSize: false,
         loop,
@@ -420,6 +505,7 @@ export function VideoPlayer({
         hasStartedPlayingRef.current = true
         wasPlayingBeforeErrorRef.current = true
         setIsPlaying(true)
+        setResumeOffered(false)
         onPlayRef.current?.()
       })
 
@@ -458,6 +544,9 @@ export function VideoPlayer({
         if (video?.readyState && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
           lastConfirmedTimeRef.current = Math.max(nextTime, 0)
           clearLoading()
+          if (hasStartedPlayingRef.current) {
+            onProgressRef.current?.(lastConfirmedTimeRef.current, Number.isFinite(art.duration) ? art.duration : 0)
+          }
         }
       })
       art.on('video:loadstart', () => {
@@ -476,10 +565,12 @@ export function VideoPlayer({
         wasPlayingBeforeErrorRef.current = true
       })
       art.on('error', () => {
-        showVideoError()
+        if (playback.type) fallbackToSource()
+        else showVideoError()
       })
       art.on('video:error', () => {
-        showVideoError()
+        if (playback.type) fallbackToSource()
+        else showVideoError()
       })
     }
 
@@ -506,6 +597,7 @@ export function VideoPlayer({
       const chapterOverlayPlugin = chapterOverlayPluginRef.current
       chapterOverlayPluginRef.current = null
       chapterOverlayPlugin?.destroy()
+      hls?.destroy()
       cleanupPlayer?.()
       if (artRef.current === instance) {
         artRef.current = null
@@ -515,8 +607,9 @@ export function VideoPlayer({
     autoPlay,
     longPressPlaybackRate,
     loop,
-    mediaSrc,
     muted,
+    playback.type,
+    playback.url,
     playerAttempt,
     preload,
     seekStepSeconds,
@@ -599,6 +692,46 @@ export function VideoPlayer({
     reloadKeyframes
   ])
 
+  // 字幕列表异步加载，加载完成后再挂到已创建的播放器设置面板，避免重建播放器
+  useEffect(() => {
+    const art = artInstance
+    if (!art || subtitleTracks.length === 0) return
+
+    const applyTrack = (track: VideoSubtitleTrack | null) => {
+      if (!track) {
+        art.subtitle.show = false
+        return
+      }
+      void art.subtitle
+        .switch(track.url, { type: 'vtt', name: track.label })
+        .then(() => {
+          if (!art.isDestroy) art.subtitle.show = true
+        })
+        .catch(() => undefined)
+    }
+    const initialTrack = subtitleTracks.find((track) => track.isDefault) ?? null
+    art.setting.add({
+      name: subtitleSettingName,
+      html: '字幕',
+      tooltip: initialTrack?.label ?? '关闭',
+      selector: [
+        { html: '关闭', default: !initialTrack, track: null },
+        ...subtitleTracks.map((track) => ({ html: track.label, default: track === initialTrack, track }))
+      ],
+      onSelect(item) {
+        applyTrack((item as { track?: VideoSubtitleTrack | null }).track ?? null)
+        return item.html
+      }
+    })
+    applyTrack(initialTrack)
+
+    return () => {
+      if (art.isDestroy) return
+      if (art.setting.find(subtitleSettingName)) art.setting.remove(subtitleSettingName)
+      art.subtitle.show = false
+    }
+  }, [artInstance, subtitleTracks])
+
   useEffect(() => {
     if (!artInstance) {
       return
@@ -752,6 +885,15 @@ export function VideoPlayer({
     }
   }, [])
 
+  const resumePlayback = () => {
+    const art = artRef.current
+    if (!art || !resumeTime) return
+
+    seekTo(resumeTime)
+    setResumeOffered(false)
+    void art.play().catch(() => undefined)
+  }
+
   const retryVideo = (fromStart: boolean) => {
     pendingRetryRef.current = {
       time: fromStart ? 0 : errorRetrySnapshotRef.current.time,
@@ -786,6 +928,21 @@ export function VideoPlayer({
         </div>
       )}
 
+      {resumeOffered && !error && !loading && shouldOfferVideoResume(resumeTime, duration) && (
+        <div className="absolute bottom-14 left-1/2 z-40 -translate-x-1/2">
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            className="rounded-full shadow-floating"
+            onClick={resumePlayback}
+          >
+            <PlayIcon className="mr-1.5 h-4 w-4" aria-hidden="true" />
+            继续播放 {formatVideoTimestamp(resumeTime ?? 0)}
+          </Button>
+        </div>
+      )}
+
       {gestureFeedback && !error && (
         <div
           className="pointer-events-none absolute inset-0 z-30 flex items-center justify-center px-6"
@@ -8,5 +8,6 @@ export {
   useArtworkMediaAnchorInterval,
   useMediaPrivacyMode,
   useVideoLongPressPlaybackRate,
-  useVideoSeekStepSeconds
+  useVideoSeekStepSeconds,
+  useViewHistoryRetentionDays
 } from './user-setting-provider'
@@ -8,6 +8,7 @@ import type {
   ArtworkMediaAnchorInterval,
   VideoLongPressPlaybackRate,
   VideoSeekStepSeconds,
+  ViewHistoryRetentionDays,
   UserSettings,
   UserSettingsWithDefaults
 } from '@/schemas/user-setting.dto'
@@ -131,4 +132,8 @@ export function useVideoSeekStepSeconds(): VideoSeekStepSeconds {
   return useUserSettingValue('video_seek_step_seconds')
 }
 
+export function useViewHistoryRetentionDays(): ViewHistoryRetentionDays {
+  return useUserSettingValue('view_history_retention_days')
+}
+
 export { useUserSettingsStore }
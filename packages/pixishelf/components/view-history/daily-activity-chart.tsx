@@ -0,0 +1,46 @@
+import { cn, formatDuration } from '@/lib/utils'
+import type { ViewStatsDailyActivity } from '@/schemas/view-history.dto'
+
+interface DailyActivityChartProps {
+  data: ViewStatsDailyActivity[]
+  className?: string
+}
+
+/**
+ * 每日浏览活跃柱状图：柱高为当天停留时长，悬停显示日期、时长与浏览次数
+ */
+export function DailyActivityChart({ data, className }: DailyActivityChartProps) {
+  const maxDuration = Math.max(...data.map((item) => item.durationSec), 1)
+  const first = data[0]
+  const last = data[data.length - 1]
+
+  return (
+    <figure className={cn('flex min-w-0 flex-col gap-2', className)}>
+      <div role="list" aria-label="每日浏览活跃" className="flex h-28 items-end gap-px">
+        {data.map((item) => {
+          const label = `${item.date}：${formatDuration(item.durationSec)} · ${item.viewCount} 次浏览`
+          return (
+            <div
+              key={item.date}
+              role="listitem"
+              title={label}
+              aria-label={label}
+              className="flex h-full min-w-0 flex-1 items-end rounded-t-sm bg-muted/40"
+            >
+              <div
+                className={cn('w-full rounded-t-sm', item.durationSec > 0 ? 'bg-primary/80' : 'bg-transparent')}
+                style={{ height: `${Math.max((item.durationSec / maxDuration) * 100, item.durationSec > 0 ? 4 : 0)}%` }}
+              />
+            </div>
+          )
+        })}
+      </div>
+      {first && last && (
+        <figcaption className="font-utility flex justify-between text-xs text-muted-foreground tabular-nums">
+          <span>{first.date}</span>
+          <span>{last.date}</span>
+        </figcaption>
+      )}
+    </figure>
+  )
+}
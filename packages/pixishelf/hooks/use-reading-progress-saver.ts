@@ -0,0 +1,70 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useTRPCClient } from '@/lib/trpc'
+import type { ReadingProgressSaveSchema } from '@/schemas/reading-progress.dto'
+
+/** 翻页后稍作停留再保存，快速滑动时只记录最终位置 */
+export const READING_PROGRESS_INDEX_DELAY_MS = 1500
+/** 视频播放中按固定间隔保存进度 */
+export const READING_PROGRESS_VIDEO_INTERVAL_MS = 10_000
+
+/**
+ * 阅读进度回写：只保留最新一次快照，定时器到期或页面隐藏、卸载时提交，内容未变化时跳过。
+ * - restart 为 true 时重新计时（翻页防抖）；为 false 时沿用已有定时器（播放节流）
+ */
+export function useReadingProgressSaver(enabled: boolean) {
+  const trpcClient = useTRPCClient()
+  const pendingRef = useRef<ReadingProgressSaveSchema | null>(null)
+  const lastSavedRef = useRef<string | null>(null)
+  const timerRef = useRef<number | null>(null)
+  const enabledRef = useRef(enabled)
+
+  enabledRef.current = enabled
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+    const pending = pendingRef.current
+    if (!pending || !enabledRef.current) return
+    const serialized = JSON.stringify(pending)
+    if (serialized === lastSavedRef.current) return
+    lastSavedRef.current = serialized
+    void trpcClient.readingProgress.save.mutate(pending).catch(() => {
+      lastSavedRef.current = null
+    })
+  }, [trpcClient])
+
+  const schedule = useCallback(
+    (snapshot: ReadingProgressSaveSchema, delay: number, restart: boolean) => {
+      if (!enabledRef.current) return
+      // 切换到另一个作品前先提交上一作品的进度
+      if (pendingRef.current && pendingRef.current.artworkId !== snapshot.artworkId) flush()
+      pendingRef.current = snapshot
+      if (timerRef.current !== null) {
+        if (!restart) return
+        window.clearTimeout(timerRef.current)
+      }
+      timerRef.current = window.setTimeout(flush, delay)
+    },
+    [flush]
+  )
+
+  useEffect(() => {
+    const handlePageHide = () => flush()
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush()
+    }
+    window.addEventListener('pagehide', handlePageHide)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      flush()
+    }
+  }, [flush])
+
+  return { schedule, flush }
+}
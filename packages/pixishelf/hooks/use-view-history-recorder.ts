@@ -0,0 +1,114 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useTRPCClient } from '@/lib/trpc'
+import type { ViewHistorySource } from '@/schemas/view-history.dto'
+
+/** 停留超过该时长才记为一次浏览，快速划过的作品不进入历史 */
+export const VIEW_HISTORY_START_DELAY_MS = 2000
+/** 浏览期间的心跳间隔 */
+export const VIEW_HISTORY_HEARTBEAT_MS = 30_000
+/** 相邻两次播放进度的差值超过该秒数视为拖动进度条，不计入观看时长 */
+const VIDEO_WATCH_MAX_STEP_SEC = 2
+
+interface ViewSession {
+  id: Promise<number | null> | null
+  media: Set<number>
+  visibleSince: number | null
+  pendingDurationMs: number
+  pendingVideoSec: number
+  sentMediaViewed: number
+}
+
+/**
+ * 浏览历史记录：作品停留一段时间后开始一次浏览，按心跳上报页面可见时长、看过的媒体数和视频观看时长。
+ * - artworkId 为 null 时不记录（未登录或没有当前作品）
+ * @returns markMedia 标记看过的媒体序号；reportVideoTime 上报视频播放进度
+ */
+export function useViewHistoryRecorder(artworkId: number | null, source: ViewHistorySource) {
+  const trpcClient = useTRPCClient()
+  const sessionRef = useRef<ViewSession | null>(null)
+  const videoTimesRef = useRef(new Map<number, number>())
+
+  useEffect(() => {
+    if (artworkId === null) return
+
+    const session: ViewSession = {
+      id: null,
+      media: new Set(),
+      visibleSince: document.visibilityState === 'visible' ? Date.now() : null,
+      pendingDurationMs: 0,
+      pendingVideoSec: 0,
+      sentMediaViewed: 0
+    }
+    sessionRef.current = session
+    videoTimesRef.current.clear()
+
+    const collectVisibleTime = () => {
+      const now = Date.now()
+      if (session.visibleSince !== null) session.pendingDurationMs += now - session.visibleSince
+      session.visibleSince = document.visibilityState === 'visible' ? now : null
+    }
+
+    const flush = () => {
+      if (!session.id) return
+      collectVisibleTime()
+      const durationSec = Math.floor(session.pendingDurationMs / 1000)
+      const videoWatchSec = Math.floor(session.pendingVideoSec)
+      const mediaViewed = session.media.size
+      if (durationSec === 0 && videoWatchSec === 0 && mediaViewed === session.sentMediaViewed) return
+
+      session.pendingDurationMs -= durationSec * 1000
+      session.pendingVideoSec -= videoWatchSec
+      session.sentMediaViewed = mediaViewed
+      void session.id
+        .then((id) => {
+          if (id === null) return
+          return trpcClient.viewHistory.heartbeat.mutate({ id, mediaViewed, durationSec, videoWatchSec })
+        })
+        .catch(() => undefined)
+    }
+
+    const startTimer = window.setTimeout(() => {
+      session.id = trpcClient.viewHistory.start
+        .mutate({ artworkId, source })
+        .then((result) => result?.id ?? null)
+        .catch(() => null)
+    }, VIEW_HISTORY_START_DELAY_MS)
+    const heartbeatTimer = window.setInterval(flush, VIEW_HISTORY_HEARTBEAT_MS)
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        flush()
+      } else if (session.visibleSince === null) {
+        session.visibleSince = Date.now()
+      }
+    }
+    window.addEventListener('pagehide', flush)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      window.clearTimeout(startTimer)
+      window.clearInterval(heartbeatTimer)
+      window.removeEventListener('pagehide', flush)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      flush()
+      if (sessionRef.current === session) sessionRef.current = null
+    }
+  }, [artworkId, source, trpcClient])
+
+  const markMedia = useCallback((mediaIndex: number) => {
+    sessionRef.current?.media.add(mediaIndex)
+  }, [])
+
+  const reportVideoTime = useCallback((mediaId: number, currentTime: number) => {
+    const previous = videoTimesRef.current.get(mediaId)
+    videoTimesRef.current.set(mediaId, currentTime)
+    const session = sessionRef.current
+    if (!session || previous === undefined) return
+    const step = currentTime - previous
+    if (step > 0 && step <= VIDEO_WATCH_MAX_STEP_SEC) session.pendingVideoSec += step
+  }, [])
+
+  return { markMedia, reportVideoTime }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { parseArtworkQuery } from '../artwork-query-language'
+
+describe('parseArtworkQuery', () => {
+  it('compiles every supported field into artwork list filters', () => {
+    const result = parseArtworkQuery(
+      'tag:foo -tag:bar artist:"x y" source:url_archive media:>10 audio:yes date:2024..2025 type:video sunset'
+    )
+
+    expect(result.errors).toEqual([])
+    expect(result.filters).toEqual({
+      tags: ['foo'],
+      excludeTags: ['bar'],
+      artistName: 'x y',
+      sources: ['URL_ARCHIVE'],
+      mediaCountMin: 11,
+      mediaCountMax: undefined,
+      hasAudio: 'yes',
+      startDate: '2024-01-01',
+      endDate: '2025-12-31',
+      mediaType: 'video',
+      search: 'sunset'
+    })
+  })
+
+  it('expands month precision and open-ended ranges', () => {
+    expect(parseArtworkQuery('created:2024-02').filters).toMatchObject({
+      createdStartDate: '2024-02-01',
+      createdEndDate: '2024-02-29'
+    })
+    expect(parseArtworkQuery('date:..2023-06-15').filters).toMatchObject({
+      startDate: undefined,
+      endDate: '2023-06-15'
+    })
+    expect(parseArtworkQuery('media:3..').filters).toMatchObject({ mediaCountMin: 3, mediaCountMax: undefined })
+    expect(parseArtworkQuery('media:<=5').filters).toMatchObject({ mediaCountMin: undefined, mediaCountMax: 5 })
+    expect(parseArtworkQuery('media:4').filters).toMatchObject({ mediaCountMin: 4, mediaCountMax: 4 })
+  })
+
+  it('keeps unknown keys, quoted phrases and escaped quotes as plain keywords', () => {
+    const result = parseArtworkQuery('Re:Zero "night \\"city\\"" https://example.com/a -draft')
+
+    expect(result.errors).toEqual([])
+    expect(result.filters).toEqual({ search: 'Re:Zero night "city" https://example.com/a -draft' })
+  })
+
+  it('reports invalid values with the offsets of the value', () => {
+    const input = 'tag:ok media:lots audio:maybe'
+    const { errors, filters } = parseArtworkQuery(input)
+
+    expect(filters).toEqual({ tags: ['ok'] })
+    expect(errors).toHaveLength(2)
+    expect(input.slice(errors[0]!.start, errors[0]!.end)).toBe('lots')
+    expect(input.slice(errors[1]!.start, errors[1]!.end)).toBe('maybe')
+  })
+
+  it('rejects negation, missing values, duplicates and unterminated quotes', () => {
+    expect(parseArtworkQuery('-artist:x').errors).toEqual([expect.objectContaining({ start: 0, end: 1 })])
+    expect(parseArtworkQuery('tag: cat').errors).toEqual([expect.objectContaining({ start: 0, end: 4 })])
+    expect(parseArtworkQuery('date:2024 date:2025').errors).toEqual([expect.objectContaining({ start: 15, end: 19 })])
+    expect(parseArtworkQuery('date:2025..2024').errors).toHaveLength(1)
+    expect(parseArtworkQuery('tag:a artist:"open').errors).toEqual([
+      expect.objectContaining({ message: '引号未闭合', start: 13, end: 18 })
+    ])
+  })
+})
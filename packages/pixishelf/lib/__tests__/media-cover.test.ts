@@ -28,6 +28,10 @@ describe('media cover helpers', () => {
     expect(resolveMediaCoverUrl({ path: '/artist/work/video.webm', mediaType: 'UNKNOWN' })).toBeNull()
   })
 
+  it('does not hand ugoira frame archives to the image loader', () => {
+    expect(resolveMediaCoverUrl({ path: '/artist/work/118000003.zip', mediaType: 'ANIMATION' })).toBeNull()
+  })
+
   it('recognizes videos by media type or extension', () => {
     expect(isVideoCoverSource({ path: '/artist/work/file.bin', mediaType: 'video' })).toBe(true)
     expect(isVideoCoverSource({ path: '/artist/work/file.mp4' })).toBe(true)
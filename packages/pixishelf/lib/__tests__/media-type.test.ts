@@ -7,6 +7,7 @@ describe('inferMediaTypeFromPath', () => {
     ['/artist/work/video.mp4?version=2', 'VIDEO'],
     ['/artist/work/animation.apng', 'ANIMATION'],
     ['/artist/work/animation.GIF', 'ANIMATION'],
+    ['/artist/work/118000003_ugoira600x600.zip', 'ANIMATION'],
     ['/artist/work/page.webp', 'IMAGE'],
     ['/artist/work/page.jpg', 'IMAGE'],
     ['/artist/work/archive.bin', 'UNKNOWN']
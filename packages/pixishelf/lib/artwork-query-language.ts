@@ -0,0 +1,276 @@
+import dayjs from 'dayjs'
+import customParseFormat from 'dayjs/plugin/customParseFormat'
+import { ESource } from '@/enums/e-source'
+
+dayjs.extend(customParseFormat)
+
+/**
+ * 作品列表结构化查询语句
+ *
+ * @description
+ * 把 `tag:foo -tag:bar artist:"x" source:url_archive media:>10 audio:yes date:2024..2025` 这样的单行查询
+ * 解析为与 ArtworksInfiniteQuerySchema 同名的筛选字段，再交给 query-builder 编译成同一组 SQL 条件。
+ * 解析器不依赖服务端模块，搜索框可以在本地解析并按位置高亮错误。
+ *
+ * - 未识别的 `key:value` 视为普通关键词（如 `Re:Zero`、URL），不会报错
+ * - 值中含空格时使用双引号，`\"` 转义引号
+ * - 仅 `tag` 支持 `-` 取反；单值字段重复出现会报错
+ */
+export interface ArtworkQueryFilters {
+  search?: string
+  tags?: string[]
+  excludeTags?: string[]
+  artistName?: string
+  sources?: ESource[]
+  mediaType?: 'image' | 'video'
+  hasAudio?: 'yes' | 'no' | 'unknown'
+  mediaCountMin?: number
+  mediaCountMax?: number
+  startDate?: string
+  endDate?: string
+  createdStartDate?: string
+  createdEndDate?: string
+}
+
+export interface ArtworkQueryParseError {
+  message: string
+  /** 错误片段在原始查询中的起始偏移（含） */
+  start: number
+  /** 错误片段在原始查询中的结束偏移（不含） */
+  end: number
+}
+
+export interface ArtworkQueryParseResult {
+  filters: ArtworkQueryFilters
+  errors: ArtworkQueryParseError[]
+}
+
+interface QueryToken {
+  negated: boolean
+  key: string | null
+  value: string
+  start: number
+  end: number
+  /** 值部分在原始查询中的起始偏移 */
+  valueStart: number
+}
+
+type FieldHandler = (token: QueryToken, filters: ArtworkQueryFilters) => string | null
+
+const DATE_FORMATS = ['YYYY-MM-DD', 'YYYY-MM', 'YYYY'] as const
+
+const FIELD_HANDLERS: Record<string, FieldHandler> = {
+  tag: (token, filters) => {
+    const key = token.negated ? 'excludeTags' : 'tags'
+    filters[key] = Array.from(new Set([...(filters[key] ?? []), token.value]))
+    return null
+  },
+  artist: (token, filters) => {
+    if (filters.artistName !== undefined) return '艺术家条件只能出现一次'
+    filters.artistName = token.value
+    return null
+  },
+  source: (token, filters) => {
+    const source = Object.values(ESource).find((value) => value === token.value.toUpperCase())
+    if (!source) return `未知来源「${token.value}」，可选：${Object.values(ESource).join(', ').toLowerCase()}`
+    filters.sources = Array.from(new Set([...(filters.sources ?? []), source]))
+    return null
+  },
+  type: (token, filters) => {
+    const mediaType = token.value.toLowerCase()
+    if (mediaType !== 'image' && mediaType !== 'video') return '媒体类型只支持 image 或 video'
+    if (filters.mediaType !== undefined) return '媒体类型条件只能出现一次'
+    filters.mediaType = mediaType
+    return null
+  },
+  audio: (token, filters) => {
+    const hasAudio = token.value.toLowerCase()
+    if (hasAudio !== 'yes' && hasAudio !== 'no' && hasAudio !== 'unknown') return '音频条件只支持 yes、no 或 unknown'
+    if (filters.hasAudio !== undefined) return '音频条件只能出现一次'
+    filters.hasAudio = hasAudio
+    return null
+  },
+  media: (token, filters) => {
+    if (filters.mediaCountMin !== undefined || filters.mediaCountMax !== undefined) return '媒体数量条件只能出现一次'
+    const range = parseCountRange(token.value)
+    if (!range) return '媒体数量格式应为 10、>10、<=5 或 3..10'
+    filters.mediaCountMin = range.min
+    filters.mediaCountMax = range.max
+    return null
+  },
+  date: (token, filters) => {
+    if (filters.startDate !== undefined || filters.endDate !== undefined) return '原始时间条件只能出现一次'
+    const range = parseDateRange(token.value)
+    if (!range) return '日期格式应为 2024、2024-05、2024-05-01 或 2024..2025'
+    filters.startDate = range.start
+    filters.endDate = range.end
+    return null
+  },
+  created: (token, filters) => {
+    if (filters.createdStartDate !== undefined || filters.createdEndDate !== undefined) {
+      return '入库时间条件只能出现一次'
+    }
+    const range = parseDateRange(token.value)
+    if (!range) return '日期格式应为 2024、2024-05、2024-05-01 或 2024..2025'
+    filters.createdStartDate = range.start
+    filters.createdEndDate = range.end
+    return null
+  }
+}
+
+/**
+ * 解析结构化查询语句；出错的片段会被跳过，其余条件照常生效
+ */
+export function parseArtworkQuery(input: string): ArtworkQueryParseResult {
+  const filters: ArtworkQueryFilters = {}
+  const { tokens, errors } = tokenize(input)
+  const searchTerms: string[] = []
+
+  for (const token of tokens) {
+    const handler = token.key ? FIELD_HANDLERS[token.key] : undefined
+
+    if (!handler) {
+      if (token.value) searchTerms.push(token.value)
+      continue
+    }
+    if (token.negated && token.key !== 'tag') {
+      errors.push({ message: `「${token.key}」不支持取反`, start: token.start, end: token.start + 1 })
+      continue
+    }
+    if (!token.value) {
+      errors.push({ message: `「${token.key}」缺少取值`, start: token.start, end: token.end })
+      continue
+    }
+
+    const message = handler(token, filters)
+    if (message) errors.push({ message, start: token.valueStart, end: token.end })
+  }
+
+  if (searchTerms.length > 0) filters.search = searchTerms.join(' ')
+  errors.sort((left, right) => left.start - right.start)
+
+  return { filters, errors }
+}
+
+function tokenize(input: string) {
+  const tokens: QueryToken[] = []
+  const errors: ArtworkQueryParseError[] = []
+  let index = 0
+
+  while (index < input.length) {
+    if (/\s/.test(input[index]!)) {
+      index++
+      continue
+    }
+
+    const start = index
+    const negated = input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1]!)
+    if (negated) index++
+
+    let key: string | null = null
+    const keyMatch = /^([A-Za-z]+):/.exec(input.slice(index))
+    if (keyMatch && FIELD_HANDLERS[keyMatch[1]!.toLowerCase()]) {
+      key = keyMatch[1]!.toLowerCase()
+      index += keyMatch[0].length
+    }
+
+    const valueStart = index
+    let value = ''
+    if (input[index] === '"') {
+      const quoted = readQuoted(input, index)
+      if (!quoted) {
+        errors.push({ message: '引号未闭合', start: index, end: input.length })
+        break
+      }
+      value = quoted.value
+      index = quoted.end
+    } else {
+      while (index < input.length && !/\s/.test(input[index]!)) index++
+      value = input.slice(valueStart, index)
+    }
+
+    // 未识别字段的取反原样保留在关键词里
+    if (negated && !key) {
+      tokens.push({ negated: false, key: null, value: input.slice(start, index), start, end: index, valueStart: start })
+      continue
+    }
+
+    tokens.push({ negated, key, value: value.trim(), start, end: index, valueStart })
+  }
+
+  return { tokens, errors }
+}
+
+function readQuoted(input: string, quoteIndex: number) {
+  let value = ''
+  let index = quoteIndex + 1
+
+  while (index < input.length) {
+    const char = input[index]!
+    if (char === '\\' && input[index + 1] === '"') {
+      value += '"'
+      index += 2
+      continue
+    }
+    if (char === '"') return { value, end: index + 1 }
+    value += char
+    index++
+  }
+
+  return null
+}
+
+function parseCountRange(value: string): { min?: number; max?: number } | null {
+  const toCount = (text: string) => (/^\d+$/.test(text) ? Number(text) : null)
+
+  const comparison = /^(>=|<=|>|<)(\d+)$/.exec(value)
+  if (comparison) {
+    const count = Number(comparison[2])
+    switch (comparison[1]) {
+      case '>':
+        return { min: count + 1 }
+      case '>=':
+        return { min: count }
+      case '<':
+        return count === 0 ? null : { max: count - 1 }
+      default:
+        return { max: count }
+    }
+  }
+
+  if (value.includes('..')) {
+    const [minText = '', maxText = ''] = value.split('..')
+    const min = minText ? toCount(minText) : undefined
+    const max = maxText ? toCount(maxText) : undefined
+    if (min === null || max === null || (min === undefined && max === undefined)) return null
+    if (min !== undefined && max !== undefined && min > max) return null
+    return { min, max }
+  }
+
+  const count = toCount(value)
+  return count === null ? null : { min: count, max: count }
+}
+
+/**
+ * 日期区间两端按精度展开：起点取该年/月的第一天，终点取最后一天（query-builder 的结束日期为闭区间）
+ */
+function parseDateRange(value: string): { start?: string; end?: string } | null {
+  const [startText = '', endText = startText] = value.includes('..') ? value.split('..') : [value]
+  const start = startText ? parseDateBound(startText, 'start') : undefined
+  const end = endText ? parseDateBound(endText, 'end') : undefined
+
+  if (start === null || end === null || (start === undefined && end === undefined)) return null
+  if (start !== undefined && end !== undefined && start > end) return null
+  return { start, end }
+}
+
+function parseDateBound(text: string, bound: 'start' | 'end') {
+  for (const format of DATE_FORMATS) {
+    const date = dayjs(text, format, true)
+    if (!date.isValid()) continue
+    if (format === 'YYYY-MM-DD') return date.format('YYYY-MM-DD')
+    const unit = format === 'YYYY' ? 'year' : 'month'
+    return (bound === 'start' ? date.startOf(unit) : date.endOf(unit)).format('YYYY-MM-DD')
+  }
+  return null
+}
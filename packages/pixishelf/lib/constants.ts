@@ -17,10 +17,15 @@ export const ROUTES = {
   ADMINSETTING: '/admin/setting',
   ADMINSTATS: '/admin/statistics',
   TAGS: '/tags',
+  SEARCH: '/search',
+  COLLECTIONS: '/collections',
   VIEWER: '/viewer',
+  HISTORY: '/history',
   CHANGE_PASSWORD: '/change-password',
   SETTINGS_PROFILE: '/settings/profile',
-  SETTINGS_PREFERENCES: '/settings/preferences'
+  SETTINGS_PREFERENCES: '/settings/preferences',
+  SETTINGS_FEEDS: '/settings/feeds',
+  SETTINGS_EXTENSION: '/settings/extension'
 } as const
 
 /**
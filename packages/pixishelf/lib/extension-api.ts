@@ -0,0 +1,35 @@
+import 'server-only'
+
+import { NextResponse } from 'next/server'
+import { authenticateAccessToken } from '@/services/access-token-service'
+
+/**
+ * 浏览器扩展从扩展自身的来源发起请求，只携带 Bearer 令牌、不带 Cookie，
+ * 因此放开来源不会扩大登录会话的暴露面。
+ */
+const EXTENSION_CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Max-Age': '86400'
+}
+
+export function withExtensionCors<T extends Response>(response: T): T {
+  for (const [name, value] of Object.entries(EXTENSION_CORS_HEADERS)) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+export function extensionPreflight() {
+  return new NextResponse(null, { status: 204, headers: EXTENSION_CORS_HEADERS })
+}
+
+/**
+ * 校验 Authorization: Bearer <扩展令牌>，返回令牌所属用户
+ */
+export async function authenticateExtensionRequest(request: Request): Promise<string | null> {
+  const header = request.headers.get('Authorization')
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match ? authenticateAccessToken(match[1]!, 'INGEST') : null
+}
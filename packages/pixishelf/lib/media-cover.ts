@@ -1,4 +1,4 @@
-import { isVideoFile } from '@/lib/media'
+import { isUgoiraArchiveFile, isVideoFile } from '@/lib/media'
 import { buildDerivedMediaPublicUrl } from '@/lib/derived-media'
 
 export const VIDEO_POSTER_METADATA_SELECT = {
@@ -41,5 +41,10 @@ export function resolveMediaCoverUrl(media?: MediaCoverSource | null): string |
     return media.posterUrl || null
   }
 
+  // ugoira 原始 zip 无法作为图片展示，转换结果是 WebM，同样没有可直接使用的封面
+  if (isUgoiraArchiveFile(media.path)) {
+    return null
+  }
+
   return media.path
 }
@@ -1,5 +1,5 @@
 import type { MediaType } from '@prisma/client'
-import { getFileExtension, isApngFile, isGifFile, isImageFile, isVideoFile } from '@/lib/media'
+import { getFileExtension, isApngFile, isGifFile, isImageFile, isUgoiraArchiveFile, isVideoFile } from '@/lib/media'
 
 const ANIMATION_CONTENT_SCAN_EXTENSIONS = new Set(['.webp', '.gif', '.png', '.apng'])
 
@@ -7,10 +7,11 @@ const ANIMATION_CONTENT_SCAN_EXTENSIONS = new Set(['.webp', '.gif', '.png', '.ap
  * 根据入库路径确定数据库媒体类型。
  *
  * 这里只做可重复、低成本的扩展名分类；视频的编码、音频等信息仍由媒体探测任务处理。
+ * zip 只有在扫描确认带有帧时间信息后才会入库，因此入库的 zip 一律视为 ugoira 动图。
  */
 export function inferMediaTypeFromPath(mediaPath: string): MediaType {
   if (isVideoFile(mediaPath)) return 'VIDEO'
-  if (isApngFile(mediaPath) || isGifFile(mediaPath)) return 'ANIMATION'
+  if (isApngFile(mediaPath) || isGifFile(mediaPath) || isUgoiraArchiveFile(mediaPath)) return 'ANIMATION'
   if (isImageFile(mediaPath)) return 'IMAGE'
   return 'UNKNOWN'
 }
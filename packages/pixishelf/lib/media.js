@@ -73,3 +73,10 @@ export const isWebpFile = (src) => /\.webp$/i.test(src || '')
  * @returns
  */
 export const isGifFile = (src) => /\.gif$/i.test(src || '')
+
+/**
+ * 判断文件是否为 Pixiv 动图（ugoira）帧压缩包
+ * @param {*} src
+ * @returns
+ */
+export const isUgoiraArchiveFile = (src) => /\.zip$/i.test(src || '')
@@ -1,6 +1,8 @@
 import { createSafeActionClient, DEFAULT_SERVER_ERROR_MESSAGE } from 'next-safe-action'
 import { auth } from './auth'
 import { headers } from 'next/headers'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
 
 // 定义一个错误类
 export class ActionError extends Error {
@@ -16,7 +18,7 @@ export const actionClient = createSafeActionClient({
     // 可在此记录仅供开发者查看的详细错误日志。
     // logger.error('Action error:', e)
 
-    if (e instanceof ActionError) {
+    if (e instanceof ActionError || e instanceof MaintenanceModeActiveError) {
       return e.message
     }
 
@@ -36,3 +38,11 @@ export const authActionClient = actionClient.use(async ({ next }) => {
 
   return next({ ctx: { userId: session.user.id } })
 })
+
+/**
+ * 会写入数据的 Action 入口：维护模式期间在执行前拒绝
+ */
+export const authWriteActionClient = authActionClient.use(async ({ next }) => {
+  await assertWritable()
+  return next()
+})
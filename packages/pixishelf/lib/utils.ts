@@ -123,3 +123,17 @@ export function formatTime(seconds: number): string {
   }
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
 }
+
+/**
+ * 格式化时长（秒 -> “x 小时 y 分钟”），用于浏览统计等粗粒度展示
+ * @param seconds - 秒数
+ * @returns 不足 1 分钟时返回“不到 1 分钟”
+ */
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.floor(seconds / 60)
+  if (totalMinutes < 1) return seconds > 0 ? '不到 1 分钟' : '0 分钟'
+  const h = Math.floor(totalMinutes / 60)
+  const m = totalMinutes % 60
+  if (h === 0) return `${m} 分钟`
+  return m > 0 ? `${h} 小时 ${m} 分钟` : `${h} 小时`
+}
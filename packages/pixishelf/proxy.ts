@@ -8,8 +8,16 @@ import { rateLimiter } from './lib/rate-limit'
 
 /**
  * 公开访问的路径模式（不需要认证）
+ * /api/opds 由路由自行校验订阅令牌，/api/extension 由路由自行校验扩展令牌
  */
-const PUBLIC_PATHS = ['/', '/login', '/api/webhooks/scan', '/api/internal/scheduler/tick']
+const PUBLIC_PATHS = [
+  '/',
+  '/login',
+  '/api/webhooks/scan',
+  '/api/internal/scheduler/tick',
+  '/api/opds',
+  '/api/extension'
+]
 
 /**
  * 检查路径是否匹配模式
@@ -0,0 +1,8 @@
+import { z } from 'zod'
+
+/**
+ * 用户访问令牌用途
+ * @description 与 Prisma UserAccessTokenScope 保持一致；每个用途每位用户只保留一枚令牌。
+ */
+export const AccessTokenScopeSchema = z.enum(['FEED', 'INGEST'])
+export type AccessTokenScope = z.infer<typeof AccessTokenScopeSchema>
@@ -0,0 +1,87 @@
+import { z } from 'zod'
+import { ARTWORK_EXPORT_FORMAT_VALUES } from '@pixishelf/job-contracts'
+
+/** 单次导出的作品上限，与 Worker 端 DEFAULT_MAX_EXPORT_ARTWORKS 保持一致 */
+export const ARTWORK_EXPORT_MAX_ARTWORKS = 500
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .nullish()
+
+export const ArtworkExportSelectionInputSchema = z.discriminatedUnion('mode', [
+  z.object({
+    mode: z.literal('ARTWORK_IDS'),
+    artworkIds: z.array(z.number().int().positive()).min(1, '请至少选择一个作品').max(ARTWORK_EXPORT_MAX_ARTWORKS)
+  }),
+  z.object({ mode: z.literal('SERIES'), seriesId: z.number().int().positive() }),
+  z.object({
+    mode: z.literal('QUERY'),
+    filters: z.object({
+      search: z.string().nullish(),
+      artistName: z.string().nullish(),
+      startDate: dateSchema,
+      endDate: dateSchema,
+      externalId: z.string().nullish(),
+      mediaTypes: z.string().nullish(),
+      exactMatch: z.boolean().optional()
+    })
+  })
+])
+
+export type ArtworkExportSelectionInput = z.infer<typeof ArtworkExportSelectionInputSchema>
+
+export const ArtworkExportCreateSchema = z.object({
+  selection: ArtworkExportSelectionInputSchema,
+  format: z.enum(ARTWORK_EXPORT_FORMAT_VALUES).default('CBZ'),
+  /** 文件保留时长，过期后由衍生媒体清理任务删除 */
+  retentionHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 30)
+    .default(72),
+  label: z.string().trim().max(200).optional()
+})
+
+export type ArtworkExportCreateSchema = z.input<typeof ArtworkExportCreateSchema>
+
+export const ArtworkExportListQuerySchema = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(20)
+})
+
+export type ArtworkExportListQuerySchema = z.infer<typeof ArtworkExportListQuerySchema>
+
+/**
+ * READY 之前以任务状态为准：任务失败或取消时显示 FAILED，文件过期后显示 EXPIRED
+ */
+export type ArtworkExportDisplayStatus = 'PENDING' | 'READY' | 'FAILED' | 'EXPIRED'
+
+export interface ArtworkExportItem {
+  id: string
+  jobId: string
+  label: string
+  format: string
+  selectionMode: string
+  status: ArtworkExportDisplayStatus
+  requestedCount: number
+  artworkCount: number
+  fileCount: number
+  skippedCount: number
+  fileName: string | null
+  sizeBytes: number | null
+  error: string | null
+  expiresAt: string | null
+  completedAt: string | null
+  createdAt: string
+  /** 可下载时的地址 */
+  downloadUrl: string | null
+}
+
+export interface ArtworkExportList {
+  items: ArtworkExportItem[]
+  total: number
+  page: number
+  pageSize: number
+}
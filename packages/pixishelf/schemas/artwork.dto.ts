@@ -5,6 +5,7 @@ import { dateToString, nullableDateToString } from './utils'
 import { ArtistResponseDto } from './artist.dto'
 import { EMediaType } from '@/enums/e-media-type'
 import { MEDIA_EXTENSIONS } from '@/lib/constant'
+import { parseArtworkQuery } from '@/lib/artwork-query-language'
 
 const SUPPORTED_MEDIA_EXTENSION_SET = new Set(MEDIA_EXTENSIONS)
 
@@ -77,6 +78,21 @@ export const ArtworksInfiniteQuerySchema = z.object({
     .string()
     .nullish()
     .transform((val) => val?.trim() || ''),
+  /** 结构化查询语句，如 `tag:foo -tag:bar media:>10`，语法见 lib/artwork-query-language.ts */
+  q: z
+    .string()
+    .max(1000)
+    .nullish()
+    .transform((val) => val?.trim() || '')
+    .superRefine((val, context) => {
+      for (const error of parseArtworkQuery(val).errors) {
+        context.addIssue({
+          code: 'custom',
+          message: `${error.message}（位置 ${error.start}-${error.end}）`,
+          params: { start: error.start, end: error.end }
+        })
+      }
+    }),
   artistId: z.coerce.number().int().optional(),
   artistName: z.string().nullish(),
   sources: z
@@ -166,7 +182,7 @@ export type RandomArtworksGetSchema = z.infer<typeof RandomArtworksGetSchema>
 export const ViewerFeedQuerySchema = z.object({
   cursor: z.number().min(1).nullish().default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
-  source: z.enum(['all', 'artist', 'tag']).default('all'),
+  source: z.enum(['all', 'artist', 'tag', 'collection']).default('all'),
   sourceId: z.coerce.number().int().positive().optional(),
   mode: z.enum(['ordered', 'random']).default('random'),
   sortBy: z
@@ -259,6 +275,9 @@ export const ArtworkImageResponseDto = ImageModel.extend({
   keyframesUrl: z.string().nullable().optional(),
   hasKeyframes: z.boolean().optional(),
   keyframeCount: z.number().int().nonnegative().optional(),
+  hlsUrl: z.string().nullable().optional(),
+  subtitlesUrl: z.string().nullable().optional(),
+  ugoiraUrl: z.string().nullable().optional(),
   probeStatus: MediaProbeStatusEnum.nullable().optional(),
   probeUpdatedAt: nullableDateToString.optional(),
   probeError: z.string().nullable().optional(),
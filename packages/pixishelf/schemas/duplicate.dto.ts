@@ -0,0 +1,64 @@
+import { z } from 'zod'
+import type { ArtworkCardData } from '@/types'
+
+/**
+ * 感知指纹按 4 段 16 位分桶求候选：汉明距离不超过 3 时至少有一段完全相同，召回是完整的；
+ * 更宽松的阈值只比较至少共享一段的图片，属于尽力而为。
+ */
+export const PERCEPTUAL_HASH_EXACT_RECALL_DISTANCE = 3
+
+export const DuplicateClustersQuerySchema = z.object({
+  maxDistance: z.number().int().min(0).max(10).default(PERCEPTUAL_HASH_EXACT_RECALL_DISTANCE),
+  limit: z.number().int().min(1).max(200).default(50)
+})
+
+export type DuplicateClustersQuerySchema = z.infer<typeof DuplicateClustersQuerySchema>
+
+const artworkIdsSchema = z
+  .array(z.number().int().positive())
+  .min(2, '至少需要两个作品')
+  .max(50)
+  .refine((ids) => new Set(ids).size === ids.length, '作品不能重复')
+
+/**
+ * 保留 canonicalArtworkId，其余作品以 DUPLICATE_OF 指向它
+ */
+export const DuplicateLinkSchema = z
+  .object({
+    canonicalArtworkId: z.number().int().positive(),
+    artworkIds: artworkIdsSchema
+  })
+  .refine((input) => input.artworkIds.includes(input.canonicalArtworkId), {
+    path: ['canonicalArtworkId'],
+    message: '保留的作品必须属于该分组'
+  })
+
+export type DuplicateLinkSchema = z.infer<typeof DuplicateLinkSchema>
+
+export const DuplicateDismissSchema = z.object({
+  artworkIds: artworkIdsSchema
+})
+
+export type DuplicateDismissSchema = z.infer<typeof DuplicateDismissSchema>
+
+export interface DuplicatePair {
+  artworkId: number
+  otherArtworkId: number
+  distance: number
+  matchedImages: number
+}
+
+export interface DuplicateCluster {
+  /** 组内最小作品 ID，作为稳定的分组标识 */
+  key: number
+  /** 组内任意两张图片的最小汉明距离 */
+  distance: number
+  artworks: ArtworkCardData[]
+  pairs: DuplicatePair[]
+}
+
+export interface PerceptualHashCoverage {
+  hashed: number
+  failed: number
+  pending: number
+}
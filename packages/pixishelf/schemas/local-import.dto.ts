@@ -72,6 +72,8 @@ export type StartLocalImportInput = z.infer<typeof startLocalImportSchema>
 export type LocalImportWorkStatus = 'new' | 'existing' | 'invalid'
 
 export interface LocalImportWorkItem {
+  /** archive 表示 CBZ/ZIP/7z 压缩包，storagePath 指向压缩包本身，导入时由 Worker 解压到同名目录。 */
+  kind: 'directory' | 'archive'
   workDirectory: string
   relativeDirectory: string
   title: string
@@ -97,6 +99,7 @@ export interface LocalImportDiscoveryResult {
     new: number
     existing: number
     invalid: number
+    archives: number
     media: number
   }
 }
@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+export const MaintenanceModeUpdateSchema = z.object({
+  enabled: z.boolean(),
+  reason: z.string().trim().max(200).optional()
+})
+
+export type MaintenanceModeUpdateSchema = z.infer<typeof MaintenanceModeUpdateSchema>
+
+export interface MaintenanceModeStatus {
+  enabled: boolean
+  enabledAt: string | null
+  /** 开启者：管理员用户 ID，或备份命令写入的 backup-checkpoint */
+  enabledBy: string | null
+  reason: string | null
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod'
+
+export const MediaIntegrityReportQuerySchema = z.object({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(20)
+})
+
+export type MediaIntegrityReportQuerySchema = z.infer<typeof MediaIntegrityReportQuerySchema>
+
+/**
+ * 以当前文件内容作为新的基准：问题记为 ACCEPTED，下次巡检重新计算哈希
+ */
+export const MediaIntegrityAcceptSchema = z.object({
+  issueId: z.number().int().positive()
+})
+
+export type MediaIntegrityAcceptSchema = z.infer<typeof MediaIntegrityAcceptSchema>
+
+export const BackupCheckpointCreateSchema = z.object({
+  label: z.string().trim().min(1, '请填写名称').max(200),
+  location: z.string().trim().max(1000).optional(),
+  takenAt: z.coerce.date().refine((value) => value.getTime() <= Date.now() + 60_000, '备份时间不能晚于当前时间'),
+  note: z.string().trim().max(2000).optional()
+})
+
+export type BackupCheckpointCreateSchema = z.infer<typeof BackupCheckpointCreateSchema>
+
+export type MediaIntegrityIssueKind = 'MISSING' | 'MISMATCH' | 'UNREADABLE'
+
+export interface BackupCheckpointItem {
+  id: number
+  label: string
+  location: string | null
+  takenAt: string
+  note: string | null
+  /** 由备份检查点命令写入的签名清单 SHA-256；手动登记时为空 */
+  manifestSha256: string | null
+}
+
+export interface MediaIntegrityIssueItem {
+  id: number
+  imageId: number | null
+  path: string
+  kind: MediaIntegrityIssueKind
+  expectedSha256: string | null
+  actualSha256: string | null
+  /** 最后一次确认文件与基准一致的时间；为空表示从未取得过完好的基准 */
+  lastVerifiedAt: string | null
+  detectedAt: string
+  lastSeenAt: string
+}
+
+export interface MediaIntegrityAffectedArtwork {
+  /** 作品已删除时为空，问题记录仍保留原路径 */
+  artwork: { id: number; title: string; artistName: string | null } | null
+  issues: MediaIntegrityIssueItem[]
+  /** 受影响文件全部仍完好时的最近备份；任一文件没有完好基准时为空 */
+  lastGoodCheckpoint: BackupCheckpointItem | null
+  /** 是否存在从未取得完好基准的文件，此时无法判断哪份备份可用 */
+  hasUnverifiedFiles: boolean
+}
+
+export interface MediaIntegrityReport {
+  items: MediaIntegrityAffectedArtwork[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+export interface MediaIntegrityCoverage {
+  hashed: number
+  pending: number
+  due: number
+  openIssues: Record<MediaIntegrityIssueKind, number>
+  lastCheckedAt: string | null
+}
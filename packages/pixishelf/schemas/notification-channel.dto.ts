@@ -0,0 +1,17 @@
+import { z } from 'zod'
+import { notificationChannelKindSchema, notificationFiltersSchema } from '@pixishelf/job-contracts'
+
+/**
+ * 通知渠道表单
+ * @description 传输配置在服务层按渠道类型校验；密钥字段提交空字符串表示保留已保存的值。
+ */
+export const NotificationChannelInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  enabled: z.boolean(),
+  kind: notificationChannelKindSchema,
+  config: z.record(z.string(), z.unknown()),
+  filters: notificationFiltersSchema
+})
+export type NotificationChannelInput = z.infer<typeof NotificationChannelInputSchema>
+
+export const NotificationChannelIdSchema = z.object({ id: z.string().min(1) })
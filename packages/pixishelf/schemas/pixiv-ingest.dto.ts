@@ -0,0 +1,121 @@
+import { z } from 'zod'
+
+/** 单次请求的条目上限，扩展侧按此分批发送 */
+export const PIXIV_INGEST_MAX_ARTWORKS = 100
+export const PIXIV_INGEST_MAX_TAGS = 500
+export const PIXIV_INGEST_MAX_USERS = 200
+
+// Pixiv 接口里 ID 有时是数字有时是字符串，统一按字符串处理
+const pixivIdSchema = z.coerce.string().trim().regex(/^\d+$/, 'Pixiv ID 必须为数字').max(20)
+const optionalTextSchema = z
+  .string()
+  .nullish()
+  .transform((value) => value || null)
+// 受限作品的原图地址为空字符串或 null，按缺失处理
+const optionalUrlSchema = z.preprocess((value) => (value === '' ? null : value), z.url().max(2048).nullish())
+
+/**
+ * 扩展抓取的作品详情，字段与扩展的 PixivArtworkData 一致；未声明的字段会被丢弃
+ */
+export const PixivIngestArtworkSchema = z.object({
+  id: pixivIdSchema,
+  title: z.string().max(1000),
+  description: z
+    .string()
+    .max(100_000)
+    .nullish()
+    .transform((value) => value ?? ''),
+  createDate: z.iso.datetime({ offset: true }).nullish(),
+  uploadDate: z.iso.datetime({ offset: true }).nullish(),
+  authorId: pixivIdSchema,
+  authorName: z.string().max(500),
+  pageCount: z.number().int().nonnegative(),
+  width: z.number().int().nonnegative(),
+  height: z.number().int().nonnegative(),
+  tags: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(200),
+        translation: z
+          .object({
+            en: z.string().max(200).optional(),
+            zh: z.string().max(200).optional()
+          })
+          .nullish()
+      })
+    )
+    .max(200)
+    .default([]),
+  series: z
+    .object({
+      id: pixivIdSchema,
+      title: z.string().max(1000),
+      order: z.number().int()
+    })
+    .nullish(),
+  bookmarkCount: z.number().int().nonnegative(),
+  likeCount: z.number().int().nonnegative(),
+  viewCount: z.number().int().nonnegative(),
+  xRestrict: z.number().int().nonnegative(),
+  url: optionalUrlSchema,
+  thumbnailUrl: optionalUrlSchema
+})
+
+export type PixivIngestArtwork = z.infer<typeof PixivIngestArtworkSchema>
+
+/**
+ * 标签百科信息，对应扩展的 PixivTagData
+ */
+export const PixivIngestTagSchema = z.object({
+  originalTag: z.string().trim().min(1).max(200),
+  translation: optionalTextSchema,
+  englishTranslation: optionalTextSchema,
+  abstract: optionalTextSchema,
+  imageUrl: optionalUrlSchema
+})
+
+export type PixivIngestTag = z.infer<typeof PixivIngestTagSchema>
+
+/**
+ * 用户主页信息，对应扩展的 PixivUserData
+ */
+export const PixivIngestUserSchema = z.object({
+  userId: pixivIdSchema,
+  name: z.string().max(500),
+  avatarUrl: optionalUrlSchema,
+  backgroundUrl: optionalUrlSchema
+})
+
+export type PixivIngestUser = z.infer<typeof PixivIngestUserSchema>
+
+export const PixivIngestRequestSchema = z
+  .object({
+    artworks: z.array(PixivIngestArtworkSchema).max(PIXIV_INGEST_MAX_ARTWORKS).default([]),
+    tags: z.array(PixivIngestTagSchema).max(PIXIV_INGEST_MAX_TAGS).default([]),
+    users: z.array(PixivIngestUserSchema).max(PIXIV_INGEST_MAX_USERS).default([])
+  })
+  .refine((input) => input.artworks.length + input.tags.length + input.users.length > 0, {
+    message: '请求中没有可写入的条目'
+  })
+
+export type PixivIngestRequest = z.infer<typeof PixivIngestRequestSchema>
+
+export type PixivIngestItemKind = 'artwork' | 'tag' | 'user'
+
+/**
+ * UPDATED：已写入；SKIPPED：本地修改优先或没有可更新的字段；NOT_FOUND：库中没有对应条目；FAILED：写入出错
+ */
+export type PixivIngestItemStatus = 'UPDATED' | 'SKIPPED' | 'NOT_FOUND' | 'FAILED'
+
+export interface PixivIngestItemResult {
+  kind: PixivIngestItemKind
+  /** 作品/用户为 Pixiv ID，标签为原始标签名 */
+  key: string
+  status: PixivIngestItemStatus
+  message?: string
+}
+
+export interface PixivIngestResponse {
+  results: PixivIngestItemResult[]
+  summary: Record<PixivIngestItemStatus, number>
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod'
+import type { ArtworkCardData } from '@/types'
+
+/**
+ * 保存阅读进度
+ * @description mediaCount 取客户端实际渲染的媒体数（未完成转换的动图等不会展示），
+ * videoPositionSec 仅在当前媒体是视频时传入，尚未开始播放时传 0。
+ */
+export const ReadingProgressSaveSchema = z.object({
+  artworkId: z.number().int().positive(),
+  mediaIndex: z.number().int().min(0),
+  mediaCount: z.number().int().min(1),
+  imageId: z.number().int().positive().optional(),
+  videoPositionSec: z.number().min(0).optional(),
+  videoDurationSec: z.number().min(0).optional()
+})
+
+export type ReadingProgressSaveSchema = z.infer<typeof ReadingProgressSaveSchema>
+
+export const ContinueReadingQuerySchema = z.object({
+  limit: z.number().int().min(1).max(50).default(12)
+})
+
+export interface ReadingProgressView {
+  artworkId: number
+  /** 从 0 开始的媒体序号 */
+  mediaIndex: number
+  mediaCount: number
+  imageId: number | null
+  videoPositionSec: number | null
+  completed: boolean
+  updatedAt: string
+}
+
+export interface ContinueReadingItem {
+  artwork: ArtworkCardData
+  progress: ReadingProgressView
+}
+
+export interface SeriesReadingProgress {
+  seriesId: number
+  total: number
+  completedCount: number
+  /** 按 sortOrder 排列的第一篇未读完作品；全部读完时为 null */
+  next: {
+    id: number
+    title: string
+    order: number
+    progress: ReadingProgressView | null
+  } | null
+}
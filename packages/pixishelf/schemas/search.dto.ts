@@ -1,4 +1,5 @@
 import z from 'zod'
+import type { ArtworkCardData } from '@/types'
 
 /**
  * 搜索建议请求体
@@ -31,3 +32,83 @@ export const SearchSuggestionsResponseSchema = z.object({
 
 export type SearchSuggestion = z.infer<typeof SearchSuggestionSchema>
 export type SearchSuggestionsResponse = z.infer<typeof SearchSuggestionsResponseSchema>
+
+function splitCsvValues(val: string | string[] | null | undefined) {
+  if (!val) return []
+  const values = Array.isArray(val) ? val : val.split(',')
+  return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)))
+}
+
+const csvValuesSchema = z.union([z.string(), z.array(z.string())]).nullish().transform(splitCsvValues)
+
+/** 统一搜索可筛选的媒体类型，对应 Image.mediaType */
+export const SearchMediaTypeEnum = z.enum(['IMAGE', 'VIDEO', 'ANIMATION'])
+export type SearchMediaType = z.infer<typeof SearchMediaTypeEnum>
+
+/** 没有任何来源引用的作品在来源分面中归入该键，而不是被猜测为某个来源站点 */
+export const UNKNOWN_SOURCE_PROVIDER_FACET = 'unknown'
+
+/**
+ * 统一全文搜索请求体
+ * @description 在标题、描述、标签（含中英文译名）、艺术家和系列标题中排序召回作品，并返回分面统计。
+ */
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  cursor: z.number().int().min(1).nullish().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+  mediaTypes: csvValuesSchema.pipe(z.array(SearchMediaTypeEnum)),
+  providers: csvValuesSchema.pipe(z.array(z.string().min(1).max(50))),
+  namespaces: csvValuesSchema.pipe(z.array(z.string().min(1).max(50)))
+})
+
+export type SearchQuerySchema = z.infer<typeof searchQuerySchema>
+
+const SearchFacetBucketSchema = z.object({
+  value: z.string(),
+  count: z.number().int().nonnegative()
+})
+
+export type SearchFacetBucket = z.infer<typeof SearchFacetBucketSchema>
+
+export const SearchFacetsSchema = z.object({
+  mediaTypes: z.array(SearchFacetBucketSchema),
+  providers: z.array(SearchFacetBucketSchema),
+  namespaces: z.array(SearchFacetBucketSchema)
+})
+
+export type SearchFacets = z.infer<typeof SearchFacetsSchema>
+
+export interface SearchArtistHit {
+  id: number
+  name: string
+  username: string | null
+  avatar: string | null
+  artworkCount: number
+}
+
+export interface SearchTagHit {
+  id: number
+  name: string
+  name_zh: string | null
+  name_en: string | null
+  namespace: string
+  artworkCount: number
+}
+
+export interface SearchSeriesHit {
+  id: number
+  title: string
+  coverImageUrl: string | null
+  artworkCount: number
+}
+
+export interface SearchQueryResponse {
+  artworks: ArtworkCardData[]
+  /** 仅第一页返回精确总数 */
+  total?: number
+  nextCursor?: number
+  facets?: SearchFacets
+  artists: SearchArtistHit[]
+  tags: SearchTagHit[]
+  series: SearchSeriesHit[]
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+import { ArtworksInfiniteQuerySchema } from './artwork.dto'
+import { ArtworkSourceEnum } from './models'
+
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+
+/**
+ * 智能合集保存的筛选条件
+ * @description 与 ArtworksInfiniteQuerySchema 的输入形态一致（不含分页），读取时再交给它解析，
+ * 这样列表、计数和沉浸浏览都复用同一套 query-builder 条件。
+ */
+export const SmartCollectionFiltersSchema = z
+  .object({
+    q: z.string().trim().max(1000).optional(),
+    search: z.string().trim().max(200).optional(),
+    tags: z.string().max(1000).optional(),
+    excludeTags: z.string().max(1000).optional(),
+    tagIds: z.array(z.number().int().positive()).max(50).optional(),
+    artistId: z.number().int().positive().optional(),
+    sources: z.array(ArtworkSourceEnum).optional(),
+    mediaType: z.enum(['all', 'image', 'video']).optional(),
+    hasAudio: z.enum(['all', 'yes', 'no', 'unknown']).optional(),
+    startDate: dateStringSchema.optional(),
+    endDate: dateStringSchema.optional(),
+    createdStartDate: dateStringSchema.optional(),
+    createdEndDate: dateStringSchema.optional(),
+    mediaCountMin: z.number().int().min(0).optional(),
+    mediaCountMax: z.number().int().min(0).optional(),
+    sortBy: z.string().max(40).optional()
+  })
+  .superRefine((filters, context) => {
+    const result = ArtworksInfiniteQuerySchema.safeParse(filters)
+    for (const issue of result.error?.issues ?? []) {
+      context.addIssue({ code: 'custom', path: issue.path, message: issue.message })
+    }
+  })
+
+export type SmartCollectionFilters = z.infer<typeof SmartCollectionFiltersSchema>
+
+const smartCollectionNameSchema = z.string().trim().min(1, '合集名称不能为空').max(100, '合集名称不能超过100个字符')
+
+export const SmartCollectionCreateSchema = z.object({
+  name: smartCollectionNameSchema,
+  filters: SmartCollectionFiltersSchema
+})
+
+export type SmartCollectionCreateSchema = z.infer<typeof SmartCollectionCreateSchema>
+
+export const SmartCollectionUpdateSchema = z.object({
+  id: z.number().int().positive(),
+  name: smartCollectionNameSchema.optional(),
+  filters: SmartCollectionFiltersSchema.optional()
+})
+
+export type SmartCollectionUpdateSchema = z.infer<typeof SmartCollectionUpdateSchema>
+
+/**
+ * 智能合集作品分页参数
+ */
+export const SmartCollectionCardsQuerySchema = z.object({
+  id: z.number().int().positive(),
+  cursor: z.number().min(1).nullish().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24)
+})
+
+export type SmartCollectionCardsQuerySchema = z.infer<typeof SmartCollectionCardsQuerySchema>
+
+export interface SmartCollectionSummary {
+  id: number
+  name: string
+  filters: SmartCollectionFilters
+  /** 当前命中的作品数 */
+  artworkCount: number
+  /** 上次访问后新入库的命中作品数；从未访问过时为 0 */
+  newCount: number
+  lastVisitedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
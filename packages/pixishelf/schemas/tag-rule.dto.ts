@@ -0,0 +1,81 @@
+import { z } from 'zod'
+
+/** 合并后可撤销的天数，过期后审计记录仍保留 */
+export const TAG_MERGE_UNDO_WINDOW_DAYS = 7
+
+const tagIdSchema = z.number().int().positive()
+
+export const TagAliasCreateSchema = z.object({
+  tagId: tagIdSchema,
+  namespace: z.string().trim().min(1).max(50).default('general'),
+  name: z.string().trim().min(1, '别名不能为空').max(200)
+})
+
+export type TagAliasCreateSchema = z.infer<typeof TagAliasCreateSchema>
+
+/**
+ * tagId 蕴含 impliedTagId：带有 tagId 的作品会自动得到 DERIVED 的 impliedTagId
+ */
+export const TagImplicationCreateSchema = z
+  .object({
+    tagId: tagIdSchema,
+    impliedTagId: tagIdSchema
+  })
+  .refine((input) => input.tagId !== input.impliedTagId, {
+    path: ['impliedTagId'],
+    message: '标签不能蕴含自身'
+  })
+
+export type TagImplicationCreateSchema = z.infer<typeof TagImplicationCreateSchema>
+
+/**
+ * 把 sourceTagId 合并进 targetTagId，源标签会被删除并保留为别名
+ */
+export const TagMergeSchema = z
+  .object({
+    sourceTagId: tagIdSchema,
+    targetTagId: tagIdSchema
+  })
+  .refine((input) => input.sourceTagId !== input.targetTagId, {
+    path: ['targetTagId'],
+    message: '不能合并到自身'
+  })
+
+export type TagMergeSchema = z.infer<typeof TagMergeSchema>
+
+export const TagMergeListQuerySchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20)
+})
+
+export type TagMergeListQuerySchema = z.infer<typeof TagMergeListQuerySchema>
+
+export interface TagRuleTag {
+  id: number
+  namespace: string
+  name: string
+  name_zh: string | null
+  name_en: string | null
+  isSystem: boolean
+  artworkCount: number
+}
+
+export interface TagRules {
+  aliases: Array<{ id: number; namespace: string; name: string; createdAt: Date }>
+  /** 当前标签蕴含的标签 */
+  implies: Array<{ id: number; tag: TagRuleTag }>
+  /** 蕴含当前标签的标签 */
+  impliedBy: Array<{ id: number; tag: TagRuleTag }>
+}
+
+export interface TagMergeItem {
+  id: string
+  sourceTagId: number
+  sourceNamespace: string
+  sourceName: string
+  targetTag: TagRuleTag | null
+  movedArtworkCount: number
+  createdAt: Date
+  undoDeadline: Date
+  undoneAt: Date | null
+  canUndo: boolean
+}
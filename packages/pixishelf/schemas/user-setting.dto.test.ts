@@ -2,7 +2,8 @@ import { describe, expect, it } from 'vitest'
 import {
   artworkMediaAnchorIntervalSchema,
   userSettingsSchema,
-  userSettingsWithDefaultsSchema
+  userSettingsWithDefaultsSchema,
+  viewHistoryRetentionDaysSchema
 } from './user-setting.dto'
 
 describe('artwork media anchor interval settings', () => {
@@ -52,3 +53,17 @@ describe('video interaction settings', () => {
     expect(() => userSettingsSchema.parse({ video_seek_step_seconds: 30 })).toThrow()
   })
 })
+
+describe('view history settings', () => {
+  it('keeps half a year of history by default', () => {
+    expect(userSettingsWithDefaultsSchema.parse({}).view_history_retention_days).toBe(180)
+  })
+
+  it('accepts paused recording and the supported retention windows', () => {
+    expect(viewHistoryRetentionDaysSchema.parse(0)).toBe(0)
+    expect(userSettingsSchema.parse({ view_history_retention_days: 365 })).toEqual({
+      view_history_retention_days: 365
+    })
+    expect(() => viewHistoryRetentionDaysSchema.parse(7)).toThrow()
+  })
+})
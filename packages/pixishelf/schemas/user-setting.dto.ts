@@ -13,13 +13,22 @@ export const artworkMediaAnchorIntervalSchema = z.union([
   z.literal(50),
   z.literal(100)
 ])
+/** 浏览历史保留天数，0 表示暂停记录 */
+export const viewHistoryRetentionDaysSchema = z.union([
+  z.literal(0),
+  z.literal(30),
+  z.literal(90),
+  z.literal(180),
+  z.literal(365)
+])
 export const userSettingsSchema = z.object({
   artwork_display_mode: artworkDisplayModeSchema.optional(),
   preferred_tags: z.array(z.string()).optional(),
   artwork_media_anchor_interval: artworkMediaAnchorIntervalSchema.optional(),
   media_privacy_mode: z.boolean().optional(),
   video_long_press_playback_rate: videoLongPressPlaybackRateSchema.optional(),
-  video_seek_step_seconds: videoSeekStepSecondsSchema.optional()
+  video_seek_step_seconds: videoSeekStepSecondsSchema.optional(),
+  view_history_retention_days: viewHistoryRetentionDaysSchema.optional()
 })
 export const userSettingsWithDefaultsSchema = userSettingsSchema.default({}).transform((settings) => ({
   artwork_display_mode: settings.artwork_display_mode ?? 'card',
@@ -27,7 +36,8 @@ export const userSettingsWithDefaultsSchema = userSettingsSchema.default({}).tra
   artwork_media_anchor_interval: settings.artwork_media_anchor_interval ?? 50,
   media_privacy_mode: settings.media_privacy_mode ?? false,
   video_long_press_playback_rate: settings.video_long_press_playback_rate ?? 3,
-  video_seek_step_seconds: settings.video_seek_step_seconds ?? 10
+  video_seek_step_seconds: settings.video_seek_step_seconds ?? 10,
+  view_history_retention_days: settings.view_history_retention_days ?? 180
 }))
 
 export const updateProfileSchema = z.object({
@@ -61,6 +71,7 @@ export type ArtworkDisplayMode = z.infer<typeof artworkDisplayModeSchema>
 export type ArtworkMediaAnchorInterval = z.infer<typeof artworkMediaAnchorIntervalSchema>
 export type VideoLongPressPlaybackRate = z.infer<typeof videoLongPressPlaybackRateSchema>
 export type VideoSeekStepSeconds = z.infer<typeof videoSeekStepSecondsSchema>
+export type ViewHistoryRetentionDays = z.infer<typeof viewHistoryRetentionDaysSchema>
 export type UserSettings = z.infer<typeof userSettingsSchema>
 export type UserSettingsWithDefaults = z.infer<typeof userSettingsWithDefaultsSchema>
 export type UpdateProfileDTO = z.infer<typeof updateProfileSchema>
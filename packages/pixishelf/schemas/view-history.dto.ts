@@ -0,0 +1,98 @@
+import { z } from 'zod'
+import type { ArtworkCardData } from '@/types'
+
+export const viewHistorySourceSchema = z.enum(['artwork', 'viewer'])
+
+/**
+ * 开始一次浏览
+ */
+export const ViewHistoryStartSchema = z.object({
+  artworkId: z.number().int().positive(),
+  source: viewHistorySourceSchema.default('artwork')
+})
+
+/**
+ * 浏览心跳
+ * @description durationSec / videoWatchSec 是距离上一次心跳新增的秒数；mediaViewed 是本次浏览累计看过的媒体数。
+ */
+export const ViewHistoryHeartbeatSchema = z.object({
+  id: z.number().int().positive(),
+  mediaViewed: z.number().int().min(0),
+  durationSec: z.number().int().min(0),
+  videoWatchSec: z.number().int().min(0)
+})
+
+export const ViewHistoryListQuerySchema = z.object({
+  cursor: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(60).default(24)
+})
+
+function isValidTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 浏览统计
+ * @description timeZone 用于按用户本地日期划分每日活跃，缺省按 UTC
+ */
+export const ViewStatsQuerySchema = z.object({
+  days: z.union([z.literal(7), z.literal(30), z.literal(90), z.literal(365)]).default(30),
+  timeZone: z.string().max(64).refine(isValidTimeZone, '无效的时区').default('UTC')
+})
+
+export type ViewHistorySource = z.infer<typeof viewHistorySourceSchema>
+export type ViewHistoryStartSchema = z.infer<typeof ViewHistoryStartSchema>
+export type ViewHistoryHeartbeatSchema = z.infer<typeof ViewHistoryHeartbeatSchema>
+export type ViewHistoryListQuerySchema = z.infer<typeof ViewHistoryListQuerySchema>
+export type ViewStatsQuerySchema = z.infer<typeof ViewStatsQuerySchema>
+
+/** 按作品聚合后的浏览记录 */
+export interface ViewHistoryEntry {
+  artworkId: number
+  lastViewedAt: string
+  viewCount: number
+  totalDurationSec: number
+  totalVideoWatchSec: number
+}
+
+export interface ViewHistoryItem {
+  artwork: ArtworkCardData
+  history: ViewHistoryEntry
+}
+
+export interface ViewHistoryPage {
+  items: ViewHistoryItem[]
+  nextCursor?: number
+}
+
+export interface ViewStatsRankItem {
+  id: number
+  name: string
+  durationSec: number
+  viewCount: number
+}
+
+export interface ViewStatsDailyActivity {
+  /** 本地日期 YYYY-MM-DD */
+  date: string
+  durationSec: number
+  viewCount: number
+}
+
+export interface ViewStats {
+  days: number
+  totals: {
+    viewCount: number
+    artworkCount: number
+    durationSec: number
+    videoWatchSec: number
+  }
+  topArtists: ViewStatsRankItem[]
+  topTags: ViewStatsRankItem[]
+  daily: ViewStatsDailyActivity[]
+}
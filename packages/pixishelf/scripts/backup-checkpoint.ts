@@ -0,0 +1,71 @@
+import {
+  BACKUP_CHECKPOINT_ACTOR,
+  getBackupVerifyExitCode,
+  parseBackupCheckpointArguments,
+  readMaintenanceMode,
+  runBackupCheckpoint,
+  verifyBackupManifest,
+  writeMaintenanceMode
+} from '@/services/backup-checkpoint'
+
+async function main(): Promise<0 | 2> {
+  const command = parseBackupCheckpointArguments(process.argv.slice(2))
+
+  if (command.command === 'verify') {
+    const report = await verifyBackupManifest(command.directory, process.env.BACKUP_MANIFEST_SIGNING_KEY ?? '')
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`)
+    return getBackupVerifyExitCode(report)
+  }
+
+  const databaseUrl = process.env.DATABASE_URL?.trim()
+  if (!databaseUrl) {
+    throw new Error('DATABASE_URL is required.')
+  }
+
+  const { PrismaClient } = await import('@prisma/client')
+  const prisma = new PrismaClient()
+
+  try {
+    if (command.command === 'maintenance') {
+      const state =
+        command.action === 'status'
+          ? await readMaintenanceMode(prisma)
+          : await writeMaintenanceMode(prisma, {
+              enabled: command.action === 'on',
+              enabledBy: BACKUP_CHECKPOINT_ACTOR,
+              reason: command.reason
+            })
+      process.stdout.write(`${JSON.stringify(state, null, 2)}\n`)
+      return 0
+    }
+
+    const result = await runBackupCheckpoint(
+      prisma,
+      {
+        outputRoot: command.outputRoot,
+        label: command.label,
+        reason: command.reason,
+        images: command.images,
+        drainTimeoutMs: command.drainTimeoutMs,
+        signingKey: process.env.BACKUP_MANIFEST_SIGNING_KEY ?? '',
+        databaseUrl,
+        snapshotHook: process.env.BACKUP_SNAPSHOT_HOOK?.trim() || null,
+        dumpCommand: process.env.BACKUP_PG_DUMP_COMMAND?.trim() || undefined
+      },
+      { log: (message) => process.stderr.write(`${message}\n`) }
+    )
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`)
+    return 0
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
+  .then((exitCode) => {
+    process.exitCode = exitCode
+  })
+  .catch((error) => {
+    process.stderr.write(`Backup checkpoint failed: ${error instanceof Error ? error.message : String(error)}\n`)
+    process.exitCode = 1
+  })
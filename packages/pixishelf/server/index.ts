@@ -16,6 +16,15 @@ import { pendingReplaceRouter } from './routers/pending-replace'
 import { archiveRouter } from './routers/archive'
 import { archiveInboxRouter } from './routers/archive-inbox'
 import { sourceAuditRouter } from './routers/source-audit'
+import { smartCollectionRouter } from './routers/smart-collection'
+import { duplicateRouter } from './routers/duplicate'
+import { accessTokenRouter } from './routers/access-token'
+import { notificationRouter } from './routers/notification'
+import { readingProgressRouter } from './routers/reading-progress'
+import { viewHistoryRouter } from './routers/view-history'
+import { mediaIntegrityRouter } from './routers/media-integrity'
+import { maintenanceRouter } from './routers/maintenance'
+import { artworkExportRouter } from './routers/artwork-export'
 
 // 挂载子路由
 export const appRouter = router({
@@ -35,7 +44,16 @@ export const appRouter = router({
   pendingReplace: pendingReplaceRouter,
   archive: archiveRouter,
   archiveInbox: archiveInboxRouter,
-  sourceAudit: sourceAuditRouter
+  sourceAudit: sourceAuditRouter,
+  smartCollection: smartCollectionRouter,
+  duplicate: duplicateRouter,
+  accessToken: accessTokenRouter,
+  notification: notificationRouter,
+  readingProgress: readingProgressRouter,
+  viewHistory: viewHistoryRouter,
+  mediaIntegrity: mediaIntegrityRouter,
+  maintenance: maintenanceRouter,
+  artworkExport: artworkExportRouter
 })
 
 // 导出类型供前端使用
@@ -13,6 +13,7 @@ const mocks = vi.hoisted(() => ({
 }))
 
 vi.mock('server-only', () => ({}))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: vi.fn() }))
 vi.mock('@/lib/rate-limit', () => ({ rateLimiter: { check: vi.fn(() => true) } }))
 vi.mock('@/services/archive-intake/archive-intake-service', async (importOriginal) => ({
   ...(await importOriginal<typeof import('@/services/archive-intake/archive-intake-service')>()),
@@ -8,6 +8,7 @@ const mocks = vi.hoisted(() => ({
 }))
 
 vi.mock('server-only', () => ({}))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: vi.fn() }))
 vi.mock('@/services/archive/archive-module', () => ({ archiveModule: mocks }))
 
 import { archiveRouter } from '../archive'
@@ -5,6 +5,7 @@ const mocks = vi.hoisted(() => ({
 }))
 
 vi.mock('server-only', () => ({}))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: vi.fn() }))
 vi.mock('@/lib/rate-limit', () => ({ rateLimiter: { check: vi.fn(() => true) } }))
 vi.mock('@/lib/logger', () => ({ default: { error: vi.fn(), info: vi.fn(), warn: vi.fn() } }))
 vi.mock('@/services/setting.service', () => ({ getScanPath: vi.fn() }))
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+
+const mocks = vi.hoisted(() => ({
+  assertWritable: vi.fn(),
+  getMaintenanceModeStatus: vi.fn(),
+  setMaintenanceMode: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/rate-limit', () => ({ rateLimiter: { check: vi.fn(() => true) } }))
+vi.mock('@/services/maintenance-mode-service', () => mocks)
+
+import { authProcedure, publicProcedure, router } from '@/server/trpc'
+import { maintenanceRouter } from '../maintenance'
+
+const write = vi.fn(async () => 'written')
+const testRouter = router({
+  read: authProcedure.query(() => 'read'),
+  write: authProcedure.mutation(write),
+  publicWrite: publicProcedure.mutation(write),
+  maintenance: maintenanceRouter
+})
+
+const authorized = {
+  session: { id: 'session-1' },
+  user: { id: 'admin-1' },
+  userId: 'admin-1',
+  headers: new Headers()
+} as never
+const unauthorized = { session: null, user: null, userId: undefined, headers: new Headers() } as never
+
+const activeState = { enabled: true, enabledAt: new Date(), enabledBy: 'backup-checkpoint', reason: 'backup' }
+
+describe('maintenance mode write guard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.assertWritable.mockRejectedValue(new MaintenanceModeActiveError(activeState))
+    mocks.setMaintenanceMode.mockResolvedValue({ ...activeState, enabled: false })
+  })
+
+  it('rejects mutations with SERVICE_UNAVAILABLE before they reach the handler', async () => {
+    const caller = testRouter.createCaller(authorized)
+
+    await expect(caller.write()).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' })
+    await expect(caller.publicWrite()).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' })
+    expect(write).not.toHaveBeenCalled()
+  })
+
+  it('keeps queries available and checks authentication before reading maintenance state', async () => {
+    await expect(testRouter.createCaller(authorized).read()).resolves.toBe('read')
+    await expect(testRouter.createCaller(unauthorized).write()).rejects.toMatchObject({ code: 'UNAUTHORIZED' })
+    expect(mocks.assertWritable).not.toHaveBeenCalled()
+  })
+
+  it('still lets an authenticated administrator leave maintenance mode', async () => {
+    await expect(testRouter.createCaller(authorized).maintenance.set({ enabled: false })).resolves.toMatchObject({
+      enabled: false
+    })
+    expect(mocks.setMaintenanceMode).toHaveBeenCalledWith('admin-1', { enabled: false })
+    await expect(testRouter.createCaller(unauthorized).maintenance.set({ enabled: false })).rejects.toMatchObject({
+      code: 'UNAUTHORIZED'
+    })
+  })
+
+  it('passes mutations through once maintenance mode is off', async () => {
+    mocks.assertWritable.mockResolvedValue(undefined)
+
+    await expect(testRouter.createCaller(authorized).write()).resolves.toBe('written')
+  })
+})
@@ -10,6 +10,7 @@ const mocks = vi.hoisted(() => ({
 }))
 
 vi.mock('server-only', () => ({}))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: vi.fn() }))
 vi.mock('@/lib/rate-limit', () => ({ rateLimiter: { check: vi.fn(() => true) } }))
 vi.mock('@/services/migration-service', () => ({ precheckMigration: vi.fn() }))
 vi.mock('@/services/background-task/dispatcher-cutover', () => ({
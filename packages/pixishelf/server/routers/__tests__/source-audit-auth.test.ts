@@ -11,6 +11,7 @@ const mocks = vi.hoisted(() => ({
 }))
 
 vi.mock('server-only', () => ({}))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: vi.fn() }))
 vi.mock('@/lib/rate-limit', () => ({ rateLimiter: { check: vi.fn(() => true) } }))
 vi.mock('@/lib/logger', () => ({ default: { error: vi.fn() } }))
 vi.mock('@/services/source-audit', async (importOriginal) => ({
@@ -0,0 +1,25 @@
+import 'server-only'
+import { AccessTokenScopeSchema } from '@/schemas/access-token.dto'
+import { getAccessTokenSummary, issueAccessToken, revokeAccessToken } from '@/services/access-token-service'
+import { authProcedure, router } from '@/server/trpc'
+
+/**
+ * 访问令牌路由：令牌按用户隔离，明文只在签发时返回一次
+ */
+export const accessTokenRouter = router({
+  get: authProcedure.input(AccessTokenScopeSchema).query(async ({ input, ctx }) => {
+    return getAccessTokenSummary(ctx.userId, input)
+  }),
+
+  /**
+   * 签发或轮换令牌，旧令牌立即失效
+   */
+  issue: authProcedure.input(AccessTokenScopeSchema).mutation(async ({ input, ctx }) => {
+    return issueAccessToken(ctx.userId, input)
+  }),
+
+  revoke: authProcedure.input(AccessTokenScopeSchema).mutation(async ({ input, ctx }) => {
+    await revokeAccessToken(ctx.userId, input)
+    return { success: true }
+  })
+})
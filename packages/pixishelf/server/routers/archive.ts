@@ -5,6 +5,8 @@ import { adminProcedure, authProcedure, router } from '@/server/trpc'
 import { archiveModule } from '@/services/archive/archive-module'
 import { redactArchiveText } from '@/services/archive/archive-redaction'
 import { ArchiveError } from '@/services/archive/errors'
+import { requestArchiveRevisionRestore } from '@/services/archive/archive-maintenance-service'
+import { getArchiveRevisionHistory } from '@/services/archive/archive-revision-service'
 import {
   actionArchiveTasksMany,
   archiveTaskActionManySchema,
@@ -75,7 +77,23 @@ export const archiveRouter = router({
 
   getBulkOperation: authProcedure
     .input(z.object({ operationId: z.string().min(1).max(128) }).strict())
-    .query(({ input }) => runArchiveOperation(() => getArchiveBulkOperation(input.operationId)))
+    .query(({ input }) => runArchiveOperation(() => getArchiveBulkOperation(input.operationId))),
+
+  getRevisionHistory: authProcedure
+    .input(z.object({ artworkId: z.number().int().positive() }).strict())
+    .query(({ input }) => runArchiveOperation(() => getArchiveRevisionHistory(input.artworkId))),
+
+  restoreRevision: adminProcedure
+    .input(z.object({ artworkId: z.number().int().positive(), revisionId: z.string().min(1).max(128) }).strict())
+    .mutation(({ input, ctx }) =>
+      runArchiveOperation(() =>
+        requestArchiveRevisionRestore({
+          artworkId: input.artworkId,
+          revisionId: input.revisionId,
+          requestedByUserId: ctx.userId
+        })
+      )
+    )
 })
 
 /**
@@ -0,0 +1,33 @@
+import 'server-only'
+import { TRPCError } from '@trpc/server'
+import { adminProcedure, router } from '@/server/trpc'
+import { ArtworkExportCreateSchema, ArtworkExportListQuerySchema } from '@/schemas/artwork-export.dto'
+import { ArtworkExportServiceError, createArtworkExport, listArtworkExports } from '@/services/artwork-export-service'
+import { BackgroundTaskError } from '@/services/background-task'
+import { isCentralDispatcherCutoverEnabled } from '@/services/background-task/dispatcher-cutover'
+
+/**
+ * 作品导出路由：打包由 ARTWORK_EXPORT 任务在 Worker 中完成，完成后通过 /api/v1/exports/:id 下载
+ */
+export const artworkExportRouter = router({
+  list: adminProcedure.input(ArtworkExportListQuerySchema).query(async ({ input }) => {
+    return listArtworkExports(input)
+  }),
+
+  create: adminProcedure.input(ArtworkExportCreateSchema).mutation(async ({ ctx, input }) => {
+    if (!isCentralDispatcherCutoverEnabled()) {
+      throw new TRPCError({ code: 'PRECONDITION_FAILED', message: '作品导出需要启用独立 Worker 调度' })
+    }
+    try {
+      return await createArtworkExport(ctx.userId, input)
+    } catch (error) {
+      if (error instanceof ArtworkExportServiceError) {
+        throw new TRPCError({ code: error.code, message: error.message })
+      }
+      if (error instanceof BackgroundTaskError) {
+        throw new TRPCError({ code: 'CONFLICT', message: error.message })
+      }
+      throw error
+    }
+  })
+})
@@ -0,0 +1,51 @@
+import 'server-only'
+import { TRPCError } from '@trpc/server'
+import { adminProcedure, router } from '@/server/trpc'
+import { DuplicateClustersQuerySchema, DuplicateDismissSchema, DuplicateLinkSchema } from '@/schemas/duplicate.dto'
+import {
+  dismissDuplicateArtworks,
+  getPerceptualHashCoverage,
+  linkDuplicateArtworks,
+  listDuplicateClusters
+} from '@/services/duplicate-service'
+import { BackgroundTaskError } from '@/services/background-task'
+import { isCentralDispatcherCutoverEnabled } from '@/services/background-task/dispatcher-cutover'
+import { triggerScheduledTaskNow } from '@/services/scheduled-task-service'
+
+/**
+ * 近似重复审阅路由：指纹由 IMAGE_PERCEPTUAL_HASH 任务在 Worker 中计算，这里只负责读取分组和记录审阅结论
+ */
+export const duplicateRouter = router({
+  clusters: adminProcedure.input(DuplicateClustersQuerySchema).query(async ({ input }) => {
+    return listDuplicateClusters(input)
+  }),
+
+  coverage: adminProcedure.query(async () => {
+    return getPerceptualHashCoverage()
+  }),
+
+  /**
+   * 补算缺失指纹；与计划任务“计算图片感知指纹”共享同一个 singleton 任务
+   */
+  startHashing: adminProcedure.mutation(async ({ ctx }) => {
+    if (!isCentralDispatcherCutoverEnabled()) {
+      throw new TRPCError({ code: 'PRECONDITION_FAILED', message: '图片指纹计算需要启用独立 Worker 调度' })
+    }
+    try {
+      return await triggerScheduledTaskNow('image_perceptual_hash', { requestedByUserId: ctx.userId })
+    } catch (error) {
+      if (error instanceof BackgroundTaskError) {
+        throw new TRPCError({ code: 'CONFLICT', message: error.message })
+      }
+      throw error
+    }
+  }),
+
+  link: adminProcedure.input(DuplicateLinkSchema).mutation(async ({ input }) => {
+    return linkDuplicateArtworks(input)
+  }),
+
+  dismiss: adminProcedure.input(DuplicateDismissSchema).mutation(async ({ ctx, input }) => {
+    return dismissDuplicateArtworks(ctx.userId, input)
+  })
+})
@@ -10,6 +10,12 @@ import { reprobeVideoMediaByImageId, resolveVideoImageForReprobePath } from '@/s
 import { cancelCentralVideoMediaProbe, enqueueCentralVideoMediaReprobe } from '@/services/video-media-central-service'
 import { cancelVideoOptimization, enqueueVideoOptimization } from '@/services/video-streaming-optimization-queue'
 import { cancelActiveCentralVideoChapterPreview } from '@/services/video-processing-central-service'
+import {
+  enqueueIncompatibleVideoHlsTranscodes,
+  enqueueVideoHlsTranscode,
+  getVideoHlsDetails,
+  getVideoHlsOverview
+} from '@/services/video-hls-service'
 import {
   controlVideoKeyframeJob,
   enqueueSingleVideoKeyframe,
@@ -40,6 +46,7 @@ import {
   enqueueSingletonManualJob,
   getJobById,
   getJobDashboard,
+  getJobDependencyGraph,
   incrementalJobEventsInputSchema,
   jobIdInputSchema,
   listIncrementalJobEvents,
@@ -51,6 +58,11 @@ import {
   retryJobCommand
 } from '@/services/background-task'
 import { toJobDto, type SystemJobWireRecord } from '@/services/background-task/job-serialization'
+import { CRON_EXPRESSION_MAX_LENGTH, CronExpressionError } from '@/services/background-task/cron-expression'
+import {
+  SCHEDULE_INTERVAL_MAX_MINUTES,
+  SCHEDULE_INTERVAL_MIN_MINUTES
+} from '@/services/background-task/schedule-window'
 import {
   isCentralDispatcherCutoverEnabled,
   LegacyBackgroundExecutionDisabledError
@@ -84,6 +96,12 @@ async function getActiveCentralMaintenanceJob(
   return page.items[0] ?? null
 }
 
+function assertVideoHlsAvailable() {
+  if (!isCentralDispatcherCutoverEnabled()) {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'HLS 转码需要启用独立 Worker 调度' })
+  }
+}
+
 async function runBackgroundTaskCommand<T>(command: () => Promise<T>): Promise<T> {
   try {
     return await command()
@@ -456,6 +474,37 @@ export const jobRouter = router({
       return { success: result.changed, status: result.job.status }
     }),
 
+  /**
+   * 单个视频 HLS 转码；同一视频的活跃任务会被复用，强制重建只复用同为强制的任务。
+   */
+  startVideoHlsTranscode: adminProcedure
+    .input(z.object({ imageId: z.number().int().positive(), force: z.boolean().default(false) }))
+    .mutation(async ({ input, ctx }) => {
+      assertVideoHlsAvailable()
+      try {
+        return await enqueueVideoHlsTranscode({ ...input, requestedByUserId: ctx.userId })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        if (message === 'Image not found') throw new TRPCError({ code: 'NOT_FOUND', message })
+        if (message === 'Image is not a video') throw new TRPCError({ code: 'BAD_REQUEST', message })
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message })
+      }
+    }),
+
+  /**
+   * 按已探测元数据挑出不满足兼容策略的视频批量入队，单次数量受上限约束。
+   */
+  startIncompatibleVideoHlsTranscodes: adminProcedure.mutation(({ ctx }) => {
+    assertVideoHlsAvailable()
+    return runBackgroundTaskCommand(() => enqueueIncompatibleVideoHlsTranscodes({ requestedByUserId: ctx.userId }))
+  }),
+
+  getVideoHlsOverview: authProcedure.query(() => getVideoHlsOverview()),
+
+  getVideoHlsDetails: authProcedure
+    .input(z.object({ imageId: z.number().int().positive() }))
+    .query(({ input }) => getVideoHlsDetails(input.imageId)),
+
   startVideoKeyframeGeneration: adminProcedure
     .input(z.object({ imageId: z.number().int().positive(), force: z.boolean().default(false) }))
     .mutation(async ({ input, ctx }) => {
@@ -597,11 +646,25 @@ export const jobRouter = router({
           .regex(/^\d{2}:\d{2}$/)
           .optional(),
         priority: z.number().int().min(0).max(999).optional(),
+        scheduleMode: z.enum(['DAILY', 'INTERVAL', 'CRON']).optional(),
+        intervalMinutes: z
+          .number()
+          .int()
+          .min(SCHEDULE_INTERVAL_MIN_MINUTES)
+          .max(SCHEDULE_INTERVAL_MAX_MINUTES)
+          .optional(),
+        cronExpression: z.string().trim().min(1).max(CRON_EXPRESSION_MAX_LENGTH).optional(),
         config: videoKeyframeFilterSchema.optional()
       })
     )
     .mutation(async ({ input }) => {
-      await updateScheduledTask(input)
+      try {
+        await updateScheduledTask(input)
+      } catch (error) {
+        // 计划参数无效（Cron 表达式、间隔缺失等）属于请求错误
+        if (error instanceof CronExpressionError) throw new TRPCError({ code: 'BAD_REQUEST', message: error.message })
+        throw error
+      }
       return { success: true }
     }),
 
@@ -641,6 +704,10 @@ export const jobRouter = router({
 
   backgroundDetail: adminProcedure.input(jobIdInputSchema).query(({ input }) => getJobById(input.jobId)),
 
+  backgroundDependencies: adminProcedure
+    .input(jobIdInputSchema)
+    .query(({ input }) => getJobDependencyGraph(input.jobId)),
+
   backgroundEvents: adminProcedure
     .input(incrementalJobEventsInputSchema)
     .query(({ input }) => listIncrementalJobEvents(input)),
@@ -0,0 +1,18 @@
+import 'server-only'
+import { maintenanceControlProcedure, router } from '@/server/trpc'
+import { MaintenanceModeUpdateSchema } from '@/schemas/maintenance-mode.dto'
+import { getMaintenanceModeStatus, setMaintenanceMode } from '@/services/maintenance-mode-service'
+
+/**
+ * 维护模式路由：开启后两个执行通道停止领取任务，其余 tRPC mutation 与 Server Action 一律拒绝写入
+ * @description 备份检查点命令会自动开启并恢复维护模式；这里用于人工快照或命令异常中断后手动退出
+ */
+export const maintenanceRouter = router({
+  status: maintenanceControlProcedure.query(async () => {
+    return getMaintenanceModeStatus()
+  }),
+
+  set: maintenanceControlProcedure.input(MaintenanceModeUpdateSchema).mutation(async ({ ctx, input }) => {
+    return setMaintenanceMode(ctx.userId, input)
+  })
+})
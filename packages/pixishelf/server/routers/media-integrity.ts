@@ -0,0 +1,78 @@
+import 'server-only'
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { adminProcedure, router } from '@/server/trpc'
+import {
+  BackupCheckpointCreateSchema,
+  MediaIntegrityAcceptSchema,
+  MediaIntegrityReportQuerySchema
+} from '@/schemas/media-integrity.dto'
+import {
+  acceptMediaIntegrityIssue,
+  createBackupCheckpoint,
+  deleteBackupCheckpoint,
+  getMediaIntegrityCoverage,
+  getMediaIntegrityReport,
+  listBackupCheckpoints,
+  MediaIntegrityError
+} from '@/services/media-integrity-service'
+import { BackgroundTaskError } from '@/services/background-task'
+import { isCentralDispatcherCutoverEnabled } from '@/services/background-task/dispatcher-cutover'
+import { triggerScheduledTaskNow } from '@/services/scheduled-task-service'
+
+async function withMediaIntegrityErrors<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation()
+  } catch (error) {
+    if (error instanceof MediaIntegrityError) {
+      throw new TRPCError({ code: error.code, message: error.message })
+    }
+    throw error
+  }
+}
+
+/**
+ * 媒体完整性路由：哈希与巡检由 MEDIA_INTEGRITY_SCRUB 任务在 Worker 中完成，这里读取审计记录并登记备份检查点
+ */
+export const mediaIntegrityRouter = router({
+  coverage: adminProcedure.query(async () => {
+    return getMediaIntegrityCoverage()
+  }),
+
+  report: adminProcedure.input(MediaIntegrityReportQuerySchema).query(async ({ input }) => {
+    return getMediaIntegrityReport(input)
+  }),
+
+  /**
+   * 立即巡检；与计划任务“巡检原媒体完整性”共享同一个 singleton 任务
+   */
+  startScrub: adminProcedure.mutation(async ({ ctx }) => {
+    if (!isCentralDispatcherCutoverEnabled()) {
+      throw new TRPCError({ code: 'PRECONDITION_FAILED', message: '媒体完整性巡检需要启用独立 Worker 调度' })
+    }
+    try {
+      return await triggerScheduledTaskNow('media_integrity_scrub', { requestedByUserId: ctx.userId })
+    } catch (error) {
+      if (error instanceof BackgroundTaskError) {
+        throw new TRPCError({ code: 'CONFLICT', message: error.message })
+      }
+      throw error
+    }
+  }),
+
+  accept: adminProcedure.input(MediaIntegrityAcceptSchema).mutation(async ({ input }) => {
+    return withMediaIntegrityErrors(() => acceptMediaIntegrityIssue(input))
+  }),
+
+  checkpoints: adminProcedure.query(async () => {
+    return listBackupCheckpoints()
+  }),
+
+  createCheckpoint: adminProcedure.input(BackupCheckpointCreateSchema).mutation(async ({ ctx, input }) => {
+    return createBackupCheckpoint(ctx.userId, input)
+  }),
+
+  deleteCheckpoint: adminProcedure.input(z.object({ id: z.number().int().positive() })).mutation(async ({ input }) => {
+    return withMediaIntegrityErrors(() => deleteBackupCheckpoint(input.id))
+  })
+})
@@ -11,7 +11,8 @@ import {
   retryJobCommand
 } from '@/services/background-task/job-command-service'
 import { BackgroundTaskError } from '@/services/background-task/background-task-error'
-import { JOB_DEFINITION_VERSION, parseJobPayload } from '@pixishelf/job-contracts'
+import { previewStorageLayout } from '@/services/storage-layout-service'
+import { JOB_DEFINITION_VERSION, parseJobPayload, storageLayoutTemplateSchema } from '@pixishelf/job-contracts'
 
 const MigrationPrecheckSchema = z.object({
   targetIds: z.array(z.number()).optional(),
@@ -42,6 +43,12 @@ const MigrationFailedSchema = z.object({
   jobId: z.string().optional()
 })
 
+const LayoutPreviewSchema = z.object({
+  template: storageLayoutTemplateSchema,
+  cursor: z.number().int().positive().nullish(),
+  limit: z.number().int().min(1).max(100).default(50)
+})
+
 export const migrationRouter = router({
   /**
    * 预检查路由不会执行迁移，仅返回会影响筛选范围的候选数据（含默认值规范化）。
@@ -61,6 +68,12 @@ export const migrationRouter = router({
       }
     })
   }),
+  /**
+   * 存储布局试运行：按作品 ID 分页返回当前目录与模板目标目录，不读写任何文件。
+   */
+  layoutPreview: adminProcedure.input(LayoutPreviewSchema).query(async ({ input }) => {
+    return previewStorageLayout(input)
+  }),
   /**
    * 控制路由用于对当前活跃迁移执行 pause / resume / cancel。
    * 若未显式传入 jobId，则默认操作最近一条活跃任务；找不到任务时返回 404。
@@ -0,0 +1,57 @@
+import 'server-only'
+import { TRPCError } from '@trpc/server'
+import { NotificationChannelIdSchema, NotificationChannelInputSchema } from '@/schemas/notification-channel.dto'
+import {
+  createNotificationChannel,
+  deleteNotificationChannel,
+  listNotificationChannels,
+  NotificationChannelConfigError,
+  NotificationChannelNotFoundError,
+  sendTestNotification,
+  updateNotificationChannel
+} from '@/services/notification-channel-service'
+import { adminProcedure, router } from '@/server/trpc'
+
+async function runChannelCommand<T>(command: () => Promise<T>): Promise<T> {
+  try {
+    return await command()
+  } catch (error) {
+    if (error instanceof NotificationChannelConfigError) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: error.message })
+    }
+    if (error instanceof NotificationChannelNotFoundError) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: error.message })
+    }
+    throw error
+  }
+}
+
+/**
+ * 通知渠道路由：任务事件经数据库触发器写入投递表，由 Worker 负责发送与重试
+ */
+export const notificationRouter = router({
+  listChannels: adminProcedure.query(() => listNotificationChannels()),
+
+  createChannel: adminProcedure
+    .input(NotificationChannelInputSchema)
+    .mutation(({ input }) => runChannelCommand(() => createNotificationChannel(input))),
+
+  updateChannel: adminProcedure
+    .input(NotificationChannelIdSchema.extend({ channel: NotificationChannelInputSchema }))
+    .mutation(async ({ input }) => {
+      await runChannelCommand(() => updateNotificationChannel(input.id, input.channel))
+      return { success: true }
+    }),
+
+  deleteChannel: adminProcedure.input(NotificationChannelIdSchema).mutation(async ({ input }) => {
+    await runChannelCommand(() => deleteNotificationChannel(input.id))
+    return { success: true }
+  }),
+
+  /**
+   * 排入一条测试通知；实际发送结果在渠道的最近投递状态中查看
+   */
+  sendTest: adminProcedure
+    .input(NotificationChannelIdSchema)
+    .mutation(({ input }) => runChannelCommand(() => sendTestNotification(input.id)))
+})
@@ -0,0 +1,64 @@
+import 'server-only'
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { authProcedure, router } from '@/server/trpc'
+import {
+  ContinueReadingQuerySchema,
+  ReadingProgressSaveSchema,
+  type ContinueReadingItem
+} from '@/schemas/reading-progress.dto'
+import {
+  clearReadingProgress,
+  getReadingProgress,
+  getSeriesReadingProgress,
+  listUnfinishedReadingProgress,
+  saveReadingProgress
+} from '@/services/reading-progress-service'
+import { getArtworkCardsByIds } from '@/services/artwork-service'
+
+function isForeignKeyConstraintError(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2003'
+}
+
+/**
+ * 阅读进度路由：进度按用户隔离，只读写当前登录用户自己的记录
+ */
+export const readingProgressRouter = router({
+  get: authProcedure.input(z.number().int().positive()).query(async ({ input, ctx }) => {
+    return getReadingProgress(ctx.userId, input)
+  }),
+
+  save: authProcedure.input(ReadingProgressSaveSchema).mutation(async ({ input, ctx }) => {
+    try {
+      return await saveReadingProgress(ctx.userId, input)
+    } catch (error) {
+      if (isForeignKeyConstraintError(error)) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '作品不存在' })
+      }
+      throw error
+    }
+  }),
+
+  clear: authProcedure.input(z.number().int().positive()).mutation(async ({ input, ctx }) => {
+    return { success: await clearReadingProgress(ctx.userId, input) }
+  }),
+
+  /**
+   * 首页“继续阅读”：最近看过但尚未读完的作品，复用作品卡片的 getArtworkCardsByIds
+   */
+  continueReading: authProcedure
+    .input(ContinueReadingQuerySchema)
+    .query(async ({ input, ctx }): Promise<ContinueReadingItem[]> => {
+      const progress = await listUnfinishedReadingProgress(ctx.userId, input.limit)
+      const progressByArtworkId = new Map(progress.map((item) => [item.artworkId, item]))
+      const cards = await getArtworkCardsByIds(progress.map((item) => item.artworkId))
+      return cards.flatMap((artwork) => {
+        const item = progressByArtworkId.get(artwork.id)
+        return item ? [{ artwork, progress: item }] : []
+      })
+    }),
+
+  series: authProcedure.input(z.number().int().positive()).query(async ({ input, ctx }) => {
+    return getSeriesReadingProgress(ctx.userId, input)
+  })
+})
@@ -1,6 +1,6 @@
-import { searchSuggestionsSchema } from '@/schemas/search.dto'
+import { searchQuerySchema, searchSuggestionsSchema } from '@/schemas/search.dto'
 import { authProcedure, router } from '@/server/trpc'
-import { getSearchSuggestions } from '@/services/search-service'
+import { getSearchSuggestions, searchCatalog } from '@/services/search-service'
 
 /**
  * 搜索路由
@@ -11,5 +11,12 @@ export const searchRouter = router({
    */
   suggestions: authProcedure.input(searchSuggestionsSchema).query(async ({ input }) => {
     return await getSearchSuggestions(input)
+  }),
+
+  /**
+   * 统一全文搜索；仅第一页返回总数、分面统计以及艺术家、标签和系列命中
+   */
+  query: authProcedure.input(searchQuerySchema).query(async ({ input }) => {
+    return await searchCatalog(input)
   })
 })
@@ -1,6 +1,18 @@
-import { authProcedure, router } from '@/server/trpc'
-import { getScanPath, getSystemSettings, setScanPath, upsertSystemSettings } from '@/services/setting.service'
+import { adminProcedure, authProcedure, router } from '@/server/trpc'
+import {
+  getScanPath,
+  getStorageLayoutTemplate,
+  getSystemSettings,
+  setScanPath,
+  setStorageLayoutTemplate,
+  upsertSystemSettings
+} from '@/services/setting.service'
 import { systemSettingsResponseDTO, updateSystemSettingsSchema } from '@/schemas/system-setting.dto'
+import {
+  DEFAULT_STORAGE_LAYOUT_TEMPLATE,
+  STORAGE_LAYOUT_VARIABLES,
+  storageLayoutTemplateSchema
+} from '@pixishelf/job-contracts'
 import z from 'zod'
 
 export const settingRouter = router({
@@ -28,6 +40,24 @@ export const settingRouter = router({
     await setScanPath(input.value)
   }),
 
+  /**
+   * 获取存储布局模板，同时返回默认模板与可用变量供设置页展示
+   */
+  getStorageLayout: authProcedure.query(async () => {
+    const template = await getStorageLayoutTemplate()
+    return { template, defaultTemplate: DEFAULT_STORAGE_LAYOUT_TEMPLATE, variables: [...STORAGE_LAYOUT_VARIABLES] }
+  }),
+
+  /**
+   * 保存存储布局模板，模板语法与冲突规则由 job-contracts 统一校验
+   */
+  setStorageLayout: adminProcedure
+    .input(z.object({ template: storageLayoutTemplateSchema }))
+    .mutation(async ({ input }) => {
+      const template = await setStorageLayoutTemplate(input.template)
+      return { template }
+    }),
+
   getSystemSettings: authProcedure.query(async () => {
     const settings = await getSystemSettings()
     return systemSettingsResponseDTO.parse({ settings })
@@ -0,0 +1,87 @@
+import 'server-only'
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { authProcedure, router } from '@/server/trpc'
+import {
+  SmartCollectionCardsQuerySchema,
+  SmartCollectionCreateSchema,
+  SmartCollectionUpdateSchema
+} from '@/schemas/smart-collection.dto'
+import {
+  createSmartCollection,
+  deleteSmartCollection,
+  getSmartCollection,
+  getSmartCollectionFilters,
+  listSmartCollections,
+  markSmartCollectionVisited,
+  toArtworkListQuery,
+  updateSmartCollection
+} from '@/services/smart-collection-service'
+import { getArtworkCardsPage } from '@/services/artwork-service'
+
+function isUniqueConstraintError(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2002'
+}
+
+function notFound(): never {
+  throw new TRPCError({ code: 'NOT_FOUND', message: '合集不存在' })
+}
+
+async function withDuplicateNameGuard<T>(operation: () => Promise<T>) {
+  try {
+    return await operation()
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      throw new TRPCError({ code: 'CONFLICT', message: '已存在同名合集' })
+    }
+    throw error
+  }
+}
+
+/**
+ * 智能合集路由：合集按用户隔离，只能访问自己保存的筛选
+ */
+export const smartCollectionRouter = router({
+  /**
+   * 当前用户的合集，附带实时命中数与上次访问后的新增数
+   */
+  list: authProcedure.query(async ({ ctx }) => {
+    return listSmartCollections(ctx.userId)
+  }),
+
+  get: authProcedure.input(z.number().int().positive()).query(async ({ input, ctx }) => {
+    return (await getSmartCollection(ctx.userId, input)) ?? notFound()
+  }),
+
+  /**
+   * 合集作品卡片分页，复用作品列表的 getArtworkCardsPage
+   */
+  cards: authProcedure.input(SmartCollectionCardsQuerySchema).query(async ({ input, ctx }) => {
+    const filters = (await getSmartCollectionFilters(ctx.userId, input.id)) ?? notFound()
+    const page = input.cursor ?? 1
+    const result = await getArtworkCardsPage(toArtworkListQuery(filters, { cursor: page, pageSize: input.pageSize }))
+    return {
+      items: result.items,
+      nextCursor: result.hasNextPage ? page + 1 : undefined,
+      total: result.total
+    }
+  }),
+
+  create: authProcedure.input(SmartCollectionCreateSchema).mutation(async ({ input, ctx }) => {
+    return withDuplicateNameGuard(() => createSmartCollection(ctx.userId, input))
+  }),
+
+  update: authProcedure.input(SmartCollectionUpdateSchema).mutation(async ({ input, ctx }) => {
+    return (await withDuplicateNameGuard(() => updateSmartCollection(ctx.userId, input))) ?? notFound()
+  }),
+
+  delete: authProcedure.input(z.number().int().positive()).mutation(async ({ input, ctx }) => {
+    if (!(await deleteSmartCollection(ctx.userId, input))) notFound()
+    return { success: true }
+  }),
+
+  markVisited: authProcedure.input(z.number().int().positive()).mutation(async ({ input, ctx }) => {
+    if (!(await markSmartCollectionVisited(ctx.userId, input))) notFound()
+    return { success: true }
+  })
+})
@@ -1,6 +1,15 @@
 import { z } from 'zod'
-import { router, authProcedure } from '@/server/trpc'
+import { TRPCError } from '@trpc/server'
+import { router, authProcedure, adminProcedure } from '@/server/trpc'
 import * as tagService from '@/services/tag-service'
+import * as tagRuleService from '@/services/tag-rule-service'
+import { listTagMerges, mergeTags, undoTagMerge } from '@/services/tag-merge-service'
+import {
+  TagAliasCreateSchema,
+  TagImplicationCreateSchema,
+  TagMergeListQuerySchema,
+  TagMergeSchema
+} from '@/schemas/tag-rule.dto'
 import { prisma } from '@/lib/prisma'
 import { TagManagementStats } from '@/types/tags'
 
@@ -28,6 +37,20 @@ async function getTagManagementStats(): Promise<TagManagementStats> {
   }
 }
 
+/**
+ * 把标签规则的业务错误转换为对应的 tRPC 错误码
+ */
+async function withTagRuleErrors<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation()
+  } catch (error) {
+    if (error instanceof tagRuleService.TagRuleError) {
+      throw new TRPCError({ code: error.code, message: error.message })
+    }
+    throw error
+  }
+}
+
 export const tagRouter = router({
   getByIds: authProcedure
     .input(
@@ -224,5 +247,45 @@ export const tagRouter = router({
    */
   delete: authProcedure.input(z.number()).mutation(async ({ input }) => {
     return tagService.deleteTag(input)
+  }),
+
+  /**
+   * 标签的别名与蕴含关系
+   */
+  rules: adminProcedure.input(z.object({ tagId: z.number().int().positive() })).query(async ({ input }) => {
+    return withTagRuleErrors(() => tagRuleService.getTagRules(input.tagId))
+  }),
+
+  createAlias: adminProcedure.input(TagAliasCreateSchema).mutation(async ({ ctx, input }) => {
+    return withTagRuleErrors(() => tagRuleService.createTagAlias(ctx.userId, input))
+  }),
+
+  deleteAlias: adminProcedure.input(z.object({ id: z.number().int().positive() })).mutation(async ({ input }) => {
+    return withTagRuleErrors(() => tagRuleService.deleteTagAlias(input.id))
+  }),
+
+  createImplication: adminProcedure.input(TagImplicationCreateSchema).mutation(async ({ ctx, input }) => {
+    return withTagRuleErrors(() => tagRuleService.createTagImplication(ctx.userId, input))
+  }),
+
+  deleteImplication: adminProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input }) => {
+      return withTagRuleErrors(() => tagRuleService.deleteTagImplication(input.id))
+    }),
+
+  /**
+   * 合并标签：源标签的作品关联迁移到目标标签，源标签名保留为别名
+   */
+  merge: adminProcedure.input(TagMergeSchema).mutation(async ({ ctx, input }) => {
+    return withTagRuleErrors(() => mergeTags(ctx.userId, input))
+  }),
+
+  merges: adminProcedure.input(TagMergeListQuerySchema).query(async ({ input }) => {
+    return listTagMerges(input)
+  }),
+
+  undoMerge: adminProcedure.input(z.object({ id: z.string().min(1) })).mutation(async ({ ctx, input }) => {
+    return withTagRuleErrors(() => undoTagMerge(ctx.userId, input.id))
   })
 })
@@ -25,6 +25,7 @@ const {
 }))
 
 vi.mock('server-only', () => ({}))
+vi.mock('@/services/maintenance-mode-service', () => ({ assertWritable: vi.fn() }))
 
 vi.mock('@/lib/rate-limit', () => ({
   rateLimiter: {
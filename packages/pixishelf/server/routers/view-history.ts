@@ -0,0 +1,72 @@
+import 'server-only'
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { authProcedure, router } from '@/server/trpc'
+import {
+  ViewHistoryHeartbeatSchema,
+  ViewHistoryListQuerySchema,
+  ViewHistoryStartSchema,
+  ViewStatsQuerySchema,
+  type ViewHistoryPage
+} from '@/schemas/view-history.dto'
+import {
+  clearViewHistory,
+  getViewStats,
+  listViewHistory,
+  recordViewHeartbeat,
+  removeViewHistory,
+  startViewHistory
+} from '@/services/view-history-service'
+import { getArtworkCardsByIds } from '@/services/artwork-service'
+
+function isForeignKeyConstraintError(error: unknown) {
+  return typeof error === 'object' && error !== null && 'code' in error && error.code === 'P2003'
+}
+
+/**
+ * 浏览历史路由：只读写当前登录用户自己的记录
+ */
+export const viewHistoryRouter = router({
+  start: authProcedure.input(ViewHistoryStartSchema).mutation(async ({ input, ctx }) => {
+    try {
+      return await startViewHistory(ctx.userId, input)
+    } catch (error) {
+      if (isForeignKeyConstraintError(error)) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: '作品不存在' })
+      }
+      throw error
+    }
+  }),
+
+  heartbeat: authProcedure.input(ViewHistoryHeartbeatSchema).mutation(async ({ input, ctx }) => {
+    return { success: await recordViewHeartbeat(ctx.userId, input) }
+  }),
+
+  /**
+   * 按作品聚合的浏览历史，卡片数据在路由层组装，避免服务之间互相引用
+   */
+  list: authProcedure.input(ViewHistoryListQuerySchema).query(async ({ input, ctx }): Promise<ViewHistoryPage> => {
+    const { entries, nextCursor } = await listViewHistory(ctx.userId, input)
+    const entryByArtworkId = new Map(entries.map((entry) => [entry.artworkId, entry]))
+    const cards = await getArtworkCardsByIds(entries.map((entry) => entry.artworkId))
+    return {
+      items: cards.flatMap((artwork) => {
+        const history = entryByArtworkId.get(artwork.id)
+        return history ? [{ artwork, history }] : []
+      }),
+      nextCursor
+    }
+  }),
+
+  remove: authProcedure.input(z.number().int().positive()).mutation(async ({ input, ctx }) => {
+    return { count: await removeViewHistory(ctx.userId, input) }
+  }),
+
+  clear: authProcedure.mutation(async ({ ctx }) => {
+    return { count: await clearViewHistory(ctx.userId) }
+  }),
+
+  stats: authProcedure.input(ViewStatsQuerySchema).query(async ({ input, ctx }) => {
+    return getViewStats({ userId: ctx.userId, days: input.days, timeZone: input.timeZone })
+  })
+})
@@ -1,6 +1,8 @@
 import { initTRPC, TRPCError } from '@trpc/server'
 import { type Context } from './context'
 import { rateLimiter } from '@/lib/rate-limit'
+import { MaintenanceModeActiveError } from '@/services/backup-checkpoint/maintenance-mode'
+import { assertWritable } from '@/services/maintenance-mode-service'
 
 // 不要导出完整的 t 对象（含义不直观）。
 // 例如，很多 i18n 库都把“t”作为通用变量名，语义会冲突。
@@ -23,14 +25,23 @@ const rateLimitMiddleware = t.middleware(({ ctx, next }) => {
 })
 
 /**
- * 公共过程
+ * 维护模式期间拒绝所有 mutation，查询不受影响
  */
-export const publicProcedure = t.procedure.use(rateLimitMiddleware)
+const maintenanceWriteGuard = t.middleware(async ({ type, next }) => {
+  if (type === 'mutation') {
+    try {
+      await assertWritable()
+    } catch (error) {
+      if (error instanceof MaintenanceModeActiveError) {
+        throw new TRPCError({ code: 'SERVICE_UNAVAILABLE', message: error.message })
+      }
+      throw error
+    }
+  }
+  return next()
+})
 
-/**
- *受保护的过程
- */
-export const authProcedure = publicProcedure.use(({ ctx, next }) => {
+const sessionMiddleware = t.middleware(({ ctx, next }) => {
   if (!ctx.session || !ctx.user) {
     throw new TRPCError({ code: 'UNAUTHORIZED' })
   }
@@ -43,6 +54,16 @@ export const authProcedure = publicProcedure.use(({ ctx, next }) => {
   })
 })
 
+/**
+ * 公共过程
+ */
+export const publicProcedure = t.procedure.use(rateLimitMiddleware).use(maintenanceWriteGuard)
+
+/**
+ *受保护的过程
+ */
+export const authProcedure = t.procedure.use(rateLimitMiddleware).use(sessionMiddleware).use(maintenanceWriteGuard)
+
 /**
  * 管理面过程边界。
  *
@@ -50,3 +71,9 @@ export const authProcedure = publicProcedure.use(({ ctx, next }) => {
  * 让后台任务等敏感接口不会散落使用普通认证入口，也便于未来在这里集中增加角色校验。
  */
 export const adminProcedure = authProcedure
+
+/**
+ * 唯一不受维护模式写入拦截的管理过程，只用于查看和切换维护模式本身；
+ * 否则开启维护模式后将无法从界面退出。
+ */
+export const maintenanceControlProcedure = t.procedure.use(rateLimitMiddleware).use(sessionMiddleware)
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { findUniqueMock, upsertMock, updateMock } = vi.hoisted(() => ({
+  findUniqueMock: vi.fn(),
+  upsertMock: vi.fn(),
+  updateMock: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    userAccessToken: { findUnique: findUniqueMock, upsert: upsertMock, update: updateMock }
+  }
+}))
+
+import { authenticateAccessToken, hashAccessToken, issueAccessToken } from '../access-token-service'
+
+describe('access token service', () => {
+  beforeEach(() => {
+    findUniqueMock.mockReset()
+    upsertMock.mockReset()
+    updateMock.mockReset()
+  })
+
+  it('stores only the digest and a display prefix when issuing a token', async () => {
+    upsertMock.mockImplementation(async ({ update }) => ({ scope: 'FEED', ...update }))
+
+    const issued = await issueAccessToken('user-1', 'FEED')
+
+    expect(issued.token).toMatch(/^psf_[\w-]{43}$/)
+    const [{ where, create, update }] = upsertMock.mock.calls[0]!
+    expect(where).toEqual({ userId_scope: { userId: 'user-1', scope: 'FEED' } })
+    expect(create).toMatchObject({ userId: 'user-1', scope: 'FEED', tokenHash: hashAccessToken(issued.token) })
+    expect(update.tokenPrefix).toBe(issued.token.slice(0, 12))
+    expect(JSON.stringify(upsertMock.mock.calls[0])).not.toContain(issued.token)
+  })
+
+  it('rejects tokens issued for another scope', async () => {
+    findUniqueMock.mockResolvedValue({ id: 'token-1', userId: 'user-1', scope: 'INGEST', lastUsedAt: null })
+
+    await expect(authenticateAccessToken('psf_abc', 'FEED')).resolves.toBeNull()
+    expect(findUniqueMock).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tokenHash: hashAccessToken('psf_abc') } })
+    )
+  })
+
+  it('returns the owner and throttles lastUsedAt writes', async () => {
+    findUniqueMock.mockResolvedValueOnce({ id: 'token-1', userId: 'user-1', scope: 'FEED', lastUsedAt: null })
+    findUniqueMock.mockResolvedValueOnce({ id: 'token-1', userId: 'user-1', scope: 'FEED', lastUsedAt: new Date() })
+
+    await expect(authenticateAccessToken('psf_abc', 'FEED')).resolves.toBe('user-1')
+    await expect(authenticateAccessToken('psf_abc', 'FEED')).resolves.toBe('user-1')
+
+    expect(updateMock).toHaveBeenCalledOnce()
+  })
+
+  it('skips the lookup for values that are not access tokens', async () => {
+    await expect(authenticateAccessToken('session-cookie-value', 'FEED')).resolves.toBeNull()
+    expect(findUniqueMock).not.toHaveBeenCalled()
+  })
+})
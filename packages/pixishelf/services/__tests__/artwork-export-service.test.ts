@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  seriesFindUnique: vi.fn(),
+  seriesArtworkCount: vi.fn(),
+  artworkCount: vi.fn(),
+  artworkFindFirst: vi.fn(),
+  exportCreate: vi.fn(),
+  exportFindUnique: vi.fn(),
+  enqueueJob: vi.fn(),
+  buildMigrationSelection: vi.fn(),
+  buildWhere: vi.fn()
+}))
+
+vi.mock('@/lib/prisma', () => {
+  const prisma = {
+    series: { findUnique: mocks.seriesFindUnique },
+    seriesArtwork: { count: mocks.seriesArtworkCount },
+    artwork: { count: mocks.artworkCount, findFirst: mocks.artworkFindFirst },
+    artworkExport: { create: mocks.exportCreate, findUnique: mocks.exportFindUnique },
+    $transaction: vi.fn((operation: (transaction: unknown) => unknown) => operation(prisma))
+  }
+  return { prisma }
+})
+
+vi.mock('@/services/background-task/job-command-service', () => ({ enqueueJob: mocks.enqueueJob }))
+vi.mock('@/services/migration-service', () => ({ buildMigrationSelection: mocks.buildMigrationSelection }))
+vi.mock('@pixishelf/job-executors', () => ({ buildMigrationArtworkWhere: mocks.buildWhere }))
+vi.mock('@/services/derived-media-storage-paths', () => ({
+  ARTWORK_EXPORT_STORAGE_ROOT: '/data/derived/exports',
+  resolveDerivedMediaStoragePath: (root: string, relativePath: string) => `${root}/${relativePath}`
+}))
+
+import { ArtworkExportServiceError, createArtworkExport, resolveArtworkExportDownload } from '../artwork-export-service'
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+
+function exportRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'export-1',
+    systemJobId: 'job-1',
+    label: 'Artist - Title',
+    format: 'CBZ',
+    selectionMode: 'ARTWORK_IDS',
+    status: 'PENDING',
+    requestedCount: 1,
+    artworkCount: 0,
+    fileCount: 0,
+    skippedCount: 0,
+    fileName: null,
+    sizeBytes: null,
+    error: null,
+    expiresAt: null,
+    completedAt: null,
+    createdAt: NOW,
+    systemJob: { status: 'PENDING', error: null },
+    ...overrides
+  }
+}
+
+describe('artwork export service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.enqueueJob.mockResolvedValue({ id: 'job-1' })
+    mocks.exportCreate.mockImplementation(async ({ data }) => exportRow(data))
+    mocks.buildWhere.mockReturnValue({ id: { in: [7] } })
+  })
+
+  it('enqueues a single-artwork export with the canonical selection and an artist - title label', async () => {
+    mocks.buildMigrationSelection.mockResolvedValue({ mode: 'ARTWORK_IDS', artworkIds: [7] })
+    mocks.artworkCount.mockResolvedValue(1)
+    mocks.artworkFindFirst.mockResolvedValue({ title: 'Title', artist: { name: 'Artist' } })
+
+    const item = await createArtworkExport('user-1', { selection: { mode: 'ARTWORK_IDS', artworkIds: [7] } })
+
+    expect(mocks.enqueueJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'ARTWORK_EXPORT',
+        requestedByUserId: 'user-1',
+        payload: { selection: { mode: 'ARTWORK_IDS', artworkIds: [7] }, format: 'CBZ', retentionHours: 72 }
+      }),
+      expect.anything()
+    )
+    expect(mocks.exportCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ systemJobId: 'job-1', label: 'Artist - Title', requestedCount: 1 })
+      })
+    )
+    expect(item).toMatchObject({ status: 'PENDING', downloadUrl: null })
+  })
+
+  it('labels a series export with the series title and rejects unknown series', async () => {
+    mocks.seriesFindUnique.mockResolvedValueOnce({ title: 'My Series' })
+    mocks.seriesArtworkCount.mockResolvedValue(4)
+
+    await createArtworkExport('user-1', { selection: { mode: 'SERIES', seriesId: 3 }, format: 'ZIP' })
+
+    expect(mocks.enqueueJob.mock.calls[0]?.[0].payload).toEqual({
+      selection: { mode: 'SERIES', seriesId: 3 },
+      format: 'ZIP',
+      retentionHours: 72
+    })
+    expect(mocks.exportCreate.mock.calls[0]?.[0].data).toMatchObject({ label: 'My Series', selectionMode: 'SERIES' })
+
+    mocks.seriesFindUnique.mockResolvedValueOnce(null)
+    await expect(createArtworkExport('user-1', { selection: { mode: 'SERIES', seriesId: 4 } })).rejects.toMatchObject({
+      code: 'NOT_FOUND'
+    })
+  })
+
+  it('refuses empty and oversized selections before enqueueing', async () => {
+    mocks.buildMigrationSelection.mockResolvedValue({
+      mode: 'QUERY',
+      upperArtworkId: 100,
+      filters: { search: 'x', exactMatch: false }
+    })
+    mocks.artworkCount.mockResolvedValueOnce(0).mockResolvedValueOnce(501)
+
+    const selection = { mode: 'QUERY' as const, filters: { search: 'x' } }
+    await expect(createArtworkExport('user-1', { selection })).rejects.toBeInstanceOf(ArtworkExportServiceError)
+    await expect(createArtworkExport('user-1', { selection })).rejects.toThrow('单次最多导出 500 个作品')
+    expect(mocks.enqueueJob).not.toHaveBeenCalled()
+  })
+
+  it('only resolves downloads for ready exports that have not expired', async () => {
+    const ready = {
+      status: 'READY',
+      relativePath: 'export-1.cbz',
+      fileName: 'Artist - Title.cbz',
+      expiresAt: new Date(NOW.getTime() + 1000)
+    }
+    mocks.exportFindUnique
+      .mockResolvedValueOnce(ready)
+      .mockResolvedValueOnce({ ...ready, expiresAt: NOW })
+      .mockResolvedValueOnce({ ...ready, status: 'PENDING' })
+
+    await expect(resolveArtworkExportDownload('export-1', NOW)).resolves.toEqual({
+      filePath: '/data/derived/exports/export-1.cbz',
+      fileName: 'Artist - Title.cbz'
+    })
+    await expect(resolveArtworkExportDownload('export-1', NOW)).resolves.toBeNull()
+    await expect(resolveArtworkExportDownload('export-1', NOW)).resolves.toBeNull()
+  })
+})
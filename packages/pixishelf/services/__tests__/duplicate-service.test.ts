@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { queryRawMock, dismissalCreateManyMock, relationDeleteManyMock, relationCreateManyMock, getCardsMock } =
+  vi.hoisted(() => ({
+    queryRawMock: vi.fn(),
+    dismissalCreateManyMock: vi.fn(),
+    relationDeleteManyMock: vi.fn(),
+    relationCreateManyMock: vi.fn(),
+    getCardsMock: vi.fn()
+  }))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRawUnsafe: queryRawMock,
+    artworkDuplicateDismissal: { createMany: dismissalCreateManyMock },
+    $transaction: (operation: (tx: unknown) => Promise<unknown>) =>
+      operation({ artworkRelation: { deleteMany: relationDeleteManyMock, createMany: relationCreateManyMock } })
+  }
+}))
+vi.mock('@/services/artwork-service', () => ({ getArtworkCardsByIds: getCardsMock }))
+
+import {
+  dismissDuplicateArtworks,
+  groupDuplicatePairs,
+  linkDuplicateArtworks,
+  listDuplicateClusters
+} from '../duplicate-service'
+
+function pair(artworkId: number, otherArtworkId: number, distance: number) {
+  return { artworkId, otherArtworkId, distance, matchedImages: 1 }
+}
+
+describe('duplicate service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('merges transitive pairs into one cluster ordered by closest distance', () => {
+    const groups = groupDuplicatePairs([pair(5, 9, 2), pair(1, 5, 3), pair(20, 21, 0)])
+
+    expect(groups.map(({ key, distance, artworkIds }) => ({ key, distance, artworkIds }))).toEqual([
+      { key: 20, distance: 0, artworkIds: [20, 21] },
+      { key: 1, distance: 2, artworkIds: [1, 5, 9] }
+    ])
+    expect(groups[1]!.pairs).toHaveLength(2)
+  })
+
+  it('compares banded hashes in SQL and drops artworks that no longer have cards', async () => {
+    queryRawMock.mockResolvedValue([
+      { artwork_id: 1, other_artwork_id: 2, distance: 1, matched_images: 3 },
+      { artwork_id: 7, other_artwork_id: 8, distance: 2, matched_images: 1 }
+    ])
+    getCardsMock.mockResolvedValue([{ id: 1 }, { id: 2 }, { id: 7 }])
+
+    const clusters = await listDuplicateClusters({ maxDistance: 3, limit: 20 })
+
+    const [sql, maxDistance, rowLimit] = queryRawMock.mock.calls[0]!
+    expect(sql).toContain('bit_count((l.hash # r.hash)::bit(64))')
+    expect(sql).toContain('artwork_duplicate_dismissals')
+    expect([maxDistance, rowLimit]).toEqual([3, 200])
+    expect(getCardsMock).toHaveBeenCalledWith([1, 2, 7, 8])
+    expect(clusters).toEqual([
+      {
+        key: 1,
+        distance: 1,
+        artworks: [{ id: 1 }, { id: 2 }],
+        pairs: [{ artworkId: 1, otherArtworkId: 2, distance: 1, matchedImages: 3 }]
+      }
+    ])
+  })
+
+  it('points every other artwork at the canonical one and clears conflicting links', async () => {
+    relationCreateManyMock.mockResolvedValue({ count: 2 })
+
+    await expect(linkDuplicateArtworks({ canonicalArtworkId: 5, artworkIds: [3, 5, 9] })).resolves.toEqual({
+      linked: 2
+    })
+
+    expect(relationDeleteManyMock).toHaveBeenCalledWith({
+      where: {
+        type: 'DUPLICATE_OF',
+        OR: [
+          { fromArtworkId: 5, toArtworkId: { in: [3, 9] } },
+          { fromArtworkId: { in: [3, 9] }, toArtworkId: { not: 5 } }
+        ]
+      }
+    })
+    expect(relationCreateManyMock).toHaveBeenCalledWith({
+      data: [
+        { fromArtworkId: 3, toArtworkId: 5, type: 'DUPLICATE_OF' },
+        { fromArtworkId: 9, toArtworkId: 5, type: 'DUPLICATE_OF' }
+      ],
+      skipDuplicates: true
+    })
+  })
+
+  it('records dismissals for every ordered pair in the group', async () => {
+    dismissalCreateManyMock.mockResolvedValue({ count: 3 })
+
+    await expect(dismissDuplicateArtworks('user-1', { artworkIds: [9, 2, 4] })).resolves.toEqual({ dismissed: 3 })
+    expect(dismissalCreateManyMock).toHaveBeenCalledWith({
+      data: [
+        { artworkId: 2, otherArtworkId: 4, dismissedByUserId: 'user-1' },
+        { artworkId: 2, otherArtworkId: 9, dismissedByUserId: 'user-1' },
+        { artworkId: 4, otherArtworkId: 9, dismissedByUserId: 'user-1' }
+      ],
+      skipDuplicates: true
+    })
+  })
+})
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  issueGroupBy: vi.fn(),
+  issueFindMany: vi.fn(),
+  issueFindUnique: vi.fn(),
+  issueUpdateMany: vi.fn(),
+  artworkFindMany: vi.fn(),
+  checkpointFindMany: vi.fn(),
+  imageUpdateMany: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    mediaIntegrityIssue: {
+      groupBy: mocks.issueGroupBy,
+      findMany: mocks.issueFindMany
+    },
+    artwork: { findMany: mocks.artworkFindMany },
+    backupCheckpoint: { findMany: mocks.checkpointFindMany },
+    $transaction: (operation: (tx: unknown) => Promise<unknown>) =>
+      operation({
+        mediaIntegrityIssue: { findUnique: mocks.issueFindUnique, updateMany: mocks.issueUpdateMany },
+        image: { updateMany: mocks.imageUpdateMany }
+      })
+  }
+}))
+
+import { acceptMediaIntegrityIssue, getMediaIntegrityReport, pickLastGoodCheckpoint } from '../media-integrity-service'
+
+const checkpoints = [
+  {
+    id: 3,
+    label: 'October',
+    location: '/backups/10',
+    takenAt: new Date('2026-10-01T00:00:00.000Z'),
+    note: null,
+    manifestSha256: null
+  },
+  {
+    id: 2,
+    label: 'September',
+    location: '/backups/09',
+    takenAt: new Date('2026-09-01T00:00:00.000Z'),
+    note: null,
+    manifestSha256: null
+  },
+  {
+    id: 1,
+    label: 'August',
+    location: null,
+    takenAt: new Date('2026-08-01T00:00:00.000Z'),
+    note: null,
+    manifestSha256: null
+  }
+]
+
+function issue(id: number, artworkId: number | null, lastVerifiedAt: string | null) {
+  return {
+    id,
+    imageId: id * 10,
+    artworkId,
+    path: `art/${id}.png`,
+    kind: 'MISMATCH' as const,
+    expectedSha256: 'a'.repeat(64),
+    actualSha256: 'b'.repeat(64),
+    lastVerifiedAt: lastVerifiedAt ? new Date(lastVerifiedAt) : null,
+    baselineSince: lastVerifiedAt ? new Date('2026-07-15T00:00:00.000Z') : null,
+    detectedAt: new Date('2026-10-19T00:00:00.000Z'),
+    lastSeenAt: new Date('2026-10-19T00:00:00.000Z')
+  }
+}
+
+describe('media integrity service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('picks the newest checkpoint taken while every affected file was still good', () => {
+    const since = new Date('2026-07-15T00:00:00.000Z')
+    expect(
+      pickLastGoodCheckpoint(
+        [
+          { lastVerifiedAt: new Date('2026-10-10T00:00:00.000Z'), baselineSince: since },
+          { lastVerifiedAt: new Date('2026-09-15T00:00:00.000Z'), baselineSince: since }
+        ],
+        checkpoints
+      )?.label
+    ).toBe('September')
+    expect(
+      pickLastGoodCheckpoint(
+        [{ lastVerifiedAt: new Date('2026-07-01T00:00:00.000Z'), baselineSince: new Date('2026-06-01T00:00:00.000Z') }],
+        checkpoints
+      )
+    ).toBeNull()
+    expect(
+      pickLastGoodCheckpoint(
+        [
+          { lastVerifiedAt: new Date('2026-10-10T00:00:00.000Z'), baselineSince: since },
+          { lastVerifiedAt: null, baselineSince: null }
+        ],
+        checkpoints
+      )
+    ).toBeNull()
+  })
+
+  it('never picks a checkpoint taken before the file entered the library', () => {
+    const verifiedAt = new Date('2026-10-10T00:00:00.000Z')
+    expect(
+      pickLastGoodCheckpoint(
+        [{ lastVerifiedAt: verifiedAt, baselineSince: new Date('2026-10-05T00:00:00.000Z') }],
+        checkpoints
+      )
+    ).toBeNull()
+    expect(
+      pickLastGoodCheckpoint(
+        [
+          { lastVerifiedAt: verifiedAt, baselineSince: new Date('2026-07-15T00:00:00.000Z') },
+          { lastVerifiedAt: verifiedAt, baselineSince: new Date('2026-08-20T00:00:00.000Z') }
+        ],
+        checkpoints.slice(1)
+      )?.label
+    ).toBe('September')
+    expect(pickLastGoodCheckpoint([{ lastVerifiedAt: verifiedAt, baselineSince: null }], checkpoints)).toBeNull()
+  })
+
+  it('groups open issues by artwork and links each artwork to its last good backup', async () => {
+    mocks.issueGroupBy
+      .mockResolvedValueOnce([{ artworkId: 7 }, { artworkId: null }])
+      .mockResolvedValueOnce([{ artworkId: 7 }, { artworkId: null }, { artworkId: 9 }])
+    mocks.issueFindMany.mockResolvedValue([
+      issue(1, 7, '2026-10-05T00:00:00.000Z'),
+      issue(2, 7, '2026-10-12T00:00:00.000Z'),
+      issue(3, null, null)
+    ])
+    mocks.artworkFindMany.mockResolvedValue([{ id: 7, title: 'Seven', artist: { name: 'Painter' } }])
+    mocks.checkpointFindMany.mockResolvedValue(checkpoints)
+
+    const report = await getMediaIntegrityReport({ page: 1, pageSize: 2 })
+
+    expect(mocks.issueGroupBy.mock.calls[0]?.[0]).toMatchObject({ where: { resolvedAt: null }, skip: 0, take: 2 })
+    expect(mocks.issueFindMany.mock.calls[0]?.[0]?.where).toEqual({
+      resolvedAt: null,
+      OR: [{ artworkId: { in: [7] } }, { artworkId: null }]
+    })
+    expect(report.total).toBe(3)
+    expect(report.items[0]).toMatchObject({
+      artwork: { id: 7, title: 'Seven', artistName: 'Painter' },
+      lastGoodCheckpoint: { id: 3, label: 'October', takenAt: '2026-10-01T00:00:00.000Z' },
+      hasUnverifiedFiles: false
+    })
+    expect(report.items[0]?.issues.map((item) => item.id)).toEqual([1, 2])
+    expect(report.items[1]).toMatchObject({ artwork: null, lastGoodCheckpoint: null, hasUnverifiedFiles: true })
+  })
+
+  it('accepting an issue clears the image baseline so the next scrub hashes it again', async () => {
+    mocks.issueFindUnique.mockResolvedValue({ id: 4, imageId: 40, resolvedAt: null })
+    mocks.issueUpdateMany.mockResolvedValue({ count: 1 })
+
+    await expect(acceptMediaIntegrityIssue({ issueId: 4 })).resolves.toEqual({ id: 4 })
+    expect(mocks.imageUpdateMany).toHaveBeenCalledWith({
+      where: { id: 40 },
+      data: expect.objectContaining({ contentSha256: null, contentCheckedAt: null })
+    })
+    expect(mocks.issueUpdateMany).toHaveBeenCalledWith({
+      where: { imageId: 40, resolvedAt: null },
+      data: { resolvedAt: expect.any(Date), resolution: 'ACCEPTED' }
+    })
+  })
+
+  it('refuses to accept an issue that is already resolved', async () => {
+    mocks.issueFindUnique.mockResolvedValue({ id: 4, imageId: 40, resolvedAt: new Date() })
+
+    await expect(acceptMediaIntegrityIssue({ issueId: 4 })).rejects.toMatchObject({ code: 'CONFLICT' })
+    expect(mocks.imageUpdateMany).not.toHaveBeenCalled()
+  })
+})
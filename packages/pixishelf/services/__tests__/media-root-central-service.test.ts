@@ -4,6 +4,7 @@ const mocks = vi.hoisted(() => ({
   enqueue: vi.fn(),
   systemEnqueue: vi.fn(),
   getScanPath: vi.fn(),
+  getStorageLayoutTemplate: vi.fn(),
   getSystemSettings: vi.fn(),
   buildMigrationSelection: vi.fn(),
   artworkFindUnique: vi.fn(),
@@ -22,6 +23,7 @@ vi.mock('@/services/background-task/manual-job-singleton', () => ({
 }))
 vi.mock('@/services/setting.service', () => ({
   getScanPath: mocks.getScanPath,
+  getStorageLayoutTemplate: mocks.getStorageLayoutTemplate,
   getSystemSettings: mocks.getSystemSettings
 }))
 vi.mock('@/services/migration-service', () => ({ buildMigrationSelection: mocks.buildMigrationSelection }))
@@ -55,6 +57,7 @@ describe('central media root enqueue semantics', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mocks.getScanPath.mockResolvedValue('D:/scan')
+    mocks.getStorageLayoutTemplate.mockResolvedValue('{creatorId}/{externalId}')
     mocks.artworkFindUnique.mockResolvedValue({
       id: 7,
       source: 'LOCAL_IMPORT',
@@ -108,6 +111,20 @@ describe('central media root enqueue semantics', () => {
     for (const [job] of mocks.enqueue.mock.calls) expect(job).not.toHaveProperty('idempotencyKey')
   })
 
+  it('freezes the configured storage layout template into queued migrations', async () => {
+    mocks.getStorageLayoutTemplate.mockResolvedValue('{provider}/{creator}/{externalId}-{title}')
+    mocks.enqueue.mockResolvedValue({ job: { id: 'migration-layout' }, reused: false })
+
+    await enqueueCentralMigration({ requestedByUserId: 'admin-1', selectionInput: { targetIds: [7] } })
+
+    expect(mocks.enqueue).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'MIGRATION',
+        payload: expect.objectContaining({ layout: { template: '{provider}/{creator}/{externalId}-{title}' } })
+      })
+    )
+  })
+
   it('queues webhook scans as SYSTEM priority without a requested user', async () => {
     mocks.systemEnqueue.mockResolvedValue({ job: { id: 'system-scan' }, reused: false })
 
@@ -360,4 +377,41 @@ describe('central media root enqueue semantics', () => {
     })
     expect(mocks.fingerprint).not.toHaveBeenCalled()
   })
+
+  it('freezes archives as MEDIA_ARCHIVE inputs and skips archives whose extracted artwork exists', async () => {
+    mocks.artworkFindMany.mockResolvedValue([{ storagePath: 'local-imports/artist/Done' }])
+    mocks.mappingFindMany.mockResolvedValue([{ artistDirectory: 'artist', artistId: 9 }])
+    const localWorkCreateMany = vi.fn().mockResolvedValue({ count: 1 })
+    const transaction = {
+      scanRun: { findUnique: vi.fn().mockResolvedValue(null), create: vi.fn().mockResolvedValue({ id: 'local-run' }) },
+      scanRunLocalWorkInput: { createMany: localWorkCreateMany },
+      scanRunLocalArtistMappingInput: { createMany: vi.fn().mockResolvedValue({ count: 1 }) }
+    }
+    mocks.enqueue.mockImplementationOnce(async (_request, options) => {
+      await options.afterEnqueue({ transaction, job: { id: 'local-job' }, reused: false })
+      return { job: { id: 'local-job' }, reused: false }
+    })
+
+    await enqueueCentralLocalDirectoryImport({
+      requestedByUserId: 'admin-1',
+      storagePaths: ['local-imports/artist/Book.cbz', 'local-imports/artist/Done.zip']
+    })
+
+    expect(mocks.artworkFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { storagePath: { in: ['local-imports/artist/Book', 'local-imports/artist/Done'] } }
+      })
+    )
+    expect(localWorkCreateMany).toHaveBeenCalledWith({
+      data: [
+        {
+          scanRunId: 'local-run',
+          ordinal: 0,
+          kind: 'MEDIA_ARCHIVE',
+          relativePath: 'local-imports/artist/Book.cbz',
+          fingerprint: null
+        }
+      ]
+    })
+  })
 })
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { channel, delivery } = vi.hoisted(() => ({
+  channel: {
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    deleteMany: vi.fn()
+  },
+  delivery: { groupBy: vi.fn(), create: vi.fn() }
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { notificationChannel: channel, notificationDelivery: delivery }
+}))
+
+import {
+  createNotificationChannel,
+  listNotificationChannels,
+  NotificationChannelConfigError,
+  NotificationChannelNotFoundError,
+  sendTestNotification,
+  updateNotificationChannel
+} from '../notification-channel-service'
+
+const filters = { jobTypes: [], levels: [], eventTypes: ['job.failed' as const] }
+const storedWebhook = {
+  id: 'channel-1',
+  name: 'ops',
+  kind: 'WEBHOOK' as const,
+  enabled: true,
+  config: { url: 'https://hooks.example/pixishelf', secret: 'shared-secret' },
+  jobTypes: [],
+  levels: [],
+  eventTypes: ['job.failed'],
+  createdAt: new Date('2026-10-08T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-08T00:00:00.000Z')
+}
+
+describe('notification channel service', () => {
+  beforeEach(() => {
+    for (const mock of [...Object.values(channel), ...Object.values(delivery)]) mock.mockReset()
+  })
+
+  it('never returns stored secrets when listing channels', async () => {
+    channel.findMany.mockResolvedValue([{ ...storedWebhook, deliveries: [] }])
+    delivery.groupBy.mockResolvedValue([{ channelId: 'channel-1', _count: { _all: 2 } }])
+
+    const [listed] = await listNotificationChannels()
+
+    expect(listed).toMatchObject({
+      config: { url: 'https://hooks.example/pixishelf' },
+      secretFields: ['secret'],
+      pendingDeliveries: 2,
+      lastDelivery: null
+    })
+    expect(JSON.stringify(listed)).not.toContain('shared-secret')
+  })
+
+  it('keeps the stored secret when an update leaves it blank', async () => {
+    channel.findUnique.mockResolvedValue(storedWebhook)
+
+    await updateNotificationChannel('channel-1', {
+      name: 'ops',
+      enabled: true,
+      kind: 'WEBHOOK',
+      config: { url: 'https://hooks.example/v2', secret: '' },
+      filters
+    })
+
+    expect(channel.update).toHaveBeenCalledWith({
+      where: { id: 'channel-1' },
+      data: expect.objectContaining({
+        config: { url: 'https://hooks.example/v2', secret: 'shared-secret' },
+        eventTypes: ['job.failed']
+      })
+    })
+  })
+
+  it('rejects transport configs that do not match the channel kind', async () => {
+    await expect(
+      createNotificationChannel({
+        name: 'mail',
+        enabled: true,
+        kind: 'SMTP',
+        config: { host: 'smtp.example', port: 587, security: 'STARTTLS', from: 'pixishelf@example.test', to: [] },
+        filters
+      })
+    ).rejects.toBeInstanceOf(NotificationChannelConfigError)
+    expect(channel.create).not.toHaveBeenCalled()
+  })
+
+  it('queues test deliveries only for enabled channels', async () => {
+    channel.findUnique.mockResolvedValueOnce(null)
+    await expect(sendTestNotification('missing')).rejects.toBeInstanceOf(NotificationChannelNotFoundError)
+
+    channel.findUnique.mockResolvedValueOnce({ id: 'channel-1', name: 'ops', enabled: false })
+    await expect(sendTestNotification('channel-1')).rejects.toBeInstanceOf(NotificationChannelConfigError)
+
+    channel.findUnique.mockResolvedValueOnce({ id: 'channel-1', name: 'ops', enabled: true })
+    delivery.create.mockResolvedValue({ id: 42n })
+    await expect(sendTestNotification('channel-1')).resolves.toEqual({ deliveryId: '42' })
+    expect(delivery.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ channelId: 'channel-1', eventType: 'notification.test' })
+      })
+    )
+  })
+})
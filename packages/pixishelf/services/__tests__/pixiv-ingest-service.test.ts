@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PixivIngestRequestSchema } from '@/schemas/pixiv-ingest.dto'
+
+const { tx, prismaMock, resolveIngestTagIdsMock, syncArtworkImpliedTagsMock } = vi.hoisted(() => {
+  const tx = {
+    artwork: { update: vi.fn(), updateMany: vi.fn() },
+    artworkExternalRef: { update: vi.fn() },
+    artworkSourceSnapshot: { upsert: vi.fn() },
+    artworkTag: { deleteMany: vi.fn(), upsert: vi.fn() },
+    tag: { update: vi.fn(), updateMany: vi.fn() },
+    series: { upsert: vi.fn() },
+    seriesArtwork: { upsert: vi.fn() }
+  }
+  return {
+    tx,
+    prismaMock: {
+      artworkExternalRef: { findUnique: vi.fn() },
+      tag: { findUnique: vi.fn() },
+      artist: { updateMany: vi.fn() },
+      $transaction: vi.fn(async (run: (client: typeof tx) => unknown) => run(tx))
+    },
+    resolveIngestTagIdsMock: vi.fn(),
+    syncArtworkImpliedTagsMock: vi.fn()
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+vi.mock('@/lib/logger', () => ({ default: { warn: vi.fn(), error: vi.fn(), info: vi.fn() } }))
+vi.mock('@pixishelf/job-executors', () => ({
+  resolveIngestTagIds: resolveIngestTagIdsMock,
+  syncArtworkImpliedTags: syncArtworkImpliedTagsMock
+}))
+
+import { ingestPixivPayload } from '../pixiv-ingest-service'
+
+const artworkPayload = {
+  id: 123,
+  title: 'Source title',
+  description: 'Source description',
+  createDate: '2026-01-02T03:04:05+00:00',
+  uploadDate: '2026-01-03T03:04:05+00:00',
+  authorId: '42',
+  authorName: 'artist',
+  pageCount: 2,
+  width: 1200,
+  height: 800,
+  tags: [{ name: 'オリジナル', translation: { en: 'original' } }, { name: '風景' }],
+  series: { id: 77, title: 'Series', order: 3 },
+  bookmarkCount: 10,
+  likeCount: 5,
+  viewCount: 100,
+  xRestrict: 0,
+  url: 'https://i.pximg.net/img-original/img/123_p0.png',
+  thumbnailUrl: '',
+  resolution: '1200x800'
+}
+
+function parse(input: unknown) {
+  return PixivIngestRequestSchema.parse(input)
+}
+
+describe('pixiv ingest service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.tag.updateMany.mockResolvedValue({ count: 1 })
+    tx.series.upsert.mockResolvedValue({ id: 9 })
+    resolveIngestTagIdsMock.mockResolvedValue([1, 2])
+  })
+
+  it('writes source fields, snapshot and source tags while guarding local overrides', async () => {
+    prismaMock.artworkExternalRef.findUnique.mockResolvedValue({
+      id: 'ref-1',
+      artworkId: 5,
+      artwork: { createdVia: 'PIXIV_SCAN' }
+    })
+    const now = new Date('2026-10-01T00:00:00Z')
+
+    const result = await ingestPixivPayload(parse({ artworks: [artworkPayload] }), now)
+
+    expect(result.results).toEqual([{ kind: 'artwork', key: '123', status: 'UPDATED' }])
+    expect(tx.artwork.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: expect.objectContaining({
+        bookmarkCount: 10,
+        originalUrl: artworkPayload.url,
+        thumbnailUrl: null,
+        size: '1200 x 800',
+        sourceDate: new Date('2026-01-02T03:04:05Z'),
+        xRestrict: '0'
+      })
+    })
+    expect(tx.artwork.update.mock.calls[0]![0].data).not.toHaveProperty('title')
+    expect(tx.artwork.updateMany).toHaveBeenCalledWith({
+      where: { id: 5, titleOverridden: false },
+      data: { title: 'Source title' }
+    })
+    expect(tx.artwork.updateMany).toHaveBeenCalledWith({
+      where: { id: 5, descriptionOverridden: false },
+      data: { description: 'Source description', descriptionLength: 18 }
+    })
+
+    const snapshot = tx.artworkSourceSnapshot.upsert.mock.calls[0]![0]
+    expect(snapshot.create.metadataHash).toMatch(/^[a-f0-9]{64}$/)
+    expect(snapshot.create.normalizedMetadata).toMatchObject({ id: '123', tags: ['オリジナル', '風景'] })
+    expect(snapshot.create.rawMetadata.artwork).not.toHaveProperty('resolution')
+    expect(tx.artworkExternalRef.update).toHaveBeenCalledWith({
+      where: { id: 'ref-1' },
+      data: { metadataHash: snapshot.create.metadataHash, fetchedAt: now }
+    })
+
+    expect(tx.artworkTag.deleteMany).toHaveBeenCalledWith({
+      where: { artworkId: 5, provenance: 'SOURCE', sourceRefId: 'ref-1', tagId: { notIn: [1, 2] } }
+    })
+    expect(syncArtworkImpliedTagsMock).toHaveBeenCalledWith(tx, 5)
+    expect(tx.tag.updateMany).toHaveBeenCalledTimes(1)
+    expect(tx.tag.updateMany).toHaveBeenCalledWith({
+      where: { namespace: 'general', name: 'オリジナル', translateType: { not: 'MANUAL' } },
+      data: { name_en: 'original', translateType: 'PIXIV' }
+    })
+    expect(tx.series.upsert.mock.calls[0]![0]).toMatchObject({
+      where: { source_externalId: { source: 'PIXIV', externalId: '77' } },
+      update: {}
+    })
+    expect(tx.seriesArtwork.upsert.mock.calls[0]![0].update).toEqual({ sortOrder: 3 })
+  })
+
+  it('does not claim artworks without a verified pixiv reference', async () => {
+    prismaMock.artworkExternalRef.findUnique.mockResolvedValue(null)
+
+    const result = await ingestPixivPayload(parse({ artworks: [artworkPayload] }))
+
+    expect(result.results[0]).toMatchObject({ status: 'NOT_FOUND' })
+    expect(result.summary).toEqual({ UPDATED: 0, SKIPPED: 0, NOT_FOUND: 1, FAILED: 0 })
+    expect(prismaMock.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('leaves archived pixiv works to their revision history', async () => {
+    prismaMock.artworkExternalRef.findUnique.mockResolvedValue({
+      id: 'ref-1',
+      artworkId: 5,
+      artwork: { createdVia: 'URL_ARCHIVE' }
+    })
+
+    const result = await ingestPixivPayload(parse({ artworks: [artworkPayload] }))
+
+    expect(result.results[0]).toMatchObject({ kind: 'artwork', key: '123', status: 'SKIPPED' })
+    expect(prismaMock.$transaction).not.toHaveBeenCalled()
+    expect(tx.artworkExternalRef.update).not.toHaveBeenCalled()
+    expect(tx.artworkSourceSnapshot.upsert).not.toHaveBeenCalled()
+  })
+
+  it('keeps manual tag translations but still updates encyclopedia details', async () => {
+    prismaMock.tag.findUnique.mockResolvedValue({ id: 3 })
+    tx.tag.updateMany.mockResolvedValue({ count: 0 })
+
+    const result = await ingestPixivPayload(
+      parse({
+        tags: [
+          {
+            originalTag: '風景',
+            translation: '风景',
+            englishTranslation: 'landscape',
+            abstract: 'Scenery',
+            imageUrl: 'https://embed.pixiv.net/spotlight/image.jpg'
+          }
+        ]
+      })
+    )
+
+    expect(tx.tag.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { abstract: 'Scenery', image: '/image.jpg' } })
+    expect(tx.tag.updateMany.mock.calls[0]![0].where).toEqual({ id: 3, translateType: { not: 'MANUAL' } })
+    expect(result.results[0]).toEqual({ kind: 'tag', key: '風景', status: 'UPDATED', message: '已保留手动翻译' })
+  })
+
+  it('records artist image file names and isolates failures per item', async () => {
+    prismaMock.artist.updateMany.mockResolvedValueOnce({ count: 1 }).mockRejectedValueOnce(new Error('db down'))
+
+    const result = await ingestPixivPayload(
+      parse({
+        users: [
+          {
+            userId: '42',
+            name: 'artist',
+            avatarUrl: 'https://i.pximg.net/user-profile/img/a_170.PNG?x=1',
+            backgroundUrl: null
+          },
+          { userId: '43', name: 'other', avatarUrl: 'https://i.pximg.net/a.jpg', backgroundUrl: null },
+          { userId: '44', name: 'empty', avatarUrl: null, backgroundUrl: null }
+        ]
+      })
+    )
+
+    expect(prismaMock.artist.updateMany.mock.calls[0]![0]).toEqual({
+      where: { userId: '42' },
+      data: { avatar: 'avatar.png', backgroundImg: null }
+    })
+    expect(result.results.map((item) => item.status)).toEqual(['UPDATED', 'FAILED', 'SKIPPED'])
+    expect(result.results[1]!.message).toBe('db down')
+  })
+})
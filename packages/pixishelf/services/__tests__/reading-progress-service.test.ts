@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  progressFindMany: vi.fn(),
+  progressFindUnique: vi.fn(),
+  progressUpsert: vi.fn(),
+  progressUpdateMany: vi.fn(),
+  seriesArtworkFindMany: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    artworkReadingProgress: {
+      findMany: mocks.progressFindMany,
+      findUnique: mocks.progressFindUnique,
+      upsert: mocks.progressUpsert,
+      updateMany: mocks.progressUpdateMany
+    },
+    seriesArtwork: { findMany: mocks.seriesArtworkFindMany }
+  }
+}))
+
+import {
+  getSeriesReadingProgress,
+  isReadingComplete,
+  listUnfinishedReadingProgress,
+  saveReadingProgress
+} from '../reading-progress-service'
+
+function progressRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    userId: 'user-1',
+    artworkId: 10,
+    mediaIndex: 4,
+    mediaCount: 200,
+    imageId: 105,
+    videoPositionSec: null,
+    completed: false,
+    createdAt: new Date('2026-10-18T00:00:00.000Z'),
+    updatedAt: new Date('2026-10-19T00:00:00.000Z'),
+    ...overrides
+  }
+}
+
+describe('reading progress service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('completes on the last media item, and only near the end when that item is a video', () => {
+    expect(isReadingComplete({ mediaIndex: 198, mediaCount: 200 })).toBe(false)
+    expect(isReadingComplete({ mediaIndex: 199, mediaCount: 200 })).toBe(true)
+    expect(isReadingComplete({ mediaIndex: 0, mediaCount: 1, videoPositionSec: 0 })).toBe(false)
+    expect(isReadingComplete({ mediaIndex: 0, mediaCount: 1, videoPositionSec: 50, videoDurationSec: 120 })).toBe(false)
+    expect(isReadingComplete({ mediaIndex: 0, mediaCount: 1, videoPositionSec: 117, videoDurationSec: 120 })).toBe(true)
+  })
+
+  it('upserts progress and clamps the index to the rendered media count', async () => {
+    mocks.progressUpsert.mockResolvedValue(progressRow({ mediaIndex: 2, mediaCount: 3, completed: true }))
+
+    const result = await saveReadingProgress('user-1', { artworkId: 10, mediaIndex: 8, mediaCount: 3, imageId: 105 })
+
+    expect(mocks.progressUpsert).toHaveBeenCalledWith({
+      where: { userId_artworkId: { userId: 'user-1', artworkId: 10 } },
+      create: {
+        userId: 'user-1',
+        artworkId: 10,
+        mediaIndex: 2,
+        mediaCount: 3,
+        imageId: 105,
+        videoPositionSec: null,
+        completed: true
+      },
+      update: { mediaIndex: 2, mediaCount: 3, imageId: 105, videoPositionSec: null, completed: true }
+    })
+    expect(result).toMatchObject({ artworkId: 10, completed: true, updatedAt: '2026-10-19T00:00:00.000Z' })
+  })
+
+  it('does not start tracking an artwork that is still on its first media item', async () => {
+    mocks.progressUpdateMany.mockResolvedValue({ count: 0 })
+
+    await expect(saveReadingProgress('user-1', { artworkId: 10, mediaIndex: 0, mediaCount: 200 })).resolves.toBeNull()
+    expect(mocks.progressUpsert).not.toHaveBeenCalled()
+    expect(mocks.progressUpdateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', artworkId: 10 },
+      data: expect.objectContaining({ mediaIndex: 0, completed: false })
+    })
+  })
+
+  it('records a single-image artwork as completed as soon as it is opened', async () => {
+    mocks.progressUpsert.mockResolvedValue(progressRow({ mediaIndex: 0, mediaCount: 1, completed: true }))
+
+    const result = await saveReadingProgress('user-1', { artworkId: 10, mediaIndex: 0, mediaCount: 1, imageId: 105 })
+
+    expect(mocks.progressUpdateMany).not.toHaveBeenCalled()
+    expect(mocks.progressUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ artworkId: 10, mediaIndex: 0, mediaCount: 1, completed: true })
+      })
+    )
+    expect(result).toMatchObject({ artworkId: 10, completed: true })
+  })
+
+  it('lists unfinished progress of live artworks by last reading time', async () => {
+    mocks.progressFindMany.mockResolvedValue([progressRow({ artworkId: 11 }), progressRow({ artworkId: 10 })])
+
+    const items = await listUnfinishedReadingProgress('user-1', 6)
+
+    expect(mocks.progressFindMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', completed: false, artwork: { deletedAt: null } },
+      orderBy: { updatedAt: 'desc' },
+      take: 6
+    })
+    expect(items.map((item) => item.artworkId)).toEqual([11, 10])
+  })
+
+  it('points series progress at the first unfinished artwork by sort order', async () => {
+    mocks.seriesArtworkFindMany.mockResolvedValue([
+      { sortOrder: 1, artwork: { id: 10, title: '第一话' } },
+      { sortOrder: 2, artwork: { id: 11, title: '第二话' } },
+      { sortOrder: 3, artwork: { id: 12, title: '第三话' } }
+    ])
+    mocks.progressFindMany.mockResolvedValue([
+      progressRow({ artworkId: 10, completed: true }),
+      progressRow({ artworkId: 11, mediaIndex: 7 })
+    ])
+
+    const progress = await getSeriesReadingProgress('user-1', 3)
+
+    expect(mocks.seriesArtworkFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { seriesId: 3, artwork: { deletedAt: null } }, orderBy: { sortOrder: 'asc' } })
+    )
+    expect(progress).toMatchObject({
+      seriesId: 3,
+      total: 3,
+      completedCount: 1,
+      next: { id: 11, title: '第二话', order: 2, progress: { mediaIndex: 7 } }
+    })
+  })
+})
@@ -236,6 +236,67 @@ describe('scheduled-task-registry', () => {
     )
   })
 
+  it('registers perceptual hashing as disabled media maintenance that only runs through the central Worker', async () => {
+    expect(SCHEDULED_TASK_DEFINITIONS).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          key: 'image_perceptual_hash',
+          type: SCHEDULED_TASK_TYPES.IMAGE_PERCEPTUAL_HASH,
+          defaultEnabled: false,
+          mutexKey: 'media-maintenance'
+        })
+      ])
+    )
+    await expect(
+      getScheduledTaskHandler(SCHEDULED_TASK_TYPES.IMAGE_PERCEPTUAL_HASH)?.start({ trigger: 'manual' })
+    ).rejects.toThrow('Image perceptual hashing requires central dispatcher cutover')
+  })
+
+  it('registers ugoira conversion as disabled media maintenance that only runs through the central Worker', async () => {
+    expect(SCHEDULED_TASK_DEFINITIONS).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          key: 'ugoira_conversion',
+          type: SCHEDULED_TASK_TYPES.UGOIRA_CONVERSION,
+          defaultEnabled: false,
+          mutexKey: 'media-maintenance'
+        })
+      ])
+    )
+    await expect(
+      getScheduledTaskHandler(SCHEDULED_TASK_TYPES.UGOIRA_CONVERSION)?.start({ trigger: 'manual' })
+    ).rejects.toThrow('Ugoira conversion requires central dispatcher cutover')
+  })
+
+  it('registers the media integrity scrub as disabled media maintenance that only runs through the central Worker', async () => {
+    expect(SCHEDULED_TASK_DEFINITIONS).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          key: 'media_integrity_scrub',
+          type: SCHEDULED_TASK_TYPES.MEDIA_INTEGRITY_SCRUB,
+          defaultEnabled: false,
+          mutexKey: 'media-maintenance'
+        })
+      ])
+    )
+    await expect(
+      getScheduledTaskHandler(SCHEDULED_TASK_TYPES.MEDIA_INTEGRITY_SCRUB)?.start({ trigger: 'manual' })
+    ).rejects.toThrow('Media integrity scrub requires central dispatcher cutover')
+  })
+
+  it('registers detect-only and auto-import archive update checks on a shared mutex', async () => {
+    const definitions = SCHEDULED_TASK_DEFINITIONS.filter(
+      (definition) => definition.type === SCHEDULED_TASK_TYPES.ARCHIVE_UPDATE_CHECK
+    )
+    expect(definitions.map((definition) => [definition.key, definition.defaultEnabled, definition.mutexKey])).toEqual([
+      ['archive_update_check', false, 'archive-source-check'],
+      ['archive_update_check_auto_import', false, 'archive-source-check']
+    ])
+    await expect(
+      getScheduledTaskHandler(SCHEDULED_TASK_TYPES.ARCHIVE_UPDATE_CHECK)?.start({ trigger: 'manual' })
+    ).rejects.toThrow('Archive update check requires central dispatcher cutover')
+  })
+
   it('runs keyframe discovery with the scheduled task filter', async () => {
     const handler = getScheduledTaskHandler(SCHEDULED_TASK_TYPES.VIDEO_KEYFRAME_DISCOVERY)
     const config = { minDuration: 600, maxDuration: null, includePaths: [], excludePaths: [] }
@@ -121,7 +121,8 @@ import {
   ensureDefaultScheduledTasks,
   listScheduledTasks,
   runSchedulerTick,
-  triggerScheduledTaskNow
+  triggerScheduledTaskNow,
+  updateScheduledTask
 } from '../scheduled-task-service'
 
 function createTask(overrides: Record<string, unknown> = {}) {
@@ -132,6 +133,8 @@ function createTask(overrides: Record<string, unknown> = {}) {
     enabled: true,
     scheduleMode: 'DAILY',
     time: '00:30',
+    intervalMinutes: null,
+    cronExpression: null,
     timezone: 'UTC',
     priority: 30,
     mutexKey: 'media-maintenance',
@@ -213,6 +216,7 @@ describe('scheduled-task-service', () => {
 
     expect(task).toMatchObject({
       nextRunAt: '2026-06-03 00:00 Asia/Shanghai',
+      nextRuns: ['2026-06-02T16:00:00.000Z', '2026-06-03T16:00:00.000Z', '2026-06-04T16:00:00.000Z'],
       executionWindow: {
         timezone: 'Asia/Shanghai',
         startAt: '2026-06-02T16:00:00.000Z',
@@ -221,6 +225,72 @@ describe('scheduled-task-service', () => {
     })
   })
 
+  it('previews the next three interval and cron materializations outside the shared window', async () => {
+    vi.stubEnv('CENTRAL_DISPATCHER_CUTOVER_ENABLED', 'true')
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-06-02T01:00:00.000Z'))
+    scheduledTaskFindManyMock.mockResolvedValueOnce([
+      createTask({ scheduleMode: 'INTERVAL', intervalMinutes: 240, timezone: 'Asia/Shanghai' }),
+      createCleanupTask({ scheduleMode: 'CRON', cronExpression: '0 3 * * 1', timezone: 'Asia/Shanghai' })
+    ])
+
+    const [interval, cron] = await listScheduledTasks()
+
+    expect(interval).toMatchObject({
+      intervalMinutes: 240,
+      nextRunAt: '2026-06-02 12:00 Asia/Shanghai',
+      nextRuns: ['2026-06-02T04:00:00.000Z', '2026-06-02T08:00:00.000Z', '2026-06-02T12:00:00.000Z']
+    })
+    expect(interval).not.toHaveProperty('executionWindow')
+    expect(cron).toMatchObject({
+      cronExpression: '0 3 * * 1',
+      nextRuns: ['2026-06-07T19:00:00.000Z', '2026-06-14T19:00:00.000Z', '2026-06-21T19:00:00.000Z']
+    })
+  })
+
+  it('keeps an administrator-selected schedule mode when restoring defaults', async () => {
+    await ensureDefaultScheduledTasks()
+
+    const [call] = scheduledTaskUpsertMock.mock.calls
+    expect(call?.[0].update).not.toHaveProperty('scheduleMode')
+    expect(call?.[0].create).toMatchObject({ scheduleMode: 'DAILY' })
+  })
+
+  it('validates interval and cron parameters before switching schedule mode', async () => {
+    scheduledTaskFindUniqueMock.mockResolvedValue({ intervalMinutes: null, cronExpression: null })
+
+    await expect(updateScheduledTask({ key: 'webp_animation_scan', scheduleMode: 'INTERVAL' })).rejects.toThrow(
+      'INTERVAL schedule requires intervalMinutes'
+    )
+    await expect(updateScheduledTask({ key: 'webp_animation_scan', cronExpression: '0 25 * * *' })).rejects.toThrow(
+      'Invalid hour value'
+    )
+    await expect(updateScheduledTask({ key: 'webp_animation_scan', cronExpression: '0 0 31 2 *' })).rejects.toThrow(
+      'never matches'
+    )
+    expect(scheduledTaskUpdateMock).not.toHaveBeenCalled()
+
+    await updateScheduledTask({ key: 'webp_animation_scan', scheduleMode: 'CRON', cronExpression: ' 0  3 * * 1 ' })
+    expect(scheduledTaskUpdateMock).toHaveBeenCalledWith({
+      where: { key: 'webp_animation_scan' },
+      data: { scheduleMode: 'CRON', cronExpression: '0 3 * * 1' }
+    })
+  })
+
+  it('triggers an interval task once per occurrence in the legacy tick', async () => {
+    const task = createTask({ scheduleMode: 'INTERVAL', intervalMinutes: 60 })
+    scheduledTaskFindManyMock.mockReset().mockResolvedValueOnce([task])
+    const now = new Date('2026-06-01T10:05:00.000Z')
+
+    const first = await runSchedulerTick(now)
+    scheduledTaskFindManyMock.mockResolvedValueOnce([{ ...task, lastTriggeredAt: now }])
+    const repeated = await runSchedulerTick(new Date('2026-06-01T10:30:00.000Z'))
+
+    expect(first.decisions[0]).toMatchObject({ action: 'triggered', jobId: 'job-1' })
+    expect(repeated.decisions[0]).toMatchObject({ action: 'skipped', reason: 'already_triggered' })
+    expect(handlerStartMock).toHaveBeenCalledOnce()
+  })
+
   it('returns a safe maintenance summary for the latest scheduled job', async () => {
     scheduledTaskFindManyMock.mockResolvedValueOnce([
       createTask({ lastJobId: 'gc-job-1', key: 'derived_media_gc_reconciliation', type: 'DERIVED_MEDIA_GC' })
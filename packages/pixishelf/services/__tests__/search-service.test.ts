@@ -1,8 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-const { tagFindManyMock, queryRawMock } = vi.hoisted(() => ({
+const { tagFindManyMock, queryRawMock, getArtworkCardsByIdsMock } = vi.hoisted(() => ({
   tagFindManyMock: vi.fn(),
-  queryRawMock: vi.fn()
+  queryRawMock: vi.fn(),
+  getArtworkCardsByIdsMock: vi.fn()
 }))
 
 vi.mock('@/lib/prisma', () => ({
@@ -12,7 +13,11 @@ vi.mock('@/lib/prisma', () => ({
   }
 }))
 
-import { getSearchSuggestions } from '../search-service'
+vi.mock('@/services/artwork-service', () => ({
+  getArtworkCardsByIds: getArtworkCardsByIdsMock
+}))
+
+import { getSearchSuggestions, searchCatalog } from '../search-service'
 
 describe('getSearchSuggestions', () => {
   beforeEach(() => {
@@ -80,3 +85,82 @@ describe('getSearchSuggestions', () => {
     expect(queryRawMock).not.toHaveBeenCalled()
   })
 })
+
+describe('searchCatalog', () => {
+  const baseOptions = { cursor: 1, pageSize: 2, mediaTypes: [], providers: [], namespaces: [] }
+
+  beforeEach(() => {
+    queryRawMock.mockReset()
+    getArtworkCardsByIdsMock.mockReset()
+    getArtworkCardsByIdsMock.mockImplementation(async (ids: number[]) => ids.map((id) => ({ id })))
+  })
+
+  function mockCatalogQueries(overrides: { ids?: number[]; facets?: unknown[] } = {}) {
+    queryRawMock.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT s.id')) return (overrides.ids ?? [11, 12, 13]).map((id) => ({ id }))
+      if (sql.includes('COUNT(*) AS count')) return [{ count: BigInt(5) }]
+      if (sql.includes("'mediaType' AS facet")) return overrides.facets ?? []
+      return []
+    })
+  }
+
+  it('ranks with the term, the ILIKE pattern and the tag tsquery, then pages with over-fetch', async () => {
+    mockCatalogQueries()
+
+    const result = await searchCatalog({ ...baseOptions, q: 'blue sky' })
+
+    const pageCall = queryRawMock.mock.calls.find(([sql]) => String(sql).includes('SELECT s.id'))
+    expect(String(pageCall?.[0])).toContain('ORDER BY s.score DESC, s."sourceDate" DESC NULLS LAST, s.id DESC')
+    expect(pageCall?.slice(1)).toEqual(['blue sky', '%blue sky%', 'blue:* & sky:*', 3, 0])
+    expect(getArtworkCardsByIdsMock).toHaveBeenCalledWith([11, 12])
+    expect(result.total).toBe(5)
+    expect(result.nextCursor).toBe(2)
+  })
+
+  it('omits the tsquery parameter when the term has no searchable words', async () => {
+    mockCatalogQueries()
+
+    await searchCatalog({ ...baseOptions, q: '!!!' })
+
+    const pageCall = queryRawMock.mock.calls.find(([sql]) => String(sql).includes('SELECT s.id'))
+    expect(String(pageCall?.[0])).not.toContain('to_tsquery')
+    expect(pageCall?.slice(1)).toEqual(['!!!', '%!!!%', 3, 0])
+  })
+
+  it('applies facet filters to the page but counts facets over the unfiltered matches', async () => {
+    mockCatalogQueries({
+      facets: [
+        { facet: 'mediaType', value: 'IMAGE', count: BigInt(3) },
+        { facet: 'mediaType', value: 'VIDEO', count: BigInt(4) },
+        { facet: 'provider', value: 'unknown', count: BigInt(1) },
+        { facet: 'namespace', value: 'character', count: BigInt(2) }
+      ]
+    })
+
+    const result = await searchCatalog({ ...baseOptions, q: 'sky', mediaTypes: ['VIDEO'], providers: ['unknown'] })
+
+    const pageCall = queryRawMock.mock.calls.find(([sql]) => String(sql).includes('SELECT s.id'))
+    const facetCall = queryRawMock.mock.calls.find(([sql]) => String(sql).includes("'mediaType' AS facet"))
+    expect(String(pageCall?.[0])).toContain('NOT EXISTS')
+    expect(pageCall?.slice(1)).toEqual(['sky', '%sky%', 'sky:*', ['VIDEO'], 3, 0])
+    expect(facetCall?.slice(1)).toEqual(['sky', '%sky%', 'sky:*'])
+    expect(result.facets).toEqual({
+      mediaTypes: [
+        { value: 'VIDEO', count: 4 },
+        { value: 'IMAGE', count: 3 }
+      ],
+      providers: [{ value: 'unknown', count: 1 }],
+      namespaces: [{ value: 'character', count: 2 }]
+    })
+  })
+
+  it('skips totals, facets and entity sections after the first page', async () => {
+    mockCatalogQueries({ ids: [21] })
+
+    const result = await searchCatalog({ ...baseOptions, q: 'sky', cursor: 3 })
+
+    expect(queryRawMock).toHaveBeenCalledTimes(1)
+    expect(queryRawMock.mock.calls[0]?.slice(-2)).toEqual([3, 4])
+    expect(result).toEqual({ artworks: [{ id: 21 }], nextCursor: undefined, artists: [], tags: [], series: [] })
+  })
+})
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { findManyMock, findFirstMock, updateManyMock, queryRawMock } = vi.hoisted(() => ({
+  findManyMock: vi.fn(),
+  findFirstMock: vi.fn(),
+  updateManyMock: vi.fn(),
+  queryRawMock: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    smartCollection: { findMany: findManyMock, findFirst: findFirstMock, updateMany: updateManyMock },
+    $queryRawUnsafe: queryRawMock
+  }
+}))
+
+import {
+  getSmartCollectionFilters,
+  listSmartCollections,
+  markSmartCollectionVisited,
+  updateSmartCollection
+} from '../smart-collection-service'
+
+function collectionRow(overrides: Record<string, unknown> = {}) {
+  const date = new Date('2026-09-01T00:00:00.000Z')
+  return {
+    id: 1,
+    userId: 'user-1',
+    name: '风景',
+    filters: { q: 'tag:landscape', mediaType: 'image' },
+    lastVisitedAt: date,
+    createdAt: date,
+    updatedAt: date,
+    ...overrides
+  }
+}
+
+describe('smart collection service', () => {
+  beforeEach(() => {
+    findManyMock.mockReset()
+    findFirstMock.mockReset()
+    updateManyMock.mockReset()
+    queryRawMock.mockReset()
+  })
+
+  it('counts matches and new arrivals since the last visit with the artwork list conditions', async () => {
+    findManyMock.mockResolvedValue([collectionRow()])
+    queryRawMock.mockResolvedValue([{ count: BigInt(12), new_count: BigInt(3) }])
+
+    const [summary] = await listSmartCollections('user-1')
+
+    expect(findManyMock).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'user-1' } }))
+    const [sql, ...params] = queryRawMock.mock.calls[0]!
+    expect(String(sql)).toContain(`i."mediaType" = 'VIDEO'`)
+    expect(String(sql)).toContain('t2.name = ANY($1)')
+    expect(String(sql)).toContain('COUNT(*) FILTER (WHERE a."createdAt" > $2::timestamp) AS new_count')
+    expect(params).toEqual([['landscape'], new Date('2026-09-01T00:00:00.000Z')])
+    expect(summary).toMatchObject({ id: 1, name: '风景', artworkCount: 12, newCount: 3 })
+  })
+
+  it('passes a NULL visit time for collections that were never opened', async () => {
+    findManyMock.mockResolvedValue([collectionRow({ lastVisitedAt: null })])
+    queryRawMock.mockResolvedValue([{ count: BigInt(4), new_count: BigInt(0) }])
+
+    const [summary] = await listSmartCollections('user-1')
+
+    expect(queryRawMock.mock.calls[0]!.at(-1)).toBeNull()
+    expect(summary).toMatchObject({ artworkCount: 4, newCount: 0, lastVisitedAt: null })
+  })
+
+  it('scopes reads and writes to the owning user', async () => {
+    findFirstMock.mockResolvedValue(null)
+    updateManyMock.mockResolvedValue({ count: 0 })
+
+    await expect(getSmartCollectionFilters('user-2', 1)).resolves.toBeNull()
+    await expect(markSmartCollectionVisited('user-2', 1)).resolves.toBe(false)
+    await expect(updateSmartCollection('user-2', { id: 1, name: 'x' })).resolves.toBeNull()
+
+    expect(findFirstMock).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 1, userId: 'user-2' } }))
+    expect(updateManyMock).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 1, userId: 'user-2' } }))
+  })
+})
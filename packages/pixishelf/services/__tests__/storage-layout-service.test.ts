@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { artworkFindManyMock } = vi.hoisted(() => ({ artworkFindManyMock: vi.fn() }))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({ prisma: { artwork: { findMany: artworkFindManyMock } } }))
+
+import { previewStorageLayout } from '../storage-layout-service'
+
+function artwork(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    title: `Work ${id}`,
+    externalId: `${100 + id}`,
+    source: 'PIXIV_IMPORTED',
+    storagePath: `/old/${id}`,
+    artist: { userId: '42', name: 'Alice' },
+    externalRefs: [],
+    images: [{ path: `/old/${id}/${100 + id}_p0.jpg` }],
+    ...overrides
+  }
+}
+
+function mockArtworks(page: ReturnType<typeof artwork>[], owners: { id: number; storagePath: string }[] = []) {
+  artworkFindManyMock.mockImplementation(async (args: { where: { OR?: unknown } }) => (args.where.OR ? owners : page))
+}
+
+describe('storage layout preview', () => {
+  beforeEach(() => {
+    artworkFindManyMock.mockReset()
+  })
+
+  it('renders sanitized targets and reports works already in place', async () => {
+    mockArtworks([
+      artwork(1, { title: 'A/B: C?', storagePath: '42/101' }),
+      artwork(2, { title: '  ', externalRefs: [{ providerKey: 'fanbox' }] })
+    ])
+
+    const result = await previewStorageLayout({ template: '{provider}/{creator}/{externalId}-{title}', limit: 10 })
+
+    expect(result).toEqual({
+      nextCursor: null,
+      items: [
+        expect.objectContaining({
+          artworkId: 1,
+          currentDirectory: '42/101',
+          targetDirectory: 'pixiv/Alice/101-A_B_ C_',
+          status: 'MOVE'
+        }),
+        expect.objectContaining({ artworkId: 2, targetDirectory: 'fanbox/Alice/102-untitled', status: 'MOVE' })
+      ]
+    })
+
+    mockArtworks([artwork(1, { storagePath: '/42/101' })])
+    await expect(previewStorageLayout({ template: '{creatorId}/{externalId}', limit: 10 })).resolves.toMatchObject({
+      items: [{ currentDirectory: '42/101', targetDirectory: '42/101', status: 'UNCHANGED' }]
+    })
+  })
+
+  it('applies the artwork id fallback for owned and in-page claimed directories', async () => {
+    mockArtworks(
+      [artwork(1, { externalId: '500' }), artwork(2, { externalId: '500' }), artwork(3, { externalId: '600' })],
+      [
+        { id: 9, storagePath: '/ALICE/600' },
+        { id: 10, storagePath: 'Alice/600~3' }
+      ]
+    )
+
+    const result = await previewStorageLayout({ template: '{creator}/{externalId}', limit: 10 })
+
+    expect(result.items.map(({ targetDirectory, status }) => ({ targetDirectory, status }))).toEqual([
+      { targetDirectory: 'Alice/500', status: 'MOVE' },
+      { targetDirectory: 'Alice/500~2', status: 'COLLISION' },
+      { targetDirectory: 'Alice/600~3', status: 'CONFLICT' }
+    ])
+  })
+
+  it('pages by artwork id and flags works the migration cannot place', async () => {
+    mockArtworks([artwork(4, { artist: null }), artwork(5, { externalId: '../escape' }), artwork(6)])
+
+    const result = await previewStorageLayout({ template: '{creatorId}/{externalId}', cursor: 3, limit: 2 })
+
+    expect(artworkFindManyMock).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { deletedAt: null, id: { gt: 3 } }, take: 3 })
+    )
+    expect(result.nextCursor).toBe(5)
+    expect(result.items).toEqual([
+      expect.objectContaining({ artworkId: 4, targetDirectory: null, status: 'INCOMPLETE' }),
+      expect.objectContaining({ artworkId: 5, targetDirectory: null, status: 'INVALID' })
+    ])
+  })
+
+  it('rejects templates that cannot keep artwork directories unique', async () => {
+    await expect(previewStorageLayout({ template: '{creator}/{title}', limit: 10 })).rejects.toThrow('{externalId}')
+    expect(artworkFindManyMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { tx } = vi.hoisted(() => ({
+  tx: {
+    tag: { findUnique: vi.fn(), findFirst: vi.fn(), delete: vi.fn() },
+    artworkTag: { findMany: vi.fn(), updateMany: vi.fn() },
+    tagAlias: { findMany: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+    tagImplication: { findMany: vi.fn(), findUnique: vi.fn(), create: vi.fn() },
+    tagMerge: { create: vi.fn(), findUnique: vi.fn() },
+    $queryRawUnsafe: vi.fn(),
+    $executeRawUnsafe: vi.fn()
+  }
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { $transaction: (operation: (client: typeof tx) => Promise<unknown>) => operation(tx) }
+}))
+
+import { mergeTags, undoTagMerge } from '../tag-merge-service'
+
+const now = new Date('2026-09-08T10:00:00.000Z')
+const createdAt = new Date('2026-01-01T00:00:00.000Z')
+
+function sourceTag(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    namespace: 'general',
+    name: 'ねこ',
+    name_zh: '猫',
+    name_en: null,
+    description: null,
+    abstract: null,
+    image: null,
+    translateType: 'PIXIV',
+    isSystem: false,
+    createdAt,
+    ...overrides
+  }
+}
+
+describe('tag merge service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tx.$queryRawUnsafe.mockImplementation(async (sql: string) =>
+      sql.includes('closure') ? [{ tag_id: 2 }] : [{ inserted: 0, removed: 0 }]
+    )
+  })
+
+  it('moves only rows without the target tag, keeps the old name as an alias and records a snapshot', async () => {
+    tx.tag.findUnique.mockResolvedValueOnce(sourceTag()).mockResolvedValueOnce({ id: 2, isSystem: false })
+    tx.artworkTag.findMany
+      .mockResolvedValueOnce([
+        { artworkId: 10, provenance: 'SOURCE', sourceRefId: 'ref-10', createdAt },
+        { artworkId: 11, provenance: 'MANUAL', sourceRefId: null, createdAt }
+      ])
+      .mockResolvedValueOnce([{ artworkId: 11 }])
+    tx.tagAlias.findMany.mockResolvedValue([{ id: 3 }])
+    tx.tagImplication.findMany.mockResolvedValue([])
+    tx.tagAlias.create.mockResolvedValue({ id: 4 })
+    tx.tagMerge.create.mockImplementation(async ({ data }) => ({
+      id: 'merge-1',
+      sourceTagId: data.sourceTagId,
+      sourceNamespace: data.sourceNamespace,
+      sourceName: data.sourceName,
+      movedArtworkCount: data.movedArtworkCount,
+      createdAt: data.createdAt,
+      undoDeadline: data.undoDeadline,
+      undoneAt: null,
+      targetTag: { id: 2 }
+    }))
+
+    const merge = await mergeTags('user-1', { sourceTagId: 1, targetTagId: 2 }, now)
+
+    expect(tx.artworkTag.updateMany).toHaveBeenCalledWith({
+      where: { tagId: 1, artworkId: { in: [10] } },
+      data: { tagId: 2 }
+    })
+    expect(tx.tagAlias.updateMany).toHaveBeenCalledWith({ where: { tagId: 1 }, data: { tagId: 2 } })
+    expect(tx.tag.delete).toHaveBeenCalledWith({ where: { id: 1 } })
+    expect(tx.tagAlias.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ namespace: 'general', name: 'ねこ', tagId: 2 }) })
+    )
+
+    const { data } = tx.tagMerge.create.mock.calls[0]![0]
+    expect(data.movedArtworkCount).toBe(1)
+    expect(data.undoDeadline).toEqual(new Date('2026-09-15T10:00:00.000Z'))
+    expect(data.snapshot.artworkTags.map((row: { moved: boolean }) => row.moved)).toEqual([true, false])
+    expect(data.snapshot).toMatchObject({ movedAliasIds: [3], createdAliasId: 4, createdImplicationIds: [] })
+    expect(merge.canUndo).toBe(true)
+  })
+
+  it('refuses to merge a system tag', async () => {
+    tx.tag.findUnique
+      .mockResolvedValueOnce(sourceTag({ isSystem: true }))
+      .mockResolvedValueOnce({ id: 2, isSystem: false })
+
+    await expect(mergeTags('user-1', { sourceTagId: 1, targetTagId: 2 }, now)).rejects.toMatchObject({
+      code: 'BAD_REQUEST'
+    })
+    expect(tx.tag.delete).not.toHaveBeenCalled()
+  })
+
+  it('rejects undo after the deadline', async () => {
+    tx.tagMerge.findUnique.mockResolvedValue({
+      id: 'merge-1',
+      targetTagId: 2,
+      undoneAt: null,
+      undoDeadline: new Date('2026-09-08T09:59:59.000Z'),
+      snapshot: {}
+    })
+
+    await expect(undoTagMerge('user-1', 'merge-1', now)).rejects.toThrow('撤销期限')
+    expect(tx.tag.findFirst).not.toHaveBeenCalled()
+  })
+})
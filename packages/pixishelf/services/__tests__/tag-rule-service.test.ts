@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { tx, prismaMock } = vi.hoisted(() => {
+  const tx = {
+    tag: { findMany: vi.fn() },
+    tagImplication: { findUnique: vi.fn(), create: vi.fn(), delete: vi.fn() },
+    $queryRawUnsafe: vi.fn(),
+    $executeRawUnsafe: vi.fn()
+  }
+  const prismaMock = {
+    tag: { findUnique: vi.fn() },
+    tagAlias: { findUnique: vi.fn(), create: vi.fn(), deleteMany: vi.fn() },
+    $transaction: vi.fn((operation: (client: typeof tx) => Promise<unknown>) => operation(tx))
+  }
+  return { tx, prismaMock }
+})
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }))
+
+import { createTagAlias, createTagImplication, deleteTagAlias, TagRuleError } from '../tag-rule-service'
+
+describe('tag rule service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('rejects an alias that collides with an existing tag name', async () => {
+    prismaMock.tag.findUnique.mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce({ id: 2 })
+    prismaMock.tagAlias.findUnique.mockResolvedValue(null)
+
+    await expect(createTagAlias('user-1', { tagId: 1, namespace: 'general', name: 'ねこ' })).rejects.toMatchObject({
+      code: 'CONFLICT'
+    })
+    expect(prismaMock.tagAlias.create).not.toHaveBeenCalled()
+  })
+
+  it('creates an alias pointing at the canonical tag', async () => {
+    prismaMock.tag.findUnique.mockResolvedValueOnce({ id: 1 }).mockResolvedValueOnce(null)
+    prismaMock.tagAlias.findUnique.mockResolvedValue(null)
+    prismaMock.tagAlias.create.mockResolvedValue({ id: 5, namespace: 'general', name: 'neko' })
+
+    await createTagAlias('user-1', { tagId: 1, namespace: 'general', name: 'neko' })
+
+    expect(prismaMock.tagAlias.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { tagId: 1, namespace: 'general', name: 'neko', createdByUserId: 'user-1' }
+      })
+    )
+  })
+
+  it('reports a missing alias on delete', async () => {
+    prismaMock.tagAlias.deleteMany.mockResolvedValue({ count: 0 })
+
+    await expect(deleteTagAlias(9)).rejects.toBeInstanceOf(TagRuleError)
+  })
+
+  it('refuses implications that target a system tag', async () => {
+    tx.tag.findMany.mockResolvedValue([
+      { id: 1, isSystem: false },
+      { id: 2, isSystem: true }
+    ])
+
+    await expect(createTagImplication('user-1', { tagId: 1, impliedTagId: 2 })).rejects.toMatchObject({
+      code: 'BAD_REQUEST'
+    })
+    expect(tx.tagImplication.create).not.toHaveBeenCalled()
+  })
+
+  it('refuses implications that would form a cycle', async () => {
+    tx.tag.findMany.mockResolvedValue([
+      { id: 1, isSystem: false },
+      { id: 2, isSystem: false }
+    ])
+    // 2 已经（间接）蕴含 1
+    tx.$queryRawUnsafe.mockResolvedValueOnce([{ tag_id: 2 }, { tag_id: 3 }, { tag_id: 1 }])
+
+    await expect(createTagImplication('user-1', { tagId: 1, impliedTagId: 2 })).rejects.toThrow('循环')
+    expect(tx.tagImplication.create).not.toHaveBeenCalled()
+  })
+
+  it('backfills derived tags over the implied closure after creating an implication', async () => {
+    tx.tag.findMany.mockResolvedValue([
+      { id: 1, isSystem: false },
+      { id: 2, isSystem: false }
+    ])
+    tx.$queryRawUnsafe
+      .mockResolvedValueOnce([{ tag_id: 2 }, { tag_id: 3 }])
+      .mockResolvedValueOnce([{ inserted: 4, removed: 0 }])
+    tx.tagImplication.findUnique.mockResolvedValue(null)
+    tx.tagImplication.create.mockResolvedValue({ id: 11 })
+
+    const result = await createTagImplication('user-1', { tagId: 1, impliedTagId: 2 })
+
+    expect(result).toEqual({ id: 11, inserted: 4, removed: 0 })
+    const [syncSql, syncTagIds] = tx.$queryRawUnsafe.mock.calls[1]!
+    expect(syncSql).toContain("at.provenance = 'DERIVED'")
+    expect(syncSql).toContain('ON CONFLICT ("artworkId", "tagId") DO NOTHING')
+    expect(syncTagIds).toEqual([2, 3])
+    expect(tx.$executeRawUnsafe).toHaveBeenCalledWith(expect.stringContaining('"artworkCount"'), [2, 3])
+  })
+})
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  animationFindFirst: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    mediaUgoiraAnimation: { findFirst: mocks.animationFindFirst }
+  }
+}))
+
+import { resolveUgoiraAnimationFile } from '../ugoira-animation-service'
+
+describe('ugoira animation service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('resolves completed conversions inside the ugoira storage root', async () => {
+    mocks.animationFindFirst.mockResolvedValue({
+      outputPath: '7/2048-1760000000000.webm',
+      sourceSize: 2048n,
+      image: { size: 2048n }
+    })
+
+    await expect(resolveUgoiraAnimationFile(7)).resolves.toMatch(/ugoira[\\/]7[\\/]2048-1760000000000\.webm$/)
+    expect(mocks.animationFindFirst).toHaveBeenCalledWith({
+      where: { imageId: 7, status: 'COMPLETED', outputPath: { not: null } },
+      select: { outputPath: true, sourceSize: true, image: { select: { size: true } } }
+    })
+  })
+
+  it('hides conversions of a zip that has since been replaced', async () => {
+    mocks.animationFindFirst.mockResolvedValue({
+      outputPath: '7/2048-1760000000000.webm',
+      sourceSize: 2048n,
+      image: { size: 4096n }
+    })
+
+    await expect(resolveUgoiraAnimationFile(7)).resolves.toBeNull()
+  })
+
+  it('rejects stored paths that escape the storage root', async () => {
+    mocks.animationFindFirst.mockResolvedValue({ outputPath: '../secret.webm', sourceSize: 1n, image: { size: 1n } })
+
+    await expect(resolveUgoiraAnimationFile(7)).rejects.toThrow()
+  })
+})
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  imageFindUnique: vi.fn(),
+  imageFindMany: vi.fn(),
+  jobFindFirst: vi.fn(),
+  setFindFirst: vi.fn(),
+  queryRaw: vi.fn(),
+  enqueueJob: vi.fn(),
+  getScanPath: vi.fn(),
+  resolvePath: vi.fn(),
+  stat: vi.fn()
+}))
+
+const transaction = {
+  systemJob: { findFirst: mocks.jobFindFirst },
+  $queryRawUnsafe: mocks.queryRaw
+}
+
+vi.mock('server-only', () => ({}))
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>()
+  return { ...actual, default: { ...actual, stat: mocks.stat }, stat: mocks.stat }
+})
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    image: { findUnique: mocks.imageFindUnique, findMany: mocks.imageFindMany },
+    mediaVideoHlsSet: { findFirst: mocks.setFindFirst },
+    $transaction: (operation: (client: typeof transaction) => unknown) => operation(transaction)
+  }
+}))
+vi.mock('@/lib/safe-path', () => ({ resolveExistingPathWithinRoot: mocks.resolvePath }))
+vi.mock('@/services/background-task', () => ({ enqueueJob: mocks.enqueueJob }))
+vi.mock('@/services/setting.service', () => ({ getScanPath: mocks.getScanPath }))
+
+import {
+  enqueueIncompatibleVideoHlsTranscodes,
+  enqueueVideoHlsTranscode,
+  resolvePublishedVideoHlsFile
+} from '../video-hls-service'
+
+describe('video HLS service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.imageFindUnique.mockResolvedValue({ id: 7, path: 'folder/video.mkv', mediaType: 'VIDEO' })
+    mocks.jobFindFirst.mockResolvedValue(null)
+    mocks.queryRaw.mockResolvedValue([])
+    mocks.enqueueJob.mockResolvedValue({ id: 'job-new', status: 'PENDING' })
+    mocks.getScanPath.mockResolvedValue('/scan')
+    mocks.resolvePath.mockImplementation(async (root: string, relativePath: string) => `${root}/${relativePath}`)
+  })
+
+  it('reuses an active job unless a forced rebuild would be swallowed by a normal one', async () => {
+    mocks.jobFindFirst.mockResolvedValue({
+      id: 'job-existing',
+      status: 'RUNNING',
+      payload: { imageId: 7, relativePath: 'folder/video.mkv', force: false }
+    })
+
+    await expect(
+      enqueueVideoHlsTranscode({ imageId: 7, force: false, requestedByUserId: 'admin-1' })
+    ).resolves.toMatchObject({ jobId: 'job-existing', reused: true })
+    await expect(
+      enqueueVideoHlsTranscode({ imageId: 7, force: true, requestedByUserId: 'admin-1' })
+    ).resolves.toMatchObject({ jobId: 'job-new', reused: false })
+    expect(mocks.enqueueJob).toHaveBeenCalledOnce()
+    expect(mocks.enqueueJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'VIDEO_HLS_TRANSCODE',
+        payload: { imageId: 7, relativePath: 'folder/video.mkv', force: true }
+      }),
+      expect.anything()
+    )
+  })
+
+  it('rejects images that are not videos', async () => {
+    mocks.imageFindUnique.mockResolvedValue({ id: 8, path: 'folder/page.png', mediaType: 'IMAGE' })
+
+    await expect(enqueueVideoHlsTranscode({ imageId: 8, force: false, requestedByUserId: 'admin-1' })).rejects.toThrow(
+      'Image is not a video'
+    )
+    expect(mocks.enqueueJob).not.toHaveBeenCalled()
+  })
+
+  it('only queues videos whose probed metadata fails the compatibility policy', async () => {
+    mocks.imageFindMany.mockResolvedValue([
+      {
+        id: 1,
+        path: 'a.mp4',
+        size: 4_000_000n,
+        videoMetadata: { videoCodec: 'h264', audioCodec: 'aac', duration: 10 }
+      },
+      {
+        id: 2,
+        path: 'b.mp4',
+        size: 4_000_000n,
+        videoMetadata: { videoCodec: 'hevc', audioCodec: 'aac', duration: 10 }
+      },
+      { id: 3, path: 'c.mp4', size: 40_000_000n, videoMetadata: { videoCodec: 'h264', audioCodec: null, duration: 10 } }
+    ])
+    mocks.imageFindUnique.mockImplementation(async ({ where }: { where: { id: number } }) => ({
+      id: where.id,
+      path: 'video.mp4',
+      mediaType: 'VIDEO'
+    }))
+
+    await expect(enqueueIncompatibleVideoHlsTranscodes({ requestedByUserId: 'admin-1' })).resolves.toEqual({
+      scanned: 3,
+      incompatible: 2,
+      queued: 2,
+      reused: 0,
+      limit: 200
+    })
+    expect(mocks.enqueueJob.mock.calls.map(([input]) => input.payload.imageId)).toEqual([2, 3])
+  })
+
+  it('hides the master playlist once the source fingerprint no longer matches', async () => {
+    mocks.setFindFirst.mockResolvedValue({
+      id: 'set-1',
+      sourceSize: 100n,
+      sourceMtimeMs: 5000n,
+      image: { path: 'folder/video.mkv' }
+    })
+    mocks.stat.mockResolvedValueOnce({ size: 100, mtimeMs: 5000 }).mockResolvedValueOnce({ size: 101, mtimeMs: 5000 })
+
+    await expect(
+      resolvePublishedVideoHlsFile({ imageId: 7, setId: 'set-1', fileName: 'master.m3u8' })
+    ).resolves.toMatch(/video\/hls\/7\/set-1\/master\.m3u8$/)
+    await expect(
+      resolvePublishedVideoHlsFile({ imageId: 7, setId: 'set-1', fileName: 'master.m3u8' })
+    ).resolves.toBeNull()
+    await expect(
+      resolvePublishedVideoHlsFile({ imageId: 7, setId: 'set-1', fileName: '../secret.ts' })
+    ).resolves.toBeNull()
+    expect(mocks.resolvePath).toHaveBeenCalledWith('/scan', 'folder/video.mkv')
+  })
+})
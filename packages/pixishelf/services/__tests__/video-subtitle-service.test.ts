@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  imageFindUnique: vi.fn(),
+  trackFindMany: vi.fn(),
+  trackFindFirst: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    image: { findUnique: mocks.imageFindUnique },
+    mediaVideoSubtitleTrack: { findMany: mocks.trackFindMany, findFirst: mocks.trackFindFirst }
+  }
+}))
+
+import { listVideoSubtitleTracks, resolveVideoSubtitleFile } from '../video-subtitle-service'
+
+describe('video subtitle service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.imageFindUnique.mockResolvedValue({ id: 7, path: 'folder/video.mkv', mediaType: 'VIDEO' })
+  })
+
+  it('lists completed tracks with a display label and a per-track WebVTT url', async () => {
+    mocks.trackFindMany.mockResolvedValue([
+      { id: 'sidecar-1', source: 'SIDECAR', language: 'zh-Hans', label: null, isDefault: false },
+      { id: 'embedded-1', source: 'EMBEDDED', language: null, label: null, isDefault: true }
+    ])
+
+    await expect(listVideoSubtitleTracks(7)).resolves.toEqual([
+      {
+        id: 'sidecar-1',
+        source: 'SIDECAR',
+        language: 'zh-Hans',
+        label: 'zh-Hans',
+        isDefault: false,
+        url: '/api/v1/media/7/subtitles/sidecar-1'
+      },
+      {
+        id: 'embedded-1',
+        source: 'EMBEDDED',
+        language: null,
+        label: '字幕 2',
+        isDefault: true,
+        url: '/api/v1/media/7/subtitles/embedded-1'
+      }
+    ])
+    expect(mocks.trackFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { imageId: 7, status: 'COMPLETED', vttPath: { not: null } } })
+    )
+  })
+
+  it('rejects images that are not videos', async () => {
+    mocks.imageFindUnique.mockResolvedValue({ id: 8, path: 'folder/page.png', mediaType: 'IMAGE' })
+
+    await expect(listVideoSubtitleTracks(8)).rejects.toThrow('Image is not a video')
+    expect(mocks.trackFindMany).not.toHaveBeenCalled()
+  })
+
+  it('only resolves completed tracks of the requested image inside the subtitle root', async () => {
+    mocks.trackFindFirst.mockResolvedValueOnce({ vttPath: '7/track-1.vtt' }).mockResolvedValueOnce(null)
+
+    await expect(resolveVideoSubtitleFile({ imageId: 7, trackId: 'track-1' })).resolves.toMatch(
+      /video[\\/]subtitles[\\/]7[\\/]track-1\.vtt$/
+    )
+    await expect(resolveVideoSubtitleFile({ imageId: 7, trackId: 'track-2' })).resolves.toBeNull()
+    await expect(resolveVideoSubtitleFile({ imageId: 7, trackId: '../secret' })).resolves.toBeNull()
+    expect(mocks.trackFindFirst).toHaveBeenCalledWith({
+      where: { id: 'track-1', imageId: 7, status: 'COMPLETED' },
+      select: { vttPath: true }
+    })
+    expect(mocks.trackFindFirst).toHaveBeenCalledTimes(2)
+  })
+})
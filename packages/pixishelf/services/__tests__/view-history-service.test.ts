@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const mocks = vi.hoisted(() => ({
+  getUserSettings: vi.fn(),
+  historyFindFirst: vi.fn(),
+  historyCreate: vi.fn(),
+  historyUpdate: vi.fn(),
+  historyDeleteMany: vi.fn(),
+  historyGroupBy: vi.fn()
+}))
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    artworkViewHistory: {
+      findFirst: mocks.historyFindFirst,
+      create: mocks.historyCreate,
+      update: mocks.historyUpdate,
+      deleteMany: mocks.historyDeleteMany,
+      groupBy: mocks.historyGroupBy
+    }
+  }
+}))
+vi.mock('@/services/user-setting-service', () => ({ getUserSettings: mocks.getUserSettings }))
+
+import { buildActivityDates, listViewHistory, recordViewHeartbeat, startViewHistory } from '../view-history-service'
+
+const NOW = new Date('2026-10-19T12:00:00.000Z')
+
+describe('view history service', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+    vi.clearAllMocks()
+    mocks.getUserSettings.mockResolvedValue({})
+    mocks.historyDeleteMany.mockResolvedValue({ count: 0 })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('does not record anything while the user has paused history', async () => {
+    mocks.getUserSettings.mockResolvedValue({ view_history_retention_days: 0 })
+
+    await expect(startViewHistory('user-1', { artworkId: 7, source: 'artwork' })).resolves.toBeNull()
+    expect(mocks.historyFindFirst).not.toHaveBeenCalled()
+    expect(mocks.historyCreate).not.toHaveBeenCalled()
+  })
+
+  it('reuses a session reopened within a few minutes instead of starting a new one', async () => {
+    mocks.historyFindFirst.mockResolvedValue({ id: 3 })
+
+    await expect(startViewHistory('user-1', { artworkId: 7, source: 'viewer' })).resolves.toEqual({ id: 3 })
+    expect(mocks.historyFindFirst.mock.calls[0]?.[0]?.where).toEqual({
+      userId: 'user-1',
+      artworkId: 7,
+      lastActiveAt: { gte: new Date('2026-10-19T11:55:00.000Z') }
+    })
+    expect(mocks.historyCreate).not.toHaveBeenCalled()
+  })
+
+  it('prunes rows outside the retention window before creating a session', async () => {
+    mocks.getUserSettings.mockResolvedValue({ view_history_retention_days: 30 })
+    mocks.historyFindFirst.mockResolvedValue(null)
+    mocks.historyCreate.mockResolvedValue({ id: 9 })
+
+    await expect(startViewHistory('user-1', { artworkId: 7, source: 'artwork' })).resolves.toEqual({ id: 9 })
+    expect(mocks.historyDeleteMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', startedAt: { lt: new Date('2026-09-19T12:00:00.000Z') } }
+    })
+    expect(mocks.historyCreate).toHaveBeenCalledWith({
+      data: { userId: 'user-1', artworkId: 7, source: 'artwork' },
+      select: { id: true }
+    })
+  })
+
+  it('caps heartbeat time by the real interval and never lowers the media count', async () => {
+    mocks.historyFindFirst.mockResolvedValue({
+      lastActiveAt: new Date('2026-10-19T11:59:30.000Z'),
+      mediaViewed: 5
+    })
+
+    await expect(
+      recordViewHeartbeat('user-1', { id: 3, mediaViewed: 2, durationSec: 3600, videoWatchSec: 3600 })
+    ).resolves.toBe(true)
+    expect(mocks.historyUpdate).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: {
+        durationSec: { increment: 60 },
+        videoWatchSec: { increment: 180 },
+        mediaViewed: 5,
+        lastActiveAt: NOW
+      }
+    })
+  })
+
+  it('ignores heartbeats for sessions owned by another user', async () => {
+    mocks.historyFindFirst.mockResolvedValue(null)
+
+    await expect(
+      recordViewHeartbeat('user-2', { id: 3, mediaViewed: 1, durationSec: 10, videoWatchSec: 0 })
+    ).resolves.toBe(false)
+    expect(mocks.historyFindFirst.mock.calls[0]?.[0]?.where).toEqual({ id: 3, userId: 'user-2' })
+    expect(mocks.historyUpdate).not.toHaveBeenCalled()
+  })
+
+  it('lists history grouped by artwork with a page cursor', async () => {
+    mocks.historyGroupBy.mockResolvedValue([
+      {
+        artworkId: 1,
+        _max: { lastActiveAt: new Date('2026-10-19T10:00:00.000Z') },
+        _count: { _all: 3 },
+        _sum: { durationSec: 120, videoWatchSec: null }
+      },
+      {
+        artworkId: 2,
+        _max: { lastActiveAt: new Date('2026-10-18T10:00:00.000Z') },
+        _count: { _all: 1 },
+        _sum: { durationSec: 30, videoWatchSec: 12 }
+      }
+    ])
+
+    const result = await listViewHistory('user-1', { cursor: 2, pageSize: 1 })
+
+    expect(mocks.historyGroupBy.mock.calls[0]?.[0]).toMatchObject({
+      where: { userId: 'user-1', startedAt: { gte: new Date('2026-04-22T12:00:00.000Z') } },
+      skip: 1,
+      take: 2
+    })
+    expect(result).toEqual({
+      entries: [
+        {
+          artworkId: 1,
+          lastViewedAt: '2026-10-19T10:00:00.000Z',
+          viewCount: 3,
+          totalDurationSec: 120,
+          totalVideoWatchSec: 0
+        }
+      ],
+      nextCursor: 3
+    })
+  })
+
+  it('builds one local date per day of the stats window', () => {
+    expect(buildActivityDates(3, 'Asia/Shanghai', new Date('2026-10-19T18:00:00.000Z'))).toEqual([
+      '2026-10-18',
+      '2026-10-19',
+      '2026-10-20'
+    ])
+    expect(buildActivityDates(2, 'UTC', new Date('2026-10-19T18:00:00.000Z'))).toEqual(['2026-10-18', '2026-10-19'])
+  })
+})
@@ -0,0 +1,80 @@
+import 'server-only'
+
+import { createHash, randomBytes } from 'node:crypto'
+import type { UserAccessTokenScope } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+const TOKEN_PREFIX = 'psf_'
+const TOKEN_PREFIX_DISPLAY_LENGTH = 8
+// 最近使用时间只用于展示；五分钟内不重复写库，避免阅读器翻页时每张图都更新一次
+const LAST_USED_WRITE_INTERVAL_MS = 5 * 60 * 1_000
+
+export interface AccessTokenSummary {
+  scope: UserAccessTokenScope
+  tokenPrefix: string
+  createdAt: Date
+  lastUsedAt: Date | null
+}
+
+export interface IssuedAccessToken extends AccessTokenSummary {
+  token: string
+}
+
+export function hashAccessToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export async function getAccessTokenSummary(
+  userId: string,
+  scope: UserAccessTokenScope
+): Promise<AccessTokenSummary | null> {
+  return prisma.userAccessToken.findUnique({
+    where: { userId_scope: { userId, scope } },
+    select: { scope: true, tokenPrefix: true, createdAt: true, lastUsedAt: true }
+  })
+}
+
+/**
+ * 签发新令牌；同一用途已有令牌时直接轮换，旧令牌立即失效。
+ * 明文只在这里返回一次，库中只保存摘要。
+ */
+export async function issueAccessToken(userId: string, scope: UserAccessTokenScope): Promise<IssuedAccessToken> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  const data = {
+    tokenHash: hashAccessToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + TOKEN_PREFIX_DISPLAY_LENGTH),
+    createdAt: new Date(),
+    lastUsedAt: null
+  }
+  const record = await prisma.userAccessToken.upsert({
+    where: { userId_scope: { userId, scope } },
+    create: { userId, scope, ...data },
+    update: data,
+    select: { scope: true, tokenPrefix: true, createdAt: true, lastUsedAt: true }
+  })
+  return { ...record, token }
+}
+
+export async function revokeAccessToken(userId: string, scope: UserAccessTokenScope): Promise<boolean> {
+  const { count } = await prisma.userAccessToken.deleteMany({ where: { userId, scope } })
+  return count > 0
+}
+
+/**
+ * 校验令牌并返回所属用户；用途不匹配与令牌不存在一样视为无效。
+ */
+export async function authenticateAccessToken(token: string, scope: UserAccessTokenScope): Promise<string | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null
+
+  const record = await prisma.userAccessToken.findUnique({
+    where: { tokenHash: hashAccessToken(token) },
+    select: { id: true, userId: true, scope: true, lastUsedAt: true }
+  })
+  if (!record || record.scope !== scope) return null
+
+  const now = new Date()
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_WRITE_INTERVAL_MS) {
+    await prisma.userAccessToken.update({ where: { id: record.id }, data: { lastUsedAt: now } })
+  }
+  return record.userId
+}
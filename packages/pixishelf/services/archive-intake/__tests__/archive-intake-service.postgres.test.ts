@@ -6,8 +6,10 @@ import { archiveModule } from '@/services/archive/archive-module'
 import {
   cancelArchiveIntakeMany,
   createArchiveIntakeSubmission,
+  getArchiveIntakeItemsById,
   replaceArchiveIntakeItem,
-  retryArchiveIntakeMany
+  retryArchiveIntakeMany,
+  submitArchiveIntakeUrls
 } from '../archive-intake-service'
 import { enqueueArchiveIntakeMany } from '../archive-intake-enqueue-service'
 
@@ -15,6 +17,8 @@ const testDatabaseUrl = Reflect.get(process.env, 'PIXISHELF_TEST_DATABASE_URL')
 const describePostgres = testDatabaseUrl ? describe : describe.skip
 const suitePrefix = `archive-intake-stage2-${randomUUID()}`
 const requestedByUserId = `${suitePrefix}-admin`
+const otherUserId = `${suitePrefix}-other`
+const suiteUsers = { requestedByUserId: { in: [requestedByUserId, otherUserId] } }
 const database = createDatabaseClient(testDatabaseUrl ? { datasourceUrl: testDatabaseUrl } : undefined)
 const validateUrl = (value: string) => {
   const parsed = new URL(value)
@@ -26,7 +30,7 @@ describePostgres('archive intake PostgreSQL transactions', () => {
 
   afterEach(async () => {
     const submissions = await database.archiveIntakeSubmission.findMany({
-      where: { requestedByUserId },
+      where: suiteUsers,
       select: { id: true, items: { select: { currentSystemJobId: true, archiveImportId: true } } }
     })
     const itemJobIds = submissions.flatMap((submission) =>
@@ -36,13 +40,13 @@ describePostgres('archive intake PostgreSQL transactions', () => {
       submission.items.flatMap((item) => (item.archiveImportId ? [item.archiveImportId] : []))
     )
     await database.archiveBulkOperation.deleteMany({ where: { requestedByUserId } })
-    await database.archiveIntakeSubmission.deleteMany({ where: { requestedByUserId } })
+    await database.archiveIntakeSubmission.deleteMany({ where: suiteUsers })
     if (archiveImportIds.length > 0) {
       await database.archiveImport.deleteMany({ where: { id: { in: archiveImportIds } } })
     }
     await database.artwork.deleteMany({ where: { title: { startsWith: suitePrefix } } })
     await database.systemJob.deleteMany({
-      where: { OR: [{ requestedByUserId }, ...(itemJobIds.length ? [{ id: { in: itemJobIds } }] : [])] }
+      where: { OR: [suiteUsers, ...(itemJobIds.length ? [{ id: { in: itemJobIds } }] : [])] }
     })
     vi.unstubAllEnvs()
   })
@@ -460,6 +464,33 @@ describePostgres('archive intake PostgreSQL transactions', () => {
     expect(JSON.stringify(second)).not.toContain('private-token')
   })
 
+  it("polls only the caller's items and the originals its duplicate links point to", async () => {
+    const shared = 'https://e-hentai.org/g/shared/token/'
+    const others = await submitArchiveIntakeUrls(
+      { idempotencyKey: `${suitePrefix}-poll-other`, urls: [shared, 'https://e-hentai.org/g/private/token/'] },
+      otherUserId,
+      { database, validateUrl }
+    )
+    const own = await submitArchiveIntakeUrls(
+      { idempotencyKey: `${suitePrefix}-poll-own`, urls: [shared, 'https://e-hentai.org/g/own/token/'] },
+      requestedByUserId,
+      { database, validateUrl }
+    )
+    const [sharedItemId, privateItemId] = others.targets.map((target) => target.itemId!)
+    const ownItemId = own.targets[1]!.itemId!
+    expect(own.targets[0]!.itemId).toBe(sharedItemId)
+
+    const polled = await getArchiveIntakeItemsById(
+      { itemIds: [sharedItemId!, privateItemId!, ownItemId] },
+      requestedByUserId,
+      { database }
+    )
+
+    expect(polled.items.map((item) => item.id)).toEqual([sharedItemId, ownItemId])
+    const polledByOther = await getArchiveIntakeItemsById({ itemIds: [ownItemId] }, otherUserId, { database })
+    expect(polledByOther.items).toEqual([])
+  })
+
   it('persists partial bulk results and keeps completedAt stable on replay', async () => {
     const created = await createArchiveIntakeSubmission(
       {
@@ -3,13 +3,16 @@ import {
   archiveIntakeListSchema,
   archiveIntakeManySchema,
   createArchiveIntakeSchema,
+  getArchiveIntakeItemsById,
   hashSubmittedUrl,
   listArchiveIntakeItems,
   replaceArchiveIntakeItem,
-  replaceArchiveIntakeSchema
+  replaceArchiveIntakeSchema,
+  submitArchiveIntakeUrls
 } from '../archive-intake-service'
 import { enqueueArchiveIntakeManySchema } from '../archive-intake-enqueue-service'
 import { redactArchiveUrl } from '@/services/archive/archive-redaction'
+import { archiveRequestFingerprint } from '@/services/archive/archive-bulk-operation'
 
 describe('archive intake input and wire safety', () => {
   it('enforces create and bulk limits at the service boundary', () => {
@@ -196,6 +199,93 @@ describe('archive intake input and wire safety', () => {
     )
     expect(findMany.mock.calls[0]![0].where).toEqual({ id: 'item-duplicate' })
   })
+
+  it('maps each submitted URL to its own or the original intake item by submitted-URL hash', async () => {
+    const urls = [
+      'https://www.pixiv.net/artworks/1',
+      ' https://www.pixiv.net/artworks/2 ',
+      'https://www.pixiv.net/artworks/3',
+      'https://www.pixiv.net/artworks/1'
+    ]
+    const transaction = {
+      $queryRaw: vi.fn(),
+      archiveIntakeSubmission: {
+        // Idempotent replay returns the stored submission; URL mapping is identical to a first submission.
+        findUnique: vi.fn().mockResolvedValue({
+          id: 'submission-1',
+          requestHash: archiveRequestFingerprint({ urls: urls.map((url) => url.trim()) }),
+          requestedByUserId: 'admin-1'
+        }),
+        findUniqueOrThrow: vi.fn().mockResolvedValue({
+          id: 'submission-1',
+          rawCount: 4,
+          acceptedCount: 1,
+          invalidCount: 0,
+          duplicateCount: 2,
+          rejectedCount: 1,
+          createdAt: new Date('2026-08-18T00:00:00.000Z'),
+          items: []
+        })
+      }
+    }
+    const findMany = vi.fn().mockResolvedValue([
+      {
+        id: 'item-new',
+        normalizedUrlHash: hashSubmittedUrl(urls[0]!),
+        status: 'QUEUED',
+        duplicateOfItemId: null
+      },
+      {
+        id: 'item-audit',
+        normalizedUrlHash: hashSubmittedUrl(urls[1]!),
+        status: 'DUPLICATE',
+        duplicateOfItemId: 'item-original'
+      }
+    ])
+    const database = {
+      $transaction: vi.fn((callback) => callback(transaction)),
+      archiveIntakeItem: { findMany }
+    }
+
+    const result = await submitArchiveIntakeUrls({ idempotencyKey: 'extension-1', urls }, 'admin-1', {
+      database: database as never
+    })
+
+    expect(findMany.mock.calls[0]![0].where).toEqual({ submissionId: 'submission-1' })
+    expect(result.targets).toEqual([
+      { url: 'https://www.pixiv.net/artworks/1', itemId: 'item-new' },
+      { url: 'https://www.pixiv.net/artworks/2', itemId: 'item-original' },
+      { url: 'https://www.pixiv.net/artworks/3', itemId: null }
+    ])
+  })
+
+  it('returns polled items in request order, omits missing ids and reports expired READY items as STALE', async () => {
+    const findMany = vi
+      .fn()
+      .mockResolvedValue([
+        intakeRecord({ id: 'item-b', status: 'ENQUEUED', expiresAt: null }),
+        intakeRecord({ id: 'item-a' })
+      ])
+
+    const result = await getArchiveIntakeItemsById(
+      { itemIds: ['item-a', 'item-missing', 'item-b', 'item-a'] },
+      'admin-1',
+      { database: { archiveIntakeItem: { findMany } } as never, now: () => new Date('2026-08-20T00:00:00.000Z') }
+    )
+
+    expect(findMany.mock.calls[0]![0].where).toEqual({
+      id: { in: ['item-a', 'item-missing', 'item-b'] },
+      OR: [
+        { submission: { requestedByUserId: 'admin-1' } },
+        { duplicateItems: { some: { submission: { requestedByUserId: 'admin-1' } } } }
+      ]
+    })
+    expect(result.items.map((item) => [item.id, item.status])).toEqual([
+      ['item-a', 'STALE'],
+      ['item-b', 'ENQUEUED']
+    ])
+    expect(JSON.stringify(result)).not.toContain('private-token')
+  })
 })
 
 function intakeRecord(overrides: Record<string, unknown> = {}) {
@@ -1,5 +1,6 @@
 import { randomUUID } from 'node:crypto'
 import { archiveImportPayloadSchema, JOB_DEFINITION_VERSION } from '@pixishelf/job-contracts'
+import { resolveArchiveStorageDirectory } from '@pixishelf/job-executors'
 import { Prisma, type PrismaClient } from '@pixishelf/db'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
@@ -150,11 +151,21 @@ async function enqueueOne(
   }
   const importId = uuid()
   const jobId = uuid()
+  // 新作品按当前存储布局渲染目录并冻结到导入记录；已有作品的新修订沿用当前修订的目录。
+  const storageDirectory = await resolveArchiveStorageDirectory(transaction, {
+    providerKey: resolved.providerKey,
+    externalId: resolved.externalId,
+    creatorBucket: resolved.creatorBucket,
+    title: resolved.title,
+    tags: resolved.tags,
+    externalRefId: existingRef?.id ?? null
+  })
   const paths = buildArchiveStorageRelativePaths({
     importId,
     providerKey: resolved.providerKey,
     creatorBucket: resolved.creatorBucket,
-    externalId: resolved.externalId
+    externalId: resolved.externalId,
+    storageDirectory
   })
   await transaction.systemJob.create({
     data: {
@@ -189,6 +200,7 @@ async function enqueueOne(
       rawMetadata: toJsonValue(resolved.rawMetadata),
       metadataHash: item.metadataHash,
       creatorBucket: resolved.creatorBucket,
+      storageDirectory,
       stagingPath: paths.stagingRelativePath,
       totalItems: resolved.media.length,
       warning: redactArchiveText(resolved.warnings.join('\n') || null),
@@ -72,6 +72,16 @@ export const archiveIntakeManySchema = z
   })
   .strict()
 
+export const archiveIntakeItemsByIdSchema = z
+  .object({
+    itemIds: z
+      .array(z.string().trim().min(1).max(128))
+      .min(1)
+      .max(BULK_TARGET_LIMIT)
+      .transform((values) => [...new Set(values)])
+  })
+  .strict()
+
 export interface ArchiveIntakeServiceDependencies {
   database?: PrismaClient
   now?: () => Date
@@ -196,6 +206,34 @@ export async function createArchiveIntakeSubmission(
   })
 }
 
+/**
+ * 供浏览器扩展提交链接：在常规提交之外，按 hashSubmittedUrl 把每个提交的链接对应到收件箱项目，
+ * 重复链接对应到仍在收件箱中的原项目；无效或超出容量的链接对应 null。
+ * 返回的链接就是调用方提交的原文，不经过脱敏也不会泄露其他提交者的链接。
+ */
+export async function submitArchiveIntakeUrls(
+  input: z.input<typeof createArchiveIntakeSchema>,
+  requestedByUserId: string,
+  dependencies: ArchiveIntakeServiceDependencies = {}
+) {
+  const submission = await createArchiveIntakeSubmission(input, requestedByUserId, dependencies)
+  const rows = await getDatabase(dependencies).archiveIntakeItem.findMany({
+    where: { submissionId: submission.id },
+    select: { id: true, normalizedUrlHash: true, status: true, duplicateOfItemId: true }
+  })
+  const itemIdByHash = new Map(
+    rows.map((row) => [
+      row.normalizedUrlHash,
+      row.status === 'DUPLICATE' && row.duplicateOfItemId ? row.duplicateOfItemId : row.id
+    ])
+  )
+  const urls = [...new Set(input.urls.map((url) => url.trim()).filter(Boolean))]
+  return {
+    submission,
+    targets: urls.map((url) => ({ url, itemId: itemIdByHash.get(hashSubmittedUrl(url)) ?? null }))
+  }
+}
+
 export async function replaceArchiveIntakeItem(
   input: z.input<typeof replaceArchiveIntakeSchema>,
   requestedByUserId: string,
@@ -493,6 +531,35 @@ export async function listArchiveIntakeItems(
   }
 }
 
+/**
+ * 按 ID 批量读取收件箱项目，供浏览器扩展轮询自己提交过的项目状态；
+ * 只返回该用户提交的项目，以及其重复链接所指向的原项目（submitArchiveIntakeUrls 返回的正是它的 ID）。
+ * 不存在或不属于该用户的 ID 直接省略，调用方据此把本地记录视为已清理。
+ */
+export async function getArchiveIntakeItemsById(
+  input: z.input<typeof archiveIntakeItemsByIdSchema>,
+  requestedByUserId: string,
+  dependencies: ArchiveIntakeServiceDependencies = {}
+) {
+  const parsed = archiveIntakeItemsByIdSchema.parse(input)
+  const database = getDatabase(dependencies)
+  const now = (dependencies.now ?? (() => new Date()))()
+  const rows = await database.archiveIntakeItem.findMany({
+    where: {
+      id: { in: parsed.itemIds },
+      OR: [{ submission: { requestedByUserId } }, { duplicateItems: { some: { submission: { requestedByUserId } } } }]
+    },
+    select: intakeItemWireSelect
+  })
+  const byId = new Map(rows.map((item) => [item.id, item]))
+  return {
+    items: parsed.itemIds.flatMap((id) => {
+      const item = byId.get(id)
+      return item ? [serializeIntakeItem(item, now)] : []
+    })
+  }
+}
+
 export async function getArchiveIntakeSummary(dependencies: ArchiveIntakeServiceDependencies = {}) {
   const database = getDatabase(dependencies)
   const now = (dependencies.now ?? (() => new Date()))()
@@ -881,14 +948,15 @@ function validateSubmittedUrl(url: string, customValidator?: (url: string) => vo
   } catch (error) {
     throw new ArchiveError('INVALID_URL', '作品链接格式无效', { cause: error })
   }
-  if (parsed.protocol !== 'https:' || parsed.username || parsed.password) {
+  if ((parsed.protocol !== 'https:' && parsed.protocol !== 'file:') || parsed.username || parsed.password) {
     throw new ArchiveError('INVALID_URL', '归档链接必须使用不含用户凭据的 HTTPS URL')
   }
   if (customValidator) customValidator(url)
   else {
     archiveProviderRegistry.getForUrl(url)
     // Provider 先确认其可接收的入口；Safe HTTP 再以该入口主机为精确 allowlist 拒绝凭据和非标准端口。
-    validateArchiveUrl(url, [parsed.hostname])
+    // file:// 只会被本地清单 Provider 接收，它已限定在 ARCHIVE_MANIFEST_ROOT 内。
+    if (parsed.protocol === 'https:') validateArchiveUrl(url, [parsed.hostname])
   }
 }
 
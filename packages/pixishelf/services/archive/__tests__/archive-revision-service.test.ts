@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  diffArchiveRevisionMedia,
+  diffArchiveRevisionMetadata,
+  getArchiveRevisionHistory,
+  type ArchiveRevisionMediaItem
+} from '../archive-revision-service'
+
+function page(index: number, sha256: string): ArchiveRevisionMediaItem {
+  return { index, path: `${index}.jpg`, size: '10', width: 2, height: 2, sha256, mimeType: 'image/jpeg' }
+}
+
+describe('archive revision diff', () => {
+  it('pairs pages by digest so an inserted page does not mark later pages as changed', () => {
+    const diff = diffArchiveRevisionMedia(
+      [page(0, 'a'), page(1, 'b'), page(2, 'c')],
+      [page(0, 'a'), page(1, 'new'), page(2, 'b'), page(3, 'c')]
+    )
+
+    expect(diff).toEqual([
+      { change: 'UNCHANGED', index: 0, previousIndex: 0, sha256: 'a', previousSha256: 'a' },
+      { change: 'ADDED', index: 1, previousIndex: null, sha256: 'new', previousSha256: null },
+      { change: 'UNCHANGED', index: 2, previousIndex: 1, sha256: 'b', previousSha256: 'b' },
+      { change: 'UNCHANGED', index: 3, previousIndex: 2, sha256: 'c', previousSha256: 'c' }
+    ])
+  })
+
+  it('reports replaced pages at the same position as changed and missing ones as removed', () => {
+    const diff = diffArchiveRevisionMedia([page(0, 'a'), page(1, 'b'), page(2, 'c')], [page(0, 'a'), page(1, 'b2')])
+
+    expect(diff.map((item) => [item.change, item.index, item.previousIndex])).toEqual([
+      ['UNCHANGED', 0, 0],
+      ['CHANGED', 1, 1],
+      ['REMOVED', null, 2]
+    ])
+  })
+
+  it('lists changed metadata fields and namespaced tag differences', () => {
+    const diff = diffArchiveRevisionMetadata(
+      {
+        titles: { display: 'Old title' },
+        category: 'Manga',
+        aiGenerated: false,
+        tags: [
+          { namespace: 'general', name: 'sea' },
+          { namespace: 'artist', name: 'shiori' }
+        ]
+      },
+      {
+        titles: { display: 'New title' },
+        category: 'Manga',
+        aiGenerated: true,
+        tags: [
+          { namespace: 'artist', name: 'shiori' },
+          { namespace: 'female', name: 'glasses' }
+        ]
+      }
+    )
+
+    expect(diff).toEqual({
+      fields: [
+        { field: 'title', before: 'Old title', after: 'New title' },
+        { field: 'aiGenerated', before: 'false', after: 'true' }
+      ],
+      tagsAdded: ['female:glasses'],
+      tagsRemoved: ['sea']
+    })
+  })
+
+  it('returns newest revisions first and only offers restore for active, non-current revisions', async () => {
+    const database = {
+      artwork: {
+        findUnique: vi.fn().mockResolvedValue({
+          id: 7,
+          createdVia: 'URL_ARCHIVE',
+          archiveLifecycleState: 'ACTIVE',
+          deletedAt: null,
+          archiveRevisions: [
+            {
+              id: 'rev-1',
+              externalRefId: 'ref-1',
+              metadataHash: 'hash-1',
+              isCurrent: false,
+              trashPath: null,
+              publishedAt: new Date('2026-09-01T00:00:00.000Z'),
+              mediaSnapshot: [page(0, 'a')]
+            },
+            {
+              id: 'rev-2',
+              externalRefId: 'ref-1',
+              metadataHash: 'hash-2',
+              isCurrent: true,
+              trashPath: null,
+              publishedAt: new Date('2026-09-02T00:00:00.000Z'),
+              mediaSnapshot: [page(0, 'a'), page(1, 'b')]
+            }
+          ],
+          revisionRestores: []
+        })
+      },
+      artworkSourceSnapshot: {
+        findMany: vi.fn().mockResolvedValue([
+          { externalRefId: 'ref-1', metadataHash: 'hash-1', normalizedMetadata: { titles: { display: 'First' } } },
+          { externalRefId: 'ref-1', metadataHash: 'hash-2', normalizedMetadata: { titles: { display: 'Second' } } }
+        ])
+      }
+    }
+
+    const history = await getArchiveRevisionHistory(7, { database: database as never })
+
+    expect(history.revisions.map((revision) => [revision.id, revision.title, revision.restorable])).toEqual([
+      ['rev-2', 'Second', false],
+      ['rev-1', 'First', true]
+    ])
+    expect(history.revisions[0]!.pageDiff?.map((item) => item.change)).toEqual(['UNCHANGED', 'ADDED'])
+    expect(history.revisions[1]!.pageDiff).toBeNull()
+  })
+})
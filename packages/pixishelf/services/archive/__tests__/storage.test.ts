@@ -4,7 +4,14 @@ import os from 'node:os'
 import path from 'node:path'
 import { Readable } from 'node:stream'
 import { afterEach, describe, expect, it } from 'vitest'
-import { buildArchiveStoragePaths, prepareStagingDirectory, storeRemoteMedia, validateStoredMedia, writeManifest } from '../storage'
+import {
+  buildArchiveStoragePaths,
+  buildArchiveStorageRelativePaths,
+  prepareStagingDirectory,
+  storeRemoteMedia,
+  validateStoredMedia,
+  writeManifest
+} from '../storage'
 
 const PNG_1X1 = Buffer.from(
   'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNk+A8AAQUBAScY42YAAAAASUVORK5CYII=',
@@ -31,6 +38,15 @@ describe('archive storage', () => {
     expect(second.finalAbsolutePath).not.toBe(first.finalAbsolutePath)
   })
 
+  it('places revisions under the storage directory frozen at enqueue', () => {
+    const input = { importId: 'revision-1', providerKey: 'e-hentai', creatorBucket: 'alice', externalId: '42' }
+
+    expect(buildArchiveStorageRelativePaths({ ...input, storageDirectory: 'alice/42 - Gallery' }).finalRelativePath).toBe(
+      'sources/alice/42 - Gallery/revisions/revision-1'
+    )
+    expect(() => buildArchiveStorageRelativePaths({ ...input, storageDirectory: 'alice/../42' })).toThrow('归档存储目录无效')
+  })
+
   it('classifies staging-directory filesystem failures as task-level storage errors', async () => {
     const root = await mkdtemp(path.join(os.tmpdir(), 'pixishelf-archive-'))
     temporaryDirectories.push(root)
@@ -53,6 +53,20 @@ export interface ArchivePurgeMaintenanceResult {
   reused: boolean
 }
 
+export interface ArchiveRevisionRestoreRequest {
+  artworkId: number
+  revisionId: string
+  requestedByUserId: string
+  requestedAt?: Date
+}
+
+export interface ArchiveRevisionRestoreResult {
+  artworkId: number
+  restoreId: string
+  jobId: string
+  reused: boolean
+}
+
 interface ArchiveMaintenanceServiceDependencies {
   database: Pick<PrismaClientSingleton, '$transaction'>
   now: () => Date
@@ -408,6 +422,120 @@ export async function requestArchivePurgeMaintenance(
   })
 }
 
+/**
+ * Writes the restore audit row and its writer-lane job together. The worker re-verifies the revision media
+ * by SHA-256 before switching the current revision, so a queued restore never points at unchecked files.
+ */
+export async function requestArchiveRevisionRestore(
+  input: ArchiveRevisionRestoreRequest,
+  dependencies: ArchiveMaintenanceServiceDependencies = defaultDependencies
+): Promise<ArchiveRevisionRestoreResult> {
+  if (!Number.isSafeInteger(input.artworkId) || input.artworkId <= 0) {
+    throw new ArchiveError('INTERNAL', '归档作品标识无效')
+  }
+  if (!input.revisionId.trim()) throw new ArchiveError('INTERNAL', '归档版本标识无效')
+  if (!input.requestedByUserId.trim()) throw stateConflict('归档维护命令需要已认证的管理员')
+
+  return dependencies.database.$transaction(async (transaction) => {
+    const tx = transaction as ArchiveTransactionClient
+    await tx.$queryRawUnsafe('SELECT pg_advisory_xact_lock($1)::text', ARCHIVE_PUBLISH_ADVISORY_LOCK_ID)
+    const artwork = await tx.artwork.findUnique({
+      where: { id: input.artworkId },
+      include: {
+        archiveRevisions: {
+          include: { externalRef: true, archiveImport: { select: { systemJobId: true } } }
+        }
+      }
+    })
+    if (!artwork || artwork.createdVia !== 'URL_ARCHIVE') {
+      throw new ArchiveError('INTERNAL', '只能回滚 URL 归档作品')
+    }
+    if (artwork.archiveLifecycleState !== 'ACTIVE' || artwork.deletedAt) {
+      throw stateConflict('作品不在正常状态，不能回滚版本')
+    }
+    const revision = artwork.archiveRevisions.find((candidate) => candidate.id === input.revisionId)
+    if (!revision) throw stateConflict('归档版本不存在或不属于该作品')
+    if (revision.trashPath) throw stateConflict('归档版本已移入回收站')
+
+    const pending = await tx.archiveRevisionRestore.findFirst({
+      where: {
+        artworkId: artwork.id,
+        completedAt: null,
+        systemJob: { status: { in: [...ACTIVE_MAINTENANCE_JOB_STATUSES] } }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+    if (pending) {
+      if (pending.toRevisionId !== revision.id || !pending.systemJobId) {
+        throw stateConflict('该作品已有进行中的版本回滚')
+      }
+      return { artworkId: artwork.id, restoreId: pending.id, jobId: pending.systemJobId, reused: true }
+    }
+    if (revision.isCurrent) throw stateConflict('该版本已经是当前版本')
+
+    for (const identity of uniqueArchiveIdentities(artwork.archiveRevisions)) {
+      const activeImport = await tx.archiveImport.findFirst({
+        where: {
+          providerKey: identity.providerKey,
+          externalId: identity.externalId,
+          status: { in: ['PENDING', 'RUNNING', 'PAUSED', 'CANCELLING'] }
+        },
+        select: { id: true }
+      })
+      if (activeImport) throw stateConflict('该作品有进行中的归档更新，暂时不能回滚')
+    }
+
+    const requestedAt = input.requestedAt ?? dependencies.now()
+    const restoreId = randomUUID()
+    const jobId = randomUUID()
+    const payload = archiveMaintenancePayloadSchema.parse({
+      action: 'RESTORE_REVISION',
+      artworkId: artwork.id,
+      restoreId
+    })
+    await tx.systemJob.create({
+      data: {
+        id: jobId,
+        type: 'ARCHIVE_MAINTENANCE',
+        executionLane: 'BACKGROUND_WRITER',
+        definitionVersion: JOB_DEFINITION_VERSION,
+        status: 'PENDING',
+        triggerSource: 'MANUAL',
+        requestedByUserId: input.requestedByUserId,
+        parentJobId: revision.archiveImport?.systemJobId ?? null,
+        idempotencyKey: `archive-maintenance:RESTORE_REVISION:${restoreId}`,
+        payload,
+        queuePriority: 20,
+        effectivePriority: 20,
+        availableAt: requestedAt,
+        maxAttempts: 3,
+        progress: 0,
+        message: 'Restore archive revision as current'
+      }
+    })
+    // 审计行在入队时即写入：即使任务最终失败，也能追溯是谁在何时请求回滚到哪个版本。
+    await tx.archiveRevisionRestore.create({
+      data: {
+        id: restoreId,
+        artworkId: artwork.id,
+        fromRevisionId: artwork.archiveRevisions.find((candidate) => candidate.isCurrent)?.id ?? null,
+        toRevisionId: revision.id,
+        systemJobId: jobId,
+        requestedByUserId: input.requestedByUserId,
+        createdAt: requestedAt
+      }
+    })
+    await writeJobEvent(tx as unknown as Parameters<typeof writeJobEvent>[0], {
+      jobId,
+      type: 'job.queued',
+      attempt: 0,
+      message: 'Restore archive revision as current',
+      data: { action: payload.action, artworkId: artwork.id, revisionId: revision.id, restoreId }
+    })
+    return { artworkId: artwork.id, restoreId, jobId, reused: false }
+  })
+}
+
 async function findActiveArtworkMaintenanceJob(
   transaction: ArchiveTransactionClient,
   action: ArchiveArtworkMaintenanceAction,
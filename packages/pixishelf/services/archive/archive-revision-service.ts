@@ -0,0 +1,289 @@
+import type { PrismaClient } from '@pixishelf/db'
+import { prisma } from '@/lib/prisma'
+import { ArchiveError } from './errors'
+
+export interface ArchiveRevisionMediaItem {
+  index: number
+  path: string
+  size: string | null
+  width: number | null
+  height: number | null
+  sha256: string | null
+  mimeType: string | null
+}
+
+export type ArchiveRevisionPageChange = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED'
+
+export interface ArchiveRevisionPageDiff {
+  change: ArchiveRevisionPageChange
+  /** 新版本中的页码；REMOVED 时为 null */
+  index: number | null
+  /** 旧版本中的页码；ADDED 时为 null。UNCHANGED 且与 index 不同表示页面被移动 */
+  previousIndex: number | null
+  sha256: string | null
+  previousSha256: string | null
+}
+
+export interface ArchiveRevisionMetadataChange {
+  field: ArchiveRevisionMetadataField
+  before: string | null
+  after: string | null
+}
+
+export type ArchiveRevisionMetadataField =
+  | 'title'
+  | 'description'
+  | 'postedAt'
+  | 'category'
+  | 'uploader'
+  | 'artist'
+  | 'series'
+  | 'aiGenerated'
+  | 'xRestrict'
+
+export interface ArchiveRevisionMetadataDiff {
+  fields: ArchiveRevisionMetadataChange[]
+  tagsAdded: string[]
+  tagsRemoved: string[]
+}
+
+export interface ArchiveRevisionHistoryEntry {
+  id: string
+  isCurrent: boolean
+  publishedAt: Date
+  metadataHash: string
+  pageCount: number
+  title: string | null
+  /** 与上一个（更早的）版本比较；最早的版本为 null */
+  metadataDiff: ArchiveRevisionMetadataDiff | null
+  pageDiff: ArchiveRevisionPageDiff[] | null
+  restorable: boolean
+}
+
+export interface ArchiveRevisionRestoreEntry {
+  id: string
+  fromRevisionId: string | null
+  toRevisionId: string
+  requestedByUserId: string | null
+  createdAt: Date
+  completedAt: Date | null
+  jobId: string | null
+  jobStatus: string | null
+}
+
+export interface ArchiveRevisionHistory {
+  artworkId: number
+  revisions: ArchiveRevisionHistoryEntry[]
+  restores: ArchiveRevisionRestoreEntry[]
+}
+
+const METADATA_FIELDS: Array<[ArchiveRevisionMetadataField, (metadata: Record<string, unknown>) => string | null]> = [
+  ['title', (metadata) => nestedString(metadata, ['titles', 'display'])],
+  ['description', (metadata) => nestedString(metadata, ['description'])],
+  ['postedAt', (metadata) => nestedString(metadata, ['postedAt'])],
+  ['category', (metadata) => nestedString(metadata, ['category'])],
+  ['uploader', (metadata) => nestedString(metadata, ['uploader'])],
+  ['artist', (metadata) => nestedString(metadata, ['artist', 'name'])],
+  ['series', (metadata) => nestedString(metadata, ['series', 'title'])],
+  ['aiGenerated', (metadata) => (typeof metadata.aiGenerated === 'boolean' ? String(metadata.aiGenerated) : null)],
+  ['xRestrict', (metadata) => nestedString(metadata, ['xRestrict'])]
+]
+
+/**
+ * 读取作品全部归档版本，并逐个与更早的版本比较元数据与页面。
+ * 页面差异按 SHA-256 判定，不依赖文件名，因此来源重新编号或插页时不会把整本误报为修改。
+ */
+export async function getArchiveRevisionHistory(
+  artworkId: number,
+  dependencies: { database?: PrismaClient } = {}
+): Promise<ArchiveRevisionHistory> {
+  const database = dependencies.database ?? (prisma as unknown as PrismaClient)
+  const artwork = await database.artwork.findUnique({
+    where: { id: artworkId },
+    select: {
+      id: true,
+      createdVia: true,
+      archiveLifecycleState: true,
+      deletedAt: true,
+      archiveRevisions: { orderBy: [{ publishedAt: 'asc' }, { id: 'asc' }] },
+      revisionRestores: {
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+        include: { systemJob: { select: { id: true, status: true } } }
+      }
+    }
+  })
+  if (!artwork || artwork.createdVia !== 'URL_ARCHIVE') {
+    throw new ArchiveError('REMOTE_NOT_FOUND', '作品不存在或不是 URL 归档作品')
+  }
+
+  const snapshots = await database.artworkSourceSnapshot.findMany({
+    where: {
+      OR: artwork.archiveRevisions.map((revision) => ({
+        externalRefId: revision.externalRefId,
+        metadataHash: revision.metadataHash
+      }))
+    },
+    select: { externalRefId: true, metadataHash: true, normalizedMetadata: true }
+  })
+  const metadataByRevision = new Map(
+    artwork.archiveRevisions.map((revision) => {
+      const snapshot = snapshots.find(
+        (candidate) =>
+          candidate.externalRefId === revision.externalRefId && candidate.metadataHash === revision.metadataHash
+      )
+      return [revision.id, asRecord(snapshot?.normalizedMetadata)] as const
+    })
+  )
+
+  const active = artwork.archiveLifecycleState === 'ACTIVE' && !artwork.deletedAt
+  const entries = artwork.archiveRevisions.map((revision, position) => {
+    const media = parseMediaSnapshot(revision.mediaSnapshot)
+    const metadata = metadataByRevision.get(revision.id) ?? null
+    const previous = position > 0 ? artwork.archiveRevisions[position - 1]! : null
+    const previousMetadata = previous ? (metadataByRevision.get(previous.id) ?? null) : null
+    return {
+      id: revision.id,
+      isCurrent: revision.isCurrent,
+      publishedAt: revision.publishedAt,
+      metadataHash: revision.metadataHash,
+      pageCount: media.length,
+      title: metadata ? nestedString(metadata, ['titles', 'display']) : null,
+      metadataDiff: previous ? diffArchiveRevisionMetadata(previousMetadata, metadata) : null,
+      pageDiff: previous ? diffArchiveRevisionMedia(parseMediaSnapshot(previous.mediaSnapshot), media) : null,
+      restorable: active && !revision.isCurrent && !revision.trashPath && media.length > 0 && metadata !== null
+    }
+  })
+
+  return {
+    artworkId: artwork.id,
+    revisions: entries.reverse(),
+    restores: artwork.revisionRestores.map((restore) => ({
+      id: restore.id,
+      fromRevisionId: restore.fromRevisionId,
+      toRevisionId: restore.toRevisionId,
+      requestedByUserId: restore.requestedByUserId,
+      createdAt: restore.createdAt,
+      completedAt: restore.completedAt,
+      jobId: restore.systemJob?.id ?? null,
+      jobStatus: restore.systemJob?.status ?? null
+    }))
+  }
+}
+
+/**
+ * 页面差异：先按 SHA-256 配对内容相同的页面（可能发生了移动），
+ * 剩余页面按页码配对为 CHANGED，无法配对的分别记为 ADDED / REMOVED。
+ */
+export function diffArchiveRevisionMedia(
+  previous: readonly ArchiveRevisionMediaItem[],
+  current: readonly ArchiveRevisionMediaItem[]
+): ArchiveRevisionPageDiff[] {
+  const unmatchedPrevious = new Map(previous.map((item) => [item.index, item]))
+  const previousByDigest = new Map<string, ArchiveRevisionMediaItem[]>()
+  for (const item of previous) {
+    if (!item.sha256) continue
+    previousByDigest.set(item.sha256, [...(previousByDigest.get(item.sha256) ?? []), item])
+  }
+
+  const pages: ArchiveRevisionPageDiff[] = []
+  const unmatchedCurrent: ArchiveRevisionMediaItem[] = []
+  for (const item of current) {
+    const candidates = item.sha256 ? previousByDigest.get(item.sha256) : undefined
+    const match =
+      candidates?.find((candidate) => candidate.index === item.index && unmatchedPrevious.has(candidate.index)) ??
+      candidates?.find((candidate) => unmatchedPrevious.has(candidate.index))
+    if (!match) {
+      unmatchedCurrent.push(item)
+      continue
+    }
+    unmatchedPrevious.delete(match.index)
+    pages.push({
+      change: 'UNCHANGED',
+      index: item.index,
+      previousIndex: match.index,
+      sha256: item.sha256,
+      previousSha256: match.sha256
+    })
+  }
+  for (const item of unmatchedCurrent) {
+    const replaced = unmatchedPrevious.get(item.index)
+    if (replaced) unmatchedPrevious.delete(item.index)
+    pages.push({
+      change: replaced ? 'CHANGED' : 'ADDED',
+      index: item.index,
+      previousIndex: replaced?.index ?? null,
+      sha256: item.sha256,
+      previousSha256: replaced?.sha256 ?? null
+    })
+  }
+  for (const item of unmatchedPrevious.values()) {
+    pages.push({ change: 'REMOVED', index: null, previousIndex: item.index, sha256: null, previousSha256: item.sha256 })
+  }
+  return pages.sort(
+    (left, right) =>
+      (left.index ?? left.previousIndex ?? 0) - (right.index ?? right.previousIndex ?? 0) ||
+      (left.change === 'REMOVED' ? 1 : 0) - (right.change === 'REMOVED' ? 1 : 0)
+  )
+}
+
+export function diffArchiveRevisionMetadata(
+  previous: Record<string, unknown> | null,
+  current: Record<string, unknown> | null
+): ArchiveRevisionMetadataDiff {
+  const fields: ArchiveRevisionMetadataChange[] = []
+  for (const [field, read] of METADATA_FIELDS) {
+    const before = previous ? read(previous) : null
+    const after = current ? read(current) : null
+    if (before !== after) fields.push({ field, before, after })
+  }
+  const previousTags = new Set(previous ? readTags(previous) : [])
+  const currentTags = new Set(current ? readTags(current) : [])
+  return {
+    fields,
+    tagsAdded: [...currentTags].filter((tag) => !previousTags.has(tag)),
+    tagsRemoved: [...previousTags].filter((tag) => !currentTags.has(tag))
+  }
+}
+
+function parseMediaSnapshot(value: unknown): ArchiveRevisionMediaItem[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .map(asRecord)
+    .filter((item): item is Record<string, unknown> => item !== null && typeof item.index === 'number')
+    .map((item) => ({
+      index: item.index as number,
+      path: typeof item.path === 'string' ? item.path : '',
+      size: typeof item.size === 'string' ? item.size : null,
+      width: typeof item.width === 'number' ? item.width : null,
+      height: typeof item.height === 'number' ? item.height : null,
+      sha256: typeof item.sha256 === 'string' ? item.sha256 : null,
+      mimeType: typeof item.mimeType === 'string' ? item.mimeType : null
+    }))
+    .sort((left, right) => left.index - right.index)
+}
+
+function readTags(metadata: Record<string, unknown>): string[] {
+  if (!Array.isArray(metadata.tags)) return []
+  return metadata.tags.flatMap((value) => {
+    const tag = asRecord(value)
+    const namespace = tag ? nestedString(tag, ['namespace']) : null
+    const name = tag ? nestedString(tag, ['name']) : null
+    if (!name) return []
+    return [namespace && namespace !== 'general' ? `${namespace}:${name}` : name]
+  })
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null
+}
+
+function nestedString(value: Record<string, unknown>, keys: string[]): string | null {
+  let current: unknown = value
+  for (const key of keys) {
+    const record = asRecord(current)
+    if (!record) return null
+    current = record[key]
+  }
+  return typeof current === 'string' && current.trim() ? current.trim() : null
+}
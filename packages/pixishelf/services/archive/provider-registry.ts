@@ -1,5 +1,6 @@
 import { ArchiveError } from './errors'
 import type { ArchiveProvider } from './types'
+import { LocalManifestProvider, PixivProvider } from '@pixishelf/job-executors'
 import { EHentaiProvider } from './providers/e-hentai'
 
 export class ArchiveProviderRegistry {
@@ -13,7 +14,9 @@ export class ArchiveProviderRegistry {
       throw new ArchiveError('INVALID_URL', '作品链接格式无效', { cause: error })
     }
     const provider = this.providers.find((candidate) => candidate.accepts(url))
-    if (!provider) throw new ArchiveError('UNSUPPORTED_PROVIDER', '当前仅支持公开的 E-Hentai 作品链接')
+    if (!provider) {
+      throw new ArchiveError('UNSUPPORTED_PROVIDER', '当前仅支持公开的 E-Hentai、Pixiv 作品链接与本地清单目录')
+    }
     return provider
   }
 
@@ -24,4 +27,8 @@ export class ArchiveProviderRegistry {
   }
 }
 
-export const archiveProviderRegistry = new ArchiveProviderRegistry([new EHentaiProvider()])
+export const archiveProviderRegistry = new ArchiveProviderRegistry([
+  new EHentaiProvider(),
+  new PixivProvider(),
+  new LocalManifestProvider()
+])
@@ -50,17 +50,17 @@ export function buildArchiveStorageRelativePaths(input: {
   providerKey: string
   creatorBucket: string
   externalId: string
+  storageDirectory?: string | null
 }): ArchiveStorageRelativePaths {
-  const provider = safePathSegment(input.providerKey)
-  const bucket = safePathSegment(input.creatorBucket)
-  const externalId = safePathSegment(input.externalId)
   const importId = safePathSegment(input.importId)
+  // 入队时冻结的存储布局目录原样使用；为空时沿用 `<provider>/<creatorBucket>/<externalId>`。
+  const artworkDirectory = input.storageDirectory
+    ? storageDirectorySegments(input.storageDirectory)
+    : [safePathSegment(input.providerKey), safePathSegment(input.creatorBucket), safePathSegment(input.externalId)]
   const stagingRelativePath = normalizeRelativePath(path.join('.archive-staging', importId))
   // 每个已发布修订都有一个不可变的、按导入固定的目录。
   // 这使文件系统发布可重试：崩溃可能留下未被引用的待发布目录，但它永远不会替换当前已发布目录。
-  const finalRelativePath = normalizeRelativePath(
-    path.join('sources', provider, bucket, externalId, 'revisions', importId)
-  )
+  const finalRelativePath = normalizeRelativePath(path.join('sources', ...artworkDirectory, 'revisions', importId))
   return {
     stagingRelativePath,
     finalRelativePath
@@ -300,6 +300,22 @@ function safePathSegment(value: string): string {
   return safe
 }
 
+function storageDirectorySegments(value: string): string[] {
+  const segments = value.split('/')
+  for (const segment of segments) {
+    if (
+      !segment ||
+      segment.startsWith('.') ||
+      /[. ]$/.test(segment) ||
+      // oxlint-disable-next-line no-control-regex -- 文件路径片段必须去除 C0 控制字符
+      /[<>:"\\|?*\u0000-\u001f]/.test(segment)
+    ) {
+      throw new ArchiveError('INTERNAL', '归档存储目录无效')
+    }
+  }
+  return segments
+}
+
 function safeExtension(value: string): string {
   const normalized = value.toLowerCase()
   return /^\.[a-z0-9]{1,8}$/.test(normalized) ? normalized : ''
@@ -0,0 +1,192 @@
+import 'server-only'
+
+import type { Prisma } from '@prisma/client'
+import { artworkExportSelectionSchema, type ArtworkExportSelection } from '@pixishelf/job-contracts'
+import { buildMigrationArtworkWhere } from '@pixishelf/job-executors'
+import { prisma } from '@/lib/prisma'
+import {
+  ARTWORK_EXPORT_MAX_ARTWORKS,
+  ArtworkExportCreateSchema,
+  type ArtworkExportDisplayStatus,
+  type ArtworkExportItem,
+  type ArtworkExportList,
+  type ArtworkExportListQuerySchema
+} from '@/schemas/artwork-export.dto'
+import { enqueueJob } from '@/services/background-task/job-command-service'
+import { ARTWORK_EXPORT_STORAGE_ROOT, resolveDerivedMediaStoragePath } from '@/services/derived-media-storage-paths'
+import { buildMigrationSelection } from '@/services/migration-service'
+
+const TERMINAL_FAILURE_STATUSES = new Set(['FAILED', 'CANCELLED', 'SKIPPED'])
+
+export class ArtworkExportServiceError extends Error {
+  constructor(
+    public readonly code: 'BAD_REQUEST' | 'NOT_FOUND',
+    message: string
+  ) {
+    super(message)
+    this.name = 'ArtworkExportServiceError'
+  }
+}
+
+const exportSelect = {
+  id: true,
+  systemJobId: true,
+  label: true,
+  format: true,
+  selectionMode: true,
+  status: true,
+  requestedCount: true,
+  artworkCount: true,
+  fileCount: true,
+  skippedCount: true,
+  fileName: true,
+  sizeBytes: true,
+  error: true,
+  expiresAt: true,
+  completedAt: true,
+  createdAt: true,
+  systemJob: { select: { status: true, error: true } }
+} satisfies Prisma.ArtworkExportSelect
+
+type ExportRow = Prisma.ArtworkExportGetPayload<{ select: typeof exportSelect }>
+
+function displayStatus(row: ExportRow, now: Date): ArtworkExportDisplayStatus {
+  if (row.status === 'READY') return row.expiresAt && row.expiresAt <= now ? 'EXPIRED' : 'READY'
+  if (row.status === 'FAILED' || TERMINAL_FAILURE_STATUSES.has(row.systemJob.status)) return 'FAILED'
+  return 'PENDING'
+}
+
+function toItem(row: ExportRow, now: Date): ArtworkExportItem {
+  const status = displayStatus(row, now)
+  return {
+    id: row.id,
+    jobId: row.systemJobId,
+    label: row.label,
+    format: row.format,
+    selectionMode: row.selectionMode,
+    status,
+    requestedCount: row.requestedCount,
+    artworkCount: row.artworkCount,
+    fileCount: row.fileCount,
+    skippedCount: row.skippedCount,
+    fileName: row.fileName,
+    sizeBytes: row.sizeBytes === null ? null : Number(row.sizeBytes),
+    error: row.error ?? (status === 'FAILED' ? row.systemJob.error : null),
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    completedAt: row.completedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    downloadUrl: status === 'READY' ? `/api/v1/exports/${row.id}` : null
+  }
+}
+
+/**
+ * 解析导出范围并统计作品数
+ * @description 作品 ID 与筛选条件复用迁移任务的选择结构，Worker 端按同一条件重新查询；系列按阅读顺序导出
+ */
+async function resolveSelection(
+  input: ArtworkExportCreateSchema['selection']
+): Promise<{ selection: ArtworkExportSelection; count: number; defaultLabel: string }> {
+  if (input.mode === 'SERIES') {
+    const series = await prisma.series.findUnique({ where: { id: input.seriesId }, select: { title: true } })
+    if (!series) throw new ArtworkExportServiceError('NOT_FOUND', '系列不存在')
+    const count = await prisma.seriesArtwork.count({
+      where: { seriesId: input.seriesId, artwork: { deletedAt: null } }
+    })
+    return { selection: { mode: 'SERIES', seriesId: input.seriesId }, count, defaultLabel: series.title }
+  }
+
+  const migrationSelection =
+    input.mode === 'ARTWORK_IDS'
+      ? await buildMigrationSelection({ targetIds: input.artworkIds })
+      : await buildMigrationSelection({ filters: input.filters })
+  const selection = artworkExportSelectionSchema.parse(migrationSelection)
+  if (selection.mode === 'SERIES') throw new ArtworkExportServiceError('BAD_REQUEST', '导出范围无效')
+  const where = buildMigrationArtworkWhere(selection, 0)
+  const count = await prisma.artwork.count({ where })
+  if (count === 1) {
+    const artwork = await prisma.artwork.findFirst({
+      where,
+      select: { title: true, artist: { select: { name: true } } }
+    })
+    if (artwork) {
+      return {
+        selection,
+        count,
+        defaultLabel: artwork.artist ? `${artwork.artist.name} - ${artwork.title}` : artwork.title
+      }
+    }
+  }
+  return { selection, count, defaultLabel: `作品导出（${count} 个）` }
+}
+
+/**
+ * 创建导出任务：任务与导出记录在同一事务中写入，Worker 领取后按记录打包
+ */
+export async function createArtworkExport(userId: string, raw: ArtworkExportCreateSchema): Promise<ArtworkExportItem> {
+  const input = ArtworkExportCreateSchema.parse(raw)
+  const { selection, count, defaultLabel } = await resolveSelection(input.selection)
+  if (count === 0) throw new ArtworkExportServiceError('BAD_REQUEST', '导出范围内没有作品')
+  if (count > ARTWORK_EXPORT_MAX_ARTWORKS) {
+    throw new ArtworkExportServiceError(
+      'BAD_REQUEST',
+      `单次最多导出 ${ARTWORK_EXPORT_MAX_ARTWORKS} 个作品，当前范围包含 ${count} 个`
+    )
+  }
+
+  const row = await prisma.$transaction(async (transaction) => {
+    const job = await enqueueJob(
+      {
+        type: 'ARTWORK_EXPORT',
+        triggerSource: 'MANUAL',
+        requestedByUserId: userId,
+        priority: 40,
+        maxAttempts: 3,
+        payload: { selection, format: input.format, retentionHours: input.retentionHours }
+      },
+      { $transaction: (operation) => operation(transaction as unknown as Prisma.TransactionClient) }
+    )
+    return transaction.artworkExport.create({
+      data: {
+        systemJobId: job.id,
+        format: input.format,
+        selectionMode: selection.mode,
+        label: (input.label || defaultLabel).slice(0, 200),
+        requestedCount: count
+      },
+      select: exportSelect
+    })
+  })
+  return toItem(row, new Date())
+}
+
+export async function listArtworkExports(query: ArtworkExportListQuerySchema): Promise<ArtworkExportList> {
+  const [rows, total] = await Promise.all([
+    prisma.artworkExport.findMany({
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+      select: exportSelect
+    }),
+    prisma.artworkExport.count()
+  ])
+  const now = new Date()
+  return { items: rows.map((row) => toItem(row, now)), total, page: query.page, pageSize: query.pageSize }
+}
+
+/**
+ * 下载前校验：只有已完成且未过期的导出可下载
+ */
+export async function resolveArtworkExportDownload(
+  exportId: string,
+  now = new Date()
+): Promise<{ filePath: string; fileName: string } | null> {
+  const row = await prisma.artworkExport.findUnique({
+    where: { id: exportId },
+    select: { status: true, relativePath: true, fileName: true, expiresAt: true }
+  })
+  if (!row || row.status !== 'READY' || !row.relativePath || !row.expiresAt || row.expiresAt <= now) return null
+  return {
+    filePath: resolveDerivedMediaStoragePath(ARTWORK_EXPORT_STORAGE_ROOT, row.relativePath),
+    fileName: row.fileName ?? row.relativePath
+  }
+}
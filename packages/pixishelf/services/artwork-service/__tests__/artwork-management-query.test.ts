@@ -75,6 +75,7 @@ describe('buildArtworkWhereClause', () => {
 
     expect(whereSQL).toContain('AND EXISTS')
     expect(whereSQL).toContain('t2.name = ANY($1)')
+    expect(whereSQL).toContain('SELECT ta."tagId" FROM tag_aliases ta WHERE ta.name = ANY($1)')
     expect(sqlParams[0]).toEqual(['tag1', 'tag2'])
   })
 
@@ -85,7 +86,7 @@ describe('buildArtworkWhereClause', () => {
     const { whereSQL, sqlParams } = buildArtworkWhereClause(params)
 
     expect(whereSQL).toContain('AND NOT EXISTS')
-    expect(whereSQL).toContain('t_ex.name = ANY($1)')
+    expect(whereSQL).toContain('t_ex.name = ANY($1) OR t_ex.id IN (SELECT ta."tagId" FROM tag_aliases ta')
     expect(sqlParams[0]).toEqual(['bad1', 'bad2'])
   })
 
@@ -277,6 +278,31 @@ describe('buildArtworkWhereClause', () => {
     expect(sqlParams[0]).toEqual(['common'])
     expect(sqlParams[1]).toEqual(['common'])
   })
+
+  it('should AND the structured query after the separate params with continued numbering', () => {
+    const params = ArtworksInfiniteQuerySchema.parse({
+      artistId: 9,
+      q: 'tag:foo -tag:bar source:url_archive media:>10 date:2024 cat'
+    })
+    const { whereSQL, sqlParams, paramIndex } = buildArtworkWhereClause(params)
+
+    expect(whereSQL).toContain('a."artistId" = $1')
+    expect(whereSQL).toContain('a.source = ANY($2::"ArtworkSource"[])')
+    expect(whereSQL).toContain('t2.name = ANY($3)')
+    expect(whereSQL).toContain('t_ex.name = ANY($4)')
+    expect(whereSQL).toContain('a.title ILIKE $5')
+    expect(whereSQL).toContain('a."sourceDate" >= $6::date')
+    expect(whereSQL).toContain('a."imageCount" >= $8')
+    expect(sqlParams).toEqual([9, [ESource.URL_ARCHIVE], ['foo'], ['bar'], '%cat%', '2024-01-01', '2024-12-31', 11])
+    expect(paramIndex).toBe(9)
+  })
+
+  it('should reject structured queries with syntax errors at validation time', () => {
+    const result = ArtworksInfiniteQuerySchema.safeParse({ q: 'tag:ok media:lots' })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0]).toMatchObject({ path: ['q'], params: { start: 13, end: 17 } })
+  })
 })
 
 describe('getArtworksList sort mapping', () => {
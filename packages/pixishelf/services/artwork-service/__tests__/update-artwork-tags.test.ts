@@ -1,17 +1,20 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-const { artworkUpdate, artworkTagDeleteMany, artworkTagCreateMany, prismaMock } = vi.hoisted(() => {
+const { artworkUpdate, artworkTagDeleteMany, artworkTagCreateMany, executeRaw, prismaMock } = vi.hoisted(() => {
   const artworkUpdate = vi.fn()
   const artworkTagDeleteMany = vi.fn()
   const artworkTagCreateMany = vi.fn()
+  const executeRaw = vi.fn()
   const tx = {
     artwork: { update: artworkUpdate },
-    artworkTag: { deleteMany: artworkTagDeleteMany, createMany: artworkTagCreateMany }
+    artworkTag: { deleteMany: artworkTagDeleteMany, createMany: artworkTagCreateMany },
+    $executeRaw: executeRaw
   }
   return {
     artworkUpdate,
     artworkTagDeleteMany,
     artworkTagCreateMany,
+    executeRaw,
     prismaMock: { ...tx, $transaction: vi.fn((operation: (client: typeof tx) => unknown) => operation(tx)) }
   }
 })
@@ -48,5 +51,13 @@ describe('updateArtwork tag provenance', () => {
       ],
       skipDuplicates: true
     })
+    expect(String(executeRaw.mock.calls[0]?.[0]?.strings?.join('?'))).toContain('tag_implications')
+  })
+
+  it('leaves tags and implied tags untouched when the tag set is not submitted', async () => {
+    await updateArtwork(42, { title: 'updated' })
+
+    expect(artworkTagDeleteMany).not.toHaveBeenCalled()
+    expect(executeRaw).not.toHaveBeenCalled()
   })
 })
@@ -2,11 +2,20 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { ViewerFeedQuerySchema } from '@/schemas/artwork.dto'
 import { ESource } from '@/enums/e-source'
 
-const { queryRawMock, imageFindManyMock, artworkTagFindManyMock, likeStatusMock } = vi.hoisted(() => ({
+const {
+  queryRawMock,
+  imageFindManyMock,
+  artworkTagFindManyMock,
+  likeStatusMock,
+  collectionFiltersMock,
+  readingProgressMock
+} = vi.hoisted(() => ({
   queryRawMock: vi.fn(),
   imageFindManyMock: vi.fn(),
   artworkTagFindManyMock: vi.fn(),
-  likeStatusMock: vi.fn()
+  likeStatusMock: vi.fn(),
+  collectionFiltersMock: vi.fn(),
+  readingProgressMock: vi.fn()
 }))
 
 vi.mock('server-only', () => ({}))
@@ -18,6 +27,8 @@ vi.mock('@/lib/prisma', () => ({
   }
 }))
 vi.mock('@/services/like-service', () => ({ getUserArtworkLikeStatus: likeStatusMock }))
+vi.mock('@/services/smart-collection-service', () => ({ getSmartCollectionFilters: collectionFiltersMock }))
+vi.mock('@/services/reading-progress-service', () => ({ getReadingProgressMap: readingProgressMock }))
 
 import { getViewerFeed } from '../index'
 
@@ -41,6 +52,8 @@ describe('getViewerFeed query shape', () => {
     imageFindManyMock.mockReset().mockResolvedValue([])
     artworkTagFindManyMock.mockReset().mockResolvedValue([])
     likeStatusMock.mockReset().mockResolvedValue({})
+    collectionFiltersMock.mockReset()
+    readingProgressMock.mockReset().mockResolvedValue(new Map())
   })
 
   it('uses one overfetched page query, forwards all filters, and skips an exact count', async () => {
@@ -72,6 +85,7 @@ describe('getViewerFeed query shape', () => {
     expect(imageFindManyMock).toHaveBeenCalledOnce()
     expect(artworkTagFindManyMock).toHaveBeenCalledOnce()
     expect(likeStatusMock).toHaveBeenCalledWith('user-1', [1, 2])
+    expect(readingProgressMock).toHaveBeenCalledWith('user-1', [1, 2])
     expect(result).toMatchObject({ page: 1, pageSize: 2, nextPage: 2 })
     expect(result.items).toHaveLength(2)
     expect(result).not.toHaveProperty('total')
@@ -88,4 +102,39 @@ describe('getViewerFeed query shape', () => {
     expect(queryRawMock).toHaveBeenCalledOnce()
     expect(queryRawMock.mock.calls[0]).toContainEqual([12])
   })
+
+  it('uses the saved smart collection filters as the base and lets explicit viewer filters override them', async () => {
+    queryRawMock.mockResolvedValue([rawArtwork(5)])
+    collectionFiltersMock.mockResolvedValue({ artistId: 3, sources: [ESource.LOCAL_IMPORT], q: 'tag:sky' })
+
+    await getViewerFeed({
+      ...ViewerFeedQuerySchema.parse({
+        source: 'collection',
+        sourceId: 7,
+        mode: 'ordered',
+        pageSize: 2,
+        sources: [ESource.PIXIV_IMPORTED]
+      }),
+      userId: 'user-1'
+    })
+
+    expect(collectionFiltersMock).toHaveBeenCalledWith('user-1', 7)
+    const [sql, ...params] = queryRawMock.mock.calls[0]!
+    expect(String(sql)).toContain('a."artistId" = $1')
+    expect(String(sql)).toContain('t2.name = ANY')
+    expect(params.slice(0, 2)).toEqual([3, [ESource.PIXIV_IMPORTED]])
+    expect(params).toContainEqual(['sky'])
+  })
+
+  it('returns an empty page for a collection the user does not own', async () => {
+    collectionFiltersMock.mockResolvedValue(null)
+
+    const result = await getViewerFeed({
+      ...ViewerFeedQuerySchema.parse({ source: 'collection', sourceId: 99, pageSize: 2 }),
+      userId: 'user-1'
+    })
+
+    expect(queryRawMock).not.toHaveBeenCalled()
+    expect(result).toEqual({ items: [], page: 1, pageSize: 2, nextPage: null })
+  })
 })
@@ -8,7 +8,7 @@ import {
   ArtworkResponseDto,
   ViewerFeedQuerySchema
 } from '@/schemas/artwork.dto'
-import { isApngFile, isVideoFile } from '@/lib/media'
+import { isApngFile, isUgoiraArchiveFile, isVideoFile } from '@/lib/media'
 import { VIDEO_EXTENSIONS } from '@/lib/constant'
 import { RandomImageItem, RandomImagesResponse, ViewerFeedResponse } from '@/types/images'
 import { guid } from '@/utils/guid'
@@ -21,6 +21,7 @@ import { generateLocalStorageKey, shuffleArray, transformImages, transformSingle
 import { fetchRandomIds } from './dao'
 import { RandomTagDto } from '@/schemas/tag.dto'
 import { Prisma, ScanRunMode, ScanRunType } from '@prisma/client'
+import { syncArtworkImpliedTags } from '@pixishelf/job-executors'
 import { buildArtworkWhereClause } from './query-builder'
 import fs from 'fs/promises'
 import path from 'path'
@@ -31,6 +32,9 @@ import { appendScanRunItems, completeScanRunSummary, startScanRun } from '@/serv
 import { toApiImageSize } from '@/utils/image-size'
 import { buildVideoPosterUrl, VIDEO_POSTER_METADATA_SELECT } from '@/lib/media-cover'
 import { requestArchiveArtworkMaintenance } from '@/services/archive/archive-maintenance-service'
+import { getSmartCollectionFilters } from '@/services/smart-collection-service'
+import { getReadingProgressMap } from '@/services/reading-progress-service'
+import type { ReadingProgressView } from '@/schemas/reading-progress.dto'
 
 const publishedKeyframeSummaryInclude = {
   where: { status: 'PUBLISHED' as const },
@@ -44,6 +48,23 @@ const publishedKeyframeSummaryInclude = {
   }
 } as const
 
+const publishedHlsSummaryInclude = {
+  where: { status: 'PUBLISHED' as const },
+  orderBy: { publishedAt: 'desc' as const },
+  take: 1,
+  select: { id: true, sourceSize: true }
+} as const
+
+const completedSubtitleSummaryInclude = {
+  where: { status: 'COMPLETED' as const },
+  take: 1,
+  select: { id: true }
+} as const
+
+const ugoiraAnimationSummarySelect = {
+  select: { status: true, sourceSize: true, convertedAt: true }
+} as const
+
 export * from './related'
 export * from './video-chapters'
 
@@ -130,7 +151,13 @@ async function hydrateArtworkRows(rawArtworks: any[]) {
     prisma.image.findMany({
       where: { artworkId: { in: artworkIds } },
       orderBy: { sortOrder: 'asc' },
-      include: { videoMetadata: true, keyframeSets: publishedKeyframeSummaryInclude }
+      include: {
+        videoMetadata: true,
+        keyframeSets: publishedKeyframeSummaryInclude,
+        hlsSets: publishedHlsSummaryInclude,
+        subtitleTracks: completedSubtitleSummaryInclude,
+        ugoiraAnimation: ugoiraAnimationSummarySelect
+      }
     }),
     prisma.artworkTag.findMany({
       where: { artworkId: { in: artworkIds } },
@@ -235,20 +262,7 @@ export async function getArtworkCardsPage(params: ArtworksInfiniteQuerySchema):
   ])
 
   const visibleIdRows = rawIdRows.slice(0, pageSize)
-  const artworkIds = visibleIdRows.map(({ id }) => id)
-  const artworks =
-    artworkIds.length > 0
-      ? await prisma.artwork.findMany({
-          where: { id: { in: artworkIds } },
-          select: artworkCardSelect
-        })
-      : []
-  const resolvedArtworks = await resolveArtworkCardCovers(artworks)
-  const artworkById = new Map(resolvedArtworks.map((artwork) => [artwork.id, artwork]))
-  const items = artworkIds
-    .map((id) => artworkById.get(id))
-    .filter((artwork): artwork is NonNullable<typeof artwork> => artwork !== undefined)
-    .map(transformArtworkCard)
+  const items = await getArtworkCardsByIds(visibleIdRows.map(({ id }) => id))
 
   return {
     items,
@@ -259,6 +273,26 @@ export async function getArtworkCardsPage(params: ArtworksInfiniteQuerySchema):
   }
 }
 
+/**
+ * 按给定 ID 顺序读取作品卡片。
+ *
+ * 排序由调用方（列表、搜索等）决定，这里只负责卡片投影和封面解析；不存在的 ID 会被跳过。
+ */
+export async function getArtworkCardsByIds(artworkIds: number[]): Promise<ArtworkCardData[]> {
+  if (artworkIds.length === 0) return []
+
+  const artworks = await prisma.artwork.findMany({
+    where: { id: { in: artworkIds } },
+    select: artworkCardSelect
+  })
+  const resolvedArtworks = await resolveArtworkCardCovers(artworks)
+  const artworkById = new Map(resolvedArtworks.map((artwork) => [artwork.id, artwork]))
+  return artworkIds
+    .map((id) => artworkById.get(id))
+    .filter((artwork): artwork is NonNullable<typeof artwork> => artwork !== undefined)
+    .map(transformArtworkCard)
+}
+
 /**
  * 删除作品
  * 级联删除逻辑：
@@ -377,6 +411,7 @@ export async function updateArtwork(
           skipDuplicates: true
         })
       }
+      await syncArtworkImpliedTags(tx, id)
     }
     return artwork
   })
@@ -412,6 +447,7 @@ export async function createArtwork(data: {
             : undefined
       }
     })
+    if (tags && tags.length > 0) await syncArtworkImpliedTags(tx, created.id)
     if (effectiveSource !== ESource.LOCAL_CREATED) return created
     return tx.artwork.update({
       where: { id: created.id },
@@ -683,7 +719,13 @@ export async function getRandomArtworks(
       images: {
         take: maxImageCount,
         orderBy: { sortOrder: 'asc' },
-        include: { videoMetadata: true, keyframeSets: publishedKeyframeSummaryInclude }
+        include: {
+          videoMetadata: true,
+          keyframeSets: publishedKeyframeSummaryInclude,
+          hlsSets: publishedHlsSummaryInclude,
+          subtitleTracks: completedSubtitleSummaryInclude,
+          ugoiraAnimation: ugoiraAnimationSummarySelect
+        }
       },
       artist: true,
       artworkTags: { include: { tag: true } }
@@ -748,20 +790,32 @@ export async function getViewerFeed(input: ViewerFeedQuerySchema & { userId: str
 
   const page = cursor ?? 1
 
+  // 智能合集作为来源时以其保存的条件为底，沉浸浏览里显式设置的筛选再覆盖对应字段
+  const collectionFilters =
+    source === 'collection' && sourceId ? await getSmartCollectionFilters(userId, sourceId) : undefined
+  if (collectionFilters === null) {
+    return { items: [], page, pageSize, nextPage: null }
+  }
+
+  const viewerFilters = {
+    artistId: artistId ?? (source === 'artist' ? sourceId : undefined),
+    tagIds: tagIds.length > 0 ? tagIds : source === 'tag' && sourceId ? [sourceId] : undefined,
+    sources: sources.length > 0 ? sources : undefined,
+    hasAudio: hasAudio !== 'all' ? hasAudio : undefined,
+    search: search || undefined,
+    mediaType: mediaType !== 'all' ? mediaType : undefined,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+    createdStartDate: createdStartDate || undefined,
+    createdEndDate: createdEndDate || undefined,
+    mediaCountMax
+  }
+
   const listInput = ArtworksInfiniteQuerySchema.parse({
+    ...collectionFilters,
+    ...Object.fromEntries(Object.entries(viewerFilters).filter(([, value]) => value !== undefined)),
     cursor: page,
     pageSize,
-    artistId: artistId ?? (source === 'artist' ? sourceId : undefined),
-    tagIds: tagIds.length > 0 ? tagIds : source === 'tag' && sourceId ? [sourceId] : [],
-    sources,
-    hasAudio,
-    search,
-    mediaType,
-    startDate,
-    endDate,
-    createdStartDate,
-    createdEndDate,
-    mediaCountMax,
     sortBy: mode === 'random' ? 'random' : sortBy || 'source_date_desc',
     randomSeed: mode === 'random' ? randomSeed : undefined
   })
@@ -778,7 +832,14 @@ export async function getViewerFeed(input: ViewerFeedQuerySchema & { userId: str
     logger.error('批量获取点赞状态失败:', _error)
   }
 
-  const items = artworks.map((item) => toViewerImageItem(item, likeStatusMap))
+  let readingProgressMap = new Map<number, ReadingProgressView>()
+  try {
+    readingProgressMap = await getReadingProgressMap(userId, artworkIds)
+  } catch (_error) {
+    logger.error('批量获取阅读进度失败:', _error)
+  }
+
+  const items = artworks.map((item) => toViewerImageItem(item, likeStatusMap, readingProgressMap))
 
   return {
     items,
@@ -788,11 +849,22 @@ export async function getViewerFeed(input: ViewerFeedQuerySchema & { userId: str
   }
 }
 
-export function toViewerImageItem(artwork: any, likeStatusMap: Record<number, boolean>): RandomImageItem {
-  const images = (artwork.images || []).map((img: any) => {
+export function toViewerImageItem(
+  artwork: any,
+  likeStatusMap: Record<number, boolean>,
+  readingProgressMap?: Map<number, ReadingProgressView>
+): RandomImageItem {
+  // 尚未转换的 ugoira 只有原始 zip，沉浸浏览无法展示，先跳过
+  const playableImages = (artwork.images || []).filter(
+    (img: any) => img.ugoiraUrl || !isUgoiraArchiveFile(img.path ?? '')
+  )
+  const images = playableImages.map((img: any) => {
     // 沉浸浏览需要真实视频地址供播放器播放，封面仅用于列表卡片。
-    const mediaType = img.mediaType === 'video' || isVideoFile(img.path ?? '') ? MediaType.VIDEO : MediaType.IMAGE
-    const url = mediaType === MediaType.VIDEO ? combinationApiResource(img.path) : img.path
+    // ugoira 转换结果是无声 WebM，直接交给视频播放器循环播放。
+    const ugoiraUrl: string | null = img.ugoiraUrl ?? null
+    const mediaType =
+      ugoiraUrl || img.mediaType === 'video' || isVideoFile(img.path ?? '') ? MediaType.VIDEO : MediaType.IMAGE
+    const url = ugoiraUrl ?? (mediaType === MediaType.VIDEO ? combinationApiResource(img.path) : img.path)
 
     return {
       id: img.id,
@@ -814,7 +886,9 @@ export function toViewerImageItem(artwork: any, likeStatusMap: Record<number, bo
       keyframesUrl: mediaType === MediaType.VIDEO ? (img.keyframesUrl ?? null) : null,
       hasKeyframes: mediaType === MediaType.VIDEO ? img.hasKeyframes === true : false,
       keyframeCount: mediaType === MediaType.VIDEO ? (img.keyframeCount ?? 0) : 0,
-      hasAudio: mediaType === MediaType.VIDEO ? (img.hasAudio ?? null) : null,
+      hlsUrl: mediaType === MediaType.VIDEO ? (img.hlsUrl ?? null) : null,
+      subtitlesUrl: mediaType === MediaType.VIDEO ? (img.subtitlesUrl ?? null) : null,
+      hasAudio: ugoiraUrl ? false : mediaType === MediaType.VIDEO ? (img.hasAudio ?? null) : null,
       duration: mediaType === MediaType.VIDEO ? (img.duration ?? null) : null
     }
   })
@@ -842,10 +916,17 @@ export function toViewerImageItem(artwork: any, likeStatusMap: Record<number, bo
       : null,
     createdAt: typeof artwork.createdAt === 'string' ? artwork.createdAt : (artwork.createdAt?.toISOString?.() ?? ''),
     tags: (artwork.tags || []).map((tag: any) => RandomTagDto.parse(tag)),
-    isLike: likeStatusMap[artwork.id] ?? false
+    isLike: likeStatusMap[artwork.id] ?? false,
+    readingProgress: toViewerReadingProgress(readingProgressMap?.get(artwork.id))
   }
 }
 
+function toViewerReadingProgress(progress: ReadingProgressView | undefined): RandomImageItem['readingProgress'] {
+  if (!progress) return null
+  const { mediaIndex, imageId, videoPositionSec, completed } = progress
+  return { mediaIndex, imageId, videoPositionSec, completed }
+}
+
 /**
  * 根据 ID 获取单个作品详情
  * 包含：所有图片、完整 Tag 信息、Artist 信息
@@ -856,7 +937,13 @@ export async function getArtworkById(id: number): Promise<ArtworkResponseDto | n
     include: {
       images: {
         orderBy: { sortOrder: 'asc' },
-        include: { videoMetadata: true, keyframeSets: publishedKeyframeSummaryInclude }
+        include: {
+          videoMetadata: true,
+          keyframeSets: publishedKeyframeSummaryInclude,
+          hlsSets: publishedHlsSummaryInclude,
+          subtitleTracks: completedSubtitleSummaryInclude,
+          ugoiraAnimation: ugoiraAnimationSummarySelect
+        }
       },
       artist: true,
       artworkTags: { include: { tag: true } },
@@ -1,10 +1,39 @@
 import 'server-only'
 import type { ArtworksInfiniteQuerySchema } from '@/schemas/artwork.dto'
+import { parseArtworkQuery } from '@/lib/artwork-query-language'
 
 /**
  * 构建作品查询的 WHERE 子句
  */
 export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, initialParamIndex = 1) {
+  const filterClause = buildArtworkFilterConditions(params, initialParamIndex)
+  let whereSQL = `WHERE a."deletedAt" IS NULL${filterClause.conditionSQL}`
+  const sqlParams = filterClause.sqlParams
+  let paramIndex = filterClause.paramIndex
+
+  // 2. 结构化查询语句：编译为同一组条件，与独立参数以 AND 叠加；语法错误已在 schema 校验阶段拦截
+  if (params.q) {
+    const { filters } = parseArtworkQuery(params.q)
+    const queryClause = buildArtworkFilterConditions(filters, paramIndex)
+    whereSQL += queryClause.conditionSQL
+    sqlParams.push(...queryClause.sqlParams)
+    paramIndex = queryClause.paramIndex
+  }
+
+  return { whereSQL, sqlParams, paramIndex }
+}
+
+/**
+ * 与标签名参数匹配的别名所指向的标签 ID
+ */
+function aliasTagIdsSQL(paramIndex: number) {
+  return `SELECT ta."tagId" FROM tag_aliases ta WHERE ta.name = ANY($${paramIndex})`
+}
+
+/**
+ * 逐项拼接筛选条件，每个条件以 ` AND ` 开头
+ */
+function buildArtworkFilterConditions(params: Partial<ArtworksInfiniteQuerySchema>, initialParamIndex: number) {
   const {
     id,
     tags,
@@ -28,26 +57,26 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
     excludeTags
   } = params
 
-  let whereSQL = 'WHERE a."deletedAt" IS NULL'
+  let conditionSQL = ''
   const sqlParams: any[] = []
   let paramIndex = initialParamIndex
 
   if (id && Number.isFinite(id)) {
-    whereSQL += ` AND a.id = $${paramIndex}`
+    conditionSQL += ` AND a.id = $${paramIndex}`
     sqlParams.push(id)
     paramIndex++
   }
 
   // 1.0 External ID
   if (externalId) {
-    whereSQL += ` AND (a."externalId" = $${paramIndex} OR a."storageKey" = $${paramIndex})`
+    conditionSQL += ` AND (a."externalId" = $${paramIndex} OR a."storageKey" = $${paramIndex})`
     sqlParams.push(externalId)
     paramIndex++
   }
 
   // 1.1 艺术家筛选
   if (artistId && Number.isFinite(artistId)) {
-    whereSQL += ` AND a."artistId" = $${paramIndex}`
+    conditionSQL += ` AND a."artistId" = $${paramIndex}`
     sqlParams.push(artistId)
     paramIndex++
   }
@@ -55,11 +84,11 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
   // 1.1.2 艺术家名称筛选
   if (artistName) {
     if (exactMatch) {
-      whereSQL += ` AND (artist.name = $${paramIndex} OR artist."userId" = $${paramIndex})`
+      conditionSQL += ` AND (artist.name = $${paramIndex} OR artist."userId" = $${paramIndex})`
       sqlParams.push(artistName)
       paramIndex++
     } else {
-      whereSQL += ` AND (artist.name ILIKE $${paramIndex} OR artist."userId" ILIKE $${paramIndex})`
+      conditionSQL += ` AND (artist.name ILIKE $${paramIndex} OR artist."userId" ILIKE $${paramIndex})`
       sqlParams.push(`%${artistName}%`)
       paramIndex++
     }
@@ -67,17 +96,17 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
 
   // 1.1.5 创建类型筛选
   if (sources && sources.length > 0) {
-    whereSQL += ` AND a.source = ANY($${paramIndex}::"ArtworkSource"[])`
+    conditionSQL += ` AND a.source = ANY($${paramIndex}::"ArtworkSource"[])`
     sqlParams.push(sources)
     paramIndex++
   }
 
-  // 1.2 标签名筛选
+  // 1.2 标签名筛选（别名解析为其指向的标签）
   if (tags && tags.length > 0) {
-    whereSQL += ` AND EXISTS (
+    conditionSQL += ` AND EXISTS (
       SELECT 1 FROM "ArtworkTag" at2
       JOIN "Tag" t2 ON at2."tagId" = t2.id
-      WHERE at2."artworkId" = a.id AND t2.name = ANY($${paramIndex})
+      WHERE at2."artworkId" = a.id AND (t2.name = ANY($${paramIndex}) OR t2.id IN (${aliasTagIdsSQL(paramIndex)}))
     )`
     sqlParams.push(tags)
     paramIndex++
@@ -85,10 +114,10 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
 
   // 1.2.5 排除标签名筛选
   if (excludeTags && excludeTags.length > 0) {
-    whereSQL += ` AND NOT EXISTS (
+    conditionSQL += ` AND NOT EXISTS (
       SELECT 1 FROM "ArtworkTag" at_ex
       JOIN "Tag" t_ex ON at_ex."tagId" = t_ex.id
-      WHERE at_ex."artworkId" = a.id AND t_ex.name = ANY($${paramIndex})
+      WHERE at_ex."artworkId" = a.id AND (t_ex.name = ANY($${paramIndex}) OR t_ex.id IN (${aliasTagIdsSQL(paramIndex)}))
     )`
     sqlParams.push(excludeTags)
     paramIndex++
@@ -96,7 +125,7 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
 
   // 1.2.8 多标签 ID 精确收窄：作品必须同时包含所选的全部标签
   if (tagIds && tagIds.length > 0) {
-    whereSQL += ` AND a.id IN (
+    conditionSQL += ` AND a.id IN (
       SELECT at_ids."artworkId"
       FROM "ArtworkTag" at_ids
       WHERE at_ids."tagId" = ANY($${paramIndex}::int[])
@@ -109,7 +138,7 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
 
   // 1.3 标签ID筛选
   if (tagId && Number.isFinite(tagId)) {
-    whereSQL += ` AND EXISTS (
+    conditionSQL += ` AND EXISTS (
       SELECT 1 FROM "ArtworkTag" at3
       WHERE at3."artworkId" = a.id AND at3."tagId" = $${paramIndex}
     )`
@@ -120,12 +149,12 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
   // 1.4 文本搜索
   if (search) {
     if (exactMatch) {
-      whereSQL += ` AND a.title = $${paramIndex}`
+      conditionSQL += ` AND a.title = $${paramIndex}`
       sqlParams.push(search)
       paramIndex++
     } else {
       const searchCondition = `%${search}%`
-      whereSQL += ` AND (
+      conditionSQL += ` AND (
         a.title ILIKE $${paramIndex} OR
         a.description ILIKE $${paramIndex} OR
         artist.name ILIKE $${paramIndex} OR
@@ -139,7 +168,7 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
   // 1.5 精确媒体格式筛选：作品至少包含任一选中的扩展名
   if (mediaTypes && mediaTypes.length > 0) {
     const likeConditions = mediaTypes.map((_, i) => `LOWER(i.path) LIKE $${paramIndex + i}`).join(' OR ')
-    whereSQL += ` AND EXISTS (
+    conditionSQL += ` AND EXISTS (
       SELECT 1 FROM "Image" i
       WHERE i."artworkId" = a.id AND (${likeConditions})
     )`
@@ -149,7 +178,7 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
 
   // 1.5.2 视频音频筛选：作品至少包含一个满足条件的视频媒体
   if (hasAudio === 'yes' || hasAudio === 'no') {
-    whereSQL += ` AND EXISTS (
+    conditionSQL += ` AND EXISTS (
       SELECT 1 FROM "Image" i_audio
       JOIN "MediaVideoMetadata" mvm_audio ON mvm_audio."imageId" = i_audio.id
       WHERE i_audio."artworkId" = a.id AND mvm_audio."hasAudio" = ${hasAudio === 'yes' ? 'true' : 'false'}
@@ -157,7 +186,7 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
   }
 
   if (hasAudio === 'unknown') {
-    whereSQL += ` AND EXISTS (
+    conditionSQL += ` AND EXISTS (
       SELECT 1 FROM "Image" i_audio
       LEFT JOIN "MediaVideoMetadata" mvm_audio ON mvm_audio."imageId" = i_audio.id
       WHERE i_audio."artworkId" = a.id
@@ -176,50 +205,50 @@ export function buildArtworkWhereClause(params: ArtworksInfiniteQuerySchema, ini
     `
 
     if (mediaType === 'video') {
-      whereSQL += ` AND ${videoCheckSQL}`
+      conditionSQL += ` AND ${videoCheckSQL}`
     } else {
-      whereSQL += ` AND NOT ${videoCheckSQL}`
+      conditionSQL += ` AND NOT ${videoCheckSQL}`
     }
   }
 
   // 1.6 时间范围筛选
   if (startDate) {
-    whereSQL += ` AND a."sourceDate" >= $${paramIndex}::date`
+    conditionSQL += ` AND a."sourceDate" >= $${paramIndex}::date`
     sqlParams.push(startDate)
     paramIndex++
   }
 
   if (endDate) {
-    whereSQL += ` AND a."sourceDate" < ($${paramIndex}::date + 1)`
+    conditionSQL += ` AND a."sourceDate" < ($${paramIndex}::date + 1)`
     sqlParams.push(endDate)
     paramIndex++
   }
 
   // 1.6.5 数据库创建时间范围筛选
   if (createdStartDate) {
-    whereSQL += ` AND a."createdAt" >= $${paramIndex}::date`
+    conditionSQL += ` AND a."createdAt" >= $${paramIndex}::date`
     sqlParams.push(createdStartDate)
     paramIndex++
   }
 
   if (createdEndDate) {
-    whereSQL += ` AND a."createdAt" < ($${paramIndex}::date + 1)`
+    conditionSQL += ` AND a."createdAt" < ($${paramIndex}::date + 1)`
     sqlParams.push(createdEndDate)
     paramIndex++
   }
 
   // 1.7 媒体数量筛选
   if (mediaCountMin !== undefined && mediaCountMin !== null) {
-    whereSQL += ` AND a."imageCount" >= $${paramIndex}`
+    conditionSQL += ` AND a."imageCount" >= $${paramIndex}`
     sqlParams.push(mediaCountMin)
     paramIndex++
   }
 
   if (mediaCountMax !== undefined && mediaCountMax !== null) {
-    whereSQL += ` AND a."imageCount" <= $${paramIndex}`
+    conditionSQL += ` AND a."imageCount" <= $${paramIndex}`
     sqlParams.push(mediaCountMax)
     paramIndex++
   }
 
-  return { whereSQL, sqlParams, paramIndex }
+  return { conditionSQL, sqlParams, paramIndex }
 }
@@ -77,6 +77,28 @@ export function transformImages(images: TImageModel[], dbImageCount?: number) {
         ? Math.max(0, publishedKeyframeSet.publishedCount)
         : 0
     const hasKeyframes = keyframeCount > 0
+    const publishedHlsSet = Array.isArray((normalizedImage as any).hlsSets) ? (normalizedImage as any).hlsSets[0] : null
+    // 源文件大小变化说明视频已被替换，旧 HLS 档位不再代表当前内容
+    const hlsUrl =
+      mediaType === 'video' &&
+      publishedHlsSet &&
+      image.size != null &&
+      BigInt(image.size) === BigInt(publishedHlsSet.sourceSize)
+        ? `/api/v1/media/${normalizedImage.id}/hls/${publishedHlsSet.id}/master.m3u8`
+        : null
+    const ugoiraAnimation = (normalizedImage as any).ugoiraAnimation
+    // 与 HLS 相同：zip 被替换后旧的转换结果不再代表当前帧，等待重新转换
+    const ugoiraUrl =
+      ugoiraAnimation?.status === 'COMPLETED' &&
+      ugoiraAnimation.sourceSize != null &&
+      image.size != null &&
+      BigInt(image.size) === BigInt(ugoiraAnimation.sourceSize)
+        ? `/api/v1/media/${normalizedImage.id}/ugoira?v=${new Date(ugoiraAnimation.convertedAt).getTime()}`
+        : null
+    const hasSubtitles =
+      mediaType === 'video' &&
+      Array.isArray((normalizedImage as any).subtitleTracks) &&
+      (normalizedImage as any).subtitleTracks.length > 0
     const videoMetadata = normalizedImage.videoMetadata
     const metadataFields = videoMetadata
       ? {
@@ -105,6 +127,9 @@ export function transformImages(images: TImageModel[], dbImageCount?: number) {
       hasKeyframes,
       keyframeCount,
       keyframesUrl: hasKeyframes ? `/api/v1/media/${normalizedImage.id}/keyframes` : null,
+      hlsUrl,
+      subtitlesUrl: hasSubtitles ? `/api/v1/media/${normalizedImage.id}/subtitles` : null,
+      ugoiraUrl,
       ...metadataFields
     })
   })
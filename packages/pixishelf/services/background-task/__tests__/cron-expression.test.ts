@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { CronExpressionError, fromZonedParts, nextCronOccurrence, parseCronExpression } from '../cron-expression'
+import {
+  getNextRecurringScheduleRuns,
+  getRecurringScheduleOccurrence,
+  getUpcomingShanghaiScheduleWindows,
+  isShanghaiWeeklyReconciliationDate
+} from '../schedule-window'
+
+function nextRuns(expression: string, after: string, timeZone = 'Asia/Shanghai', count = 3) {
+  return getNextRecurringScheduleRuns(
+    { mode: 'CRON', cronExpression: expression, timezone: timeZone },
+    new Date(after),
+    count
+  ).map((run) => run.toISOString())
+}
+
+describe('cron expressions', () => {
+  it('parses lists, ranges, steps, names and Sunday as 0 or 7', () => {
+    const schedule = parseCronExpression('*/20 9-17/4 1,15 JAN-mar sun,7')
+
+    expect(schedule.minutes).toEqual([0, 20, 40])
+    expect(schedule.hours).toEqual([9, 13, 17])
+    expect([...schedule.daysOfMonth]).toEqual([1, 15])
+    expect([...schedule.months]).toEqual([1, 2, 3])
+    expect([...schedule.daysOfWeek]).toEqual([0])
+    expect(parseCronExpression('@weekly')).toMatchObject({ minutes: [0], hours: [0], dayOfWeekRestricted: true })
+  })
+
+  it.each(['', '* * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *', '* * * * 8'])(
+    'rejects %j',
+    (expression) => {
+      expect(() => parseCronExpression(expression)).toThrow(CronExpressionError)
+    }
+  )
+
+  it('evaluates occurrences in the task timezone', () => {
+    // 03:00 every Monday in Shanghai is Sunday 19:00 UTC.
+    expect(nextRuns('0 3 * * 1', '2026-06-03T00:00:00.000Z')).toEqual([
+      '2026-06-07T19:00:00.000Z',
+      '2026-06-14T19:00:00.000Z',
+      '2026-06-21T19:00:00.000Z'
+    ])
+    expect(nextRuns('30 */6 * * *', '2026-06-02T00:30:00.000Z')).toEqual([
+      '2026-06-02T04:30:00.000Z',
+      '2026-06-02T10:30:00.000Z',
+      '2026-06-02T16:30:00.000Z'
+    ])
+  })
+
+  it('matches either restricted day field like classic cron', () => {
+    // The 13th or any Friday; 2026-11-06 is a Friday.
+    expect(nextRuns('0 0 13 * 5', '2026-11-01T00:00:00.000Z', 'UTC')).toEqual([
+      '2026-11-06T00:00:00.000Z',
+      '2026-11-13T00:00:00.000Z',
+      '2026-11-20T00:00:00.000Z'
+    ])
+    expect(nextRuns('0 0 29 2 *', '2026-01-01T00:00:00.000Z', 'UTC', 1)).toEqual(['2028-02-29T00:00:00.000Z'])
+    expect(nextCronOccurrence(parseCronExpression('0 0 31 2 *'), new Date('2026-01-01T00:00:00.000Z'), 'UTC')).toBe(
+      null
+    )
+  })
+
+  it('resolves DST gaps after the jump and repeated times once', () => {
+    const zone = 'Europe/Berlin'
+    expect(fromZonedParts({ year: 2026, month: 3, day: 29, hour: 2, minute: 30 }, zone).toISOString()).toBe(
+      '2026-03-29T01:30:00.000Z'
+    )
+    expect(fromZonedParts({ year: 2026, month: 10, day: 25, hour: 2, minute: 30 }, zone).toISOString()).toBe(
+      '2026-10-25T00:30:00.000Z'
+    )
+    expect(nextRuns('30 2 * * *', '2026-10-24T12:00:00.000Z', zone, 2)).toEqual([
+      '2026-10-25T00:30:00.000Z',
+      '2026-10-26T01:30:00.000Z'
+    ])
+  })
+})
+
+describe('recurring schedule occurrences', () => {
+  it('anchors intervals at local midnight and closes each occurrence at the next one', () => {
+    const spec = { mode: 'INTERVAL' as const, intervalMinutes: 360, timezone: 'Asia/Shanghai' }
+
+    expect(getRecurringScheduleOccurrence(spec, new Date('2026-06-02T05:10:00.000Z'))).toEqual({
+      scheduledFor: new Date('2026-06-02T04:00:00.000Z'),
+      availableAt: new Date('2026-06-02T04:00:00.000Z'),
+      deadlineAt: new Date('2026-06-02T10:00:00.000Z')
+    })
+    expect(getNextRecurringScheduleRuns(spec, new Date('2026-06-02T05:10:00.000Z'), 3)).toEqual([
+      new Date('2026-06-02T10:00:00.000Z'),
+      new Date('2026-06-02T16:00:00.000Z'),
+      new Date('2026-06-02T22:00:00.000Z')
+    ])
+  })
+
+  it('keeps long intervals within the daily window length', () => {
+    const spec = { mode: 'INTERVAL' as const, intervalMinutes: 24 * 60, timezone: 'Asia/Shanghai' }
+
+    expect(getRecurringScheduleOccurrence(spec, new Date('2026-06-01T23:59:00.000Z'))?.deadlineAt).toEqual(
+      new Date('2026-06-02T00:00:00.000Z')
+    )
+    expect(getRecurringScheduleOccurrence(spec, new Date('2026-06-02T00:00:00.000Z'))).toBeNull()
+  })
+
+  it('rejects intervals outside the supported range', () => {
+    expect(() =>
+      getRecurringScheduleOccurrence(
+        { mode: 'INTERVAL', intervalMinutes: 5, timezone: 'Asia/Shanghai' },
+        new Date('2026-06-02T00:00:00.000Z')
+      )
+    ).toThrow('Interval must be')
+  })
+
+  it('lists upcoming daily windows, optionally limited to weekly dates', () => {
+    const now = new Date('2026-06-01T17:00:00.000Z')
+
+    expect(getUpcomingShanghaiScheduleWindows(now, 2).map((window) => window.scheduledForDate)).toEqual([
+      '2026-06-03',
+      '2026-06-04'
+    ])
+    expect(
+      getUpcomingShanghaiScheduleWindows(now, 2, isShanghaiWeeklyReconciliationDate).map((window) => window.availableAt)
+    ).toEqual([new Date('2026-06-07T16:00:00.000Z'), new Date('2026-06-14T16:00:00.000Z')])
+  })
+})
@@ -24,6 +24,7 @@ function commandHarness(records: ReturnType<typeof jobRecord>[]) {
   const findScanRunItems = vi.fn().mockResolvedValue([])
   const queryRawUnsafe = vi.fn().mockResolvedValue([{ id: 'intake-1' }])
   const create = vi.fn().mockResolvedValue(records.at(-1))
+  const count = vi.fn().mockResolvedValue(0)
   let eventId = BigInt(0)
   const eventCreate = vi.fn(async ({ data }: { data: Record<string, unknown> }) =>
     eventRecord({
@@ -38,7 +39,7 @@ function commandHarness(records: ReturnType<typeof jobRecord>[]) {
   const transaction = {
     $queryRaw: queryRaw,
     $queryRawUnsafe: queryRawUnsafe,
-    systemJob: { findUnique, updateMany, create },
+    systemJob: { findUnique, updateMany, create, count },
     archiveIntakeItem: { updateMany: updateIntakeItems },
     scanRun: { findUnique: findScanRun, updateMany: updateScanRuns },
     scanRunItem: { updateMany: updateScanRunItems, findMany: findScanRunItems },
@@ -57,6 +58,7 @@ function commandHarness(records: ReturnType<typeof jobRecord>[]) {
     updateScanRunItems,
     findScanRunItems,
     create,
+    count,
     eventCreate
   }
 }
@@ -220,6 +222,68 @@ describe('enqueueJob', () => {
     ).toBe(false)
   })
 
+  it('persists an interval or cron occurrence time instead of a window date', async () => {
+    const created = jobRecord({ type: 'SCAN_RUN_RETENTION_CLEANUP', triggerSource: 'SCHEDULE' })
+    const harness = commandHarness([])
+    harness.create.mockResolvedValue(created)
+    const occurrence = {
+      type: 'SCAN_RUN_RETENTION_CLEANUP' as const,
+      triggerSource: 'SCHEDULE' as const,
+      scheduledTaskId: 'schedule-1',
+      deadlineAt: new Date('2026-08-14T12:00:00.000Z'),
+      priority: 120
+    }
+
+    await enqueueJob({ ...occurrence, scheduledFor: new Date('2026-08-14T09:00:00.000Z') }, harness.client)
+
+    expect(harness.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          scheduledTaskId: 'schedule-1',
+          scheduledForDate: undefined,
+          scheduledFor: new Date('2026-08-14T09:00:00.000Z')
+        })
+      })
+    )
+    await expect(enqueueJob(occurrence, harness.client)).rejects.toThrow()
+    await expect(
+      enqueueJob(
+        { ...occurrence, scheduledForDate: '2026-08-14', scheduledFor: new Date('2026-08-14T09:00:00.000Z') },
+        harness.client
+      )
+    ).rejects.toThrow()
+  })
+
+  it('records prerequisite jobs and rejects a dependency on a missing job', async () => {
+    const harness = commandHarness([jobRecord({ id: 'job-poster', type: 'VIDEO_POSTER_GENERATION' })])
+    harness.count.mockResolvedValueOnce(2).mockResolvedValueOnce(1)
+    const request = {
+      type: 'VIDEO_POSTER_GENERATION' as const,
+      triggerSource: 'SYSTEM' as const,
+      priority: 150,
+      payload: { imageId: 7, relativePath: 'videos/a.mp4' },
+      dependsOnJobIds: ['job-scan', 'job-probe', 'job-scan']
+    }
+
+    await enqueueJob(request, harness.client)
+
+    expect(harness.count).toHaveBeenCalledWith({ where: { id: { in: ['job-probe', 'job-scan'] } } })
+    expect(harness.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          dependencies: { create: [{ dependsOnJobId: 'job-probe' }, { dependsOnJobId: 'job-scan' }] }
+        })
+      })
+    )
+    expect(harness.eventCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ data: expect.objectContaining({ dependsOnJobIds: ['job-probe', 'job-scan'] }) })
+      })
+    )
+    await expect(enqueueJob(request, harness.client)).rejects.toMatchObject({ code: 'JOB_NOT_FOUND' })
+    expect(harness.create).toHaveBeenCalledOnce()
+  })
+
   it('returns an idempotent scheduled instance without creating a second queued event', async () => {
     const existing = jobRecord({
       type: 'SCAN_RUN_RETENTION_CLEANUP',
@@ -817,13 +881,34 @@ describe('job commands', () => {
         data: expect.objectContaining({
           payload: {
             selection: { mode: 'ARTWORK_IDS', artworkIds: [3, 9] },
-            safety: { transferMode: 'move', verifyAfterCopy: true, cleanupSource: true }
+            safety: { transferMode: 'move', verifyAfterCopy: true, cleanupSource: true },
+            // 布局出现前的任务按当时唯一的 userId/externalId 布局执行，重试沿用该布局而不是当前设置
+            layout: { template: '{creatorId}/{externalId}' }
           }
         })
       })
     )
   })
 
+  it('carries the frozen storage layout into a migration retry', async () => {
+    const layout = { template: '{provider}/{creator}/{externalId}' }
+    const failed = jobRecord({
+      type: 'MIGRATION',
+      status: 'FAILED',
+      payload: { selection: { mode: 'ARTWORK_IDS', artworkIds: [3] }, layout },
+      finishedAt: new Date()
+    })
+    const retried = jobRecord({ id: 'job-migration-retry-2', type: 'MIGRATION', status: 'PENDING' })
+    const harness = commandHarness([failed, retried])
+    harness.create.mockResolvedValue(retried)
+
+    await retryJobCommand({ jobId: failed.id, requestedByUserId: 'admin-1' }, harness.client)
+
+    expect(harness.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ payload: expect.objectContaining({ layout }) }) })
+    )
+  })
+
   it('rejects retrying a historical v1 job whose payload no longer matches the strict contract', async () => {
     const historical = jobRecord({ status: 'FAILED', payload: {}, finishedAt: new Date() })
     const harness = commandHarness([historical])
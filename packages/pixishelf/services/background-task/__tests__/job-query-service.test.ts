@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest'
-import { getJobDashboard, listJobs } from '../job-query-service'
+import { getJobDashboard, getJobDependencyGraph, listJobs } from '../job-query-service'
 import { jobRecord, workerRecord } from './test-fixtures'
 
 describe('listJobs', () => {
@@ -139,3 +139,40 @@ describe('getJobDashboard', () => {
     ])
   })
 })
+
+describe('getJobDependencyGraph', () => {
+  it('walks prerequisites and dependents and orders the chain for execution', async () => {
+    const edges = [
+      { jobId: 'job-probe', dependsOnJobId: 'job-scan' },
+      { jobId: 'job-poster', dependsOnJobId: 'job-probe' },
+      { jobId: 'job-keyframes', dependsOnJobId: 'job-poster' }
+    ]
+    const dependencyFindMany = vi.fn(
+      async ({ where }: { where: { OR: [{ jobId: { in: string[] } }, { dependsOnJobId: { in: string[] } }] } }) => {
+        const frontier = new Set([...where.OR[0].jobId.in, ...where.OR[1].dependsOnJobId.in])
+        return edges.filter((edge) => frontier.has(edge.jobId) || frontier.has(edge.dependsOnJobId))
+      }
+    )
+    const jobFindMany = vi.fn().mockResolvedValue([
+      { ...jobRecord({ id: 'job-keyframes', type: 'VIDEO_KEYFRAME_DISCOVERY' }), createdAt: new Date(1) },
+      { ...jobRecord({ id: 'job-poster', type: 'VIDEO_POSTER_GENERATION', status: 'FAILED' }), createdAt: new Date(1) },
+      { ...jobRecord({ id: 'job-probe', type: 'VIDEO_MEDIA_PROBE', status: 'COMPLETED' }), createdAt: new Date(1) },
+      { ...jobRecord({ id: 'job-scan', status: 'COMPLETED' }), createdAt: new Date(1) }
+    ])
+
+    const graph = await getJobDependencyGraph('job-poster', {
+      systemJob: { findMany: jobFindMany },
+      systemJobDependency: { findMany: dependencyFindMany },
+      workerInstance: {}
+    } as never)
+
+    expect(graph.truncated).toBe(false)
+    expect(graph.nodes.map((node) => [node.id, node.dependsOnJobIds])).toEqual([
+      ['job-scan', []],
+      ['job-probe', ['job-scan']],
+      ['job-poster', ['job-probe']],
+      ['job-keyframes', ['job-poster']]
+    ])
+    expect(graph.nodes[2]).toMatchObject({ type: 'VIDEO_POSTER_GENERATION', status: 'FAILED', skipReason: null })
+  })
+})
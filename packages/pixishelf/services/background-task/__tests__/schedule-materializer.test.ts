@@ -28,22 +28,41 @@ interface FakeTask {
   type: string
   priority: number
   config: unknown
+  scheduleMode?: 'DAILY' | 'INTERVAL' | 'CRON'
+  intervalMinutes?: number | null
+  cronExpression?: string | null
+  timezone?: string
+  mutexKey?: string | null
 }
 
-function createDatabase(tasks: FakeTask[]) {
+function createDatabase(fakeTasks: FakeTask[], activeJobs: Array<{ type: string }> = []) {
+  const tasks = fakeTasks.map((task) => ({
+    scheduleMode: 'DAILY',
+    intervalMinutes: null,
+    cronExpression: null,
+    timezone: 'Asia/Shanghai',
+    mutexKey: null,
+    ...task
+  }))
   const jobsBySchedule = new Map<string, { id: string }>()
   const scheduledTaskUpdate = vi.fn().mockResolvedValue({})
   const queryRaw = vi.fn().mockResolvedValue([{ pg_advisory_xact_lock: null }])
+  const scheduleKey = (input: { scheduledTaskId: string; scheduledForDate?: string; scheduledFor?: Date }) =>
+    `${input.scheduledTaskId}:${input.scheduledForDate ?? input.scheduledFor?.toISOString()}`
   const transaction = {
     $queryRaw: queryRaw,
     scheduledTask: {
-      findMany: vi.fn().mockResolvedValue(tasks),
+      findMany: vi.fn().mockImplementation(async ({ where }) => {
+        const modes: string[] | undefined = where?.scheduleMode?.in
+        return tasks.filter((task) => !modes || modes.includes(task.scheduleMode))
+      }),
       update: scheduledTaskUpdate
     },
     systemJob: {
       findFirst: vi.fn().mockImplementation(({ where }) => {
-        return jobsBySchedule.get(`${where.scheduledTaskId}:${where.scheduledForDate}`) ?? null
-      })
+        return jobsBySchedule.get(scheduleKey(where)) ?? null
+      }),
+      findMany: vi.fn().mockResolvedValue(activeJobs)
     }
   }
   let transactionTail = Promise.resolve()
@@ -59,9 +78,8 @@ function createDatabase(tasks: FakeTask[]) {
   }
 
   enqueueJobMock.mockImplementation(async (input) => {
-    const key = `${input.scheduledTaskId}:${input.scheduledForDate}`
     const job = { id: `job-${jobsBySchedule.size + 1}` }
-    jobsBySchedule.set(key, job)
+    jobsBySchedule.set(scheduleKey(input), job)
     return job
   })
 
@@ -251,9 +269,19 @@ describe('schedule materializer', () => {
     expect(enqueueJobMock).not.toHaveBeenCalled()
   })
 
-  it('returns the dispatcher expiry boundary at and after 08:00 without enqueueing', async () => {
+  it('returns the dispatcher expiry boundary at and after 08:00 without enqueueing daily tasks', async () => {
+    const harness = createDatabase([
+      {
+        id: 'task-cleanup',
+        key: 'scan_run_retention_cleanup',
+        type: 'SCAN_RUN_RETENTION_CLEANUP',
+        priority: 20,
+        config: null
+      }
+    ])
     const result = await runScheduleMaterializerTick(new Date('2026-06-02T00:00:00.000Z'), {
-      cutoverEnabled: true
+      cutoverEnabled: true,
+      database: harness.database as never
     })
 
     expect(result).toMatchObject({
@@ -266,6 +294,160 @@ describe('schedule materializer', () => {
     expect(ensureDefaultsMock).not.toHaveBeenCalled()
   })
 
+  it('materializes the current interval occurrence outside the daily window once', async () => {
+    const harness = createDatabase([
+      {
+        id: 'task-probe',
+        key: 'video_media_probe',
+        type: 'SCAN_RUN_RETENTION_CLEANUP',
+        priority: 40,
+        config: null,
+        scheduleMode: 'INTERVAL',
+        intervalMinutes: 240
+      }
+    ])
+    const dependencies = { cutoverEnabled: true, database: harness.database as never }
+    // 13:10 Asia/Shanghai falls into the 12:00 slot of a four-hour interval.
+    const now = new Date('2026-06-02T05:10:00.000Z')
+
+    const first = await runScheduleMaterializerTick(now, dependencies)
+    const second = await runScheduleMaterializerTick(new Date('2026-06-02T07:59:00.000Z'), dependencies)
+    const nextSlot = await runScheduleMaterializerTick(new Date('2026-06-02T08:00:00.000Z'), dependencies)
+
+    expect(first).toMatchObject({ windowState: 'CLOSED', decisions: [{ action: 'materialized', jobId: 'job-1' }] })
+    expect(second.decisions).toEqual([
+      { key: 'video_media_probe', type: 'SCAN_RUN_RETENTION_CLEANUP', action: 'existing', jobId: 'job-1' }
+    ])
+    expect(nextSlot.decisions[0]).toMatchObject({ action: 'materialized', jobId: 'job-2' })
+    expect(enqueueJobMock).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        triggerSource: 'SCHEDULE',
+        scheduledTaskId: 'task-probe',
+        scheduledFor: new Date('2026-06-02T04:00:00.000Z'),
+        idempotencyKey: 'scheduled-task:task-probe:2026-06-02T04:00:00.000Z:v1',
+        priority: 140,
+        availableAt: new Date('2026-06-02T04:00:00.000Z'),
+        deadlineAt: new Date('2026-06-02T08:00:00.000Z')
+      }),
+      expect.any(Object),
+      expect.any(Function)
+    )
+    expect(enqueueJobMock.mock.calls[0]?.[0]).not.toHaveProperty('scheduledForDate')
+    expect(harness.scheduledTaskUpdate).toHaveBeenCalledWith({
+      where: { id: 'task-probe' },
+      data: {
+        lastMaterializedAt: now,
+        lastMaterializedFor: new Date('2026-06-02T04:00:00.000Z'),
+        lastJobId: 'job-1'
+      }
+    })
+  })
+
+  it('caps a weekly cron occurrence at the daily window length and skips after its deadline', async () => {
+    const task: FakeTask = {
+      id: 'task-audit',
+      key: 'consistency_audit',
+      type: 'TRIGGER_LOG_RETENTION_CLEANUP',
+      priority: 10,
+      config: null,
+      scheduleMode: 'CRON',
+      cronExpression: '0 3 * * 1'
+    }
+    const dependencies = { cutoverEnabled: true, database: createDatabase([task]).database as never }
+
+    // Monday 03:30 Asia/Shanghai, inside the occurrence but before the daily window closes.
+    const monday = await runScheduleMaterializerTick(new Date('2026-06-07T19:30:00.000Z'), dependencies)
+    const afterDeadline = await runScheduleMaterializerTick(new Date('2026-06-08T03:00:00.000Z'), dependencies)
+
+    expect(monday.decisions.map((decision) => decision.action)).toEqual(['materialized'])
+    expect(enqueueJobMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        scheduledFor: new Date('2026-06-07T19:00:00.000Z'),
+        deadlineAt: new Date('2026-06-08T03:00:00.000Z')
+      }),
+      expect.any(Object),
+      expect.any(Function)
+    )
+    expect(afterDeadline.decisions).toEqual([
+      { key: 'consistency_audit', type: 'TRIGGER_LOG_RETENTION_CLEANUP', action: 'skipped', reason: 'not_due' }
+    ])
+  })
+
+  it('applies running-type and mutexKey guards to interval and cron tasks', async () => {
+    const harness = createDatabase(
+      [
+        {
+          id: 'task-gc',
+          key: 'derived_media_gc',
+          type: 'DERIVED_MEDIA_GC',
+          priority: 70,
+          config: null,
+          scheduleMode: 'INTERVAL',
+          intervalMinutes: 60,
+          mutexKey: 'derived-media'
+        },
+        {
+          id: 'task-logs',
+          key: 'trigger_log_retention_cleanup',
+          type: 'TRIGGER_LOG_RETENTION_CLEANUP',
+          priority: 10,
+          config: null,
+          scheduleMode: 'INTERVAL',
+          intervalMinutes: 60,
+          mutexKey: 'audit-maintenance'
+        },
+        {
+          id: 'task-runs',
+          key: 'scan_run_retention_cleanup',
+          type: 'SCAN_RUN_RETENTION_CLEANUP',
+          priority: 20,
+          config: null,
+          mutexKey: 'audit-maintenance'
+        }
+      ],
+      [{ type: 'DERIVED_MEDIA_GC' }, { type: 'SCAN_RUN_RETENTION_CLEANUP' }]
+    )
+
+    const result = await runScheduleMaterializerTick(new Date('2026-06-02T05:10:00.000Z'), {
+      cutoverEnabled: true,
+      database: harness.database as never
+    })
+
+    expect(result.decisions).toEqual([
+      { key: 'derived_media_gc', type: 'DERIVED_MEDIA_GC', action: 'skipped', reason: 'already_running' },
+      {
+        key: 'trigger_log_retention_cleanup',
+        type: 'TRIGGER_LOG_RETENTION_CLEANUP',
+        action: 'skipped',
+        reason: 'mutex_busy'
+      }
+    ])
+    expect(enqueueJobMock).not.toHaveBeenCalled()
+  })
+
+  it('skips recurring tasks with an invalid schedule instead of failing the tick', async () => {
+    const harness = createDatabase([
+      {
+        id: 'task-bad',
+        key: 'scan_run_retention_cleanup',
+        type: 'SCAN_RUN_RETENTION_CLEANUP',
+        priority: 20,
+        config: null,
+        scheduleMode: 'CRON',
+        cronExpression: '61 * * * *'
+      }
+    ])
+
+    const result = await runScheduleMaterializerTick(new Date('2026-06-02T05:10:00.000Z'), {
+      cutoverEnabled: true,
+      database: harness.database as never
+    })
+
+    expect(result.decisions[0]).toMatchObject({ action: 'skipped', reason: 'invalid_definition' })
+    expect(enqueueJobMock).not.toHaveBeenCalled()
+  })
+
   it('keeps legacy scheduling behavior by default and logs the detached-work boundary', async () => {
     vi.stubEnv('CENTRAL_DISPATCHER_CUTOVER_ENABLED', 'false')
     const result = await runScheduleMaterializerTick(new Date('2026-06-01T18:00:00.000Z'), {
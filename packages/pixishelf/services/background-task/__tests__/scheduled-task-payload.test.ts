@@ -13,15 +13,24 @@ describe('scheduled task payload mapping', () => {
     'ARCHIVE_INTAKE_RETENTION_CLEANUP',
     'TRIGGER_LOG_RETENTION_CLEANUP',
     'SCAN_RUN_RETENTION_CLEANUP',
-    'WEBP_ANIMATION_SCAN'
+    'WEBP_ANIMATION_SCAN',
+    'IMAGE_PERCEPTUAL_HASH'
   ])('maps %s to an explicitly validated empty payload', (type) => {
     expect(buildScheduledTaskJobDefinition(type, { trigger: 'schedule' })).toEqual({ type, payload: {} })
   })
 
-  it('maps media probe and chapter preview behavior explicitly', () => {
+  it('maps media probe, ugoira conversion, integrity scrub and chapter preview behavior explicitly', () => {
     expect(buildScheduledTaskJobDefinition('VIDEO_MEDIA_PROBE', { trigger: 'schedule' }).payload).toEqual({
       force: false
     })
+    expect(buildScheduledTaskJobDefinition('UGOIRA_CONVERSION', { trigger: 'schedule' }).payload).toEqual({
+      force: false
+    })
+    expect(buildScheduledTaskJobDefinition('MEDIA_INTEGRITY_SCRUB', { trigger: 'schedule' }).payload).toEqual({
+      maxFiles: 2_000,
+      maxBytes: 16 * 1024 ** 3,
+      reverifyAfterDays: 90
+    })
     expect(
       buildScheduledTaskJobDefinition('VIDEO_CHAPTER_PREVIEW_GENERATION', { trigger: 'schedule' }).payload
     ).toEqual({
@@ -52,6 +61,21 @@ describe('scheduled task payload mapping', () => {
     ).toEqual({ dryRun: true, reconcile: true })
   })
 
+  it('only enables automatic imports for the auto-import archive update schedule', () => {
+    expect(
+      buildScheduledTaskJobDefinition('ARCHIVE_UPDATE_CHECK', {
+        trigger: 'schedule',
+        scheduleKey: 'archive_update_check'
+      }).payload
+    ).toEqual({ batchSize: 10, minIntervalHours: 168, autoEnqueue: false })
+    expect(
+      buildScheduledTaskJobDefinition('ARCHIVE_UPDATE_CHECK', {
+        trigger: 'manual',
+        scheduleKey: 'archive_update_check_auto_import'
+      }).payload
+    ).toMatchObject({ autoEnqueue: true })
+  })
+
   it('validates keyframe filters through the shared contract', () => {
     expect(
       buildScheduledTaskJobDefinition('VIDEO_KEYFRAME_DISCOVERY', {
@@ -0,0 +1,236 @@
+/**
+ * Minimal five-field cron support for scheduled tasks: `minute hour day-of-month month day-of-week`.
+ * Fields accept `*`, numbers, names (JAN-DEC, SUN-SAT), ranges, lists and `/step`; day-of-week
+ * accepts both 0 and 7 for Sunday. When both day fields are restricted a day matches either one,
+ * following the classic cron semantics.
+ */
+
+export const CRON_EXPRESSION_MAX_LENGTH = 120
+
+// Covers the longest gap between two matches, e.g. `0 0 29 2 *` across a skipped leap year (2096 -> 2104).
+const MAX_SEARCH_DAYS = 366 * 8
+const ONE_MINUTE_MS = 60 * 1_000
+const ONE_DAY_MS = 24 * 60 * ONE_MINUTE_MS
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+interface CronFieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: string[]
+  nameOffset?: number
+}
+
+const FIELD_SPECS: CronFieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day-of-week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 }
+]
+
+export interface CronSchedule {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CronExpressionError'
+  }
+}
+
+function parseFieldValue(raw: string, spec: CronFieldSpec): number {
+  const nameIndex = spec.names?.indexOf(raw.toUpperCase()) ?? -1
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset ?? 0) : /^\d+$/.test(raw) ? Number(raw) : Number.NaN
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new CronExpressionError(`Invalid ${spec.name} value: ${raw}`)
+  }
+  return value
+}
+
+function parseField(field: string, spec: CronFieldSpec): Set<number> {
+  const values = new Set<number>()
+  for (const part of field.split(',')) {
+    const [rangePart = '', stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : /^\d+$/.test(stepPart) ? Number(stepPart) : 0
+    if (step < 1) {
+      throw new CronExpressionError(`Invalid ${spec.name} step: ${part}`)
+    }
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (rangePart.includes('-')) {
+      const [from = '', to = ''] = rangePart.split('-')
+      start = parseFieldValue(from, spec)
+      end = parseFieldValue(to, spec)
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${spec.name} range: ${rangePart}`)
+      }
+    } else {
+      start = parseFieldValue(rangePart, spec)
+      // `5/15` means "from 5 to the end of the field every 15"
+      end = stepPart === undefined ? start : spec.max
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return values
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  if (trimmed.length === 0 || trimmed.length > CRON_EXPRESSION_MAX_LENGTH) {
+    throw new CronExpressionError(`Cron expression must be 1-${CRON_EXPRESSION_MAX_LENGTH} characters`)
+  }
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+  if (fields.length !== FIELD_SPECS.length) {
+    throw new CronExpressionError('Cron expression must have five fields: minute hour day-of-month month day-of-week')
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_SPECS[index]!)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>]
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes: [...minutes].sort((left, right) => left - right),
+    hours: [...hours].sort((left, right) => left - right),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2]!.startsWith('*'),
+    dayOfWeekRestricted: !fields[4]!.startsWith('*')
+  }
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function zonedFormatter(timeZone: string) {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    zonedFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+export function toZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    zonedFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  )
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute)
+  }
+}
+
+function zoneOffsetMs(date: Date, timeZone: string) {
+  const parts = toZonedParts(date, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  return asUtc - Math.floor(date.getTime() / ONE_MINUTE_MS) * ONE_MINUTE_MS
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to an instant. Times skipped by a DST jump resolve to
+ * the instant after the jump; repeated times resolve to their first occurrence.
+ */
+export function fromZonedParts(parts: ZonedParts, timeZone: string): Date {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  // Offsets a day apart bracket any single transition, so one of them is the offset in effect.
+  const candidates = [
+    wallClock - zoneOffsetMs(new Date(wallClock - ONE_DAY_MS), timeZone),
+    wallClock - zoneOffsetMs(new Date(wallClock + ONE_DAY_MS), timeZone)
+  ]
+  const exact = candidates.filter((candidate) => zoneOffsetMs(new Date(candidate), timeZone) === wallClock - candidate)
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...candidates))
+}
+
+function matchesDay(schedule: CronSchedule, year: number, month: number, day: number) {
+  if (!schedule.months.has(month)) return false
+  const dayOfMonthMatch = schedule.daysOfMonth.has(day)
+  const dayOfWeekMatch = schedule.daysOfWeek.has(new Date(Date.UTC(year, month - 1, day)).getUTCDay())
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonthMatch || dayOfWeekMatch
+  return dayOfMonthMatch && dayOfWeekMatch
+}
+
+/**
+ * Yields the instants matching `schedule` in `timeZone` strictly after `after`, in order.
+ */
+export function* cronOccurrencesAfter(schedule: CronSchedule, after: Date, timeZone: string): Generator<Date> {
+  const start = toZonedParts(after, timeZone)
+  let previous = after.getTime()
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset += 1) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset))
+    const year = date.getUTCFullYear()
+    const month = date.getUTCMonth() + 1
+    const day = date.getUTCDate()
+    if (!matchesDay(schedule, year, month, day)) continue
+
+    for (const hour of schedule.hours) {
+      if (offset === 0 && hour < start.hour) continue
+      for (const minute of schedule.minutes) {
+        const occurrence = fromZonedParts({ year, month, day, hour, minute }, timeZone)
+        // Skipped and repeated DST wall-clock times can map onto an instant already yielded.
+        if (occurrence.getTime() <= previous) continue
+        previous = occurrence.getTime()
+        yield occurrence
+      }
+    }
+  }
+}
+
+export function nextCronOccurrence(schedule: CronSchedule, after: Date, timeZone: string): Date | null {
+  return cronOccurrencesAfter(schedule, after, timeZone).next().value ?? null
+}
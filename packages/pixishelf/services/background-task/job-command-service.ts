@@ -2,6 +2,7 @@ import { prisma } from '@/lib/prisma'
 import {
   executionLaneForJobType,
   JOB_DEFINITION_VERSION,
+  MAX_JOB_DEPENDENCIES,
   SCAN_AUDIT_APPLY_DEFINITION_VERSION,
   jobTypeSchema,
   jsonValueSchema,
@@ -24,6 +25,8 @@ const commonEnqueueFields = {
   payload: jsonValueSchema.optional(),
   idempotencyKey: z.string().trim().min(1).max(180).optional(),
   parentJobId: z.string().min(1).optional(),
+  // Prerequisite jobs that must reach COMPLETED before this job can be claimed.
+  dependsOnJobIds: z.array(z.string().min(1)).max(MAX_JOB_DEPENDENCIES).optional(),
   availableAt: z.coerce.date().optional(),
   deadlineAt: z.coerce.date().optional(),
   maxAttempts: z.number().int().min(1).max(20).default(3)
@@ -38,14 +41,23 @@ export const manualEnqueueJobRequestSchema = z.object({
 
 export const enqueueJobInputSchema = z.discriminatedUnion('triggerSource', [
   manualEnqueueJobRequestSchema.extend({ requestedByUserId: z.string().min(1) }),
-  z.object({
-    ...commonEnqueueFields,
-    triggerSource: z.literal('SCHEDULE'),
-    scheduledTaskId: z.string().min(1),
-    scheduledForDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-    deadlineAt: z.coerce.date(),
-    priority: z.number().int().min(100).max(999)
-  }),
+  z
+    .object({
+      ...commonEnqueueFields,
+      triggerSource: z.literal('SCHEDULE'),
+      scheduledTaskId: z.string().min(1),
+      // DAILY tasks materialize once per central window date; INTERVAL/CRON tasks once per occurrence time.
+      scheduledForDate: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .optional(),
+      scheduledFor: z.coerce.date().optional(),
+      deadlineAt: z.coerce.date(),
+      priority: z.number().int().min(100).max(999)
+    })
+    .refine((input) => (input.scheduledForDate === undefined) !== (input.scheduledFor === undefined), {
+      message: 'Scheduled jobs require exactly one of scheduledForDate or scheduledFor'
+    }),
   z.object({
     ...commonEnqueueFields,
     triggerSource: z.literal('SYSTEM'),
@@ -103,7 +115,7 @@ function canonicalJson(value: unknown): string {
 function assertIdempotencySemantics(existing: SystemJobWireRecord, input: ParsedEnqueueInput, payload: unknown) {
   const expectedRequestedByUserId = input.triggerSource === 'MANUAL' ? input.requestedByUserId : null
   const expectedScheduledTaskId = input.triggerSource === 'SCHEDULE' ? input.scheduledTaskId : null
-  const expectedScheduledForDate = input.triggerSource === 'SCHEDULE' ? input.scheduledForDate : null
+  const expectedScheduledForDate = input.triggerSource === 'SCHEDULE' ? (input.scheduledForDate ?? null) : null
   const semanticMatch =
     existing.type === input.type &&
     existing.executionLane === executionLaneForJobType(input.type) &&
@@ -161,14 +173,35 @@ async function loadIdempotentJob(
   input: ParsedEnqueueInput,
   payload: unknown
 ) {
-  const existing = await transaction.systemJob.findUnique({
+  const record = await transaction.systemJob.findUnique({
     where: { idempotencyKey },
-    select: systemJobWireSelect
+    select: { ...systemJobWireSelect, dependencies: { select: { dependsOnJobId: true } } }
   })
-  if (existing) assertIdempotencySemantics(existing, input, payload)
+  if (!record) return null
+  const { dependencies = [], ...existing } = record
+  assertIdempotencySemantics(existing, input, payload)
+  const existingDependencyIds = dependencies.map(({ dependsOnJobId }) => dependsOnJobId).sort()
+  if (canonicalJson(existingDependencyIds) !== canonicalJson(uniqueDependencyIds(input))) {
+    throw new BackgroundTaskError(
+      'IDEMPOTENCY_CONFLICT',
+      'Idempotency key is already bound to a different background job request'
+    )
+  }
   return existing
 }
 
+function uniqueDependencyIds(input: ParsedEnqueueInput) {
+  return [...new Set(input.dependsOnJobIds ?? [])].sort()
+}
+
+async function assertPrerequisitesExist(transaction: Prisma.TransactionClient, dependsOnJobIds: string[]) {
+  if (dependsOnJobIds.length === 0) return
+  const found = await transaction.systemJob.count({ where: { id: { in: dependsOnJobIds } } })
+  if (found !== dependsOnJobIds.length) {
+    throw new BackgroundTaskError('JOB_NOT_FOUND', 'A prerequisite background job was not found')
+  }
+}
+
 async function compareAndSetJob(
   transaction: Prisma.TransactionClient,
   job: SystemJobWireRecord,
@@ -210,6 +243,8 @@ export async function enqueueJob(
         if (existing) return toJobDto(existing)
       }
 
+      const dependsOnJobIds = uniqueDependencyIds(parsed)
+      await assertPrerequisitesExist(transaction, dependsOnJobIds)
       const timestamp = now()
       const executionLane = executionLaneForJobType(parsed.type)
       const legacyProjection = deriveLegacyJobProjection(parsed.type, parsed.definitionVersion, payload)
@@ -229,9 +264,16 @@ export async function enqueueJob(
           ...legacyProjection,
           idempotencyKey: parsed.idempotencyKey,
           parentJobId: parsed.parentJobId,
+          ...(dependsOnJobIds.length > 0
+            ? { dependencies: { create: dependsOnJobIds.map((dependsOnJobId) => ({ dependsOnJobId })) } }
+            : {}),
           ...(parsed.triggerSource === 'MANUAL' ? { requestedByUserId: parsed.requestedByUserId } : {}),
           ...(parsed.triggerSource === 'SCHEDULE'
-            ? { scheduledTaskId: parsed.scheduledTaskId, scheduledForDate: parsed.scheduledForDate }
+            ? {
+                scheduledTaskId: parsed.scheduledTaskId,
+                scheduledForDate: parsed.scheduledForDate,
+                scheduledFor: parsed.scheduledFor
+              }
             : {})
         },
         select: systemJobWireSelect
@@ -241,7 +283,11 @@ export async function enqueueJob(
         type: 'job.queued',
         attempt: 0,
         message: 'Background job queued',
-        data: { triggerSource: parsed.triggerSource, priority: parsed.priority }
+        data: {
+          triggerSource: parsed.triggerSource,
+          priority: parsed.priority,
+          ...(dependsOnJobIds.length > 0 ? { dependsOnJobIds } : {})
+        }
       })
       return toJobDto(record)
     })
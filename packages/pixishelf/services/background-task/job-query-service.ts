@@ -1,11 +1,19 @@
 import { prisma } from '@/lib/prisma'
-import { JOB_STATUS_VALUES, JOB_TYPE_VALUES, type JobStatus } from '@pixishelf/job-contracts'
+import {
+  JOB_STATUS_VALUES,
+  JOB_TYPE_VALUES,
+  jobDependencyGraphDtoSchema,
+  type JobDependencyGraphDto,
+  type JobStatus
+} from '@pixishelf/job-contracts'
 import { Prisma } from '@pixishelf/db'
 import { z } from 'zod'
 import { systemJobWireSelect, toJobDto, toWorkerHealthDto, workerInstanceWireSelect } from './job-serialization'
 import { isWorkerHeartbeatFresh } from './worker-heartbeat'
 
-type JobQueryClient = Pick<Prisma.TransactionClient, 'systemJob' | 'workerInstance'>
+type JobQueryClient = Pick<Prisma.TransactionClient, 'systemJob' | 'systemJobDependency' | 'workerInstance'>
+
+const DEPENDENCY_GRAPH_NODE_LIMIT = 50
 
 function queryClient(client?: JobQueryClient) {
   return client ?? (prisma as unknown as JobQueryClient)
@@ -121,3 +129,76 @@ export async function getJobById(jobId: string, client?: JobQueryClient) {
   })
   return record ? toJobDto(record) : null
 }
+
+export async function getJobDependencyGraph(jobId: string, client?: JobQueryClient): Promise<JobDependencyGraphDto> {
+  const parsedId = z.string().min(1).parse(jobId)
+  const database = queryClient(client)
+  const edges = new Map<string, { jobId: string; dependsOnJobId: string }>()
+  const visited = new Set([parsedId])
+  let frontier = [parsedId]
+  let truncated = false
+
+  // 沿前置与后续两个方向逐层展开，节点数有上限，避免异常长链拖慢控制台
+  while (frontier.length > 0) {
+    const layer = await database.systemJobDependency.findMany({
+      where: { OR: [{ jobId: { in: frontier } }, { dependsOnJobId: { in: frontier } }] },
+      select: { jobId: true, dependsOnJobId: true }
+    })
+    frontier = []
+    for (const edge of layer) {
+      edges.set(`${edge.jobId}:${edge.dependsOnJobId}`, edge)
+      for (const id of [edge.jobId, edge.dependsOnJobId]) {
+        if (visited.has(id)) continue
+        if (visited.size >= DEPENDENCY_GRAPH_NODE_LIMIT) {
+          truncated = true
+          continue
+        }
+        visited.add(id)
+        frontier.push(id)
+      }
+    }
+  }
+
+  const records = await database.systemJob.findMany({
+    where: { id: { in: [...visited] } },
+    select: { id: true, type: true, status: true, skipReason: true, createdAt: true }
+  })
+  const dependsOn = new Map<string, string[]>()
+  for (const edge of edges.values()) {
+    if (!visited.has(edge.jobId) || !visited.has(edge.dependsOnJobId)) continue
+    dependsOn.set(edge.jobId, [...(dependsOn.get(edge.jobId) ?? []), edge.dependsOnJobId])
+  }
+
+  return jobDependencyGraphDtoSchema.parse({
+    jobId: parsedId,
+    nodes: orderPrerequisitesFirst(records, dependsOn).map((record) => ({
+      id: record.id,
+      type: record.type,
+      status: record.status,
+      skipReason: record.skipReason,
+      dependsOnJobIds: (dependsOn.get(record.id) ?? []).sort()
+    })),
+    truncated
+  })
+}
+
+function orderPrerequisitesFirst<T extends { id: string; createdAt: Date }>(
+  records: T[],
+  dependsOn: Map<string, string[]>
+) {
+  const pending = [...records].sort(
+    (left, right) => left.createdAt.getTime() - right.createdAt.getTime() || left.id.localeCompare(right.id)
+  )
+  const placed = new Set<string>()
+  const ordered: T[] = []
+  while (pending.length > 0) {
+    const index = pending.findIndex((record) =>
+      (dependsOn.get(record.id) ?? []).every((id) => placed.has(id) || !records.some((other) => other.id === id))
+    )
+    // 依赖关系只会指向已存在的任务，不会成环；兜底时按创建顺序输出剩余节点
+    const [next] = pending.splice(index === -1 ? 0 : index, 1)
+    placed.add(next!.id)
+    ordered.push(next!)
+  }
+  return ordered
+}
@@ -3,19 +3,23 @@ import 'server-only'
 import logger from '@/lib/logger'
 import { prisma } from '@/lib/prisma'
 import { ensureDefaultScheduledTasks, runSchedulerTick } from '@/services/scheduled-task-service'
-import { JOB_DEFINITION_VERSION } from '@pixishelf/job-contracts'
+import { ACTIVE_JOB_STATUSES, JOB_DEFINITION_VERSION } from '@pixishelf/job-contracts'
 import { Prisma } from '@pixishelf/db'
 import { isCentralDispatcherCutoverEnabled } from './dispatcher-cutover'
 import { enqueueJob } from './job-command-service'
 import {
+  getRecurringScheduleOccurrence,
   getShanghaiScheduleWindow,
   isShanghaiWeeklyReconciliationDate,
+  toRecurringScheduleSpec,
+  type ScheduleOccurrence,
   type ShanghaiScheduleWindow
 } from './schedule-window'
 import { buildScheduledTaskJobDefinition } from './scheduled-task-payload'
 
 const SCHEDULER_LOCK_NAMESPACE = 80_432_026
 const SCHEDULER_LOCK_KEY = 8_140
+const RECURRING_SCHEDULE_MODES = ['INTERVAL', 'CRON'] as const
 
 interface MaterializableScheduledTask {
   id: string
@@ -23,6 +27,16 @@ interface MaterializableScheduledTask {
   type: string
   priority: number
   config: unknown
+  scheduleMode: string
+  intervalMinutes: number | null
+  cronExpression: string | null
+  timezone: string
+  mutexKey: string | null
+}
+
+interface ActiveScheduleGuards {
+  activeTypes: Set<string>
+  activeMutexKeys: Set<string>
 }
 
 interface LegacySchedulerResult {
@@ -46,7 +60,7 @@ export interface ScheduleMaterializationDecision {
   type: string
   action: 'materialized' | 'existing' | 'skipped'
   jobId?: string
-  reason?: 'invalid_definition' | 'not_scheduled_today'
+  reason?: 'invalid_definition' | 'not_scheduled_today' | 'not_due' | 'already_running' | 'mutex_busy'
 }
 
 export interface ScheduleMaterializerTickResult {
@@ -76,27 +90,13 @@ function reuseTransaction(transaction: Prisma.TransactionClient) {
   }
 }
 
-async function materializeTask(
+async function enqueueScheduledTaskJob(
   transaction: Prisma.TransactionClient,
   task: MaterializableScheduledTask,
-  window: ShanghaiScheduleWindow,
+  slot: { scheduledForDate: string } | ScheduleOccurrence,
+  window: { availableAt: Date; deadlineAt: Date },
   now: Date
 ): Promise<ScheduleMaterializationDecision> {
-  if (task.key === 'derived_media_gc_reconciliation' && !isShanghaiWeeklyReconciliationDate(window.scheduledForDate)) {
-    return { key: task.key, type: task.type, action: 'skipped', reason: 'not_scheduled_today' }
-  }
-
-  const existing = await transaction.systemJob.findFirst({
-    where: {
-      scheduledTaskId: task.id,
-      scheduledForDate: window.scheduledForDate
-    },
-    select: { id: true }
-  })
-  if (existing) {
-    return { key: task.key, type: task.type, action: 'existing', jobId: existing.id }
-  }
-
   let definition: ReturnType<typeof buildScheduledTaskJobDefinition>
   try {
     definition = buildScheduledTaskJobDefinition(task.type, {
@@ -108,14 +108,17 @@ async function materializeTask(
     return { key: task.key, type: task.type, action: 'skipped', reason: 'invalid_definition' }
   }
 
+  const slotKey = 'scheduledForDate' in slot ? slot.scheduledForDate : slot.scheduledFor.toISOString()
   const job = await enqueueJob(
     {
       type: definition.type,
       definitionVersion: JOB_DEFINITION_VERSION,
       triggerSource: 'SCHEDULE',
       scheduledTaskId: task.id,
-      scheduledForDate: window.scheduledForDate,
-      idempotencyKey: `scheduled-task:${task.id}:${window.scheduledForDate}:v${JOB_DEFINITION_VERSION}`,
+      ...('scheduledForDate' in slot
+        ? { scheduledForDate: slot.scheduledForDate }
+        : { scheduledFor: slot.scheduledFor }),
+      idempotencyKey: `scheduled-task:${task.id}:${slotKey}:v${JOB_DEFINITION_VERSION}`,
       payload: definition.payload,
       priority: toScheduledQueuePriority(task.priority),
       availableAt: window.availableAt,
@@ -129,7 +132,9 @@ async function materializeTask(
     where: { id: task.id },
     data: {
       lastMaterializedAt: now,
-      lastMaterializedDate: window.scheduledForDate,
+      ...('scheduledForDate' in slot
+        ? { lastMaterializedDate: slot.scheduledForDate }
+        : { lastMaterializedFor: slot.scheduledFor }),
       lastJobId: job.id
     }
   })
@@ -137,6 +142,95 @@ async function materializeTask(
   return { key: task.key, type: task.type, action: 'materialized', jobId: job.id }
 }
 
+async function materializeDailyTask(
+  transaction: Prisma.TransactionClient,
+  task: MaterializableScheduledTask,
+  window: ShanghaiScheduleWindow,
+  now: Date
+): Promise<ScheduleMaterializationDecision> {
+  if (task.key === 'derived_media_gc_reconciliation' && !isShanghaiWeeklyReconciliationDate(window.scheduledForDate)) {
+    return { key: task.key, type: task.type, action: 'skipped', reason: 'not_scheduled_today' }
+  }
+
+  const existing = await transaction.systemJob.findFirst({
+    where: {
+      scheduledTaskId: task.id,
+      scheduledForDate: window.scheduledForDate
+    },
+    select: { id: true }
+  })
+  if (existing) {
+    return { key: task.key, type: task.type, action: 'existing', jobId: existing.id }
+  }
+
+  return enqueueScheduledTaskJob(transaction, task, { scheduledForDate: window.scheduledForDate }, window, now)
+}
+
+async function loadActiveScheduleGuards(transaction: Prisma.TransactionClient): Promise<ActiveScheduleGuards> {
+  // 与旧调度 Tick 一致：同类型任务仍在队列中视为运行中，同互斥键的任何维护任务（包括手动执行）都会阻断新实例。
+  const definitions = await transaction.scheduledTask.findMany({ select: { type: true, mutexKey: true } })
+  const mutexKeyByType = new Map(
+    definitions.flatMap((definition) => (definition.mutexKey ? [[definition.type, definition.mutexKey] as const] : []))
+  )
+  const activeJobs = await transaction.systemJob.findMany({
+    where: {
+      type: { in: Array.from(new Set(definitions.map((definition) => definition.type))) },
+      status: { in: [...ACTIVE_JOB_STATUSES] }
+    },
+    select: { type: true }
+  })
+
+  const guards: ActiveScheduleGuards = { activeTypes: new Set(), activeMutexKeys: new Set() }
+  for (const job of activeJobs) {
+    guards.activeTypes.add(job.type)
+    const mutexKey = mutexKeyByType.get(job.type)
+    if (mutexKey) guards.activeMutexKeys.add(mutexKey)
+  }
+  return guards
+}
+
+async function materializeRecurringTask(
+  transaction: Prisma.TransactionClient,
+  task: MaterializableScheduledTask,
+  guards: ActiveScheduleGuards,
+  now: Date
+): Promise<ScheduleMaterializationDecision> {
+  let occurrence: ScheduleOccurrence | null
+  try {
+    occurrence = getRecurringScheduleOccurrence(toRecurringScheduleSpec(task)!, now)
+  } catch {
+    return { key: task.key, type: task.type, action: 'skipped', reason: 'invalid_definition' }
+  }
+  if (!occurrence) {
+    return { key: task.key, type: task.type, action: 'skipped', reason: 'not_due' }
+  }
+
+  const existing = await transaction.systemJob.findFirst({
+    where: {
+      scheduledTaskId: task.id,
+      scheduledFor: occurrence.scheduledFor
+    },
+    select: { id: true }
+  })
+  if (existing) {
+    return { key: task.key, type: task.type, action: 'existing', jobId: existing.id }
+  }
+
+  if (guards.activeTypes.has(task.type)) {
+    return { key: task.key, type: task.type, action: 'skipped', reason: 'already_running' }
+  }
+  if (task.mutexKey && guards.activeMutexKeys.has(task.mutexKey)) {
+    return { key: task.key, type: task.type, action: 'skipped', reason: 'mutex_busy' }
+  }
+
+  const decision = await enqueueScheduledTaskJob(transaction, task, occurrence, occurrence, now)
+  if (decision.action === 'materialized') {
+    guards.activeTypes.add(task.type)
+    if (task.mutexKey) guards.activeMutexKeys.add(task.mutexKey)
+  }
+  return decision
+}
+
 export async function runScheduleMaterializerTick(
   now = new Date(),
   dependencies: ScheduleMaterializerDependencies = {}
@@ -159,32 +253,42 @@ export async function runScheduleMaterializerTick(
     }
   }
 
-  if (!window.isOpen) {
-    return {
-      now: now.toISOString(),
-      mode: 'CENTRAL',
-      scheduledForDate: window.scheduledForDate,
-      windowState: 'CLOSED',
-      requiresDispatcherExpiryCleanup: true,
-      decisions: []
-    }
+  // DAILY 任务只在中央窗口内物化；INTERVAL/CRON 任务按各自的发生时间在任意 Tick 物化。
+  if (window.isOpen) {
+    await (dependencies.ensureDefaults ?? ensureDefaultScheduledTasks)()
   }
-
-  await (dependencies.ensureDefaults ?? ensureDefaultScheduledTasks)()
   const database = dependencies.database ?? (prisma as unknown as MaterializerDatabaseClient)
   const decisions = await database.$transaction(async (transaction) => {
     await transaction.$queryRaw(
       Prisma.sql`SELECT pg_advisory_xact_lock(${SCHEDULER_LOCK_NAMESPACE}::integer, ${SCHEDULER_LOCK_KEY}::integer)::text AS "lock"`
     )
     const tasks = await transaction.scheduledTask.findMany({
-      where: { enabled: true, scheduleMode: 'DAILY' },
+      where: window.isOpen ? { enabled: true } : { enabled: true, scheduleMode: { in: [...RECURRING_SCHEDULE_MODES] } },
       orderBy: [{ priority: 'asc' }, { key: 'asc' }],
-      select: { id: true, key: true, type: true, priority: true, config: true }
+      select: {
+        id: true,
+        key: true,
+        type: true,
+        priority: true,
+        config: true,
+        scheduleMode: true,
+        intervalMinutes: true,
+        cronExpression: true,
+        timezone: true,
+        mutexKey: true
+      }
     })
+    const guards = tasks.some((task) => task.scheduleMode !== 'DAILY')
+      ? await loadActiveScheduleGuards(transaction)
+      : null
 
     const materialized: ScheduleMaterializationDecision[] = []
     for (const task of tasks) {
-      materialized.push(await materializeTask(transaction, task, window, now))
+      materialized.push(
+        task.scheduleMode === 'DAILY'
+          ? await materializeDailyTask(transaction, task, window, now)
+          : await materializeRecurringTask(transaction, task, guards!, now)
+      )
     }
     return materialized
   })
@@ -193,8 +297,8 @@ export async function runScheduleMaterializerTick(
     now: now.toISOString(),
     mode: 'CENTRAL',
     scheduledForDate: window.scheduledForDate,
-    windowState: 'OPEN',
-    requiresDispatcherExpiryCleanup: false,
+    windowState: window.isOpen ? 'OPEN' : 'CLOSED',
+    requiresDispatcherExpiryCleanup: !window.isOpen,
     decisions
   }
 }
@@ -1,3 +1,5 @@
+import { cronOccurrencesAfter, fromZonedParts, parseCronExpression } from './cron-expression'
+
 export const CENTRAL_SCHEDULE_TIMEZONE = 'Asia/Shanghai'
 
 const WINDOW_START_HOUR = 0
@@ -41,3 +43,108 @@ export function getCurrentOrNextShanghaiScheduleWindow(now: Date): ShanghaiSched
   const current = getShanghaiScheduleWindow(now)
   return current.isOpen ? current : getShanghaiScheduleWindow(new Date(current.availableAt.getTime() + ONE_DAY_MS))
 }
+
+export function getUpcomingShanghaiScheduleWindows(
+  now: Date,
+  count: number,
+  isScheduledDate: (scheduledForDate: string) => boolean = () => true
+): ShanghaiScheduleWindow[] {
+  const windows: ShanghaiScheduleWindow[] = []
+  let window = getShanghaiScheduleWindow(now)
+  // Weekly-only dates need at most seven days per requested window.
+  for (let day = 0; windows.length < count && day < count * 7; day += 1) {
+    window = getShanghaiScheduleWindow(new Date(window.availableAt.getTime() + ONE_DAY_MS))
+    if (isScheduledDate(window.scheduledForDate)) windows.push(window)
+  }
+  return windows
+}
+
+// INTERVAL and CRON occurrences keep the same maximum lifetime as a DAILY window before they are SKIPPED.
+export const SCHEDULE_OCCURRENCE_MAX_WINDOW_MS = (WINDOW_END_HOUR - WINDOW_START_HOUR) * 60 * 60 * 1_000
+export const SCHEDULE_INTERVAL_MIN_MINUTES = 15
+export const SCHEDULE_INTERVAL_MAX_MINUTES = 7 * 24 * 60
+
+export type RecurringScheduleSpec =
+  | { mode: 'INTERVAL'; intervalMinutes: number; timezone: string }
+  | { mode: 'CRON'; cronExpression: string; timezone: string }
+
+export interface ScheduleOccurrence {
+  scheduledFor: Date
+  availableAt: Date
+  deadlineAt: Date
+}
+
+export function toRecurringScheduleSpec(task: {
+  scheduleMode: string
+  intervalMinutes: number | null
+  cronExpression: string | null
+  timezone: string
+}): RecurringScheduleSpec | null {
+  if (task.scheduleMode === 'INTERVAL') {
+    if (task.intervalMinutes === null) throw new Error('INTERVAL schedule requires intervalMinutes')
+    return { mode: 'INTERVAL', intervalMinutes: task.intervalMinutes, timezone: task.timezone }
+  }
+  if (task.scheduleMode === 'CRON') {
+    if (task.cronExpression === null) throw new Error('CRON schedule requires cronExpression')
+    return { mode: 'CRON', cronExpression: task.cronExpression, timezone: task.timezone }
+  }
+  return null
+}
+
+function* recurringOccurrencesAfter(spec: RecurringScheduleSpec, after: Date): Generator<Date> {
+  if (spec.mode === 'CRON') {
+    yield* cronOccurrencesAfter(parseCronExpression(spec.cronExpression), after, spec.timezone)
+    return
+  }
+
+  if (
+    !Number.isInteger(spec.intervalMinutes) ||
+    spec.intervalMinutes < SCHEDULE_INTERVAL_MIN_MINUTES ||
+    spec.intervalMinutes > SCHEDULE_INTERVAL_MAX_MINUTES
+  ) {
+    throw new Error(
+      `Interval must be ${SCHEDULE_INTERVAL_MIN_MINUTES}-${SCHEDULE_INTERVAL_MAX_MINUTES} minutes: ${spec.intervalMinutes}`
+    )
+  }
+  // Anchoring at a fixed local midnight keeps slots stable across restarts, e.g. every 6h -> 00/06/12/18.
+  const anchor = fromZonedParts({ year: 1970, month: 1, day: 1, hour: 0, minute: 0 }, spec.timezone).getTime()
+  const step = spec.intervalMinutes * 60 * 1_000
+  for (let slot = Math.floor((after.getTime() - anchor) / step) + 1; ; slot += 1) {
+    yield new Date(anchor + slot * step)
+  }
+}
+
+/**
+ * Returns the occurrence whose window contains `now`. The window opens at the occurrence and closes
+ * at the next occurrence or after the DAILY window length, whichever comes first.
+ */
+export function getRecurringScheduleOccurrence(spec: RecurringScheduleSpec, now: Date): ScheduleOccurrence | null {
+  let current: Date | null = null
+  let next: Date | null = null
+  for (const occurrence of recurringOccurrencesAfter(
+    spec,
+    new Date(now.getTime() - SCHEDULE_OCCURRENCE_MAX_WINDOW_MS)
+  )) {
+    if (occurrence.getTime() > now.getTime()) {
+      next = occurrence
+      break
+    }
+    current = occurrence
+  }
+  if (!current) return null
+
+  const deadlineAt = new Date(
+    Math.min(current.getTime() + SCHEDULE_OCCURRENCE_MAX_WINDOW_MS, next?.getTime() ?? Number.POSITIVE_INFINITY)
+  )
+  if (deadlineAt.getTime() <= now.getTime()) return null
+  return { scheduledFor: current, availableAt: current, deadlineAt }
+}
+
+export function getNextRecurringScheduleRuns(spec: RecurringScheduleSpec, now: Date, count: number): Date[] {
+  const runs: Date[] = []
+  for (const occurrence of recurringOccurrencesAfter(spec, now)) {
+    if (runs.length >= count) break
+    runs.push(occurrence)
+  }
+  return runs
+}
@@ -27,11 +27,17 @@ export function buildScheduledTaskJobDefinition(
     case 'TRIGGER_LOG_RETENTION_CLEANUP':
     case 'SCAN_RUN_RETENTION_CLEANUP':
     case 'WEBP_ANIMATION_SCAN':
+    case 'IMAGE_PERCEPTUAL_HASH':
+    case 'MEDIA_INTEGRITY_SCRUB':
       candidate = {}
       break
     case 'VIDEO_MEDIA_PROBE':
+    case 'UGOIRA_CONVERSION':
       candidate = { force: false }
       break
+    case 'ARCHIVE_UPDATE_CHECK':
+      candidate = { autoEnqueue: options.scheduleKey === 'archive_update_check_auto_import' }
+      break
     case 'DERIVED_MEDIA_GC':
       candidate =
         options.scheduleKey === 'derived_media_gc_reconciliation'
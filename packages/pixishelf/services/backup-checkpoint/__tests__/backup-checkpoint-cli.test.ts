@@ -0,0 +1,41 @@
+import { spawnSync } from 'node:child_process'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+
+const packageDirectory = process.cwd()
+const tsxCli = path.join(packageDirectory, 'node_modules', 'tsx', 'dist', 'cli.mjs')
+const script = path.join(packageDirectory, 'scripts', 'backup-checkpoint.ts')
+
+function runCli(args: string[]) {
+  return spawnSync(process.execPath, [tsxCli, script, ...args], {
+    cwd: packageDirectory,
+    env: { ...process.env, DATABASE_URL: '', BACKUP_MANIFEST_SIGNING_KEY: '' },
+    encoding: 'utf8'
+  })
+}
+
+describe('backup checkpoint CLI', () => {
+  it('reports usage errors without initializing Prisma', () => {
+    const result = runCli(['create'])
+
+    expect(result.status).toBe(1)
+    expect(result.stdout).toBe('')
+    expect(result.stderr).toContain('create requires --output.')
+    expect(result.stderr).toContain('backup:checkpoint verify <backup-dir>')
+    expect(result.stderr).not.toContain('PrismaClient')
+  })
+
+  it('verifies without a database but requires the signing key', () => {
+    const result = runCli(['verify', packageDirectory])
+
+    expect(result.status).toBe(1)
+    expect(result.stderr).toContain('BACKUP_MANIFEST_SIGNING_KEY must be set')
+  })
+
+  it('checks DATABASE_URL before taking a checkpoint', () => {
+    const result = runCli(['maintenance', 'status'])
+
+    expect(result.status).toBe(1)
+    expect(result.stderr).toContain('DATABASE_URL is required.')
+  })
+})
@@ -0,0 +1,254 @@
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { parseBackupCheckpointArguments } from '../arguments'
+import {
+  BACKUP_WRITE_SETTLE_MS,
+  runBackupCheckpoint,
+  runShellCommand,
+  toPgDumpConnectionUrl,
+  type BackupCheckpointDatabase,
+  type ShellCommandInput
+} from '../backup-checkpoint'
+import { readBackupManifest, verifyBackupManifest } from '../backup-manifest'
+import type { MaintenanceModeState } from '../maintenance-mode'
+
+const KEY = 's'.repeat(40)
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+function fakeDatabase(options: { runningJobs?: number[]; maintenance?: Partial<MaintenanceModeState> } = {}) {
+  const events: string[] = []
+  let maintenance: MaintenanceModeState = {
+    enabled: false,
+    enabledAt: null,
+    enabledBy: null,
+    reason: null,
+    ...options.maintenance
+  }
+  const runningJobs = [...(options.runningJobs ?? [0])]
+  const database = {
+    maintenanceModeControl: {
+      findUnique: vi.fn(async () => maintenance),
+      upsert: vi.fn(async ({ update }: { update: MaintenanceModeState }) => {
+        events.push(update.enabled ? 'maintenance:on' : 'maintenance:off')
+        maintenance = update
+        return maintenance
+      })
+    },
+    systemJob: {
+      count: vi.fn(async () => {
+        events.push('drain')
+        return runningJobs.length > 1 ? runningJobs.shift()! : runningJobs[0]!
+      })
+    },
+    backupCheckpoint: {
+      create: vi.fn(async ({ data }: { data: unknown }) => {
+        events.push('checkpoint')
+        return { id: 7, data }
+      })
+    },
+    $queryRaw: vi.fn(async () => [
+      {
+        name: '20261019130000_add_maintenance_mode',
+        checksum: 'c0ffee',
+        finishedAt: new Date('2026-10-19T13:00:00.000Z'),
+        rolledBackAt: null
+      }
+    ])
+  }
+  return { database: database as unknown as BackupCheckpointDatabase, raw: database, events }
+}
+
+function fakeShell(events: string[], options: { failDump?: boolean } = {}) {
+  return vi.fn(async (command: string, input: ShellCommandInput) => {
+    if (input.stdoutPath) {
+      events.push('dump')
+      if (options.failDump) throw new Error('exited with code 1')
+      await writeFile(input.stdoutPath, `PGDMP ${input.env.PIXISHELF_BACKUP_DATABASE_URL}`)
+      return ''
+    }
+    events.push('hook')
+    await writeFile(path.join(input.env.PIXISHELF_BACKUP_DIR!, 'snapshot.txt'), command)
+    return 'creating snapshot...\ntank/media@pixishelf-20261019T120000Z\n'
+  })
+}
+
+async function outputRoot() {
+  const root = await mkdtemp(path.join(tmpdir(), 'pixishelf-checkpoint-'))
+  roots.push(root)
+  return root
+}
+
+describe('backup checkpoint command', () => {
+  it('quiesces, snapshots, dumps, signs and records a checkpoint before resuming', async () => {
+    const root = await outputRoot()
+    const { database, raw, events } = fakeDatabase({ runningJobs: [1, 0] })
+    const sleep = vi.fn(async () => undefined)
+    const runShell = fakeShell(events)
+
+    const result = await runBackupCheckpoint(
+      database,
+      {
+        outputRoot: root,
+        label: 'before 1.4',
+        reason: 'release',
+        images: { app: 'pixishelf@sha256:aa', worker: 'pixishelf-worker@sha256:bb' },
+        signingKey: KEY,
+        databaseUrl: 'postgresql://pixishelf:secret@db:5432/pixishelf?schema=public&connection_limit=5&sslmode=require',
+        snapshotHook: 'zfs snapshot tank/media'
+      },
+      { now: () => new Date('2026-10-19T12:00:00.000Z'), sleep, runShell }
+    )
+
+    expect(events).toEqual(['maintenance:on', 'drain', 'drain', 'hook', 'dump', 'checkpoint', 'maintenance:off'])
+    expect(sleep).toHaveBeenCalledWith(BACKUP_WRITE_SETTLE_MS)
+    expect(result).toMatchObject({
+      id: 'pixishelf-20261019T120000Z',
+      directory: path.join(root, 'pixishelf-20261019T120000Z'),
+      checkpointId: 7,
+      files: 2,
+      snapshotReference: 'tank/media@pixishelf-20261019T120000Z',
+      maintenanceLeftEnabled: false
+    })
+    expect(raw.backupCheckpoint.create).toHaveBeenCalledWith({
+      data: {
+        label: 'before 1.4',
+        location: result.directory,
+        takenAt: new Date('2026-10-19T12:00:00.000Z'),
+        note: 'release',
+        manifestSha256: result.manifestSha256
+      },
+      select: { id: true }
+    })
+
+    const manifest = await readBackupManifest(result.directory)
+    expect(manifest.files.map((file) => file.path)).toEqual(['pixishelf.dump', 'snapshot.txt'])
+    expect(manifest.migrations).toEqual([
+      {
+        name: '20261019130000_add_maintenance_mode',
+        checksum: 'c0ffee',
+        finishedAt: '2026-10-19T13:00:00.000Z',
+        rolledBackAt: null
+      }
+    ])
+    expect(manifest.images).toEqual({ app: 'pixishelf@sha256:aa', worker: 'pixishelf-worker@sha256:bb' })
+    await expect(verifyBackupManifest(result.directory, KEY)).resolves.toMatchObject({ passed: true })
+  })
+
+  it('resumes and records nothing when the dump fails', async () => {
+    const root = await outputRoot()
+    const { database, raw, events } = fakeDatabase()
+
+    await expect(
+      runBackupCheckpoint(
+        database,
+        { outputRoot: root, signingKey: KEY, databaseUrl: 'postgresql://db/pixishelf' },
+        { sleep: async () => undefined, runShell: fakeShell(events, { failDump: true }) }
+      )
+    ).rejects.toThrow('Database dump failed: exited with code 1.')
+
+    expect(events).toEqual(['maintenance:on', 'drain', 'dump', 'maintenance:off'])
+    expect(raw.backupCheckpoint.create).not.toHaveBeenCalled()
+    const [directory] = await readdir(root)
+    expect(await readdir(path.join(root, directory!))).not.toContain('manifest.json')
+  })
+
+  it('gives up when running jobs do not drain in time', async () => {
+    const root = await outputRoot()
+    const { database, events } = fakeDatabase({ runningJobs: [2] })
+    let clock = Date.parse('2026-10-19T12:00:00.000Z')
+
+    await expect(
+      runBackupCheckpoint(
+        database,
+        { outputRoot: root, signingKey: KEY, databaseUrl: 'postgresql://db/pixishelf', drainTimeoutMs: 5_000 },
+        {
+          now: () => new Date(clock),
+          sleep: async (ms) => {
+            clock += ms
+          },
+          runShell: fakeShell(events)
+        }
+      )
+    ).rejects.toThrow('Timed out waiting for 2 running background job(s)')
+    expect(events.at(-1)).toBe('maintenance:off')
+    expect(events).not.toContain('dump')
+  })
+
+  it('leaves maintenance mode on when an admin had already enabled it', async () => {
+    const root = await outputRoot()
+    const { database, events } = fakeDatabase({ maintenance: { enabled: true, reason: 'NAS migration' } })
+
+    const result = await runBackupCheckpoint(
+      database,
+      { outputRoot: root, signingKey: KEY, databaseUrl: 'postgresql://db/pixishelf' },
+      { sleep: async () => undefined, runShell: fakeShell(events) }
+    )
+
+    expect(result.maintenanceLeftEnabled).toBe(true)
+    expect(events).toEqual(['drain', 'dump', 'checkpoint'])
+  })
+
+  it('runs shell commands with extra environment and streams stdout into a private file', async () => {
+    const root = await outputRoot()
+    const dumpPath = path.join(root, 'pixishelf.dump')
+
+    await expect(
+      runShellCommand('printf "%s" "$BACKUP_TEST_VALUE"', { env: { BACKUP_TEST_VALUE: 'hello' } })
+    ).resolves.toBe('hello')
+    await runShellCommand('printf dump', { env: {}, stdoutPath: dumpPath })
+    expect(await readFile(dumpPath, 'utf8')).toBe('dump')
+    expect((await stat(dumpPath)).mode & 0o777).toBe(0o600)
+    await expect(runShellCommand('exit 3', { env: {} })).rejects.toThrow('exited with code 3')
+  })
+
+  it('strips Prisma-only connection parameters before handing the URL to pg_dump', () => {
+    expect(toPgDumpConnectionUrl('postgresql://u:p@db:5432/app?schema=public&pgbouncer=true&sslmode=require')).toBe(
+      'postgresql://u:p@db:5432/app?sslmode=require'
+    )
+  })
+
+  it('parses create, verify and maintenance commands', () => {
+    expect(
+      parseBackupCheckpointArguments([
+        'create',
+        '--output',
+        '/srv/backups',
+        '--image',
+        'app=pixishelf@sha256:aa',
+        '--image',
+        'worker=pixishelf-worker@sha256:bb',
+        '--drain-timeout',
+        '120'
+      ])
+    ).toEqual({
+      command: 'create',
+      outputRoot: '/srv/backups',
+      label: undefined,
+      reason: undefined,
+      images: { app: 'pixishelf@sha256:aa', worker: 'pixishelf-worker@sha256:bb' },
+      drainTimeoutMs: 120_000
+    })
+    expect(parseBackupCheckpointArguments(['verify', '/srv/backups/pixishelf-1'])).toEqual({
+      command: 'verify',
+      directory: '/srv/backups/pixishelf-1'
+    })
+    expect(parseBackupCheckpointArguments(['maintenance', 'on', '--reason', 'snapshot'])).toEqual({
+      command: 'maintenance',
+      action: 'on',
+      reason: 'snapshot'
+    })
+    expect(() => parseBackupCheckpointArguments(['create'])).toThrow('create requires --output.')
+    expect(() => parseBackupCheckpointArguments(['create', '--output', '/x', '--image', 'app'])).toThrow(
+      '--image must look like <name>=<ref>.'
+    )
+    expect(() => parseBackupCheckpointArguments(['maintenance', 'off', '--reason', 'x'])).toThrow(
+      'Unknown option --reason.'
+    )
+  })
+})
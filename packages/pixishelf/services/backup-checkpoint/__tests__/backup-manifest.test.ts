@@ -0,0 +1,134 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  BACKUP_MANIFEST_FILE,
+  BACKUP_MANIFEST_FORMAT,
+  BackupCheckpointError,
+  canonicalJson,
+  hashBackupFile,
+  listBackupFiles,
+  signBackupManifest,
+  verifyBackupManifest,
+  type BackupManifestBody
+} from '../backup-manifest'
+
+const KEY = 'k'.repeat(32)
+const roots: string[] = []
+
+afterEach(async () => {
+  await Promise.all(roots.splice(0).map((root) => rm(root, { recursive: true, force: true })))
+})
+
+async function writeBackup(files: Record<string, string>, key = KEY) {
+  const directory = await mkdtemp(path.join(tmpdir(), 'pixishelf-backup-'))
+  roots.push(directory)
+  for (const [name, content] of Object.entries(files)) {
+    await mkdir(path.dirname(path.join(directory, name)), { recursive: true })
+    await writeFile(path.join(directory, name), content)
+  }
+  const entries = []
+  for (const file of await listBackupFiles(directory)) {
+    entries.push({ path: file, ...(await hashBackupFile(path.join(directory, file))) })
+  }
+  const body: BackupManifestBody = {
+    format: BACKUP_MANIFEST_FORMAT,
+    version: 1,
+    id: 'pixishelf-20261019T120000Z',
+    label: 'before upgrade',
+    reason: null,
+    createdAt: '2026-10-19T12:00:00.000Z',
+    quiescedAt: '2026-10-19T12:00:07.000Z',
+    database: { file: 'pixishelf.dump', format: 'custom' },
+    files: entries,
+    migrations: [
+      { name: '20261019130000_add_maintenance_mode', checksum: 'abc', finishedAt: null, rolledBackAt: null }
+    ],
+    images: { app: 'docker.io/dockernamehu/pixishelf@sha256:1234' },
+    snapshot: { reference: 'tank/media@pixishelf-20261019T120000Z' }
+  }
+  await writeFile(path.join(directory, BACKUP_MANIFEST_FILE), JSON.stringify(signBackupManifest(body, key), null, 2))
+  return directory
+}
+
+describe('backup manifest', () => {
+  it('signs a canonical form so key order does not matter', () => {
+    expect(canonicalJson({ b: 1, a: [{ d: null, c: 'x' }], skipped: undefined })).toBe(
+      '{"a":[{"c":"x","d":null}],"b":1}'
+    )
+  })
+
+  it('verifies a freshly written backup directory, including nested hook output', async () => {
+    const directory = await writeBackup({ 'pixishelf.dump': 'PGDMP', 'snapshots/media.txt': 'tank/media@1' })
+
+    const report = await verifyBackupManifest(directory, KEY)
+
+    expect(report).toEqual({
+      manifestId: 'pixishelf-20261019T120000Z',
+      passed: true,
+      signatureValid: true,
+      keyMatches: true,
+      files: [
+        { path: 'pixishelf.dump', status: 'OK' },
+        { path: 'snapshots/media.txt', status: 'OK' }
+      ],
+      unexpectedFiles: []
+    })
+  })
+
+  it('reports tampered, truncated and missing files and lists files the manifest does not know', async () => {
+    const directory = await writeBackup({ 'pixishelf.dump': 'PGDMP', 'a.txt': 'aaaa', 'b.txt': 'bbbb' })
+    await writeFile(path.join(directory, 'pixishelf.dump'), 'PGDMQ')
+    await writeFile(path.join(directory, 'a.txt'), 'aa')
+    await rm(path.join(directory, 'b.txt'))
+    await writeFile(path.join(directory, 'stray.log'), 'later')
+
+    const report = await verifyBackupManifest(directory, KEY)
+
+    expect(report.passed).toBe(false)
+    expect(report.signatureValid).toBe(true)
+    expect(report.files).toEqual([
+      { path: 'a.txt', status: 'SIZE_MISMATCH' },
+      { path: 'b.txt', status: 'MISSING' },
+      { path: 'pixishelf.dump', status: 'HASH_MISMATCH' }
+    ])
+    expect(report.unexpectedFiles).toEqual(['stray.log'])
+  })
+
+  it('rejects an edited manifest and tells a different key apart from tampering', async () => {
+    const directory = await writeBackup({ 'pixishelf.dump': 'PGDMP' })
+    const manifestPath = path.join(directory, BACKUP_MANIFEST_FILE)
+    const manifest = JSON.parse(await readFile(manifestPath, 'utf8'))
+
+    await expect(verifyBackupManifest(directory, 'o'.repeat(32))).resolves.toMatchObject({
+      passed: false,
+      signatureValid: false,
+      keyMatches: false
+    })
+
+    manifest.migrations = []
+    await writeFile(manifestPath, JSON.stringify(manifest))
+    await expect(verifyBackupManifest(directory, KEY)).resolves.toMatchObject({
+      passed: false,
+      signatureValid: false,
+      keyMatches: true
+    })
+  })
+
+  it('refuses paths that escape the backup directory and short signing keys', async () => {
+    const directory = await writeBackup({ 'pixishelf.dump': 'PGDMP' })
+    const manifestPath = path.join(directory, BACKUP_MANIFEST_FILE)
+    const manifest = JSON.parse(await readFile(manifestPath, 'utf8'))
+    const body = { ...manifest }
+    delete body.signature
+    body.files.push({ path: '../outside.txt', size: 1, sha256: 'a'.repeat(64) })
+    await writeFile(manifestPath, JSON.stringify(signBackupManifest(body, KEY)))
+
+    const report = await verifyBackupManifest(directory, KEY)
+
+    expect(report.files).toContainEqual({ path: '../outside.txt', status: 'INVALID_PATH' })
+    expect(report.passed).toBe(false)
+    await expect(verifyBackupManifest(directory, 'short')).rejects.toBeInstanceOf(BackupCheckpointError)
+  })
+})
@@ -0,0 +1,80 @@
+export const BACKUP_CHECKPOINT_USAGE = [
+  'Usage:',
+  '  backup:checkpoint create --output <dir> [--label <text>] [--reason <text>] [--image <name>=<ref>]... [--drain-timeout <seconds>]',
+  '  backup:checkpoint verify <backup-dir>',
+  '  backup:checkpoint maintenance <on|off|status> [--reason <text>]'
+].join('\n')
+
+export type BackupCheckpointCommand =
+  | {
+      command: 'create'
+      outputRoot: string
+      label?: string
+      reason?: string
+      images: Record<string, string>
+      drainTimeoutMs?: number
+    }
+  | { command: 'verify'; directory: string }
+  | { command: 'maintenance'; action: 'on' | 'off' | 'status'; reason?: string }
+
+function usageError(message: string): Error {
+  return new Error(`${message}\n${BACKUP_CHECKPOINT_USAGE}`)
+}
+
+function readOptions(args: readonly string[], allowed: readonly string[]) {
+  const options = new Map<string, string[]>()
+  for (let index = 0; index < args.length; index += 2) {
+    const name = args[index] ?? ''
+    const value = args[index + 1]
+    if (!allowed.includes(name)) throw usageError(`Unknown option ${name}.`)
+    if (value === undefined || value.startsWith('--')) throw usageError(`Option ${name} requires a value.`)
+    options.set(name, [...(options.get(name) ?? []), value])
+  }
+  return options
+}
+
+export function parseBackupCheckpointArguments(args: readonly string[]): BackupCheckpointCommand {
+  const [command, ...rest] = args
+  if (command === 'create') {
+    const options = readOptions(rest, ['--output', '--label', '--reason', '--image', '--drain-timeout'])
+    const outputRoot = options.get('--output')?.at(-1)
+    if (!outputRoot) throw usageError('create requires --output.')
+
+    const images: Record<string, string> = {}
+    for (const image of options.get('--image') ?? []) {
+      const separator = image.indexOf('=')
+      if (separator <= 0 || separator === image.length - 1) throw usageError('--image must look like <name>=<ref>.')
+      images[image.slice(0, separator)] = image.slice(separator + 1)
+    }
+
+    const drainTimeout = options.get('--drain-timeout')?.at(-1)
+    if (drainTimeout !== undefined && !/^[1-9]\d{0,4}$/.test(drainTimeout)) {
+      throw usageError('--drain-timeout must be a whole number of seconds between 1 and 99999.')
+    }
+
+    return {
+      command,
+      outputRoot,
+      label: options.get('--label')?.at(-1),
+      reason: options.get('--reason')?.at(-1),
+      images,
+      drainTimeoutMs: drainTimeout === undefined ? undefined : Number(drainTimeout) * 1000
+    }
+  }
+
+  if (command === 'verify') {
+    if (rest.length !== 1 || rest[0]?.startsWith('--')) throw usageError('verify takes exactly one backup directory.')
+    return { command, directory: rest[0]! }
+  }
+
+  if (command === 'maintenance') {
+    const [action, ...optionArgs] = rest
+    if (action !== 'on' && action !== 'off' && action !== 'status') {
+      throw usageError('maintenance takes on, off or status.')
+    }
+    const options = readOptions(optionArgs, action === 'on' ? ['--reason'] : [])
+    return { command, action, reason: options.get('--reason')?.at(-1) }
+  }
+
+  throw usageError(command ? `Unknown command ${command}.` : 'Missing command.')
+}
@@ -0,0 +1,269 @@
+import { spawn } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { mkdir, open, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { PrismaClient } from '@prisma/client'
+import {
+  assertBackupSigningKey,
+  BACKUP_DATABASE_DUMP_FILE,
+  BACKUP_MANIFEST_FILE,
+  BACKUP_MANIFEST_FORMAT,
+  BACKUP_MANIFEST_VERSION,
+  BackupCheckpointError,
+  hashBackupFile,
+  listBackupFiles,
+  signBackupManifest,
+  type BackupManifestBody
+} from './backup-manifest'
+import { readMaintenanceMode, writeMaintenanceMode, type MaintenanceModeDatabase } from './maintenance-mode'
+
+export const BACKUP_CHECKPOINT_ACTOR = 'backup-checkpoint'
+export const DEFAULT_BACKUP_DUMP_COMMAND = 'pg_dump --format=custom --dbname="$PIXISHELF_BACKUP_DATABASE_URL"'
+export const DEFAULT_BACKUP_DRAIN_TIMEOUT_MS = 10 * 60 * 1000
+/** 开启维护模式后留给开关生效前已进入的 HTTP 写请求收尾的时间；新的写请求由 assertWritable 拒绝 */
+export const BACKUP_WRITE_SETTLE_MS = 5_000
+const DRAIN_POLL_INTERVAL_MS = 2_000
+const SNAPSHOT_REFERENCE_MAX_LENGTH = 500
+
+// 只有 Prisma 认识的连接参数，原样交给 pg_dump 会被 libpq 拒绝
+const PRISMA_ONLY_URL_PARAMETERS = [
+  'schema',
+  'connection_limit',
+  'pool_timeout',
+  'pgbouncer',
+  'statement_cache_size',
+  'socket_timeout',
+  'sslaccept',
+  'sslidentity',
+  'sslpassword'
+]
+
+export type BackupCheckpointDatabase = MaintenanceModeDatabase &
+  Pick<PrismaClient, 'systemJob' | 'backupCheckpoint' | '$queryRaw'>
+
+export interface BackupCheckpointOptions {
+  /** 备份根目录，本次检查点会在其下新建独立子目录 */
+  outputRoot: string
+  label?: string
+  reason?: string
+  /** 容器镜像引用，例如 { app: 'docker.io/...@sha256:...' } */
+  images?: Record<string, string>
+  signingKey: string
+  databaseUrl: string
+  snapshotHook?: string | null
+  dumpCommand?: string
+  drainTimeoutMs?: number
+}
+
+export interface ShellCommandInput {
+  env: Record<string, string>
+  /** 标准输出直接写入该文件（以 0600 新建），否则收集最后一段输出返回 */
+  stdoutPath?: string
+}
+
+export interface BackupCheckpointDependencies {
+  now?: () => Date
+  sleep?: (ms: number) => Promise<void>
+  runShell?: (command: string, input: ShellCommandInput) => Promise<string>
+  log?: (message: string) => void
+}
+
+export interface BackupCheckpointResult {
+  id: string
+  directory: string
+  manifestSha256: string
+  checkpointId: number
+  files: number
+  snapshotReference: string | null
+  /** 开始前维护模式已由管理员开启时，命令结束后保持开启 */
+  maintenanceLeftEnabled: boolean
+}
+
+export function toPgDumpConnectionUrl(databaseUrl: string): string {
+  const url = new URL(databaseUrl)
+  for (const parameter of PRISMA_ONLY_URL_PARAMETERS) url.searchParams.delete(parameter)
+  return url.toString()
+}
+
+export function formatBackupCheckpointId(date: Date): string {
+  return `pixishelf-${date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}Z$/, 'Z')}`
+}
+
+/**
+ * 通过 /bin/sh 运行快照钩子或 dump 命令
+ * @description 出错信息只说明退出码，不回显命令本身，避免把连接串或密钥写进日志
+ */
+export async function runShellCommand(command: string, input: ShellCommandInput): Promise<string> {
+  const output = input.stdoutPath ? await open(input.stdoutPath, 'wx', 0o600) : null
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      const child = spawn('/bin/sh', ['-c', command], {
+        env: { ...process.env, ...input.env },
+        stdio: ['ignore', output ? output.fd : 'pipe', 'inherit']
+      })
+      let stdout = ''
+      child.stdout?.setEncoding('utf8').on('data', (chunk: string) => {
+        stdout = (stdout + chunk).slice(-4096)
+      })
+      child.once('error', reject)
+      child.once('close', (code, signal) => {
+        if (code === 0) resolve(stdout)
+        else reject(new Error(signal ? `terminated by ${signal}` : `exited with code ${code}`))
+      })
+    })
+  } finally {
+    await output?.close()
+  }
+}
+
+async function waitForIdleLanes(
+  database: BackupCheckpointDatabase,
+  timeoutMs: number,
+  now: () => Date,
+  sleep: (ms: number) => Promise<void>,
+  log: (message: string) => void
+) {
+  const deadline = now().getTime() + timeoutMs
+  for (;;) {
+    const running = await database.systemJob.count({
+      where: { status: { in: ['RUNNING', 'PAUSING', 'CANCELLING'] } }
+    })
+    if (running === 0) return
+    if (now().getTime() >= deadline) {
+      throw new BackupCheckpointError(
+        `Timed out waiting for ${running} running background job(s) to finish; no backup was taken.`
+      )
+    }
+    log(`Waiting for ${running} running background job(s) to finish...`)
+    await sleep(DRAIN_POLL_INTERVAL_MS)
+  }
+}
+
+async function readMigrations(database: BackupCheckpointDatabase): Promise<BackupManifestBody['migrations']> {
+  const rows = await database.$queryRaw<
+    Array<{ name: string; checksum: string; finishedAt: Date | null; rolledBackAt: Date | null }>
+  >`
+    SELECT migration_name AS "name", checksum, finished_at AS "finishedAt", rolled_back_at AS "rolledBackAt"
+    FROM "_prisma_migrations"
+    ORDER BY started_at ASC, migration_name ASC
+  `
+  return rows.map((row) => ({
+    name: row.name,
+    checksum: row.checksum,
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+    rolledBackAt: row.rolledBackAt?.toISOString() ?? null
+  }))
+}
+
+/**
+ * 建立一致性备份检查点
+ * @description 开启维护模式 → 等待两个执行通道的在跑任务收尾 → 运行快照钩子 → pg_dump custom 格式 →
+ * 写入签名清单并登记 BackupCheckpoint → 恢复维护模式原状态。任一步失败都会恢复维护模式，且不登记检查点。
+ */
+export async function runBackupCheckpoint(
+  database: BackupCheckpointDatabase,
+  options: BackupCheckpointOptions,
+  dependencies: BackupCheckpointDependencies = {}
+): Promise<BackupCheckpointResult> {
+  const now = dependencies.now ?? (() => new Date())
+  const sleep = dependencies.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+  const runShell = dependencies.runShell ?? runShellCommand
+  const log = dependencies.log ?? (() => undefined)
+
+  assertBackupSigningKey(options.signingKey)
+  if (!path.isAbsolute(options.outputRoot)) {
+    throw new BackupCheckpointError('The backup output directory must be an absolute path.')
+  }
+
+  const startedAt = now()
+  const id = formatBackupCheckpointId(startedAt)
+  const directory = path.join(options.outputRoot, id)
+  await mkdir(options.outputRoot, { recursive: true, mode: 0o700 })
+  await mkdir(directory, { mode: 0o700 })
+
+  const previous = await readMaintenanceMode(database)
+  if (!previous.enabled) {
+    await writeMaintenanceMode(
+      database,
+      { enabled: true, enabledBy: BACKUP_CHECKPOINT_ACTOR, reason: `backup ${id}` },
+      startedAt
+    )
+    log('Maintenance mode enabled; both execution lanes stopped claiming new jobs.')
+  }
+
+  try {
+    await sleep(BACKUP_WRITE_SETTLE_MS)
+    await waitForIdleLanes(database, options.drainTimeoutMs ?? DEFAULT_BACKUP_DRAIN_TIMEOUT_MS, now, sleep, log)
+    const quiescedAt = now()
+
+    let snapshotReference: string | null = null
+    if (options.snapshotHook) {
+      log('Running snapshot hook...')
+      const stdout = await runShell(options.snapshotHook, {
+        env: { PIXISHELF_BACKUP_ID: id, PIXISHELF_BACKUP_DIR: directory }
+      }).catch((error: Error) => {
+        throw new BackupCheckpointError(`Snapshot hook failed: ${error.message}.`)
+      })
+      const lines = stdout.split('\n').map((line) => line.trim())
+      snapshotReference = lines.filter(Boolean).at(-1)?.slice(0, SNAPSHOT_REFERENCE_MAX_LENGTH) ?? null
+    }
+
+    log('Dumping database...')
+    await runShell(options.dumpCommand ?? DEFAULT_BACKUP_DUMP_COMMAND, {
+      env: { PIXISHELF_BACKUP_DATABASE_URL: toPgDumpConnectionUrl(options.databaseUrl) },
+      stdoutPath: path.join(directory, BACKUP_DATABASE_DUMP_FILE)
+    }).catch((error: Error) => {
+      throw new BackupCheckpointError(`Database dump failed: ${error.message}.`)
+    })
+
+    const files = []
+    for (const file of await listBackupFiles(directory)) {
+      files.push({ path: file, ...(await hashBackupFile(path.join(directory, file))) })
+    }
+    const label = options.label?.trim() || id
+    const reason = options.reason?.trim() || null
+    const manifest = signBackupManifest(
+      {
+        format: BACKUP_MANIFEST_FORMAT,
+        version: BACKUP_MANIFEST_VERSION,
+        id,
+        label,
+        reason,
+        createdAt: startedAt.toISOString(),
+        quiescedAt: quiescedAt.toISOString(),
+        database: { file: BACKUP_DATABASE_DUMP_FILE, format: 'custom' },
+        files,
+        migrations: await readMigrations(database),
+        images: options.images ?? {},
+        snapshot: options.snapshotHook ? { reference: snapshotReference } : null
+      },
+      options.signingKey
+    )
+    const manifestContent = `${JSON.stringify(manifest, null, 2)}\n`
+    await writeFile(path.join(directory, BACKUP_MANIFEST_FILE), manifestContent, { flag: 'wx', mode: 0o600 })
+    const manifestSha256 = createHash('sha256').update(manifestContent).digest('hex')
+
+    const checkpoint = await database.backupCheckpoint.create({
+      data: { label, location: directory, takenAt: quiescedAt, note: reason, manifestSha256 },
+      select: { id: true }
+    })
+
+    return {
+      id,
+      directory,
+      manifestSha256,
+      checkpointId: checkpoint.id,
+      files: files.length,
+      snapshotReference,
+      maintenanceLeftEnabled: previous.enabled
+    }
+  } finally {
+    if (!previous.enabled) {
+      await writeMaintenanceMode(database, { enabled: false, enabledBy: null })
+      log('Maintenance mode disabled; execution lanes resumed.')
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import { createReadStream } from 'node:fs'
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { z } from 'zod'
+
+export const BACKUP_MANIFEST_FORMAT = 'pixishelf-backup-manifest'
+export const BACKUP_MANIFEST_VERSION = 1
+export const BACKUP_MANIFEST_FILE = 'manifest.json'
+export const BACKUP_DATABASE_DUMP_FILE = 'pixishelf.dump'
+export const MIN_BACKUP_SIGNING_KEY_LENGTH = 32
+
+export class BackupCheckpointError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupCheckpointError'
+  }
+}
+
+const sha256Schema = z.string().regex(/^[0-9a-f]{64}$/)
+
+const backupManifestFileSchema = z.object({
+  path: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  sha256: sha256Schema
+})
+
+const backupManifestSchema = z.object({
+  format: z.literal(BACKUP_MANIFEST_FORMAT),
+  version: z.literal(BACKUP_MANIFEST_VERSION),
+  id: z.string().min(1),
+  label: z.string(),
+  reason: z.string().nullable(),
+  createdAt: z.string(),
+  quiescedAt: z.string(),
+  database: z.object({ file: z.string().min(1), format: z.literal('custom') }),
+  files: z.array(backupManifestFileSchema),
+  migrations: z.array(
+    z.object({
+      name: z.string(),
+      checksum: z.string(),
+      finishedAt: z.string().nullable(),
+      rolledBackAt: z.string().nullable()
+    })
+  ),
+  images: z.record(z.string(), z.string()),
+  snapshot: z.object({ reference: z.string().nullable() }).nullable(),
+  signature: z.object({
+    algorithm: z.literal('HMAC-SHA256'),
+    keyFingerprint: z.string(),
+    value: sha256Schema
+  })
+})
+
+export type BackupManifest = z.infer<typeof backupManifestSchema>
+export type BackupManifestBody = Omit<BackupManifest, 'signature'>
+export type BackupManifestFile = z.infer<typeof backupManifestFileSchema>
+
+export type BackupFileStatus = 'OK' | 'MISSING' | 'SIZE_MISMATCH' | 'HASH_MISMATCH' | 'INVALID_PATH'
+
+export interface BackupVerifyReport {
+  manifestId: string
+  passed: boolean
+  signatureValid: boolean
+  /** 签名密钥指纹与当前密钥不一致时，签名校验必然失败，单独列出便于区分“换了密钥”和“清单被改动” */
+  keyMatches: boolean
+  files: Array<{ path: string; status: BackupFileStatus }>
+  unexpectedFiles: string[]
+}
+
+export function assertBackupSigningKey(key: string | undefined): asserts key is string {
+  if (!key || key.length < MIN_BACKUP_SIGNING_KEY_LENGTH) {
+    throw new BackupCheckpointError(
+      `BACKUP_MANIFEST_SIGNING_KEY must be set to at least ${MIN_BACKUP_SIGNING_KEY_LENGTH} characters.`
+    )
+  }
+}
+
+/**
+ * 键按字典序输出的 JSON，保证签名与字段书写顺序无关
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([left], [right]) => (left < right ? -1 : left > right ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export function backupSigningKeyFingerprint(key: string): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16)
+}
+
+function computeSignature(body: BackupManifestBody, key: string): string {
+  return createHmac('sha256', key).update(canonicalJson(body)).digest('hex')
+}
+
+export function signBackupManifest(body: BackupManifestBody, key: string): BackupManifest {
+  assertBackupSigningKey(key)
+  return {
+    ...body,
+    signature: {
+      algorithm: 'HMAC-SHA256',
+      keyFingerprint: backupSigningKeyFingerprint(key),
+      value: computeSignature(body, key)
+    }
+  }
+}
+
+export async function hashBackupFile(filePath: string): Promise<{ size: number; sha256: string }> {
+  const hash = createHash('sha256')
+  let size = 0
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer)
+    size += (chunk as Buffer).length
+  }
+  return { size, sha256: hash.digest('hex') }
+}
+
+/**
+ * 列出备份目录内除清单外的全部普通文件，返回排序后的 POSIX 相对路径
+ */
+export async function listBackupFiles(directory: string): Promise<string[]> {
+  const files: string[] = []
+  const walk = async (relative: string) => {
+    const entries = await readdir(path.join(directory, relative), { withFileTypes: true })
+    for (const entry of entries) {
+      const entryPath = relative ? `${relative}/${entry.name}` : entry.name
+      if (entry.isDirectory()) await walk(entryPath)
+      else if (entry.isFile() && entryPath !== BACKUP_MANIFEST_FILE) files.push(entryPath)
+    }
+  }
+  await walk('')
+  return files.sort()
+}
+
+function resolveInsideDirectory(directory: string, relative: string): string | null {
+  if (path.isAbsolute(relative) || relative.split(/[\\/]/).includes('..')) return null
+  const resolved = path.resolve(directory, relative)
+  return resolved.startsWith(path.resolve(directory) + path.sep) ? resolved : null
+}
+
+async function checkManifestFile(directory: string, file: BackupManifestFile): Promise<BackupFileStatus> {
+  const filePath = resolveInsideDirectory(directory, file.path)
+  if (!filePath) return 'INVALID_PATH'
+  try {
+    const info = await stat(filePath)
+    if (!info.isFile()) return 'MISSING'
+    if (info.size !== file.size) return 'SIZE_MISMATCH'
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 'MISSING'
+    throw error
+  }
+  const { sha256 } = await hashBackupFile(filePath)
+  return sha256 === file.sha256 ? 'OK' : 'HASH_MISMATCH'
+}
+
+export async function readBackupManifest(directory: string): Promise<BackupManifest> {
+  let raw: string
+  try {
+    raw = await readFile(path.join(directory, BACKUP_MANIFEST_FILE), 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new BackupCheckpointError(`No ${BACKUP_MANIFEST_FILE} found in the backup directory.`)
+    }
+    throw error
+  }
+  const parsed = backupManifestSchema.safeParse(JSON.parse(raw))
+  if (!parsed.success) throw new BackupCheckpointError('The backup manifest is malformed or uses an unknown format.')
+  return parsed.data
+}
+
+/**
+ * 按清单核对备份目录：签名、逐个文件的大小与 SHA-256，以及清单之外多出的文件
+ */
+export async function verifyBackupManifest(directory: string, key: string): Promise<BackupVerifyReport> {
+  assertBackupSigningKey(key)
+  const manifest = await readBackupManifest(directory)
+  const { signature, ...body } = manifest
+  const expected = Buffer.from(computeSignature(body, key), 'hex')
+  const actual = Buffer.from(signature.value, 'hex')
+  const signatureValid = expected.length === actual.length && timingSafeEqual(expected, actual)
+
+  const files: BackupVerifyReport['files'] = []
+  for (const file of manifest.files) {
+    files.push({ path: file.path, status: await checkManifestFile(directory, file) })
+  }
+  const listed = new Set(manifest.files.map((file) => file.path))
+  const unexpectedFiles = (await listBackupFiles(directory)).filter((file) => !listed.has(file))
+  const databaseListed = listed.has(manifest.database.file)
+
+  return {
+    manifestId: manifest.id,
+    passed: signatureValid && databaseListed && files.every((file) => file.status === 'OK'),
+    signatureValid,
+    keyMatches: signature.keyFingerprint === backupSigningKeyFingerprint(key),
+    files,
+    unexpectedFiles
+  }
+}
+
+export function getBackupVerifyExitCode(report: Pick<BackupVerifyReport, 'passed'>): 0 | 2 {
+  return report.passed ? 0 : 2
+}
@@ -0,0 +1,46 @@
+export { BACKUP_CHECKPOINT_USAGE, parseBackupCheckpointArguments } from './arguments'
+export type { BackupCheckpointCommand } from './arguments'
+
+export {
+  BACKUP_CHECKPOINT_ACTOR,
+  BACKUP_WRITE_SETTLE_MS,
+  DEFAULT_BACKUP_DRAIN_TIMEOUT_MS,
+  DEFAULT_BACKUP_DUMP_COMMAND,
+  formatBackupCheckpointId,
+  runBackupCheckpoint,
+  runShellCommand,
+  toPgDumpConnectionUrl
+} from './backup-checkpoint'
+export type {
+  BackupCheckpointDatabase,
+  BackupCheckpointDependencies,
+  BackupCheckpointOptions,
+  BackupCheckpointResult,
+  ShellCommandInput
+} from './backup-checkpoint'
+
+export {
+  BACKUP_DATABASE_DUMP_FILE,
+  BACKUP_MANIFEST_FILE,
+  BACKUP_MANIFEST_FORMAT,
+  BACKUP_MANIFEST_VERSION,
+  BackupCheckpointError,
+  assertBackupSigningKey,
+  backupSigningKeyFingerprint,
+  canonicalJson,
+  getBackupVerifyExitCode,
+  hashBackupFile,
+  listBackupFiles,
+  readBackupManifest,
+  signBackupManifest,
+  verifyBackupManifest
+} from './backup-manifest'
+export type { BackupFileStatus, BackupManifest, BackupManifestBody, BackupVerifyReport } from './backup-manifest'
+
+export {
+  MAINTENANCE_MODE_ID,
+  MaintenanceModeActiveError,
+  readMaintenanceMode,
+  writeMaintenanceMode
+} from './maintenance-mode'
+export type { MaintenanceModeDatabase, MaintenanceModeState } from './maintenance-mode'
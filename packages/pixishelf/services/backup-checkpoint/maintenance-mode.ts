@@ -0,0 +1,59 @@
+import type { PrismaClient } from '@prisma/client'
+
+/** 维护模式单例行的固定主键，与 migration 中的 CHECK 约束一致 */
+export const MAINTENANCE_MODE_ID = 'maintenance'
+
+export type MaintenanceModeDatabase = Pick<PrismaClient, 'maintenanceModeControl'>
+
+export interface MaintenanceModeState {
+  enabled: boolean
+  enabledAt: Date | null
+  enabledBy: string | null
+  reason: string | null
+}
+
+const DISABLED_STATE: MaintenanceModeState = { enabled: false, enabledAt: null, enabledBy: null, reason: null }
+
+const stateSelect = { enabled: true, enabledAt: true, enabledBy: true, reason: true } as const
+
+/**
+ * 维护模式期间拒绝写入
+ * @description tRPC mutation 与 Server Action 在进入业务逻辑前抛出，由各自的边界转换为统一的提示
+ */
+export class MaintenanceModeActiveError extends Error {
+  constructor(public readonly state: MaintenanceModeState) {
+    super(state.reason ? `系统维护中（${state.reason}），暂时不能修改数据` : '系统维护中，暂时不能修改数据')
+    this.name = 'MaintenanceModeActiveError'
+  }
+}
+
+export async function readMaintenanceMode(database: MaintenanceModeDatabase): Promise<MaintenanceModeState> {
+  const control = await database.maintenanceModeControl.findUnique({
+    where: { id: MAINTENANCE_MODE_ID },
+    select: stateSelect
+  })
+  return control ?? DISABLED_STATE
+}
+
+/**
+ * 切换维护模式
+ * @description Worker 在 claim 时读取同一行，开启后两个执行通道都不再领取新任务；已在运行的任务会正常收尾
+ */
+export async function writeMaintenanceMode(
+  database: MaintenanceModeDatabase,
+  input: { enabled: boolean; enabledBy: string | null; reason?: string | null },
+  now = new Date()
+): Promise<MaintenanceModeState> {
+  const data = {
+    enabled: input.enabled,
+    enabledAt: input.enabled ? now : null,
+    enabledBy: input.enabled ? input.enabledBy : null,
+    reason: input.enabled ? (input.reason ?? null) : null
+  }
+  return database.maintenanceModeControl.upsert({
+    where: { id: MAINTENANCE_MODE_ID },
+    create: { id: MAINTENANCE_MODE_ID, ...data },
+    update: data,
+    select: stateSelect
+  })
+}
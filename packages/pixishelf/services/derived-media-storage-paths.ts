@@ -11,6 +11,10 @@ export const DERIVED_MEDIA_STORAGE_ROOT = getDerivedMediaStorageRoot()
 export const VIDEO_POSTER_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'video', 'posters')
 export const VIDEO_CHAPTER_PREVIEW_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'video', 'chapters')
 export const VIDEO_KEYFRAME_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'video', 'keyframes')
+export const VIDEO_HLS_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'video', 'hls')
+export const VIDEO_SUBTITLE_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'video', 'subtitles')
+export const UGOIRA_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'ugoira')
+export const ARTWORK_EXPORT_STORAGE_ROOT = path.join(DERIVED_MEDIA_STORAGE_ROOT, 'exports')
 
 export function resolveDerivedMediaStoragePath(typeRoot: string, relativePath: string): string {
   const normalized = normalizeDerivedMediaRelativePath(relativePath)
@@ -0,0 +1,210 @@
+import 'server-only'
+
+import { prisma } from '@/lib/prisma'
+import type {
+  DuplicateCluster,
+  DuplicateClustersQuerySchema,
+  DuplicateDismissSchema,
+  DuplicateLinkSchema,
+  DuplicatePair,
+  PerceptualHashCoverage
+} from '@/schemas/duplicate.dto'
+import { getArtworkCardsByIds } from '@/services/artwork-service'
+
+// 与 IMAGE_PERCEPTUAL_HASH 任务的候选扩展名保持一致
+const HASHABLE_PATH_PATTERN = String.raw`\.(jpe?g|a?png|webp|gif|avif|tiff?)$`
+
+interface DuplicatePairRow {
+  artwork_id: number
+  other_artwork_id: number
+  distance: number
+  matched_images: number
+}
+
+/**
+ * 查询近似重复的作品对
+ * @description 指纹拆成 4 段 16 位分桶，只在共享分桶的图片之间计算汉明距离，避免全表两两比较；
+ * 已确认“不是重复”的作品对、已用 DUPLICATE_OF 关联（直接或指向同一保留作品）的作品对都会排除。
+ */
+export async function listDuplicatePairs(query: DuplicateClustersQuerySchema): Promise<DuplicatePair[]> {
+  const rows = await prisma.$queryRawUnsafe<DuplicatePairRow[]>(
+    `
+    WITH hashed AS (
+      SELECT i.id, i."artworkId", i."perceptualHash" AS hash
+      FROM "Image" i
+      JOIN "Artwork" a ON a.id = i."artworkId"
+      WHERE i."perceptualHash" IS NOT NULL
+        AND a."deletedAt" IS NULL
+    ),
+    banded AS (
+      SELECT h.id, h."artworkId", h.hash, b.band, (h.hash >> (b.band * 16)) & 65535 AS bucket
+      FROM hashed h
+      CROSS JOIN generate_series(0, 3) AS b(band)
+    ),
+    image_pairs AS (
+      SELECT DISTINCT
+        l.id AS left_image_id,
+        r.id AS right_image_id,
+        l."artworkId" AS artwork_id,
+        r."artworkId" AS other_artwork_id,
+        bit_count((l.hash # r.hash)::bit(64)) AS distance
+      FROM banded l
+      JOIN banded r ON r.band = l.band AND r.bucket = l.bucket AND r."artworkId" > l."artworkId"
+    ),
+    links AS (
+      SELECT "fromArtworkId", "toArtworkId"
+      FROM artwork_relations
+      WHERE type = 'DUPLICATE_OF'
+    )
+    SELECT
+      p.artwork_id,
+      p.other_artwork_id,
+      MIN(p.distance)::int AS distance,
+      COUNT(DISTINCT p.left_image_id)::int AS matched_images
+    FROM image_pairs p
+    WHERE p.distance <= $1
+      AND NOT EXISTS (
+        SELECT 1 FROM artwork_duplicate_dismissals d
+        WHERE d."artworkId" = p.artwork_id AND d."otherArtworkId" = p.other_artwork_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM links l
+        WHERE (l."fromArtworkId" = p.artwork_id AND l."toArtworkId" = p.other_artwork_id)
+           OR (l."fromArtworkId" = p.other_artwork_id AND l."toArtworkId" = p.artwork_id)
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM links l1
+        JOIN links l2 ON l2."toArtworkId" = l1."toArtworkId"
+        WHERE l1."fromArtworkId" = p.artwork_id AND l2."fromArtworkId" = p.other_artwork_id
+      )
+    GROUP BY p.artwork_id, p.other_artwork_id
+    ORDER BY distance ASC, p.artwork_id ASC, p.other_artwork_id ASC
+    LIMIT $2
+    `,
+    query.maxDistance,
+    query.limit * 10
+  )
+
+  return rows.map((row) => ({
+    artworkId: Number(row.artwork_id),
+    otherArtworkId: Number(row.other_artwork_id),
+    distance: Number(row.distance),
+    matchedImages: Number(row.matched_images)
+  }))
+}
+
+/**
+ * 把作品对按连通分量合并为重复分组
+ */
+export function groupDuplicatePairs(pairs: DuplicatePair[]): Array<Omit<DuplicateCluster, 'artworks'> & { artworkIds: number[] }> {
+  const parent = new Map<number, number>()
+  const find = (id: number): number => {
+    const current = parent.get(id) ?? id
+    if (current === id) return id
+    const root = find(current)
+    parent.set(id, root)
+    return root
+  }
+
+  for (const pair of pairs) {
+    const left = find(pair.artworkId)
+    const right = find(pair.otherArtworkId)
+    if (left !== right) parent.set(Math.max(left, right), Math.min(left, right))
+  }
+
+  const clusters = new Map<number, { artworkIds: Set<number>; pairs: DuplicatePair[] }>()
+  for (const pair of pairs) {
+    const key = find(pair.artworkId)
+    const cluster = clusters.get(key) ?? { artworkIds: new Set<number>(), pairs: [] }
+    cluster.artworkIds.add(pair.artworkId).add(pair.otherArtworkId)
+    cluster.pairs.push(pair)
+    clusters.set(key, cluster)
+  }
+
+  return [...clusters.entries()]
+    .map(([key, cluster]) => ({
+      key,
+      distance: Math.min(...cluster.pairs.map((pair) => pair.distance)),
+      artworkIds: [...cluster.artworkIds].sort((left, right) => left - right),
+      pairs: cluster.pairs
+    }))
+    .sort((left, right) => left.distance - right.distance || left.key - right.key)
+}
+
+export async function listDuplicateClusters(query: DuplicateClustersQuerySchema): Promise<DuplicateCluster[]> {
+  const groups = groupDuplicatePairs(await listDuplicatePairs(query)).slice(0, query.limit)
+  const cards = await getArtworkCardsByIds(groups.flatMap((group) => group.artworkIds))
+  const cardById = new Map(cards.map((card) => [card.id, card]))
+
+  return groups
+    .map(({ artworkIds, ...group }) => ({
+      ...group,
+      artworks: artworkIds.map((id) => cardById.get(id)).filter((card) => card !== undefined)
+    }))
+    .filter((group) => group.artworks.length > 1)
+}
+
+/**
+ * 把分组内其他作品标记为 canonicalArtworkId 的重复
+ * @description 同一对作品只保留一个方向，重新选择保留作品时会移除反向关联
+ */
+export async function linkDuplicateArtworks(input: DuplicateLinkSchema): Promise<{ linked: number }> {
+  const duplicateIds = input.artworkIds.filter((id) => id !== input.canonicalArtworkId)
+
+  return prisma.$transaction(async (tx) => {
+    await tx.artworkRelation.deleteMany({
+      where: {
+        type: 'DUPLICATE_OF',
+        OR: [
+          { fromArtworkId: input.canonicalArtworkId, toArtworkId: { in: duplicateIds } },
+          { fromArtworkId: { in: duplicateIds }, toArtworkId: { not: input.canonicalArtworkId } }
+        ]
+      }
+    })
+    const result = await tx.artworkRelation.createMany({
+      data: duplicateIds.map((fromArtworkId) => ({
+        fromArtworkId,
+        toArtworkId: input.canonicalArtworkId,
+        type: 'DUPLICATE_OF' as const
+      })),
+      skipDuplicates: true
+    })
+    return { linked: result.count }
+  })
+}
+
+/**
+ * 把分组内的作品两两标记为“不是重复”，之后不再出现在审阅列表
+ */
+export async function dismissDuplicateArtworks(
+  userId: string,
+  input: DuplicateDismissSchema
+): Promise<{ dismissed: number }> {
+  const ids = [...input.artworkIds].sort((left, right) => left - right)
+  const data = ids.flatMap((artworkId, index) =>
+    ids.slice(index + 1).map((otherArtworkId) => ({ artworkId, otherArtworkId, dismissedByUserId: userId }))
+  )
+  const result = await prisma.artworkDuplicateDismissal.createMany({ data, skipDuplicates: true })
+  return { dismissed: result.count }
+}
+
+export async function getPerceptualHashCoverage(): Promise<PerceptualHashCoverage> {
+  const [row] = await prisma.$queryRawUnsafe<Array<{ hashed: bigint; failed: bigint; pending: bigint }>>(
+    `
+    SELECT
+      COUNT(*) FILTER (WHERE "perceptualHash" IS NOT NULL) AS hashed,
+      COUNT(*) FILTER (WHERE "perceptualHashedAt" IS NOT NULL AND "perceptualHash" IS NULL) AS failed,
+      COUNT(*) FILTER (WHERE "perceptualHashedAt" IS NULL AND "mediaType" <> 'VIDEO') AS pending
+    FROM "Image"
+    WHERE "artworkId" IS NOT NULL
+      AND lower(path) ~ $1
+    `,
+    HASHABLE_PATH_PATTERN
+  )
+
+  return {
+    hashed: Number(row?.hashed ?? 0),
+    failed: Number(row?.failed ?? 0),
+    pending: Number(row?.pending ?? 0)
+  }
+}
@@ -0,0 +1,85 @@
+import { mkdtemp, readdir, readFile, rm, writeFile, mkdir } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { Readable } from 'stream'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { inspectLocalArchiveMock } = vi.hoisted(() => ({ inspectLocalArchiveMock: vi.fn() }))
+
+vi.mock('@pixishelf/job-executors', () => ({ inspectLocalArchive: inspectLocalArchiveMock }))
+
+import { saveLocalImportArchiveUpload, validateLocalImportArchiveUpload } from '../archive-upload'
+
+describe('local import archive upload', () => {
+  let scanRoot: string
+
+  beforeEach(async () => {
+    scanRoot = await mkdtemp(path.join(os.tmpdir(), 'pixishelf-archive-upload-'))
+    inspectLocalArchiveMock.mockReset().mockResolvedValue({ pageCount: 2, hasComicInfo: false })
+  })
+
+  afterEach(async () => {
+    await rm(scanRoot, { recursive: true, force: true })
+  })
+
+  it('writes a validated archive into the artist import directory without leaving temporary files', async () => {
+    const result = await saveLocalImportArchiveUpload({
+      scanRoot,
+      artistDirectory: 'Artist',
+      fileName: 'Book 01.cbz',
+      declaredFileSize: 7,
+      body: Readable.from([Buffer.from('archive')])
+    })
+
+    expect(result).toEqual({ storagePath: 'local-imports/Artist/Book 01.cbz', pageCount: 2 })
+    const directory = path.join(scanRoot, 'local-imports', 'Artist')
+    expect(await readdir(directory)).toEqual(['Book 01.cbz'])
+    await expect(readFile(path.join(directory, 'Book 01.cbz'), 'utf8')).resolves.toBe('archive')
+    expect(inspectLocalArchiveMock).toHaveBeenCalledWith(
+      expect.stringMatching(/\.uploading\.cbz$/),
+      undefined,
+      expect.objectContaining({})
+    )
+  })
+
+  it('never overwrites an existing archive and discards invalid or ugoira uploads', async () => {
+    const directory = path.join(scanRoot, 'local-imports', 'Artist')
+    await mkdir(directory, { recursive: true })
+    await writeFile(path.join(directory, 'Book.cbz'), 'original')
+    const upload = (fileName: string) =>
+      saveLocalImportArchiveUpload({
+        scanRoot,
+        artistDirectory: 'Artist',
+        fileName,
+        declaredFileSize: null,
+        body: Readable.from([Buffer.from('replacement')])
+      })
+
+    await expect(upload('Book.cbz')).rejects.toMatchObject({ status: 409 })
+    inspectLocalArchiveMock.mockRejectedValueOnce(new Error('Archive cannot be extracted: Invalid zip archive'))
+    await expect(upload('Broken.cbz')).rejects.toThrow('Archive cannot be extracted: Invalid zip archive')
+    inspectLocalArchiveMock.mockResolvedValueOnce(null)
+    await expect(upload('anim.zip')).rejects.toThrow('ugoira')
+
+    expect(await readdir(directory)).toEqual(['Book.cbz'])
+    await expect(readFile(path.join(directory, 'Book.cbz'), 'utf8')).resolves.toBe('original')
+  })
+
+  it('rejects unsafe artist directories, file names and unsupported formats before writing', () => {
+    const input = { artistDirectory: 'Artist', fileName: 'Book.cbz', declaredFileSize: 1 }
+    expect(() => validateLocalImportArchiveUpload({ ...input, artistDirectory: '../Artist' })).toThrow(
+      'Invalid artist directory'
+    )
+    expect(() => validateLocalImportArchiveUpload({ ...input, fileName: '../Book.cbz' })).toThrow('Invalid file name')
+    expect(() => validateLocalImportArchiveUpload({ ...input, fileName: 'Book.7z' })).not.toThrow()
+    expect(() => validateLocalImportArchiveUpload({ ...input, fileName: 'Book.rar' })).toThrow(
+      'Only CBZ, ZIP or 7z archives can be imported'
+    )
+    expect(() => validateLocalImportArchiveUpload({ ...input, fileName: '.cbz' })).toThrow(
+      'Only CBZ, ZIP or 7z archives can be imported'
+    )
+    expect(() => validateLocalImportArchiveUpload({ ...input, declaredFileSize: 3 * 1024 * 1024 * 1024 })).toThrow(
+      'File size exceeds limit'
+    )
+  })
+})
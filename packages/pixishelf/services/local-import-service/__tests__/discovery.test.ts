@@ -4,11 +4,18 @@ import os from 'os'
 import path from 'path'
 import { canonicalizeLocalImportStoragePath } from '@/schemas/local-import.dto'
 
-const { artworkFindManyMock, mappingFindManyMock, loggerInfoMock, loggerWarnMock } = vi.hoisted(() => ({
-  artworkFindManyMock: vi.fn(),
-  mappingFindManyMock: vi.fn(),
-  loggerInfoMock: vi.fn(),
-  loggerWarnMock: vi.fn()
+const { artworkFindManyMock, mappingFindManyMock, loggerInfoMock, loggerWarnMock, inspectLocalArchiveMock } =
+  vi.hoisted(() => ({
+    artworkFindManyMock: vi.fn(),
+    mappingFindManyMock: vi.fn(),
+    loggerInfoMock: vi.fn(),
+    loggerWarnMock: vi.fn(),
+    inspectLocalArchiveMock: vi.fn()
+  }))
+
+vi.mock('@pixishelf/job-executors', () => ({
+  LOCAL_ARCHIVE_MARKER_FILE: '.pixishelf-archive.json',
+  inspectLocalArchive: inspectLocalArchiveMock
 }))
 
 vi.mock('@/lib/prisma', () => ({
@@ -36,6 +43,7 @@ describe('local import discovery', () => {
     mappingFindManyMock.mockReset().mockResolvedValue([])
     loggerInfoMock.mockReset()
     loggerWarnMock.mockReset()
+    inspectLocalArchiveMock.mockReset()
   })
 
   afterEach(async () => {
@@ -44,9 +52,7 @@ describe('local import discovery', () => {
   })
 
   it('canonicalizes storage paths without changing case and rejects escapes', () => {
-    expect(canonicalizeLocalImportStoragePath('local-imports\\Artist\\.\\Work')).toBe(
-      'local-imports/Artist/Work'
-    )
+    expect(canonicalizeLocalImportStoragePath('local-imports\\Artist\\.\\Work')).toBe('local-imports/Artist/Work')
     expect(() => canonicalizeLocalImportStoragePath('../outside')).toThrow()
     expect(() => canonicalizeLocalImportStoragePath('/absolute/path')).toThrow()
   })
@@ -91,6 +97,7 @@ describe('local import discovery', () => {
       new: 1,
       existing: 1,
       invalid: 0,
+      archives: 0,
       media: 4
     })
     expect(result.artists[0]).toMatchObject({
@@ -144,6 +151,7 @@ describe('local import discovery', () => {
       new: 2,
       existing: 0,
       invalid: 0,
+      archives: 0,
       media: 2
     })
     expect(result.artists[0]?.works).toEqual([
@@ -188,6 +196,7 @@ describe('local import discovery', () => {
       new: 1,
       existing: 1,
       invalid: 0,
+      archives: 0,
       media: 1
     })
     expect(result.artists[0]?.works).toEqual([
@@ -208,6 +217,71 @@ describe('local import discovery', () => {
     ])
   })
 
+  it('lists CBZ/ZIP archives as works and lets them claim their extraction directory', async () => {
+    const artistPath = path.join(scanPath, 'local-imports', 'Artist')
+    await fs.mkdir(path.join(artistPath, 'Taken'), { recursive: true })
+    await fs.mkdir(path.join(artistPath, 'Done'), { recursive: true })
+    await fs.mkdir(path.join(artistPath, 'Resumed'), { recursive: true })
+    await fs.writeFile(path.join(artistPath, 'Taken', 'page.jpg'), 'image')
+    await fs.writeFile(path.join(artistPath, 'Done', 'page.jpg'), 'image')
+    await fs.writeFile(path.join(artistPath, 'Resumed', '001.jpg'), 'image')
+    await fs.writeFile(path.join(artistPath, 'Resumed', '.pixishelf-archive.json'), '{}')
+    for (const name of ['Book.cbz', 'anim.zip', 'Taken.cbz', 'Done.cbz', 'Resumed.zip', 'Broken.cbz']) {
+      await fs.writeFile(path.join(artistPath, name), 'archive')
+    }
+    artworkFindManyMock.mockResolvedValue([{ storagePath: 'local-imports/Artist/Done' }])
+    inspectLocalArchiveMock.mockImplementation(async (archivePath: string) => {
+      const name = path.basename(archivePath)
+      if (name === 'anim.zip') return null
+      if (name === 'Broken.cbz') throw new Error('Archive cannot be extracted: Invalid zip archive')
+      return { pageCount: 12, hasComicInfo: true }
+    })
+
+    const result = await discoverLocalImports({ scanPath })
+
+    expect(result.counts).toEqual({
+      artists: 1,
+      works: 6,
+      new: 3,
+      existing: 1,
+      invalid: 2,
+      archives: 2,
+      media: 25
+    })
+    expect(result.artists[0]?.works).toEqual([
+      expect.objectContaining({
+        kind: 'archive',
+        storagePath: 'local-imports/Artist/Book.cbz',
+        title: 'Book',
+        status: 'new',
+        mediaCount: 12
+      }),
+      expect.objectContaining({
+        kind: 'archive',
+        storagePath: 'local-imports/Artist/Broken.cbz',
+        status: 'invalid',
+        error: 'Archive cannot be extracted: Invalid zip archive'
+      }),
+      expect.objectContaining({ kind: 'archive', storagePath: 'local-imports/Artist/Done.cbz', status: 'existing' }),
+      expect.objectContaining({ kind: 'archive', storagePath: 'local-imports/Artist/Resumed.zip', status: 'new' }),
+      expect.objectContaining({
+        kind: 'directory',
+        storagePath: 'local-imports/Artist/Taken',
+        status: 'new',
+        mediaCount: 1
+      }),
+      expect.objectContaining({
+        kind: 'archive',
+        storagePath: 'local-imports/Artist/Taken.cbz',
+        status: 'invalid',
+        error: 'A directory with the archive name already exists'
+      })
+    ])
+    expect(inspectLocalArchiveMock.mock.calls.map(([archivePath]) => archivePath)).not.toContain(
+      path.join(artistPath, 'Taken.cbz')
+    )
+  })
+
   it('ignores manifest.json and treats the directory as an ordinary media work', async () => {
     const workDirectory = path.join(scanPath, 'local-imports', 'Recovered', 'Gallery')
     await fs.mkdir(workDirectory, { recursive: true })
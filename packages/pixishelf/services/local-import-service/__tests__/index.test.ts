@@ -45,6 +45,7 @@ const discovery = {
       mapping: { artistId: 3, artistName: 'Artist Name' },
       works: [
         {
+          kind: 'directory',
           workDirectory: 'Work',
           relativeDirectory: '2024/Manga/Work',
           title: 'Work',
@@ -55,7 +56,7 @@ const discovery = {
       ]
     }
   ],
-  counts: { artists: 1, works: 1, new: 1, existing: 0, invalid: 0, media: 1 }
+  counts: { artists: 1, works: 1, new: 1, existing: 0, invalid: 0, archives: 0, media: 1 }
 } as const
 
 describe('local import service', () => {
@@ -112,13 +113,9 @@ describe('local import service', () => {
       })
     )
     expect(mocks.transaction.mock.invocationCallOrder[0]).toBeGreaterThan(mocks.scan.mock.invocationCallOrder[0]!)
-    expect(mocks.updateImages).toHaveBeenCalledWith(
-      expect.anything(),
-      10,
-      expect.any(Array),
-      [],
-      { appendTagIds: [4, 7] }
-    )
+    expect(mocks.updateImages).toHaveBeenCalledWith(expect.anything(), 10, expect.any(Array), [], {
+      appendTagIds: [4, 7]
+    })
     expect(result).toMatchObject({
       total: 1,
       candidates: 1,
@@ -164,7 +161,9 @@ describe('local import service', () => {
     const recordItems = vi.fn()
     mocks.transaction.mockRejectedValueOnce({ code: 'P2002', meta: { target: ['storagePath'] } })
 
-    await expect(runLocalImport({ scanPath: 'D:/scan', checkCancelled, audit: { recordItems } })).resolves.toMatchObject({
+    await expect(
+      runLocalImport({ scanPath: 'D:/scan', checkCancelled, audit: { recordItems } })
+    ).resolves.toMatchObject({
       imported: 0,
       skipped: 1,
       failed: 0
@@ -185,6 +184,7 @@ describe('local import service', () => {
           mapping: { artistId: 3, artistName: 'Artist Name' },
           works: [
             {
+              kind: 'directory',
               workDirectory: 'Work',
               relativeDirectory: '2024/Manga/Work',
               title: 'Work',
@@ -195,7 +195,7 @@ describe('local import service', () => {
           ]
         }
       ],
-      counts: { artists: 1, works: 1, new: 0, existing: 1, invalid: 0, media: 1 }
+      counts: { artists: 1, works: 1, new: 0, existing: 1, invalid: 0, archives: 0, media: 1 }
     })
 
     await expect(runLocalImport({ scanPath: 'D:/scan', audit: { recordItems } })).resolves.toMatchObject({
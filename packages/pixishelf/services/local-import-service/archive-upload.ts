@@ -0,0 +1,129 @@
+import 'server-only'
+
+import { randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { Transform, type Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { LOCAL_IMPORT_ARCHIVE_EXTENSIONS } from '@pixishelf/job-contracts'
+import { inspectLocalArchive } from '@pixishelf/job-executors'
+import { assertSafeFileName, resolveCreatablePathWithinRoot, UnsafePathError } from '@/lib/safe-path'
+import { MAX_MEDIA_UPLOAD_SIZE_BYTES, MAX_MEDIA_UPLOAD_SIZE_LABEL } from '@/lib/upload-limits'
+import { LOCAL_IMPORT_DIRECTORY, localImportArtistDirectorySchema } from '@/schemas/local-import.dto'
+
+const archiveExtensions = new Set<string>(LOCAL_IMPORT_ARCHIVE_EXTENSIONS)
+
+export class LocalImportArchiveUploadError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = 'LocalImportArchiveUploadError'
+  }
+}
+
+export interface LocalImportArchiveUploadInput {
+  scanRoot: string
+  artistDirectory: string
+  fileName: string
+  declaredFileSize: number | null
+  body: Readable | null
+}
+
+export interface LocalImportArchiveUploadResult {
+  storagePath: string
+  pageCount: number
+}
+
+/**
+ * 把上传的 CBZ/ZIP/7z 写入 scanPath/local-imports/<艺术家目录>，之后由本地目录导入预览发现并导入。
+ * 先写隐藏临时文件并校验压缩包结构，再以硬链接原子落盘，避免覆盖同名文件或留下半个压缩包。
+ */
+export async function saveLocalImportArchiveUpload(
+  input: LocalImportArchiveUploadInput
+): Promise<LocalImportArchiveUploadResult> {
+  const { artistDirectory, fileName } = validateLocalImportArchiveUpload(input)
+  if (!input.body) throw new LocalImportArchiveUploadError('No body provided', 400)
+
+  let directory: string
+  try {
+    directory = await resolveCreatablePathWithinRoot(
+      input.scanRoot,
+      path.posix.join(LOCAL_IMPORT_DIRECTORY, artistDirectory)
+    )
+  } catch (error) {
+    if (error instanceof UnsafePathError) throw new LocalImportArchiveUploadError('Invalid artist directory', 400)
+    throw error
+  }
+  await fs.mkdir(directory, { recursive: true })
+  const target = path.join(directory, fileName)
+  const extension = path.extname(fileName).toLowerCase()
+  // 临时文件保留原扩展名，ugoira 判定依赖 .zip 后缀；以点开头的名称不会被导入预览发现。
+  const temporary = path.join(directory, `.${randomUUID()}.uploading${extension}`)
+  try {
+    await pipeline(input.body, limitBytes(MAX_MEDIA_UPLOAD_SIZE_BYTES), createWriteStream(temporary, { flags: 'wx' }))
+    let inspected: Awaited<ReturnType<typeof inspectLocalArchive>>
+    try {
+      inspected = await inspectLocalArchive(temporary, undefined, { sevenZipPath: process.env.SEVEN_ZIP_PATH?.trim() })
+    } catch (error) {
+      throw new LocalImportArchiveUploadError(error instanceof Error ? error.message : 'Archive cannot be read', 400)
+    }
+    if (!inspected) {
+      throw new LocalImportArchiveUploadError('ZIP is a ugoira animation; upload it as artwork media instead', 400)
+    }
+    try {
+      await fs.link(temporary, target)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new LocalImportArchiveUploadError('An archive with the same name already exists', 409)
+      }
+      throw error
+    }
+    return {
+      storagePath: path.posix.join(LOCAL_IMPORT_DIRECTORY, artistDirectory, fileName),
+      pageCount: inspected.pageCount
+    }
+  } finally {
+    await fs.rm(temporary, { force: true })
+  }
+}
+
+export function validateLocalImportArchiveUpload(input: {
+  artistDirectory: string
+  fileName: string
+  declaredFileSize: number | null
+}) {
+  const artistDirectory = localImportArtistDirectorySchema.safeParse(input.artistDirectory)
+  if (!artistDirectory.success) throw new LocalImportArchiveUploadError('Invalid artist directory', 400)
+  let fileName: string
+  try {
+    fileName = assertSafeFileName(input.fileName.trim())
+  } catch (error) {
+    if (error instanceof UnsafePathError) throw new LocalImportArchiveUploadError('Invalid file name', 400)
+    throw error
+  }
+  const extension = path.extname(fileName).toLowerCase()
+  if (!archiveExtensions.has(extension) || fileName.startsWith('.') || fileName.length === extension.length) {
+    throw new LocalImportArchiveUploadError('Only CBZ, ZIP or 7z archives can be imported', 400)
+  }
+  if (input.declaredFileSize !== null && input.declaredFileSize > MAX_MEDIA_UPLOAD_SIZE_BYTES) {
+    throw new LocalImportArchiveUploadError(`File size exceeds limit (${MAX_MEDIA_UPLOAD_SIZE_LABEL})`, 400)
+  }
+  return { artistDirectory: artistDirectory.data, fileName }
+}
+
+function limitBytes(maxBytes: number) {
+  let received = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length
+      if (received > maxBytes) {
+        callback(new LocalImportArchiveUploadError(`File size exceeds limit (${MAX_MEDIA_UPLOAD_SIZE_LABEL})`, 400))
+        return
+      }
+      callback(null, chunk)
+    }
+  })
+}
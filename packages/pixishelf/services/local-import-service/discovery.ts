@@ -2,6 +2,8 @@ import 'server-only'
 
 import fs from 'fs/promises'
 import path from 'path'
+import { LOCAL_IMPORT_ARCHIVE_EXTENSIONS } from '@pixishelf/job-contracts'
+import { inspectLocalArchive, LOCAL_ARCHIVE_MARKER_FILE } from '@pixishelf/job-executors'
 import { prisma } from '@/lib/prisma'
 import { MEDIA_EXTENSIONS } from '@/lib/constant'
 import logger from '@/lib/logger'
@@ -17,6 +19,7 @@ import {
 } from '@/schemas/local-import.dto'
 
 const supportedMediaExtensions = new Set(MEDIA_EXTENSIONS)
+const archiveExtensions = new Set<string>(LOCAL_IMPORT_ARCHIVE_EXTENSIONS)
 
 interface LocalImportDiscoveryLimits {
   maxDepth: number
@@ -154,6 +157,7 @@ async function discoverLocalImportsWithState(
       new: allWorks.filter((work) => work.status === 'new').length,
       existing: allWorks.filter((work) => work.status === 'existing').length,
       invalid: allWorks.filter((work) => work.status === 'invalid').length,
+      archives: allWorks.filter((work) => work.kind === 'archive' && work.status === 'new').length,
       media: allWorks.reduce((sum, work) => sum + work.mediaCount, 0)
     }
   }
@@ -215,6 +219,7 @@ async function visitWorkDirectory(input: {
     currentWork = { workDirectory, relativeDirectory, storagePath }
     if (existingPaths.has(storagePath)) {
       appendWork(works, state, {
+        kind: 'directory',
         workDirectory,
         relativeDirectory,
         title: workDirectory,
@@ -241,6 +246,7 @@ async function visitWorkDirectory(input: {
 
     if (mediaCount > 0) {
       appendWork(works, state, {
+        kind: 'directory',
         workDirectory: currentWork.workDirectory,
         relativeDirectory: currentWork.relativeDirectory,
         title: currentWork.workDirectory,
@@ -252,8 +258,30 @@ async function visitWorkDirectory(input: {
     }
   }
 
+  // 压缩包在所在目录旁解压，由压缩包条目认领的同名目录不再作为普通作品目录重复列出。
+  const claimedDirectories = new Set<string>()
+  const childDirectoryNames = new Set(childDirectories.map((entry) => entry.name))
+  const archiveEntries = entries
+    .filter((entry) => entry.isFile() && archiveExtensions.has(path.extname(entry.name).toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  for (const archiveEntry of archiveEntries) {
+    throwIfAborted(state.signal)
+    const claimed = await visitArchiveWork({
+      artistDirectory,
+      currentPath,
+      relativeDirectorySegments,
+      archiveName: archiveEntry.name,
+      childDirectoryNames,
+      existingPaths,
+      works,
+      state
+    })
+    if (claimed) claimedDirectories.add(claimed)
+  }
+
   for (const childDirectory of childDirectories) {
     throwIfAborted(state.signal)
+    if (claimedDirectories.has(childDirectory.name)) continue
     await visitWorkDirectory({
       artistDirectory,
       artistPath,
@@ -265,6 +293,78 @@ async function visitWorkDirectory(input: {
   }
 }
 
+/**
+ * 把 CBZ/ZIP/7z 压缩包登记为独立作品，返回被它认领的解压目录名。
+ * 可播放的 ugoira ZIP 仍属于所在目录的媒体；同名目录不是本系统解压产物时标记为 invalid，避免覆盖用户文件。
+ */
+async function visitArchiveWork(input: {
+  artistDirectory: string
+  currentPath: string
+  relativeDirectorySegments: string[]
+  archiveName: string
+  childDirectoryNames: Set<string>
+  existingPaths: Set<string>
+  works: LocalImportWorkItem[]
+  state: LocalImportDiscoveryState
+}): Promise<string | null> {
+  const { artistDirectory, currentPath, relativeDirectorySegments, archiveName, existingPaths, works, state } = input
+  const targetName = archiveName.slice(0, -path.extname(archiveName).length)
+  const relativeDirectory = [...relativeDirectorySegments, archiveName].join('/')
+  const storagePath = canonicalizeLocalImportStoragePath(
+    path.posix.join(LOCAL_IMPORT_DIRECTORY, artistDirectory, relativeDirectory)
+  )
+  const targetStoragePath = canonicalizeLocalImportStoragePath(
+    path.posix.join(LOCAL_IMPORT_DIRECTORY, artistDirectory, ...relativeDirectorySegments, targetName)
+  )
+  const work = {
+    kind: 'archive' as const,
+    workDirectory: archiveName,
+    relativeDirectory,
+    title: targetName,
+    storagePath
+  }
+
+  if (existingPaths.has(targetStoragePath)) {
+    appendWork(works, state, { ...work, status: 'existing', mediaCount: 0 })
+    state.existingWorksPruned += 1
+    return targetName
+  }
+  if (input.childDirectoryNames.has(targetName)) {
+    const extracted = await fs
+      .access(path.join(currentPath, targetName, LOCAL_ARCHIVE_MARKER_FILE))
+      .then(() => true)
+      .catch(() => false)
+    if (!extracted) {
+      appendWork(works, state, {
+        ...work,
+        status: 'invalid',
+        mediaCount: 0,
+        error: 'A directory with the archive name already exists'
+      })
+      return null
+    }
+  }
+
+  let inspected: Awaited<ReturnType<typeof inspectLocalArchive>>
+  try {
+    inspected = await inspectLocalArchive(path.join(currentPath, archiveName), undefined, {
+      sevenZipPath: process.env.SEVEN_ZIP_PATH?.trim()
+    })
+  } catch (error) {
+    appendWork(works, state, {
+      ...work,
+      status: 'invalid',
+      mediaCount: 0,
+      error: error instanceof Error ? error.message : 'Archive cannot be read'
+    })
+    return null
+  }
+  if (!inspected) return null
+  appendWork(works, state, { ...work, status: 'new', mediaCount: inspected.pageCount })
+  state.newWorks += 1
+  return targetName
+}
+
 async function readDirectories(directory: string, state: LocalImportDiscoveryState) {
   try {
     const entries = await readVisibleEntries(directory, state)
@@ -69,16 +69,17 @@ export async function runLocalImport(input: RunLocalImportInput): Promise<LocalI
       }>
     ).map((mapping) => [mapping.artistDirectory, mapping.artist?.name ?? mapping.artistDirectory])
   )
+  // 同步导入不解压压缩包：CBZ/ZIP/7z 作品只能由后台 LOCAL_DIRECTORY_IMPORT 任务处理，这里按跳过记录。
   const candidates = discovery.artists.flatMap((artist) =>
     artist.works
-      .filter((work) => work.status === 'new')
+      .filter((work) => work.status === 'new' && work.kind === 'directory')
       .map((work) => ({ artistDirectory: artist.artistDirectory, work }))
   )
   const result: LocalImportRunResult = {
     total: discovery.counts.works,
     candidates: candidates.length,
     imported: 0,
-    skipped: discovery.counts.existing + discovery.counts.invalid,
+    skipped: discovery.counts.existing + discovery.counts.invalid + discovery.counts.archives,
     failed: 0,
     newImages: 0,
     errors: [],
@@ -87,7 +88,7 @@ export async function runLocalImport(input: RunLocalImportInput): Promise<LocalI
 
   const invalidAuditItems = discovery.artists.flatMap((artist) =>
     artist.works
-      .filter((work) => work.status === 'invalid')
+      .filter((work) => work.status === 'invalid' || (work.status === 'new' && work.kind === 'archive'))
       .map((work) => ({
         title: work.title,
         artistName: artist.mapping?.artistName ?? artist.artistDirectory,
@@ -95,7 +96,7 @@ export async function runLocalImport(input: RunLocalImportInput): Promise<LocalI
         status: 'SKIPPED' as const,
         action: 'SKIP_INVALID_METADATA' as const,
         mediaCount: work.mediaCount,
-        errorMessage: work.error ?? '目录结构无效',
+        errorMessage: work.error ?? (work.kind === 'archive' ? '压缩包作品需要由后台任务导入' : '目录结构无效'),
         finishedAt: new Date()
       }))
   )
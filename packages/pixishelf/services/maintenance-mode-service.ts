@@ -0,0 +1,39 @@
+import 'server-only'
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { MaintenanceModeStatus, MaintenanceModeUpdateSchema } from '@/schemas/maintenance-mode.dto'
+import {
+  MaintenanceModeActiveError,
+  readMaintenanceMode,
+  writeMaintenanceMode,
+  type MaintenanceModeState
+} from './backup-checkpoint/maintenance-mode'
+
+// 维护模式工具同时供备份命令使用，只认识原生 PrismaClient
+const database = prisma as unknown as PrismaClient
+
+function toStatus(state: MaintenanceModeState): MaintenanceModeStatus {
+  return { ...state, enabledAt: state.enabledAt?.toISOString() ?? null }
+}
+
+export async function getMaintenanceModeStatus(): Promise<MaintenanceModeStatus> {
+  return toStatus(await readMaintenanceMode(database))
+}
+
+export async function setMaintenanceMode(
+  userId: string,
+  input: MaintenanceModeUpdateSchema
+): Promise<MaintenanceModeStatus> {
+  return toStatus(
+    await writeMaintenanceMode(database, { enabled: input.enabled, enabledBy: userId, reason: input.reason || null })
+  )
+}
+
+/**
+ * 写入前检查维护模式；每次都读数据库，保证备份命令开启后立即生效
+ */
+export async function assertWritable(): Promise<void> {
+  const state = await readMaintenanceMode(database)
+  if (state.enabled) throw new MaintenanceModeActiveError(state)
+}
@@ -0,0 +1,226 @@
+import 'server-only'
+
+import { mediaIntegrityScrubPayloadSchema } from '@pixishelf/job-contracts'
+import { prisma } from '@/lib/prisma'
+import type {
+  BackupCheckpointCreateSchema,
+  BackupCheckpointItem,
+  MediaIntegrityAcceptSchema,
+  MediaIntegrityAffectedArtwork,
+  MediaIntegrityCoverage,
+  MediaIntegrityIssueItem,
+  MediaIntegrityReport,
+  MediaIntegrityReportQuerySchema
+} from '@/schemas/media-integrity.dto'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// 与计划任务默认载荷一致，用于估算“到期待复核”的数量
+const DEFAULT_REVERIFY_AFTER_DAYS = mediaIntegrityScrubPayloadSchema.parse({}).reverifyAfterDays
+
+export class MediaIntegrityError extends Error {
+  constructor(
+    public readonly code: 'NOT_FOUND' | 'CONFLICT',
+    message: string
+  ) {
+    super(message)
+    this.name = 'MediaIntegrityError'
+  }
+}
+
+const checkpointSelect = {
+  id: true,
+  label: true,
+  location: true,
+  takenAt: true,
+  note: true,
+  manifestSha256: true
+} as const
+
+function toCheckpointItem(checkpoint: {
+  id: number
+  label: string
+  location: string | null
+  takenAt: Date
+  note: string | null
+  manifestSha256: string | null
+}): BackupCheckpointItem {
+  return { ...checkpoint, takenAt: checkpoint.takenAt.toISOString() }
+}
+
+/**
+ * 原媒体哈希覆盖情况与未解决问题数量
+ */
+export async function getMediaIntegrityCoverage(now = new Date()): Promise<MediaIntegrityCoverage> {
+  const cutoff = new Date(now.getTime() - DEFAULT_REVERIFY_AFTER_DAYS * DAY_MS)
+  const [hashed, pending, due, lastChecked, issueCounts] = await Promise.all([
+    prisma.image.count({ where: { artworkId: { not: null }, contentSha256: { not: null } } }),
+    prisma.image.count({ where: { artworkId: { not: null }, contentCheckedAt: null } }),
+    prisma.image.count({ where: { artworkId: { not: null }, contentCheckedAt: { lt: cutoff } } }),
+    prisma.image.aggregate({ _max: { contentCheckedAt: true } }),
+    prisma.mediaIntegrityIssue.groupBy({ by: ['kind'], where: { resolvedAt: null }, _count: { _all: true } })
+  ])
+
+  const openIssues = { MISSING: 0, MISMATCH: 0, UNREADABLE: 0 }
+  for (const row of issueCounts) openIssues[row.kind] = row._count._all
+
+  return {
+    hashed,
+    pending,
+    due,
+    openIssues,
+    lastCheckedAt: lastChecked._max.contentCheckedAt?.toISOString() ?? null
+  }
+}
+
+/**
+ * 选出受影响文件全部仍完好时的最近备份
+ * @description 文件在 lastVerifiedAt 时仍与基准一致，因此在此之前（含）完成的备份持有完好副本；
+ * 早于 baselineSince 的备份还没有收录该文件，不能用于恢复。
+ * 只要有一个文件缺少这两个时间点，就无法判断任何备份是否可用。
+ */
+export function pickLastGoodCheckpoint<T extends { takenAt: Date }>(
+  issues: Array<{ lastVerifiedAt: Date | null; baselineSince: Date | null }>,
+  checkpointsNewestFirst: T[]
+): T | null {
+  if (issues.length === 0) return null
+  if (issues.some((issue) => issue.lastVerifiedAt === null || issue.baselineSince === null)) return null
+  const goodUntil = Math.min(...issues.map((issue) => issue.lastVerifiedAt!.getTime()))
+  const presentSince = Math.max(...issues.map((issue) => issue.baselineSince!.getTime()))
+  return (
+    checkpointsNewestFirst.find((checkpoint) => {
+      const takenAt = checkpoint.takenAt.getTime()
+      return takenAt <= goodUntil && takenAt >= presentSince
+    }) ?? null
+  )
+}
+
+/**
+ * 按作品汇总未解决的完整性问题，并关联最近一次可用于恢复的备份
+ */
+export async function getMediaIntegrityReport(query: MediaIntegrityReportQuerySchema): Promise<MediaIntegrityReport> {
+  const where = { resolvedAt: null }
+  const [groups, totalGroups] = await Promise.all([
+    prisma.mediaIntegrityIssue.groupBy({
+      by: ['artworkId'],
+      where,
+      _max: { detectedAt: true },
+      orderBy: [{ _max: { detectedAt: 'desc' } }, { artworkId: 'asc' }],
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize
+    }),
+    prisma.mediaIntegrityIssue.groupBy({ by: ['artworkId'], where })
+  ])
+
+  const artworkIds = groups.map((group) => group.artworkId).filter((id): id is number => id !== null)
+  const includesDeletedArtworks = groups.some((group) => group.artworkId === null)
+  const [issues, artworks, checkpoints] = await Promise.all([
+    prisma.mediaIntegrityIssue.findMany({
+      where: {
+        ...where,
+        OR: [{ artworkId: { in: artworkIds } }, ...(includesDeletedArtworks ? [{ artworkId: null }] : [])]
+      },
+      orderBy: [{ detectedAt: 'desc' }, { id: 'asc' }]
+    }),
+    prisma.artwork.findMany({
+      where: { id: { in: artworkIds } },
+      select: { id: true, title: true, artist: { select: { name: true } } }
+    }),
+    prisma.backupCheckpoint.findMany({ orderBy: { takenAt: 'desc' }, select: checkpointSelect })
+  ])
+
+  const artworkById = new Map(artworks.map((artwork) => [artwork.id, artwork]))
+  const items: MediaIntegrityAffectedArtwork[] = groups.map((group) => {
+    const artworkIssues = issues.filter((issue) => issue.artworkId === group.artworkId)
+    const artwork = group.artworkId === null ? undefined : artworkById.get(group.artworkId)
+    const checkpoint = pickLastGoodCheckpoint(artworkIssues, checkpoints)
+    return {
+      artwork: artwork ? { id: artwork.id, title: artwork.title, artistName: artwork.artist?.name ?? null } : null,
+      issues: artworkIssues.map(
+        (issue): MediaIntegrityIssueItem => ({
+          id: issue.id,
+          imageId: issue.imageId,
+          path: issue.path,
+          kind: issue.kind,
+          expectedSha256: issue.expectedSha256,
+          actualSha256: issue.actualSha256,
+          lastVerifiedAt: issue.lastVerifiedAt?.toISOString() ?? null,
+          detectedAt: issue.detectedAt.toISOString(),
+          lastSeenAt: issue.lastSeenAt.toISOString()
+        })
+      ),
+      lastGoodCheckpoint: checkpoint ? toCheckpointItem(checkpoint) : null,
+      hasUnverifiedFiles: artworkIssues.some((issue) => issue.lastVerifiedAt === null)
+    }
+  })
+
+  return { items, total: totalGroups.length, page: query.page, pageSize: query.pageSize }
+}
+
+/**
+ * 确认当前文件内容是正确的（例如已从备份恢复或人工修复）
+ * @description 清空图片的哈希基准让下次巡检重新取基准，问题记为 ACCEPTED
+ */
+export async function acceptMediaIntegrityIssue(input: MediaIntegrityAcceptSchema) {
+  return prisma.$transaction(async (tx) => {
+    const issue = await tx.mediaIntegrityIssue.findUnique({
+      where: { id: input.issueId },
+      select: { id: true, imageId: true, resolvedAt: true }
+    })
+    if (!issue) throw new MediaIntegrityError('NOT_FOUND', '问题记录不存在')
+    if (issue.resolvedAt) throw new MediaIntegrityError('CONFLICT', '问题已解决')
+
+    const resolvedAt = new Date()
+    if (issue.imageId !== null) {
+      await tx.image.updateMany({
+        where: { id: issue.imageId },
+        data: {
+          contentSha256: null,
+          contentSize: null,
+          contentMtimeMs: null,
+          contentHashedAt: null,
+          contentVerifiedAt: null,
+          contentCheckedAt: null
+        }
+      })
+      await tx.mediaIntegrityIssue.updateMany({
+        where: { imageId: issue.imageId, resolvedAt: null },
+        data: { resolvedAt, resolution: 'ACCEPTED' }
+      })
+    } else {
+      await tx.mediaIntegrityIssue.update({ where: { id: issue.id }, data: { resolvedAt, resolution: 'ACCEPTED' } })
+    }
+    return { id: issue.id }
+  })
+}
+
+export async function listBackupCheckpoints(): Promise<BackupCheckpointItem[]> {
+  const checkpoints = await prisma.backupCheckpoint.findMany({
+    orderBy: { takenAt: 'desc' },
+    take: 50,
+    select: checkpointSelect
+  })
+  return checkpoints.map(toCheckpointItem)
+}
+
+/**
+ * 登记一份已完成的外部备份，供完整性报告定位可恢复的副本
+ */
+export async function createBackupCheckpoint(userId: string, input: BackupCheckpointCreateSchema) {
+  const checkpoint = await prisma.backupCheckpoint.create({
+    data: {
+      label: input.label,
+      location: input.location || null,
+      takenAt: input.takenAt,
+      note: input.note || null,
+      createdByUserId: userId
+    },
+    select: checkpointSelect
+  })
+  return toCheckpointItem(checkpoint)
+}
+
+export async function deleteBackupCheckpoint(id: number) {
+  const { count } = await prisma.backupCheckpoint.deleteMany({ where: { id } })
+  if (count === 0) throw new MediaIntegrityError('NOT_FOUND', '备份记录不存在')
+  return { id }
+}
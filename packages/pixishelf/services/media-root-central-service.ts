@@ -7,14 +7,20 @@ import path from 'node:path'
 import {
   artistMappingInputDigest,
   computeLocalWorkContentFingerprint,
+  localArchiveTargetPath,
   localWorkInputDigest,
   metadataInputDigest
 } from '@pixishelf/job-executors'
-import { migrationPayloadSchema, type MigrationPayload, type ScanPayload } from '@pixishelf/job-contracts'
+import {
+  LOCAL_IMPORT_ARCHIVE_EXTENSIONS,
+  migrationPayloadSchema,
+  type MigrationPayload,
+  type ScanPayload
+} from '@pixishelf/job-contracts'
 import type { Prisma } from '@pixishelf/db'
 import { prisma } from '@/lib/prisma'
 import { startLocalImportSchema, type StartLocalImportInput } from '@/schemas/local-import.dto'
-import { getScanPath, getSystemSettings } from '@/services/setting.service'
+import { getScanPath, getStorageLayoutTemplate, getSystemSettings } from '@/services/setting.service'
 import {
   buildMigrationSelection,
   type MigrationPrecheckInput,
@@ -269,8 +275,10 @@ export async function enqueueCentralLocalDirectoryImport(
 ): Promise<QueuedMediaRootJob> {
   const { storagePaths } = startLocalImportSchema.parse({ storagePaths: input.storagePaths })
   const settings = await getSystemSettings()
+  // 压缩包作品发布的是解压目录，已有作品判断需要按解压后的路径比对。
+  const artworkPaths = new Map(storagePaths.map((storagePath) => [storagePath, localImportArtworkPath(storagePath)]))
   const existingRows = await prisma.artwork.findMany({
-    where: { storagePath: { in: storagePaths } },
+    where: { storagePath: { in: [...new Set(artworkPaths.values())] } },
     select: { storagePath: true },
     take: MAX_LOCAL_IMPORT_CANDIDATES + 1
   })
@@ -278,7 +286,9 @@ export async function enqueueCentralLocalDirectoryImport(
     throw precondition('Local import existing artwork query exceeds the configured limit')
   }
   const existingPaths = new Set(existingRows.flatMap((row) => (row.storagePath ? [row.storagePath] : [])))
-  const candidatePaths = storagePaths.filter((storagePath) => !existingPaths.has(storagePath)).sort(compareText)
+  const candidatePaths = storagePaths
+    .filter((storagePath) => !existingPaths.has(artworkPaths.get(storagePath)!))
+    .sort(compareText)
   if (candidatePaths.length === 0) throw precondition('No new local import works remain')
   const artistDirectories = [...new Set(candidatePaths.map(localImportArtistDirectory))].sort(compareText)
   if (artistDirectories.length > MAX_LOCAL_IMPORT_ARTISTS) {
@@ -297,7 +307,7 @@ export async function enqueueCentralLocalDirectoryImport(
   if (missing) throw precondition(`Local import artist mapping is missing: ${missing}`)
   const workRows = candidatePaths.map((relativePath, ordinal) => ({
     ordinal,
-    kind: 'MEDIA_DIRECTORY' as const,
+    kind: isLocalImportArchivePath(relativePath) ? ('MEDIA_ARCHIVE' as const) : ('MEDIA_DIRECTORY' as const),
     relativePath,
     fingerprint: null
   }))
@@ -374,7 +384,9 @@ export async function enqueueCentralMigration(input: {
   safety?: MigrationSafetyOptions
 }): Promise<QueuedMediaRootJob> {
   const selection = await buildMigrationSelection(input.selectionInput)
-  const payload: MigrationPayload = migrationPayloadSchema.parse({ selection, safety: input.safety })
+  // 入队时冻结存储布局，之后修改设置不会改变已排队任务的目标目录
+  const layout = { template: await getStorageLayoutTemplate() }
+  const payload: MigrationPayload = migrationPayloadSchema.parse({ selection, safety: input.safety, layout })
   const queued = await enqueueSingletonManualJobWithResult({
     type: 'MIGRATION',
     triggerSource: 'MANUAL',
@@ -386,6 +398,20 @@ export async function enqueueCentralMigration(input: {
   return { jobId: queued.job.id, status: 'PENDING', reused: queued.reused }
 }
 
+function isLocalImportArchivePath(storagePath: string) {
+  const extension = path.posix.extname(storagePath).toLowerCase()
+  return (LOCAL_IMPORT_ARCHIVE_EXTENSIONS as readonly string[]).includes(extension)
+}
+
+function localImportArtworkPath(storagePath: string) {
+  if (!isLocalImportArchivePath(storagePath)) return storagePath
+  try {
+    return localArchiveTargetPath(storagePath)
+  } catch {
+    throw precondition(`Invalid local import archive path: ${storagePath}`)
+  }
+}
+
 async function requireScanPath() {
   const value = await getScanPath()
   if (!value) throw precondition('Scan path is not configured')
@@ -514,7 +540,7 @@ function normalizedBigInt(value: number | bigint): bigint {
 
 interface ExpectedLocalWorkRow {
   ordinal: number
-  kind: 'MEDIA_DIRECTORY'
+  kind: 'MEDIA_DIRECTORY' | 'MEDIA_ARCHIVE'
   relativePath: string
   fingerprint: string | null
 }
@@ -0,0 +1,178 @@
+import 'server-only'
+
+import type { NotificationChannel, Prisma } from '@prisma/client'
+import {
+  NOTIFICATION_SECRET_FIELDS,
+  NOTIFICATION_TEST_EVENT_TYPE,
+  notificationChannelConfigSchema,
+  type NotificationChannelDto,
+  type NotificationFilters,
+  type NotificationPayload
+} from '@pixishelf/job-contracts'
+import { prisma } from '@/lib/prisma'
+import type { NotificationChannelInput } from '@/schemas/notification-channel.dto'
+
+type SecretField = (typeof NOTIFICATION_SECRET_FIELDS)[number]
+
+export class NotificationChannelConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationChannelConfigError'
+  }
+}
+
+export class NotificationChannelNotFoundError extends Error {
+  constructor() {
+    super('Notification channel not found')
+    this.name = 'NotificationChannelNotFoundError'
+  }
+}
+
+function isSecretField(key: string): key is SecretField {
+  return (NOTIFICATION_SECRET_FIELDS as readonly string[]).includes(key)
+}
+
+function asRecord(value: Prisma.JsonValue): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+}
+
+/**
+ * 合并并校验渠道配置：空白密钥沿用旧值（仅限同一渠道类型），其余字段以本次提交为准
+ */
+function resolveConfig(input: NotificationChannelInput, existing: NotificationChannel | null) {
+  const previous = existing?.kind === input.kind ? asRecord(existing.config) : {}
+  const merged: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input.config)) {
+    if (value === '' || value === null || value === undefined) {
+      if (isSecretField(key) && typeof previous[key] === 'string') merged[key] = previous[key]
+      continue
+    }
+    merged[key] = value
+  }
+
+  const parsed = notificationChannelConfigSchema.safeParse({ kind: input.kind, config: merged })
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const path = issue?.path.slice(1).join('.')
+    throw new NotificationChannelConfigError(`${path ? `${path}: ` : ''}${issue?.message ?? 'Invalid channel config'}`)
+  }
+  return parsed.data.config as Prisma.InputJsonValue
+}
+
+function toChannelData(input: NotificationChannelInput, config: Prisma.InputJsonValue) {
+  return {
+    name: input.name,
+    enabled: input.enabled,
+    kind: input.kind,
+    config,
+    jobTypes: [...new Set(input.filters.jobTypes)],
+    levels: [...new Set(input.filters.levels)],
+    eventTypes: [...new Set(input.filters.eventTypes)]
+  }
+}
+
+export async function listNotificationChannels(): Promise<NotificationChannelDto[]> {
+  const [channels, pending] = await Promise.all([
+    prisma.notificationChannel.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: {
+        deliveries: {
+          orderBy: { id: 'desc' },
+          take: 1,
+          select: { status: true, eventType: true, attempt: true, lastError: true, updatedAt: true }
+        }
+      }
+    }),
+    prisma.notificationDelivery.groupBy({
+      by: ['channelId'],
+      where: { status: { in: ['PENDING', 'SENDING', 'RETRY_WAIT'] } },
+      _count: { _all: true }
+    })
+  ])
+  const pendingByChannel = new Map(pending.map((row) => [row.channelId, row._count._all]))
+
+  return channels.map((channel) => {
+    const stored = asRecord(channel.config)
+    const config = Object.fromEntries(Object.entries(stored).filter(([key]) => !isSecretField(key)))
+    const secretFields = NOTIFICATION_SECRET_FIELDS.filter(
+      (field) => typeof stored[field] === 'string' && stored[field] !== ''
+    )
+    const lastDelivery = channel.deliveries[0]
+    return {
+      id: channel.id,
+      name: channel.name,
+      kind: channel.kind,
+      enabled: channel.enabled,
+      config: config as NotificationChannelDto['config'],
+      secretFields,
+      filters: {
+        jobTypes: channel.jobTypes as NotificationFilters['jobTypes'],
+        levels: channel.levels,
+        eventTypes: channel.eventTypes as NotificationFilters['eventTypes']
+      },
+      pendingDeliveries: pendingByChannel.get(channel.id) ?? 0,
+      lastDelivery: lastDelivery ? { ...lastDelivery, updatedAt: lastDelivery.updatedAt.toISOString() } : null,
+      createdAt: channel.createdAt.toISOString(),
+      updatedAt: channel.updatedAt.toISOString()
+    }
+  })
+}
+
+export async function createNotificationChannel(input: NotificationChannelInput) {
+  const channel = await prisma.notificationChannel.create({
+    data: toChannelData(input, resolveConfig(input, null)),
+    select: { id: true }
+  })
+  return channel
+}
+
+export async function updateNotificationChannel(id: string, input: NotificationChannelInput) {
+  const existing = await prisma.notificationChannel.findUnique({ where: { id } })
+  if (!existing) throw new NotificationChannelNotFoundError()
+  await prisma.notificationChannel.update({
+    where: { id },
+    data: toChannelData(input, resolveConfig(input, existing))
+  })
+}
+
+/**
+ * 删除渠道会级联删除其投递记录，尚未送达的通知随之放弃
+ */
+export async function deleteNotificationChannel(id: string) {
+  const { count } = await prisma.notificationChannel.deleteMany({ where: { id } })
+  if (count === 0) throw new NotificationChannelNotFoundError()
+}
+
+/**
+ * 测试通知同样写入投递表，由 Worker 按正常路径发送，因此也能验证重试与签名
+ */
+export async function sendTestNotification(id: string) {
+  const channel = await prisma.notificationChannel.findUnique({
+    where: { id },
+    select: { id: true, name: true, enabled: true }
+  })
+  if (!channel) throw new NotificationChannelNotFoundError()
+  // 停用渠道的投递不会被认领，测试会一直停在等待状态
+  if (!channel.enabled) throw new NotificationChannelConfigError('Enable the channel before sending a test')
+
+  const payload: NotificationPayload = {
+    eventId: null,
+    eventType: NOTIFICATION_TEST_EVENT_TYPE,
+    level: 'INFO',
+    message: `Test notification for channel "${channel.name}"`,
+    stage: null,
+    attempt: 0,
+    data: null,
+    occurredAt: new Date().toISOString(),
+    job: null
+  }
+  const delivery = await prisma.notificationDelivery.create({
+    data: {
+      channelId: channel.id,
+      eventType: NOTIFICATION_TEST_EVENT_TYPE,
+      payload: payload as unknown as Prisma.InputJsonValue
+    },
+    select: { id: true }
+  })
+  return { deliveryId: delivery.id.toString() }
+}
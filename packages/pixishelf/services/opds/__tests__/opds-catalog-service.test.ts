@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const { seriesFindUniqueMock, seriesArtworkFindManyMock, seriesArtworkCountMock, artworkFindFirstMock } = vi.hoisted(
+  () => ({
+    seriesFindUniqueMock: vi.fn(),
+    seriesArtworkFindManyMock: vi.fn(),
+    seriesArtworkCountMock: vi.fn(),
+    artworkFindFirstMock: vi.fn()
+  })
+)
+
+vi.mock('server-only', () => ({}))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    series: { findUnique: seriesFindUniqueMock },
+    seriesArtwork: { findMany: seriesArtworkFindManyMock, count: seriesArtworkCountMock },
+    artwork: { findFirst: artworkFindFirstMock }
+  }
+}))
+
+import { buildOpdsFeed, getOpdsPagePath } from '../opds-catalog-service'
+
+function artwork(id: number, images: { path: string; mediaType: string }[]) {
+  return {
+    id,
+    title: `Artwork ${id}`,
+    description: null,
+    updatedAt: new Date('2026-09-01T00:00:00.000Z'),
+    sourceDate: null,
+    artist: { id: 3, name: 'shiori' },
+    artworkTags: [{ tag: { name: 'landscape', name_zh: '风景' } }],
+    images
+  }
+}
+
+describe('opds catalog service', () => {
+  beforeEach(() => {
+    seriesFindUniqueMock.mockReset()
+    seriesArtworkFindManyMock.mockReset()
+    seriesArtworkCountMock.mockReset()
+    artworkFindFirstMock.mockReset()
+  })
+
+  it('orders series entries by SeriesArtwork.sortOrder and streams only still images', async () => {
+    seriesFindUniqueMock.mockResolvedValue({ id: 5, title: 'Series' })
+    seriesArtworkFindManyMock.mockResolvedValue([
+      {
+        artwork: artwork(9, [
+          { path: '/a/9/clip.mp4', mediaType: 'VIDEO' },
+          { path: '/a/9/p0.png', mediaType: 'IMAGE' },
+          { path: '/a/9/p1.jpg', mediaType: 'IMAGE' }
+        ])
+      }
+    ])
+    seriesArtworkCountMock.mockResolvedValue(51)
+
+    const feed = await buildOpdsFeed({ view: 'seriesArtworks', id: 5 }, { token: 'psf_t', page: 1 })
+
+    expect(seriesArtworkFindManyMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { seriesId: 5, artwork: { deletedAt: null, archiveLifecycleState: 'ACTIVE' } },
+        orderBy: [{ sortOrder: 'asc' }, { artworkId: 'asc' }],
+        skip: 0,
+        take: 50
+      })
+    )
+    expect(feed?.links.map((link) => link.rel)).toEqual(['self', 'start', 'up', 'first', 'next'])
+    expect(feed?.entries[0]).toMatchObject({
+      authors: [{ name: 'shiori', uri: '/api/opds/psf_t/artists/3' }],
+      categories: [{ term: 'landscape', label: '风景' }]
+    })
+    expect(feed?.entries[0]?.links).toContainEqual(
+      expect.objectContaining({ href: '/api/opds/psf_t/artworks/9/pages/0', type: 'image/png' })
+    )
+    expect(feed?.entries[0]?.links).toContainEqual(
+      expect.objectContaining({ href: '/api/opds/psf_t/artworks/9/pages/{pageNumber}', pageCount: 2 })
+    )
+  })
+
+  it('returns null for an unknown series', async () => {
+    seriesFindUniqueMock.mockResolvedValue(null)
+
+    await expect(buildOpdsFeed({ view: 'seriesArtworks', id: 404 }, { token: 'psf_t', page: 1 })).resolves.toBeNull()
+  })
+
+  it('maps page numbers onto still images in display order', async () => {
+    artworkFindFirstMock.mockResolvedValue({
+      images: [
+        { path: '/a/9/clip.mp4', mediaType: 'UNKNOWN' },
+        { path: '/a/9/p0.png', mediaType: 'IMAGE' },
+        { path: '/a/9/p1.jpg', mediaType: 'IMAGE' }
+      ]
+    })
+
+    await expect(getOpdsPagePath(9, 1)).resolves.toBe('/a/9/p1.jpg')
+    await expect(getOpdsPagePath(9, 2)).resolves.toBeNull()
+  })
+})
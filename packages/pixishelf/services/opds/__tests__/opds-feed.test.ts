@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { buildPaginationLinks, opdsHref, parseOpdsPath, renderOpdsFeed } from '../opds-feed'
+
+describe('opds feed', () => {
+  it('parses catalog paths and rejects unknown or malformed ones', () => {
+    expect(parseOpdsPath([])).toEqual({ view: 'root' })
+    expect(parseOpdsPath(['series', '12'])).toEqual({ view: 'seriesArtworks', id: 12 })
+    expect(parseOpdsPath(['tags'])).toEqual({ view: 'tags' })
+    expect(parseOpdsPath(['artworks', '7', 'pages', '0'])).toEqual({ view: 'page', artworkId: 7, page: 0 })
+    expect(parseOpdsPath(['artworks', '7'])).toBeNull()
+    expect(parseOpdsPath(['artists', '-1'])).toBeNull()
+    expect(parseOpdsPath(['updates', '1'])).toBeNull()
+    expect(parseOpdsPath(['series', '1', 'extra'])).toBeNull()
+  })
+
+  it('renders an escaped OPDS feed with page streaming links', () => {
+    const xml = renderOpdsFeed({
+      id: 'urn:pixishelf:artworks',
+      title: '最近入库',
+      updated: new Date('2026-09-20T00:00:00.000Z'),
+      kind: 'acquisition',
+      links: [{ rel: 'self', href: opdsHref('psf_a', 'artworks'), type: 'application/atom+xml' }],
+      entries: [
+        {
+          id: 'urn:pixishelf:artwork:1',
+          title: 'Tom & <Jerry>',
+          updated: new Date('2026-09-19T00:00:00.000Z'),
+          content: '<p>desc</p>',
+          links: [
+            {
+              rel: 'http://vaemendis.net/opds-pse/stream',
+              href: '/api/opds/psf_a/artworks/1/pages/{pageNumber}',
+              type: 'image/jpeg',
+              pageCount: 3
+            }
+          ]
+        }
+      ]
+    })
+
+    expect(xml).toContain('xmlns:pse="http://vaemendis.net/opds-pse/ns"')
+    expect(xml).toContain('<title>Tom &amp; &lt;Jerry&gt;</title>')
+    expect(xml).toContain('<content type="html">&lt;p&gt;desc&lt;/p&gt;</content>')
+    expect(xml).toContain('href="/api/opds/psf_a/artworks/1/pages/{pageNumber}" type="image/jpeg" pse:count="3"')
+  })
+
+  it('links neighbouring pages without running past the last one', () => {
+    const links = buildPaginationLinks('/api/opds/t/tags', 'navigation', 2, 120)
+
+    expect(links.map((link) => [link.rel, link.href])).toEqual([
+      ['first', '/api/opds/t/tags'],
+      ['previous', '/api/opds/t/tags'],
+      ['next', '/api/opds/t/tags?page=3']
+    ])
+    expect(buildPaginationLinks('/x', 'acquisition', 3, 120).map((link) => link.rel)).toEqual(['first', 'previous'])
+  })
+})
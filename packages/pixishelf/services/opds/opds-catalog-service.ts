@@ -0,0 +1,389 @@
+import 'server-only'
+
+import type { Prisma } from '@prisma/client'
+import { ROUTES } from '@/lib/constants'
+import { isVideoFile } from '@/lib/media'
+import { prisma } from '@/lib/prisma'
+import { getMediaMimeType } from '@/utils/media'
+import {
+  buildPaginationLinks,
+  OPDS_PAGE_SIZE,
+  OPDS_REL,
+  opdsFeedType,
+  opdsHref,
+  type OpdsEntry,
+  type OpdsFeed,
+  type OpdsFeedKind,
+  type OpdsLink,
+  type OpdsTarget
+} from './opds-feed'
+
+// 订阅只暴露已发布的作品；未发布、软删除的归档作品不出现在目录里
+const VISIBLE_ARTWORK_WHERE = {
+  deletedAt: null,
+  archiveLifecycleState: 'ACTIVE'
+} satisfies Prisma.ArtworkWhereInput
+
+const ARTWORK_ENTRY_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  updatedAt: true,
+  sourceDate: true,
+  artist: { select: { id: true, name: true } },
+  artworkTags: { select: { tag: { select: { name: true, name_zh: true } } } },
+  images: {
+    select: { path: true, mediaType: true },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }]
+  }
+} satisfies Prisma.ArtworkSelect
+
+type ArtworkEntrySource = Prisma.ArtworkGetPayload<{ select: typeof ARTWORK_ENTRY_SELECT }>
+
+export interface OpdsFeedContext {
+  token: string
+  page: number
+  now?: Date
+}
+
+type FeedTarget = Exclude<OpdsTarget, { view: 'page' }>
+
+interface PageImage {
+  path: string
+  mediaType: string
+}
+
+// 视频无法按页流式阅读，只保留图片与动图
+function isPageImage(image: PageImage) {
+  return image.mediaType !== 'VIDEO' && !isVideoFile(image.path)
+}
+
+function pageOffset(page: number) {
+  return (page - 1) * OPDS_PAGE_SIZE
+}
+
+function toArtworkEntry(artwork: ArtworkEntrySource, token: string): OpdsEntry {
+  const pages = artwork.images.filter(isPageImage)
+  const links: OpdsLink[] = [{ rel: 'alternate', href: `${ROUTES.ARTWORKS}/${artwork.id}`, type: 'text/html' }]
+  const firstPage = pages[0]
+  if (firstPage) {
+    const coverHref = opdsHref(token, 'artworks', artwork.id, 'pages', 0)
+    const coverType = getMediaMimeType(firstPage.path) ?? 'image/jpeg'
+    links.push(
+      { rel: OPDS_REL.image, href: coverHref, type: coverType },
+      { rel: OPDS_REL.thumbnail, href: coverHref, type: coverType },
+      {
+        rel: OPDS_REL.pageStream,
+        // {pageNumber} 是 PSE 模板占位符，由阅读器替换为从 0 开始的页号
+        href: `${opdsHref(token, 'artworks', artwork.id, 'pages')}/{pageNumber}`,
+        type: 'image/jpeg',
+        pageCount: pages.length
+      }
+    )
+  }
+
+  return {
+    id: `urn:pixishelf:artwork:${artwork.id}`,
+    title: artwork.title,
+    updated: artwork.updatedAt,
+    published: artwork.sourceDate,
+    authors: artwork.artist
+      ? [{ name: artwork.artist.name, uri: opdsHref(token, 'artists', artwork.artist.id) }]
+      : undefined,
+    categories: artwork.artworkTags.map(({ tag }) => ({ term: tag.name, label: tag.name_zh || tag.name })),
+    content: artwork.description,
+    links
+  }
+}
+
+function feedLinks(
+  context: OpdsFeedContext,
+  kind: OpdsFeedKind,
+  segments: (string | number)[],
+  total?: number
+): OpdsLink[] {
+  const href = opdsHref(context.token, ...segments)
+  const selfHref = context.page > 1 ? `${href}?page=${context.page}` : href
+  const links: OpdsLink[] = [
+    { rel: 'self', href: selfHref, type: opdsFeedType(kind) },
+    { rel: 'start', href: opdsHref(context.token), type: opdsFeedType('navigation') }
+  ]
+  if (segments.length > 1) {
+    links.push({ rel: 'up', href: opdsHref(context.token, segments[0]!), type: opdsFeedType('navigation') })
+  }
+  if (total !== undefined) links.push(...buildPaginationLinks(href, kind, context.page, total))
+  return links
+}
+
+function navigationEntry(
+  context: OpdsFeedContext,
+  id: string,
+  title: string,
+  segments: (string | number)[],
+  options: { kind: OpdsFeedKind; updated: Date; content?: string | null }
+): OpdsEntry {
+  return {
+    id,
+    title,
+    updated: options.updated,
+    content: options.content,
+    links: [{ rel: 'subsection', href: opdsHref(context.token, ...segments), type: opdsFeedType(options.kind) }]
+  }
+}
+
+async function acquisitionFeed(
+  context: OpdsFeedContext,
+  feed: { id: string; title: string; segments: (string | number)[] },
+  where: Prisma.ArtworkWhereInput,
+  orderBy: Prisma.ArtworkOrderByWithRelationInput[]
+): Promise<OpdsFeed> {
+  const [artworks, total] = await Promise.all([
+    prisma.artwork.findMany({
+      where: { ...VISIBLE_ARTWORK_WHERE, ...where },
+      select: ARTWORK_ENTRY_SELECT,
+      orderBy,
+      skip: pageOffset(context.page),
+      take: OPDS_PAGE_SIZE
+    }),
+    prisma.artwork.count({ where: { ...VISIBLE_ARTWORK_WHERE, ...where } })
+  ])
+  return {
+    id: feed.id,
+    title: feed.title,
+    updated: context.now ?? new Date(),
+    kind: 'acquisition',
+    links: feedLinks(context, 'acquisition', feed.segments, total),
+    entries: artworks.map((artwork) => toArtworkEntry(artwork, context.token))
+  }
+}
+
+function rootFeed(context: OpdsFeedContext): OpdsFeed {
+  const updated = context.now ?? new Date()
+  return {
+    id: 'urn:pixishelf:catalog',
+    title: 'PixiShelf',
+    updated,
+    kind: 'navigation',
+    links: feedLinks(context, 'navigation', []),
+    entries: [
+      navigationEntry(context, 'urn:pixishelf:artworks', '最近入库', ['artworks'], {
+        kind: 'acquisition',
+        updated,
+        content: '按入库时间倒序浏览全部作品'
+      }),
+      navigationEntry(context, 'urn:pixishelf:series', '系列', ['series'], { kind: 'navigation', updated }),
+      navigationEntry(context, 'urn:pixishelf:artists', '艺术家', ['artists'], { kind: 'navigation', updated }),
+      navigationEntry(context, 'urn:pixishelf:tags', '标签', ['tags'], { kind: 'navigation', updated })
+    ]
+  }
+}
+
+/**
+ * 面向普通 RSS/Atom 阅读器的最近入库订阅，正文内嵌封面
+ */
+async function updatesFeed(context: OpdsFeedContext): Promise<OpdsFeed> {
+  const artworks = await prisma.artwork.findMany({
+    where: VISIBLE_ARTWORK_WHERE,
+    select: ARTWORK_ENTRY_SELECT,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: OPDS_PAGE_SIZE
+  })
+  const entries = artworks.map((artwork) => {
+    const entry = toArtworkEntry(artwork, context.token)
+    const cover = entry.links.find((link) => link.rel === OPDS_REL.image)
+    const coverHtml = cover ? `<p><img src="${cover.href}" alt=""/></p>` : ''
+    return {
+      ...entry,
+      content: `${coverHtml}${artwork.description ?? ''}` || null,
+      links: entry.links.filter((link) => link.rel !== OPDS_REL.pageStream)
+    }
+  })
+  return {
+    id: 'urn:pixishelf:updates',
+    title: 'PixiShelf 最近入库',
+    updated: artworks[0]?.updatedAt ?? context.now ?? new Date(),
+    links: [{ rel: 'self', href: opdsHref(context.token, 'updates'), type: opdsFeedType() }],
+    entries
+  }
+}
+
+async function seriesListFeed(context: OpdsFeedContext): Promise<OpdsFeed> {
+  const [items, total] = await Promise.all([
+    prisma.series.findMany({
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        updatedAt: true,
+        _count: { select: { seriesArtworks: { where: { artwork: VISIBLE_ARTWORK_WHERE } } } }
+      },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      skip: pageOffset(context.page),
+      take: OPDS_PAGE_SIZE
+    }),
+    prisma.series.count()
+  ])
+  return {
+    id: 'urn:pixishelf:series',
+    title: '系列',
+    updated: context.now ?? new Date(),
+    kind: 'navigation',
+    links: feedLinks(context, 'navigation', ['series'], total),
+    entries: items.map((series) =>
+      navigationEntry(context, `urn:pixishelf:series:${series.id}`, series.title, ['series', series.id], {
+        kind: 'acquisition',
+        updated: series.updatedAt,
+        content: series.description || `${series._count.seriesArtworks} 件作品`
+      })
+    )
+  }
+}
+
+/**
+ * 系列内作品按 SeriesArtwork.sortOrder 排列，与站内系列页一致
+ */
+async function seriesArtworksFeed(context: OpdsFeedContext, seriesId: number): Promise<OpdsFeed | null> {
+  const series = await prisma.series.findUnique({ where: { id: seriesId }, select: { id: true, title: true } })
+  if (!series) return null
+
+  const where = { seriesId, artwork: VISIBLE_ARTWORK_WHERE } satisfies Prisma.SeriesArtworkWhereInput
+  const [items, total] = await Promise.all([
+    prisma.seriesArtwork.findMany({
+      where,
+      select: { artwork: { select: ARTWORK_ENTRY_SELECT } },
+      orderBy: [{ sortOrder: 'asc' }, { artworkId: 'asc' }],
+      skip: pageOffset(context.page),
+      take: OPDS_PAGE_SIZE
+    }),
+    prisma.seriesArtwork.count({ where })
+  ])
+  const segments = ['series', series.id]
+  return {
+    id: `urn:pixishelf:series:${series.id}`,
+    title: series.title,
+    updated: context.now ?? new Date(),
+    kind: 'acquisition',
+    links: feedLinks(context, 'acquisition', segments, total),
+    entries: items.map(({ artwork }) => toArtworkEntry(artwork, context.token))
+  }
+}
+
+async function artistListFeed(context: OpdsFeedContext): Promise<OpdsFeed> {
+  const where = { artworks: { some: VISIBLE_ARTWORK_WHERE } } satisfies Prisma.ArtistWhereInput
+  const [items, total] = await Promise.all([
+    prisma.artist.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        updatedAt: true,
+        _count: { select: { artworks: { where: VISIBLE_ARTWORK_WHERE } } }
+      },
+      orderBy: [{ name: 'asc' }, { id: 'asc' }],
+      skip: pageOffset(context.page),
+      take: OPDS_PAGE_SIZE
+    }),
+    prisma.artist.count({ where })
+  ])
+  return {
+    id: 'urn:pixishelf:artists',
+    title: '艺术家',
+    updated: context.now ?? new Date(),
+    kind: 'navigation',
+    links: feedLinks(context, 'navigation', ['artists'], total),
+    entries: items.map((artist) =>
+      navigationEntry(context, `urn:pixishelf:artist:${artist.id}`, artist.name, ['artists', artist.id], {
+        kind: 'acquisition',
+        updated: artist.updatedAt,
+        content: `${artist._count.artworks} 件作品`
+      })
+    )
+  }
+}
+
+async function tagListFeed(context: OpdsFeedContext): Promise<OpdsFeed> {
+  const where = { artworkCount: { gt: 0 } } satisfies Prisma.TagWhereInput
+  const [items, total] = await Promise.all([
+    prisma.tag.findMany({
+      where,
+      select: { id: true, name: true, name_zh: true, artworkCount: true, updatedAt: true },
+      orderBy: [{ artworkCount: 'desc' }, { name: 'asc' }],
+      skip: pageOffset(context.page),
+      take: OPDS_PAGE_SIZE
+    }),
+    prisma.tag.count({ where })
+  ])
+  return {
+    id: 'urn:pixishelf:tags',
+    title: '标签',
+    updated: context.now ?? new Date(),
+    kind: 'navigation',
+    links: feedLinks(context, 'navigation', ['tags'], total),
+    entries: items.map((tag) =>
+      navigationEntry(context, `urn:pixishelf:tag:${tag.id}`, tag.name_zh || tag.name, ['tags', tag.id], {
+        kind: 'acquisition',
+        updated: tag.updatedAt,
+        content: `${tag.artworkCount} 件作品`
+      })
+    )
+  }
+}
+
+/**
+ * 按目录视图组装订阅；引用的系列、艺术家或标签不存在时返回 null
+ */
+export async function buildOpdsFeed(target: FeedTarget, context: OpdsFeedContext): Promise<OpdsFeed | null> {
+  switch (target.view) {
+    case 'root':
+      return rootFeed(context)
+    case 'updates':
+      return updatesFeed(context)
+    case 'artworks':
+      return acquisitionFeed(context, { id: 'urn:pixishelf:artworks', title: '最近入库', segments: ['artworks'] }, {}, [
+        { createdAt: 'desc' },
+        { id: 'desc' }
+      ])
+    case 'series':
+      return seriesListFeed(context)
+    case 'seriesArtworks':
+      return seriesArtworksFeed(context, target.id)
+    case 'artists':
+      return artistListFeed(context)
+    case 'artistArtworks': {
+      const artist = await prisma.artist.findUnique({ where: { id: target.id }, select: { id: true, name: true } })
+      if (!artist) return null
+      return acquisitionFeed(
+        context,
+        { id: `urn:pixishelf:artist:${artist.id}`, title: artist.name, segments: ['artists', artist.id] },
+        { artistId: artist.id },
+        [{ sourceDate: { sort: 'desc', nulls: 'last' } }, { id: 'desc' }]
+      )
+    }
+    case 'tags':
+      return tagListFeed(context)
+    case 'tagArtworks': {
+      const tag = await prisma.tag.findUnique({
+        where: { id: target.id },
+        select: { id: true, name: true, name_zh: true }
+      })
+      if (!tag) return null
+      return acquisitionFeed(
+        context,
+        { id: `urn:pixishelf:tag:${tag.id}`, title: tag.name_zh || tag.name, segments: ['tags', tag.id] },
+        { artworkTags: { some: { tagId: tag.id } } },
+        [{ createdAt: 'desc' }, { id: 'desc' }]
+      )
+    }
+  }
+}
+
+/**
+ * 按 PSE 页号（从 0 开始）定位作品页面的相对路径，跳过视频
+ */
+export async function getOpdsPagePath(artworkId: number, page: number): Promise<string | null> {
+  const artwork = await prisma.artwork.findFirst({
+    where: { id: artworkId, ...VISIBLE_ARTWORK_WHERE },
+    select: { images: ARTWORK_ENTRY_SELECT.images }
+  })
+  return artwork?.images.filter(isPageImage)[page]?.path ?? null
+}
@@ -0,0 +1,187 @@
+/**
+ * OPDS 1.2 / Atom 渲染与路径约定。
+ * 这里只处理纯数据，不访问数据库，目录查询见 opds-catalog-service。
+ */
+
+export type OpdsFeedKind = 'navigation' | 'acquisition'
+
+export const OPDS_PAGE_SIZE = 50
+
+export const OPDS_REL = {
+  image: 'http://opds-spec.org/image',
+  thumbnail: 'http://opds-spec.org/image/thumbnail',
+  // OPDS Page Streaming Extension：阅读器按页号逐张拉取，不需要打包下载
+  pageStream: 'http://vaemendis.net/opds-pse/stream'
+} as const
+
+export interface OpdsLink {
+  rel: string
+  href: string
+  type: string
+  title?: string
+  /** PSE 页数，对应 pse:count */
+  pageCount?: number
+}
+
+export interface OpdsEntry {
+  id: string
+  title: string
+  updated: Date
+  published?: Date | null
+  authors?: { name: string; uri?: string }[]
+  categories?: { term: string; label: string }[]
+  /** HTML 片段，渲染时整体转义为 type="html" */
+  content?: string | null
+  links: OpdsLink[]
+}
+
+export interface OpdsFeed {
+  id: string
+  title: string
+  updated: Date
+  /** 不设置时按普通 Atom 订阅输出 */
+  kind?: OpdsFeedKind
+  links: OpdsLink[]
+  entries: OpdsEntry[]
+}
+
+export type OpdsTarget =
+  | { view: 'root' }
+  | { view: 'updates' }
+  | { view: 'artworks' }
+  | { view: 'series' }
+  | { view: 'seriesArtworks'; id: number }
+  | { view: 'artists' }
+  | { view: 'artistArtworks'; id: number }
+  | { view: 'tags' }
+  | { view: 'tagArtworks'; id: number }
+  | { view: 'page'; artworkId: number; page: number }
+
+const COLLECTION_VIEWS = {
+  series: 'seriesArtworks',
+  artists: 'artistArtworks',
+  tags: 'tagArtworks'
+} as const
+
+export function opdsFeedType(kind?: OpdsFeedKind) {
+  return kind ? `application/atom+xml;profile=opds-catalog;kind=${kind}` : 'application/atom+xml'
+}
+
+export function opdsHref(token: string, ...segments: (string | number)[]) {
+  return ['/api/opds', encodeURIComponent(token), ...segments.map((segment) => encodeURIComponent(segment))].join('/')
+}
+
+function parseId(value: string | undefined) {
+  if (!value || !/^\d+$/.test(value)) return null
+  const id = Number(value)
+  return Number.isSafeInteger(id) ? id : null
+}
+
+/**
+ * 把 /api/opds/[token]/ 之后的路径段解析为目录视图；无法识别时返回 null
+ */
+export function parseOpdsPath(segments: string[]): OpdsTarget | null {
+  const [head, second, third, fourth, ...rest] = segments
+  if (rest.length > 0) return null
+  if (head === undefined) return { view: 'root' }
+
+  if (head === 'updates' || head === 'series' || head === 'artists' || head === 'tags') {
+    if (second === undefined) return { view: head }
+    if (head === 'updates' || third !== undefined) return null
+    const id = parseId(second)
+    return id === null ? null : { view: COLLECTION_VIEWS[head], id }
+  }
+
+  if (head === 'artworks') {
+    if (second === undefined) return { view: 'artworks' }
+    const artworkId = parseId(second)
+    const page = parseId(fourth)
+    if (artworkId === null || third !== 'pages' || page === null) return null
+    return { view: 'page', artworkId, page }
+  }
+
+  return null
+}
+
+// XML 1.0 不允许除制表、换行、回车以外的 C0 控制字符，Pixiv 简介里偶尔会混入
+function isXmlCharacter(character: string) {
+  const code = character.charCodeAt(0)
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+}
+
+export function escapeXml(value: string) {
+  return Array.from(value)
+    .filter(isXmlCharacter)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function renderLink(link: OpdsLink) {
+  const attributes = [
+    `rel="${escapeXml(link.rel)}"`,
+    `href="${escapeXml(link.href)}"`,
+    `type="${escapeXml(link.type)}"`,
+    link.title ? `title="${escapeXml(link.title)}"` : null,
+    link.pageCount !== undefined ? `pse:count="${link.pageCount}"` : null
+  ]
+  return `<link ${attributes.filter(Boolean).join(' ')}/>`
+}
+
+function renderEntry(entry: OpdsEntry) {
+  const lines = [
+    '<entry>',
+    `<id>${escapeXml(entry.id)}</id>`,
+    `<title>${escapeXml(entry.title)}</title>`,
+    `<updated>${entry.updated.toISOString()}</updated>`
+  ]
+  if (entry.published) lines.push(`<published>${entry.published.toISOString()}</published>`)
+  for (const author of entry.authors ?? []) {
+    lines.push(
+      `<author><name>${escapeXml(author.name)}</name>${author.uri ? `<uri>${escapeXml(author.uri)}</uri>` : ''}</author>`
+    )
+  }
+  for (const category of entry.categories ?? []) {
+    lines.push(`<category term="${escapeXml(category.term)}" label="${escapeXml(category.label)}"/>`)
+  }
+  if (entry.content) lines.push(`<content type="html">${escapeXml(entry.content)}</content>`)
+  lines.push(...entry.links.map(renderLink), '</entry>')
+  return lines.join('\n')
+}
+
+export function renderOpdsFeed(feed: OpdsFeed) {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:opds="http://opds-spec.org/2010/catalog" xmlns:pse="http://vaemendis.net/opds-pse/ns">',
+    `<id>${escapeXml(feed.id)}</id>`,
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<updated>${feed.updated.toISOString()}</updated>`,
+    '<author><name>PixiShelf</name></author>',
+    ...feed.links.map(renderLink),
+    ...feed.entries.map(renderEntry),
+    '</feed>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * 按 OPDS 约定生成 first/previous/next 分页链接
+ */
+export function buildPaginationLinks(
+  href: string,
+  kind: OpdsFeedKind,
+  page: number,
+  total: number,
+  pageSize = OPDS_PAGE_SIZE
+): OpdsLink[] {
+  const type = opdsFeedType(kind)
+  const pageHref = (target: number) => (target === 1 ? href : `${href}?page=${target}`)
+  const lastPage = Math.max(1, Math.ceil(total / pageSize))
+  const links: OpdsLink[] = [{ rel: 'first', href: pageHref(1), type }]
+  if (page > 1) links.push({ rel: 'previous', href: pageHref(Math.min(page - 1, lastPage)), type })
+  if (page < lastPage) links.push({ rel: 'next', href: pageHref(page + 1), type })
+  return links
+}
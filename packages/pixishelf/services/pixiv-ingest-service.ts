@@ -0,0 +1,285 @@
+import 'server-only'
+
+import { createHash } from 'node:crypto'
+import { Prisma, type PrismaClient } from '@pixishelf/db'
+import { resolveIngestTagIds, syncArtworkImpliedTags } from '@pixishelf/job-executors'
+import logger from '@/lib/logger'
+import { prisma } from '@/lib/prisma'
+import type {
+  PixivIngestArtwork,
+  PixivIngestItemKind,
+  PixivIngestItemResult,
+  PixivIngestItemStatus,
+  PixivIngestRequest,
+  PixivIngestResponse,
+  PixivIngestTag,
+  PixivIngestUser
+} from '@/schemas/pixiv-ingest.dto'
+
+const PIXIV_PROVIDER_KEY = 'pixiv'
+const SOURCE_TAG_NAMESPACE = 'general'
+// 扩展提交的快照与扫描写入的快照共用同一套归一化字段，版本号保持一致
+const PROVIDER_SCHEMA_VERSION = 1
+
+/**
+ * 写入浏览器扩展提交的 Pixiv 元数据。
+ * 只更新库中已存在的作品、标签与艺术家；每个条目独立提交，单条失败不影响其他条目。
+ */
+export async function ingestPixivPayload(
+  payload: PixivIngestRequest,
+  now: Date = new Date()
+): Promise<PixivIngestResponse> {
+  const results: PixivIngestItemResult[] = []
+
+  for (const artwork of payload.artworks) {
+    results.push(await runItem('artwork', artwork.id, () => ingestArtwork(artwork, now)))
+  }
+  for (const tag of payload.tags) {
+    results.push(await runItem('tag', tag.originalTag, () => ingestTag(tag)))
+  }
+  for (const user of payload.users) {
+    results.push(await runItem('user', user.userId, () => ingestUser(user)))
+  }
+
+  const summary: Record<PixivIngestItemStatus, number> = { UPDATED: 0, SKIPPED: 0, NOT_FOUND: 0, FAILED: 0 }
+  for (const result of results) summary[result.status] += 1
+  return { results, summary }
+}
+
+type ItemOutcome = Pick<PixivIngestItemResult, 'status' | 'message'>
+
+async function runItem(
+  kind: PixivIngestItemKind,
+  key: string,
+  run: () => Promise<ItemOutcome>
+): Promise<PixivIngestItemResult> {
+  try {
+    return { kind, key, ...(await run()) }
+  } catch (error) {
+    logger.warn(`Pixiv ingest failed for ${kind} ${key}:`, error)
+    return { kind, key, status: 'FAILED', message: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * 作品只通过已验证的 pixiv 来源引用定位，不认领只有 externalId 的旧数据。
+ * 标题与简介在写语句条件中检查本地覆盖标记，与扫描刷新保持相同语义。
+ * URL 归档作品的元数据只随修订发布变化，扩展提交的快照不会写入。
+ */
+async function ingestArtwork(artwork: PixivIngestArtwork, now: Date): Promise<ItemOutcome> {
+  const ref = await prisma.artworkExternalRef.findUnique({
+    where: { providerKey_externalId: { providerKey: PIXIV_PROVIDER_KEY, externalId: artwork.id } },
+    select: { id: true, artworkId: true, artwork: { select: { createdVia: true } } }
+  })
+  if (!ref) {
+    return { status: 'NOT_FOUND', message: '作品尚未入库或缺少 Pixiv 来源引用' }
+  }
+  if (ref.artwork.createdVia === 'URL_ARCHIVE') {
+    return { status: 'SKIPPED', message: 'URL 归档作品请通过归档更新检查刷新元数据' }
+  }
+
+  const normalizedMetadata = normalizedIngestMetadata(artwork)
+  const metadataHash = createHash('sha256').update(JSON.stringify(normalizedMetadata)).digest('hex')
+  const { artworkId } = ref
+
+  // 标签规则等共享写入逻辑按未扩展的 TransactionClient 声明，这里与其他服务一样使用基础客户端类型开启事务
+  await (prisma as unknown as PrismaClient).$transaction(async (tx) => {
+    await tx.artwork.update({
+      where: { id: artworkId },
+      data: {
+        bookmarkCount: artwork.bookmarkCount,
+        originalUrl: normalizedMetadata.original,
+        size: normalizedMetadata.size,
+        sourceDate: normalizedMetadata.sourceDate ? new Date(normalizedMetadata.sourceDate) : undefined,
+        sourceUrl: normalizedMetadata.url,
+        thumbnailUrl: normalizedMetadata.thumbnail,
+        xRestrict: normalizedMetadata.xRestrict
+      }
+    })
+    await tx.artwork.updateMany({
+      where: { id: artworkId, titleOverridden: false },
+      data: { title: artwork.title }
+    })
+    await tx.artwork.updateMany({
+      where: { id: artworkId, descriptionOverridden: false },
+      data: { description: artwork.description, descriptionLength: artwork.description.length }
+    })
+
+    await tx.artworkExternalRef.update({
+      where: { id: ref.id },
+      data: { metadataHash, fetchedAt: now }
+    })
+    await tx.artworkSourceSnapshot.upsert({
+      where: { externalRefId_metadataHash: { externalRefId: ref.id, metadataHash } },
+      create: {
+        externalRefId: ref.id,
+        providerSchemaVersion: PROVIDER_SCHEMA_VERSION,
+        normalizedMetadata: toInputJson(normalizedMetadata),
+        rawMetadata: toInputJson({ sourceFormat: 'extension', artwork }),
+        metadataHash,
+        fetchedAt: now
+      },
+      update: { fetchedAt: now }
+    })
+
+    await replaceSourceTags(tx, artworkId, ref.id, normalizedMetadata.tags)
+    await applyTagTranslations(tx, artwork.tags)
+
+    if (artwork.series) {
+      // 系列标题可能被本地改过且没有覆盖标记，已存在的系列只补关联不改标题
+      const series = await tx.series.upsert({
+        where: { source_externalId: { source: 'PIXIV', externalId: artwork.series.id } },
+        create: { source: 'PIXIV', externalId: artwork.series.id, title: artwork.series.title },
+        update: {},
+        select: { id: true }
+      })
+      await tx.seriesArtwork.upsert({
+        where: { seriesId_artworkId: { seriesId: series.id, artworkId } },
+        create: { seriesId: series.id, artworkId, sortOrder: artwork.series.order },
+        update: { sortOrder: artwork.series.order }
+      })
+    }
+  })
+
+  return { status: 'UPDATED' }
+}
+
+function normalizedIngestMetadata(artwork: PixivIngestArtwork) {
+  const sourceDate = artwork.createDate ?? artwork.uploadDate
+  return {
+    id: artwork.id,
+    user: artwork.authorName,
+    userId: artwork.authorId,
+    title: artwork.title,
+    description: artwork.description,
+    tags: [...new Set(artwork.tags.map((tag) => tag.name))],
+    url: `https://www.pixiv.net/artworks/${artwork.id}`,
+    original: artwork.url ?? null,
+    thumbnail: artwork.thumbnailUrl ?? null,
+    xRestrict: String(artwork.xRestrict),
+    size: artwork.width && artwork.height ? `${artwork.width} x ${artwork.height}` : null,
+    bookmarkCount: artwork.bookmarkCount,
+    sourceDate: sourceDate ? new Date(sourceDate).toISOString() : null,
+    series: artwork.series ?? null,
+    metadataFormat: 'extension'
+  }
+}
+
+async function replaceSourceTags(
+  tx: Prisma.TransactionClient,
+  artworkId: number,
+  sourceRefId: string,
+  names: string[]
+) {
+  const tagIds = await resolveIngestTagIds(
+    tx,
+    names.map((name) => ({ namespace: SOURCE_TAG_NAMESPACE, name }))
+  )
+
+  // 只清理当前来源引用写入的 SOURCE 标签，手动、派生与其他来源的标签保持不变
+  await tx.artworkTag.deleteMany({
+    where: {
+      artworkId,
+      provenance: 'SOURCE',
+      sourceRefId,
+      ...(tagIds.length > 0 ? { tagId: { notIn: tagIds } } : {})
+    }
+  })
+  for (const tagId of tagIds) {
+    await tx.artworkTag.upsert({
+      where: { artworkId_tagId: { artworkId, tagId } },
+      create: { artworkId, tagId, provenance: 'SOURCE', sourceRefId },
+      update: {}
+    })
+  }
+  await syncArtworkImpliedTags(tx, artworkId)
+}
+
+/**
+ * Pixiv 自带的标签翻译；手动翻译（MANUAL）视为本地覆盖，不会被替换
+ */
+async function applyTagTranslations(tx: Prisma.TransactionClient, tags: PixivIngestArtwork['tags']) {
+  for (const tag of tags) {
+    const translation = {
+      ...(tag.translation?.zh ? { name_zh: tag.translation.zh } : {}),
+      ...(tag.translation?.en ? { name_en: tag.translation.en } : {})
+    }
+    if (Object.keys(translation).length === 0) continue
+    await tx.tag.updateMany({
+      where: { namespace: SOURCE_TAG_NAMESPACE, name: tag.name, translateType: { not: 'MANUAL' } },
+      data: { ...translation, translateType: 'PIXIV' }
+    })
+  }
+}
+
+async function ingestTag(tag: PixivIngestTag): Promise<ItemOutcome> {
+  const existing = await prisma.tag.findUnique({
+    where: { namespace_name: { namespace: SOURCE_TAG_NAMESPACE, name: tag.originalTag } },
+    select: { id: true }
+  })
+  if (!existing) {
+    return { status: 'NOT_FOUND', message: '标签不存在' }
+  }
+
+  const translation = {
+    ...(tag.translation ? { name_zh: tag.translation } : {}),
+    ...(tag.englishTranslation ? { name_en: tag.englishTranslation } : {})
+  }
+  const details = {
+    ...(tag.abstract ? { abstract: tag.abstract } : {}),
+    // 百科图片由扩展打包下载，库里只记录文件名
+    ...(tag.imageUrl ? { image: `/${fileNameFromUrl(tag.imageUrl)}` } : {})
+  }
+  const hasTranslation = Object.keys(translation).length > 0
+  if (!hasTranslation && Object.keys(details).length === 0) {
+    return { status: 'SKIPPED', message: '没有可更新的字段' }
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (Object.keys(details).length > 0) {
+      await tx.tag.update({ where: { id: existing.id }, data: details })
+    }
+    if (!hasTranslation) return { status: 'UPDATED' as const }
+
+    const { count } = await tx.tag.updateMany({
+      where: { id: existing.id, translateType: { not: 'MANUAL' } },
+      data: { ...translation, translateType: 'PIXIV' }
+    })
+    if (count > 0) return { status: 'UPDATED' as const }
+    return Object.keys(details).length > 0
+      ? { status: 'UPDATED' as const, message: '已保留手动翻译' }
+      : { status: 'SKIPPED' as const, message: '已保留手动翻译' }
+  })
+}
+
+/**
+ * 头像与背景图由扩展打包下载到 artists/{userId}/，这里只写入对应的文件名
+ */
+async function ingestUser(user: PixivIngestUser): Promise<ItemOutcome> {
+  if (!user.avatarUrl && !user.backgroundUrl) {
+    return { status: 'SKIPPED', message: '没有头像或背景图' }
+  }
+
+  const { count } = await prisma.artist.updateMany({
+    where: { userId: user.userId },
+    data: {
+      ...(user.avatarUrl ? { avatar: `avatar.${fileExtensionFromUrl(user.avatarUrl)}` } : {}),
+      backgroundImg: user.backgroundUrl ? `background.${fileExtensionFromUrl(user.backgroundUrl)}` : null
+    }
+  })
+  return count > 0 ? { status: 'UPDATED' } : { status: 'NOT_FOUND', message: '艺术家不存在' }
+}
+
+function fileNameFromUrl(url: string) {
+  return decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '')
+}
+
+function fileExtensionFromUrl(url: string) {
+  const name = fileNameFromUrl(url)
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : 'jpg'
+}
+
+function toInputJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
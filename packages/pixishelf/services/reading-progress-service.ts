@@ -0,0 +1,142 @@
+import 'server-only'
+
+import type { ArtworkReadingProgress } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type {
+  ReadingProgressSaveSchema,
+  ReadingProgressView,
+  SeriesReadingProgress
+} from '@/schemas/reading-progress.dto'
+
+/** 与播放器“继续播放”的判定一致：距离结尾不足该秒数即视为看完 */
+const VIDEO_COMPLETION_TAIL_SECONDS = 5
+
+/**
+ * 到达最后一个媒体即读完；最后一个媒体是视频时还需要播放到结尾附近
+ */
+export function isReadingComplete(
+  input: Pick<ReadingProgressSaveSchema, 'mediaIndex' | 'mediaCount' | 'videoPositionSec' | 'videoDurationSec'>
+) {
+  if (input.mediaIndex < input.mediaCount - 1) return false
+  if (input.videoPositionSec === undefined) return true
+  const duration = input.videoDurationSec ?? 0
+  return duration > 0 && input.videoPositionSec >= duration - VIDEO_COMPLETION_TAIL_SECONDS
+}
+
+function toReadingProgressView(progress: ArtworkReadingProgress): ReadingProgressView {
+  return {
+    artworkId: progress.artworkId,
+    mediaIndex: progress.mediaIndex,
+    mediaCount: progress.mediaCount,
+    imageId: progress.imageId,
+    videoPositionSec: progress.videoPositionSec,
+    completed: progress.completed,
+    updatedAt: progress.updatedAt.toISOString()
+  }
+}
+
+/**
+ * 保存阅读进度
+ * 停留在第一个媒体、没有播放进度且尚未读完时不新建记录，避免随手点开的作品都挤进“继续阅读”；
+ * 已有记录时照常更新（例如翻回第一页）。只有一个媒体的作品打开即读完，照常建立记录。
+ * @returns 保存后的进度；未建立记录时返回 null
+ */
+export async function saveReadingProgress(
+  userId: string,
+  input: ReadingProgressSaveSchema
+): Promise<ReadingProgressView | null> {
+  const mediaIndex = Math.min(input.mediaIndex, input.mediaCount - 1)
+  const data = {
+    mediaIndex,
+    mediaCount: input.mediaCount,
+    imageId: input.imageId ?? null,
+    videoPositionSec: input.videoPositionSec ?? null,
+    completed: isReadingComplete({ ...input, mediaIndex })
+  }
+
+  if (mediaIndex === 0 && !input.videoPositionSec && !data.completed) {
+    const { count } = await prisma.artworkReadingProgress.updateMany({
+      where: { userId, artworkId: input.artworkId },
+      data
+    })
+    return count > 0 ? getReadingProgress(userId, input.artworkId) : null
+  }
+
+  const progress = await prisma.artworkReadingProgress.upsert({
+    where: { userId_artworkId: { userId, artworkId: input.artworkId } },
+    create: { userId, artworkId: input.artworkId, ...data },
+    update: data
+  })
+  return toReadingProgressView(progress)
+}
+
+export async function getReadingProgress(userId: string, artworkId: number): Promise<ReadingProgressView | null> {
+  const progress = await prisma.artworkReadingProgress.findUnique({
+    where: { userId_artworkId: { userId, artworkId } }
+  })
+  return progress ? toReadingProgressView(progress) : null
+}
+
+/**
+ * 批量获取多个作品的阅读进度，供沉浸浏览等列表场景使用
+ */
+export async function getReadingProgressMap(
+  userId: string,
+  artworkIds: number[]
+): Promise<Map<number, ReadingProgressView>> {
+  if (!userId || artworkIds.length === 0) return new Map()
+
+  const rows = await prisma.artworkReadingProgress.findMany({
+    where: { userId, artworkId: { in: artworkIds } }
+  })
+  return new Map(rows.map((row) => [row.artworkId, toReadingProgressView(row)]))
+}
+
+export async function clearReadingProgress(userId: string, artworkId: number) {
+  const { count } = await prisma.artworkReadingProgress.deleteMany({ where: { userId, artworkId } })
+  return count > 0
+}
+
+/**
+ * 最近看过但尚未读完的作品进度，按最后阅读时间倒序；作品卡片由调用方补充
+ */
+export async function listUnfinishedReadingProgress(userId: string, limit: number): Promise<ReadingProgressView[]> {
+  const rows = await prisma.artworkReadingProgress.findMany({
+    where: { userId, completed: false, artwork: { deletedAt: null } },
+    orderBy: { updatedAt: 'desc' },
+    take: limit
+  })
+  return rows.map(toReadingProgressView)
+}
+
+/**
+ * 系列阅读进度：统计已读完篇数，并按 sortOrder 找出第一篇未读完的作品
+ */
+export async function getSeriesReadingProgress(userId: string, seriesId: number): Promise<SeriesReadingProgress> {
+  const entries = await prisma.seriesArtwork.findMany({
+    where: { seriesId, artwork: { deletedAt: null } },
+    orderBy: { sortOrder: 'asc' },
+    select: { sortOrder: true, artwork: { select: { id: true, title: true } } }
+  })
+  const progressByArtworkId = await getReadingProgressMap(
+    userId,
+    entries.map((entry) => entry.artwork.id)
+  )
+
+  const completedCount = entries.filter((entry) => progressByArtworkId.get(entry.artwork.id)?.completed).length
+  const nextEntry = entries.find((entry) => !progressByArtworkId.get(entry.artwork.id)?.completed)
+
+  return {
+    seriesId,
+    total: entries.length,
+    completedCount,
+    next: nextEntry
+      ? {
+          id: nextEntry.artwork.id,
+          title: nextEntry.artwork.title,
+          order: nextEntry.sortOrder,
+          progress: progressByArtworkId.get(nextEntry.artwork.id) ?? null
+        }
+      : null
+  }
+}
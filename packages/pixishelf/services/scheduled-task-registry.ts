@@ -24,7 +24,11 @@ export const SCHEDULED_TASK_TYPES = {
   ARCHIVE_MAINTENANCE: 'ARCHIVE_MAINTENANCE',
   ARCHIVE_INTAKE_RETENTION_CLEANUP: 'ARCHIVE_INTAKE_RETENTION_CLEANUP',
   SCAN_RUN_RETENTION_CLEANUP: 'SCAN_RUN_RETENTION_CLEANUP',
-  TRIGGER_LOG_RETENTION_CLEANUP: 'TRIGGER_LOG_RETENTION_CLEANUP'
+  TRIGGER_LOG_RETENTION_CLEANUP: 'TRIGGER_LOG_RETENTION_CLEANUP',
+  IMAGE_PERCEPTUAL_HASH: 'IMAGE_PERCEPTUAL_HASH',
+  UGOIRA_CONVERSION: 'UGOIRA_CONVERSION',
+  MEDIA_INTEGRITY_SCRUB: 'MEDIA_INTEGRITY_SCRUB',
+  ARCHIVE_UPDATE_CHECK: 'ARCHIVE_UPDATE_CHECK'
 } as const
 
 export type ScheduledTaskType = (typeof SCHEDULED_TASK_TYPES)[keyof typeof SCHEDULED_TASK_TYPES]
@@ -76,6 +80,29 @@ export const SCHEDULED_TASK_DEFINITIONS: ScheduledTaskDefinition[] = [
     defaultEnabled: true,
     mutexKey: 'audit-maintenance'
   },
+  {
+    key: 'archive_update_check',
+    type: SCHEDULED_TASK_TYPES.ARCHIVE_UPDATE_CHECK,
+    name: '检查归档来源更新',
+    description:
+      '按上次抓取时间从旧到新，小批量重新解析已归档来源，记录元数据快照差异和画廊替代关系；只记录，不自动下载。',
+    defaultTime: '02:20',
+    defaultTimezone: 'Asia/Shanghai',
+    defaultPriority: 16,
+    defaultEnabled: false,
+    mutexKey: 'archive-source-check'
+  },
+  {
+    key: 'archive_update_check_auto_import',
+    type: SCHEDULED_TASK_TYPES.ARCHIVE_UPDATE_CHECK,
+    name: '检查归档来源更新并自动导入',
+    description: '与“检查归档来源更新”相同，但来源元数据变化时自动创建归档任务发布新版本，并导入尚未归档的替代画廊。',
+    defaultTime: '02:25',
+    defaultTimezone: 'Asia/Shanghai',
+    defaultPriority: 17,
+    defaultEnabled: false,
+    mutexKey: 'archive-source-check'
+  },
   {
     key: 'scan_run_retention_cleanup',
     type: SCHEDULED_TASK_TYPES.SCAN_RUN_RETENTION_CLEANUP,
@@ -98,6 +125,41 @@ export const SCHEDULED_TASK_DEFINITIONS: ScheduledTaskDefinition[] = [
     defaultEnabled: false,
     mutexKey: 'media-maintenance'
   },
+  {
+    key: 'image_perceptual_hash',
+    type: SCHEDULED_TASK_TYPES.IMAGE_PERCEPTUAL_HASH,
+    name: '计算图片感知指纹',
+    description: '为尚未计算的图片补齐感知指纹，供近似重复审阅使用；扫描和归档导入完成后也会自动增量计算。',
+    defaultTime: '03:45',
+    defaultTimezone: 'Asia/Shanghai',
+    defaultPriority: 35,
+    defaultEnabled: false,
+    mutexKey: 'media-maintenance'
+  },
+  {
+    key: 'media_integrity_scrub',
+    type: SCHEDULED_TASK_TYPES.MEDIA_INTEGRITY_SCRUB,
+    name: '巡检原媒体完整性',
+    description:
+      '为尚未计算的原媒体补齐 SHA-256，并按最久未校验优先轮换复核；每次最多读取 2000 个文件或 16 GiB，缺失和内容不一致记入完整性报告。',
+    defaultTime: '03:40',
+    defaultTimezone: 'Asia/Shanghai',
+    defaultPriority: 34,
+    defaultEnabled: false,
+    mutexKey: 'media-maintenance'
+  },
+  {
+    key: 'ugoira_conversion',
+    type: SCHEDULED_TASK_TYPES.UGOIRA_CONVERSION,
+    name: '转换 Pixiv 动图',
+    description:
+      '将尚未转换的 ugoira 帧压缩包按原始帧时间转换为 WebM，原 zip 保持不变；扫描和本地导入完成后也会自动增量转换。',
+    defaultTime: '03:50',
+    defaultTimezone: 'Asia/Shanghai',
+    defaultPriority: 35,
+    defaultEnabled: false,
+    mutexKey: 'media-maintenance'
+  },
   {
     key: 'video_media_probe',
     type: SCHEDULED_TASK_TYPES.VIDEO_MEDIA_PROBE,
@@ -203,6 +265,18 @@ export const SCHEDULED_TASK_HANDLERS: Record<ScheduledTaskType, ScheduledTaskHan
   },
   [SCHEDULED_TASK_TYPES.DERIVED_MEDIA_GC]: {
     start: startDerivedMediaGcTask
+  },
+  [SCHEDULED_TASK_TYPES.IMAGE_PERCEPTUAL_HASH]: {
+    start: startImagePerceptualHashTask
+  },
+  [SCHEDULED_TASK_TYPES.UGOIRA_CONVERSION]: {
+    start: startUgoiraConversionTask
+  },
+  [SCHEDULED_TASK_TYPES.MEDIA_INTEGRITY_SCRUB]: {
+    start: startMediaIntegrityScrubTask
+  },
+  [SCHEDULED_TASK_TYPES.ARCHIVE_UPDATE_CHECK]: {
+    start: startArchiveUpdateCheckTask
   }
 }
 
@@ -210,6 +284,22 @@ async function startDerivedMediaGcTask(): Promise<StartScheduledTaskResult> {
   throw new Error('Derived media GC requires central dispatcher cutover')
 }
 
+async function startImagePerceptualHashTask(): Promise<StartScheduledTaskResult> {
+  throw new Error('Image perceptual hashing requires central dispatcher cutover')
+}
+
+async function startUgoiraConversionTask(): Promise<StartScheduledTaskResult> {
+  throw new Error('Ugoira conversion requires central dispatcher cutover')
+}
+
+async function startMediaIntegrityScrubTask(): Promise<StartScheduledTaskResult> {
+  throw new Error('Media integrity scrub requires central dispatcher cutover')
+}
+
+async function startArchiveUpdateCheckTask(): Promise<StartScheduledTaskResult> {
+  throw new Error('Archive update check requires central dispatcher cutover')
+}
+
 async function startArchiveIntakeRetentionCleanupTask(): Promise<StartScheduledTaskResult> {
   throw new Error('Archive intake retention cleanup requires central dispatcher cutover')
 }
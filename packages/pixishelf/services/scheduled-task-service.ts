@@ -4,9 +4,18 @@ import logger from '@/lib/logger'
 import { prisma } from '@/lib/prisma'
 import { isCentralDispatcherCutoverEnabled } from '@/services/background-task/dispatcher-cutover'
 import { enqueueSingletonManualJob } from '@/services/background-task/manual-job-singleton'
+import { CronExpressionError } from '@/services/background-task/cron-expression'
 import {
   CENTRAL_SCHEDULE_TIMEZONE,
-  getCurrentOrNextShanghaiScheduleWindow
+  getCurrentOrNextShanghaiScheduleWindow,
+  getNextRecurringScheduleRuns,
+  getRecurringScheduleOccurrence,
+  getUpcomingShanghaiScheduleWindows,
+  isShanghaiWeeklyReconciliationDate,
+  SCHEDULE_INTERVAL_MAX_MINUTES,
+  SCHEDULE_INTERVAL_MIN_MINUTES,
+  toRecurringScheduleSpec,
+  type RecurringScheduleSpec
 } from '@/services/background-task/schedule-window'
 import { buildScheduledTaskJobDefinition } from '@/services/background-task/scheduled-task-payload'
 import * as JobService from '@/services/job-service'
@@ -28,6 +37,8 @@ export interface ScheduledTaskView {
   enabled: boolean
   scheduleMode: ScheduleMode
   time: string
+  intervalMinutes: number | null
+  cronExpression: string | null
   timezone: string
   priority: number
   mutexKey: string | null
@@ -38,6 +49,8 @@ export interface ScheduledTaskView {
   lastJobMode: 'FORMAL' | 'PREVIEW' | null
   lastJobResult: ScheduledTaskLastJobResult | null
   nextRunAt: string | null
+  // 接下来几次物化时间（ISO），供任务控制台预览 INTERVAL/CRON 表达式
+  nextRuns: string[]
   executionWindow?: {
     timezone: typeof CENTRAL_SCHEDULE_TIMEZONE
     startAt: string
@@ -75,14 +88,16 @@ export interface SchedulerTickResult {
   decisions: SchedulerDecision[]
 }
 
+const NEXT_RUN_PREVIEW_COUNT = 3
+
 export async function ensureDefaultScheduledTasks() {
   // 先幂等恢复任务定义：配置/时区/互斥键来自 registry 定义，任务项按 key 进行 upsert，避免用户删除后启动时丢失任务。
+  // 执行模式只在创建时取默认的 DAILY，之后保留管理员选择的 INTERVAL/CRON。
   for (const definition of SCHEDULED_TASK_DEFINITIONS) {
     await prisma.scheduledTask.upsert({
       where: { key: definition.key },
       update: {
         type: definition.type,
-        scheduleMode: ScheduleMode.DAILY,
         timezone: definition.defaultTimezone,
         mutexKey: definition.mutexKey
       },
@@ -118,11 +133,16 @@ export async function listScheduledTasks(): Promise<ScheduledTaskView[]> {
       })
     : []
   const lastJobById = new Map(lastJobs.map((job) => [job.id, job]))
-  const centralWindow = isCentralDispatcherCutoverEnabled() ? getCurrentOrNextShanghaiScheduleWindow(new Date()) : null
+  const now = new Date()
+  const centralMode = isCentralDispatcherCutoverEnabled()
+  const centralWindow = centralMode ? getCurrentOrNextShanghaiScheduleWindow(now) : null
 
   return tasks.map((task) => {
     const definition = getScheduledTaskDefinition(task.key)
     const lastJob = task.lastJobId ? lastJobById.get(task.lastJobId) : null
+    const recurring = getRecurringSpecOrNull(task)
+    const nextRuns = getNextScheduledRuns(task, centralMode, now)
+    const dailyWindow = task.scheduleMode === ScheduleMode.DAILY ? centralWindow : null
     return {
       id: task.id,
       key: task.key,
@@ -132,6 +152,8 @@ export async function listScheduledTasks(): Promise<ScheduledTaskView[]> {
       enabled: task.enabled,
       scheduleMode: task.scheduleMode,
       time: task.time,
+      intervalMinutes: task.intervalMinutes,
+      cronExpression: task.cronExpression,
       timezone: task.timezone,
       priority: task.priority,
       mutexKey: task.mutexKey,
@@ -141,15 +163,20 @@ export async function listScheduledTasks(): Promise<ScheduledTaskView[]> {
       lastJobStatus: lastJob?.status ?? null,
       lastJobMode: lastJob ? getScheduledTaskJobMode(lastJob.payload) : null,
       lastJobResult: lastJob ? getScheduledTaskLastJobResult(lastJob.result) : null,
-      nextRunAt: centralWindow
-        ? `${centralWindow.scheduledForDate} 00:00 ${CENTRAL_SCHEDULE_TIMEZONE}`
-        : getNextRunAt(task.time, task.timezone),
-      ...(centralWindow
+      nextRunAt: recurring
+        ? nextRuns[0]
+          ? formatLocalRunAt(new Date(nextRuns[0]), task.timezone)
+          : null
+        : dailyWindow
+          ? `${dailyWindow.scheduledForDate} 00:00 ${CENTRAL_SCHEDULE_TIMEZONE}`
+          : getNextRunAt(task.time, task.timezone),
+      nextRuns,
+      ...(dailyWindow
         ? {
             executionWindow: {
               timezone: CENTRAL_SCHEDULE_TIMEZONE,
-              startAt: centralWindow.availableAt.toISOString(),
-              endAt: centralWindow.deadlineAt.toISOString()
+              startAt: dailyWindow.availableAt.toISOString(),
+              endAt: dailyWindow.deadlineAt.toISOString()
             }
           }
         : {}),
@@ -158,6 +185,53 @@ export async function listScheduledTasks(): Promise<ScheduledTaskView[]> {
   })
 }
 
+type ScheduleFields = {
+  key: string
+  scheduleMode: ScheduleMode
+  time: string
+  intervalMinutes: number | null
+  cronExpression: string | null
+  timezone: string
+}
+
+function getRecurringSpecOrNull(task: ScheduleFields): RecurringScheduleSpec | null {
+  try {
+    return toRecurringScheduleSpec(task)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 计算接下来几次物化时间：中央调度下 DAILY 任务在每天共享窗口开始时物化（周度对账只在周一），
+ * 旧调度下按任务自身时间；INTERVAL/CRON 在两种模式下都按各自的发生时间。配置无效时返回空列表。
+ */
+function getNextScheduledRuns(task: ScheduleFields, centralMode: boolean, now: Date): string[] {
+  try {
+    const recurring = toRecurringScheduleSpec(task)
+    if (!recurring && centralMode) {
+      return getUpcomingShanghaiScheduleWindows(
+        now,
+        NEXT_RUN_PREVIEW_COUNT,
+        task.key === 'derived_media_gc_reconciliation' ? isShanghaiWeeklyReconciliationDate : undefined
+      ).map((window) => window.availableAt.toISOString())
+    }
+    const spec: RecurringScheduleSpec = recurring ?? {
+      mode: 'CRON',
+      cronExpression: `${Number(task.time.slice(3, 5))} ${Number(task.time.slice(0, 2))} * * *`,
+      timezone: task.timezone
+    }
+    return getNextRecurringScheduleRuns(spec, now, NEXT_RUN_PREVIEW_COUNT).map((run) => run.toISOString())
+  } catch {
+    return []
+  }
+}
+
+function formatLocalRunAt(date: Date, timezone: string) {
+  const local = getLocalDateTime(date, timezone)
+  return `${local.date} ${local.time} ${timezone}`
+}
+
 function getScheduledTaskJobMode(payload: unknown): 'FORMAL' | 'PREVIEW' {
   return isRecord(payload) && payload.dryRun === true ? 'PREVIEW' : 'FORMAL'
 }
@@ -195,6 +269,9 @@ export async function updateScheduledTask(input: {
   enabled?: boolean
   time?: string
   priority?: number
+  scheduleMode?: ScheduleMode
+  intervalMinutes?: number
+  cronExpression?: string
   config?: unknown
 }) {
   await ensureDefaultScheduledTasks()
@@ -203,11 +280,27 @@ export async function updateScheduledTask(input: {
     throw new Error(`Unknown scheduled task: ${input.key}`)
   }
 
-  const data: { enabled?: boolean; time?: string; priority?: number; config?: Prisma.InputJsonValue } = {}
+  const data: Prisma.ScheduledTaskUpdateInput = {}
   if (input.enabled !== undefined) data.enabled = input.enabled
   if (input.time !== undefined) data.time = normalizeDailyTime(input.time)
   if (input.priority !== undefined) data.priority = input.priority
   if (input.config !== undefined) data.config = JSON.parse(JSON.stringify(input.config)) as Prisma.InputJsonValue
+  if (input.intervalMinutes !== undefined) data.intervalMinutes = normalizeIntervalMinutes(input.intervalMinutes)
+  if (input.cronExpression !== undefined) data.cronExpression = normalizeCronExpression(input.cronExpression)
+  if (input.scheduleMode !== undefined) {
+    // 切换模式时要求该模式的参数已存在，避免物化器遇到无法计算的计划
+    const current = await prisma.scheduledTask.findUnique({
+      where: { key: input.key },
+      select: { intervalMinutes: true, cronExpression: true }
+    })
+    if (input.scheduleMode === ScheduleMode.INTERVAL && (data.intervalMinutes ?? current?.intervalMinutes) == null) {
+      throw new CronExpressionError('INTERVAL schedule requires intervalMinutes')
+    }
+    if (input.scheduleMode === ScheduleMode.CRON && (data.cronExpression ?? current?.cronExpression) == null) {
+      throw new CronExpressionError('CRON schedule requires cronExpression')
+    }
+    data.scheduleMode = input.scheduleMode
+  }
 
   return prisma.scheduledTask.update({
     where: { key: input.key },
@@ -317,12 +410,17 @@ export async function runSchedulerTick(now = new Date()): Promise<SchedulerTickR
 
   for (const task of tasks) {
     const localNow = getLocalDateTime(now, task.timezone)
-    const due = isDailyTaskDue({
-      currentDate: localNow.date,
-      currentTime: localNow.time,
-      scheduledTime: task.time,
-      lastTriggeredDate: task.lastTriggeredDate
-    })
+    const recurring = getRecurringSpecOrNull(task)
+    const due = recurring
+      ? isRecurringTaskDue(recurring, now, task.lastTriggeredAt)
+      : task.scheduleMode === ScheduleMode.DAILY
+        ? isDailyTaskDue({
+            currentDate: localNow.date,
+            currentTime: localNow.time,
+            scheduledTime: task.time,
+            lastTriggeredDate: task.lastTriggeredDate
+          })
+        : { due: false, reason: 'invalid_schedule' }
 
     if (!due.due) {
       decisions.push({ key: task.key, type: task.type, action: 'skipped', reason: due.reason })
@@ -386,6 +484,40 @@ function normalizeDailyTime(value: string) {
   return value
 }
 
+function normalizeIntervalMinutes(value: number) {
+  if (!Number.isInteger(value) || value < SCHEDULE_INTERVAL_MIN_MINUTES || value > SCHEDULE_INTERVAL_MAX_MINUTES) {
+    throw new CronExpressionError(
+      `Interval must be ${SCHEDULE_INTERVAL_MIN_MINUTES}-${SCHEDULE_INTERVAL_MAX_MINUTES} minutes`
+    )
+  }
+  return value
+}
+
+function normalizeCronExpression(value: string) {
+  const expression = value.trim().replace(/\s+/g, ' ')
+  const spec: RecurringScheduleSpec = { mode: 'CRON', cronExpression: expression, timezone: CENTRAL_SCHEDULE_TIMEZONE }
+  if (getNextRecurringScheduleRuns(spec, new Date(), 1).length === 0) {
+    throw new CronExpressionError('Cron expression never matches a date')
+  }
+  return expression
+}
+
+function isRecurringTaskDue(spec: RecurringScheduleSpec, now: Date, lastTriggeredAt: Date | null) {
+  let occurrence: ReturnType<typeof getRecurringScheduleOccurrence>
+  try {
+    occurrence = getRecurringScheduleOccurrence(spec, now)
+  } catch {
+    return { due: false, reason: 'invalid_schedule' }
+  }
+  if (!occurrence) {
+    return { due: false, reason: 'not_due' }
+  }
+  if (lastTriggeredAt && lastTriggeredAt.getTime() >= occurrence.scheduledFor.getTime()) {
+    return { due: false, reason: 'already_triggered' }
+  }
+  return { due: true }
+}
+
 function isDailyTaskDue(input: {
   currentDate: string
   currentTime: string
@@ -1,7 +1,18 @@
 'use server'
 
 import { prisma } from '@/lib/prisma'
-import { SearchSuggestion, SearchSuggestionsResponse, SearchSuggestionsSchema } from '@/schemas/search.dto'
+import {
+  SearchFacetBucket,
+  SearchFacets,
+  SearchQueryResponse,
+  SearchQuerySchema,
+  SearchSuggestion,
+  SearchSuggestionsResponse,
+  SearchSuggestionsSchema,
+  UNKNOWN_SOURCE_PROVIDER_FACET
+} from '@/schemas/search.dto'
+import { buildTsQuery } from '@/services/tag-service'
+import { getArtworkCardsByIds } from '@/services/artwork-service'
 
 interface RawArtistSuggestion {
   id: number
@@ -156,3 +167,343 @@ export async function getSearchSuggestions(options: SearchSuggestionsSchema): Pr
 
   return { suggestions }
 }
+
+interface RawSearchFacetRow {
+  facet: 'mediaType' | 'provider' | 'namespace'
+  value: string
+  count: number | bigint | string
+}
+
+interface RawSearchTagRow {
+  id: number
+  name: string
+  name_zh: string | null
+  name_en: string | null
+  namespace: string
+  artwork_count: number | bigint | string
+}
+
+interface RawSearchSeriesRow {
+  id: number
+  title: string
+  cover_image_url: string | null
+  artwork_count: number | bigint | string
+}
+
+/**
+ * 构建统一搜索的召回与打分 CTE。
+ *
+ * - matched_tags：标签全文向量（name / name_zh / name_en）或译名模糊命中；
+ * - scored：作品在标题、描述、艺术家、命中标签和系列标题上的加权得分，只保留至少命中一项的作品。
+ *
+ * 标题权重最高，标签累计得分设上限，避免标签很多的作品仅凭数量压过标题命中。
+ */
+function buildSearchScoreCte(term: string) {
+  const sqlParams: unknown[] = [term, `%${term}%`]
+  const tsquery = buildTsQuery(term)
+  let tagRankSQL = '0'
+  // 别名命中等同于名称命中
+  const tagLikeSQL =
+    't.name ILIKE $2 OR t.name_zh ILIKE $2 OR t.name_en ILIKE $2 OR t.id IN (SELECT ta."tagId" FROM tag_aliases ta WHERE ta.name ILIKE $2)'
+  let tagMatchSQL = tagLikeSQL
+
+  if (tsquery) {
+    sqlParams.push(tsquery)
+    tagRankSQL = `ts_rank(t.search_vector, to_tsquery('simple', $3))`
+    tagMatchSQL = `t.search_vector @@ to_tsquery('simple', $3) OR ${tagMatchSQL}`
+  }
+
+  const cteSQL = `
+    WITH matched_tags AS (
+      SELECT
+        t.id,
+        GREATEST(${tagRankSQL}, CASE WHEN ${tagLikeSQL} THEN 0.5 ELSE 0 END) AS rank
+      FROM "Tag" t
+      WHERE ${tagMatchSQL}
+    ),
+    scored AS (
+      SELECT
+        a.id,
+        a."sourceDate",
+        (CASE WHEN a.title ILIKE $2 THEN 3 ELSE 0 END)
+          + similarity(a.title, $1) * 2
+          + (CASE WHEN a.description ILIKE $2 THEN 1 ELSE 0 END)
+          + (CASE WHEN artist.name ILIKE $2 OR artist.username ILIKE $2 THEN 2 ELSE 0 END)
+          + COALESCE(tag_hit.score, 0)
+          + (CASE WHEN series_hit.matched THEN 1.5 ELSE 0 END) AS score
+      FROM "Artwork" a
+      LEFT JOIN "Artist" artist ON a."artistId" = artist.id
+      LEFT JOIN LATERAL (
+        SELECT LEAST(SUM(mt.rank), 3) AS score
+        FROM "ArtworkTag" at_hit
+        JOIN matched_tags mt ON mt.id = at_hit."tagId"
+        WHERE at_hit."artworkId" = a.id
+      ) tag_hit ON true
+      LEFT JOIN LATERAL (
+        SELECT true AS matched
+        FROM "SeriesArtwork" sa_hit
+        JOIN "Series" s_hit ON s_hit.id = sa_hit."seriesId"
+        WHERE sa_hit."artworkId" = a.id AND s_hit.title ILIKE $2
+        LIMIT 1
+      ) series_hit ON true
+      WHERE a."deletedAt" IS NULL
+        AND (
+          a.title ILIKE $2
+          OR a.description ILIKE $2
+          OR artist.name ILIKE $2
+          OR artist.username ILIKE $2
+          OR tag_hit.score IS NOT NULL
+          OR series_hit.matched
+        )
+    )
+  `
+
+  return { cteSQL, sqlParams, paramIndex: sqlParams.length + 1 }
+}
+
+/**
+ * 构建分面筛选条件；分面统计本身不受这些条件影响，方便用户在各取值之间切换。
+ */
+function buildSearchFacetFilter(
+  options: Pick<SearchQuerySchema, 'mediaTypes' | 'providers' | 'namespaces'>,
+  initialParamIndex: number
+) {
+  const conditions: string[] = []
+  const sqlParams: unknown[] = []
+  let paramIndex = initialParamIndex
+
+  if (options.mediaTypes.length > 0) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM "Image" i_facet
+      WHERE i_facet."artworkId" = s.id AND i_facet."mediaType" = ANY($${paramIndex}::"MediaType"[])
+    )`)
+    sqlParams.push(options.mediaTypes)
+    paramIndex++
+  }
+
+  if (options.providers.length > 0) {
+    const providerConditions: string[] = []
+    const knownProviders = options.providers.filter((provider) => provider !== UNKNOWN_SOURCE_PROVIDER_FACET)
+    if (knownProviders.length > 0) {
+      providerConditions.push(`EXISTS (
+        SELECT 1 FROM "artwork_external_refs" ref_facet
+        WHERE ref_facet."artworkId" = s.id AND ref_facet."providerKey" = ANY($${paramIndex}::text[])
+      )`)
+      sqlParams.push(knownProviders)
+      paramIndex++
+    }
+    if (knownProviders.length !== options.providers.length) {
+      providerConditions.push(`NOT EXISTS (
+        SELECT 1 FROM "artwork_external_refs" ref_facet WHERE ref_facet."artworkId" = s.id
+      )`)
+    }
+    conditions.push(`(${providerConditions.join(' OR ')})`)
+  }
+
+  if (options.namespaces.length > 0) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM "ArtworkTag" at_facet
+      JOIN "Tag" t_facet ON t_facet.id = at_facet."tagId"
+      WHERE at_facet."artworkId" = s.id AND t_facet.namespace = ANY($${paramIndex}::text[])
+    )`)
+    sqlParams.push(options.namespaces)
+    paramIndex++
+  }
+
+  return {
+    filterSQL: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    sqlParams,
+    paramIndex
+  }
+}
+
+/**
+ * 统一全文搜索
+ * 作品按相关度排序分页；第一页额外返回精确总数、分面统计以及命中的艺术家、标签和系列。
+ */
+export async function searchCatalog(options: SearchQuerySchema): Promise<SearchQueryResponse> {
+  const page = options.cursor ?? 1
+  const { pageSize } = options
+  const { cteSQL, sqlParams: cteParams, paramIndex: filterParamIndex } = buildSearchScoreCte(options.q)
+  const { filterSQL, sqlParams: filterParams, paramIndex } = buildSearchFacetFilter(options, filterParamIndex)
+  const listParams = [...cteParams, ...filterParams]
+
+  const pageQuery = `
+    ${cteSQL}
+    SELECT s.id
+    FROM scored s
+    ${filterSQL}
+    ORDER BY s.score DESC, s."sourceDate" DESC NULLS LAST, s.id DESC
+    LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+  `
+  const pagePromise = prisma.$queryRawUnsafe<Array<{ id: number }>>(
+    pageQuery,
+    ...listParams,
+    pageSize + 1,
+    (page - 1) * pageSize
+  )
+
+  if (page > 1) {
+    const rows = await pagePromise
+    return {
+      artworks: await getArtworkCardsByIds(rows.slice(0, pageSize).map(({ id }) => id)),
+      nextCursor: rows.length > pageSize ? page + 1 : undefined,
+      artists: [],
+      tags: [],
+      series: []
+    }
+  }
+
+  const countQuery = `
+    ${cteSQL}
+    SELECT COUNT(*) AS count FROM scored s ${filterSQL}
+  `
+  const facetQuery = `
+    ${cteSQL}
+    SELECT 'mediaType' AS facet, i."mediaType"::text AS value, COUNT(DISTINCT s.id) AS count
+    FROM scored s
+    JOIN "Image" i ON i."artworkId" = s.id
+    WHERE i."mediaType" <> 'UNKNOWN'
+    GROUP BY i."mediaType"
+    UNION ALL
+    SELECT 'provider' AS facet, COALESCE(ref."providerKey", '${UNKNOWN_SOURCE_PROVIDER_FACET}') AS value, COUNT(DISTINCT s.id) AS count
+    FROM scored s
+    LEFT JOIN "artwork_external_refs" ref ON ref."artworkId" = s.id
+    GROUP BY 2
+    UNION ALL
+    SELECT 'namespace' AS facet, t.namespace AS value, COUNT(DISTINCT s.id) AS count
+    FROM scored s
+    JOIN "ArtworkTag" at_ns ON at_ns."artworkId" = s.id
+    JOIN "Tag" t ON t.id = at_ns."tagId"
+    GROUP BY t.namespace
+  `
+
+  const [rows, countResult, facetRows, artists, tags, series] = await Promise.all([
+    pagePromise,
+    prisma.$queryRawUnsafe<{ count: bigint }[]>(countQuery, ...listParams),
+    prisma.$queryRawUnsafe<RawSearchFacetRow[]>(facetQuery, ...cteParams),
+    searchArtistHits(options.q),
+    searchTagHits(options.q),
+    searchSeriesHits(options.q)
+  ])
+
+  return {
+    artworks: await getArtworkCardsByIds(rows.slice(0, pageSize).map(({ id }) => id)),
+    total: Number(countResult[0]?.count || 0),
+    nextCursor: rows.length > pageSize ? page + 1 : undefined,
+    facets: toSearchFacets(facetRows),
+    artists,
+    tags,
+    series
+  }
+}
+
+function toSearchFacets(rows: RawSearchFacetRow[]): SearchFacets {
+  const facets: SearchFacets = { mediaTypes: [], providers: [], namespaces: [] }
+  const bucketsByFacet: Record<RawSearchFacetRow['facet'], SearchFacetBucket[]> = {
+    mediaType: facets.mediaTypes,
+    provider: facets.providers,
+    namespace: facets.namespaces
+  }
+
+  for (const row of rows) {
+    bucketsByFacet[row.facet]?.push({ value: row.value, count: Number(row.count) || 0 })
+  }
+  for (const buckets of Object.values(bucketsByFacet)) {
+    buckets.sort((left, right) => right.count - left.count || left.value.localeCompare(right.value))
+  }
+
+  return facets
+}
+
+async function searchArtistHits(term: string) {
+  const rawArtists = await prisma.$queryRawUnsafe<
+    Array<RawArtistSuggestion & { avatar: string | null }>
+  >(
+    `
+      SELECT
+        a.id,
+        a.name,
+        a.username,
+        a.avatar,
+        COUNT(aw.id) as artwork_count
+      FROM "Artist" a
+      LEFT JOIN "Artwork" aw ON a.id = aw."artistId" AND aw."deletedAt" IS NULL
+      WHERE (a.name ILIKE $1 OR a.username ILIKE $1)
+      GROUP BY a.id, a.name, a.username, a.avatar
+      ORDER BY similarity(a.name, $2) DESC, artwork_count DESC, a.name ASC
+      LIMIT 6
+    `,
+    `%${term}%`,
+    term
+  )
+
+  return rawArtists.map((artist) => ({
+    id: Number(artist.id),
+    name: artist.name,
+    username: artist.username,
+    avatar: artist.avatar,
+    artworkCount: Number(artist.artwork_count) || 0
+  }))
+}
+
+async function searchTagHits(term: string) {
+  const tsquery = buildTsQuery(term)
+  const sqlParams: unknown[] = [`%${term}%`]
+  // 命中别名时返回其指向的标签
+  let matchSQL =
+    'name ILIKE $1 OR name_zh ILIKE $1 OR name_en ILIKE $1 OR id IN (SELECT ta."tagId" FROM tag_aliases ta WHERE ta.name ILIKE $1)'
+  let rankSQL = '0'
+  if (tsquery) {
+    sqlParams.push(tsquery)
+    matchSQL = `search_vector @@ to_tsquery('simple', $2) OR ${matchSQL}`
+    rankSQL = `ts_rank(search_vector, to_tsquery('simple', $2))`
+  }
+
+  const rawTags = await prisma.$queryRawUnsafe<RawSearchTagRow[]>(
+    `
+      SELECT id, name, name_zh, name_en, namespace, "artworkCount" AS artwork_count
+      FROM "Tag"
+      WHERE ${matchSQL}
+      ORDER BY ${rankSQL} DESC, "artworkCount" DESC, id ASC
+      LIMIT 12
+    `,
+    ...sqlParams
+  )
+
+  return rawTags.map((tag) => ({
+    id: Number(tag.id),
+    name: tag.name,
+    name_zh: tag.name_zh,
+    name_en: tag.name_en,
+    namespace: tag.namespace,
+    artworkCount: Number(tag.artwork_count) || 0
+  }))
+}
+
+async function searchSeriesHits(term: string) {
+  const rawSeries = await prisma.$queryRawUnsafe<RawSearchSeriesRow[]>(
+    `
+      SELECT
+        s.id,
+        s.title,
+        s."coverImageUrl" AS cover_image_url,
+        COUNT(sa."artworkId") AS artwork_count
+      FROM "Series" s
+      LEFT JOIN "SeriesArtwork" sa ON sa."seriesId" = s.id
+      WHERE s.title ILIKE $1 OR s.description ILIKE $1
+      GROUP BY s.id, s.title, s."coverImageUrl"
+      ORDER BY similarity(s.title, $2) DESC, artwork_count DESC, s.id ASC
+      LIMIT 6
+    `,
+    `%${term}%`,
+    term
+  )
+
+  return rawSeries.map((series) => ({
+    id: Number(series.id),
+    title: series.title,
+    coverImageUrl: series.cover_image_url,
+    artworkCount: Number(series.artwork_count) || 0
+  }))
+}
@@ -1,6 +1,11 @@
 import { prisma } from '@/lib/prisma'
 import { SYSTEM_SETTING_KEYS, systemSettingsWithDefaultsSchema, updateSystemSettingsSchema } from '@/schemas/system-setting.dto'
 import type { SystemSettingsWithDefaults, UpdateSystemSettingsDTO } from '@/schemas/system-setting.dto'
+import {
+  DEFAULT_STORAGE_LAYOUT_TEMPLATE,
+  STORAGE_LAYOUT_TEMPLATE_SETTING_KEY,
+  storageLayoutTemplateSchema
+} from '@pixishelf/job-contracts'
 
 type SettingValue = string | number | boolean | unknown[] | Record<string, unknown> | null
 type SettingType = 'string' | 'boolean' | 'number' | 'json'
@@ -64,6 +69,32 @@ export async function setScanPath(value: string): Promise<void> {
   })
 }
 
+/**
+ * 获取作品存储布局模板
+ * 未配置时返回默认布局 `{creatorId}/{externalId}`，与历史迁移目标目录一致。
+ */
+export async function getStorageLayoutTemplate(): Promise<string> {
+  const setting = await prisma.setting.findUnique({
+    where: { key: STORAGE_LAYOUT_TEMPLATE_SETTING_KEY }
+  })
+
+  return setting?.value || DEFAULT_STORAGE_LAYOUT_TEMPLATE
+}
+
+/**
+ * 设置作品存储布局模板
+ * 只影响之后入队的迁移任务和新建的归档作品；已入队任务在入队时冻结了当时的模板。
+ */
+export async function setStorageLayoutTemplate(value: string): Promise<string> {
+  const template = storageLayoutTemplateSchema.parse(value)
+  await prisma.setting.upsert({
+    where: { key: STORAGE_LAYOUT_TEMPLATE_SETTING_KEY },
+    update: { value: template },
+    create: { key: STORAGE_LAYOUT_TEMPLATE_SETTING_KEY, value: template }
+  })
+  return template
+}
+
 export async function getSystemSettings(): Promise<SystemSettingsWithDefaults> {
   const settings = await prisma.setting.findMany({
     where: {
@@ -0,0 +1,125 @@
+import 'server-only'
+
+import type { SmartCollection } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ArtworksInfiniteQuerySchema } from '@/schemas/artwork.dto'
+import {
+  SmartCollectionFiltersSchema,
+  type SmartCollectionCreateSchema,
+  type SmartCollectionFilters,
+  type SmartCollectionSummary,
+  type SmartCollectionUpdateSchema
+} from '@/schemas/smart-collection.dto'
+import { buildArtworkWhereClause } from '@/services/artwork-service/query-builder'
+
+/**
+ * 把合集保存的筛选条件还原为作品列表查询参数；分页、排序等由调用方覆盖
+ */
+export function toArtworkListQuery(
+  filters: SmartCollectionFilters,
+  overrides: Partial<Record<keyof ArtworksInfiniteQuerySchema, unknown>> = {}
+): ArtworksInfiniteQuerySchema {
+  return ArtworksInfiniteQuerySchema.parse({ ...filters, ...overrides })
+}
+
+export async function listSmartCollections(userId: string): Promise<SmartCollectionSummary[]> {
+  const collections = await prisma.smartCollection.findMany({
+    where: { userId },
+    orderBy: [{ name: 'asc' }, { id: 'asc' }]
+  })
+
+  return Promise.all(collections.map((collection) => toSmartCollectionSummary(collection)))
+}
+
+export async function getSmartCollection(userId: string, id: number): Promise<SmartCollectionSummary | null> {
+  const collection = await prisma.smartCollection.findFirst({ where: { id, userId } })
+  return collection ? toSmartCollectionSummary(collection) : null
+}
+
+/**
+ * 只读取筛选条件，供作品分页与沉浸浏览复用，不做计数
+ */
+export async function getSmartCollectionFilters(userId: string, id: number): Promise<SmartCollectionFilters | null> {
+  const collection = await prisma.smartCollection.findFirst({ where: { id, userId }, select: { filters: true } })
+  return collection ? SmartCollectionFiltersSchema.parse(collection.filters) : null
+}
+
+export async function createSmartCollection(
+  userId: string,
+  input: SmartCollectionCreateSchema
+): Promise<SmartCollectionSummary> {
+  const collection = await prisma.smartCollection.create({
+    data: { userId, name: input.name, filters: input.filters, lastVisitedAt: new Date() }
+  })
+  return toSmartCollectionSummary(collection)
+}
+
+export async function updateSmartCollection(
+  userId: string,
+  input: SmartCollectionUpdateSchema
+): Promise<SmartCollectionSummary | null> {
+  const { count } = await prisma.smartCollection.updateMany({
+    where: { id: input.id, userId },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.filters !== undefined ? { filters: input.filters } : {})
+    }
+  })
+  return count > 0 ? getSmartCollection(userId, input.id) : null
+}
+
+export async function deleteSmartCollection(userId: string, id: number): Promise<boolean> {
+  const { count } = await prisma.smartCollection.deleteMany({ where: { id, userId } })
+  return count > 0
+}
+
+/**
+ * 记录访问时间，之后入库的命中作品会计入“新增”角标
+ */
+export async function markSmartCollectionVisited(userId: string, id: number): Promise<boolean> {
+  const { count } = await prisma.smartCollection.updateMany({
+    where: { id, userId },
+    data: { lastVisitedAt: new Date() }
+  })
+  return count > 0
+}
+
+async function toSmartCollectionSummary(collection: SmartCollection): Promise<SmartCollectionSummary> {
+  const filters = SmartCollectionFiltersSchema.parse(collection.filters)
+  const { artworkCount, newCount } = await countSmartCollectionArtworks(filters, collection.lastVisitedAt)
+
+  return {
+    id: collection.id,
+    name: collection.name,
+    filters,
+    artworkCount,
+    newCount,
+    lastVisitedAt: collection.lastVisitedAt?.toISOString() ?? null,
+    createdAt: collection.createdAt.toISOString(),
+    updatedAt: collection.updatedAt.toISOString()
+  }
+}
+
+/**
+ * 一次扫描同时得到命中总数与上次访问后新入库的数量；从未访问时 since 为 NULL，新增计数恒为 0
+ */
+async function countSmartCollectionArtworks(filters: SmartCollectionFilters, since: Date | null) {
+  const { whereSQL, sqlParams, paramIndex } = buildArtworkWhereClause(toArtworkListQuery(filters))
+  const result = await prisma.$queryRawUnsafe<{ count: bigint; new_count: bigint }[]>(
+    `
+      SELECT
+        COUNT(*) AS count,
+        COUNT(*) FILTER (WHERE a."createdAt" > $${paramIndex}::timestamp) AS new_count
+      FROM "Artwork" a
+      LEFT JOIN "Artist" artist ON a."artistId" = artist.id
+      ${whereSQL}
+    `,
+    ...sqlParams,
+    since
+  )
+
+  return {
+    artworkCount: Number(result[0]?.count || 0),
+    newCount: Number(result[0]?.new_count || 0)
+  }
+}
@@ -0,0 +1,170 @@
+import 'server-only'
+
+import path from 'path'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { storageLayoutTemplateSchema } from '@pixishelf/job-contracts'
+import {
+  caseFoldPath,
+  MigrationPermanentError,
+  normalizeStoredRelativePath,
+  renderStorageLayoutDirectory,
+  storageLayoutCollisionDirectory,
+  storageLayoutProvider
+} from '@pixishelf/job-executors'
+
+/**
+ * 预览状态
+ * - UNCHANGED：作品已位于目标目录，迁移会跳过
+ * - MOVE：迁移会把作品移动到目标目录
+ * - COLLISION：目标目录已属于其他作品，迁移会改用追加 `~作品ID` 的目录
+ * - CONFLICT：追加作品 ID 后仍被占用，迁移会停在待处理状态
+ * - INVALID：模板无法为该作品生成安全路径
+ * - INCOMPLETE：缺少艺术家 userId、externalId 或媒体，迁移不会处理
+ */
+export type StorageLayoutPreviewStatus = 'UNCHANGED' | 'MOVE' | 'COLLISION' | 'CONFLICT' | 'INVALID' | 'INCOMPLETE'
+
+export interface StorageLayoutPreviewItem {
+  artworkId: number
+  title: string
+  currentDirectory: string | null
+  targetDirectory: string | null
+  status: StorageLayoutPreviewStatus
+  reason: string | null
+}
+
+export interface StorageLayoutPreviewInput {
+  template: string
+  cursor?: number | null
+  limit: number
+}
+
+export interface StorageLayoutPreviewResult {
+  items: StorageLayoutPreviewItem[]
+  nextCursor: number | null
+}
+
+const previewArtworkSelect = {
+  id: true,
+  title: true,
+  externalId: true,
+  source: true,
+  storagePath: true,
+  artist: { select: { userId: true, name: true } },
+  externalRefs: {
+    select: { providerKey: true },
+    orderBy: [{ createdAt: 'asc' as const }, { id: 'asc' as const }],
+    take: 1
+  },
+  images: { select: { path: true }, orderBy: { id: 'asc' as const }, take: 1 }
+} satisfies Prisma.ArtworkSelect
+
+type PreviewArtwork = Prisma.ArtworkGetPayload<{ select: typeof previewArtworkSelect }>
+
+/**
+ * 以只读方式预览存储布局模板会如何移动现有作品。
+ * 与 MIGRATION 执行器使用同一渲染与冲突规则；同一页内按作品 ID 顺序模拟先到先得，
+ * 跨页或执行期间的占用变化以实际迁移时的检查为准。
+ */
+export async function previewStorageLayout(input: StorageLayoutPreviewInput): Promise<StorageLayoutPreviewResult> {
+  const template = storageLayoutTemplateSchema.parse(input.template)
+  const rows = await prisma.artwork.findMany({
+    where: { deletedAt: null, ...(input.cursor ? { id: { gt: input.cursor } } : {}) },
+    orderBy: { id: 'asc' },
+    take: input.limit + 1,
+    select: previewArtworkSelect
+  })
+  const page = rows.slice(0, input.limit)
+  const rendered = page.map((row) => renderPreviewTarget(template, row))
+  const candidates = rendered.flatMap((item) =>
+    item.target ? [item.target, storageLayoutCollisionDirectory(item.target, item.row.id)] : []
+  )
+  const owners = await findStoragePathOwners(candidates)
+  // 同页中较早的作品先迁移并占用目录，后续作品按执行器规则回退
+  const claimed = new Map<string, number>()
+  const isTaken = (directory: string, artworkId: number) => {
+    const key = caseFoldPath(directory)
+    const claimedBy = claimed.get(key)
+    return (
+      (claimedBy !== undefined && claimedBy !== artworkId) ||
+      (owners.get(key) ?? []).some((ownerId) => ownerId !== artworkId)
+    )
+  }
+
+  const items = rendered.map(({ row, currentDirectory, target, status, reason }): StorageLayoutPreviewItem => {
+    const base = { artworkId: row.id, title: row.title, currentDirectory }
+    if (!target) return { ...base, targetDirectory: null, status: status!, reason }
+    let targetDirectory = target
+    let nextStatus: StorageLayoutPreviewStatus = 'MOVE'
+    if (isTaken(target, row.id)) {
+      targetDirectory = storageLayoutCollisionDirectory(target, row.id)
+      nextStatus = 'COLLISION'
+      if (isTaken(targetDirectory, row.id)) {
+        return { ...base, targetDirectory, status: 'CONFLICT', reason: '目标目录已属于其他作品' }
+      }
+    }
+    claimed.set(caseFoldPath(targetDirectory), row.id)
+    if (currentDirectory && caseFoldPath(currentDirectory) === caseFoldPath(targetDirectory)) {
+      nextStatus = 'UNCHANGED'
+    }
+    return { ...base, targetDirectory, status: nextStatus, reason: null }
+  })
+
+  return { items, nextCursor: rows.length > input.limit ? page.at(-1)!.id : null }
+}
+
+function renderPreviewTarget(template: string, row: PreviewArtwork) {
+  const currentDirectory = currentArtworkDirectory(row)
+  if (!row.artist?.userId || !row.externalId || row.images.length === 0) {
+    return {
+      row,
+      currentDirectory,
+      target: null,
+      status: 'INCOMPLETE' as const,
+      reason: '缺少艺术家 userId、externalId 或媒体'
+    }
+  }
+  try {
+    const target = renderStorageLayoutDirectory(template, {
+      artworkId: row.id,
+      externalId: row.externalId,
+      creatorId: row.artist.userId,
+      creator: row.artist.name,
+      title: row.title,
+      provider: storageLayoutProvider(row.source, row.externalRefs[0]?.providerKey ?? null)
+    })
+    return { row, currentDirectory, target, status: null, reason: null }
+  } catch (error) {
+    if (!(error instanceof MigrationPermanentError)) throw error
+    return { row, currentDirectory, target: null, status: 'INVALID' as const, reason: error.message }
+  }
+}
+
+function currentArtworkDirectory(row: PreviewArtwork) {
+  const stored = row.storagePath ?? (row.images[0] ? path.posix.dirname(row.images[0].path) : null)
+  if (!stored) return null
+  try {
+    return normalizeStoredRelativePath(stored)
+  } catch {
+    return stored
+  }
+}
+
+async function findStoragePathOwners(directories: string[]) {
+  const owners = new Map<string, number[]>()
+  if (directories.length === 0) return owners
+  const rows = await prisma.artwork.findMany({
+    where: {
+      OR: directories.flatMap((directory) =>
+        [directory, `/${directory}`].map((value) => ({ storagePath: { equals: value, mode: 'insensitive' as const } }))
+      )
+    },
+    select: { id: true, storagePath: true }
+  })
+  for (const row of rows) {
+    if (!row.storagePath) continue
+    const key = caseFoldPath(row.storagePath)
+    owners.set(key, [...(owners.get(key) ?? []), row.id])
+  }
+  return owners
+}
@@ -0,0 +1,315 @@
+import 'server-only'
+
+import type { ArtworkTagProvenance, Prisma, TranslateType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  TAG_MERGE_UNDO_WINDOW_DAYS,
+  type TagMergeItem,
+  type TagMergeListQuerySchema,
+  type TagMergeSchema
+} from '@/schemas/tag-rule.dto'
+import {
+  collectImpliedTagIds,
+  refreshTagArtworkCounts,
+  syncImpliedTags,
+  TAG_RULE_TAG_SELECT,
+  TagRuleError
+} from './tag-rule-service'
+
+/**
+ * 撤销合并所需的全部状态，写入 TagMerge.snapshot
+ */
+interface TagMergeSnapshot {
+  tag: {
+    id: number
+    namespace: string
+    name: string
+    name_zh: string | null
+    name_en: string | null
+    description: string | null
+    abstract: string | null
+    image: string | null
+    translateType: TranslateType
+    createdAt: string
+  }
+  /** moved=true 表示该行被改挂到目标标签；false 表示作品已有目标标签，源行随源标签删除 */
+  artworkTags: Array<{
+    artworkId: number
+    provenance: ArtworkTagProvenance
+    sourceRefId: string | null
+    createdAt: string
+    moved: boolean
+  }>
+  /** 从源标签改挂到目标标签的别名 */
+  movedAliasIds: number[]
+  /** 合并时为源标签名新建的别名 */
+  createdAliasId: number | null
+  /** 合并前涉及源标签的蕴含关系 */
+  implications: Array<{ tagId: number; impliedTagId: number; createdByUserId: string | null }>
+  /** 改挂到目标标签后新建的蕴含关系 */
+  createdImplicationIds: number[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface ImplicationRepointClient extends Pick<Prisma.TransactionClient, '$queryRawUnsafe'> {
+  tagImplication: {
+    findUnique(args: Prisma.TagImplicationFindUniqueArgs): Promise<{ id: number } | null>
+    create(args: Prisma.TagImplicationCreateArgs): Promise<{ id: number }>
+  }
+}
+
+/**
+ * 把源标签合并进目标标签
+ * @description 源标签的 ArtworkTag 行改挂到目标标签（保留 provenance 与来源），别名与蕴含关系一并迁移，
+ * 源标签名保留为别名，之后删除源标签；完整快照写入审计记录，可在撤销期限内恢复。
+ */
+export async function mergeTags(userId: string, input: TagMergeSchema, now = new Date()): Promise<TagMergeItem> {
+  const merge = await prisma.$transaction(async (tx) => {
+    const [source, target] = await Promise.all([
+      tx.tag.findUnique({ where: { id: input.sourceTagId } }),
+      tx.tag.findUnique({ where: { id: input.targetTagId }, select: { id: true, isSystem: true } })
+    ])
+    if (!source || !target) throw new TagRuleError('NOT_FOUND', '标签不存在')
+    if (source.isSystem) throw new TagRuleError('BAD_REQUEST', '系统标签不能被合并')
+
+    const [sourceRows, targetRows, aliases, implications] = await Promise.all([
+      tx.artworkTag.findMany({
+        where: { tagId: source.id },
+        select: { artworkId: true, provenance: true, sourceRefId: true, createdAt: true }
+      }),
+      tx.artworkTag.findMany({
+        where: { tagId: target.id, artwork: { artworkTags: { some: { tagId: source.id } } } },
+        select: { artworkId: true }
+      }),
+      tx.tagAlias.findMany({ where: { tagId: source.id }, select: { id: true } }),
+      tx.tagImplication.findMany({
+        where: { OR: [{ tagId: source.id }, { impliedTagId: source.id }] },
+        select: { tagId: true, impliedTagId: true, createdByUserId: true }
+      })
+    ])
+    const alreadyTagged = new Set(targetRows.map((row) => row.artworkId))
+    const movedArtworkIds = sourceRows.filter((row) => !alreadyTagged.has(row.artworkId)).map((row) => row.artworkId)
+
+    if (movedArtworkIds.length > 0) {
+      await tx.artworkTag.updateMany({
+        where: { tagId: source.id, artworkId: { in: movedArtworkIds } },
+        data: { tagId: target.id }
+      })
+    }
+    if (aliases.length > 0) {
+      await tx.tagAlias.updateMany({ where: { tagId: source.id }, data: { tagId: target.id } })
+    }
+    await tx.tag.delete({ where: { id: source.id } })
+
+    const createdAlias = await tx.tagAlias.create({
+      data: { namespace: source.namespace, name: source.name, tagId: target.id, createdByUserId: userId },
+      select: { id: true }
+    })
+    const createdImplicationIds = await repointImplications(tx, implications, source.id, target, userId)
+
+    const affected = await collectImpliedTagIds(tx, [target.id])
+    await syncImpliedTags(tx, affected)
+    await refreshTagArtworkCounts(tx, affected)
+
+    const snapshot: TagMergeSnapshot = {
+      tag: {
+        id: source.id,
+        namespace: source.namespace,
+        name: source.name,
+        name_zh: source.name_zh,
+        name_en: source.name_en,
+        description: source.description,
+        abstract: source.abstract,
+        image: source.image,
+        translateType: source.translateType,
+        createdAt: source.createdAt.toISOString()
+      },
+      artworkTags: sourceRows.map((row) => ({
+        artworkId: row.artworkId,
+        provenance: row.provenance,
+        sourceRefId: row.sourceRefId,
+        createdAt: row.createdAt.toISOString(),
+        moved: !alreadyTagged.has(row.artworkId)
+      })),
+      movedAliasIds: aliases.map((alias) => alias.id),
+      createdAliasId: createdAlias.id,
+      implications,
+      createdImplicationIds
+    }
+
+    return tx.tagMerge.create({
+      data: {
+        sourceTagId: source.id,
+        sourceNamespace: source.namespace,
+        sourceName: source.name,
+        targetTagId: target.id,
+        movedArtworkCount: movedArtworkIds.length,
+        snapshot: snapshot as unknown as Prisma.InputJsonValue,
+        mergedByUserId: userId,
+        createdAt: now,
+        undoDeadline: new Date(now.getTime() + TAG_MERGE_UNDO_WINDOW_DAYS * DAY_MS)
+      },
+      select: TAG_MERGE_SELECT
+    })
+  })
+
+  return toTagMergeItem(merge, now)
+}
+
+/**
+ * 撤销合并：按快照恢复源标签（沿用原 ID）、ArtworkTag 行、别名与蕴含关系
+ */
+export async function undoTagMerge(userId: string, mergeId: string, now = new Date()): Promise<TagMergeItem> {
+  const merge = await prisma.$transaction(async (tx) => {
+    const record = await tx.tagMerge.findUnique({ where: { id: mergeId } })
+    if (!record) throw new TagRuleError('NOT_FOUND', '合并记录不存在')
+    if (record.undoneAt) throw new TagRuleError('CONFLICT', '该合并已撤销')
+    if (record.undoDeadline <= now) throw new TagRuleError('BAD_REQUEST', '已超过撤销期限')
+    if (record.targetTagId === null) throw new TagRuleError('CONFLICT', '目标标签已被删除，无法撤销')
+
+    const snapshot = record.snapshot as unknown as TagMergeSnapshot
+    const targetTagId = record.targetTagId
+    const occupied = await tx.tag.findFirst({
+      where: {
+        OR: [{ id: snapshot.tag.id }, { namespace: snapshot.tag.namespace, name: snapshot.tag.name }]
+      },
+      select: { id: true }
+    })
+    if (occupied) throw new TagRuleError('CONFLICT', '已存在同名标签，无法撤销')
+
+    if (snapshot.createdAliasId !== null) {
+      await tx.tagAlias.deleteMany({ where: { id: snapshot.createdAliasId } })
+    }
+    await tx.tag.create({ data: { ...snapshot.tag, createdAt: new Date(snapshot.tag.createdAt) } })
+    if (snapshot.movedAliasIds.length > 0) {
+      await tx.tagAlias.updateMany({
+        where: { id: { in: snapshot.movedAliasIds }, tagId: targetTagId },
+        data: { tagId: snapshot.tag.id }
+      })
+    }
+
+    const movedArtworkIds = snapshot.artworkTags.filter((row) => row.moved).map((row) => row.artworkId)
+    if (movedArtworkIds.length > 0) {
+      await tx.artworkTag.updateMany({
+        where: { tagId: targetTagId, artworkId: { in: movedArtworkIds } },
+        data: { tagId: snapshot.tag.id }
+      })
+    }
+    // 改挂行若在合并后被删除，或作品原本就有目标标签，都按快照重建；期间被删除的作品与来源引用跳过
+    const [artworks, sourceRefs] = await Promise.all([
+      tx.artwork.findMany({
+        where: { id: { in: snapshot.artworkTags.map((row) => row.artworkId) } },
+        select: { id: true }
+      }),
+      tx.artworkExternalRef.findMany({
+        where: { id: { in: snapshot.artworkTags.flatMap((row) => (row.sourceRefId ? [row.sourceRefId] : [])) } },
+        select: { id: true }
+      })
+    ])
+    const existingArtworkIds = new Set(artworks.map((artwork) => artwork.id))
+    const existingSourceRefIds = new Set(sourceRefs.map((ref) => ref.id))
+    await tx.artworkTag.createMany({
+      data: snapshot.artworkTags
+        .filter((row) => existingArtworkIds.has(row.artworkId))
+        .map((row) => ({
+          artworkId: row.artworkId,
+          tagId: snapshot.tag.id,
+          provenance: row.provenance,
+          sourceRefId: row.sourceRefId && existingSourceRefIds.has(row.sourceRefId) ? row.sourceRefId : null,
+          createdAt: new Date(row.createdAt)
+        })),
+      skipDuplicates: true
+    })
+
+    if (snapshot.createdImplicationIds.length > 0) {
+      await tx.tagImplication.deleteMany({ where: { id: { in: snapshot.createdImplicationIds } } })
+    }
+    if (snapshot.implications.length > 0) {
+      const relatedTags = await tx.tag.findMany({
+        where: { id: { in: snapshot.implications.flatMap((row) => [row.tagId, row.impliedTagId]) } },
+        select: { id: true }
+      })
+      const existingTagIds = new Set(relatedTags.map((tag) => tag.id))
+      await tx.tagImplication.createMany({
+        data: snapshot.implications.filter(
+          (row) => existingTagIds.has(row.tagId) && existingTagIds.has(row.impliedTagId)
+        ),
+        skipDuplicates: true
+      })
+    }
+
+    const affected = await collectImpliedTagIds(tx, [snapshot.tag.id, targetTagId])
+    await syncImpliedTags(tx, affected)
+    await refreshTagArtworkCounts(tx, affected)
+
+    return tx.tagMerge.update({
+      where: { id: record.id },
+      data: { undoneAt: now, undoneByUserId: userId },
+      select: TAG_MERGE_SELECT
+    })
+  })
+
+  return toTagMergeItem(merge, now)
+}
+
+export async function listTagMerges(query: TagMergeListQuerySchema, now = new Date()): Promise<TagMergeItem[]> {
+  const merges = await prisma.tagMerge.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: query.limit,
+    select: TAG_MERGE_SELECT
+  })
+  return merges.map((merge) => toTagMergeItem(merge, now))
+}
+
+const TAG_MERGE_SELECT = {
+  id: true,
+  sourceTagId: true,
+  sourceNamespace: true,
+  sourceName: true,
+  movedArtworkCount: true,
+  createdAt: true,
+  undoDeadline: true,
+  undoneAt: true,
+  targetTag: { select: TAG_RULE_TAG_SELECT }
+} satisfies Prisma.TagMergeSelect
+
+function toTagMergeItem(
+  merge: Prisma.TagMergeGetPayload<{ select: typeof TAG_MERGE_SELECT }>,
+  now: Date
+): TagMergeItem {
+  return {
+    ...merge,
+    canUndo: merge.undoneAt === null && merge.targetTag !== null && merge.undoDeadline > now
+  }
+}
+
+/**
+ * 把涉及源标签的蕴含关系改挂到目标标签，跳过自环、已存在、以系统标签为目标和会形成循环的关系
+ */
+async function repointImplications(
+  tx: ImplicationRepointClient,
+  implications: TagMergeSnapshot['implications'],
+  sourceTagId: number,
+  target: { id: number; isSystem: boolean },
+  userId: string
+): Promise<number[]> {
+  const createdIds: number[] = []
+  for (const implication of implications) {
+    const tagId = implication.tagId === sourceTagId ? target.id : implication.tagId
+    const impliedTagId = implication.impliedTagId === sourceTagId ? target.id : implication.impliedTagId
+    if (tagId === impliedTagId || (impliedTagId === target.id && target.isSystem)) continue
+    const existing = await tx.tagImplication.findUnique({
+      where: { tagId_impliedTagId: { tagId, impliedTagId } },
+      select: { id: true }
+    })
+    if (existing) continue
+    if ((await collectImpliedTagIds(tx, [impliedTagId])).includes(tagId)) continue
+    const created = await tx.tagImplication.create({
+      data: { tagId, impliedTagId, createdByUserId: implication.createdByUserId ?? userId },
+      select: { id: true }
+    })
+    createdIds.push(created.id)
+  }
+  return createdIds
+}
@@ -0,0 +1,236 @@
+import 'server-only'
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { TagAliasCreateSchema, TagImplicationCreateSchema, TagRules, TagRuleTag } from '@/schemas/tag-rule.dto'
+
+export type TagRuleErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'BAD_REQUEST'
+
+export class TagRuleError extends Error {
+  constructor(
+    public readonly code: TagRuleErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'TagRuleError'
+  }
+}
+
+export const TAG_RULE_TAG_SELECT = {
+  id: true,
+  namespace: true,
+  name: true,
+  name_zh: true,
+  name_en: true,
+  isSystem: true,
+  artworkCount: true
+} satisfies Prisma.TagSelect
+
+/**
+ * 获取标签的别名与蕴含关系
+ */
+export async function getTagRules(tagId: number): Promise<TagRules> {
+  const [tag, aliases, implies, impliedBy] = await Promise.all([
+    prisma.tag.findUnique({ where: { id: tagId }, select: { id: true } }),
+    prisma.tagAlias.findMany({
+      where: { tagId },
+      orderBy: [{ namespace: 'asc' }, { name: 'asc' }],
+      select: { id: true, namespace: true, name: true, createdAt: true }
+    }),
+    prisma.tagImplication.findMany({
+      where: { tagId },
+      orderBy: { id: 'asc' },
+      select: { id: true, impliedTag: { select: TAG_RULE_TAG_SELECT } }
+    }),
+    prisma.tagImplication.findMany({
+      where: { impliedTagId: tagId },
+      orderBy: { id: 'asc' },
+      select: { id: true, tag: { select: TAG_RULE_TAG_SELECT } }
+    })
+  ])
+  if (!tag) throw new TagRuleError('NOT_FOUND', '标签不存在')
+
+  return {
+    aliases,
+    implies: implies.map(({ id, impliedTag }) => ({ id, tag: impliedTag satisfies TagRuleTag })),
+    impliedBy: impliedBy.map(({ id, tag }) => ({ id, tag: tag satisfies TagRuleTag }))
+  }
+}
+
+/**
+ * 新增别名：搜索与入库时遇到该写法都会解析为目标标签
+ * @description 已存在同名标签时应使用合并，否则两者会在入库时产生歧义
+ */
+export async function createTagAlias(userId: string, input: TagAliasCreateSchema) {
+  const [tag, sameNameTag, existingAlias] = await Promise.all([
+    prisma.tag.findUnique({ where: { id: input.tagId }, select: { id: true } }),
+    prisma.tag.findUnique({
+      where: { namespace_name: { namespace: input.namespace, name: input.name } },
+      select: { id: true }
+    }),
+    prisma.tagAlias.findUnique({
+      where: { namespace_name: { namespace: input.namespace, name: input.name } },
+      select: { id: true }
+    })
+  ])
+  if (!tag) throw new TagRuleError('NOT_FOUND', '标签不存在')
+  if (sameNameTag) throw new TagRuleError('CONFLICT', '已存在同名标签，请使用合并')
+  if (existingAlias) throw new TagRuleError('CONFLICT', '该别名已被占用')
+
+  return prisma.tagAlias.create({
+    data: { tagId: input.tagId, namespace: input.namespace, name: input.name, createdByUserId: userId },
+    select: { id: true, namespace: true, name: true, createdAt: true }
+  })
+}
+
+export async function deleteTagAlias(id: number): Promise<void> {
+  const result = await prisma.tagAlias.deleteMany({ where: { id } })
+  if (result.count === 0) throw new TagRuleError('NOT_FOUND', '别名不存在')
+}
+
+/**
+ * 新增蕴含关系，并立即为已有作品补齐派生标签
+ */
+export async function createTagImplication(userId: string, input: TagImplicationCreateSchema) {
+  return prisma.$transaction(async (tx) => {
+    const tags = await tx.tag.findMany({
+      where: { id: { in: [input.tagId, input.impliedTagId] } },
+      select: { id: true, isSystem: true }
+    })
+    const implied = tags.find((tag) => tag.id === input.impliedTagId)
+    if (tags.length !== 2 || !implied) throw new TagRuleError('NOT_FOUND', '标签不存在')
+    if (implied.isSystem) throw new TagRuleError('BAD_REQUEST', '系统标签由程序维护，不能作为蕴含目标')
+
+    const descendants = await collectImpliedTagIds(tx, [input.impliedTagId])
+    if (descendants.includes(input.tagId)) throw new TagRuleError('BAD_REQUEST', '该关系会形成循环蕴含')
+
+    const existing = await tx.tagImplication.findUnique({
+      where: { tagId_impliedTagId: { tagId: input.tagId, impliedTagId: input.impliedTagId } },
+      select: { id: true }
+    })
+    if (existing) throw new TagRuleError('CONFLICT', '蕴含关系已存在')
+
+    const implication = await tx.tagImplication.create({
+      data: { tagId: input.tagId, impliedTagId: input.impliedTagId, createdByUserId: userId },
+      select: { id: true }
+    })
+    const sync = await syncImpliedTags(tx, descendants)
+    await refreshTagArtworkCounts(tx, descendants)
+    return { id: implication.id, ...sync }
+  })
+}
+
+/**
+ * 删除蕴含关系，并撤回不再成立的派生标签
+ */
+export async function deleteTagImplication(id: number) {
+  return prisma.$transaction(async (tx) => {
+    const implication = await tx.tagImplication.findUnique({ where: { id }, select: { impliedTagId: true } })
+    if (!implication) throw new TagRuleError('NOT_FOUND', '蕴含关系不存在')
+
+    // 删除前收集下游标签，链条上所有派生结果都可能失去来源
+    const descendants = await collectImpliedTagIds(tx, [implication.impliedTagId])
+    await tx.tagImplication.delete({ where: { id } })
+    const sync = await syncImpliedTags(tx, descendants)
+    await refreshTagArtworkCounts(tx, descendants)
+    return sync
+  })
+}
+
+/**
+ * 沿蕴含关系向下展开的闭包（包含起点）
+ */
+export async function collectImpliedTagIds(
+  tx: Pick<Prisma.TransactionClient, '$queryRawUnsafe'>,
+  tagIds: number[]
+): Promise<number[]> {
+  if (tagIds.length === 0) return []
+  const rows = await tx.$queryRawUnsafe<Array<{ tag_id: number }>>(
+    `
+    WITH RECURSIVE closure(tag_id) AS (
+      SELECT unnest($1::int[])
+      UNION
+      SELECT ti."impliedTagId"
+      FROM tag_implications ti
+      JOIN closure c ON ti."tagId" = c.tag_id
+    )
+    SELECT tag_id FROM closure
+    `,
+    tagIds
+  )
+  return rows.map((row) => Number(row.tag_id))
+}
+
+/**
+ * 集合式校准指定标签的蕴含派生行
+ * @description 闭包只从作品自身的标签出发（非系统标签的 DERIVED 行除外），
+ * 因此缺少来源的派生行会被删除，缺失的会以 DERIVED 补齐；SOURCE/MANUAL 行不会被改动。
+ */
+export async function syncImpliedTags(
+  tx: Pick<Prisma.TransactionClient, '$queryRawUnsafe'>,
+  tagIds: number[]
+): Promise<{ inserted: number; removed: number }> {
+  if (tagIds.length === 0) return { inserted: 0, removed: 0 }
+  const [row] = await tx.$queryRawUnsafe<Array<{ inserted: number; removed: number }>>(
+    `
+    WITH RECURSIVE implied(artwork_id, tag_id) AS (
+      SELECT at."artworkId", ti."impliedTagId"
+      FROM "ArtworkTag" at
+      JOIN "Tag" t ON t.id = at."tagId"
+      JOIN tag_implications ti ON ti."tagId" = at."tagId"
+      WHERE at.provenance <> 'DERIVED' OR t."isSystem"
+      UNION
+      SELECT i.artwork_id, ti."impliedTagId"
+      FROM implied i
+      JOIN tag_implications ti ON ti."tagId" = i.tag_id
+    ),
+    scoped AS (
+      SELECT DISTINCT artwork_id, tag_id FROM implied WHERE tag_id = ANY($1::int[])
+    ),
+    removed AS (
+      DELETE FROM "ArtworkTag" at
+      USING "Tag" t
+      WHERE t.id = at."tagId"
+        AND at."tagId" = ANY($1::int[])
+        AND at.provenance = 'DERIVED'
+        AND NOT t."isSystem"
+        AND NOT EXISTS (
+          SELECT 1 FROM scoped s WHERE s.artwork_id = at."artworkId" AND s.tag_id = at."tagId"
+        )
+      RETURNING at.id
+    ),
+    inserted AS (
+      INSERT INTO "ArtworkTag" ("artworkId", "tagId", provenance)
+      SELECT artwork_id, tag_id, 'DERIVED'::"ArtworkTagProvenance"
+      FROM scoped
+      ON CONFLICT ("artworkId", "tagId") DO NOTHING
+      RETURNING id
+    )
+    SELECT
+      (SELECT COUNT(*) FROM inserted)::int AS inserted,
+      (SELECT COUNT(*) FROM removed)::int AS removed
+    `,
+    tagIds
+  )
+  return { inserted: Number(row?.inserted ?? 0), removed: Number(row?.removed ?? 0) }
+}
+
+/**
+ * 只重算受影响标签的 artworkCount；全量校准见 rebuildTagArtworkCounts
+ */
+export async function refreshTagArtworkCounts(
+  tx: Pick<Prisma.TransactionClient, '$executeRawUnsafe'>,
+  tagIds: number[]
+): Promise<void> {
+  if (tagIds.length === 0) return
+  await tx.$executeRawUnsafe(
+    `
+    UPDATE "Tag" t
+    SET
+      "artworkCount" = (SELECT COUNT(*) FROM "ArtworkTag" at WHERE at."tagId" = t.id)::int,
+      "updatedAt" = CURRENT_TIMESTAMP
+    WHERE t.id = ANY($1::int[])
+    `,
+    tagIds
+  )
+}
@@ -12,7 +12,7 @@ export interface TagListResult {
 /**
  * 构建全文搜索查询字符串 (tsquery)
  */
-function buildTsQuery(query: string): string {
+export function buildTsQuery(query: string): string {
   const cleanQuery = query.replace(/[^\w\s\u4e00-\u9fff]/g, ' ')
   const words = cleanQuery.split(/\s+/).filter((word) => word.length > 0)
 
@@ -0,0 +1,18 @@
+import 'server-only'
+
+import { prisma } from '@/lib/prisma'
+import { resolveDerivedMediaStoragePath, UGOIRA_STORAGE_ROOT } from '@/services/derived-media-storage-paths'
+
+/**
+ * 解析 ugoira 转换后的 WebM 文件路径。
+ * 转换结果记录的源文件大小与当前 zip 不一致时说明压缩包已被替换，返回 null 等待重新转换。
+ */
+export async function resolveUgoiraAnimationFile(imageId: number) {
+  const animation = await prisma.mediaUgoiraAnimation.findFirst({
+    where: { imageId, status: 'COMPLETED', outputPath: { not: null } },
+    select: { outputPath: true, sourceSize: true, image: { select: { size: true } } }
+  })
+  if (!animation?.outputPath) return null
+  if (animation.sourceSize == null || animation.image.size !== animation.sourceSize) return null
+  return resolveDerivedMediaStoragePath(UGOIRA_STORAGE_ROOT, animation.outputPath)
+}
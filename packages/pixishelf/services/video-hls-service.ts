@@ -0,0 +1,214 @@
+import 'server-only'
+
+import * as fs from 'node:fs/promises'
+import path from 'node:path'
+import { prisma } from '@/lib/prisma'
+import { isVideoFile } from '@/lib/media'
+import { resolveExistingPathWithinRoot } from '@/lib/safe-path'
+import { enqueueJob } from '@/services/background-task'
+import { systemJobWireSelect, toJobDto } from '@/services/background-task/job-serialization'
+import { resolveDerivedMediaStoragePath, VIDEO_HLS_STORAGE_ROOT } from '@/services/derived-media-storage-paths'
+import { getScanPath } from '@/services/setting.service'
+import { sourceFingerprintFromStat } from '@/services/video-keyframe-service'
+import {
+  evaluateVideoHlsCompatibility,
+  readVideoHlsRenditions,
+  VIDEO_HLS_MASTER_PLAYLIST,
+  VIDEO_HLS_POLICY_VERSION
+} from '@pixishelf/job-executors'
+import { JOB_DEFINITION_VERSION, videoHlsTranscodePayloadSchema } from '@pixishelf/job-contracts'
+import type { Prisma } from '@pixishelf/db'
+
+const VIDEO_HLS_ENQUEUE_LOCK = 7_283_462
+const ACTIVE_STATUSES = ['PENDING', 'RUNNING', 'PAUSING', 'PAUSED', 'RETRY_WAIT', 'CANCELLING'] as const
+const CANDIDATE_PAGE_SIZE = 500
+export const VIDEO_HLS_BATCH_LIMIT = 200
+/** 与 Worker 写入的文件名一一对应：主播放列表、各档位播放列表与单文件分片。 */
+const VIDEO_HLS_FILE_PATTERN = /^(?:master\.m3u8|\d{1,4}p\.(?:m3u8|ts))$/
+
+export function buildVideoHlsUrl(imageId: number, setId: string) {
+  return `/api/v1/media/${imageId}/hls/${encodeURIComponent(setId)}/${VIDEO_HLS_MASTER_PLAYLIST}`
+}
+
+export async function enqueueVideoHlsTranscode(input: { imageId: number; force: boolean; requestedByUserId: string }) {
+  const image = await prisma.image.findUnique({
+    where: { id: input.imageId },
+    select: { id: true, path: true, mediaType: true }
+  })
+  if (!image) throw new Error('Image not found')
+  if (String(image.mediaType).toUpperCase() !== 'VIDEO' && !isVideoFile(image.path)) {
+    throw new Error('Image is not a video')
+  }
+  const payload = videoHlsTranscodePayloadSchema.parse({
+    imageId: image.id,
+    relativePath: image.path.replace(/^[/\\]+/, ''),
+    force: input.force
+  })
+
+  return prisma.$transaction(async (transaction) => {
+    await transaction.$queryRawUnsafe(
+      'SELECT pg_advisory_xact_lock($1::integer, $2::integer)::text',
+      VIDEO_HLS_ENQUEUE_LOCK,
+      image.id
+    )
+    const existing = await transaction.systemJob.findFirst({
+      where: {
+        type: 'VIDEO_HLS_TRANSCODE',
+        definitionVersion: JOB_DEFINITION_VERSION,
+        status: { in: [...ACTIVE_STATUSES] },
+        payload: { path: ['imageId'], equals: image.id }
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, status: true, payload: true }
+    })
+    const existingPayload = existing ? videoHlsTranscodePayloadSchema.safeParse(existing.payload) : null
+    // 强制重建不能被一个普通任务吞掉；路径变化后的旧任务也不再复用。
+    if (
+      existing &&
+      existingPayload?.success &&
+      existingPayload.data.relativePath === payload.relativePath &&
+      (existingPayload.data.force || !payload.force)
+    ) {
+      return { jobId: existing.id, imageId: image.id, status: existing.status, reused: true }
+    }
+    const created = await enqueueJob(
+      {
+        type: 'VIDEO_HLS_TRANSCODE',
+        triggerSource: 'MANUAL',
+        requestedByUserId: input.requestedByUserId,
+        priority: 20,
+        maxAttempts: 3,
+        payload
+      },
+      { $transaction: (operation) => operation(transaction as unknown as Prisma.TransactionClient) }
+    )
+    return { jobId: created.id, imageId: image.id, status: created.status, reused: false }
+  })
+}
+
+/**
+ * 根据已探测的视频元数据预筛不兼容视频并逐个入队。
+ * 像素格式只能由 Worker 探测，此处未知即视为通过；Worker 会再次按完整探测结果判断并跳过兼容视频。
+ */
+export async function enqueueIncompatibleVideoHlsTranscodes(input: { requestedByUserId: string; limit?: number }) {
+  const limit = Math.min(Math.max(input.limit ?? VIDEO_HLS_BATCH_LIMIT, 1), VIDEO_HLS_BATCH_LIMIT)
+  const candidates: number[] = []
+  let scanned = 0
+  let cursor: number | undefined
+  while (candidates.length < limit) {
+    const images = await prisma.image.findMany({
+      where: {
+        mediaType: 'VIDEO',
+        videoMetadata: { is: { probeStatus: 'COMPLETED' } },
+        hlsSets: { none: { status: 'PUBLISHED', policyVersion: VIDEO_HLS_POLICY_VERSION } }
+      },
+      orderBy: { id: 'asc' },
+      take: CANDIDATE_PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        path: true,
+        size: true,
+        videoMetadata: { select: { videoCodec: true, audioCodec: true, duration: true } }
+      }
+    })
+    for (const image of images) {
+      scanned += 1
+      const metadata = image.videoMetadata
+      const reasons = evaluateVideoHlsCompatibility({
+        container: path.extname(image.path).toLowerCase(),
+        videoCodec: metadata?.videoCodec ?? null,
+        pixelFormat: null,
+        audioCodec: metadata?.audioCodec ?? null,
+        bitRate: image.size && metadata?.duration ? (Number(image.size) * 8) / metadata.duration : null
+      })
+      if (reasons.length > 0) candidates.push(image.id)
+      if (candidates.length >= limit) break
+    }
+    if (images.length < CANDIDATE_PAGE_SIZE) break
+    cursor = images.at(-1)!.id
+  }
+
+  let queued = 0
+  let reused = 0
+  for (const imageId of candidates) {
+    const result = await enqueueVideoHlsTranscode({ imageId, force: false, requestedByUserId: input.requestedByUserId })
+    if (result.reused) reused += 1
+    else queued += 1
+  }
+  return { scanned, incompatible: candidates.length, queued, reused, limit }
+}
+
+export async function getVideoHlsOverview() {
+  const [published, active, failed] = await Promise.all([
+    prisma.mediaVideoHlsSet.count({ where: { status: 'PUBLISHED' } }),
+    prisma.systemJob.count({ where: { type: 'VIDEO_HLS_TRANSCODE', status: { in: [...ACTIVE_STATUSES] } } }),
+    prisma.systemJob.count({ where: { type: 'VIDEO_HLS_TRANSCODE', status: 'FAILED' } })
+  ])
+  return { published, active, failed, batchLimit: VIDEO_HLS_BATCH_LIMIT }
+}
+
+export async function getVideoHlsDetails(imageId: number) {
+  const [published, job] = await Promise.all([
+    prisma.mediaVideoHlsSet.findFirst({
+      where: { imageId, status: 'PUBLISHED' },
+      orderBy: { publishedAt: 'desc' },
+      select: { id: true, reasons: true, renditions: true, publishedAt: true, policyVersion: true }
+    }),
+    prisma.systemJob.findFirst({
+      where: { type: 'VIDEO_HLS_TRANSCODE', payload: { path: ['imageId'], equals: imageId } },
+      orderBy: { createdAt: 'desc' },
+      select: systemJobWireSelect
+    })
+  ])
+  return {
+    published: published
+      ? {
+          id: published.id,
+          reasons: published.reasons,
+          renditions: readVideoHlsRenditions(published.renditions).map(({ name, width, height }) => ({
+            name,
+            width,
+            height
+          })),
+          publishedAt: published.publishedAt?.toISOString() ?? null,
+          outdatedPolicy: published.policyVersion !== VIDEO_HLS_POLICY_VERSION,
+          url: buildVideoHlsUrl(imageId, published.id)
+        }
+      : null,
+    job: job ? toJobDto(job) : null
+  }
+}
+
+/**
+ * 解析可对外提供的 HLS 文件；集合必须仍为 PUBLISHED。
+ * 主播放列表额外校验源视频指纹，源文件被替换后返回 null，让播放器回退原文件。
+ */
+export async function resolvePublishedVideoHlsFile(input: { imageId: number; setId: string; fileName: string }) {
+  if (!VIDEO_HLS_FILE_PATTERN.test(input.fileName)) return null
+  const set = await prisma.mediaVideoHlsSet.findFirst({
+    where: { id: input.setId, imageId: input.imageId, status: 'PUBLISHED' },
+    select: {
+      id: true,
+      sourceSize: true,
+      sourceMtimeMs: true,
+      image: { select: { path: true } }
+    }
+  })
+  if (!set) return null
+
+  if (input.fileName === VIDEO_HLS_MASTER_PLAYLIST) {
+    const scanPath = await getScanPath()
+    if (!scanPath) throw new Error('Scan path not configured')
+    try {
+      const sourcePath = await resolveExistingPathWithinRoot(scanPath, set.image.path.replace(/^[/\\]+/, ''))
+      const fingerprint = sourceFingerprintFromStat(await fs.stat(sourcePath))
+      if (fingerprint.size !== set.sourceSize || fingerprint.mtimeMs !== set.sourceMtimeMs) return null
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  return resolveDerivedMediaStoragePath(VIDEO_HLS_STORAGE_ROOT, `${input.imageId}/${set.id}/${input.fileName}`)
+}
@@ -0,0 +1,61 @@
+import 'server-only'
+
+import { prisma } from '@/lib/prisma'
+import { isVideoFile } from '@/lib/media'
+import { resolveDerivedMediaStoragePath, VIDEO_SUBTITLE_STORAGE_ROOT } from '@/services/derived-media-storage-paths'
+
+/** 与 Worker 生成的 cuid 轨道 ID 对应，避免把任意字符串带进查询。 */
+const SUBTITLE_TRACK_ID_PATTERN = /^[A-Za-z0-9_-]{1,120}$/
+
+export interface VideoSubtitleTrackResponse {
+  id: string
+  source: 'SIDECAR' | 'EMBEDDED'
+  language: string | null
+  label: string
+  isDefault: boolean
+  url: string
+}
+
+export function buildVideoSubtitleTrackUrl(imageId: number, trackId: string) {
+  return `/api/v1/media/${imageId}/subtitles/${encodeURIComponent(trackId)}`
+}
+
+/**
+ * 列出视频已转换完成的字幕轨道。
+ * 外挂字幕优先于内嵌字幕，同类按来源键排序，保证轨道顺序在重扫后保持稳定。
+ */
+export async function listVideoSubtitleTracks(imageId: number): Promise<VideoSubtitleTrackResponse[]> {
+  const image = await prisma.image.findUnique({
+    where: { id: imageId },
+    select: { id: true, path: true, mediaType: true }
+  })
+  if (!image) throw new Error('Image not found')
+  if (String(image.mediaType).toUpperCase() !== 'VIDEO' && !isVideoFile(image.path)) {
+    throw new Error('Image is not a video')
+  }
+
+  const tracks = await prisma.mediaVideoSubtitleTrack.findMany({
+    where: { imageId: image.id, status: 'COMPLETED', vttPath: { not: null } },
+    orderBy: [{ source: 'asc' }, { sourceKey: 'asc' }],
+    select: { id: true, source: true, language: true, label: true, isDefault: true }
+  })
+  return tracks.map((track, index) => ({
+    id: track.id,
+    source: track.source,
+    language: track.language,
+    label: track.label || track.language || `字幕 ${index + 1}`,
+    isDefault: track.isDefault,
+    url: buildVideoSubtitleTrackUrl(image.id, track.id)
+  }))
+}
+
+/** 解析已完成字幕轨道的 WebVTT 文件路径；轨道不存在或尚未转换完成时返回 null。 */
+export async function resolveVideoSubtitleFile(input: { imageId: number; trackId: string }) {
+  if (!SUBTITLE_TRACK_ID_PATTERN.test(input.trackId)) return null
+  const track = await prisma.mediaVideoSubtitleTrack.findFirst({
+    where: { id: input.trackId, imageId: input.imageId, status: 'COMPLETED' },
+    select: { vttPath: true }
+  })
+  if (!track?.vttPath) return null
+  return resolveDerivedMediaStoragePath(VIDEO_SUBTITLE_STORAGE_ROOT, track.vttPath)
+}
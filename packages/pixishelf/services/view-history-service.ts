@@ -0,0 +1,235 @@
+import 'server-only'
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { userSettingsWithDefaultsSchema } from '@/schemas/user-setting.dto'
+import { getUserSettings } from '@/services/user-setting-service'
+import type {
+  ViewHistoryEntry,
+  ViewHistoryHeartbeatSchema,
+  ViewHistoryListQuerySchema,
+  ViewHistoryStartSchema,
+  ViewStats,
+  ViewStatsDailyActivity,
+  ViewStatsRankItem
+} from '@/schemas/view-history.dto'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** 同一作品在该时间内重新打开（刷新、返回）时沿用上一条记录 */
+const VIEW_SESSION_RESUME_MS = 5 * 60 * 1000
+/** 心跳上报的时长不能超过距上次心跳的实际间隔，再留一点网络延迟的余量 */
+const HEARTBEAT_GRACE_SECONDS = 30
+/** 播放器最高倍速，视频观看时长按媒体时间计，可以超过实际经过的时间 */
+const MAX_PLAYBACK_RATE = 3
+const STATS_RANK_LIMIT = 10
+
+async function getRetentionDays(userId: string) {
+  const settings = userSettingsWithDefaultsSchema.parse(await getUserSettings(userId))
+  return settings.view_history_retention_days
+}
+
+function getRetentionCutoff(retentionDays: number, now = new Date()) {
+  return retentionDays > 0 ? new Date(now.getTime() - retentionDays * DAY_MS) : null
+}
+
+/**
+ * 开始一次浏览
+ * 保留天数为 0 表示用户暂停了记录，此时返回 null；新建记录前顺带清理超出保留期的旧记录
+ */
+export async function startViewHistory(userId: string, input: ViewHistoryStartSchema) {
+  const retentionDays = await getRetentionDays(userId)
+  if (retentionDays === 0) return null
+
+  const now = new Date()
+  const recent = await prisma.artworkViewHistory.findFirst({
+    where: {
+      userId,
+      artworkId: input.artworkId,
+      lastActiveAt: { gte: new Date(now.getTime() - VIEW_SESSION_RESUME_MS) }
+    },
+    orderBy: { lastActiveAt: 'desc' },
+    select: { id: true }
+  })
+  if (recent) return recent
+
+  const cutoff = getRetentionCutoff(retentionDays, now)
+  if (cutoff) {
+    await prisma.artworkViewHistory.deleteMany({ where: { userId, startedAt: { lt: cutoff } } })
+  }
+
+  return prisma.artworkViewHistory.create({
+    data: { userId, artworkId: input.artworkId, source: input.source },
+    select: { id: true }
+  })
+}
+
+/**
+ * 累加一次浏览心跳
+ * @returns 记录不存在或不属于当前用户时返回 false
+ */
+export async function recordViewHeartbeat(userId: string, input: ViewHistoryHeartbeatSchema) {
+  const session = await prisma.artworkViewHistory.findFirst({
+    where: { id: input.id, userId },
+    select: { lastActiveAt: true, mediaViewed: true }
+  })
+  if (!session) return false
+
+  const now = new Date()
+  const elapsedSec = Math.max(0, Math.ceil((now.getTime() - session.lastActiveAt.getTime()) / 1000))
+  const maxDurationSec = elapsedSec + HEARTBEAT_GRACE_SECONDS
+
+  await prisma.artworkViewHistory.update({
+    where: { id: input.id },
+    data: {
+      durationSec: { increment: Math.min(input.durationSec, maxDurationSec) },
+      videoWatchSec: { increment: Math.min(input.videoWatchSec, maxDurationSec * MAX_PLAYBACK_RATE) },
+      mediaViewed: Math.max(session.mediaViewed, input.mediaViewed),
+      lastActiveAt: now
+    }
+  })
+  return true
+}
+
+/**
+ * 浏览历史（按作品聚合，最近浏览在前）
+ * 暂停记录时不再按保留期过滤，已有记录保留到用户手动清空
+ */
+export async function listViewHistory(
+  userId: string,
+  query: ViewHistoryListQuerySchema
+): Promise<{ entries: ViewHistoryEntry[]; nextCursor?: number }> {
+  const cutoff = getRetentionCutoff(await getRetentionDays(userId))
+  const groups = await prisma.artworkViewHistory.groupBy({
+    by: ['artworkId'],
+    where: { userId, ...(cutoff ? { startedAt: { gte: cutoff } } : {}) },
+    _max: { lastActiveAt: true },
+    _count: { _all: true },
+    _sum: { durationSec: true, videoWatchSec: true },
+    orderBy: { _max: { lastActiveAt: 'desc' } },
+    skip: (query.cursor - 1) * query.pageSize,
+    take: query.pageSize + 1
+  })
+
+  const hasMore = groups.length > query.pageSize
+  const entries = groups.slice(0, query.pageSize).map((group) => ({
+    artworkId: group.artworkId,
+    lastViewedAt: (group._max.lastActiveAt ?? new Date(0)).toISOString(),
+    viewCount: group._count._all,
+    totalDurationSec: group._sum.durationSec ?? 0,
+    totalVideoWatchSec: group._sum.videoWatchSec ?? 0
+  }))
+
+  return { entries, nextCursor: hasMore ? query.cursor + 1 : undefined }
+}
+
+export async function removeViewHistory(userId: string, artworkId: number) {
+  const result = await prisma.artworkViewHistory.deleteMany({ where: { userId, artworkId } })
+  return result.count
+}
+
+export async function clearViewHistory(userId: string) {
+  const result = await prisma.artworkViewHistory.deleteMany({ where: { userId } })
+  return result.count
+}
+
+/**
+ * 生成统计区间内每一天的本地日期，保证没有浏览的日子也出现在每日活跃里
+ */
+export function buildActivityDates(days: number, timeZone: string, now = new Date()) {
+  const format = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+  const dates = new Set<string>()
+  for (let offset = days - 1; offset >= 0; offset -= 1) {
+    dates.add(format.format(new Date(now.getTime() - offset * DAY_MS)))
+  }
+  return Array.from(dates)
+}
+
+interface RankRow {
+  id: number
+  name: string
+  durationSec: bigint | number | null
+  viewCount: bigint | number
+}
+
+function toRankItem(row: RankRow): ViewStatsRankItem {
+  return {
+    id: row.id,
+    name: row.name,
+    durationSec: Number(row.durationSec ?? 0),
+    viewCount: Number(row.viewCount)
+  }
+}
+
+/**
+ * 浏览统计：停留时长最高的艺术家与标签、每日活跃
+ * @param params.userId 缺省时统计全部用户（管理后台）
+ */
+export async function getViewStats(params: { userId?: string; days: number; timeZone: string }): Promise<ViewStats> {
+  const { userId, days, timeZone } = params
+  const since = new Date(Date.now() - days * DAY_MS)
+  const userFilter = userId ? Prisma.sql`AND h."userId" = ${userId}` : Prisma.empty
+
+  const [totalsRows, artistRows, tagRows, dailyRows] = await Promise.all([
+    prisma.$queryRaw<
+      { viewCount: bigint; artworkCount: bigint; durationSec: bigint | null; videoWatchSec: bigint | null }[]
+    >`
+      SELECT
+        COUNT(*) AS "viewCount",
+        COUNT(DISTINCT h."artworkId") AS "artworkCount",
+        SUM(h."durationSec") AS "durationSec",
+        SUM(h."videoWatchSec") AS "videoWatchSec"
+      FROM "artwork_view_history" h
+      WHERE h."startedAt" >= ${since} ${userFilter}
+    `,
+    prisma.$queryRaw<RankRow[]>`
+      SELECT ar.id, ar.name, SUM(h."durationSec") AS "durationSec", COUNT(*) AS "viewCount"
+      FROM "artwork_view_history" h
+      JOIN "Artwork" a ON a.id = h."artworkId"
+      JOIN "Artist" ar ON ar.id = a."artistId"
+      WHERE h."startedAt" >= ${since} ${userFilter}
+      GROUP BY ar.id, ar.name
+      ORDER BY "durationSec" DESC, "viewCount" DESC
+      LIMIT ${STATS_RANK_LIMIT}
+    `,
+    prisma.$queryRaw<RankRow[]>`
+      SELECT t.id, COALESCE(t.name_zh, t.name) AS name, SUM(h."durationSec") AS "durationSec", COUNT(*) AS "viewCount"
+      FROM "artwork_view_history" h
+      JOIN "ArtworkTag" awt ON awt."artworkId" = h."artworkId"
+      JOIN "Tag" t ON t.id = awt."tagId"
+      WHERE h."startedAt" >= ${since} ${userFilter}
+      GROUP BY t.id, t.name_zh, t.name
+      ORDER BY "durationSec" DESC, "viewCount" DESC
+      LIMIT ${STATS_RANK_LIMIT}
+    `,
+    // startedAt 以 UTC 存储（timestamp without time zone），先标记为 UTC 再换算到用户时区
+    prisma.$queryRaw<{ date: string; durationSec: bigint | null; viewCount: bigint }[]>`
+      SELECT
+        to_char((h."startedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') AS date,
+        SUM(h."durationSec") AS "durationSec",
+        COUNT(*) AS "viewCount"
+      FROM "artwork_view_history" h
+      WHERE h."startedAt" >= ${since} ${userFilter}
+      GROUP BY 1
+    `
+  ])
+
+  const totals = totalsRows[0]
+  const dailyByDate = new Map(dailyRows.map((row) => [row.date, row]))
+  const daily: ViewStatsDailyActivity[] = buildActivityDates(days, timeZone).map((date) => {
+    const row = dailyByDate.get(date)
+    return { date, durationSec: Number(row?.durationSec ?? 0), viewCount: Number(row?.viewCount ?? 0) }
+  })
+
+  return {
+    days,
+    totals: {
+      viewCount: Number(totals?.viewCount ?? 0),
+      artworkCount: Number(totals?.artworkCount ?? 0),
+      durationSec: Number(totals?.durationSec ?? 0),
+      videoWatchSec: Number(totals?.videoWatchSec ?? 0)
+    },
+    topArtists: artistRows.map(toRankItem),
+    topTags: tagRows.map(toRankItem),
+    daily
+  }
+}
@@ -1,4 +1,5 @@
 import type { TRandomTagDto } from '@/schemas/tag.dto'
+import type { ReadingProgressView } from '@/schemas/reading-progress.dto'
 import { MediaType } from './media'
 
 export interface RandomImagesResponse {
@@ -31,6 +32,8 @@ export interface ViewerMediaItem {
   keyframesUrl?: string | null
   hasKeyframes?: boolean
   keyframeCount?: number
+  hlsUrl?: string | null
+  subtitlesUrl?: string | null
   hasAudio?: boolean | null
   duration?: number | null
 }
@@ -58,4 +61,6 @@ export interface RandomImageItem {
   tags: TRandomTagDto[]
   /** 当前用户是否点赞了该作品 */
   isLike: boolean
+  /** 当前用户在该作品上的阅读进度，用于恢复图集位置与视频播放进度 */
+  readingProgress?: Pick<ReadingProgressView, 'mediaIndex' | 'imageId' | 'videoPositionSec' | 'completed'> | null
 }